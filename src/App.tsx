@@ -39,6 +39,10 @@ export interface MeetingPoint {
   originalImageUrl?: string;
   type?: 'physical' | 'virtual';
   videoCallUrl?: string;
+  /** How many groups fit here at once; matching fills points in proportion (unset = no limit) */
+  capacity?: number;
+  accessible?: boolean;
+  tags?: string[];
 }
 
 export interface IceBreaker {
@@ -46,6 +50,56 @@ export interface IceBreaker {
   question: string;
 }
 
+export interface ScoringProfile {
+  weights: { notMet: number; team: number; topics: number };
+  hard: { notMet?: boolean; team?: boolean; topics?: boolean };
+}
+
+export interface RoleMatching {
+  /** One per group (mentor, investor, buyer) */
+  leadRole: string;
+  /** The other side (mentee, founder, seller) */
+  memberRole: string;
+  minMembers: number;
+  maxMembers: number;
+  /** Leftovers of the oversubscribed side meet each other instead of sitting out */
+  peerFallback: boolean;
+}
+
+export interface RegistrationQuestion {
+  id: string;
+  label: string;
+  type: 'single' | 'multi' | 'scale';
+  /** Answer choices (single / multi) */
+  options: string[];
+  /** Scale end points (scale only) */
+  scaleMin: number;
+  scaleMax: number;
+  /** similar/different add to the pair score; display is for the organizer only */
+  matchMode: 'similar' | 'different' | 'display';
+  /** Points for a fully similar (or fully different) pair */
+  weight: number;
+  required: boolean;
+}
+
+/** Series schedule (mirrors the server's recurrence.ts) */
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  /** Every n days / weeks / months */
+  interval: number;
+  /** Weekly only: 0 = Sunday … 6 = Saturday */
+  byWeekday: number[];
+  /** Monthly: same day of month, or same nth weekday ("2nd Tuesday") */
+  monthlyMode: 'day-of-month' | 'nth-weekday';
+  until: string | null;
+  count: number | null;
+  /** Skipped (deleted) occurrence dates */
+  exceptions: string[];
+}
+
+/** questionId → option (single), options (multi) or number (scale) */
+export type RegistrationAnswers = Record<string, string | string[] | number>;
+
 export interface Round {
   id: string;
   name: string;
@@ -56,6 +110,9 @@ export interface Round {
   matchingCompletedAt?: string;
   status?: 'draft' | 'scheduled' | 'registration-open' | 'confirmation-window' | 'walking' | 'finding' | 'networking' | 'completed';
   registeredCount?: number; // Number of registered participants for this round
+  maxParticipants?: number | null; // Seats in this round; overrides the session limit, null = session limit applies
+  isFull?: boolean; // Limited round with no spot left — new registrations join the waitlist
+  seatsLeft?: number | null; // Free seats in a limited round (event page), null = unlimited
 }
 
 export interface NetworkingSession {
@@ -64,6 +121,7 @@ export interface NetworkingSession {
   date: string;
   startTime: string;
   endTime: string;
+  timeZone?: string | null; // IANA zone the date and round times are in; null = legacy Central European time
   roundDuration: number;
   numberOfRounds: number;
   gapBetweenRounds?: number;
@@ -77,10 +135,21 @@ export interface NetworkingSession {
   registrationEnd?: string;
   isRecurring?: boolean;
   frequency?: 'daily' | 'weekly' | 'monthly';
+  seriesId?: string | null; // Recurring series this session is an occurrence of
+  occurrenceDate?: string | null; // Series date this occurrence fills (stays put if it's moved)
+  recurrence?: RecurrenceRule | null;
+  scope?: 'occurrence' | 'future'; // Edits to a series occurrence: just this one, or it and all later ones
   rounds: Round[];
   enableTeams?: boolean;
   allowMultipleTeams?: boolean;
   matchingType?: 'within-team' | 'across-teams';
+  matchingAlgorithm?: 'greedy' | 'optimal';
+  rememberAcrossSessions?: boolean;
+  meetingMemoryDays?: number | null; // null: the default 90 days
+  scoringProfile?: ScoringProfile | null;
+  planAllRounds?: boolean;
+  roleMatching?: RoleMatching | null;
+  registrationQuestions?: RegistrationQuestion[];
   teams?: string[];
   enableTopics?: boolean;
   allowMultipleTopics?: boolean;
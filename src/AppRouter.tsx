@@ -12,6 +12,7 @@ import type { NetworkingSession, SignUpData, ServiceType } from './App';
 import { debugLog, errorLog, infoLog } from './utils/debug';
 import { apiBaseUrl } from './utils/supabase/info';
 import { fetchSystemParameters } from './utils/systemParameters';
+import { ScheduleValidationError } from './utils/apiErrorHandler';
 
 // Component imports
 import { Homepage } from './components/Homepage';
@@ -63,6 +64,7 @@ const AdminParticipants = lazy(() => import('./components/AdminParticipants').th
 const AdminSessions = lazy(() => import('./components/AdminSessions').then(m => ({ default: m.AdminSessions })));
 const AdminStatusesGuide = lazy(() => import('./components/AdminStatusesGuide').then(m => ({ default: m.AdminStatusesGuide })));
 const AdminSmsOutbox = lazy(() => import('./components/AdminSmsOutbox').then(m => ({ default: m.AdminSmsOutbox })));
+const AdminEmailOutbox = lazy(() => import('./components/AdminEmailOutbox').then(m => ({ default: m.AdminEmailOutbox })));
 const AdminSystemTests = lazy(() => import('./components/AdminSystemTests').then(m => ({ default: m.AdminSystemTests })));
 const AdminParticipantFlow = lazy(() => import('./components/AdminParticipantFlow').then(m => ({ default: m.AdminParticipantFlow })));
 const AdminPagePreview = lazy(() => import('./components/AdminPagePreview').then(m => ({ default: m.AdminPagePreview })));
@@ -519,6 +521,7 @@ function RoundFormPageRoute() {
         organizerName={currentUser?.eventName || currentUser?.organizerName}
         profileImageUrl={currentUser?.profileImageUrl}
         userSlug={eventSlug}
+        defaultTimeZone={currentUser?.defaultTimeZone}
       />
 
       <Footer />
@@ -1162,6 +1165,30 @@ function AdminSmsOutboxRoute() {
   );
 }
 
+function AdminEmailOutboxRoute() {
+  const { currentUser, accessToken, isAdminUser, handleSignOut } = useApp();
+  const navigate = useNavigate();
+  return (
+    <>
+      <AuthenticatedNav
+        currentView="admin"
+        currentUser={currentUser}
+        isAdminUser={isAdminUser()}
+        onNavigateToDashboard={() => navigate('/dashboard')}
+        onNavigateToRounds={() => navigate('/rounds')}
+        onNavigateToAccountSettings={() => navigate('/account-settings')}
+        onNavigateToEventPageSettings={() => navigate('/event-page-settings')}
+        onNavigateToBilling={() => navigate('/billing')}
+        onNavigateToAdmin={() => navigate('/admin')}
+        onSignOut={handleSignOut}
+      />
+      <Suspense fallback={<RouteLoader />}>
+        <AdminEmailOutbox accessToken={accessToken} onBack={() => navigate('/admin')} />
+      </Suspense>
+    </>
+  );
+}
+
 function AdminStatusesGuideRoute() {
   const { currentUser, isAdminUser, handleSignOut } = useApp();
   const navigate = useNavigate();
@@ -1686,6 +1713,11 @@ function AppProviderWithRouter() {
             description: errorData.suggestion || 'Upgrade your plan or reduce max participants.',
             duration: 8000,
           });
+        } else if (errorData.error === 'invalid_schedule') {
+          toast.error('Please fix the schedule', {
+            description: errorData.message
+          });
+          throw new ScheduleValidationError(errorData.message, errorData.fieldErrors);
         } else {
           toast.error('Error creating round', {
             description: errorDetail
@@ -1727,6 +1759,7 @@ function AppProviderWithRouter() {
 
         if (response.ok) {
           debugLog('Session updated on backend');
+          const result = await response.json().catch(() => null);
 
           // Reload sessions from backend to ensure fresh data
           await loadSessions();
@@ -1736,6 +1769,25 @@ function AppProviderWithRouter() {
             const { toast } = await import('sonner@2.0.3');
             toast.success(`${sessionName} updated successfully`);
           }
+
+          // "All future occurrences": some later dates couldn't take the change
+          const skipped: Array<{ occurrenceDate: string; reason: string }> = result?.skippedOccurrences || [];
+          if (skipped.length > 0) {
+            const { toast } = await import('sonner@2.0.3');
+            toast.warning(`${skipped.length} later occurrence${skipped.length === 1 ? ' was' : 's were'} not changed`, {
+              description: skipped.map(o => `${o.occurrenceDate}: ${o.reason}`).join('\n'),
+              duration: 10000,
+            });
+          }
+
+          // Saved this occurrence, but the series around it couldn't be updated
+          if (result?.seriesError) {
+            const { toast } = await import('sonner@2.0.3');
+            toast.error(`${sessionName} saved, but its other occurrences were not updated`, {
+              description: result.seriesError,
+              duration: 10000,
+            });
+          }
         } else {
           // Revert optimistic update on failure
           setSessions(prevSessions =>
@@ -1755,6 +1807,11 @@ function AppProviderWithRouter() {
               description: errorData.suggestion || 'Upgrade your plan or reduce max participants.',
               duration: 8000,
             });
+          } else if (errorData.error === 'invalid_schedule') {
+            toast.error('Please fix the schedule', {
+              description: errorData.message
+            });
+            throw new ScheduleValidationError(errorData.message, errorData.fieldErrors);
           } else {
             toast.error('Error updating round', {
               description: errorData.error || 'Round updated locally but server sync failed.'
@@ -1762,6 +1819,9 @@ function AppProviderWithRouter() {
           }
         }
       } catch (error) {
+        // Already reverted above; the form shows these next to the fields
+        if (error instanceof ScheduleValidationError) throw error;
+
         errorLog('Error updating session on backend:', error);
         
         // Revert optimistic update on error
@@ -2139,6 +2199,7 @@ function AppProviderWithRouter() {
             h(Route, { path: '/admin/sessions', element: h(AdminRoute, null, h(AdminSessionsRoute)) }),
             h(Route, { path: '/admin/statuses-guide', element: h(AdminRoute, null, h(AdminStatusesGuideRoute)) }),
             h(Route, { path: '/admin/sms-outbox', element: h(AdminRoute, null, h(AdminSmsOutboxRoute)) }),
+            h(Route, { path: '/admin/email-outbox', element: h(AdminRoute, null, h(AdminEmailOutboxRoute)) }),
             h(Route, { path: '/admin/system-tests', element: h(AdminRoute, null, h(AdminSystemTestsRoute)) }),
             h(Route, { path: '/admin/participant-flow', element: h(AdminRoute, null, h(AdminParticipantFlowRoute)) }),
             h(Route, { path: '/admin/page-preview', element: h(AdminRoute, null, h(AdminPagePreviewRoute)) }),
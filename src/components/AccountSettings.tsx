@@ -2,17 +2,20 @@ import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { Save, Loader2 } from 'lucide-react';
+import { Save, Loader2, Copy, RefreshCw } from 'lucide-react';
 import { Skeleton } from './ui/skeleton';
 import { toast } from 'sonner@2.0.3';
 import { debugLog, errorLog } from '../utils/debug';
+import { getBrowserTimeZone, getTimeZoneOptions } from '../utils/timeZone';
+import { copyToClipboard } from '../utils/clipboard';
 
 interface AccountSettingsProps {
   accessToken: string;
   userEmail: string;
   onBack: () => void;
-  onProfileUpdate?: (updates: { organizerName?: string }) => void;
+  onProfileUpdate?: (updates: { organizerName?: string; defaultTimeZone?: string }) => void;
 }
 
 // ============================================================
@@ -22,6 +25,7 @@ interface AccountSettingsProps {
 export interface AccountSettingsViewProps {
   userEmail: string;
   organizerName: string;
+  defaultTimeZone: string;
   isLoading: boolean;
   isSaving: boolean;
   isChangingPassword: boolean;
@@ -32,7 +36,10 @@ export interface AccountSettingsViewProps {
   confirmPassword: string;
   newEmail: string;
   emailChangePassword: string;
+  calendarFeedUrl: string | null;
+  isResettingCalendarFeed: boolean;
   onOrganizerNameChange: (value: string) => void;
+  onDefaultTimeZoneChange: (value: string) => void;
   onCurrentPasswordChange: (value: string) => void;
   onNewPasswordChange: (value: string) => void;
   onConfirmPasswordChange: (value: string) => void;
@@ -43,11 +50,14 @@ export interface AccountSettingsViewProps {
   onSave: () => void;
   onPasswordChange: () => void;
   onEmailChange: () => void;
+  onCopyCalendarFeed: () => void;
+  onResetCalendarFeed: () => void;
 }
 
 export function AccountSettingsView({
   userEmail,
   organizerName,
+  defaultTimeZone,
   isLoading,
   isSaving,
   isChangingPassword,
@@ -58,7 +68,10 @@ export function AccountSettingsView({
   confirmPassword,
   newEmail,
   emailChangePassword,
+  calendarFeedUrl,
+  isResettingCalendarFeed,
   onOrganizerNameChange,
+  onDefaultTimeZoneChange,
   onCurrentPasswordChange,
   onNewPasswordChange,
   onConfirmPasswordChange,
@@ -69,6 +82,8 @@ export function AccountSettingsView({
   onSave,
   onPasswordChange,
   onEmailChange,
+  onCopyCalendarFeed,
+  onResetCalendarFeed,
 }: AccountSettingsViewProps) {
   return (
     <div className="flex-1">
@@ -102,6 +117,25 @@ export function AccountSettingsView({
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="defaultTimeZone">Default time zone</Label>
+                <div className="max-w-sm mt-2">
+                  <Select value={defaultTimeZone} onValueChange={onDefaultTimeZoneChange}>
+                    <SelectTrigger id="defaultTimeZone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getTimeZoneOptions().map(zone => (
+                        <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Used for new rounds. Each round can still pick its own.
+                </p>
+              </div>
+
               <div>
                 <Label>Email</Label>
                 <div className="max-w-sm">
@@ -223,6 +257,31 @@ export function AccountSettingsView({
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Calendar feed</CardTitle>
+              <CardDescription>Subscribe in Google Calendar, Outlook or Apple Calendar to see all your published rounds. Moved and cancelled rounds update automatically.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input value={calendarFeedUrl || ''} readOnly placeholder="Loading..." className="bg-muted font-mono text-xs" />
+                <Button onClick={onCopyCalendarFeed} disabled={!calendarFeedUrl} variant="outline" size="icon" title="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Anyone with this link can see your rounds. If it leaked, reset it — the old link stops working.
+              </p>
+              <Button onClick={onResetCalendarFeed} disabled={!calendarFeedUrl || isResettingCalendarFeed} variant="outline" className="w-full sm:w-auto">
+                {isResettingCalendarFeed ? (
+                  <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Resetting link...</>
+                ) : (
+                  <><RefreshCw className="h-4 w-4 mr-2" />Reset link</>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+
           <div className="flex justify-end">
             <Button onClick={onSave} disabled={isSaving} className="w-full sm:w-auto">
               {isSaving ? (
@@ -241,6 +300,7 @@ export function AccountSettingsView({
 
 export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdate }: AccountSettingsProps) {
   const [organizerName, setOrganizerName] = useState('');
+  const [defaultTimeZone, setDefaultTimeZone] = useState(getBrowserTimeZone());
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
@@ -251,12 +311,62 @@ export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdat
   const [confirmPassword, setConfirmPassword] = useState('');
   const [newEmail, setNewEmail] = useState('');
   const [emailChangePassword, setEmailChangePassword] = useState('');
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+  const [isResettingCalendarFeed, setIsResettingCalendarFeed] = useState(false);
 
   // Load current settings
   useEffect(() => {
     loadSettings();
+    loadCalendarFeed();
   }, []);
 
+  const loadCalendarFeed = async () => {
+    try {
+      const { authenticatedFetch } = await import('../utils/supabase/apiClient');
+      const response = await authenticatedFetch('/calendar-feed', {}, accessToken);
+      if (response.ok) {
+        const result = await response.json();
+        setCalendarFeedUrl(result.feedUrl || null);
+      } else {
+        errorLog('Failed to load calendar feed:', response.status);
+      }
+    } catch (error) {
+      errorLog('Error loading calendar feed:', error);
+    }
+  };
+
+  const handleCopyCalendarFeed = async () => {
+    if (!calendarFeedUrl) return;
+    try {
+      await copyToClipboard(calendarFeedUrl);
+      toast.success('Calendar link copied');
+    } catch (error) {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const handleResetCalendarFeed = async () => {
+    setIsResettingCalendarFeed(true);
+    try {
+      const { authenticatedFetch } = await import('../utils/supabase/apiClient');
+      const response = await authenticatedFetch('/calendar-feed/reset', { method: 'POST' }, accessToken);
+      if (response.ok) {
+        const result = await response.json();
+        setCalendarFeedUrl(result.feedUrl || null);
+        toast.success('Calendar link reset', {
+          description: 'Subscribe again with the new link',
+        });
+      } else {
+        toast.error('Failed to reset calendar link');
+      }
+    } catch (error) {
+      errorLog('Error resetting calendar feed:', error);
+      toast.error('Error resetting calendar link. Please try again.');
+    } finally {
+      setIsResettingCalendarFeed(false);
+    }
+  };
+
   const loadSettings = async () => {
     setIsLoading(true);
     try {
@@ -273,6 +383,7 @@ export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdat
         debugLog('Profile data received:', result);
         debugLog('Organizer name:', result.profile?.organizerName);
         setOrganizerName(result.profile?.organizerName || '');
+        setDefaultTimeZone(result.profile?.defaultTimeZone || getBrowserTimeZone());
       } else {
         const errorText = await response.text();
         errorLog('Failed to load settings:', response.status, errorText);
@@ -305,6 +416,7 @@ export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdat
           method: 'PUT',
           body: JSON.stringify({
             organizerName,
+            defaultTimeZone,
           }),
         },
         accessToken
@@ -322,12 +434,13 @@ export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdat
         if (currentUser) {
           const userData = JSON.parse(currentUser);
           userData.organizerName = organizerName;
+          userData.defaultTimeZone = defaultTimeZone;
           localStorage.setItem('oliwonder_current_user', JSON.stringify(userData));
         }
         
         // Notify parent component of profile update
         if (onProfileUpdate) {
-          onProfileUpdate({ organizerName });
+          onProfileUpdate({ organizerName, defaultTimeZone });
         }
       } else {
         const errorText = await response.text();
@@ -453,6 +566,7 @@ export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdat
     <AccountSettingsView
       userEmail={userEmail}
       organizerName={organizerName}
+      defaultTimeZone={defaultTimeZone}
       isLoading={isLoading}
       isSaving={isSaving}
       isChangingPassword={isChangingPassword}
@@ -463,7 +577,10 @@ export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdat
       confirmPassword={confirmPassword}
       newEmail={newEmail}
       emailChangePassword={emailChangePassword}
+      calendarFeedUrl={calendarFeedUrl}
+      isResettingCalendarFeed={isResettingCalendarFeed}
       onOrganizerNameChange={setOrganizerName}
+      onDefaultTimeZoneChange={setDefaultTimeZone}
       onCurrentPasswordChange={setCurrentPassword}
       onNewPasswordChange={setNewPassword}
       onConfirmPasswordChange={setConfirmPassword}
@@ -478,6 +595,8 @@ export function AccountSettings({ accessToken, userEmail, onBack, onProfileUpdat
       onSave={handleSave}
       onPasswordChange={handlePasswordChange}
       onEmailChange={handleEmailChange}
+      onCopyCalendarFeed={handleCopyCalendarFeed}
+      onResetCalendarFeed={handleResetCalendarFeed}
     />
   );
 }
@@ -1,6 +1,6 @@
 import { useNavigate } from 'react-router';
 import { Button } from './ui/button';
-import { Shield, MessageCircle, Users, ArrowLeft, UserCheck, BookOpen, ListOrdered, Calendar, Palette, Settings, Mail, Gift, FileText, Eye, TrendingDown, CreditCard, ChevronRight, SwatchBook, DollarSign, KeyRound, Contact, Languages, Zap, Bell } from 'lucide-react';
+import { Shield, MessageCircle, Users, ArrowLeft, UserCheck, BookOpen, ListOrdered, Calendar, Palette, Settings, Mail, Gift, FileText, Eye, TrendingDown, CreditCard, ChevronRight, SwatchBook, DollarSign, KeyRound, Contact, Languages, Zap, Bell, Inbox } from 'lucide-react';
 import { BUILD_VERSION } from '../BUILD_VERSION';
 import { Badge } from './ui/badge';
 
@@ -186,6 +186,14 @@ const adminTools = [
     route: '/admin/sms-outbox',
     category: 'operations',
   },
+  {
+    id: 'email-outbox',
+    title: 'Email outbox',
+    description: 'Every email sent, its delivery, bounces and resend',
+    icon: Inbox,
+    route: '/admin/email-outbox',
+    category: 'operations',
+  },
   {
     id: 'statuses-guide',
     title: 'Statuses guide',
@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { RefreshCw, Loader2, Send, CheckCircle2, XCircle, Clock, AlertTriangle, Search } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { apiBaseUrl } from '../utils/supabase/info';
+import { errorLog } from '../utils/debug';
+
+type EmailStatus = 'attempting' | 'sent' | 'delivered' | 'bounced' | 'complained' | 'failed';
+
+interface EmailRow {
+  id: string;
+  kind: string;
+  recipient: string;
+  subject: string;
+  status: EmailStatus;
+  /** Resend's email id */
+  providerMessageId: string | null;
+  /** Last Resend webhook event, e.g. 'email.delivery_delayed' */
+  providerStatus: string | null;
+  attempts: number;
+  lastError: string | null;
+  /** Set while a transient failure waits for the retry cron */
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  deliveredAt: string | null;
+  failedAt: string | null;
+  createdAt: string;
+}
+
+interface AdminEmailOutboxResponse {
+  emails: EmailRow[];
+  summary: Record<string, number>;
+}
+
+function statusColor(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (['delivered', 'sent'].includes(status)) return 'default';
+  if (status === 'attempting') return 'secondary';
+  if (['failed', 'bounced', 'complained'].includes(status)) return 'destructive';
+  return 'outline';
+}
+
+const KIND_LABELS: Record<string, string> = {
+  'magic-link': '🔑 magic link',
+  registration: '📝 registration',
+  welcome: '👋 welcome',
+  onboarding: '🧭 onboarding',
+  'lead-magnet': '📘 lead magnet',
+  'contact-shared': '🤝 contact shared',
+  'waitlist-offer': '🎟️ waitlist offer',
+  'match-updated': '🔁 match updated',
+  'round-notification': '⏰ round',
+  other: 'other',
+};
+
+function fmtTime(iso: string | null): string {
+  if (!iso) return '—';
+  const d = new Date(iso);
+  return d.toLocaleString('sk-SK', {
+    day: '2-digit', month: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  });
+}
+
+interface AdminEmailOutboxProps {
+  accessToken: string;
+  onBack: () => void;
+}
+
+export function AdminEmailOutbox({ accessToken, onBack }: AdminEmailOutboxProps) {
+  const qc = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [filter, setFilter] = useState<'all' | EmailStatus>('all');
+  const [kindFilter, setKindFilter] = useState<string>('all');
+
+  const { data, isLoading, refetch, isFetching } = useQuery<AdminEmailOutboxResponse>({
+    queryKey: ['adminEmailOutbox', recipient, filter, kindFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (recipient) params.set('recipient', recipient);
+      if (filter !== 'all') params.set('status', filter);
+      if (kindFilter !== 'all') params.set('kind', kindFilter);
+      const res = await fetch(`${apiBaseUrl}/admin/email-outbox?${params}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return res.json();
+    },
+    refetchInterval: 15000,
+  });
+
+  const resendMut = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`${apiBaseUrl}/admin/email-outbox/${id}/resend`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `HTTP ${res.status}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Email sent again');
+      qc.invalidateQueries({ queryKey: ['adminEmailOutbox'] });
+    },
+    onError: (e) => {
+      errorLog('email resend error', e);
+      toast.error('Resend failed: ' + (e instanceof Error ? e.message : String(e)));
+      qc.invalidateQueries({ queryKey: ['adminEmailOutbox'] });
+    },
+  });
+
+  const emails = data?.emails || [];
+  const summary = data?.summary || {};
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl flex-1">
+      <div className="flex items-center gap-4 mb-6">
+        <Button variant="ghost" size="sm" onClick={onBack}>← Back</Button>
+        <h1 className="text-3xl font-bold">Email outbox</h1>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+        <span className="text-sm text-muted-foreground">Auto-refresh every 15s</span>
+      </div>
+
+      {/* Summary strip — last 24h by status */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-6">
+        {[
+          { label: 'Delivered', key: 'delivered', icon: CheckCircle2, color: 'text-green-600' },
+          { label: 'Sent (no report yet)', key: 'sent', icon: Send, color: 'text-blue-600' },
+          { label: 'Attempting', key: 'attempting', icon: Clock, color: 'text-amber-600' },
+          { label: 'Failed', key: 'failed', icon: XCircle, color: 'text-red-600' },
+          { label: 'Bounced / spam', key: 'bounced', icon: AlertTriangle, color: 'text-orange-600' },
+        ].map(s => {
+          const Ico = s.icon;
+          const count = s.key === 'bounced' ? (summary.bounced || 0) + (summary.complained || 0) : summary[s.key] || 0;
+          return (
+            <Card key={s.key}>
+              <CardContent className="pt-4 flex items-center gap-3">
+                <Ico className={`h-5 w-5 ${s.color}`} />
+                <div>
+                  <div className="text-2xl font-bold">{count}</div>
+                  <div className="text-xs text-muted-foreground">{s.label} · 24h</div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Look up one address — "I never got my magic link" */}
+      <form
+        className="flex gap-2 mb-3 max-w-md"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setRecipient(search.trim());
+        }}
+      >
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="participant@example.com"
+        />
+        <Button type="submit" size="sm" variant="outline">
+          <Search className="h-4 w-4" />
+        </Button>
+        {recipient && (
+          <Button type="button" size="sm" variant="ghost" onClick={() => { setSearch(''); setRecipient(''); }}>
+            Clear
+          </Button>
+        )}
+      </form>
+
+      {/* Filters */}
+      <div className="flex gap-2 flex-wrap mb-3">
+        <span className="text-sm text-muted-foreground self-center">Filter:</span>
+        {(['all', 'sent', 'delivered', 'failed', 'bounced', 'complained'] as const).map(f => (
+          <Button key={f} size="sm" variant={filter === f ? 'default' : 'outline'} onClick={() => setFilter(f)}>
+            {f}
+          </Button>
+        ))}
+        <span className="w-2" />
+        {['all', ...Object.keys(KIND_LABELS)].map(k => (
+          <Button key={k} size="sm" variant={kindFilter === k ? 'default' : 'outline'} onClick={() => setKindFilter(k)}>
+            {k === 'all' ? 'all kinds' : KIND_LABELS[k]}
+          </Button>
+        ))}
+      </div>
+
+      {/* Emails */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {recipient ? `Emails to ${recipient}` : 'Emails'} — last 200, {emails.length} shown
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin" /></div>
+          ) : emails.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              {recipient ? 'No email was sent to this address.' : 'No matching emails.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-3">Created</th>
+                    <th className="py-2 pr-3">Kind</th>
+                    <th className="py-2 pr-3">Recipient</th>
+                    <th className="py-2 pr-3">Subject</th>
+                    <th className="py-2 pr-3">Status</th>
+                    <th className="py-2 pr-3">Last event</th>
+                    <th className="py-2 pr-3">Tries</th>
+                    <th className="py-2 pr-3">Delivered</th>
+                    <th className="py-2 pr-3">Err</th>
+                    <th className="py-2 pr-3">Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {emails.map(r => (
+                    <tr key={r.id} className="border-b">
+                      <td className="py-2 pr-3 font-mono text-xs">{fmtTime(r.createdAt)}</td>
+                      <td className="py-2 pr-3 text-xs" title={r.kind}>{KIND_LABELS[r.kind] || r.kind}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{r.recipient}</td>
+                      <td className="py-2 pr-3 text-xs max-w-[220px] truncate" title={r.subject}>{r.subject}</td>
+                      <td className="py-2 pr-3">
+                        <Badge variant={statusColor(r.status)}>{r.status}</Badge>
+                        {r.nextAttemptAt && (
+                          <div className="text-xs text-muted-foreground mt-1">retry {fmtTime(r.nextAttemptAt)}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-xs text-muted-foreground" title={r.providerMessageId || ''}>{r.providerStatus?.replace('email.', '') || '—'}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{r.attempts}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{fmtTime(r.deliveredAt)}</td>
+                      <td className="py-2 pr-3 text-xs text-red-600 max-w-[200px] truncate" title={r.lastError || ''}>{r.lastError?.slice(0, 40) || '—'}</td>
+                      <td className="py-2 pr-3">
+                        {r.status !== 'attempting' && (
+                          <Button size="sm" variant="outline" onClick={() => resendMut.mutate(r.id)} disabled={resendMut.isPending}>
+                            Resend
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -17,6 +17,17 @@ interface NotificationTexts {
   smsConfirmationReminder: string;  // sent BEFORE confirmation time
   smsRoundStartingSoon: string;      // sent AT confirmation time
   smsRoundEnded: string;             // sent AFTER networking
+  smsMatchUpdated: string;           // sent when the organizer edits a match
+  smsWaitlistOffer: string;          // sent when a waitlisted participant is offered a spot
+  pushMatched: string;               // web push when a participant is matched
+
+  // Answers to participants' SMS replies (YES / NO / STOP / START)
+  smsReplyConfirmed: string;
+  smsReplyCancelled: string;
+  smsReplyStopped: string;
+  smsReplyResumed: string;
+  smsReplyNotPossible: string;
+  smsReplyHelp: string;
 
   // Email Templates — one pair per notification point
   emailBeforeConfirmationSubject: string;
@@ -38,6 +49,17 @@ const DEFAULT_TEXTS: NotificationTexts = {
   smsConfirmationReminder: 'Hi {name}! Please confirm your attendance for "{sessionName}" round starting at {time}. Confirm here: {link}',
   smsRoundStartingSoon: '⏰ Reminder: "{sessionName}" round starts in {minutes} minutes at {location}!',
   smsRoundEnded: 'Hi {name}! Your "{sessionName}" round has ended. Share contacts with your matches: {link}',
+  smsMatchUpdated: 'Hi {name}! Your match for "{sessionName}" has changed. See who you are meeting: {link}',
+  smsWaitlistOffer: 'Hi {name}! A spot opened up in "{sessionName}" ({roundName}). Claim it by {deadline}: {link}',
+  pushMatched: "You're matched at {location}! Find {partners} there.",
+
+  // SMS reply answers
+  smsReplyConfirmed: "Thanks {firstName}, you're confirmed for {roundName} at {time}. See you at {sessionName}!",
+  smsReplyCancelled: "Done {firstName}, you're no longer registered for {roundName} at {time}. Changed your mind? {link}",
+  smsReplyStopped: "You won't get any more SMS from Wonderelo. Reply START to undo. Manage your notifications: {link}",
+  smsReplyResumed: "You'll get SMS from Wonderelo again. Reply STOP to opt out.",
+  smsReplyNotPossible: "Sorry, that didn't work: {reason} Your rounds: {link}",
+  smsReplyHelp: 'Reply YES to confirm your next round, NO to cancel it, or STOP for no more SMS. Your rounds: {link}',
 
   // Email — one pair per notification point
   emailBeforeConfirmationSubject: 'Your "{sessionName}" round starts soon',
@@ -313,6 +335,122 @@ export function AdminNotificationTexts({ accessToken, onBack }: AdminNotificatio
                 </p>
               </div>
 
+              {/* SMS after a manual match edit */}
+              <div className="space-y-2">
+                <Label htmlFor="smsMatchUpdated">
+                  SMS when a match is edited
+                  <span className="text-xs text-muted-foreground ml-2">
+                    (sent to everyone whose group the organizer changed — email is used when there is no phone number)
+                  </span>
+                </Label>
+                <Textarea
+                  id="smsMatchUpdated"
+                  value={currentTexts.smsMatchUpdated}
+                  onChange={(e) => updateText('smsMatchUpdated', e.target.value)}
+                  rows={3}
+                  className={isFieldChanged('smsMatchUpdated') ? 'border-amber-400 border-2' : ''}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {currentTexts.smsMatchUpdated.length} characters
+                  {isFieldChanged('smsMatchUpdated') && (
+                    <span className="text-amber-600 ml-2">(modified)</span>
+                  )}
+                </p>
+              </div>
+
+              {/* SMS when a waitlist spot is offered */}
+              <div className="space-y-2">
+                <Label htmlFor="smsWaitlistOffer">
+                  SMS when a waitlist spot opens
+                  <span className="text-xs text-muted-foreground ml-2">
+                    (sent to the next person on a full round's waitlist, with an email — also supports {'{roundName}'} and {'{deadline}'})
+                  </span>
+                </Label>
+                <Textarea
+                  id="smsWaitlistOffer"
+                  value={currentTexts.smsWaitlistOffer}
+                  onChange={(e) => updateText('smsWaitlistOffer', e.target.value)}
+                  rows={3}
+                  className={isFieldChanged('smsWaitlistOffer') ? 'border-amber-400 border-2' : ''}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {currentTexts.smsWaitlistOffer.length} characters
+                  {isFieldChanged('smsWaitlistOffer') && (
+                    <span className="text-amber-600 ml-2">(modified)</span>
+                  )}
+                </p>
+              </div>
+
+              {/* Push when matched */}
+              <div className="space-y-2">
+                <Label htmlFor="pushMatched">
+                  Push notification when matched
+                  <span className="text-xs text-muted-foreground ml-2">
+                    (web push to participants who enabled notifications — supports {'{location}'}, {'{partners}'}, {'{firstName}'}, {'{sessionName}'} and {'{roundName}'})
+                  </span>
+                </Label>
+                <Textarea
+                  id="pushMatched"
+                  value={currentTexts.pushMatched}
+                  onChange={(e) => updateText('pushMatched', e.target.value)}
+                  rows={2}
+                  className={isFieldChanged('pushMatched') ? 'border-amber-400 border-2' : ''}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {currentTexts.pushMatched.length} characters
+                  {isFieldChanged('pushMatched') && (
+                    <span className="text-amber-600 ml-2">(modified)</span>
+                  )}
+                </p>
+              </div>
+
+            </CardContent>
+          </Card>
+
+          {/* SMS reply answers */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-green-500/10 rounded-lg">
+                  <MessageSquare className="h-5 w-5 text-green-500" />
+                </div>
+                <div>
+                  <CardTitle>SMS reply answers</CardTitle>
+                  <CardDescription>
+                    Sent when a participant replies YES, NO, STOP or START to a reminder. Supports {'{firstName}'}, {'{sessionName}'}, {'{roundName}'}, {'{time}'} and {'{link}'}.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {([
+                { key: 'smsReplyConfirmed',   label: 'Reply YES — confirmed',      hint: 'their next round is now confirmed' },
+                { key: 'smsReplyCancelled',   label: 'Reply NO — cancelled',       hint: 'their next round is cancelled and the spot goes to the waitlist' },
+                { key: 'smsReplyStopped',     label: 'Reply STOP — SMS turned off', hint: 'no more SMS to this number from any event; email and push stay on' },
+                { key: 'smsReplyResumed',     label: 'Reply START — SMS back on',  hint: 'the number is taken off the opt-out list' },
+                { key: 'smsReplyNotPossible', label: 'Reply not possible',         hint: "e.g. the round already started — {reason} says why" },
+                { key: 'smsReplyHelp',        label: 'Reply not understood',       hint: 'any other text, or no round to confirm or cancel' },
+              ] as const).map(({ key, label, hint }) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={key}>
+                    {label}
+                    <span className="text-xs text-muted-foreground ml-2">({hint})</span>
+                  </Label>
+                  <Textarea
+                    id={key}
+                    value={currentTexts[key]}
+                    onChange={(e) => updateText(key, e.target.value)}
+                    rows={2}
+                    className={isFieldChanged(key) ? 'border-amber-400 border-2' : ''}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {currentTexts[key].length} characters
+                    {isFieldChanged(key) && (
+                      <span className="text-amber-600 ml-2">(modified)</span>
+                    )}
+                  </p>
+                </div>
+              ))}
             </CardContent>
           </Card>
 
@@ -19,7 +19,7 @@ import type { RoundDetail } from './ParticipantRoundDetail';
 import type { Contact } from './AddressBook';
 import type { ParticipantProfileFormData } from '../pages/ParticipantProfile';
 import type { Registration, SessionWithRounds } from './ParticipantDashboard';
-import type { Subscription, Invoice, CreditTransaction, BillingDetails } from './BillingSettings';
+import type { Subscription, Invoice, CreditTransaction, BillingDetails, SmsUsage } from './BillingSettings';
 import type { RoundRule } from './RoundRulesDialog';
 
 // Lazy-loaded views — each page's view (+ its deps) is only fetched when you actually
@@ -336,6 +336,8 @@ function PreviewParticipantDashboard() {
         sharedContactsByRound={sharedContactsByRound}
         roundSelections={new Map()}
         participantId="preview-participant"
+        seriesSubscriptions={[]}
+        waitlist={[]}
         globalNextUpcomingRoundId={null}
         hasFreshData={true}
         lastConfirmTimestamp={0}
@@ -358,6 +360,9 @@ function PreviewParticipantDashboard() {
         onRoundToggle={noop}
         onConfirmAttendance={noop}
         onConfirmationWindowExpired={noop}
+        onSeriesSubscriptionToggle={noop}
+        onClaimWaitlistSpot={noop}
+        onLeaveWaitlist={noop}
         onClearDebugLogs={noop}
         generateRoundTimeDisplay={(startTime, duration) => {
           if (!startTime) return 'To be set';
@@ -571,6 +576,7 @@ function PreviewContactSharing() {
   const [contactSharing, setContactSharing] = useState<Record<string, boolean>>({});
   const [feedback, setFeedback] = useState<Record<string, string[]>>({});
   const [customFeedback, setCustomFeedback] = useState<Record<string, string>>({});
+  const [blockedPartners, setBlockedPartners] = useState<Record<string, boolean>>({});
   const partner = MOCK_PARTICIPANTS[1];
   return (
     <ContactSharingPartnerFeedbackView
@@ -593,6 +599,10 @@ function PreviewContactSharing() {
       onContactToggle={(partnerId) =>
         setContactSharing(prev => ({ ...prev, [partnerId]: !prev[partnerId] }))
       }
+      blockedPartners={blockedPartners}
+      onBlockToggle={(partnerId) =>
+        setBlockedPartners(prev => ({ ...prev, [partnerId]: !prev[partnerId] }))
+      }
       onNext={() => {}}
     />
   );
@@ -848,6 +858,9 @@ function PreviewRegistration() {
           selectedSessions={selectedSessions}
           selectedRounds={selectedRounds}
           roundSelections={roundSelections}
+          sessionRoles={new Map()}
+          sessionAnswers={new Map()}
+          seriesOptIns={new Set()}
           registeredRoundsPerSession={new Map()}
           participantStatusMap={new Map()}
           globalNextUpcomingRoundId={null}
@@ -873,6 +886,9 @@ function PreviewRegistration() {
           onTeamSelect={() => {}}
           onTopicSelect={() => {}}
           onMultipleTopicsSelect={() => {}}
+          onRoleSelect={() => {}}
+          onAnswer={() => {}}
+          onSeriesToggle={() => {}}
           onUnregister={() => {}}
           onConfirmAttendance={() => {}}
           onContinue={() => {}}
@@ -1196,6 +1212,17 @@ function PreviewBilling() {
     },
   ];
 
+  const now = new Date();
+  const mockSmsUsage: SmsUsage = {
+    tier: '50',
+    quota: 500,
+    used: 412,
+    remaining: 88,
+    periodStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString(),
+    periodEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString(),
+    level: 'warning',
+  };
+
   const mockBillingDetails: BillingDetails = {
     name: 'Andy Double',
     email: 'billing@andyhoconfera.com',
@@ -1218,6 +1245,7 @@ function PreviewBilling() {
         subscription={mockSubscription}
         credits={[{ balance: 100, capacityTier: '50' }]}
         creditTransactions={mockCreditTransactions}
+        smsUsage={mockSmsUsage}
         invoices={mockInvoices}
         invoicesLoading={false}
         billingDetails={mockBillingDetails}
@@ -1292,6 +1320,7 @@ function PreviewOrganizerDashboard() {
 
 function PreviewAccountSettings() {
   const [organizerName, setOrganizerName] = useState('Andy');
+  const [defaultTimeZone, setDefaultTimeZone] = useState('Europe/Bratislava');
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -1305,6 +1334,7 @@ function PreviewAccountSettings() {
       <AccountSettingsView
         userEmail="andy@example.com"
         organizerName={organizerName}
+        defaultTimeZone={defaultTimeZone}
         isLoading={false}
         isSaving={false}
         isChangingPassword={false}
@@ -1315,7 +1345,10 @@ function PreviewAccountSettings() {
         confirmPassword={confirmPassword}
         newEmail={newEmail}
         emailChangePassword={emailChangePassword}
+        calendarFeedUrl="https://example.supabase.co/functions/v1/make-server-ce05600a/calendar/preview/feed.ics"
+        isResettingCalendarFeed={false}
         onOrganizerNameChange={setOrganizerName}
+        onDefaultTimeZoneChange={setDefaultTimeZone}
         onCurrentPasswordChange={setCurrentPassword}
         onNewPasswordChange={setNewPassword}
         onConfirmPasswordChange={setConfirmPassword}
@@ -1326,6 +1359,8 @@ function PreviewAccountSettings() {
         onSave={noop}
         onPasswordChange={noop}
         onEmailChange={noop}
+        onCopyCalendarFeed={noop}
+        onResetCalendarFeed={noop}
       />
     </div>
   );
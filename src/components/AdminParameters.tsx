@@ -26,6 +26,10 @@ const DEFAULT_PARAMETERS: SystemParameters = {
   notificationLateMinutes: 5,
   notificationLateEnabled: true,
   smsRoundEndedEnabled: true,
+  smsQuietHoursEnabled: true,
+  smsQuietHoursStart: 21,
+  smsQuietHoursEnd: 8,
+  pushNotificationsEnabled: true,
   emailBeforeConfirmationEnabled: false,
   emailAtConfirmationEnabled: false,
   emailAfterNetworkingEnabled: false,
@@ -35,6 +39,7 @@ const DEFAULT_PARAMETERS: SystemParameters = {
   minimalTimeToFirstRound: 10,
   findingTimeMinutes: 1,
   contactSharingDelayMinutes: 5,
+  waitlistClaimMinutes: 60,
   timePickerIntervalMinutes: 5,
   fireThreshold1: 5,
   fireThreshold2: 10,
@@ -77,6 +82,7 @@ const PARAM_DEFS: ParamDef[] = [
   { key: 'walkingTimeMinutes', label: 'Walking time', section: 'timing', type: 'number', min: 1, max: 10, unit: 'min' },
   { key: 'findingTimeMinutes', label: 'Finding time', section: 'timing', type: 'number', min: 1, max: 10, unit: 'min' },
   { key: 'contactSharingDelayMinutes', label: 'Contact sharing delay', section: 'timing', type: 'number', min: 0, max: 60, unit: 'min' },
+  { key: 'waitlistClaimMinutes', label: 'Waitlist offer claim time', section: 'timing', type: 'number', min: 5, max: 1440, unit: 'min' },
   { key: 'timePickerIntervalMinutes', label: 'Time picker interval', section: 'timing', type: 'number', min: 1, max: 15, unit: 'min' },
   // Notifications
   // BEFORE confirmation time (early warning)
@@ -89,6 +95,12 @@ const PARAM_DEFS: ParamDef[] = [
   // AFTER networking (round ended)
   { key: 'smsRoundEndedEnabled', label: 'SMS after networking — enabled', section: 'notifications', type: 'boolean' },
   { key: 'emailAfterNetworkingEnabled', label: 'Email after networking — enabled', section: 'notifications', type: 'boolean' },
+  // Quiet hours: non-urgent SMS wait until the end hour (session's local time)
+  { key: 'smsQuietHoursEnabled', label: 'SMS quiet hours — enabled', section: 'notifications', type: 'boolean' },
+  { key: 'smsQuietHoursStart', label: 'SMS quiet hours — from', section: 'notifications', type: 'number', min: 0, max: 23, unit: 'h' },
+  { key: 'smsQuietHoursEnd', label: 'SMS quiet hours — until', section: 'notifications', type: 'number', min: 0, max: 23, unit: 'h' },
+  // Web push instead of SMS for participants without a phone number
+  { key: 'pushNotificationsEnabled', label: 'Push when no phone number — enabled', section: 'notifications', type: 'boolean' },
   // UI
   { key: 'fireThreshold1', label: 'Fire 1 threshold', section: 'ui', type: 'number', min: 1, max: 100 },
   { key: 'fireThreshold2', label: 'Fire 2 threshold', section: 'ui', type: 'number', min: 1, max: 100 },
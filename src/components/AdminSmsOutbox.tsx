@@ -3,7 +3,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { RefreshCw, Loader2, Send, CheckCircle2, XCircle, Clock, AlertTriangle } from 'lucide-react';
+import { Input } from './ui/input';
+import { RefreshCw, Loader2, Send, CheckCircle2, XCircle, Clock, AlertTriangle, Trash2 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { apiBaseUrl } from '../utils/supabase/info';
 import { errorLog } from '../utils/debug';
@@ -26,13 +27,19 @@ interface ScheduleRow {
 interface OutboxRow {
   id: string;
   kind: string;
+  channel: 'sms' | 'email' | 'push';
   participant_id: string;
   round_id: string;
   target_send_at: string;
   status: string;
+  /** SMS gateway: 'twilio', 'vonage' or 'fake' */
+  provider: string | null;
+  /** The gateway's message id */
   twilio_sid: string | null;
   twilio_delivery_status: string | null;
   twilio_error_code: string | null;
+  /** Phone number, email address or "N browsers" for push */
+  recipient: string | null;
   phone_sent_to: string | null;
   attempts: number;
   last_error: string | null;
@@ -42,10 +49,30 @@ interface OutboxRow {
   created_at: string;
 }
 
+interface SmsQuotaRow {
+  organizerId: string;
+  organizerName: string | null;
+  email: string | null;
+  tier: string;
+  quota: number;
+  used: number;
+  remaining: number;
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
+interface SuppressionRow {
+  phone: string;
+  /** 'stop-reply' (participant texted STOP) or 'admin' */
+  reason: string;
+  note: string | null;
+  createdAt: string;
+}
+
 interface AdminSmsOutboxResponse {
   schedules: ScheduleRow[];
   outbox: OutboxRow[];
   summary: Record<string, number>;
+  quotas: SmsQuotaRow[];
 }
 
 function statusColor(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
@@ -56,6 +83,19 @@ function statusColor(status: string): 'default' | 'secondary' | 'destructive' |
   return 'outline';
 }
 
+const KIND_LABELS: Record<string, string> = {
+  'round-before-confirmation': '⏰ before',
+  'round-starting-soon': '🔔 starting',
+  'round-ended': '🏁 ended',
+  'round-matched': '🤝 matched',
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  sms: '📱 SMS',
+  email: '✉️ email',
+  push: '🔔 push',
+};
+
 function fmtTime(iso: string | null): string {
   if (!iso) return '—';
   const d = new Date(iso);
@@ -79,7 +119,9 @@ interface AdminSmsOutboxProps {
 export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
   const qc = useQueryClient();
   const [filter, setFilter] = useState<'all' | 'sent' | 'failed' | 'pending'>('all');
-  const [kindFilter, setKindFilter] = useState<'all' | 'round-starting-soon' | 'round-ended'>('all');
+  const [kindFilter, setKindFilter] = useState<string>('all');
+  const [channelFilter, setChannelFilter] = useState<'all' | OutboxRow['channel']>('all');
+  const [newSuppression, setNewSuppression] = useState('');
 
   const { data, isLoading, refetch, isFetching } = useQuery<AdminSmsOutboxResponse>({
     queryKey: ['adminSmsOutbox'],
@@ -90,7 +132,7 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
       return res.json();
     },
-    refetchInterval: 5000, // Poll every 5s since SMS are real-time events
+    refetchInterval: 5000, // Poll every 5s since notifications are real-time events
   });
 
   const resendMut = useMutation({
@@ -112,6 +154,57 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
     },
   });
 
+  const { data: suppressionData } = useQuery<{ suppressions: SuppressionRow[] }>({
+    queryKey: ['adminSmsSuppressions'],
+    queryFn: async () => {
+      const res = await fetch(`${apiBaseUrl}/admin/sms-suppressions`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return res.json();
+    },
+  });
+
+  const addSuppressionMut = useMutation({
+    mutationFn: async (phone: string) => {
+      const res = await fetch(`${apiBaseUrl}/admin/sms-suppressions`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone }),
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `HTTP ${res.status}`);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast.success(`${result.phone} won't get any more SMS`);
+      setNewSuppression('');
+      qc.invalidateQueries({ queryKey: ['adminSmsSuppressions'] });
+    },
+    onError: (e) => {
+      errorLog('add SMS opt-out error', e);
+      toast.error('Could not add number: ' + (e instanceof Error ? e.message : String(e)));
+    },
+  });
+
+  const removeSuppressionMut = useMutation({
+    mutationFn: async (phone: string) => {
+      const res = await fetch(`${apiBaseUrl}/admin/sms-suppressions/${encodeURIComponent(phone)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Number removed from the opt-out list');
+      qc.invalidateQueries({ queryKey: ['adminSmsSuppressions'] });
+    },
+    onError: (e) => {
+      errorLog('remove SMS opt-out error', e);
+      toast.error('Could not remove number: ' + (e instanceof Error ? e.message : String(e)));
+    },
+  });
+
   const schedules = data?.schedules || [];
   const outbox = (data?.outbox || []).filter(r => {
     if (filter !== 'all') {
@@ -120,15 +213,18 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
       if (filter === 'pending' && !['attempting'].includes(r.status)) return false;
     }
     if (kindFilter !== 'all' && r.kind !== kindFilter) return false;
+    if (channelFilter !== 'all' && (r.channel || 'sms') !== channelFilter) return false;
     return true;
   });
   const summary = data?.summary || {};
+  const quotas = data?.quotas || [];
+  const suppressions = suppressionData?.suppressions || [];
 
   return (
     <div className="container mx-auto p-6 max-w-7xl flex-1">
       <div className="flex items-center gap-4 mb-6">
         <Button variant="ghost" size="sm" onClick={onBack}>← Back</Button>
-        <h1 className="text-3xl font-bold">SMS outbox</h1>
+        <h1 className="text-3xl font-bold">Notification outbox</h1>
         <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
           {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
         </Button>
@@ -159,6 +255,60 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
         })}
       </div>
 
+      {/* Sent per channel — last 24h */}
+      <div className="flex gap-4 flex-wrap mb-6 text-sm text-muted-foreground">
+        {(['sms', 'email', 'push'] as const).map(ch => (
+          <span key={ch}>
+            {CHANNEL_LABELS[ch]}: {(summary[`${ch}:sent`] || 0) + (summary[`${ch}:delivered`] || 0)} sent · {(summary[`${ch}:failed`] || 0) + (summary[`${ch}:undelivered`] || 0)} failed
+          </span>
+        ))}
+      </div>
+
+      {/* SMS quotas — this month, per organizer */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>SMS quota this month — organizers who sent SMS</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {quotas.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No SMS sent this month.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-3">Organizer</th>
+                    <th className="py-2 pr-3">Tier</th>
+                    <th className="py-2 pr-3">Used</th>
+                    <th className="py-2 pr-3">Quota</th>
+                    <th className="py-2 pr-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {quotas.map(q => (
+                    <tr key={q.organizerId} className="border-b">
+                      <td className="py-2 pr-3" title={q.organizerId}>{q.organizerName || q.email || q.organizerId.slice(0, 8)}</td>
+                      <td className="py-2 pr-3 text-xs">{q.tier}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{q.used} ({Math.round((q.used / q.quota) * 100)}%)</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{q.quota}</td>
+                      <td className="py-2 pr-3">
+                        {q.level === 'exceeded' ? (
+                          <Badge variant="destructive">over quota — push only</Badge>
+                        ) : q.level === 'warning' ? (
+                          <Badge variant="secondary" className="text-amber-700"><AlertTriangle className="h-3 w-3 mr-1" />near limit</Badge>
+                        ) : (
+                          <Badge variant="outline">ok</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Schedules */}
       <Card className="mb-6">
         <CardHeader>
@@ -186,7 +336,7 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
                 <tbody>
                   {schedules.slice(0, 50).map(s => (
                     <tr key={s.id} className="border-b">
-                      <td className="py-2 pr-3">{s.kind === 'round-starting-soon' ? '🔔 start' : '🏁 end'}</td>
+                      <td className="py-2 pr-3">{KIND_LABELS[s.kind] || s.kind}</td>
                       <td className="py-2 pr-3 font-mono text-xs">{fmtTime(s.target_send_at)}</td>
                       <td className="py-2 pr-3"><Badge variant={statusColor(s.status)}>{s.status}</Badge></td>
                       <td className="py-2 pr-3 font-mono text-xs text-muted-foreground truncate max-w-[120px]" title={s.qstash_message_id || ''}>{(s.qstash_message_id || '—').slice(0, 14)}</td>
@@ -211,9 +361,15 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
           </Button>
         ))}
         <span className="w-2" />
-        {(['all', 'round-starting-soon', 'round-ended'] as const).map(k => (
+        {['all', ...Object.keys(KIND_LABELS)].map(k => (
           <Button key={k} size="sm" variant={kindFilter === k ? 'default' : 'outline'} onClick={() => setKindFilter(k)}>
-            {k === 'all' ? 'all kinds' : (k === 'round-starting-soon' ? '🔔 starting' : '🏁 ended')}
+            {k === 'all' ? 'all kinds' : KIND_LABELS[k]}
+          </Button>
+        ))}
+        <span className="w-2" />
+        {(['all', 'sms', 'email', 'push'] as const).map(ch => (
+          <Button key={ch} size="sm" variant={channelFilter === ch ? 'default' : 'outline'} onClick={() => setChannelFilter(ch)}>
+            {ch === 'all' ? 'all channels' : CHANNEL_LABELS[ch]}
           </Button>
         ))}
       </div>
@@ -232,11 +388,12 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
                 <thead>
                   <tr className="border-b text-left text-muted-foreground">
                     <th className="py-2 pr-3">Kind</th>
+                    <th className="py-2 pr-3">Channel</th>
                     <th className="py-2 pr-3">Target</th>
                     <th className="py-2 pr-3">Status</th>
                     <th className="py-2 pr-3">Delivery</th>
-                    <th className="py-2 pr-3">Phone</th>
-                    <th className="py-2 pr-3">Twilio SID</th>
+                    <th className="py-2 pr-3">Recipient</th>
+                    <th className="py-2 pr-3">Message ID</th>
                     <th className="py-2 pr-3">Sent</th>
                     <th className="py-2 pr-3">Delivered</th>
                     <th className="py-2 pr-3">Err</th>
@@ -246,12 +403,13 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
                 <tbody>
                   {outbox.slice(0, 200).map(r => (
                     <tr key={r.id} className="border-b">
-                      <td className="py-2 pr-3">{r.kind === 'round-starting-soon' ? '🔔' : '🏁'}</td>
+                      <td className="py-2 pr-3" title={r.kind}>{(KIND_LABELS[r.kind] || r.kind).split(' ')[0]}</td>
+                      <td className="py-2 pr-3 text-xs">{CHANNEL_LABELS[r.channel || 'sms']}</td>
                       <td className="py-2 pr-3 font-mono text-xs">{fmtTime(r.target_send_at)}</td>
                       <td className="py-2 pr-3"><Badge variant={statusColor(r.status)}>{r.status}</Badge></td>
                       <td className="py-2 pr-3 text-xs">{r.twilio_delivery_status || '—'}</td>
-                      <td className="py-2 pr-3 font-mono text-xs">{r.phone_sent_to || '—'}</td>
-                      <td className="py-2 pr-3 font-mono text-xs text-muted-foreground" title={r.twilio_sid || ''}>{(r.twilio_sid || '—').slice(0, 12)}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{r.recipient || r.phone_sent_to || '—'}</td>
+                      <td className="py-2 pr-3 font-mono text-xs text-muted-foreground" title={[r.provider, r.twilio_sid].filter(Boolean).join(': ')}>{(r.twilio_sid || '—').slice(0, 12)}</td>
                       <td className="py-2 pr-3 font-mono text-xs">{fmtTime(r.sent_at)}</td>
                       <td className="py-2 pr-3 font-mono text-xs">{fmtTime(r.delivered_at)}</td>
                       <td className="py-2 pr-3 text-xs text-red-600 max-w-[200px] truncate" title={r.last_error || ''}>{r.last_error?.slice(0, 40) || r.twilio_error_code || '—'}</td>
@@ -270,6 +428,61 @@ export function AdminSmsOutbox({ accessToken, onBack }: AdminSmsOutboxProps) {
           )}
         </CardContent>
       </Card>
+
+      {/* SMS opt-outs */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>SMS opt-outs — {suppressions.length} numbers never get SMS</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex gap-2 mb-4 max-w-md"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newSuppression.trim()) addSuppressionMut.mutate(newSuppression.trim());
+            }}
+          >
+            <Input
+              value={newSuppression}
+              onChange={(e) => setNewSuppression(e.target.value)}
+              placeholder="+421 900 123 456"
+            />
+            <Button type="submit" size="sm" disabled={!newSuppression.trim() || addSuppressionMut.isPending}>
+              Add
+            </Button>
+          </form>
+          {suppressions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No opted-out numbers.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-3">Number</th>
+                    <th className="py-2 pr-3">Reason</th>
+                    <th className="py-2 pr-3">Since</th>
+                    <th className="py-2 pr-3">Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suppressions.map(s => (
+                    <tr key={s.phone} className="border-b">
+                      <td className="py-2 pr-3 font-mono text-xs">{s.phone}</td>
+                      <td className="py-2 pr-3 text-xs" title={s.note || ''}>{s.reason === 'stop-reply' ? 'replied STOP' : 'added by admin'}{s.note ? ` · ${s.note}` : ''}</td>
+                      <td className="py-2 pr-3 font-mono text-xs">{fmtTime(s.createdAt)}</td>
+                      <td className="py-2 pr-3">
+                        <Button size="sm" variant="outline" onClick={() => removeSuppressionMut.mutate(s.phone)} disabled={removeSuppressionMut.isPending}>
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -2,8 +2,9 @@ import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
-import { Loader2, CreditCard, Calendar, AlertCircle, Coins, AlertTriangle, Download, FileText, ExternalLink, Settings, Mail, Pencil } from 'lucide-react';
+import { Loader2, CreditCard, Calendar, AlertCircle, Coins, AlertTriangle, Download, FileText, ExternalLink, Settings, Mail, Pencil, MessageSquare } from 'lucide-react';
 import { Skeleton } from './ui/skeleton';
+import { Progress } from './ui/progress';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -66,6 +67,16 @@ export interface BillingDetails {
   taxIds: { type: string; value: string }[];
 }
 
+export interface SmsUsage {
+  tier: string;
+  quota: number;
+  used: number;
+  remaining: number;
+  periodStart: string;
+  periodEnd: string;
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
 interface BillingSettingsProps {
   accessToken: string;
 }
@@ -75,6 +86,7 @@ export interface BillingSettingsViewProps {
   subscription: Subscription | null;
   credits: { balance: number; capacityTier: string }[];
   creditTransactions: CreditTransaction[];
+  smsUsage: SmsUsage | null;
   invoices: Invoice[];
   invoicesLoading: boolean;
   billingDetails: BillingDetails | null;
@@ -112,6 +124,7 @@ export function BillingSettingsView({
   subscription,
   credits,
   creditTransactions,
+  smsUsage,
   invoices,
   invoicesLoading,
   billingDetails,
@@ -250,6 +263,54 @@ export function BillingSettingsView({
             </Card>
           )}
 
+          {/* SMS usage */}
+          {smsUsage && (
+            <Card className={`mb-8 ${smsUsage.level !== 'ok' ? 'border-amber-200 dark:border-amber-800' : ''}`}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5" />
+                  SMS this month
+                </CardTitle>
+                <CardDescription>
+                  Reminders to your participants · {smsUsage.quota.toLocaleString()} SMS per month on your plan, resets {new Date(smsUsage.periodEnd).toLocaleDateString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  <div className="flex items-baseline justify-between text-sm">
+                    <span><span className="text-2xl font-bold">{smsUsage.used.toLocaleString()}</span> of {smsUsage.quota.toLocaleString()} used</span>
+                    <span className="text-muted-foreground">{smsUsage.remaining.toLocaleString()} left</span>
+                  </div>
+                  <Progress value={Math.min(100, (smsUsage.used / smsUsage.quota) * 100)} />
+
+                  {smsUsage.level === 'exceeded' ? (
+                    <div className="flex items-start gap-2 p-4 bg-destructive/10 rounded-lg border border-destructive/20">
+                      <AlertCircle className="h-5 w-5 text-destructive mt-0.5" />
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-destructive">SMS allowance used up</p>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Until {new Date(smsUsage.periodEnd).toLocaleDateString()}, participants get reminders by push notification and email instead. A bigger plan comes with more SMS.
+                        </p>
+                      </div>
+                    </div>
+                  ) : smsUsage.level === 'warning' && (
+                    <div className="flex items-start gap-2 p-4 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800">
+                      <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-amber-900 dark:text-amber-100">
+                          You've used {Math.round((smsUsage.used / smsUsage.quota) * 100)}% of your SMS this month
+                        </p>
+                        <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
+                          Once they run out, reminders go by push notification and email until {new Date(smsUsage.periodEnd).toLocaleDateString()}.
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Pricing Selector */}
           <PricingPanel accessToken={accessToken} hasSubscription={!!subscription} />
 
@@ -663,6 +724,7 @@ export function BillingSettings({ accessToken }: BillingSettingsProps) {
   const [subscription, setSubscription] = useState<Subscription | null>(null);
   const [credits, setCredits] = useState<{ balance: number; capacityTier: string }[]>([]);
   const [creditTransactions, setCreditTransactions] = useState<CreditTransaction[]>([]);
+  const [smsUsage, setSmsUsage] = useState<SmsUsage | null>(null);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
@@ -679,6 +741,7 @@ export function BillingSettings({ accessToken }: BillingSettingsProps) {
   useEffect(() => {
     loadSubscription();
     loadCredits();
+    loadSmsUsage();
     loadInvoices();
     loadBillingDetails();
 
@@ -758,6 +821,26 @@ export function BillingSettings({ accessToken }: BillingSettingsProps) {
     }
   };
 
+  const loadSmsUsage = async () => {
+    try {
+      const response = await fetch(
+        `${apiBaseUrl}/sms-usage`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setSmsUsage(data.usage || null);
+      }
+    } catch (error) {
+      errorLog('Error loading SMS usage:', error);
+    }
+  };
+
   const loadInvoices = async () => {
     try {
       setInvoicesLoading(true);
@@ -912,6 +995,7 @@ export function BillingSettings({ accessToken }: BillingSettingsProps) {
       subscription={subscription}
       credits={credits}
       creditTransactions={creditTransactions}
+      smsUsage={smsUsage}
       invoices={invoices}
       invoicesLoading={invoicesLoading}
       billingDetails={billingDetails}
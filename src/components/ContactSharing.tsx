@@ -30,6 +30,7 @@ interface NetworkingData {
   matchId: string;
   partners: Partner[];
   myContactSharing: Record<string, boolean>;
+  blockedPartnerIds?: string[];
 }
 
 type Page = 'partner-feedback' | 'wonderelo-feedback';
@@ -46,6 +47,8 @@ export interface ContactSharingPartnerFeedbackViewProps {
   onFeedbackToggle: (partnerId: string, feedbackId: string) => void;
   onCustomFeedbackChange: (partnerId: string, text: string) => void;
   onContactToggle: (partnerId: string) => void;
+  blockedPartners: Record<string, boolean>;
+  onBlockToggle: (partnerId: string) => void;
   onNext: () => void;
 }
 
@@ -57,6 +60,8 @@ export function ContactSharingPartnerFeedbackView({
   onFeedbackToggle,
   onCustomFeedbackChange,
   onContactToggle,
+  blockedPartners,
+  onBlockToggle,
   onNext,
 }: ContactSharingPartnerFeedbackViewProps) {
   return (
@@ -121,6 +126,20 @@ export function ContactSharingPartnerFeedbackView({
                   <Switch
                     checked={contactSharing[partner.id] || false}
                     onCheckedChange={() => onContactToggle(partner.id)}
+                    disabled={blockedPartners[partner.id] || false}
+                  />
+                </div>
+              </div>
+
+              <div className="px-4 pb-4 border-t border-border/50 pt-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="text-left">
+                    <p className="text-sm font-medium">Don't match me with {partner.firstName} again</p>
+                    <p className="text-xs text-muted-foreground">Private — {partner.firstName} won't be told</p>
+                  </div>
+                  <Switch
+                    checked={blockedPartners[partner.id] || false}
+                    onCheckedChange={() => onBlockToggle(partner.id)}
                   />
                 </div>
               </div>
@@ -216,6 +235,7 @@ export function ContactSharing() {
   const [contactSharing, setContactSharing] = useState<Record<string, boolean>>({});
   const [feedback, setFeedback] = useState<Record<string, string[]>>({});
   const [customFeedback, setCustomFeedback] = useState<Record<string, string>>({});
+  const [blockedPartners, setBlockedPartners] = useState<Record<string, boolean>>({});
   const [wondereloRating, setWondereloRating] = useState<string | null>(null);
   const [wondereloFeedback, setWondereloFeedback] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -286,6 +306,12 @@ export function ContactSharing() {
       });
       setContactSharing(initialSharing);
 
+      const initialBlocked: Record<string, boolean> = {};
+      (data.blockedPartnerIds || []).forEach((partnerId: string) => {
+        initialBlocked[partnerId] = true;
+      });
+      setBlockedPartners(initialBlocked);
+
       setIsLoading(false);
     } catch (err) {
       errorLog('[ContactSharing] Error:', err);
@@ -301,6 +327,40 @@ export function ContactSharing() {
     }));
   };
 
+  // Saved immediately (not on Next) — a block must hold even if the
+  // participant closes the page before finishing feedback
+  const handleBlockToggle = async (partnerId: string) => {
+    if (!token || !networkingData) return;
+    const blocked = !blockedPartners[partnerId];
+    setBlockedPartners(prev => ({ ...prev, [partnerId]: blocked }));
+    if (blocked) {
+      setContactSharing(prev => ({ ...prev, [partnerId]: false }));
+    }
+    try {
+      const response = await fetch(`${apiBaseUrl}/participant/${token}/block`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${publicAnonKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          matchId: networkingData.matchId,
+          partnerId,
+          blocked,
+        }),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to save: ${errorText}`);
+      }
+      debugLog('[ContactSharing] Block preference saved');
+    } catch (err) {
+      errorLog('[ContactSharing] Error saving block preference:', err);
+      setBlockedPartners(prev => ({ ...prev, [partnerId]: !blocked }));
+      alert('Failed to save. Please try again.');
+    }
+  };
+
   const handleFeedbackToggle = (partnerId: string, feedbackId: string) => {
     setFeedback(prev => {
       const current = prev[partnerId] || [];
@@ -463,6 +523,8 @@ export function ContactSharing() {
           setCustomFeedback(prev => ({ ...prev, [partnerId]: text }))
         }
         onContactToggle={handleContactSharingToggle}
+        blockedPartners={blockedPartners}
+        onBlockToggle={handleBlockToggle}
         onNext={handleNext}
       />
     );
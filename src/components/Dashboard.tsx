@@ -13,6 +13,7 @@ import { OnboardingTour } from './OnboardingTour';
 // import { DownloadableAssets } from './DownloadableAssets';
 import { toast } from 'sonner@2.0.3';
 import { debugLog } from '../utils/debug';
+import { getSessionRoundStart } from '../utils/timeZone';
 import { useApp } from '../AppRouter';
 import { authenticatedFetch } from '../utils/supabase/apiClient';
 
@@ -299,9 +300,7 @@ export function Dashboard({
     const now = new Date();
     return session.rounds.some((round: any) => {
       if (!round.startTime) return false;
-      const [hours, minutes] = round.startTime.split(':').map(Number);
-      const roundStart = new Date(round.date || session.date);
-      roundStart.setHours(hours, minutes, 0, 0);
+      const roundStart = getSessionRoundStart(session, round);
       // Calculate round end time (start + duration)
       const duration = round.duration || session.roundDuration || 0;
       const roundEnd = new Date(roundStart.getTime() + duration * 60 * 1000);
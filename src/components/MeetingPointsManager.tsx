@@ -89,6 +89,26 @@ export function MeetingPointsManager({ meetingPoints, onChange }: MeetingPointsM
     onChange(updated);
   };
 
+  const updateMeetingPointCapacity = (index: number, value: string) => {
+    const capacity = parseInt(value, 10);
+    const updated = [...normalizedPoints];
+    updated[index] = { ...updated[index], capacity: capacity > 0 ? capacity : undefined };
+    onChange(updated);
+  };
+
+  const updateMeetingPointAccessible = (index: number, accessible: boolean) => {
+    const updated = [...normalizedPoints];
+    updated[index] = { ...updated[index], accessible: accessible || undefined };
+    onChange(updated);
+  };
+
+  const updateMeetingPointTags = (index: number, value: string) => {
+    const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+    const updated = [...normalizedPoints];
+    updated[index] = { ...updated[index], tags: tags.length > 0 ? tags : undefined };
+    onChange(updated);
+  };
+
   const handleImageUpload = async (index: number, file: File) => {
     // Validate file type - check both MIME type and extension for HEIC support
     const validExtensions = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.heic', '.heif'];
@@ -311,6 +331,49 @@ export function MeetingPointsManager({ meetingPoints, onChange }: MeetingPointsM
                   </div>
                 )}
 
+                {/* Capacity and attributes (physical only) */}
+                {(!point.type || point.type === 'physical') && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`capacity-${point.id}`} className="text-sm">
+                        Groups at once
+                      </Label>
+                      <Input
+                        id={`capacity-${point.id}`}
+                        type="number"
+                        min={1}
+                        placeholder="No limit"
+                        value={point.capacity ?? ''}
+                        onChange={(e) => updateMeetingPointCapacity(index, e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`tags-${point.id}`} className="text-sm">
+                        Tags
+                      </Label>
+                      <Input
+                        id={`tags-${point.id}`}
+                        placeholder="e.g. quiet, outdoor"
+                        defaultValue={(point.tags || []).join(', ')}
+                        onBlur={(e) => updateMeetingPointTags(index, e.target.value)}
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2 sm:col-span-2">
+                      <Checkbox
+                        id={`accessible-${point.id}`}
+                        checked={!!point.accessible}
+                        onCheckedChange={(checked) => updateMeetingPointAccessible(index, checked === true)}
+                      />
+                      <label
+                        htmlFor={`accessible-${point.id}`}
+                        className="text-sm cursor-pointer select-none"
+                      >
+                        Wheelchair accessible
+                      </label>
+                    </div>
+                  </div>
+                )}
+
                 {/* Image upload section (physical only) */}
                 {(!point.type || point.type === 'physical') && (
                 <div className="space-y-2">
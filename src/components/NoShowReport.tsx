@@ -11,6 +11,9 @@ interface NoShowReportProps {
   roundId: string;
   sessionId: string;
   participantId: string;
+  /** Magic-link token; authenticates the reporter. */
+  token: string;
+  /** Partner who didn't come; empty = everyone in the group who hasn't checked in */
   noShowParticipantId: string;
   onReportSubmitted: (newMatch?: any) => void;
   onCancel: () => void;
@@ -20,6 +23,7 @@ export function NoShowReport({
   roundId,
   sessionId,
   participantId,
+  token,
   noShowParticipantId,
   onReportSubmitted,
   onCancel
@@ -43,8 +47,9 @@ export function NoShowReport({
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
+            token,
             participantId,
-            noShowParticipantId,
+            noShowParticipantId: noShowParticipantId || undefined,
             sessionId,
             notes
           })
@@ -54,7 +59,9 @@ export function NoShowReport({
       if (response.ok) {
         const result = await response.json();
         setIsSubmitted(true);
-        toast.success('Report submitted. Finding you a new group...');
+        toast.success(result.stillMatched
+          ? 'Report submitted. The rest of your group is still on the way'
+          : 'Report submitted. Finding you a new group...');
         
         setTimeout(() => {
           onReportSubmitted(result.newMatch);
@@ -4,7 +4,7 @@ import { toast } from 'sonner@2.0.3';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Calendar, Clock, Users, Loader2, X, CheckCircle, BookUser } from 'lucide-react';
+import { Calendar, CalendarPlus, Clock, Users, Loader2, X, CheckCircle, BookUser, Repeat, Hourglass } from 'lucide-react';
 import { ParticipantLayout } from './ParticipantLayout';
 import { RoundItem } from './RoundItem';
 import { ServiceType, NetworkingSession, Round } from '../App';
@@ -24,6 +24,8 @@ import {
   AlertDialogTitle,
 } from './ui/alert-dialog';
 import { debugLog, errorLog } from '../utils/debug';
+import { getSessionRoundStart } from '../utils/timeZone';
+import { describeRecurrence, getSessionRecurrence } from '../utils/recurrence';
 import { useTime } from '../contexts/TimeContext';
 
 export interface Registration {
@@ -53,6 +55,20 @@ export interface Registration {
   identificationImageUrl?: string;
 }
 
+/** A round the participant is queued for (full limited session) */
+export interface WaitlistEntry {
+  sessionId: string;
+  roundId: string;
+  sessionName: string;
+  roundName: string;
+  date: string;
+  startTime: string;
+  timeZone?: string | null;
+  status: 'waiting' | 'offered';
+  position: number | null; // place in line while waiting
+  offerExpiresAt?: string | null; // claim deadline once a spot is offered
+}
+
 export interface SessionWithRounds {
   session: NetworkingSession;
   registeredRoundIds: Set<string>;
@@ -72,6 +88,9 @@ export interface ParticipantDashboardViewProps {
   sharedContactsByRound: Map<string, { firstName: string; lastName: string }[]>;
   roundSelections: Map<string, { team?: string; topic?: string; topics?: string[] }>;
   participantId: string;
+  seriesSubscriptions: string[]; // seriesIds auto-registering this participant for new dates
+  calendarFeedUrl?: string; // iCalendar feed of all registered rounds
+  waitlist: WaitlistEntry[];
   globalNextUpcomingRoundId: string | null;
   hasFreshData: boolean;
   lastConfirmTimestamp: number;
@@ -97,6 +116,9 @@ export interface ParticipantDashboardViewProps {
   onRoundToggle: (session: NetworkingSession, round: Round, isCurrentlyRegistered: boolean, status?: string) => void;
   onConfirmAttendance: (roundId: string) => void;
   onConfirmationWindowExpired: () => void;
+  onSeriesSubscriptionToggle: (seriesId: string, subscribe: boolean) => void;
+  onClaimWaitlistSpot: (roundId: string) => void;
+  onLeaveWaitlist: (roundId: string) => void;
   onClearDebugLogs: () => void;
   generateRoundTimeDisplay: (startTime: string, duration: number) => string;
   isRoundCompleted: (session: NetworkingSession, round: Round, roundStatus?: string) => boolean;
@@ -111,6 +133,9 @@ export function ParticipantDashboardView({
   sharedContactsByRound,
   roundSelections,
   participantId,
+  seriesSubscriptions,
+  calendarFeedUrl,
+  waitlist,
   globalNextUpcomingRoundId,
   hasFreshData,
   lastConfirmTimestamp,
@@ -132,6 +157,9 @@ export function ParticipantDashboardView({
   onRoundToggle,
   onConfirmAttendance,
   onConfirmationWindowExpired,
+  onSeriesSubscriptionToggle,
+  onClaimWaitlistSpot,
+  onLeaveWaitlist,
   onClearDebugLogs,
   generateRoundTimeDisplay,
   isRoundCompleted: _isRoundCompleted,
@@ -142,9 +170,73 @@ export function ParticipantDashboardView({
       lastName={lastName}
     >
       <div className="space-y-8 max-w-md mx-auto text-center">
+        {/* Waitlist section — offers first, they expire */}
+        {waitlist.length > 0 && (
+          <div>
+            <h2 className="mb-4">Waitlist</h2>
+            <div className="space-y-4">
+              {[...waitlist].sort((a, b) => (a.status === 'offered' ? 0 : 1) - (b.status === 'offered' ? 0 : 1)).map(entry => (
+                <Card key={entry.roundId} className={`max-w-md ${entry.status === 'offered' ? 'border-primary' : ''}`}>
+                  <CardContent className="p-4 text-left space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{entry.sessionName}</Badge>
+                      <span className="text-sm text-muted-foreground">{entry.roundName} • {entry.startTime}</span>
+                    </div>
+                    {entry.status === 'offered' ? (
+                      <>
+                        <p className="text-sm">
+                          A spot opened up for you!
+                          {entry.offerExpiresAt && ` Claim it by ${new Date(entry.offerExpiresAt).toLocaleString('en-US', {
+                            weekday: 'short',
+                            hour: '2-digit',
+                            minute: '2-digit'
+                          })}.`}
+                        </p>
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => onClaimWaitlistSpot(entry.roundId)}>
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Claim my spot
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => onLeaveWaitlist(entry.roundId)}>
+                            I can't make it
+                          </Button>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                          <Hourglass className="h-4 w-4" />
+                          {entry.position ? `#${entry.position} in line` : 'In line'} — we'll text and email you if a spot opens up
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => onLeaveWaitlist(entry.roundId)}
+                          className="text-sm text-muted-foreground underline hover:text-primary shrink-0"
+                        >
+                          Leave
+                        </button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Upcoming section */}
         <div>
           <h2 className="mb-4">Upcoming rounds</h2>
+          {/* webcal:// opens the calendar app's "subscribe" dialog */}
+          {calendarFeedUrl && registrations.length > 0 && (
+            <a
+              href={calendarFeedUrl.replace(/^https?:\/\//, 'webcal://')}
+              className="inline-flex items-center gap-1 text-sm text-muted-foreground underline hover:text-primary mb-4"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              Add my rounds to my calendar
+            </a>
+          )}
           <div className="space-y-4">
             {upcomingSessions.map(({ session, registeredRoundIds, registrationStatusMap }) => {
               const organizerReg = registrations.find(r => r.sessionId === session.id);
@@ -185,6 +277,20 @@ export function ParticipantDashboardView({
                       {session.limitParticipants ? `Max ${session.maxParticipants}` : 'Unlimited'} participants • Groups of {session.groupSize}
                     </div>
 
+                    {session.seriesId && (
+                      <div className="flex items-center gap-1 text-sm text-muted-foreground mb-1">
+                        <Repeat className="h-4 w-4" />
+                        {describeRecurrence(getSessionRecurrence(session), session.date)} •{' '}
+                        <button
+                          type="button"
+                          onClick={() => onSeriesSubscriptionToggle(session.seriesId!, !seriesSubscriptions.includes(session.seriesId!))}
+                          className="text-foreground underline hover:text-primary"
+                        >
+                          {seriesSubscriptions.includes(session.seriesId) ? 'Stop registering me for new dates' : 'Register me for all future dates'}
+                        </button>
+                      </div>
+                    )}
+
                     {session.rounds && session.rounds.length > 0 && (() => {
                       const registeredRounds = session.rounds.filter(round => {
                         const isCompleted = _isRoundCompleted(session, round);
@@ -282,9 +388,7 @@ export function ParticipantDashboardView({
                 for (const round of s.session.rounds || []) {
                   if (!s.registeredRoundIds.has(round.id)) continue;
                   try {
-                    const [h, m] = (round.startTime || '').split(':').map(Number);
-                    const d = new Date(round.date || s.session.date || '');
-                    d.setHours(h, m, 0, 0);
+                    const d = getSessionRoundStart(s.session, round);
                     if (d.getTime() > latest) latest = d.getTime();
                   } catch { /* skip */ }
                 }
@@ -537,6 +641,8 @@ export function ParticipantDashboard() {
   const [firstName, setFirstName] = useState(cachedDashboard.firstName);
   const [lastName, setLastName] = useState(cachedDashboard.lastName);
   const [participantId, setParticipantId] = useState(cachedDashboard.participantId);
+  const [seriesSubscriptions, setSeriesSubscriptions] = useState<string[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [registrations, setRegistrations] = useState<Registration[]>(cachedDashboard.registrations);
   
   // Track last optimistic update to prevent refetch from overwriting it
@@ -644,9 +750,7 @@ export function ParticipantDashboard() {
     }
     
     try {
-      const [hours, minutes] = round.startTime.split(':').map(Number);
-      const roundStart = new Date(round.date || session.date); // Use round.date, fallback to session.date for backwards compatibility
-      roundStart.setHours(hours, minutes, 0, 0);
+      const roundStart = getSessionRoundStart(session, round);
       
       // Add round duration to get end time
       const roundEnd = new Date(roundStart.getTime() + round.duration * 60000);
@@ -693,9 +797,7 @@ export function ParticipantDashboard() {
         
         for (const round of registeredRounds) {
           if (round.startTime && round.startTime !== 'To be set' && round.startTime !== 'TBD') {
-            const [hours, minutes] = round.startTime.split(':').map(Number);
-            const roundStart = new Date(round.date || session.date);
-            roundStart.setHours(hours, minutes, 0, 0);
+            const roundStart = getSessionRoundStart(session, round);
             
             // We want the earliest FUTURE round (after current time)
             if (roundStart.getTime() > now.getTime() && roundStart.getTime() < earliestTime) {
@@ -748,9 +850,7 @@ export function ParticipantDashboard() {
     if (regStatus !== 'confirmed') return;
 
     // Calculate time until T-0
-    const [hours, minutes] = round.startTime.split(':').map(Number);
-    const roundStart = new Date(round.date || sessionData.session.date);
-    roundStart.setHours(hours, minutes, 0, 0);
+    const roundStart = getSessionRoundStart(sessionData.session, round);
 
     const now = getCurrentTime();
     const msUntilStart = roundStart.getTime() - now.getTime();
@@ -1032,6 +1132,8 @@ export function ParticipantDashboard() {
       setFirstName(data.firstName || '');
       setLastName(data.lastName || '');
       setParticipantId(data.participantId || '');
+      setSeriesSubscriptions(data.seriesSubscriptions || []);
+      setWaitlist(data.waitlist || []);
       
       // Cache profile data in localStorage for instant display in other pages
       localStorage.setItem(`participant_profile_${token}`, JSON.stringify({
@@ -1261,6 +1363,64 @@ export function ParticipantDashboard() {
     }
   };
 
+  const handleSeriesSubscriptionToggle = async (seriesId: string, subscribe: boolean) => {
+    try {
+      const response = await fetch(
+        `${apiBaseUrl}/p/${token}/series/${seriesId}/subscribe`,
+        {
+          method: subscribe ? 'POST' : 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: subscribe ? JSON.stringify({}) : undefined,
+        }
+      );
+
+      if (response.ok) {
+        setSeriesSubscriptions(prev => subscribe ? [...prev, seriesId] : prev.filter(id => id !== seriesId));
+        toast.success(subscribe ? 'You\'re registered for all future dates' : 'New dates won\'t register you automatically');
+        // New registrations for upcoming dates show up after a refresh
+        if (subscribe) fetchData();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to update series registration');
+      }
+    } catch (error) {
+      errorLog('Error updating series subscription:', error);
+      toast.error('Failed to update series registration');
+    }
+  };
+
+  const handleWaitlistAction = async (roundId: string, action: 'claim' | 'leave') => {
+    try {
+      const response = await fetch(
+        `${apiBaseUrl}/p/${token}/waitlist/${roundId}/${action}`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${publicAnonKey}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      if (response.ok) {
+        toast.success(action === 'claim' ? 'The spot is yours — see you there!' : 'You left the waitlist');
+        setWaitlist(prev => prev.filter(entry => entry.roundId !== roundId));
+        // A claimed spot is a new registration
+        if (action === 'claim') fetchData();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to update waitlist');
+        fetchData();
+      }
+    } catch (error) {
+      errorLog('Error updating waitlist:', error);
+      toast.error('Failed to update waitlist');
+    }
+  };
+
   const handleConfirmAttendance = async (roundId: string) => {
     try {
       debugLog('=== CONFIRM START ===');
@@ -1651,9 +1811,7 @@ export function ParticipantDashboard() {
         if (!round.startTime || round.startTime === 'To be set' || round.startTime === 'TBD') continue;
         
         try {
-          const [hours, minutes] = round.startTime.split(':').map(Number);
-          const roundStart = new Date(round.date || session.date); // Use round.date, fallback to session.date for backwards compatibility
-          roundStart.setHours(hours, minutes, 0, 0);
+          const roundStart = getSessionRoundStart(session, round);
           const timestamp = roundStart.getTime();
           
           if (timestamp < earliestTime) {
@@ -1713,6 +1871,9 @@ export function ParticipantDashboard() {
       sharedContactsByRound={sharedContactsByRound}
       roundSelections={roundSelections}
       participantId={participantId}
+      seriesSubscriptions={seriesSubscriptions}
+      calendarFeedUrl={token ? `${apiBaseUrl}/p/${token}/calendar.ics` : undefined}
+      waitlist={waitlist}
       globalNextUpcomingRoundId={globalNextUpcomingRoundId}
       hasFreshData={hasFreshData}
       lastConfirmTimestamp={lastOptimisticUpdateRef.current}
@@ -1738,6 +1899,9 @@ export function ParticipantDashboard() {
       onRoundToggle={handleRoundToggle}
       onConfirmAttendance={handleConfirmAttendance}
       onConfirmationWindowExpired={handleConfirmationWindowExpired}
+      onSeriesSubscriptionToggle={handleSeriesSubscriptionToggle}
+      onClaimWaitlistSpot={(roundId) => handleWaitlistAction(roundId, 'claim')}
+      onLeaveWaitlist={(roundId) => handleWaitlistAction(roundId, 'leave')}
       onClearDebugLogs={() => setDebugLogs([])}
       generateRoundTimeDisplay={generateRoundTimeDisplay}
       isRoundCompleted={isRoundCompleted}
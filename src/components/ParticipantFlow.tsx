@@ -100,9 +100,10 @@ export function ParticipantFlow({
   };
 
   const handleReportNoShow = () => {
-    // In production, you'd select which participant didn't show
-    // For now, we'll use a placeholder
-    setNoShowParticipantId('placeholder_id');
+    // Pairs: the one partner. Groups: leave empty so the server reports
+    // everyone who hasn't checked in yet.
+    const partnerIds = (match?.participantIds || []).filter((id: string) => id !== participantId);
+    setNoShowParticipantId(partnerIds.length === 1 ? partnerIds[0] : '');
     setCurrentStep('no-show-report');
   };
 
@@ -201,6 +202,7 @@ export function ParticipantFlow({
         roundId={roundId}
         sessionId={sessionId}
         participantId={participantId}
+        token={token}
         noShowParticipantId={noShowParticipantId}
         onReportSubmitted={handleNoShowReportSubmitted}
         onCancel={handleCancelNoShowReport}
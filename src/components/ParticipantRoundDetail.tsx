@@ -7,6 +7,7 @@ import { Badge } from './ui/badge';
 import { Loader2, Calendar, Clock, MapPin, ArrowLeft, Bell, Info } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { debugLog, errorLog } from '../utils/debug';
+import { getRoundStartDate, getSessionRoundStart, resolveTimeZone } from '../utils/timeZone';
 
 export interface RoundDetail {
   registration: any;
@@ -14,6 +15,7 @@ export interface RoundDetail {
     id: string;
     name: string;
     date: string;
+    timeZone?: string | null;
     location?: string;
     meetingPoints?: any[];
   };
@@ -237,8 +239,7 @@ export function ParticipantRoundDetail() {
 
     const interval = setInterval(() => {
       const now = new Date();
-      const roundDate = roundDetail.round.date || roundDetail.session.date;
-      const roundStart = new Date(`${roundDate}T${roundDetail.round.startTime}:00`);
+      const roundStart = getSessionRoundStart(roundDetail.session, roundDetail.round);
       const diff = roundStart.getTime() - now.getTime();
 
       setTimeUntilStart(Math.max(0, diff));
@@ -305,9 +306,9 @@ export function ParticipantRoundDetail() {
     }
   };
 
-  const formatDateTime = (date: string, time: string) => {
+  const formatDateTime = (date: string, time: string, timeZone?: string | null) => {
     try {
-      const dt = new Date(`${date}T${time}:00`);
+      const dt = getRoundStartDate(date, time, resolveTimeZone(timeZone));
       return dt.toLocaleDateString('en-US', {
         weekday: 'long',
         year: 'numeric',
@@ -332,8 +333,11 @@ export function ParticipantRoundDetail() {
 
       if (permission === 'granted') {
         const { apiBaseUrl, publicAnonKey } = await import('../utils/supabase/info');
+        const { enableParticipantPush } = await import('../utils/pwa');
 
-        await fetch(
+        // Subscribe this browser, then opt the round and the push channel in
+        const subscribed = await enableParticipantPush(token!);
+        const response = await fetch(
           `${apiBaseUrl}/p/${token}/notification-preference`,
           {
             method: 'POST',
@@ -343,12 +347,19 @@ export function ParticipantRoundDetail() {
             },
             body: JSON.stringify({
               enabled: true,
-              roundId
+              roundId,
+              sessionId: roundDetail?.session.id,
+              channels: { push: true },
             })
           }
         );
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
 
-        toast.success('Notifications enabled!');
+        if (subscribed) {
+          toast.success('Notifications enabled!');
+        } else {
+          toast.error('Could not enable notifications in this browser');
+        }
 
         fetchRoundDetail();
       } else {
@@ -384,8 +395,7 @@ export function ParticipantRoundDetail() {
   }
 
   const { registration, session, round } = roundDetail;
-  const roundDate = round.date || session.date;
-  const roundStart = new Date(`${roundDate}T${round.startTime}:00`);
+  const roundStart = getSessionRoundStart(session, round);
   const roundEnd = new Date(roundStart.getTime() + round.duration * 60000);
   const now = new Date();
 
@@ -400,7 +410,7 @@ export function ParticipantRoundDetail() {
       isInProgress={isInProgress}
       isCompleted={isCompleted}
       countdown={isUpcoming ? formatCountdown(timeUntilStart) : undefined}
-      formattedDateTime={formatDateTime(session.date, round.startTime)}
+      formattedDateTime={formatDateTime(round.date || session.date, round.startTime, session.timeZone)}
       notificationsEnabled={!!registration?.notificationsEnabled}
       onBack={() => navigate(`/p/${token}`)}
       onEnableNotifications={handleEnableNotifications}
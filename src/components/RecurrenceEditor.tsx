@@ -0,0 +1,203 @@
+import { RecurrenceRule } from '../App';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { DatePicker } from './DatePicker';
+import { WEEKDAY_SHORT, createRecurrenceRule, describeRecurrence, getWeekday } from '../utils/recurrence';
+
+// Mirrors the server limits (recurrence.ts)
+const MAX_INTERVAL = 52;
+const MAX_COUNT = 365;
+
+// Monday-first, like the server's weeks
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface RecurrenceEditorProps {
+  /** null = one-time session */
+  value: RecurrenceRule | null;
+  /** First session date — the series starts here */
+  date: string;
+  onChange: (rule: RecurrenceRule | null) => void;
+  disabled?: boolean;
+}
+
+export function RecurrenceEditor({ value, date, onChange, disabled }: RecurrenceEditorProps) {
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const endMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="isRecurring" className="cursor-pointer">Repeat</Label>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            {value ? describeRecurrence(value, date) : 'Create the next dates automatically'}
+          </p>
+        </div>
+        <Switch
+          id="isRecurring"
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? createRecurrenceRule('weekly', date) : null)}
+          disabled={disabled}
+        />
+      </div>
+
+      {value && (
+        <div className="space-y-4 p-3 border rounded-lg">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-sm">Frequency</Label>
+              <Select
+                value={value.frequency}
+                onValueChange={(frequency) => onChange({
+                  ...createRecurrenceRule(frequency as RecurrenceRule['frequency'], date),
+                  interval: value.interval,
+                  until: value.until,
+                  count: value.count,
+                  exceptions: value.exceptions,
+                })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recurrenceInterval" className="text-sm">
+                Every how many {{ daily: 'days', weekly: 'weeks', monthly: 'months' }[value.frequency]}
+              </Label>
+              <Input
+                id="recurrenceInterval"
+                type="number"
+                min={1}
+                max={MAX_INTERVAL}
+                value={value.interval}
+                onChange={(e) => {
+                  const interval = parseInt(e.target.value, 10);
+                  update({ interval: isNaN(interval) ? 1 : Math.min(MAX_INTERVAL, Math.max(1, interval)) });
+                }}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="space-y-1">
+              <Label className="text-sm">On</Label>
+              <ToggleGroup
+                type="multiple"
+                value={(value.byWeekday.length > 0 ? value.byWeekday : date ? [getWeekday(date)] : []).map(String)}
+                onValueChange={(days) => {
+                  if (days.length > 0) update({ byWeekday: days.map(Number).sort((a, b) => a - b) });
+                }}
+                className="grid grid-cols-7"
+                disabled={disabled}
+              >
+                {WEEKDAY_ORDER.map(day => (
+                  <ToggleGroupItem
+                    key={day}
+                    value={String(day)}
+                    className="h-9 text-xs border border-border bg-background data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:border-primary"
+                  >
+                    {WEEKDAY_SHORT[day]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <div className="space-y-1">
+              <Label className="text-sm">On</Label>
+              <Select
+                value={value.monthlyMode}
+                onValueChange={(monthlyMode) => update({ monthlyMode: monthlyMode as RecurrenceRule['monthlyMode'] })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day-of-month">
+                    {date ? describeRecurrence({ ...value, interval: 1, until: null, count: null, monthlyMode: 'day-of-month' }, date) : 'Same day of the month'}
+                  </SelectItem>
+                  <SelectItem value="nth-weekday">
+                    {date ? describeRecurrence({ ...value, interval: 1, until: null, count: null, monthlyMode: 'nth-weekday' }, date) : 'Same weekday of the month'}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-sm">Ends</Label>
+              <Select
+                value={endMode}
+                onValueChange={(mode) => update({
+                  until: mode === 'until' ? (value.until || date || null) : null,
+                  count: mode === 'count' ? (value.count || 10) : null,
+                })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="until">On a date</SelectItem>
+                  <SelectItem value="count">After a number of dates</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {endMode === 'until' && (
+              <div className="space-y-1">
+                <Label className="text-sm">Last date</Label>
+                <DatePicker
+                  value={value.until || ''}
+                  onChange={(until) => update({ until })}
+                  minDate={date || undefined}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+            {endMode === 'count' && (
+              <div className="space-y-1">
+                <Label htmlFor="recurrenceCount" className="text-sm">Number of dates</Label>
+                <Input
+                  id="recurrenceCount"
+                  type="number"
+                  min={1}
+                  max={MAX_COUNT}
+                  value={value.count || ''}
+                  onChange={(e) => {
+                    const count = parseInt(e.target.value, 10);
+                    update({ count: isNaN(count) ? 1 : Math.min(MAX_COUNT, Math.max(1, count)) });
+                  }}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+          </div>
+
+          {value.exceptions.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {value.exceptions.length} deleted {value.exceptions.length === 1 ? 'date is' : 'dates are'} skipped.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { RegistrationQuestion } from '../App';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, X, ChevronUp, ChevronDown } from 'lucide-react';
+
+// Mirrors the server limits (registration-questions.ts)
+const MAX_QUESTIONS = 10;
+const MAX_QUESTION_WEIGHT = 40;
+
+interface RegistrationQuestionsManagerProps {
+  questions: RegistrationQuestion[];
+  onChange: (questions: RegistrationQuestion[]) => void;
+}
+
+export function RegistrationQuestionsManager({ questions, onChange }: RegistrationQuestionsManagerProps) {
+  const addQuestion = () => {
+    onChange([
+      ...questions,
+      {
+        id: `q-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        label: '',
+        type: 'single',
+        options: [],
+        scaleMin: 1,
+        scaleMax: 5,
+        matchMode: 'similar',
+        weight: 10,
+        required: true,
+      },
+    ]);
+  };
+
+  const updateQuestion = (index: number, changes: Partial<RegistrationQuestion>) => {
+    const updated = [...questions];
+    updated[index] = { ...updated[index], ...changes };
+    onChange(updated);
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    const updated = [...questions];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const updateOptions = (index: number, value: string) => {
+    const options = Array.from(new Set(value.split(',').map(option => option.trim()).filter(Boolean)));
+    updateQuestion(index, { options });
+  };
+
+  const updateWeight = (index: number, value: string) => {
+    const weight = parseInt(value, 10);
+    updateQuestion(index, { weight: isNaN(weight) ? 0 : Math.min(MAX_QUESTION_WEIGHT, Math.max(0, weight)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question, index) => (
+        <div key={question.id} className="p-3 border rounded-lg space-y-3">
+          <div className="flex items-center gap-3">
+            <Input
+              placeholder={`Question ${index + 1}, e.g. Seniority`}
+              value={question.label}
+              onChange={(e) => updateQuestion(index, { label: e.target.value })}
+              className="flex-1"
+            />
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveQuestion(index, -1)}
+                disabled={index === 0}
+                className="h-8 w-8 p-0"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveQuestion(index, 1)}
+                disabled={index === questions.length - 1}
+                className="h-8 w-8 p-0"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeQuestion(index)}
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-sm">Answer type</Label>
+              <Select
+                value={question.type}
+                onValueChange={(type) => updateQuestion(index, { type: type as RegistrationQuestion['type'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="single">Single choice</SelectItem>
+                  <SelectItem value="multi">Multiple choice</SelectItem>
+                  <SelectItem value="scale">Scale</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm">Matching</Label>
+              <Select
+                value={question.matchMode}
+                onValueChange={(matchMode) => updateQuestion(index, { matchMode: matchMode as RegistrationQuestion['matchMode'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="similar">Match similar answers</SelectItem>
+                  <SelectItem value="different">Match different answers</SelectItem>
+                  <SelectItem value="display">Display only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {question.type === 'scale' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`scale-min-${question.id}`} className="text-sm">From</Label>
+                <Input
+                  id={`scale-min-${question.id}`}
+                  type="number"
+                  value={question.scaleMin}
+                  onChange={(e) => updateQuestion(index, { scaleMin: parseInt(e.target.value, 10) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`scale-max-${question.id}`} className="text-sm">To</Label>
+                <Input
+                  id={`scale-max-${question.id}`}
+                  type="number"
+                  value={question.scaleMax}
+                  onChange={(e) => updateQuestion(index, { scaleMax: parseInt(e.target.value, 10) || 0 })}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label htmlFor={`options-${question.id}`} className="text-sm">Options</Label>
+              <Input
+                id={`options-${question.id}`}
+                placeholder="e.g. Junior, Mid, Senior"
+                defaultValue={question.options.join(', ')}
+                onBlur={(e) => updateOptions(index, e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            {question.matchMode !== 'display' && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`weight-${question.id}`} className="text-sm">Weight</Label>
+                <Input
+                  id={`weight-${question.id}`}
+                  type="number"
+                  min={0}
+                  max={MAX_QUESTION_WEIGHT}
+                  value={question.weight}
+                  onChange={(e) => updateWeight(index, e.target.value)}
+                  className="w-20"
+                />
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`required-${question.id}`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(index, { required: checked === true })}
+              />
+              <label htmlFor={`required-${question.id}`} className="text-sm cursor-pointer select-none">
+                Required
+              </label>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={addQuestion}
+        disabled={questions.length >= MAX_QUESTIONS}
+        className="w-full"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add question
+      </Button>
+    </div>
+  );
+}
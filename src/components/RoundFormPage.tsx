@@ -17,6 +17,7 @@ export interface RoundFormPageViewProps {
   organizerName?: string;
   profileImageUrl?: string;
   userSlug?: string;
+  defaultTimeZone?: string | null;
   onSave: (sessionData: Omit<NetworkingSession, 'id'>) => Promise<void> | void;
   onCancel: () => void;
 }
@@ -29,6 +30,7 @@ export function RoundFormPageView({
   organizerName,
   profileImageUrl,
   userSlug,
+  defaultTimeZone,
   onSave,
   onCancel,
 }: RoundFormPageViewProps) {
@@ -49,6 +51,7 @@ export function RoundFormPageView({
             organizerName={organizerName}
             profileImageUrl={profileImageUrl}
             userSlug={userSlug}
+            defaultTimeZone={defaultTimeZone}
             isDuplicate={isDuplicating}
           />
         </CardContent>
@@ -67,6 +70,7 @@ interface RoundFormPageProps {
   organizerName?: string;
   profileImageUrl?: string;
   userSlug?: string;
+  defaultTimeZone?: string | null;
 }
 
 export function RoundFormPage({
@@ -78,7 +82,8 @@ export function RoundFormPage({
   userEmail,
   organizerName,
   profileImageUrl,
-  userSlug
+  userSlug,
+  defaultTimeZone
 }: RoundFormPageProps) {
   const navigate = useNavigate();
   const { id, action } = useParams<{ id?: string; action?: string }>();
@@ -171,6 +176,7 @@ export function RoundFormPage({
       organizerName={organizerName}
       profileImageUrl={profileImageUrl}
       userSlug={userSlug}
+      defaultTimeZone={defaultTimeZone}
       onSave={handleSave}
       onCancel={handleCancel}
     />
@@ -7,6 +7,7 @@ import { useTime } from '../contexts/TimeContext';
 import { getParticipantStatusBadge } from '../utils/statusBadge';
 import { getParametersOrDefault } from '../utils/systemParameters';
 import { computeInitialRoundPhase } from '../utils/roundPhase';
+import { getLocalTimeHint, getRoundStartDate, getSessionRoundStart, resolveTimeZone } from '../utils/timeZone';
 import { useParams, useNavigate } from 'react-router';
 import { debugLog, errorLog } from '../utils/debug';
 
@@ -96,6 +97,7 @@ export function RoundItem({
       sessionDate: session?.date,
       roundDate: round.date,
       roundStartTime: round.startTime,
+      timeZone: resolveTimeZone(session?.timeZone),
       participantStatus,
       now: getCurrentTime(),
     });
@@ -223,9 +225,7 @@ export function RoundItem({
 
     const updateCountdown = () => {
       const now = getCurrentTime();
-      const [hours, minutes] = round.startTime.split(':').map(Number);
-      const roundStart = new Date(round.date || session.date); // Use round.date, fallback to session.date for backwards compatibility
-      roundStart.setHours(hours, minutes, 0, 0);
+      const roundStart = getSessionRoundStart(session, round);
       
       // Get system parameters to use correct timing
       const params = getParametersOrDefault();
@@ -340,7 +340,7 @@ export function RoundItem({
     const interval = setInterval(updateCountdown, 1000);
 
     return () => clearInterval(interval);
-  }, [isRegistered, session?.date, round.startTime, round.duration, getCurrentTime, participantStatus, matchData, onConfirmationWindowExpired, lastConfirmTimestamp]);
+  }, [isRegistered, session?.date, session?.timeZone, round.startTime, round.duration, getCurrentTime, participantStatus, matchData, onConfirmationWindowExpired, lastConfirmTimestamp]);
 
   // Animate matching dots
   useEffect(() => {
@@ -419,9 +419,7 @@ export function RoundItem({
 
     const updateRegistrationClosesCountdown = () => {
       const now = getCurrentTime();
-      const [hours, minutes] = round.startTime.split(':').map(Number);
-      const roundStart = new Date(round.date || session.date); // Use round.date, fallback to session.date for backwards compatibility
-      roundStart.setHours(hours, minutes, 0, 0);
+      const roundStart = getSessionRoundStart(session, round);
       
       // Get system parameters to use correct registration close time
       const params = getParametersOrDefault();
@@ -452,10 +450,16 @@ export function RoundItem({
     const interval = setInterval(updateRegistrationClosesCountdown, 1000); // Update every second for HH:MM:SS display
     
     return () => clearInterval(interval);
-  }, [showRegistrationClosesCountdown, session?.date, round.startTime, getCurrentTime]);
+  }, [showRegistrationClosesCountdown, session?.date, session?.timeZone, round.startTime, getCurrentTime]);
   
   // Memoize the status badge to avoid recalculation on every render
   const statusBadge = useMemo(() => getParticipantStatusBadge(participantStatus), [participantStatus]);
+
+  // Round start in the participant's own zone when it differs from the session's
+  const localTimeHint = useMemo(
+    () => getLocalTimeHint(round.date || session?.date, round.startTime, session?.timeZone),
+    [round.date, round.startTime, session?.date, session?.timeZone]
+  );
   
   const defaultTimeDisplay = (startTime: string, duration: number) => {
     if (!startTime || startTime === 'To be set' || startTime === 'TBD') {
@@ -544,6 +548,11 @@ export function RoundItem({
                 ({new Date(round.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })})
               </span>
             )}
+            {localTimeHint && (
+              <span className="ml-2 text-xs text-muted-foreground">
+                ({localTimeHint})
+              </span>
+            )}
           </span>
           {registeredCount != null && registeredCount > 0 && (() => {
             const params = getParametersOrDefault();
@@ -564,6 +573,16 @@ export function RoundItem({
               Registration closed
             </Badge>
           )}
+          {isRegisterable && !isRegistered && round.isFull && (
+            <Badge variant="outline" className="text-xs text-muted-foreground">
+              Full · join waitlist
+            </Badge>
+          )}
+          {isRegisterable && !isRegistered && !round.isFull && round.seatsLeft != null && (
+            <Badge variant="outline" className="text-xs text-muted-foreground">
+              {round.seatsLeft === 1 ? '1 seat left' : `${round.seatsLeft} seats left`}
+            </Badge>
+          )}
           {isRegistered && participantStatus && (
             <Badge 
               variant={statusBadge.variant}
@@ -603,9 +622,7 @@ export function RoundItem({
                     // This prevents flash when countdownPhase state is stale (e.g. between prop change and effect re-run)
                     try {
                       const now = getCurrentTime();
-                      const [ch, cm] = round.startTime.split(':').map(Number);
-                      const crs = new Date(round.date || session?.date || '');
-                      crs.setHours(ch, cm, 0, 0);
+                      const crs = getRoundStartDate(round.date || session?.date || '', round.startTime, resolveTimeZone(session?.timeZone));
                       const cParams = getParametersOrDefault();
                       const cStart = new Date(crs.getTime() - cParams.confirmationWindowMinutes * 60 * 1000);
                       if (now < cStart || now >= crs) {
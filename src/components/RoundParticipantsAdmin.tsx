@@ -4,7 +4,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Separator } from './ui/separator';
-import { ArrowLeft, UserCheck, Users, CheckCircle2, XCircle, Loader2, RefreshCw, MapPin } from 'lucide-react';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ArrowLeft, UserCheck, Users, CheckCircle2, XCircle, Loader2, RefreshCw, MapPin, Ban, X, Eye, AlertTriangle, Hourglass } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { debugLog, errorLog } from '../utils/debug';
 import { ParticipantStatusBadge } from '../utils/statusBadge';
@@ -31,9 +33,21 @@ interface Participant {
   status: 'registered' | 'confirmed' | 'matched' | 'checked-in' | 'met' | 'unconfirmed' | 'no-match' | 'missed' | 'cancelled';
   teamId?: string;
   topicIds?: string[];
+  answers?: { label: string; value: string }[];
   confirmationSentAt?: string;
 }
 
+interface WaitlistEntry {
+  id: string;
+  position: number;
+  name: string;
+  email: string;
+  phone?: string;
+  joinedAt: string;
+  status: 'waiting' | 'offered';
+  offerExpiresAt?: string;
+}
+
 interface Match {
   id: string;
   roundId: string;
@@ -43,6 +57,62 @@ interface Match {
   identificationImageUrl: string;
   status: 'pending' | 'active' | 'completed' | 'no-show-reported';
   checkIns: any[];
+  explanation?: MatchExplanation | null;
+  createdAt: string;
+}
+
+interface PairExplanation {
+  participantIds: [string, string];
+  score: number;
+  metBefore: boolean;
+  teamRuleMet: boolean | null;
+  sharedTopics: string[];
+  questions?: { questionId: string; label: string; points: number }[];
+}
+
+interface MatchExplanation {
+  source: 'algorithm' | 'rotation-plan' | 'peer-fallback';
+  score: number;
+  maxScore: number;
+  pairs: PairExplanation[];
+}
+
+interface MeetingPointCapacity {
+  /** Sum of meeting point capacities; null = at least one point has no limit */
+  totalCapacity: number | null;
+  overflow: number;
+}
+
+interface DryRunResult {
+  participantCount: number;
+  matches: {
+    participants: { participantId: string; name: string; team: string | null }[];
+    meetingPoint?: string;
+    explanation: MatchExplanation;
+  }[];
+  unmatched: { participantId: string; name: string }[];
+  summary: {
+    matchCount: number;
+    unmatchedCount: number;
+    repeatMeetings: number;
+    teamRuleMisses: number;
+    meetingPointCapacity: MeetingPointCapacity;
+    scorePercent: number | null;
+  };
+}
+
+// "Met before · Different teams · Shared: AI, Design"
+function describePair(pair: PairExplanation): string {
+  const parts = [pair.metBefore ? 'Met before' : 'First meeting'];
+  if (pair.teamRuleMet !== null) parts.push(pair.teamRuleMet ? 'Team rule met' : 'Team rule missed');
+  if (pair.sharedTopics.length > 0) parts.push(`Shared: ${pair.sharedTopics.join(', ')}`);
+  for (const question of pair.questions || []) parts.push(`${question.label} +${question.points}`);
+  return parts.join(' · ');
+}
+
+interface BlockedPair {
+  id: string;
+  participants: { participantId: string; name: string; email: string }[];
   createdAt: string;
 }
 
@@ -60,8 +130,15 @@ export function RoundParticipantsAdmin({
   accessToken
 }: RoundParticipantsAdminProps) {
   const [participants, setParticipants] = useState<Participant[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [matches, setMatches] = useState<Match[]>([]);
+  const [blockedPairs, setBlockedPairs] = useState<BlockedPair[]>([]);
+  const [keepApart, setKeepApart] = useState<[string, string]>(['', '']);
+  const [isSavingBlock, setIsSavingBlock] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [isRunningDryRun, setIsRunningDryRun] = useState(false);
+  const [meetingPointCapacity, setMeetingPointCapacity] = useState<(MeetingPointCapacity & { expectedGroups: number }) | null>(null);
   const navigate = useNavigate();
 
   const loadData = async () => {
@@ -84,11 +161,13 @@ export function RoundParticipantsAdmin({
       if (participantsResponse.ok) {
         const participantsData = await participantsResponse.json();
         setParticipants(participantsData.participants || []);
+        setWaitlist(participantsData.waitlist || []);
+        setMeetingPointCapacity(participantsData.meetingPointCapacity || null);
       }
 
       // Load matches
       const matchesResponse = await fetch(
-        `${apiBaseUrl}/rounds/${roundId}/matches`,
+        `${apiBaseUrl}/rounds/${roundId}/matches?sessionId=${sessionId}`,
         {
           headers: {
             'Authorization': `Bearer ${accessToken}`,
@@ -101,6 +180,22 @@ export function RoundParticipantsAdmin({
         const matchesData = await matchesResponse.json();
         setMatches(matchesData.matches || []);
       }
+
+      // Load organizer's blocked pairs (applies to all of their events)
+      const blockedResponse = await fetch(
+        `${apiBaseUrl}/blocked-pairs`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      if (blockedResponse.ok) {
+        const blockedData = await blockedResponse.json();
+        setBlockedPairs(blockedData.blockedPairs || []);
+      }
     } catch (error) {
       errorLog('Error loading round data:', error);
       toast.error('Failed to load round data');
@@ -113,6 +208,95 @@ export function RoundParticipantsAdmin({
     loadData();
   }, [roundId, accessToken]);
 
+  const handleKeepApart = async () => {
+    const [firstId, secondId] = keepApart;
+    if (!firstId || !secondId || firstId === secondId) return;
+
+    setIsSavingBlock(true);
+    try {
+      const { apiBaseUrl } = await import('../utils/supabase/info');
+      const response = await fetch(`${apiBaseUrl}/blocked-pairs`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ participantIds: [firstId, secondId] }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to block pair');
+      }
+
+      toast.success('They will never be matched together');
+      setKeepApart(['', '']);
+      await loadData();
+    } catch (error) {
+      errorLog('Error blocking pair:', error);
+      toast.error('Failed to keep participants apart');
+    } finally {
+      setIsSavingBlock(false);
+    }
+  };
+
+  const handleDryRun = async () => {
+    setIsRunningDryRun(true);
+    try {
+      const { apiBaseUrl } = await import('../utils/supabase/info');
+      const response = await fetch(`${apiBaseUrl}/sessions/${sessionId}/rounds/${roundId}/matching-dry-run`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ includeUnconfirmed: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to preview matching');
+      }
+
+      const result = await response.json();
+      debugLog('Matching preview:', result.summary);
+      setDryRun(result);
+    } catch (error) {
+      errorLog('Error previewing matching:', error);
+      toast.error('Failed to preview matching');
+    } finally {
+      setIsRunningDryRun(false);
+    }
+  };
+
+  const handleRemoveBlock = async (blockId: string) => {
+    try {
+      const { apiBaseUrl } = await import('../utils/supabase/info');
+      const response = await fetch(`${apiBaseUrl}/blocked-pairs/${blockId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to remove block');
+      }
+
+      setBlockedPairs(prev => prev.filter(pair => pair.id !== blockId));
+    } catch (error) {
+      errorLog('Error removing blocked pair:', error);
+      toast.error('Failed to remove block');
+    }
+  };
+
+  // Only show blocks that involve someone in this round
+  const roundParticipantIds = new Set(participants.map(p => p.id));
+  const roundBlockedPairs = blockedPairs.filter(pair =>
+    pair.participants.some(p => roundParticipantIds.has(p.participantId))
+  );
+
+  const nameById = new Map(participants.map(p => [p.id, p.name]));
+
   const stats = {
     total: participants.length,
     confirmed: participants.filter(p => p.status === 'confirmed').length,
@@ -206,6 +390,16 @@ export function RoundParticipantsAdmin({
         </Card>
       </div>
 
+      {meetingPointCapacity && meetingPointCapacity.overflow > 0 && (
+        <Alert className="border-yellow-200 bg-yellow-50">
+          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="text-yellow-800">
+            {meetingPointCapacity.expectedGroups} groups but meeting points fit only {meetingPointCapacity.totalCapacity} at once.
+            {' '}{meetingPointCapacity.overflow} groups will have to share a full meeting point — raise a capacity or add a meeting point.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Participants List */}
       <Card>
         <CardHeader>
@@ -245,6 +439,11 @@ export function RoundParticipantsAdmin({
                           <span>{anonymized.anonymizedPhone}</span>
                         )}
                       </div>
+                      {participant.answers && participant.answers.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {participant.answers.map(answer => `${answer.label}: ${answer.value}`).join(' · ')}
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground">
                         Registered: {new Date(participant.registeredAt).toLocaleString()}
                       </p>
@@ -260,6 +459,175 @@ export function RoundParticipantsAdmin({
         </CardContent>
       </Card>
 
+      {/* Waitlist */}
+      {waitlist.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Waitlist</CardTitle>
+            <CardDescription>
+              The round is full — when a spot frees up, the next person in line gets an offer to claim it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {waitlist.map((entry) => {
+                const anonymized = anonymizeParticipant(
+                  { name: entry.name, email: entry.email, phone: entry.phone },
+                  entry.id
+                );
+
+                return (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                  >
+                    <div className="space-y-1">
+                      <p>#{entry.position} {anonymized.displayName}</p>
+                      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                        <span>{anonymized.anonymizedEmail}</span>
+                        {entry.phone && (
+                          <span>{anonymized.anonymizedPhone}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Joined: {new Date(entry.joinedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    {entry.status === 'offered' ? (
+                      <Badge variant="outline" className="border-green-300 text-green-700">
+                        Offered{entry.offerExpiresAt && ` until ${new Date(entry.offerExpiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="flex items-center gap-1">
+                        <Hourglass className="h-3 w-3" />
+                        Waiting
+                      </Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Keep apart */}
+      {participants.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Keep apart</CardTitle>
+            <CardDescription>
+              Participants you block are never matched together in any of your events
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-2">
+              {[0, 1].map(slot => (
+                <Select
+                  key={slot}
+                  value={keepApart[slot]}
+                  onValueChange={(value) => setKeepApart(prev => {
+                    const next: [string, string] = [...prev];
+                    next[slot] = value;
+                    return next;
+                  })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select participant" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {participants
+                      .filter(p => p.id !== keepApart[1 - slot])
+                      .map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              ))}
+              <Button
+                onClick={handleKeepApart}
+                disabled={!keepApart[0] || !keepApart[1] || isSavingBlock}
+              >
+                {isSavingBlock ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Ban className="h-4 w-4 mr-2" />}
+                Keep apart
+              </Button>
+            </div>
+
+            {roundBlockedPairs.length > 0 && (
+              <div className="space-y-2">
+                {roundBlockedPairs.map(pair => (
+                  <div
+                    key={pair.id}
+                    className="flex items-center justify-between text-sm p-2 rounded bg-muted/30"
+                  >
+                    <span>{pair.participants.map(p => p.name || p.email).join(' ↔ ')}</span>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemoveBlock(pair.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Matching preview */}
+      {matches.length === 0 && participants.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview matching</CardTitle>
+            <CardDescription>
+              See the groups matching would create right now, including people who haven't confirmed yet. Nothing is saved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button variant="outline" onClick={handleDryRun} disabled={isRunningDryRun}>
+              {isRunningDryRun ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+              Preview matching
+            </Button>
+
+            {dryRun && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{dryRun.summary.matchCount} groups</Badge>
+                  <Badge variant="secondary">{dryRun.summary.unmatchedCount} unmatched</Badge>
+                  <Badge variant="secondary">{dryRun.summary.repeatMeetings} repeat meetings</Badge>
+                  <Badge variant="secondary">{dryRun.summary.teamRuleMisses} team rule misses</Badge>
+                  {dryRun.summary.scorePercent !== null && (
+                    <Badge variant="secondary">{dryRun.summary.scorePercent}% match quality</Badge>
+                  )}
+                  {dryRun.summary.meetingPointCapacity.overflow > 0 && (
+                    <Badge variant="destructive">
+                      {dryRun.summary.meetingPointCapacity.overflow} groups over meeting point capacity
+                    </Badge>
+                  )}
+                </div>
+                {dryRun.matches.map((match, index) => (
+                  <div key={index} className="p-3 rounded-lg border bg-card space-y-1">
+                    <p className="text-sm">
+                      {match.participants.map(p => p.name).join(', ')}
+                      {match.meetingPoint && <span className="text-muted-foreground"> · {match.meetingPoint}</span>}
+                    </p>
+                    {match.explanation.pairs.map(pair => (
+                      <p key={pair.participantIds.join('-')} className="text-xs text-muted-foreground">
+                        {match.participants.length > 2 && `${pair.participantIds.map(id => match.participants.find(p => p.participantId === id)?.name).join(' + ')}: `}
+                        {describePair(pair)}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+                {dryRun.unmatched.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Unmatched: {dryRun.unmatched.map(p => p.name).join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Matches */}
       {matches.length > 0 && (
         <Card>
@@ -352,6 +720,25 @@ export function RoundParticipantsAdmin({
                         })}
                       </div>
                     </div>
+
+                    {match.explanation && (
+                      <>
+                        <Separator />
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground">
+                            Why this group · score {match.explanation.score} / {match.explanation.maxScore}
+                            {match.explanation.source === 'rotation-plan' && ' · from rotation plan'}
+                            {match.explanation.source === 'peer-fallback' && ' · peers (role fallback)'}
+                          </p>
+                          {match.explanation.pairs.map(pair => (
+                            <p key={pair.participantIds.join('-')} className="text-xs text-muted-foreground">
+                              {match.participantIds.length > 2 && `${pair.participantIds.map(id => nameById.get(id) || id).join(' + ')}: `}
+                              {describePair(pair)}
+                            </p>
+                          ))}
+                        </div>
+                      </>
+                    )}
                   </div>
                 );
               })}
@@ -2,31 +2,39 @@ import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from './ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
-import { Users, MapPin, Check, X, Clock, UserCheck, Loader2, RefreshCw, AlertCircle } from 'lucide-react';
+import { Users, MapPin, Check, X, Clock, UserCheck, Loader2, RefreshCw, AlertCircle, Scissors } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { apiBaseUrl } from '../utils/supabase/info';
 import { errorLog } from '../utils/debug';
 
 interface RoundParticipant {
   id: string;
-  participantId: string;
-  firstName: string;
-  lastName: string;
+  name: string;
   email: string;
-  phone: string;
+  phone?: string;
   status: string;
   registeredAt: string;
   confirmedAt?: string;
   matchId?: string;
-  matchPartnerIds?: string[];
   matchPartnerNames?: string[];
   meetingPointId?: string;
-  meetingPointName?: string;
-  selectedTeam?: string;
-  selectedTopic?: string;
+  teamId?: string;
+  topicIds?: string[];
 }
 
+interface MatchEditing {
+  open: boolean;
+  closesAt: string | null;
+}
+
+type MatchEdit =
+  | { type: 'swap'; participantIds: [string, string] }
+  | { type: 'move'; participantId: string; targetMatchId: string }
+  | { type: 'split'; matchId: string; participantIds: string[] };
+
 interface RoundParticipantsDialogProps {
   open: boolean;
   onClose: () => void;
@@ -49,6 +57,9 @@ export function RoundParticipantsDialog({
   const [participants, setParticipants] = useState<RoundParticipant[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [matchEditing, setMatchEditing] = useState<MatchEditing>({ open: false, closesAt: null });
+  const [splitSelection, setSplitSelection] = useState<Record<string, string[]>>({});
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
 
   useEffect(() => {
     if (open) {
@@ -62,7 +73,7 @@ export function RoundParticipantsDialog({
     
     try {
       const response = await fetch(
-        `${apiBaseUrl}/admin/sessions/${sessionId}/rounds/${roundId}/participants`,
+        `${apiBaseUrl}/rounds/${roundId}/participants?sessionId=${sessionId}`,
         {
           headers: {
             'Authorization': `Bearer ${accessToken}`,
@@ -74,6 +85,8 @@ export function RoundParticipantsDialog({
       if (response.ok) {
         const result = await response.json();
         setParticipants(result.participants || []);
+        setMatchEditing(result.matchEditing || { open: false, closesAt: null });
+        setSplitSelection({});
       } else {
         const errorData = await response.json();
         setError(errorData.error || 'Failed to fetch participants');
@@ -88,6 +101,59 @@ export function RoundParticipantsDialog({
     }
   };
 
+  const applyEdit = async (edit: MatchEdit) => {
+    setIsSavingEdit(true);
+    try {
+      const response = await fetch(
+        `${apiBaseUrl}/sessions/${sessionId}/rounds/${roundId}/match-edits`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(edit),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to update match');
+        return;
+      }
+
+      toast.success(`Match updated — ${result.notified} participant${result.notified !== 1 ? 's' : ''} notified`);
+      await fetchParticipants();
+    } catch (err) {
+      errorLog('Error editing match:', err);
+      toast.error('Network error while updating match');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  // "swap:<participantId>" or "move:<matchId>"
+  const handleMemberAction = (participantId: string, value: string) => {
+    const [action, target] = value.split(':');
+    if (action === 'swap') {
+      applyEdit({ type: 'swap', participantIds: [participantId, target] });
+    } else {
+      applyEdit({ type: 'move', participantId, targetMatchId: target });
+    }
+  };
+
+  const toggleSplitSelection = (matchId: string, participantId: string) => {
+    setSplitSelection(prev => {
+      const selected = prev[matchId] || [];
+      return {
+        ...prev,
+        [matchId]: selected.includes(participantId)
+          ? selected.filter(id => id !== participantId)
+          : [...selected, participantId],
+      };
+    });
+  };
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; label: string; icon: any }> = {
       'registered': { variant: 'secondary', label: 'Registered', icon: Clock },
@@ -128,6 +194,9 @@ export function RoundParticipantsDialog({
     return acc;
   }, {} as Record<string, RoundParticipant[]>);
 
+  const matchGroups = Object.entries(groupedByMatch).filter(([matchId]) => matchId !== 'no-match');
+  const withoutGroup = participants.filter(p => !p.matchId && p.status === 'no-match');
+
   const confirmedCount = participants.filter(p => p.status === 'confirmed' || p.status === 'matched' || p.status === 'checked-in' || p.status === 'met').length;
   const matchedCount = participants.filter(p => p.matchId).length;
 
@@ -213,10 +282,10 @@ export function RoundParticipantsDialog({
                       <TableCell>
                         <div>
                           <div className="font-medium">
-                            {participant.firstName} {participant.lastName}
+                            {participant.name}
                           </div>
                           <div className="text-xs text-muted-foreground">
-                            ID: {participant.participantId.substring(0, 8)}...
+                            ID: {participant.id.substring(0, 8)}...
                           </div>
                         </div>
                       </TableCell>
@@ -248,10 +317,10 @@ export function RoundParticipantsDialog({
                         )}
                       </TableCell>
                       <TableCell>
-                        {participant.meetingPointName ? (
+                        {participant.meetingPointId ? (
                           <div className="flex items-center gap-1 text-sm">
                             <MapPin className="h-3 w-3 text-muted-foreground" />
-                            {participant.meetingPointName}
+                            {participant.meetingPointId}
                           </div>
                         ) : (
                           <span className="text-xs text-muted-foreground">-</span>
@@ -259,17 +328,17 @@ export function RoundParticipantsDialog({
                       </TableCell>
                       <TableCell>
                         <div className="text-sm space-y-1">
-                          {participant.selectedTeam && (
+                          {participant.teamId && (
                             <Badge variant="outline" className="text-xs">
-                              Team: {participant.selectedTeam}
+                              Team: {participant.teamId}
                             </Badge>
                           )}
-                          {participant.selectedTopic && (
+                          {participant.topicIds && participant.topicIds.length > 0 && (
                             <Badge variant="outline" className="text-xs">
-                              Topic: {participant.selectedTopic}
+                              Topic: {participant.topicIds.join(', ')}
                             </Badge>
                           )}
-                          {!participant.selectedTeam && !participant.selectedTopic && (
+                          {!participant.teamId && !participant.topicIds?.length && (
                             <span className="text-xs text-muted-foreground">-</span>
                           )}
                         </div>
@@ -282,29 +351,97 @@ export function RoundParticipantsDialog({
           )}
 
           {/* Match groups summary */}
-          {participants.length > 0 && Object.keys(groupedByMatch).length > 1 && (
+          {participants.length > 0 && matchGroups.length > 0 && (
             <div className="border rounded-lg p-4 bg-muted/30">
-              <h4 className="font-medium mb-3 flex items-center gap-2">
+              <h4 className="font-medium mb-1 flex items-center gap-2">
                 <Users className="h-4 w-4" />
-                Match groups ({Object.keys(groupedByMatch).filter(k => k !== 'no-match').length})
+                Match groups ({matchGroups.length})
               </h4>
+              <p className="text-xs text-muted-foreground mb-3">
+                {matchEditing.open
+                  ? `You can swap, move or split groups${matchEditing.closesAt ? ` until networking starts at ${new Date(matchEditing.closesAt).toLocaleTimeString()}` : ''}. Affected participants are notified.`
+                  : 'Groups can be edited after matching, until networking starts.'}
+              </p>
               <div className="space-y-2">
-                {Object.entries(groupedByMatch).map(([matchId, matchParticipants]) => {
-                  if (matchId === 'no-match') return null;
-                  
+                {matchGroups.map(([matchId, matchParticipants]) => {
+                  const selected = splitSelection[matchId] || [];
+                  const canSplit = selected.length >= 2 && matchParticipants.length - selected.length >= 2;
+
                   return (
                     <div key={matchId} className="text-sm flex items-start gap-2 p-2 bg-background rounded border">
                       <div className="flex-1">
                         <div className="font-medium text-xs text-muted-foreground mb-1">
                           Match {matchId.substring(0, 8)}...
                         </div>
-                        <div>
-                          {matchParticipants.map(p => `${p.firstName} ${p.lastName}`).join(' + ')}
-                        </div>
-                        {matchParticipants[0]?.meetingPointName && (
+                        {matchEditing.open ? (
+                          <div className="space-y-1">
+                            {matchParticipants.map(p => (
+                              <div key={p.id} className="flex items-center gap-2">
+                                {matchParticipants.length >= 4 && (
+                                  <Checkbox
+                                    checked={selected.includes(p.id)}
+                                    onCheckedChange={() => toggleSplitSelection(matchId, p.id)}
+                                    disabled={isSavingEdit}
+                                  />
+                                )}
+                                <span className="flex-1">{p.name}</span>
+                                {p.status === 'matched' && (
+                                  <Select
+                                    value=""
+                                    onValueChange={(value) => handleMemberAction(p.id, value)}
+                                    disabled={isSavingEdit}
+                                  >
+                                    <SelectTrigger className="h-7 w-40 text-xs">
+                                      <SelectValue placeholder="Swap or move…" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectGroup>
+                                        <SelectLabel>Swap with</SelectLabel>
+                                        {participants
+                                          .filter(other => other.matchId && other.matchId !== matchId && other.status === 'matched')
+                                          .map(other => (
+                                            <SelectItem key={other.id} value={`swap:${other.id}`}>{other.name}</SelectItem>
+                                          ))}
+                                      </SelectGroup>
+                                      {matchParticipants.length > 2 && (
+                                        <SelectGroup>
+                                          <SelectLabel>Move to group with</SelectLabel>
+                                          {matchGroups
+                                            .filter(([otherId]) => otherId !== matchId)
+                                            .map(([otherId, members]) => (
+                                              <SelectItem key={otherId} value={`move:${otherId}`}>
+                                                {members.map(m => m.name).join(' + ')}
+                                              </SelectItem>
+                                            ))}
+                                        </SelectGroup>
+                                      )}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                              </div>
+                            ))}
+                            {matchParticipants.length >= 4 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="mt-1"
+                                disabled={!canSplit || isSavingEdit}
+                                onClick={() => applyEdit({ type: 'split', matchId, participantIds: selected })}
+                              >
+                                <Scissors className="h-3 w-3 mr-1" />
+                                Split selected into a new group
+                              </Button>
+                            )}
+                          </div>
+                        ) : (
+                          <div>
+                            {matchParticipants.map(p => p.name).join(' + ')}
+                          </div>
+                        )}
+                        {matchParticipants[0]?.meetingPointId && (
                           <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
                             <MapPin className="h-3 w-3" />
-                            {matchParticipants[0].meetingPointName}
+                            {matchParticipants[0].meetingPointId}
                           </div>
                         )}
                       </div>
@@ -315,6 +452,34 @@ export function RoundParticipantsDialog({
                   );
                 })}
               </div>
+
+              {/* Participants left without a group */}
+              {matchEditing.open && withoutGroup.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  <h4 className="font-medium text-sm">Without a group ({withoutGroup.length})</h4>
+                  {withoutGroup.map(p => (
+                    <div key={p.id} className="text-sm flex items-center gap-2 p-2 bg-background rounded border">
+                      <span className="flex-1">{p.name}</span>
+                      <Select
+                        value=""
+                        onValueChange={(value) => handleMemberAction(p.id, value)}
+                        disabled={isSavingEdit}
+                      >
+                        <SelectTrigger className="h-7 w-40 text-xs">
+                          <SelectValue placeholder="Add to group…" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {matchGroups.map(([matchId, members]) => (
+                            <SelectItem key={matchId} value={`move:${matchId}`}>
+                              {members.map(m => m.name).join(' + ')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
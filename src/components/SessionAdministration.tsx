@@ -35,6 +35,7 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { NetworkingSession } from '../App';
 import { toast } from 'sonner@2.0.3';
 import { SessionDisplayCard } from './SessionDisplayCard';
+import { getRoundStartDate, resolveTimeZone } from '../utils/timeZone';
 
 interface SessionAdministrationProps {
   session: NetworkingSession;
@@ -276,14 +277,16 @@ export function SessionAdministration({ session, onBack }: SessionAdministration
   };
 
   const formatDateTime = (date: string, time: string) => {
-    const sessionDate = new Date(`${date}T${time}`);
+    const timeZone = resolveTimeZone(session.timeZone);
+    const sessionDate = getRoundStartDate(date, time, timeZone);
     return sessionDate.toLocaleDateString('en-US', {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
       day: 'numeric',
       hour: '2-digit',
-      minute: '2-digit'
+      minute: '2-digit',
+      timeZone,
     });
   };
 
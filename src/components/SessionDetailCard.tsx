@@ -4,6 +4,8 @@ import { Badge } from './ui/badge';
 import { Calendar, Clock, Users, UserCheck, Hash, MapPin, CalendarCheck } from 'lucide-react';
 import { hasRunningRounds } from '../utils/sessionStatus';
 import { debugLog } from '../utils/debug';
+import { getRoundStartDate, getSessionRoundStart, resolveTimeZone } from '../utils/timeZone';
+import { describeRecurrence, getSessionRecurrence } from '../utils/recurrence';
 
 interface SessionDetailCardProps {
   session: NetworkingSession;
@@ -39,21 +41,23 @@ export function SessionDetailCard({
     const effectiveDate = date || session.rounds?.[0]?.date || '';
     const effectiveTime = time || session.rounds?.[0]?.startTime || '';
     if (!effectiveDate || !effectiveTime) return 'Date and time to be determined';
-    const sessionDate = new Date(`${effectiveDate}T${effectiveTime}`);
+    const timeZone = resolveTimeZone(session.timeZone);
+    const sessionDate = getRoundStartDate(effectiveDate, effectiveTime, timeZone);
     if (isNaN(sessionDate.getTime())) return 'Date and time to be determined';
     return sessionDate.toLocaleDateString('en-US', {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
-      day: 'numeric'
+      day: 'numeric',
+      timeZone,
     });
   };
 
   const isSessionRunning = (session: NetworkingSession) => {
     if (!session.date || !session.startTime || !session.endTime) return false;
     const now = new Date();
-    const sessionStart = new Date(`${session.date}T${session.startTime}`);
-    const sessionEnd = new Date(`${session.date}T${session.endTime}`);
+    const sessionStart = getRoundStartDate(session.date, session.startTime, resolveTimeZone(session.timeZone));
+    const sessionEnd = getRoundStartDate(session.date, session.endTime, resolveTimeZone(session.timeZone));
     return now >= sessionStart && now <= sessionEnd;
   };
 
@@ -79,9 +83,7 @@ export function SessionDetailCard({
     const now = new Date();
     return session.rounds.some((round: any) => {
       if (!round.startTime) return false;
-      const [hours, minutes] = round.startTime.split(':').map(Number);
-      const roundStart = new Date(round.date || session.date);
-      roundStart.setHours(hours, minutes, 0, 0);
+      const roundStart = getSessionRoundStart(session, round);
       // Calculate round end time (start + duration)
       const duration = round.duration || session.roundDuration || 0;
       const roundEnd = new Date(roundStart.getTime() + duration * 60 * 1000);
@@ -349,7 +351,7 @@ export function SessionDetailCard({
             <>
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Recurring:</span>
-                <span className="capitalize">{session.isRecurring ? session.frequency : 'One-time'}</span>
+                <span>{describeRecurrence(getSessionRecurrence(session), session.occurrenceDate || session.date)}</span>
               </div>
 
               <div className="flex justify-between text-sm">
@@ -19,6 +19,8 @@ import { MeetingPointsDialog } from './MeetingPointsDialog';
 import { debugLog, errorLog } from '../utils/debug';
 import { useTime } from '../contexts/TimeContext';
 import { getParametersOrDefault } from '../utils/systemParameters';
+import { getRoundStartDate, getSessionRoundStart, resolveTimeZone } from '../utils/timeZone';
+import { describeRecurrence, getSessionRecurrence } from '../utils/recurrence';
 import { apiBaseUrl, publicAnonKey } from '../utils/supabase/info';
 
 interface SessionDisplayCardProps {
@@ -87,9 +89,7 @@ export function SessionDisplayCard({
     if (!session.date || !round.startTime) return true; // If no date/time set, allow registration
     
     // Parse the round start time
-    const [hours, minutes] = round.startTime.split(':').map(Number);
-    const roundStartDateTime = new Date(round.date || session.date);
-    roundStartDateTime.setHours(hours, minutes, 0, 0);
+    const roundStartDateTime = getSessionRoundStart(session, round);
     
     // Get current time (respects simulated time from TimeControl)
     const now = getCurrentTime();
@@ -176,7 +176,7 @@ export function SessionDisplayCard({
     }
 
     // Check if scheduled time is at least 9 minutes from now (internal validation)
-    const scheduledDateTime = new Date(`${scheduleDate}T${scheduleTime}:00`);
+    const scheduledDateTime = getRoundStartDate(scheduleDate, scheduleTime, resolveTimeZone(session.timeZone));
     const now = new Date();
     const nineMinutesFromNow = new Date(now.getTime() + 9 * 60 * 1000);
 
@@ -203,7 +203,8 @@ export function SessionDisplayCard({
       const minTime = displayTime.toLocaleTimeString('en-GB', { 
         hour: '2-digit', 
         minute: '2-digit', 
-        hour12: false 
+        hour12: false,
+        timeZone: resolveTimeZone(session.timeZone),
       });
       setScheduleError(`Time must be at least 10 minutes in the future (earliest: ${minTime}).`);
       return;
@@ -211,7 +212,7 @@ export function SessionDisplayCard({
     
     // If we get here, validation passed
     setScheduleError('');
-  }, [scheduleDate, scheduleTime]);
+  }, [scheduleDate, scheduleTime, session.timeZone]);
   
   // Check if session has rounds and if first round is in the past
   useEffect(() => {
@@ -235,15 +236,15 @@ export function SessionDisplayCard({
     }
     
     // Check if first round is in the past relative to the new scheduled date/time
-    const firstRoundDateTime = new Date(`${scheduleDate}T${firstRound.startTime}:00`);
-    const scheduledDateTime = new Date(`${scheduleDate}T${scheduleTime}:00`);
+    const firstRoundDateTime = getRoundStartDate(scheduleDate, firstRound.startTime, resolveTimeZone(session.timeZone));
+    const scheduledDateTime = getRoundStartDate(scheduleDate, scheduleTime, resolveTimeZone(session.timeZone));
     
     if (firstRoundDateTime < scheduledDateTime) {
       setScheduleWarning(`The first round "${firstRound.name}" is currently scheduled for ${firstRound.startTime}, which is before the selected start time. All rounds will be automatically shifted to start from ${scheduleTime}.`);
     } else {
       setScheduleWarning('');
     }
-  }, [scheduleDate, scheduleTime, scheduleError, session.rounds]);
+  }, [scheduleDate, scheduleTime, scheduleError, session.rounds, session.timeZone]);
   
   const toggleRoundSelection = (roundId: string) => {
     setSelectedRounds(prev => {
@@ -261,7 +262,8 @@ export function SessionDisplayCard({
     const effectiveDate = date || session.rounds?.[0]?.date || '';
     const effectiveTime = time || session.rounds?.[0]?.startTime || '';
     if (!effectiveDate || !effectiveTime) return 'Date and time to be determined';
-    const sessionDate = new Date(`${effectiveDate}T${effectiveTime}`);
+    const timeZone = resolveTimeZone(session.timeZone);
+    const sessionDate = getRoundStartDate(effectiveDate, effectiveTime, timeZone);
     if (isNaN(sessionDate.getTime())) return 'Date and time to be determined';
     return sessionDate.toLocaleDateString('en-US', {
       weekday: 'long',
@@ -269,7 +271,8 @@ export function SessionDisplayCard({
       month: 'long',
       day: 'numeric',
       hour: '2-digit',
-      minute: '2-digit'
+      minute: '2-digit',
+      timeZone,
     });
   };
 
@@ -310,8 +313,8 @@ export function SessionDisplayCard({
   const isSessionRunning = (session: NetworkingSession) => {
     if (!session.date || !session.startTime || !session.endTime) return false;
     const now = new Date();
-    const sessionStart = new Date(`${session.date}T${session.startTime}`);
-    const sessionEnd = new Date(`${session.date}T${session.endTime}`);
+    const sessionStart = getRoundStartDate(session.date, session.startTime, resolveTimeZone(session.timeZone));
+    const sessionEnd = getRoundStartDate(session.date, session.endTime, resolveTimeZone(session.timeZone));
     return now >= sessionStart && now <= sessionEnd;
   };
 
@@ -337,9 +340,7 @@ export function SessionDisplayCard({
     const now = new Date();
     return session.rounds.some((round: any) => {
       if (!round.startTime) return false;
-      const [hours, minutes] = round.startTime.split(':').map(Number);
-      const roundStart = new Date(round.date || session.date);
-      roundStart.setHours(hours, minutes, 0, 0);
+      const roundStart = getSessionRoundStart(session, round);
       // Calculate round end time (start + duration)
       const duration = round.duration || session.roundDuration || 0;
       const roundEnd = new Date(roundStart.getTime() + duration * 60 * 1000);
@@ -914,7 +915,7 @@ export function SessionDisplayCard({
 
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Recurring:</span>
-            <span className="capitalize">{session.isRecurring ? session.frequency : 'One-time'}</span>
+            <span>{describeRecurrence(getSessionRecurrence(session), session.occurrenceDate || session.date)}</span>
           </div>
 
           <div className="flex justify-between text-sm">
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef } from 'react';
-import { NetworkingSession } from '../App';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { NetworkingSession, ScoringProfile } from '../App';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -18,13 +18,18 @@ import { TimePicker } from './TimePicker';
 import { DatePicker } from './DatePicker';
 import { MeetingPointsManager } from './MeetingPointsManager';
 import { IceBreakersManager } from './IceBreakersManager';
+import { RegistrationQuestionsManager } from './RegistrationQuestionsManager';
+import { RecurrenceEditor } from './RecurrenceEditor';
 import { DEFAULT_ICE_BREAKERS } from '../utils/defaultIceBreakers';
 import { apiBaseUrl, publicAnonKey } from '../utils/supabase/info';
 import { toast } from 'sonner@2.0.3';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
 import { debugLog, errorLog } from '../utils/debug';
+import { ScheduleValidationError } from '../utils/apiErrorHandler';
 import { fetchSystemParameters, type SystemParameters } from '../utils/systemParameters';
+import { getBrowserTimeZone, getRoundStartDate, getTimeZoneOptions, resolveTimeZone } from '../utils/timeZone';
+import { getSessionRecurrence } from '../utils/recurrence';
 import { useIsDesktop } from '../hooks/useResponsive';
 import { getAccessToken } from '../utils/supabase/getAccessToken';
 import { useNavigate } from 'react-router';
@@ -32,6 +37,13 @@ import { PRICING_TIERS, getTierForCapacity, formatPrice, type CapacityTier } fro
 // Slider removed — capacity uses free-form input now
 // CAPACITY_OPTIONS import removed — slider replaced with free-form input
 
+// Mirrors DEFAULT_SCORING_PROFILE / MAX_CRITERION_WEIGHT in the matching server module
+const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  weights: { notMet: 30, team: 20, topics: 10 },
+  hard: {},
+};
+const MAX_CRITERION_WEIGHT = 40;
+
 interface SessionFormProps {
   initialData?: NetworkingSession | null;
   onSubmit: (session: Omit<NetworkingSession, 'id'>) => void;
@@ -40,15 +52,17 @@ interface SessionFormProps {
   organizerName?: string;
   profileImageUrl?: string;
   userSlug?: string;
+  defaultTimeZone?: string | null; // Organizer default for new sessions
   isDuplicate?: boolean;
 }
 
-export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organizerName, profileImageUrl, userSlug, isDuplicate }: SessionFormProps) {
+export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organizerName, profileImageUrl, userSlug, defaultTimeZone, isDuplicate }: SessionFormProps) {
   const isDesktop = useIsDesktop();
   const navigate = useNavigate();
   const [availableIceBreakers, setAvailableIceBreakers] = useState<string[]>([]);
   const [systemParams, setSystemParams] = useState<SystemParameters | null>(null);
   const [useCustomTimes, setUseCustomTimes] = useState(false);
+  const [useRoundCapacity, setUseRoundCapacity] = useState(() => !!initialData?.rounds?.some(r => r.maxParticipants));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showCreditDialog, setShowCreditDialog] = useState(false);
   const [creditCheckLoading, setCreditCheckLoading] = useState(false);
@@ -71,18 +85,14 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     if (initialData.rounds && initialData.rounds.length > 0) {
       const firstRound = initialData.rounds[0];
       if (firstRound.date && firstRound.startTime) {
-        const [hours, minutes] = firstRound.startTime.split(':').map(Number);
-        const roundStart = new Date(firstRound.date);
-        roundStart.setHours(hours, minutes, 0, 0);
+        const roundStart = getRoundStartDate(firstRound.date, firstRound.startTime, resolveTimeZone(initialData.timeZone));
         return now >= roundStart;
       }
     }
     
     // If no rounds array, check based on session date and startTime
     if (initialData.date && initialData.startTime) {
-      const [hours, minutes] = initialData.startTime.split(':').map(Number);
-      const sessionStart = new Date(initialData.date);
-      sessionStart.setHours(hours, minutes, 0, 0);
+      const sessionStart = getRoundStartDate(initialData.date, initialData.startTime, resolveTimeZone(initialData.timeZone));
       return now >= sessionStart;
     }
     
@@ -100,9 +110,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     if (initialData.rounds && initialData.rounds.length > 0) {
       for (const round of initialData.rounds) {
         if (round.date && round.startTime) {
-          const [hours, minutes] = round.startTime.split(':').map(Number);
-          const roundStart = new Date(round.date);
-          roundStart.setHours(hours, minutes, 0, 0);
+          const roundStart = getRoundStartDate(round.date, round.startTime, resolveTimeZone(initialData.timeZone));
           if (now >= roundStart) {
             startedCount++;
           }
@@ -171,6 +179,8 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     date: initialData?.date || '',
     startTime: initialData?.startTime || '',
     endTime: initialData?.endTime || '',
+    // Existing sessions keep their zone (legacy ones were Central European); new ones start from the organizer default
+    timeZone: initialData ? resolveTimeZone(initialData.timeZone) : resolveTimeZone(defaultTimeZone || getBrowserTimeZone()),
     roundDuration: initialData?.roundDuration || (systemParams?.defaultRoundDuration ?? 10),
     numberOfRounds: initialData?.numberOfRounds || (systemParams?.defaultNumberOfRounds ?? 1),
     gapBetweenRounds: initialData?.gapBetweenRounds || (systemParams?.defaultGapBetweenRounds ?? 10),
@@ -183,10 +193,21 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     registrationStart: initialData?.registrationStart,
     isRecurring: initialData?.isRecurring || false,
     frequency: initialData?.frequency || 'weekly',
+    // Duplicates start as one-time sessions
+    recurrence: isDuplicate ? null : getSessionRecurrence(initialData),
+    // Edits to a series occurrence apply to just this date unless the organizer picks "all future"
+    scope: initialData?.seriesId && !isDuplicate ? 'occurrence' : undefined,
     rounds: initialData?.rounds || [],
     enableTeams: initialData?.enableTeams || false,
     allowMultipleTeams: initialData?.allowMultipleTeams || false,
     matchingType: initialData?.matchingType || 'within-team',
+    matchingAlgorithm: initialData?.matchingAlgorithm || 'greedy',
+    rememberAcrossSessions: initialData?.rememberAcrossSessions || false,
+    meetingMemoryDays: initialData?.meetingMemoryDays || 90,
+    scoringProfile: initialData?.scoringProfile || null,
+    planAllRounds: initialData?.planAllRounds || false,
+    roleMatching: initialData?.roleMatching || null,
+    registrationQuestions: initialData?.registrationQuestions || [],
     teams: initialData?.teams || [],
     enableTopics: initialData?.enableTopics || false,
     allowMultipleTopics: initialData?.allowMultipleTopics || false,
@@ -225,6 +246,11 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     }
   }, [availableIceBreakers, isDuplicate]);
 
+  const timeZoneOptions = useMemo(() => {
+    const zones = getTimeZoneOptions();
+    return formData.timeZone && !zones.includes(formData.timeZone) ? [formData.timeZone, ...zones] : zones;
+  }, [formData.timeZone]);
+
   const [timeError, setTimeError] = useState('');
   const [roundDurationError, setRoundDurationError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<{
@@ -328,6 +354,36 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
       toast.error(gapBetweenRoundsError);
       return false;
     }
+
+    if (formData.roleMatching) {
+      const { leadRole, memberRole, minMembers, maxMembers } = formData.roleMatching;
+      if (!leadRole.trim() || !memberRole.trim() || leadRole.trim() === memberRole.trim()) {
+        toast.error('Please enter two different role names');
+        return false;
+      }
+      if (minMembers < 1 || maxMembers < minMembers) {
+        toast.error(`Each ${leadRole.trim()} needs at least 1 ${memberRole.trim()}, and the maximum can't be below the minimum`);
+        return false;
+      }
+    }
+
+    const questions = formData.registrationQuestions || [];
+    for (let index = 0; index < questions.length; index++) {
+      const question = questions[index];
+      const name = question.label.trim() || `Question ${index + 1}`;
+      if (!question.label.trim()) {
+        toast.error(`${name} needs a label`);
+        return false;
+      }
+      if (question.type !== 'scale' && question.options.length < 2) {
+        toast.error(`"${name}" needs at least 2 options`);
+        return false;
+      }
+      if (question.type === 'scale' && question.scaleMax <= question.scaleMin) {
+        toast.error(`The scale of "${name}" must end above where it starts`);
+        return false;
+      }
+    }
     
     // Validate required fields in order of appearance
     if (!formData.name?.trim()) {
@@ -372,6 +428,32 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     return true;
   };
 
+  // The server checks the schedule rules again (stale tab, changed parameters);
+  // its errors go next to the same fields the live validation uses
+  const submitSession = async (sessionData: Omit<NetworkingSession, 'id'>): Promise<boolean> => {
+    try {
+      // An emptied look-back goes out as null (the default), never as ''
+      const meetingMemoryDays = (sessionData.meetingMemoryDays ?? 0) > 0 ? sessionData.meetingMemoryDays : null;
+      await Promise.resolve(onSubmit({ ...sessionData, meetingMemoryDays }));
+      return true;
+    } catch (error) {
+      if (!(error instanceof ScheduleValidationError)) throw error;
+      for (const { field, message } of error.fieldErrors) {
+        if (field === 'roundDuration') setRoundDurationError(message);
+        if (field === 'gapBetweenRounds') setGapBetweenRoundsError(message);
+        if (field === 'registrationStart') setScheduleError(message);
+        if (field === 'startTime') {
+          setTimeError(message);
+          setFieldErrors(prev => ({ ...prev, startTime: true }));
+        }
+      }
+      if (error.fieldErrors.some(e => e.field === 'startTime')) {
+        startTimeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }
+      return false;
+    }
+  };
+
   const handleSaveDraft = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -397,7 +479,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
 
     setIsSubmitting(true);
     try {
-      await Promise.resolve(onSubmit(sessionData));
+      await submitSession(sessionData);
     } finally {
       setIsSubmitting(false);
     }
@@ -471,7 +553,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     
     // Re-validate that time is still in the future (only if first round hasn't started)
     if (!firstRoundStarted && formData.date && formData.startTime && !allErrors.date && !allErrors.startTime) {
-      const scheduledDateTime = new Date(`${formData.date}T${formData.startTime}:00`);
+      const scheduledDateTime = getRoundStartDate(formData.date, formData.startTime, resolveTimeZone(formData.timeZone));
       const now = new Date();
       const timeBuffer = (systemParams?.minimalTimeToFirstRound || 10) - 1;
       const minTimeFromNow = new Date(now.getTime() + timeBuffer * 60 * 1000);
@@ -489,7 +571,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     
     // Also validate that endTime is in the future
     if (formData.date && calculatedEndTime && !allErrors.date && !allErrors.startTime) {
-      const sessionEndDateTime = new Date(`${formData.date}T${calculatedEndTime}:00`);
+      const sessionEndDateTime = getRoundStartDate(formData.date, calculatedEndTime, resolveTimeZone(formData.timeZone));
       const now = new Date();
       
       if (sessionEndDateTime <= now) {
@@ -557,13 +639,17 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
 
     // If session is already published (update) or in free tier, skip credit dialog
     const isAlreadyLive = formData.status === 'published' || formData.status === 'scheduled';
-    const maxParticipants = formData.maxParticipants || 5;
+    // Same seat count the server prices: the biggest round when every round has its own limit
+    const roundLimits = formData.rounds.map(r => r.maxParticipants || 0);
+    const maxParticipants = roundLimits.length > 0 && roundLimits.every(limit => limit > 0)
+      ? Math.max(...roundLimits)
+      : Math.max(formData.maxParticipants || 5, ...roundLimits);
     const isFreeEvent = maxParticipants <= 5;
 
     if (isAlreadyLive || isFreeEvent) {
       setIsSubmitting(true);
       try {
-        await Promise.resolve(onSubmit(sessionData));
+        await submitSession(sessionData);
       } finally {
         setIsSubmitting(false);
       }
@@ -579,7 +665,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
       const token = await getAccessToken();
       if (!token) {
         // Can't check — let backend handle it
-        onSubmit(sessionData);
+        submitSession(sessionData);
         setShowCreditDialog(false);
         return;
       }
@@ -598,7 +684,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
 
       if (hasActiveSub) {
         // Has subscription — publish directly, no credit needed
-        onSubmit(sessionData);
+        submitSession(sessionData);
         setShowCreditDialog(false);
         return;
       }
@@ -615,7 +701,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     } catch (err) {
       errorLog('Error checking credits:', err);
       // On error, still let user try — backend will reject if no credits
-      onSubmit(sessionData);
+      submitSession(sessionData);
       setShowCreditDialog(false);
     } finally {
       setCreditCheckLoading(false);
@@ -624,7 +710,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
 
   const handleConfirmPublish = () => {
     if (pendingSessionData) {
-      onSubmit(pendingSessionData);
+      submitSession(pendingSessionData);
     }
     setShowCreditDialog(false);
     setPendingSessionData(null);
@@ -633,7 +719,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
 
   const handleSaveDraftAndBuyCredit = () => {
     if (pendingSessionData) {
-      onSubmit({ ...pendingSessionData, status: 'draft' as const });
+      submitSession({ ...pendingSessionData, status: 'draft' as const });
     }
     setShowCreditDialog(false);
     setPendingSessionData(null);
@@ -641,7 +727,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     navigate('/billing');
   };
 
-  const handleScheduleMakingLive = (e: React.FormEvent) => {
+  const handleScheduleMakingLive = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) return;
@@ -711,8 +797,9 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
       registrationStart: scheduledDateTime.toISOString()
     };
 
-    onSubmit(sessionData);
-    setShowScheduleDialog(false);
+    if (await submitSession(sessionData)) {
+      setShowScheduleDialog(false);
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -741,6 +828,11 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
         enableTeams: false,
         allowMultipleTeams: false,
         matchingType: 'within-team',
+        matchingAlgorithm: 'greedy',
+        rememberAcrossSessions: false,
+        meetingMemoryDays: 90,
+        scoringProfile: null,
+        planAllRounds: false,
         teams: [],
         enableTopics: false,
         allowMultipleTopics: false,
@@ -811,8 +903,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
         const round = initialData.rounds[i];
         if (round.date && round.startTime) {
           const [hours, minutes] = round.startTime.split(':').map(Number);
-          const roundStart = new Date(round.date);
-          roundStart.setHours(hours, minutes, 0, 0);
+          const roundStart = getRoundStartDate(round.date, round.startTime, resolveTimeZone(initialData.timeZone));
           
           // If this round has started, keep it as is
           if (now >= roundStart && i < formData.numberOfRounds) {
@@ -866,6 +957,8 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
             startTime: roundStartTime,
             date: roundDateString,
             duration: formData.roundDuration,
+            // Seats are set per position in the rounds list; regenerating keeps them
+            maxParticipants: formData.rounds[i]?.maxParticipants ?? null,
             // Inherit session-level groupSize so backend doesn't fall back to
             // its DB default of 2 when admin actually picked 3+. (Backend
             // also propagates this defensively, but setting it here keeps the
@@ -908,7 +1001,8 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
         name: roundStartTime,
         startTime: roundStartTime,
         date: roundDateString,
-        duration: formData.roundDuration
+        duration: formData.roundDuration,
+        maxParticipants: formData.rounds[i]?.maxParticipants ?? null,
       });
 
       // Add round duration and gap for next round
@@ -946,7 +1040,7 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
     }
 
     // Check if scheduled time is at least minimalTimeToFirstRound minutes from now (internal validation)
-    const scheduledDateTime = new Date(`${formData.date}T${formData.startTime}:00`);
+    const scheduledDateTime = getRoundStartDate(formData.date, formData.startTime, resolveTimeZone(formData.timeZone));
     const now = new Date();
     const timeBuffer = (systemParams?.minimalTimeToFirstRound || 10) - 1;
     const minTimeFromNow = new Date(now.getTime() + timeBuffer * 60 * 1000);
@@ -1291,6 +1385,65 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="timeZone">Time zone</Label>
+            <Select
+              value={formData.timeZone || undefined}
+              onValueChange={(timeZone) => setFormData({ ...formData, timeZone })}
+              disabled={firstRoundStarted}
+            >
+              <SelectTrigger id="timeZone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZoneOptions.map(zone => (
+                  <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Round times are in this zone. Participants elsewhere also see their local time.
+            </p>
+          </div>
+
+          {formData.scope && (
+            <div className="space-y-2">
+              <Label>Apply changes to</Label>
+              <ToggleGroup
+                type="single"
+                value={formData.scope}
+                onValueChange={(value) => {
+                  if (value) setFormData({ ...formData, scope: value as 'occurrence' | 'future' });
+                }}
+                className="grid grid-cols-2"
+              >
+                <ToggleGroupItem value="occurrence" className="h-10 py-2 px-4 text-center border border-border bg-background data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:border-primary">
+                  This date only
+                </ToggleGroupItem>
+                <ToggleGroupItem value="future" className="h-10 py-2 px-4 text-center border border-border bg-background data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:border-primary">
+                  This and all future dates
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <p className="text-sm text-muted-foreground">
+                {formData.scope === 'future'
+                  ? 'Later dates get the same settings and rounds. Dates people registered for are updated, not removed.'
+                  : 'Other dates of the series stay as they are.'}
+              </p>
+            </div>
+          )}
+
+          <RecurrenceEditor
+            value={formData.recurrence || null}
+            date={formData.date}
+            onChange={(recurrence) => setFormData({
+              ...formData,
+              recurrence,
+              isRecurring: !!recurrence,
+              frequency: recurrence?.frequency || formData.frequency,
+            })}
+            disabled={formData.scope === 'occurrence'}
+          />
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="numberOfRounds">Number of rounds</Label>
@@ -1494,6 +1647,58 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
               </Button>
             </div>
           )}
+
+          {/* Per-round capacity (venues differ per round) */}
+          {formData.rounds.length > 0 && (
+            <div className="flex items-center justify-between pt-2">
+              <div>
+                <Label htmlFor="roundCapacity" className="cursor-pointer">Seats per round</Label>
+                <p className="text-xs text-muted-foreground mt-0.5">Limit rounds individually, e.g. when they take place in different rooms</p>
+              </div>
+              <Switch
+                id="roundCapacity"
+                checked={useRoundCapacity}
+                onCheckedChange={(checked) => {
+                  setUseRoundCapacity(checked);
+                  if (!checked) {
+                    setFormData(prev => ({
+                      ...prev,
+                      rounds: prev.rounds.map(r => ({ ...r, maxParticipants: null })),
+                    }));
+                  }
+                }}
+              />
+            </div>
+          )}
+
+          {useRoundCapacity && formData.rounds.length > 0 && (
+            <div className="space-y-2 pt-2">
+              {formData.rounds.map((round, idx) => (
+                <div key={round.id} className="flex items-center gap-3 p-3 border rounded-lg bg-muted/30">
+                  <span className="text-sm font-medium text-muted-foreground w-20">Round {idx + 1}</span>
+                  <span className="text-sm text-muted-foreground w-14">{round.startTime}</span>
+                  <Input
+                    type="number"
+                    min="2"
+                    max="10000"
+                    placeholder={formData.limitParticipants && formData.maxParticipants ? String(formData.maxParticipants) : 'No limit'}
+                    value={round.maxParticipants ?? ''}
+                    className="w-28"
+                    onChange={(e) => {
+                      const parsedValue = parseInt(e.target.value);
+                      setFormData(prev => ({
+                        ...prev,
+                        rounds: prev.rounds.map((r, i) =>
+                          i === idx ? { ...r, maxParticipants: isNaN(parsedValue) ? null : parsedValue } : r
+                        ),
+                      }));
+                    }}
+                  />
+                  <span className="text-xs text-muted-foreground">seats</span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -1722,6 +1927,100 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
 
             <Separator />
 
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <Label>Enable roles</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent side="top" className="max-w-xs">
+                          <p>Two sides that should meet each other: mentors and mentees, investors and founders, buyers and sellers. Participants pick their role when registering and every group gets one of the first role</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                </div>
+                <Switch
+                  checked={!!formData.roleMatching}
+                  onCheckedChange={(checked) => {
+                    setFormData({
+                      ...formData,
+                      roleMatching: checked
+                        ? { leadRole: '', memberRole: '', minMembers: 1, maxMembers: Math.max(1, formData.groupSize - 1), peerFallback: true }
+                        : null,
+                    });
+                  }}
+                />
+              </div>
+
+              {formData.roleMatching && (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="leadRole">One per group</Label>
+                      <Input
+                        id="leadRole"
+                        placeholder="e.g. Mentor, Investor"
+                        value={formData.roleMatching.leadRole}
+                        onChange={(e) => setFormData({ ...formData, roleMatching: { ...formData.roleMatching!, leadRole: e.target.value } })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="memberRole">Meets them</Label>
+                      <Input
+                        id="memberRole"
+                        placeholder="e.g. Mentee, Founder"
+                        value={formData.roleMatching.memberRole}
+                        onChange={(e) => setFormData({ ...formData, roleMatching: { ...formData.roleMatching!, memberRole: e.target.value } })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="minMembers">Min. {formData.roleMatching.memberRole || 'members'} per group</Label>
+                      <Input
+                        id="minMembers"
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={formData.roleMatching.minMembers}
+                        onChange={(e) => setFormData({ ...formData, roleMatching: { ...formData.roleMatching!, minMembers: parseInt(e.target.value) || 1 } })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxMembers">Max. {formData.roleMatching.memberRole || 'members'} per group</Label>
+                      <Input
+                        id="maxMembers"
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={formData.roleMatching.maxMembers}
+                        onChange={(e) => setFormData({ ...formData, roleMatching: { ...formData.roleMatching!, maxMembers: parseInt(e.target.value) || 1 } })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="peerFallback"
+                      checked={formData.roleMatching.peerFallback}
+                      onCheckedChange={(checked) => setFormData({ ...formData, roleMatching: { ...formData.roleMatching!, peerFallback: checked === true } })}
+                    />
+                    <Label htmlFor="peerFallback" className="cursor-pointer">
+                      When one side has too many people, let the extra ones meet each other (groups of {formData.groupSize})
+                    </Label>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
@@ -1818,6 +2117,205 @@ export function SessionForm({ initialData, onSubmit, onCancel, userEmail, organi
                 </div>
               )}
             </div>
+
+            <Separator />
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Label>Registration questions</Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="max-w-xs">
+                      <p>Your own questions, answered once when registering (e.g. seniority, industry, looking for). Each one can bring people with similar or different answers together, or just be shown to you</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+
+              <RegistrationQuestionsManager
+                questions={formData.registrationQuestions || []}
+                onChange={(registrationQuestions) => setFormData(prev => ({ ...prev, registrationQuestions }))}
+              />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <Label>Remember past meetings across my events</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent side="top" className="max-w-xs">
+                          <p>Participants who already met at your other events won't be matched again. Useful for regular events with returning participants</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                </div>
+                <Switch
+                  checked={formData.rememberAcrossSessions}
+                  onCheckedChange={(checked) => setFormData({ ...formData, rememberAcrossSessions: checked })}
+                />
+              </div>
+
+              {formData.rememberAcrossSessions && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="meetingMemoryDays">Look back (days)</Label>
+                    <Input
+                      id="meetingMemoryDays"
+                      type="number"
+                      min="1"
+                      max="730"
+                      value={formData.meetingMemoryDays ?? ''}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        if (value === '') {
+                          setFormData({ ...formData, meetingMemoryDays: null });
+                        } else {
+                          const parsedValue = parseInt(value);
+                          if (!isNaN(parsedValue)) {
+                            setFormData({ ...formData, meetingMemoryDays: parsedValue });
+                          }
+                        }
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {formData.rounds.length > 1 && (
+              <>
+                <Separator />
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <Label>Plan all rounds in advance</Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent side="top" className="max-w-xs">
+                            <p>When the first round starts, we plan who meets whom in every round so nobody meets the same person twice. Later rounds adapt if someone doesn't show up</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                  </div>
+                  <Switch
+                    checked={formData.planAllRounds}
+                    onCheckedChange={(checked) => setFormData({ ...formData, planAllRounds: checked })}
+                  />
+                </div>
+              </>
+            )}
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Label>Matching criteria</Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="max-w-xs">
+                      <p>Higher weight means the criterion matters more when forming groups (0–{MAX_CRITERION_WEIGHT}). Required criteria are never broken — participants who can't be matched under them get no match</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+              {([
+                { key: 'notMet', label: "Haven't met before", visible: true },
+                { key: 'team', label: formData.matchingType === 'across-teams' ? 'Different teams' : 'Same team', visible: !!formData.enableTeams },
+                { key: 'topics', label: 'Shared topic', visible: !!formData.enableTopics },
+              ] as const).filter(criterion => criterion.visible).map(criterion => {
+                const profile = formData.scoringProfile || DEFAULT_SCORING_PROFILE;
+                return (
+                  <div key={criterion.key} className="flex items-center gap-3 p-3 border rounded-lg">
+                    <span className="flex-1 text-sm">{criterion.label}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={MAX_CRITERION_WEIGHT}
+                      value={profile.weights[criterion.key]}
+                      onChange={(e) => {
+                        const parsedValue = parseInt(e.target.value);
+                        const weight = isNaN(parsedValue) ? 0 : Math.min(MAX_CRITERION_WEIGHT, Math.max(0, parsedValue));
+                        setFormData({
+                          ...formData,
+                          scoringProfile: { ...profile, weights: { ...profile.weights, [criterion.key]: weight } },
+                        });
+                      }}
+                      className="w-20"
+                      aria-label={`${criterion.label} weight`}
+                    />
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`hard-${criterion.key}`}
+                        checked={!!profile.hard[criterion.key]}
+                        onCheckedChange={(checked) => setFormData({
+                          ...formData,
+                          scoringProfile: { ...profile, hard: { ...profile.hard, [criterion.key]: !!checked } },
+                        })}
+                      />
+                      <Label htmlFor={`hard-${criterion.key}`} className="text-sm font-normal">Required</Label>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {formData.groupSize === 2 && (
+              <>
+                <Separator />
+
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Label>Pairing</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent side="top" className="max-w-xs">
+                          <p>Best overall finds the pairing with the fewest repeat meetings across all participants. Recommended for events with many rounds</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    value={formData.matchingAlgorithm}
+                    onValueChange={(value) => {
+                      if (value) {
+                        setFormData({ ...formData, matchingAlgorithm: value as 'greedy' | 'optimal' });
+                      }
+                    }}
+                    className="grid grid-cols-2"
+                  >
+                    <ToggleGroupItem value="greedy" className="h-10 py-2 px-4 text-center border border-border bg-background data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:border-primary">
+                      Fast
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="optimal" className="h-10 py-2 px-4 text-center border border-border bg-background data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:border-primary">
+                      Best overall
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              </>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -10,7 +10,7 @@ import { Separator } from './ui/separator';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
 import { CheckCircle, Clock, Users, Calendar, Phone, Mail, User, ArrowLeft, ArrowRight, ChevronsUpDown, Check, Link2, Facebook, Linkedin, Copy, MapPin, FileText, PartyPopper, Video } from 'lucide-react';
-import { NetworkingSession } from '../App';
+import { NetworkingSession, RegistrationQuestion, RegistrationAnswers } from '../App';
 import { toast } from 'sonner@2.0.3';
 import { RoundItem } from './RoundItem';
 import { RoundRulesDialog, RoundRule } from './RoundRulesDialog';
@@ -21,6 +21,8 @@ import { debugLog, errorLog } from '../utils/debug';
 import { validateEmail, getEmailError } from '../utils/validation';
 import { useTime } from '../contexts/TimeContext';
 import { getParametersOrDefault } from '../utils/systemParameters';
+import { getLocalTimeHint, getRoundStartDate, resolveTimeZone } from '../utils/timeZone';
+import { describeRecurrence, getSessionRecurrence } from '../utils/recurrence';
 import confetti from 'canvas-confetti';
 import { COUNTRY_CODES } from '../utils/countryCodes';
 
@@ -55,7 +57,11 @@ interface SelectedSession {
   date: string;
   startTime: string;
   endTime: string;
+  timeZone?: string | null;
   rounds: SelectedRound[];
+  selectedRole?: string; // Role sessions: one role for all rounds of the session
+  answers?: RegistrationAnswers; // Registration questions, answered once per session
+  subscribeToSeries?: boolean; // Recurring sessions: also register for every future date
 }
 
 interface RegistrationData {
@@ -80,6 +86,84 @@ const XIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+/** Required questions of a session without an answer */
+function getUnansweredQuestions(session: NetworkingSession, answers: RegistrationAnswers | undefined): RegistrationQuestion[] {
+  return (session.registrationQuestions || []).filter(question => {
+    const value = answers?.[question.id];
+    return question.required && (value === undefined || (Array.isArray(value) && value.length === 0));
+  });
+}
+
+// Registration questions on a session card (pure)
+function SessionQuestions({ questions, answers, onAnswer }: {
+  questions: RegistrationQuestion[];
+  answers: RegistrationAnswers;
+  onAnswer: (questionId: string, value: string | string[] | number) => void;
+}) {
+  const optionClass = (selected: boolean) => `px-3 py-1.5 text-sm rounded-md border transition-all duration-200 ${
+    selected
+      ? 'border-primary bg-primary/5 text-primary'
+      : 'border-border bg-background text-foreground hover:border-primary/50 hover:bg-muted/30'
+  }`;
+
+  return (
+    <div className="mt-3 space-y-3">
+      {questions.map((question) => {
+        const value = answers[question.id];
+        const scaleValues = question.type === 'scale'
+          ? Array.from({ length: question.scaleMax - question.scaleMin + 1 }, (_, i) => question.scaleMin + i)
+          : [];
+
+        return (
+          <div key={question.id}>
+            <label className="text-xs text-muted-foreground mb-1 block">
+              {question.label}{question.required ? '' : ' (optional)'}
+              {question.type === 'multi' && ' · pick any'}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {question.type === 'single' && question.options.map((option) => (
+                <button key={option} type="button" onClick={() => onAnswer(question.id, option)} className={optionClass(value === option)}>
+                  {option}
+                </button>
+              ))}
+              {question.type === 'multi' && question.options.map((option) => {
+                const picked = Array.isArray(value) ? value : [];
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => onAnswer(question.id, picked.includes(option) ? picked.filter(o => o !== option) : [...picked, option])}
+                    className={optionClass(picked.includes(option))}
+                  >
+                    {option}
+                  </button>
+                );
+              })}
+              {question.type === 'scale' && (scaleValues.length <= 10 ? scaleValues.map((n) => (
+                <button key={n} type="button" onClick={() => onAnswer(question.id, n)} className={optionClass(value === n)}>
+                  {n}
+                </button>
+              )) : (
+                <Input
+                  type="number"
+                  min={question.scaleMin}
+                  max={question.scaleMax}
+                  value={typeof value === 'number' ? value : ''}
+                  onChange={(e) => {
+                    const n = parseInt(e.target.value, 10);
+                    if (!isNaN(n)) onAnswer(question.id, Math.min(question.scaleMax, Math.max(question.scaleMin, n)));
+                  }}
+                  className="w-24"
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 // ============================================================
 // Pure view for the "select-rounds" branch.
 // No state, effects, navigation, fetch, toast, or localStorage inside.
@@ -94,6 +178,9 @@ export interface SessionRegistrationSelectRoundsViewProps {
   selectedSessions: SelectedSession[];
   selectedRounds: Map<string, Set<string>>;
   roundSelections: Map<string, { team?: string; topic?: string; topics?: string[] }>;
+  sessionRoles: Map<string, string>; // sessionId -> picked role
+  sessionAnswers: Map<string, RegistrationAnswers>; // sessionId -> registration question answers
+  seriesOptIns: Set<string>; // sessionIds whose future dates to register for too
   registeredRoundsPerSession: Map<string, Set<string>>;
   participantStatusMap: Map<string, string>;
   globalNextUpcomingRoundId: string | null;
@@ -122,6 +209,9 @@ export interface SessionRegistrationSelectRoundsViewProps {
   onTeamSelect: (roundId: string, team: string) => void;
   onTopicSelect: (roundId: string, topic: string) => void;
   onMultipleTopicsSelect: (roundId: string, topic: string) => void;
+  onRoleSelect: (sessionId: string, role: string) => void;
+  onAnswer: (sessionId: string, questionId: string, value: string | string[] | number) => void;
+  onSeriesToggle: (sessionId: string, subscribe: boolean) => void;
   onUnregister: (roundId: string, roundName: string) => void;
   onConfirmAttendance: (roundId: string) => void;
   onContinue: () => void;
@@ -133,6 +223,9 @@ export function SessionRegistrationSelectRoundsView({
   selectedSessions,
   selectedRounds,
   roundSelections,
+  sessionRoles,
+  sessionAnswers,
+  seriesOptIns,
   registeredRoundsPerSession,
   participantStatusMap,
   globalNextUpcomingRoundId,
@@ -153,6 +246,9 @@ export function SessionRegistrationSelectRoundsView({
   onTeamSelect,
   onTopicSelect,
   onMultipleTopicsSelect,
+  onRoleSelect,
+  onAnswer,
+  onSeriesToggle,
   onUnregister,
   onConfirmAttendance,
   onContinue,
@@ -160,8 +256,20 @@ export function SessionRegistrationSelectRoundsView({
   // Derive validation flags locally (pure — no state)
   let missingTeams = false;
   let missingTopics = false;
+  let missingRoles = false;
+  let missingAnswers = false;
 
   const canContinue = selectedSessions.every(selectedSession => {
+    const actualSession = availableSessions.find(s => s.id === selectedSession.sessionId);
+    if (actualSession?.roleMatching && !sessionRoles.get(selectedSession.sessionId)) {
+      missingRoles = true;
+      return false;
+    }
+    if (actualSession && getUnansweredQuestions(actualSession, sessionAnswers.get(selectedSession.sessionId)).length > 0) {
+      missingAnswers = true;
+      return false;
+    }
+
     return selectedSession.rounds.every(selectedRound => {
       const actualSession = availableSessions.find(s => s.id === selectedSession.sessionId);
       if (!actualSession) return true;
@@ -200,6 +308,10 @@ export function SessionRegistrationSelectRoundsView({
     errorMessage = 'Please select a group for each round';
   } else if (missingTopics) {
     errorMessage = 'Please select a topic for each round';
+  } else if (missingRoles) {
+    errorMessage = 'Please select your role';
+  } else if (missingAnswers) {
+    errorMessage = 'Please answer the required questions';
   }
 
   const content = (
@@ -263,6 +375,52 @@ export function SessionRegistrationSelectRoundsView({
                     </button>
                   </div>
 
+                  {/* Role selection - once per session, shown when a round is selected */}
+                  {session.roleMatching && sessionRounds.size > 0 && (
+                    <div className="mt-3">
+                      <label className="text-xs text-muted-foreground mb-1 block">I am joining as:</label>
+                      <div className="flex flex-wrap gap-2">
+                        {[session.roleMatching.leadRole, session.roleMatching.memberRole].map((role) => (
+                          <button
+                            key={role}
+                            type="button"
+                            onClick={() => onRoleSelect(session.id, role)}
+                            className={`px-3 py-1.5 text-sm rounded-md border transition-all duration-200 ${
+                              sessionRoles.get(session.id) === role
+                                ? 'border-primary bg-primary/5 text-primary'
+                                : 'border-border bg-background text-foreground hover:border-primary/50 hover:bg-muted/30'
+                            }`}
+                          >
+                            {role}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Registration questions - once per session, shown when a round is selected */}
+                  {session.registrationQuestions && session.registrationQuestions.length > 0 && sessionRounds.size > 0 && (
+                    <SessionQuestions
+                      questions={session.registrationQuestions}
+                      answers={sessionAnswers.get(session.id) || {}}
+                      onAnswer={(questionId, value) => onAnswer(session.id, questionId, value)}
+                    />
+                  )}
+
+                  {/* Recurring session - register for the whole series */}
+                  {session.seriesId && sessionRounds.size > 0 && (
+                    <div className="mt-3 flex items-center space-x-2">
+                      <Checkbox
+                        id={`series-${session.id}`}
+                        checked={seriesOptIns.has(session.id)}
+                        onCheckedChange={(checked) => onSeriesToggle(session.id, checked === true)}
+                      />
+                      <label htmlFor={`series-${session.id}`} className="text-sm cursor-pointer select-none">
+                        Also register me for future dates ({describeRecurrence(getSessionRecurrence(session), session.date).toLowerCase()})
+                      </label>
+                    </div>
+                  )}
+
                   {/* Rounds Selection */}
                   {session.rounds && session.rounds.length > 0 && (
                     <div className="mt-3">
@@ -449,6 +607,9 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
   const [selectedSessions, setSelectedSessions] = useState<SelectedSession[]>([]);
   const [selectedRounds, setSelectedRounds] = useState<Map<string, Set<string>>>(new Map()); // sessionId -> Set of roundIds
   const [roundSelections, setRoundSelections] = useState<Map<string, {team?: string, topic?: string, topics?: string[]}>>(new Map()); // roundId -> selections
+  const [sessionRoles, setSessionRoles] = useState<Map<string, string>>(new Map()); // sessionId -> role
+  const [sessionAnswers, setSessionAnswers] = useState<Map<string, RegistrationAnswers>>(new Map()); // sessionId -> answers
+  const [seriesOptIns, setSeriesOptIns] = useState<Set<string>>(new Set()); // sessionIds subscribing to their series
 
   // State for globally next upcoming registered round
   const [globalNextUpcomingRoundId, setGlobalNextUpcomingRoundId] = useState<string | null>(null);
@@ -741,15 +902,16 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
     return country?.placeholder || '123 456 789';
   };
 
-  const formatDateTime = (date: string, time: string) => {
-    const sessionDate = new Date(`${date}T${time}`);
+  const formatDateTime = (date: string, time: string, timeZone?: string | null) => {
+    const sessionDate = getRoundStartDate(date, time, resolveTimeZone(timeZone));
     return sessionDate.toLocaleDateString('en-US', {
       weekday: 'long',
       year: 'numeric',
       month: 'long', 
       day: 'numeric',
       hour: '2-digit',
-      minute: '2-digit'
+      minute: '2-digit',
+      timeZone: resolveTimeZone(timeZone),
     });
   };
 
@@ -765,9 +927,9 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
   };
 
   // Calculate countdown to confirmation time (5 minutes before round start)
-  const calculateCountdown = (sessionDate: string, roundStartTime: string) => {
+  const calculateCountdown = (sessionDate: string, roundStartTime: string, timeZone?: string | null) => {
     const now = new Date();
-    const roundDateTime = new Date(`${sessionDate}T${roundStartTime}`);
+    const roundDateTime = getRoundStartDate(sessionDate, roundStartTime, resolveTimeZone(timeZone));
     const params = getParametersOrDefault();
     // Confirmation time is confirmationWindowMinutes before round start
     const confirmationTime = new Date(roundDateTime.getTime() - params.confirmationWindowMinutes * 60 * 1000);
@@ -924,7 +1086,11 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
             date: session.date,
             startTime: session.startTime,
             endTime: session.endTime,
-            rounds: selectedRoundsData
+            timeZone: session.timeZone,
+            rounds: selectedRoundsData,
+            selectedRole: sessionRoles.get(session.id),
+            answers: sessionAnswers.get(session.id),
+            subscribeToSeries: seriesOptIns.has(session.id)
           };
 
           if (existingIndex >= 0) {
@@ -969,6 +1135,32 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
     });
   };
 
+  const handleRoleSelect = (sessionId: string, role: string) => {
+    setSessionRoles(prev => new Map(prev).set(sessionId, role));
+    setSelectedSessions(prevSessions => prevSessions.map(session =>
+      session.sessionId === sessionId ? { ...session, selectedRole: role } : session
+    ));
+  };
+
+  const handleAnswer = (sessionId: string, questionId: string, value: string | string[] | number) => {
+    const answers = { ...(sessionAnswers.get(sessionId) || {}), [questionId]: value };
+    setSessionAnswers(prev => new Map(prev).set(sessionId, answers));
+    setSelectedSessions(prevSessions => prevSessions.map(session =>
+      session.sessionId === sessionId ? { ...session, answers } : session
+    ));
+  };
+
+  const handleSeriesToggle = (sessionId: string, subscribe: boolean) => {
+    setSeriesOptIns(prev => {
+      const next = new Set(prev);
+      if (subscribe) next.add(sessionId); else next.delete(sessionId);
+      return next;
+    });
+    setSelectedSessions(prevSessions => prevSessions.map(session =>
+      session.sessionId === sessionId ? { ...session, subscribeToSeries: subscribe } : session
+    ));
+  };
+
   const handleTopicSelect = (roundId: string, topic: string) => {
     setRoundSelections(prev => {
       const newMap = new Map(prev);
@@ -1227,6 +1419,17 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
     for (const selectedSession of selectedSessions) {
       const session = sessions.find(s => s.id === selectedSession.sessionId);
       if (!session) continue;
+
+      if (session.roleMatching && !selectedSession.selectedRole) {
+        toast.error(`Please select your role for "${selectedSession.sessionName}"`);
+        return;
+      }
+
+      const unanswered = getUnansweredQuestions(session, selectedSession.answers);
+      if (unanswered.length > 0) {
+        toast.error(`Please answer "${unanswered[0].label}" for "${selectedSession.sessionName}"`);
+        return;
+      }
       
       for (const selectedRound of selectedSession.rounds) {
         const round = session.rounds.find(r => r.id === selectedRound.roundId);
@@ -1276,7 +1479,7 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
 
     selectedSessions.forEach(session => {
       session.rounds.forEach(round => {
-        const startDate = new Date(`${session.date}T${round.startTime}:00`);
+        const startDate = getRoundStartDate(session.date, round.startTime, resolveTimeZone(session.timeZone));
         const endDate = new Date(startDate.getTime() + round.duration * 60000);
         
         const formatICSDate = (date: Date) => {
@@ -1360,7 +1563,7 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
         // Schedule notifications for each round
         selectedSessions.forEach(session => {
           session.rounds.forEach(round => {
-            const startDate = new Date(`${session.date}T${round.startTime}:00`);
+            const startDate = getRoundStartDate(session.date, round.startTime, resolveTimeZone(session.timeZone));
             const now = new Date();
             
             // Early reminder - only if enabled
@@ -1666,6 +1869,14 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
           debugLog('token:', result.token);
           debugLog('existingToken (sent to server):', existingToken ? `YES (${existingToken.substring(0, 20)}...)` : 'NO');
           debugLog('participantData.email sent:', participantData.email);
+
+          // Full rounds put the participant on the waitlist instead
+          if (result.waitlisted?.length > 0) {
+            const count = result.waitlisted.length;
+            toast.info(count === 1
+              ? `That round is full — you're #${result.waitlisted[0].position} on the waitlist. We'll let you know if a spot opens up.`
+              : `${count} rounds are full — you're on their waitlists. We'll let you know if a spot opens up.`);
+          }
           debugLog('');
           debugLog('🔍 DECISION LOGIC:');
           debugLog('  - Has existingToken?', !!existingToken);
@@ -1921,13 +2132,13 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
     }, []);
     
     // Find the earliest round across all sessions to show countdown
-    const earliestRound = selectedSessions.reduce((earliest: { date: string, time: string, name: string, sessionName: string } | null, session) => {
-      const sessionEarliest = session.rounds.reduce((sessionEarly: { date: string, time: string, name: string, sessionName: string } | null, round) => {
-        const candidate = { date: session.date, time: round.startTime, name: round.roundName, sessionName: session.sessionName };
+    const earliestRound = selectedSessions.reduce((earliest: { date: string, time: string, timeZone?: string | null, name: string, sessionName: string } | null, session) => {
+      const sessionEarliest = session.rounds.reduce((sessionEarly: { date: string, time: string, timeZone?: string | null, name: string, sessionName: string } | null, round) => {
+        const candidate = { date: session.date, time: round.startTime, timeZone: session.timeZone, name: round.roundName, sessionName: session.sessionName };
         if (!sessionEarly) return candidate;
         
-        const currentDateTime = new Date(`${candidate.date}T${candidate.time}`);
-        const earliestDateTime = new Date(`${sessionEarly.date}T${sessionEarly.time}`);
+        const currentDateTime = getRoundStartDate(candidate.date, candidate.time, resolveTimeZone(candidate.timeZone));
+        const earliestDateTime = getRoundStartDate(sessionEarly.date, sessionEarly.time, resolveTimeZone(sessionEarly.timeZone));
         
         return currentDateTime < earliestDateTime ? candidate : sessionEarly;
       }, null);
@@ -1935,8 +2146,8 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
       if (!earliest) return sessionEarliest;
       if (!sessionEarliest) return earliest;
       
-      const currentDateTime = new Date(`${sessionEarliest.date}T${sessionEarliest.time}`);
-      const earliestDateTime = new Date(`${earliest.date}T${earliest.time}`);
+      const currentDateTime = getRoundStartDate(sessionEarliest.date, sessionEarliest.time, resolveTimeZone(sessionEarliest.timeZone));
+      const earliestDateTime = getRoundStartDate(earliest.date, earliest.time, resolveTimeZone(earliest.timeZone));
       
       return currentDateTime < earliestDateTime ? sessionEarliest : earliest;
     }, null);
@@ -1945,11 +2156,11 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
     const CountdownDisplay = () => {
       if (!earliestRound) return null;
       
-      const [countdown, setCountdown] = useState(calculateCountdown(earliestRound.date, earliestRound.time));
+      const [countdown, setCountdown] = useState(calculateCountdown(earliestRound.date, earliestRound.time, earliestRound.timeZone));
       
       useEffect(() => {
         const interval = setInterval(() => {
-          setCountdown(calculateCountdown(earliestRound.date, earliestRound.time));
+          setCountdown(calculateCountdown(earliestRound.date, earliestRound.time, earliestRound.timeZone));
         }, 1000);
         
         return () => clearInterval(interval);
@@ -2011,10 +2222,11 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
                   <div className="text-center">
                     <p className="font-medium">{session.sessionName}</p>
                     <p className="text-xs text-muted-foreground">
-                      {new Date(`${session.date}T${session.startTime}`).toLocaleDateString('en-US', {
+                      {getRoundStartDate(session.date, session.startTime, resolveTimeZone(session.timeZone)).toLocaleDateString('en-US', {
                         weekday: 'short',
                         month: 'short',
-                        day: 'numeric'
+                        day: 'numeric',
+                        timeZone: resolveTimeZone(session.timeZone),
                       })}
                     </p>
                   </div>
@@ -2026,6 +2238,10 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
                           <span className="font-medium">{round.roundName}</span>
                           <span className="text-muted-foreground">
                             {round.startTime}
+                            {(() => {
+                              const localTimeHint = getLocalTimeHint(session.date, round.startTime, session.timeZone);
+                              return localTimeHint ? ` (${localTimeHint})` : '';
+                            })()}
                           </span>
                         </div>
                         {(round.selectedTeam || round.selectedTopic || (round.selectedTopics && round.selectedTopics.length > 0)) && (
@@ -2427,6 +2643,9 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
         selectedSessions={selectedSessions}
         selectedRounds={selectedRounds}
         roundSelections={roundSelections}
+        sessionRoles={sessionRoles}
+        sessionAnswers={sessionAnswers}
+        seriesOptIns={seriesOptIns}
         registeredRoundsPerSession={registeredRoundsPerSession}
         participantStatusMap={participantStatusMap}
         globalNextUpcomingRoundId={globalNextUpcomingRoundId}
@@ -2461,6 +2680,9 @@ export function SessionRegistration({ sessions, userSlug, eventName, registeredR
         }}
         onRoundSelect={handleRoundSelect}
         onTeamSelect={handleTeamSelect}
+        onRoleSelect={handleRoleSelect}
+        onAnswer={handleAnswer}
+        onSeriesToggle={handleSeriesToggle}
         onTopicSelect={handleTopicSelect}
         onMultipleTopicsSelect={handleMultipleTopicsSelect}
         onUnregister={handleUnregister}
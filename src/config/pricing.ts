@@ -9,6 +9,7 @@ export interface PricingTier {
   singleEventPrice: number; // in EUR cents
   premiumMonthlyPrice: number; // in EUR cents
   premiumAnnualPrice: number; // in EUR cents (per year)
+  smsMonthlyQuota: number; // SMS per calendar month (must match SMS_MONTHLY_QUOTA in the server's sms-quota.ts)
 }
 
 export const PRICING_TIERS: Record<CapacityTier, PricingTier> = {
@@ -18,6 +19,7 @@ export const PRICING_TIERS: Record<CapacityTier, PricingTier> = {
     singleEventPrice: 0,
     premiumMonthlyPrice: 0,
     premiumAnnualPrice: 0,
+    smsMonthlyQuota: 50,
   },
   '50': {
     capacity: 50,
@@ -25,6 +27,7 @@ export const PRICING_TIERS: Record<CapacityTier, PricingTier> = {
     singleEventPrice: 4900, // €49
     premiumMonthlyPrice: 9900, // €99/mo
     premiumAnnualPrice: 99000, // €990/yr (€82.50/mo, save €198)
+    smsMonthlyQuota: 500,
   },
   '200': {
     capacity: 200,
@@ -32,6 +35,7 @@ export const PRICING_TIERS: Record<CapacityTier, PricingTier> = {
     singleEventPrice: 9900, // €99
     premiumMonthlyPrice: 19900, // €199/mo
     premiumAnnualPrice: 199000, // €1990/yr (€165.83/mo, save €398)
+    smsMonthlyQuota: 2000,
   },
   '500': {
     capacity: 500,
@@ -39,6 +43,7 @@ export const PRICING_TIERS: Record<CapacityTier, PricingTier> = {
     singleEventPrice: 19900, // €199
     premiumMonthlyPrice: 39900, // €399/mo
     premiumAnnualPrice: 399000, // €3990/yr (€332.50/mo, save €798)
+    smsMonthlyQuota: 5000,
   },
   '1000': {
     capacity: 1000,
@@ -46,6 +51,7 @@ export const PRICING_TIERS: Record<CapacityTier, PricingTier> = {
     singleEventPrice: 34900, // €349
     premiumMonthlyPrice: 69900, // €699/mo
     premiumAnnualPrice: 699000, // €6990/yr (€582.50/mo, save €1398)
+    smsMonthlyQuota: 10000,
   },
   '5000': {
     capacity: 5000,
@@ -53,6 +59,7 @@ export const PRICING_TIERS: Record<CapacityTier, PricingTier> = {
     singleEventPrice: 79900, // €799
     premiumMonthlyPrice: 149900, // €1499/mo
     premiumAnnualPrice: 1499000, // €14990/yr (€1249.17/mo, save €2998)
+    smsMonthlyQuota: 50000,
   },
 };
 
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the server recurrence engine: which dates a series' rule
+ * produces, and which of them should exist as sessions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveRecurrenceRule,
+  addRecurrenceException,
+  listOccurrenceDates,
+  listDueOccurrenceDates,
+  addDays,
+  daysBetween,
+  SERIES_HORIZON_DAYS,
+  type RecurrenceRule,
+} from '../../../supabase/functions/make-server-ce05600a/recurrence';
+import { parseRoundStartTime, getZonedDate } from '../../../supabase/functions/make-server-ce05600a/time-helpers';
+
+const rule = (raw: Record<string, unknown>): RecurrenceRule => resolveRecurrenceRule(raw)!;
+
+describe('resolveRecurrenceRule', () => {
+  it('returns null without a known frequency', () => {
+    expect(resolveRecurrenceRule(null)).toBeNull();
+    expect(resolveRecurrenceRule({ frequency: 'yearly' })).toBeNull();
+  });
+
+  it('clamps the interval and drops invalid weekdays, counts and exceptions', () => {
+    const resolved = rule({
+      frequency: 'weekly', interval: 100, byWeekday: [4, 2, 2, 9, 'x'],
+      count: -1, exceptions: ['2026-11-03', '2026-02-30', '2026-11-03'],
+    });
+    expect(resolved.interval).toBe(52);
+    expect(resolved.byWeekday).toEqual([2, 4]);
+    expect(resolved.count).toBeNull();
+    expect(resolved.exceptions).toEqual(['2026-11-03']);
+  });
+
+  it('has no weekdays for monthly rules', () => {
+    expect(rule({ frequency: 'monthly', byWeekday: [2] }).byWeekday).toEqual([]);
+  });
+});
+
+describe('listOccurrenceDates', () => {
+  it('repeats weekly on the anchor weekday by default', () => {
+    // 2026-10-20 is a Tuesday
+    expect(listOccurrenceDates(rule({ frequency: 'weekly' }), '2026-10-20', '2026-10-20', '2026-11-10'))
+      .toEqual(['2026-10-20', '2026-10-27', '2026-11-03', '2026-11-10']);
+  });
+
+  it('puts Sunday last in its week and skips weeks by the interval', () => {
+    const everyOtherWeek = rule({ frequency: 'weekly', interval: 2, byWeekday: [0, 2] });
+    expect(listOccurrenceDates(everyOtherWeek, '2026-10-20', '2026-10-20', '2026-11-08'))
+      .toEqual(['2026-10-20', '2026-10-25', '2026-11-03', '2026-11-08']);
+  });
+
+  it('keeps a weekly series on its weekday and wall-clock time across the DST change', () => {
+    // Central Europe leaves summer time on 2026-10-25
+    const dates = listOccurrenceDates(rule({ frequency: 'weekly' }), '2026-10-20', '2026-10-20', '2026-11-03');
+    expect(dates).toEqual(['2026-10-20', '2026-10-27', '2026-11-03']);
+    expect(dates.map(date => parseRoundStartTime(date, '18:00', 'Europe/Bratislava').toISOString())).toEqual([
+      '2026-10-20T16:00:00.000Z',
+      '2026-10-27T17:00:00.000Z',
+      '2026-11-03T17:00:00.000Z',
+    ]);
+    expect(daysBetween('2026-10-20', '2026-10-27')).toBe(7);
+    expect(addDays('2026-10-24', 2)).toBe('2026-10-26');
+  });
+
+  it('skips months without the day for a monthly rule on the 31st', () => {
+    expect(listOccurrenceDates(rule({ frequency: 'monthly' }), '2026-01-31', '2026-01-01', '2026-12-31'))
+      .toEqual(['2026-01-31', '2026-03-31', '2026-05-31', '2026-07-31', '2026-08-31', '2026-10-31', '2026-12-31']);
+  });
+
+  it('repeats monthly on the nth weekday, a 5th weekday meaning the last', () => {
+    // 2026-10-13 is the 2nd Tuesday, 2026-10-29 the 5th (last) Thursday
+    const nthWeekday = rule({ frequency: 'monthly', monthlyMode: 'nth-weekday' });
+    expect(listOccurrenceDates(nthWeekday, '2026-10-13', '2026-10-13', '2026-12-31'))
+      .toEqual(['2026-10-13', '2026-11-10', '2026-12-08']);
+    expect(listOccurrenceDates(nthWeekday, '2026-10-29', '2026-10-29', '2026-12-31'))
+      .toEqual(['2026-10-29', '2026-11-26', '2026-12-31']);
+  });
+
+  it('leaves out exceptions, which still count towards count', () => {
+    const withException = addRecurrenceException(rule({ frequency: 'daily', count: 3 }), '2026-10-21');
+    expect(listOccurrenceDates(withException, '2026-10-20', '2026-10-20', '2026-12-31'))
+      .toEqual(['2026-10-20', '2026-10-22']);
+  });
+
+  it('ends at until, inclusive, and counts from the anchor however late it starts', () => {
+    expect(listOccurrenceDates(rule({ frequency: 'daily', until: '2026-10-22' }), '2026-10-20', '2026-10-01', '2026-12-31'))
+      .toEqual(['2026-10-20', '2026-10-21', '2026-10-22']);
+    expect(listOccurrenceDates(rule({ frequency: 'weekly', count: 3 }), '2026-10-20', '2026-10-28', '2026-12-31'))
+      .toEqual(['2026-11-03']);
+  });
+});
+
+describe('addRecurrenceException', () => {
+  it('keeps exceptions sorted and unique', () => {
+    const once = addRecurrenceException(rule({ frequency: 'weekly', exceptions: ['2026-11-10'] }), '2026-11-03');
+    expect(once.exceptions).toEqual(['2026-11-03', '2026-11-10']);
+    expect(addRecurrenceException(once, '2026-11-03')).toBe(once);
+  });
+});
+
+describe('listDueOccurrenceDates', () => {
+  it('covers today through the horizon', () => {
+    const dates = listDueOccurrenceDates(rule({ frequency: 'daily' }), '2026-10-01', '2026-10-18');
+    expect(dates[0]).toBe('2026-10-18');
+    expect(dates[dates.length - 1]).toBe(addDays('2026-10-18', SERIES_HORIZON_DAYS));
+    expect(dates).toHaveLength(SERIES_HORIZON_DAYS + 1);
+  });
+
+  it("counts today in the series' own time zone", () => {
+    // 23:30 UTC is already the next day in Bratislava
+    const today = getZonedDate(new Date('2026-10-19T23:30:00Z'), 'Europe/Bratislava');
+    expect(today).toBe('2026-10-20');
+    expect(listDueOccurrenceDates(rule({ frequency: 'weekly' }), '2026-10-13', today)[0]).toBe('2026-10-20');
+  });
+});
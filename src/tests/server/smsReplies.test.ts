@@ -0,0 +1,49 @@
+/**
+ * Unit tests for reading SMS replies to the round reminders.
+ *
+ * The main concern: a NO cancels the registration for good, so a reply that
+ * merely starts with "no" must not read as one.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSmsReply } from '../../../supabase/functions/make-server-ce05600a/sms-replies';
+
+describe('parseSmsReply', () => {
+  it('reads YES by the first word, ignoring case, diacritics and punctuation', () => {
+    expect(parseSmsReply('YES')).toBe('yes');
+    expect(parseSmsReply('Áno!')).toBe('yes');
+    expect(parseSmsReply('ok, see you')).toBe('yes');
+    expect(parseSmsReply('👍🏻')).toBe('yes');
+  });
+
+  it('reads a bare "no" or "n" as NO', () => {
+    expect(parseSmsReply('NO')).toBe('no');
+    expect(parseSmsReply('No.')).toBe('no');
+    expect(parseSmsReply(' n ')).toBe('no');
+  });
+
+  it('does not cancel on a longer reply that starts with "no"', () => {
+    expect(parseSmsReply('No problem, see you there')).toBe('unknown');
+    expect(parseSmsReply('No jasně')).toBe('unknown');
+    expect(parseSmsReply('No jo')).toBe('unknown');
+    expect(parseSmsReply('n ok')).toBe('unknown');
+  });
+
+  it('still reads unambiguous NO words at the start of a longer reply', () => {
+    expect(parseSmsReply('Nie, ďakujem')).toBe('no');
+    expect(parseSmsReply('nein danke')).toBe('no');
+  });
+
+  it('reads CANCEL as STOP, like the carrier opt-out keywords', () => {
+    expect(parseSmsReply('CANCEL')).toBe('stop');
+    expect(parseSmsReply('cancel please')).toBe('stop');
+    expect(parseSmsReply('STOP')).toBe('stop');
+    expect(parseSmsReply('Koniec')).toBe('stop');
+  });
+
+  it('reads START and leaves anything else unknown', () => {
+    expect(parseSmsReply('start')).toBe('start');
+    expect(parseSmsReply('yolo')).toBe('unknown');
+    expect(parseSmsReply('')).toBe('unknown');
+  });
+});
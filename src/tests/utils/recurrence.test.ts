@@ -0,0 +1,58 @@
+/**
+ * Unit tests for recurring session descriptions and rule defaults.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRecurrenceRule, describeRecurrence, getSessionRecurrence } from '../../utils/recurrence';
+
+describe('createRecurrenceRule', () => {
+  it('repeats weekly on the first session weekday', () => {
+    // 2026-10-20 is a Tuesday
+    expect(createRecurrenceRule('weekly', '2026-10-20').byWeekday).toEqual([2]);
+  });
+
+  it('has no weekdays for daily and monthly rules', () => {
+    expect(createRecurrenceRule('daily', '2026-10-20').byWeekday).toEqual([]);
+    expect(createRecurrenceRule('monthly', '2026-10-20').byWeekday).toEqual([]);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes one-time sessions', () => {
+    expect(describeRecurrence(null)).toBe('One-time');
+  });
+
+  it('describes every other week on a weekday', () => {
+    const rule = { ...createRecurrenceRule('weekly', '2026-10-20'), interval: 2 };
+    expect(describeRecurrence(rule, '2026-10-20')).toBe('Every 2 weeks on Tue');
+  });
+
+  it('lists weekdays Monday first', () => {
+    const rule = { ...createRecurrenceRule('weekly'), byWeekday: [0, 3, 1] };
+    expect(describeRecurrence(rule, '2026-10-20')).toBe('Weekly on Mon, Wed, Sun');
+  });
+
+  it('describes monthly rules by day of month or nth weekday', () => {
+    const rule = createRecurrenceRule('monthly', '2026-10-13');
+    expect(describeRecurrence(rule, '2026-10-13')).toBe('Monthly on day 13');
+    expect(describeRecurrence({ ...rule, monthlyMode: 'nth-weekday' }, '2026-10-13')).toBe('Monthly on the 2nd Tuesday');
+    expect(describeRecurrence({ ...rule, monthlyMode: 'nth-weekday' }, '2026-10-29')).toBe('Monthly on the last Thursday');
+  });
+
+  it('adds the end of the series', () => {
+    const rule = createRecurrenceRule('daily', '2026-10-20');
+    expect(describeRecurrence({ ...rule, until: '2026-12-31' })).toBe('Daily, until Dec 31, 2026');
+    expect(describeRecurrence({ ...rule, count: 10 })).toBe('Daily, 10 times');
+  });
+});
+
+describe('getSessionRecurrence', () => {
+  it('returns null for one-time sessions', () => {
+    expect(getSessionRecurrence({ isRecurring: false, frequency: 'weekly', date: '2026-10-20' })).toBeNull();
+  });
+
+  it('builds a rule for sessions saved with only a frequency', () => {
+    expect(getSessionRecurrence({ isRecurring: true, frequency: 'weekly', date: '2026-10-20' }))
+      .toEqual(createRecurrenceRule('weekly', '2026-10-20'));
+  });
+});
@@ -126,6 +126,27 @@ describe('computeInitialRoundPhase', () => {
       expect(phase).toBe('matching');
     });
   });
+
+  describe('session time zone', () => {
+    it('reads the start time in the session zone, not the browser zone', () => {
+      // 20:00 in New York (EDT) = 00:00 UTC next day
+      const input = { ...baseInput, timeZone: 'America/New_York' };
+      expect(computeInitialRoundPhase({ ...input, now: new Date('2026-04-18T23:59:00Z') })).toBe('before-confirmation');
+      expect(computeInitialRoundPhase({ ...input, now: new Date('2026-04-19T00:00:00Z') })).toBe('matching');
+    });
+
+    it('follows daylight saving time', () => {
+      // 20:00 in Bratislava: CET (UTC+1) in January, CEST (UTC+2) in April
+      const input = { ...baseInput, timeZone: 'Europe/Bratislava' };
+      expect(computeInitialRoundPhase({ ...input, now: new Date('2026-04-18T18:00:00Z') })).toBe('matching');
+      expect(computeInitialRoundPhase({
+        ...input,
+        sessionDate: '2026-01-17',
+        roundDate: '2026-01-17',
+        now: new Date('2026-01-17T18:30:00Z'),
+      })).toBe('before-confirmation');
+    });
+  });
 });
 
 describe('shouldShowConfirmButton', () => {
@@ -13,6 +13,29 @@ export interface ApiError {
   details?: any;
 }
 
+/**
+ * A session field the server rejected ('invalid_schedule' from
+ * POST/PUT /sessions), named like the SessionForm field it belongs to
+ */
+export interface ScheduleFieldError {
+  field: 'startTime' | 'roundDuration' | 'gapBetweenRounds' | 'registrationStart' | 'registrationEnd';
+  message: string;
+}
+
+/**
+ * Thrown when a session save breaks the schedule rules, so the form
+ * can show the server's errors next to the fields
+ */
+export class ScheduleValidationError extends Error {
+  fieldErrors: ScheduleFieldError[];
+
+  constructor(message: string, fieldErrors: ScheduleFieldError[] = []) {
+    super(message);
+    this.name = 'ScheduleValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
 /**
  * Extract error message from various error formats
  */
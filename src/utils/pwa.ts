@@ -1,4 +1,5 @@
 import { debugLog, errorLog } from './debug';
+import { apiBaseUrl, publicAnonKey } from './supabase/info';
 
 /**
  * PWA Utilities
@@ -308,6 +309,71 @@ export async function getPushSubscription(): Promise<PushSubscription | null> {
   }
 }
 
+/**
+ * Turn on round notifications for a participant on this browser: subscribe
+ * with the server's VAPID key and store the subscription under their token
+ * (the server pushes when there is no phone number to text)
+ */
+export async function enableParticipantPush(token: string): Promise<boolean> {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+    return false;
+  }
+
+  try {
+    if (!(await navigator.serviceWorker.getRegistration())) {
+      if (!(await registerServiceWorker())) return false;
+    }
+
+    const keyResponse = await fetch(`${apiBaseUrl}/push/vapid-public-key`, {
+      headers: { 'Authorization': `Bearer ${publicAnonKey}` },
+    });
+    if (!keyResponse.ok) return false;
+    const { publicKey } = await keyResponse.json();
+
+    const subscription = await subscribeToPushNotifications(publicKey);
+    if (!subscription) return false;
+
+    const response = await fetch(`${apiBaseUrl}/p/${token}/push-subscription`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${publicAnonKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(subscription.toJSON()),
+    });
+    return response.ok;
+  } catch (error) {
+    errorLog('Enabling push notifications failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Stop round notifications for a participant on this browser
+ */
+export async function disableParticipantPush(token: string): Promise<boolean> {
+  // serviceWorker.ready never settles without a registration
+  if (!('serviceWorker' in navigator) || !(await navigator.serviceWorker.getRegistration())) {
+    return true;
+  }
+  const subscription = await getPushSubscription();
+  if (!subscription) return true;
+
+  try {
+    await fetch(`${apiBaseUrl}/p/${token}/push-subscription`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${publicAnonKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ endpoint: subscription.endpoint }),
+    });
+  } catch (error) {
+    errorLog('Removing push subscription failed:', error);
+  }
+  return unsubscribeFromPushNotifications();
+}
+
 /**
  * Show local notification
  */
@@ -0,0 +1,80 @@
+/**
+ * Recurring session helpers for the form and session cards.
+ *
+ * The server (supabase/functions/make-server-ce05600a/recurrence.ts) owns the
+ * rule semantics and creates the occurrences; this only builds rules and
+ * describes them, e.g. "Every 2 weeks on Tue" or "Monthly on the 2nd Tuesday".
+ */
+
+import type { NetworkingSession, RecurrenceRule } from '../App';
+
+export const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_LONG = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = ['1st', '2nd', '3rd', '4th', 'last'];
+
+function parseDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function formatShortDate(date: string): string {
+  return parseDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+/** Weekday of a "YYYY-MM-DD" date, 0 = Sunday */
+export function getWeekday(date: string): number {
+  return parseDate(date).getUTCDay();
+}
+
+/** A new rule repeating on the first session's date pattern */
+export function createRecurrenceRule(frequency: RecurrenceRule['frequency'], date?: string): RecurrenceRule {
+  return {
+    frequency,
+    interval: 1,
+    byWeekday: frequency === 'weekly' && date ? [getWeekday(date)] : [],
+    monthlyMode: 'day-of-month',
+    until: null,
+    count: null,
+    exceptions: [],
+  };
+}
+
+/** The session's series rule; sessions saved before series existed only have `frequency` */
+export function getSessionRecurrence(
+  session: Pick<NetworkingSession, 'isRecurring' | 'frequency' | 'recurrence' | 'date'> | null | undefined,
+): RecurrenceRule | null {
+  if (!session?.isRecurring) return null;
+  if (session.recurrence) return session.recurrence;
+  return session.frequency ? createRecurrenceRule(session.frequency, session.date) : null;
+}
+
+/** "Every 2 weeks on Tue, Thu, until Dec 31, 2026" */
+export function describeRecurrence(rule: RecurrenceRule | null | undefined, anchorDate?: string): string {
+  if (!rule) return 'One-time';
+
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = interval === 1
+    ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' }[rule.frequency]
+    : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday.length > 0
+      ? rule.byWeekday
+      : anchorDate ? [getWeekday(anchorDate)] : [];
+    if (weekdays.length > 0) {
+      // Monday-first, like the server's weeks
+      const ordered = [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+      text += ` on ${ordered.map(d => WEEKDAY_SHORT[d]).join(', ')}`;
+    }
+  } else if (rule.frequency === 'monthly' && anchorDate) {
+    const day = parseDate(anchorDate).getUTCDate();
+    text += rule.monthlyMode === 'nth-weekday'
+      ? ` on the ${ORDINALS[Math.ceil(day / 7) - 1]} ${WEEKDAY_LONG[getWeekday(anchorDate)]}`
+      : ` on day ${day}`;
+  }
+
+  if (rule.until) text += `, until ${formatShortDate(rule.until)}`;
+  if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
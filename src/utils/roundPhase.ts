@@ -5,6 +5,8 @@
  * Kept as pure functions for easy unit testing.
  */
 
+import { getRoundStartDate } from './timeZone';
+
 export type CountdownPhase =
   | 'before-confirmation'
   | 'confirmation-window'
@@ -18,6 +20,8 @@ export interface RoundPhaseInput {
   sessionDate?: string | null;
   roundDate?: string | null;
   roundStartTime?: string | null;
+  /** Session IANA time zone; omitted = browser-local wall clock */
+  timeZone?: string | null;
   participantStatus?: string | null;
   now: Date;
 }
@@ -36,7 +40,7 @@ export interface RoundPhaseInput {
  * for transitioning to 'confirmation-window' when appropriate.
  */
 export function computeInitialRoundPhase(input: RoundPhaseInput): CountdownPhase {
-  const { isRegistered, sessionDate, roundDate, roundStartTime, participantStatus, now } = input;
+  const { isRegistered, sessionDate, roundDate, roundStartTime, timeZone, participantStatus, now } = input;
 
   if (!isRegistered || !sessionDate || !roundStartTime || roundStartTime === 'To be set' || roundStartTime === 'TBD') {
     return 'before-confirmation';
@@ -49,9 +53,8 @@ export function computeInitialRoundPhase(input: RoundPhaseInput): CountdownPhase
     const [h, m] = roundStartTime.split(':').map(Number);
     if (isNaN(h) || isNaN(m)) return 'before-confirmation';
 
-    const rs = new Date(roundDate || sessionDate);
+    const rs = getRoundStartDate(roundDate || sessionDate, roundStartTime, timeZone);
     if (isNaN(rs.getTime())) return 'before-confirmation';
-    rs.setHours(h, m, 0, 0);
 
     if (now >= rs) return 'matching'; // Past T-0 — show matching spinner
     return 'before-confirmation'; // Before T-0 — safe default (no button flash)
@@ -71,6 +74,7 @@ export interface ConfirmButtonVisibilityInput {
   sessionDate?: string | null;
   roundDate?: string | null;
   roundStartTime?: string | null;
+  timeZone?: string | null;
   confirmationWindowMinutes: number;
 }
 
@@ -96,6 +100,7 @@ export function shouldShowConfirmButton(input: ConfirmButtonVisibilityInput): bo
     sessionDate,
     roundDate,
     roundStartTime,
+    timeZone,
     confirmationWindowMinutes,
   } = input;
 
@@ -114,9 +119,8 @@ export function shouldShowConfirmButton(input: ConfirmButtonVisibilityInput): bo
     const [h, m] = roundStartTime.split(':').map(Number);
     if (isNaN(h) || isNaN(m)) return false;
 
-    const rs = new Date(roundDate || sessionDate);
+    const rs = getRoundStartDate(roundDate || sessionDate, roundStartTime, timeZone);
     if (isNaN(rs.getTime())) return false;
-    rs.setHours(h, m, 0, 0);
 
     const confirmationStart = new Date(rs.getTime() - confirmationWindowMinutes * 60 * 1000);
     if (now < confirmationStart) return false;
@@ -1,5 +1,6 @@
 import type { NetworkingSession, Round } from '../App';
 import { getParametersOrDefault } from './systemParameters';
+import { getRoundStartDate, resolveTimeZone } from './timeZone';
 
 /**
  * SESSION FLAGS (dynamic, computed on-the-fly)
@@ -27,7 +28,7 @@ export const hasUpcomingRounds = (session: NetworkingSession): boolean => {
   
   return session.rounds.some(round => {
     if (!round.startTime) return false;
-    const roundStart = new Date(`${session.date}T${round.startTime}:00`);
+    const roundStart = getRoundStartDate(session.date, round.startTime, resolveTimeZone(session.timeZone));
     // Close registration safetyWindowMinutes before start
     const registrationDeadline = new Date(roundStart.getTime() - params.safetyWindowMinutes * 60 * 1000);
     return now < registrationDeadline;
@@ -66,7 +67,7 @@ export const getRoundStatus = (session: NetworkingSession, round: Round): RoundS
 
   const now = new Date();
   const params = getParametersOrDefault();
-  const roundStart = new Date(`${session.date}T${round.startTime}:00`);
+  const roundStart = getRoundStartDate(session.date, round.startTime, resolveTimeZone(session.timeZone));
 
   // Time boundaries (all from round start)
   const walkingTimeMs = (params.walkingTimeMinutes || 3) * 60 * 1000;
@@ -119,7 +120,7 @@ export const isRoundAvailableForRegistration = (session: NetworkingSession, roun
   
   const now = new Date();
   const params = getParametersOrDefault();
-  const roundStart = new Date(`${session.date}T${round.startTime}:00`);
+  const roundStart = getRoundStartDate(session.date, round.startTime, resolveTimeZone(session.timeZone));
   // Close registration safetyWindowMinutes before start
   const registrationDeadline = new Date(roundStart.getTime() - params.safetyWindowMinutes * 60 * 1000);
   
@@ -134,7 +135,7 @@ export const isRoundWaitingForConfirmation = (session: NetworkingSession, round:
   
   const now = new Date();
   const params = getParametersOrDefault();
-  const roundStart = new Date(`${session.date}T${round.startTime}:00`);
+  const roundStart = getRoundStartDate(session.date, round.startTime, resolveTimeZone(session.timeZone));
   const confirmationStart = new Date(roundStart.getTime() - params.confirmationWindowMinutes * 60 * 1000);
   
   return now >= confirmationStart && now < roundStart;
@@ -15,6 +15,16 @@ export interface SystemParameters {
   // typically linking them to the contact-sharing page)
   smsRoundEndedEnabled: boolean;
 
+  // Quiet hours (session's local time) — the round-ended SMS waits until
+  // they are over; reminders around the round itself still go out
+  smsQuietHoursEnabled: boolean;
+  smsQuietHoursStart: number;
+  smsQuietHoursEnd: number;
+
+  // Web push to participants without a phone number, at the same points
+  // (and under the same toggles) as the SMS, plus when they get matched
+  pushNotificationsEnabled: boolean;
+
   // Email toggles — each mirrors the corresponding SMS. Admin can turn SMS
   // and/or email on independently for each of the 3 notification points.
   emailBeforeConfirmationEnabled: boolean;
@@ -33,6 +43,9 @@ export interface SystemParameters {
   // Contact sharing delay (minutes after networking starts before contacts are revealed)
   contactSharingDelayMinutes: number;
 
+  // Waitlist offers (minutes a promoted participant has to claim the spot)
+  waitlistClaimMinutes: number;
+
   // Time picker interval (minutes between selectable times)
   timePickerIntervalMinutes: number;
 
@@ -68,6 +81,12 @@ const DEFAULT_PARAMETERS: SystemParameters = {
 
   smsRoundEndedEnabled: true,
 
+  smsQuietHoursEnabled: true,
+  smsQuietHoursStart: 21,
+  smsQuietHoursEnd: 8,
+
+  pushNotificationsEnabled: true,
+
   emailBeforeConfirmationEnabled: false,
   emailAtConfirmationEnabled: false,
   emailAfterNetworkingEnabled: false,
@@ -82,6 +101,8 @@ const DEFAULT_PARAMETERS: SystemParameters = {
 
   contactSharingDelayMinutes: 5,
 
+  waitlistClaimMinutes: 60,
+
   timePickerIntervalMinutes: 5,
 
   fireThreshold1: 5,
@@ -0,0 +1,145 @@
+/**
+ * Session time zone utilities
+ *
+ * Round start times are wall-clock times in the session's IANA time zone
+ * (sessions.time_zone, falling back to the organizer default on creation).
+ * Legacy sessions without one were always scheduled in Central European time.
+ *
+ * Mirrors supabase/functions/make-server-ce05600a/time-helpers.tsx so the
+ * participant countdowns hit T-0 at the same instant the server matches.
+ */
+
+export const DEFAULT_TIME_ZONE = 'Europe/Bratislava';
+
+/** Zones offered in pickers when the browser can't list its own */
+const FALLBACK_TIME_ZONES = [
+  'Europe/London',
+  'Europe/Lisbon',
+  'Europe/Bratislava',
+  'Europe/Prague',
+  'Europe/Vienna',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Europe/Warsaw',
+  'Europe/Budapest',
+  'Europe/Athens',
+  'Europe/Kyiv',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'UTC',
+];
+
+export function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+export function getBrowserTimeZone(): string {
+  try {
+    return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+export function getTimeZoneOptions(): string[] {
+  const supportedValuesOf = (Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf;
+  if (typeof supportedValuesOf === 'function') {
+    try {
+      return supportedValuesOf('timeZone');
+    } catch {
+      // fall through
+    }
+  }
+  return FALLBACK_TIME_ZONES;
+}
+
+/** Offset of the zone from UTC at the given instant, in minutes (CEST → 120) */
+function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * Absolute start of a round.
+ * Without a time zone the wall-clock time is read in the browser's zone.
+ */
+export function getRoundStartDate(date: string, startTime: string, timeZone?: string | null): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = startTime.split(':').map(Number);
+
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hours, minutes, 0, 0);
+  }
+
+  const tz = resolveTimeZone(timeZone);
+  const wallClockUtc = Date.UTC(year, month - 1, day, hours, minutes, 0, 0);
+  // Second pass corrects the offset when the first guess lands across a DST switch
+  const firstGuess = wallClockUtc - getTimeZoneOffsetMinutes(new Date(wallClockUtc), tz) * 60000;
+  return new Date(wallClockUtc - getTimeZoneOffsetMinutes(new Date(firstGuess), tz) * 60000);
+}
+
+/** Start of one of the session's rounds, read in the session zone */
+export function getSessionRoundStart(
+  session: { date: string; timeZone?: string | null },
+  round: { date?: string | null; startTime: string },
+): Date {
+  return getRoundStartDate(round.date || session.date, round.startTime, resolveTimeZone(session.timeZone));
+}
+
+/** Short zone name at the given instant, e.g. "CEST" or "GMT+2" */
+export function getTimeZoneLabel(timeZone: string | null | undefined, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(timeZone),
+    timeZoneName: 'short',
+  }).formatToParts(at);
+  return parts.find(p => p.type === 'timeZoneName')?.value || resolveTimeZone(timeZone);
+}
+
+/**
+ * The round start in the participant's own zone, e.g. "12:00 PM your time",
+ * or null when the browser is in the session's zone (nothing to localize).
+ */
+export function getLocalTimeHint(date: string | null | undefined, startTime: string | null | undefined, timeZone: string | null | undefined): string | null {
+  if (!date || !startTime || !/^\d{1,2}:\d{2}/.test(startTime)) return null;
+
+  const start = getRoundStartDate(date, startTime, resolveTimeZone(timeZone));
+  if (isNaN(start.getTime())) return null;
+  if (getTimeZoneOffsetMinutes(start, resolveTimeZone(timeZone)) === -start.getTimezoneOffset()) return null;
+
+  const localTime = start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
+  const sameDay = start.getFullYear() === Number(date.slice(0, 4))
+    && start.getMonth() + 1 === Number(date.slice(5, 7))
+    && start.getDate() === Number(date.slice(8, 10));
+  return sameDay
+    ? `${localTime} your time`
+    : `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, ${localTime} your time`;
+}
@@ -0,0 +1,131 @@
+/**
+ * ATTENDANCE
+ * Confirming and cancelling a participant's round registration. The web
+ * routes (/p/:token/confirm/:roundId, /p/:token/unregister/:roundId) and the
+ * SMS replies (sms-inbound.ts) both go through these, so a YES by SMS follows
+ * exactly the rules of the Confirm button.
+ *
+ * Results carry the HTTP status the web routes answer with; the SMS path
+ * only reads `message`.
+ */
+
+import * as db from './db.ts';
+import { debugLog, errorLog } from './debug.tsx';
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
+import { promoteFromWaitlist } from './waitlist.ts';
+
+export type AttendanceResult =
+  | { ok: true; status: string; confirmedAt?: string; message?: string }
+  | { ok: false; httpStatus: 400 | 404; error: string; message: string; currentStatus?: string };
+
+const CONFIRMED_STATUSES = ['confirmed', 'matched', 'checked-in', 'met'];
+const CANCELLABLE_STATUSES = ['registered', 'confirmed'];
+
+/**
+ * Confirm attendance for one round. Idempotent for rounds already confirmed
+ * (or further along); only 'registered' rounds that haven't started yet can
+ * be confirmed.
+ */
+export async function confirmAttendance(
+  participantId: string,
+  sessionId: string,
+  roundId: string,
+  now: Date,
+): Promise<AttendanceResult> {
+  const registration = await db.getRegistration(participantId, sessionId, roundId);
+
+  if (!registration) {
+    return { ok: false, httpStatus: 404, error: 'Registration not found', message: 'Registration not found' };
+  }
+
+  // If already confirmed or later status, just return success (idempotent)
+  if (CONFIRMED_STATUSES.includes(registration.status)) {
+    debugLog(`✅ Round already in status "${registration.status}", returning success (idempotent)`);
+    return {
+      ok: true,
+      status: registration.status,
+      confirmedAt: registration.confirmedAt || registration.lastStatusUpdate,
+      message: 'Attendance already confirmed',
+    };
+  }
+
+  // Only 'registered' status can be confirmed (reject 'unconfirmed', 'no-match', 'missed', 'cancelled')
+  if (registration.status !== 'registered') {
+    debugLog(`❌ Cannot confirm - status not allowed: ${registration.status}`);
+    return {
+      ok: false,
+      httpStatus: 400,
+      error: 'Cannot confirm',
+      message: `Round status is "${registration.status}". Cannot confirm this round.`,
+      currentStatus: registration.status,
+    };
+  }
+
+  // Validate confirmation window — reject if round already started
+  const session = await db.getSessionById(sessionId);
+  const round = session?.rounds?.find((r: any) => r.id === roundId);
+  if (round && session?.date && round.startTime) {
+    const roundStartTime = parseRoundStartTime(session.date, round.startTime, resolveTimeZone(session.timeZone));
+    if (now > roundStartTime) {
+      debugLog('❌ Confirmation window closed - round already started');
+      return {
+        ok: false,
+        httpStatus: 400,
+        error: 'Confirmation window closed',
+        message: 'The round has already started. You can no longer confirm attendance.',
+        currentStatus: registration.status,
+      };
+    }
+  }
+
+  const confirmedAt = new Date().toISOString();
+
+  await db.updateRegistrationStatus(participantId, sessionId, roundId, 'confirmed', {
+    confirmedAt,
+  });
+
+  debugLog(`✅ Confirmed attendance for round ${roundId}`);
+  return { ok: true, status: 'confirmed', confirmedAt };
+}
+
+/**
+ * Cancel one round registration before matching. The freed spot goes to the
+ * first person on the round's waitlist.
+ */
+export async function cancelAttendance(
+  participantId: string,
+  sessionId: string,
+  roundId: string,
+  now: Date,
+): Promise<AttendanceResult> {
+  const registration = await db.getRegistration(participantId, sessionId, roundId);
+
+  if (!registration) {
+    return { ok: false, httpStatus: 404, error: 'Registration not found', message: 'Registration not found' };
+  }
+
+  // Only allow cancellation from 'registered' or 'confirmed' (before matching)
+  if (!CANCELLABLE_STATUSES.includes(registration.status)) {
+    debugLog(`⚠️ Cannot cancel: current status is "${registration.status}"`);
+    return {
+      ok: false,
+      httpStatus: 400,
+      error: 'Cannot unregister',
+      message: `Cannot unregister when status is "${registration.status}". You can only unregister before matching starts.`,
+      currentStatus: registration.status,
+    };
+  }
+
+  await db.updateRegistrationStatus(participantId, sessionId, roundId, 'cancelled');
+
+  debugLog(`✅ Participant cancelled registration for round ${roundId}`);
+
+  // The freed spot goes to the first person on the waitlist
+  try {
+    await promoteFromWaitlist(sessionId, roundId, now);
+  } catch (promoteError) {
+    errorLog('Waitlist promotion after unregister failed (non-blocking):', promoteError);
+  }
+
+  return { ok: true, status: 'cancelled', message: 'Successfully unregistered from round' };
+}
@@ -0,0 +1,254 @@
+/**
+ * CALENDAR FEEDS
+ * What the round calendar entries (ical.ts) contain and which SEQUENCE they
+ * carry. Three consumers:
+ *
+ *   - registration email: one .ics attachment per registered round
+ *   - participant feed:   GET /p/:token/calendar.ics — every round they
+ *                         registered for (cancelled registrations as CANCELLED)
+ *   - organizer feed:     GET /calendar/:calendarToken/feed.ics — every round
+ *                         of every live session
+ *
+ * calendar_events is the ledger of what was published: per round the last
+ * published content (fingerprint) and its SEQUENCE. syncCalendarEvents()
+ * compares the current rounds against it and bumps the SEQUENCE of anything
+ * that moved, was renamed or was cancelled (round removed, session back to
+ * draft). Feeds sync on every fetch, so edits made anywhere propagate without
+ * hooks — except deletions, where cancelCalendarEvents() must run first to
+ * remember who was registered (their registrations are deleted with the round).
+ */
+
+import * as db from './db.ts';
+import { debugLog } from './debug.tsx';
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
+import { meetingPointName } from './meeting-points.ts';
+import { buildCalendar, calendarEventUid, type CalendarEvent } from './ical.ts';
+
+/** Feeds skip rounds that ended longer ago than this */
+const FEED_HISTORY_DAYS = 180;
+const DEFAULT_ROUND_DURATION = 10;
+
+/** The published part of a round's entry; any change bumps its SEQUENCE */
+interface PublishedEvent {
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: string;
+  end: string;
+}
+
+type LedgerEntry = Awaited<ReturnType<typeof db.getCalendarEventsByOrganizer>>[number];
+
+function getFunctionsBaseUrl(): string {
+  const base = Deno.env.get('SUPABASE_URL') || '';
+  return `${base}/functions/v1/make-server-ce05600a`;
+}
+
+export function getParticipantFeedUrl(participantToken: string): string {
+  return `${getFunctionsBaseUrl()}/p/${encodeURIComponent(participantToken)}/calendar.ics`;
+}
+
+export function getOrganizerFeedUrl(calendarToken: string): string {
+  return `${getFunctionsBaseUrl()}/calendar/${encodeURIComponent(calendarToken)}/feed.ics`;
+}
+
+function getDashboardUrl(participantToken: string): string {
+  const appUrl = Deno.env.get('APP_URL') || 'https://wonderelo.com';
+  return `${appUrl}/p/${participantToken}`;
+}
+
+/** Sessions whose rounds belong in calendars; drafts are (or become) cancelled */
+function isLiveSession(session: any): boolean {
+  return ['published', 'scheduled', 'completed'].includes(session.status);
+}
+
+function publishedEventFor(session: any, round: any): PublishedEvent | null {
+  const date = round.date || session.date;
+  if (!date || !round.startTime) return null;
+
+  const start = parseRoundStartTime(date, round.startTime, resolveTimeZone(session.timeZone));
+  const duration = round.duration || session.roundDuration || DEFAULT_ROUND_DURATION;
+  const meetingPoints = (round.meetingPoints?.length > 0 ? round.meetingPoints : session.meetingPoints) || [];
+
+  return {
+    summary: round.name ? `${session.name} – ${round.name}` : session.name,
+    description: session.description || null,
+    location: meetingPoints.map(meetingPointName).join(', ') || null,
+    start: start.toISOString(),
+    end: new Date(start.getTime() + duration * 60000).toISOString(),
+  };
+}
+
+function fingerprintOf(event: PublishedEvent, cancelled: boolean): string {
+  return JSON.stringify({ ...event, cancelled });
+}
+
+function asCancelled(entry: LedgerEntry, participantIds: string[] = []): LedgerEntry {
+  return {
+    ...entry,
+    sequence: entry.sequence + 1,
+    fingerprint: fingerprintOf(entry.event, true),
+    participantIds: Array.from(new Set([...entry.participantIds, ...participantIds])),
+    cancelledAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Bring the ledger in line with the sessions' current rounds and return their
+ * entries. New rounds of live sessions start at SEQUENCE 0; changed, removed
+ * or unpublished ones are stored with SEQUENCE + 1.
+ */
+export async function syncCalendarEvents(sessions: any[]): Promise<LedgerEntry[]> {
+  const existing = await db.getCalendarEventsBySessions(sessions.map(s => s.id));
+  const byUid = new Map(existing.map(e => [e.uid, e]));
+  const changed: LedgerEntry[] = [];
+
+  for (const session of sessions) {
+    const live = isLiveSession(session);
+    const current = new Set<string>();
+
+    for (const round of session.rounds || []) {
+      const uid = calendarEventUid(round.id);
+      current.add(uid);
+      const event = publishedEventFor(session, round);
+      const entry = byUid.get(uid);
+      if (!event || (!entry && !live)) continue;
+
+      const fingerprint = fingerprintOf(event, !live);
+      if (entry?.fingerprint === fingerprint) continue;
+
+      changed.push({
+        uid,
+        organizerId: session.userId,
+        sessionId: session.id,
+        roundId: round.id,
+        sequence: entry ? entry.sequence + 1 : 0,
+        fingerprint,
+        event,
+        participantIds: entry?.participantIds || [],
+        cancelledAt: live ? null : (entry?.cancelledAt || new Date().toISOString()),
+        updatedAt: new Date().toISOString(),
+      });
+    }
+
+    for (const entry of existing) {
+      if (entry.sessionId === session.id && !current.has(entry.uid) && !entry.cancelledAt) {
+        changed.push(asCancelled(entry));
+      }
+    }
+  }
+
+  if (changed.length > 0) {
+    await db.upsertCalendarEvents(changed);
+    debugLog(`📅 Calendar: ${changed.length} round entr${changed.length === 1 ? 'y' : 'ies'} updated`);
+  }
+
+  for (const entry of changed) byUid.set(entry.uid, entry);
+  return Array.from(byUid.values());
+}
+
+/**
+ * Cancel the entries of rounds about to be deleted (all of the session's when
+ * `roundIds` is omitted), remembering who was registered so their feeds keep
+ * showing the cancellation. Call before deleting.
+ */
+export async function cancelCalendarEvents(sessionId: string, roundIds?: string[]): Promise<void> {
+  const entries = (await db.getCalendarEventsBySessions([sessionId]))
+    .filter(e => !e.cancelledAt && (!roundIds || roundIds.includes(e.roundId)));
+  if (entries.length === 0) return;
+
+  const registrations = await db.getRegistrationsForSession(sessionId);
+  await db.upsertCalendarEvents(entries.map(entry => asCancelled(
+    entry,
+    registrations.filter((r: any) => r.round_id === entry.roundId).map((r: any) => r.participant_id),
+  )));
+  debugLog(`📅 Calendar: cancelled ${entries.length} round entr${entries.length === 1 ? 'y' : 'ies'} of session ${sessionId}`);
+}
+
+function toCalendarEvent(entry: LedgerEntry, options: { url?: string; cancelledRegistration?: boolean } = {}): CalendarEvent {
+  // A participant's own cancellation is newer than anything the round published
+  const ownCancellation = options.cancelledRegistration && !entry.cancelledAt;
+  return {
+    uid: entry.uid,
+    sequence: entry.sequence + (ownCancellation ? 1 : 0),
+    ...entry.event,
+    url: options.url || null,
+    status: entry.cancelledAt || ownCancellation ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: entry.updatedAt,
+  };
+}
+
+function isWithinHistory(event: CalendarEvent, now: Date): boolean {
+  return new Date(event.end).getTime() >= now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/** Entries for the rounds a participant just registered for (email attachments) */
+export async function getRegistrationCalendarEvents(
+  sessions: any[],
+  roundIds: string[],
+  participantToken: string,
+): Promise<CalendarEvent[]> {
+  const entries = await syncCalendarEvents(sessions);
+  const url = getDashboardUrl(participantToken);
+  return roundIds
+    .map(roundId => entries.find(e => e.roundId === roundId))
+    .filter((entry): entry is LedgerEntry => !!entry)
+    .map(entry => toCalendarEvent(entry, { url }));
+}
+
+/** The participant's subscribable feed: every round they registered for */
+export async function buildParticipantFeed(participant: { participantId: string; token: string }, now: Date): Promise<string> {
+  const registrations = await db.getRegistrationsByParticipant(participant.participantId);
+  const sessions: any[] = [];
+  for (const sessionId of new Set(registrations.map((r: any) => r.sessionId))) {
+    const session = await db.getSessionById(sessionId);
+    if (session) sessions.push(session);
+  }
+
+  const entries = await syncCalendarEvents(sessions);
+  const byRound = new Map(entries.map(e => [e.roundId, e]));
+  const url = getDashboardUrl(participant.token);
+  const events: CalendarEvent[] = [];
+
+  for (const registration of registrations) {
+    const entry = byRound.get(registration.roundId);
+    if (entry) events.push(toCalendarEvent(entry, { url, cancelledRegistration: registration.status === 'cancelled' }));
+  }
+  // Rounds deleted since — their registrations are gone, the ledger remembers
+  const registeredRounds = new Set(registrations.map((r: any) => r.roundId));
+  for (const entry of await db.getCancelledCalendarEventsForParticipant(participant.participantId)) {
+    if (!registeredRounds.has(entry.roundId)) events.push(toCalendarEvent(entry, { url }));
+  }
+
+  return buildCalendar({
+    name: 'My Wonderelo rounds',
+    events: events.filter(e => isWithinHistory(e, now)),
+    now,
+  });
+}
+
+/** The organizer's subscribable feed: every round of every live session */
+export async function buildOrganizerFeed(organizerId: string, now: Date): Promise<string> {
+  const organizer = await db.getOrganizerById(organizerId);
+  const sessions = await db.getSessionsByUser(organizerId);
+  await syncCalendarEvents(sessions);
+
+  // Sessions deleted without cancelCalendarEvents (e.g. account cleanup)
+  const sessionIds = new Set(sessions.map((s: any) => s.id));
+  const entries = await db.getCalendarEventsByOrganizer(organizerId);
+  const orphaned = entries.filter(e => !e.cancelledAt && !sessionIds.has(e.sessionId)).map(e => asCancelled(e));
+  await db.upsertCalendarEvents(orphaned);
+
+  const byUid = new Map(entries.map(e => [e.uid, e]));
+  for (const entry of orphaned) byUid.set(entry.uid, entry);
+
+  return buildCalendar({
+    name: `${organizer?.organizerName || 'Wonderelo'} rounds`,
+    events: Array.from(byUid.values())
+      .map(entry => toCalendarEvent(entry))
+      .filter(e => isWithinHistory(e, now))
+      .sort((a, b) => a.start.localeCompare(b.start)),
+    now,
+  });
+}
@@ -5,6 +5,7 @@
  */
 
 import { getGlobalSupabaseClient } from './global-supabase.tsx';
+import { type RecurrenceRule } from './recurrence.ts';
 
 function db() {
   return getGlobalSupabaseClient();
@@ -38,6 +39,7 @@ export async function getOrganizerById(id: string) {
     description: data.description,
     profileImageUrl: data.profile_image_url,
     eventType: data.event_type,
+    defaultTimeZone: data.default_time_zone,
     onboardingCompletedAt: data.onboarding_completed_at,
     createdAt: data.created_at,
     updatedAt: data.updated_at,
@@ -63,6 +65,7 @@ export async function getOrganizerBySlug(slug: string) {
     description: data.description,
     profileImageUrl: data.profile_image_url,
     eventType: data.event_type,
+    defaultTimeZone: data.default_time_zone,
     createdAt: data.created_at,
     updatedAt: data.updated_at,
   };
@@ -78,6 +81,35 @@ export async function getOrganizerUserIdBySlug(slug: string): Promise<string | n
   return data?.id || null;
 }
 
+/** Organizer whose calendar feed URL carries this token */
+export async function getOrganizerIdByCalendarToken(token: string): Promise<string | null> {
+  const { data, error } = await db()
+    .from('organizer_profiles')
+    .select('id')
+    .eq('calendar_token', token)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.id || null;
+}
+
+export async function getOrganizerCalendarToken(id: string): Promise<string | null> {
+  const { data, error } = await db()
+    .from('organizer_profiles')
+    .select('calendar_token')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.calendar_token || null;
+}
+
+export async function setOrganizerCalendarToken(id: string, token: string) {
+  const { error } = await db()
+    .from('organizer_profiles')
+    .update({ calendar_token: token, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw error;
+}
+
 export async function createOrganizerProfile(profile: {
   userId: string;
   email: string;
@@ -117,6 +149,7 @@ export async function updateOrganizerProfile(
     website: string;
     description: string;
     profileImageUrl: string;
+    defaultTimeZone: string | null;
     onboardingCompletedAt: string;
   }>
 ) {
@@ -128,6 +161,7 @@ export async function updateOrganizerProfile(
   if (updates.website !== undefined) dbUpdates.website = updates.website;
   if (updates.description !== undefined) dbUpdates.description = updates.description;
   if (updates.profileImageUrl !== undefined) dbUpdates.profile_image_url = updates.profileImageUrl;
+  if (updates.defaultTimeZone !== undefined) dbUpdates.default_time_zone = updates.defaultTimeZone;
   if (updates.onboardingCompletedAt !== undefined) dbUpdates.onboarding_completed_at = updates.onboardingCompletedAt;
 
   const { data, error } = await db()
@@ -147,6 +181,7 @@ export async function updateOrganizerProfile(
     website: data.website,
     description: data.description,
     profileImageUrl: data.profile_image_url,
+    defaultTimeZone: data.default_time_zone,
     onboardingCompletedAt: data.onboarding_completed_at,
     createdAt: data.created_at,
     updatedAt: data.updated_at,
@@ -242,6 +277,23 @@ export async function setAdminSetting(key: string, value: any) {
   if (error) throw error;
 }
 
+/**
+ * Store `value` only if the key has no value yet and return the stored one —
+ * when several instances race to initialize a setting, all end up with the
+ * first write.
+ */
+export async function initAdminSetting(key: string, value: any) {
+  const { error } = await db()
+    .from('admin_settings')
+    .upsert({
+      key,
+      value,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'key', ignoreDuplicates: true });
+  if (error) throw error;
+  return await getAdminSetting(key);
+}
+
 // ============================================================
 // SESSIONS
 // ============================================================
@@ -253,12 +305,22 @@ function mapSessionFromDb(data: any) {
     name: data.name,
     description: data.description,
     date: data.date,
+    timeZone: data.time_zone,
     status: data.status,
+    registrationStart: data.registration_start,
+    registrationEnd: data.registration_end,
     limitParticipants: data.limit_participants,
     maxParticipants: data.max_participants,
     groupSize: data.group_size,
     enableTeams: data.enable_teams,
     matchingType: data.matching_type,
+    matchingAlgorithm: data.matching_algorithm,
+    rememberAcrossSessions: data.remember_across_sessions,
+    meetingMemoryDays: data.meeting_memory_days,
+    scoringProfile: data.scoring_profile,
+    planAllRounds: data.plan_all_rounds,
+    roleMatching: data.role_matching,
+    registrationQuestions: data.registration_questions,
     teams: data.teams,
     enableTopics: data.enable_topics,
     allowMultipleTopics: data.allow_multiple_topics,
@@ -266,6 +328,12 @@ function mapSessionFromDb(data: any) {
     meetingPoints: data.meeting_points,
     iceBreakers: data.ice_breakers,
     roundDuration: data.round_duration,
+    isRecurring: data.is_recurring,
+    frequency: data.frequency,
+    seriesId: data.series_id,
+    occurrenceDate: data.occurrence_date,
+    // The series' rule lives on session_series; routes fill it in for occurrences
+    recurrence: null as RecurrenceRule | null,
     createdAt: data.created_at,
     updatedAt: data.updated_at,
   };
@@ -300,6 +368,30 @@ export async function getSessionsByUser(userId: string) {
   }));
 }
 
+/** Just the ids of an organizer's sessions, without loading rounds */
+export async function getSessionIdsByUser(userId: string): Promise<string[]> {
+  const { data, error } = await db()
+    .from('sessions')
+    .select('id')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data || []).map((s: any) => s.id);
+}
+
+/** Organizer (user_id) of each of the given sessions */
+export async function getSessionOwners(sessionIds: string[]): Promise<Map<string, string>> {
+  const owners = new Map<string, string>();
+  for (let i = 0; i < sessionIds.length; i += 500) {
+    const { data, error } = await db()
+      .from('sessions')
+      .select('id, user_id')
+      .in('id', sessionIds.slice(i, i + 500));
+    if (error) throw error;
+    for (const s of data || []) owners.set(s.id, s.user_id);
+  }
+  return owners;
+}
+
 export async function getAllSessions() {
   const { data, error } = await db()
     .from('sessions')
@@ -324,18 +416,32 @@ export async function createSession(session: any) {
       name: sessionData.name,
       description: sessionData.description || null,
       date: sessionData.date || null,
+      time_zone: sessionData.timeZone || null,
       status: sessionData.status || 'draft',
+      registration_start: sessionData.registrationStart || null,
+      registration_end: sessionData.registrationEnd || null,
       limit_participants: sessionData.limitParticipants || false,
       max_participants: sessionData.maxParticipants || 20,
       group_size: sessionData.groupSize || 2,
       enable_teams: sessionData.enableTeams || false,
       matching_type: sessionData.matchingType || 'across-teams',
+      matching_algorithm: sessionData.matchingAlgorithm || 'greedy',
+      remember_across_sessions: sessionData.rememberAcrossSessions || false,
+      meeting_memory_days: sessionData.meetingMemoryDays || 90,
+      scoring_profile: sessionData.scoringProfile || null,
+      plan_all_rounds: sessionData.planAllRounds || false,
+      role_matching: sessionData.roleMatching || null,
+      registration_questions: sessionData.registrationQuestions || [],
       teams: sessionData.teams || [],
       enable_topics: sessionData.enableTopics || false,
       allow_multiple_topics: sessionData.allowMultipleTopics || false,
       topics: sessionData.topics || [],
       meeting_points: sessionData.meetingPoints || [],
       ice_breakers: sessionData.iceBreakers || [],
+      is_recurring: sessionData.isRecurring || false,
+      frequency: sessionData.frequency || null,
+      series_id: sessionData.seriesId || null,
+      occurrence_date: sessionData.occurrenceDate || null,
       created_at: sessionData.createdAt || new Date().toISOString(),
       updated_at: sessionData.updatedAt || new Date().toISOString(),
     });
@@ -369,18 +475,32 @@ export async function updateSession(sessionId: string, updates: any) {
   if (updates.name !== undefined) dbUpdates.name = updates.name;
   if (updates.description !== undefined) dbUpdates.description = updates.description;
   if (updates.date !== undefined) dbUpdates.date = updates.date;
+  if (updates.timeZone !== undefined) dbUpdates.time_zone = updates.timeZone;
   if (updates.status !== undefined) dbUpdates.status = updates.status;
+  if (updates.registrationStart !== undefined) dbUpdates.registration_start = updates.registrationStart || null;
+  if (updates.registrationEnd !== undefined) dbUpdates.registration_end = updates.registrationEnd || null;
   if (updates.limitParticipants !== undefined) dbUpdates.limit_participants = updates.limitParticipants;
   if (updates.maxParticipants !== undefined) dbUpdates.max_participants = updates.maxParticipants;
   if (updates.groupSize !== undefined) dbUpdates.group_size = updates.groupSize;
   if (updates.enableTeams !== undefined) dbUpdates.enable_teams = updates.enableTeams;
   if (updates.matchingType !== undefined) dbUpdates.matching_type = updates.matchingType;
+  if (updates.matchingAlgorithm !== undefined) dbUpdates.matching_algorithm = updates.matchingAlgorithm;
+  if (updates.rememberAcrossSessions !== undefined) dbUpdates.remember_across_sessions = updates.rememberAcrossSessions;
+  if (updates.meetingMemoryDays !== undefined) dbUpdates.meeting_memory_days = updates.meetingMemoryDays || 90;
+  if (updates.scoringProfile !== undefined) dbUpdates.scoring_profile = updates.scoringProfile;
+  if (updates.planAllRounds !== undefined) dbUpdates.plan_all_rounds = updates.planAllRounds;
+  if (updates.roleMatching !== undefined) dbUpdates.role_matching = updates.roleMatching;
+  if (updates.registrationQuestions !== undefined) dbUpdates.registration_questions = updates.registrationQuestions;
   if (updates.teams !== undefined) dbUpdates.teams = updates.teams;
   if (updates.enableTopics !== undefined) dbUpdates.enable_topics = updates.enableTopics;
   if (updates.allowMultipleTopics !== undefined) dbUpdates.allow_multiple_topics = updates.allowMultipleTopics;
   if (updates.topics !== undefined) dbUpdates.topics = updates.topics;
   if (updates.meetingPoints !== undefined) dbUpdates.meeting_points = updates.meetingPoints;
   if (updates.iceBreakers !== undefined) dbUpdates.ice_breakers = updates.iceBreakers;
+  if (updates.isRecurring !== undefined) dbUpdates.is_recurring = updates.isRecurring;
+  if (updates.frequency !== undefined) dbUpdates.frequency = updates.frequency;
+  if (updates.seriesId !== undefined) dbUpdates.series_id = updates.seriesId;
+  if (updates.occurrenceDate !== undefined) dbUpdates.occurrence_date = updates.occurrenceDate;
 
   const { error } = await db()
     .from('sessions')
@@ -409,6 +529,232 @@ export async function deleteSession(sessionId: string) {
   if (error) throw error;
 }
 
+// ============================================================
+// SESSION SERIES (recurring sessions)
+// ============================================================
+
+function mapSeriesFromDb(data: any) {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    recurrence: data.recurrence,
+    anchorDate: data.anchor_date,
+    template: data.template,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
+
+export async function createSeries(series: {
+  id: string;
+  userId: string;
+  recurrence: any;
+  anchorDate: string;
+  template: any;
+}) {
+  const { error } = await db()
+    .from('session_series')
+    .insert({
+      id: series.id,
+      user_id: series.userId,
+      recurrence: series.recurrence,
+      anchor_date: series.anchorDate,
+      template: series.template,
+    });
+  if (error) throw error;
+}
+
+export async function getSeriesById(seriesId: string) {
+  const { data, error } = await db()
+    .from('session_series')
+    .select('*')
+    .eq('id', seriesId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapSeriesFromDb(data) : null;
+}
+
+export async function getAllSeries() {
+  const { data, error } = await db()
+    .from('session_series')
+    .select('*');
+  if (error) throw error;
+  return (data || []).map(mapSeriesFromDb);
+}
+
+export async function updateSeries(seriesId: string, updates: {
+  recurrence?: any;
+  anchorDate?: string;
+  template?: any;
+}) {
+  const dbUpdates: Record<string, any> = { updated_at: new Date().toISOString() };
+  if (updates.recurrence !== undefined) dbUpdates.recurrence = updates.recurrence;
+  if (updates.anchorDate !== undefined) dbUpdates.anchor_date = updates.anchorDate;
+  if (updates.template !== undefined) dbUpdates.template = updates.template;
+
+  const { error } = await db()
+    .from('session_series')
+    .update(dbUpdates)
+    .eq('id', seriesId);
+  if (error) throw error;
+}
+
+/** Occurrences of a series (with rounds), earliest first */
+export async function getSessionsBySeries(seriesId: string) {
+  const { data, error } = await db()
+    .from('sessions')
+    .select('*')
+    .eq('series_id', seriesId)
+    .order('occurrence_date', { ascending: true });
+  if (error) throw error;
+  const sessionIds = (data || []).map(s => s.id);
+  const roundsBySession = await getRoundsBySessionIds(sessionIds);
+  return (data || []).map(s => ({
+    ...mapSessionFromDb(s),
+    rounds: roundsBySession[s.id] || []
+  }));
+}
+
+function mapSeriesSubscriptionFromDb(data: any) {
+  return {
+    seriesId: data.series_id,
+    participantId: data.participant_id,
+    organizerId: data.organizer_id,
+    preferences: data.preferences || {},
+    createdAt: data.created_at,
+    cancelledAt: data.cancelled_at,
+  };
+}
+
+/** Subscribe (or re-subscribe with new preferences) a participant to a series */
+export async function upsertSeriesSubscription(sub: {
+  seriesId: string;
+  participantId: string;
+  organizerId: string;
+  preferences: any;
+}) {
+  const { error } = await db()
+    .from('series_subscriptions')
+    .upsert({
+      series_id: sub.seriesId,
+      participant_id: sub.participantId,
+      organizer_id: sub.organizerId,
+      preferences: sub.preferences,
+      cancelled_at: null,
+    }, { onConflict: 'series_id,participant_id' });
+  if (error) throw error;
+}
+
+export async function cancelSeriesSubscription(seriesId: string, participantId: string) {
+  const { error } = await db()
+    .from('series_subscriptions')
+    .update({ cancelled_at: new Date().toISOString() })
+    .eq('series_id', seriesId)
+    .eq('participant_id', participantId)
+    .is('cancelled_at', null);
+  if (error) throw error;
+}
+
+export async function getActiveSeriesSubscriptions(seriesId: string) {
+  const { data, error } = await db()
+    .from('series_subscriptions')
+    .select('*')
+    .eq('series_id', seriesId)
+    .is('cancelled_at', null);
+  if (error) throw error;
+  return (data || []).map(mapSeriesSubscriptionFromDb);
+}
+
+/** Series IDs the participant is actively subscribed to */
+export async function getSeriesSubscriptionIdsByParticipant(participantId: string): Promise<string[]> {
+  const { data, error } = await db()
+    .from('series_subscriptions')
+    .select('series_id')
+    .eq('participant_id', participantId)
+    .is('cancelled_at', null);
+  if (error) throw error;
+  return (data || []).map(row => row.series_id);
+}
+
+// ============================================================
+// CALENDAR EVENTS (published state of round calendar entries)
+// ============================================================
+
+function mapCalendarEventFromDb(data: any) {
+  return {
+    uid: data.uid,
+    organizerId: data.organizer_id,
+    sessionId: data.session_id,
+    roundId: data.round_id,
+    sequence: data.sequence,
+    fingerprint: data.fingerprint,
+    event: data.event,
+    participantIds: data.participant_ids || [],
+    cancelledAt: data.cancelled_at,
+    updatedAt: data.updated_at,
+  };
+}
+
+export async function getCalendarEventsBySessions(sessionIds: string[]) {
+  if (sessionIds.length === 0) return [];
+  const { data, error } = await db()
+    .from('calendar_events')
+    .select('*')
+    .in('session_id', sessionIds);
+  if (error) throw error;
+  return (data || []).map(mapCalendarEventFromDb);
+}
+
+export async function getCalendarEventsByOrganizer(organizerId: string) {
+  const { data, error } = await db()
+    .from('calendar_events')
+    .select('*')
+    .eq('organizer_id', organizerId);
+  if (error) throw error;
+  return (data || []).map(mapCalendarEventFromDb);
+}
+
+/** Cancelled entries of deleted rounds the participant was registered for */
+export async function getCancelledCalendarEventsForParticipant(participantId: string) {
+  const { data, error } = await db()
+    .from('calendar_events')
+    .select('*')
+    .contains('participant_ids', [participantId])
+    .not('cancelled_at', 'is', null);
+  if (error) throw error;
+  return (data || []).map(mapCalendarEventFromDb);
+}
+
+export async function upsertCalendarEvents(events: Array<{
+  uid: string;
+  organizerId: string;
+  sessionId: string;
+  roundId: string;
+  sequence: number;
+  fingerprint: string;
+  event: any;
+  participantIds?: string[];
+  cancelledAt: string | null;
+}>) {
+  if (events.length === 0) return;
+  const now = new Date().toISOString();
+  const { error } = await db()
+    .from('calendar_events')
+    .upsert(events.map(e => ({
+      uid: e.uid,
+      organizer_id: e.organizerId,
+      session_id: e.sessionId,
+      round_id: e.roundId,
+      sequence: e.sequence,
+      fingerprint: e.fingerprint,
+      event: e.event,
+      participant_ids: e.participantIds || [],
+      cancelled_at: e.cancelledAt,
+      updated_at: now,
+    })), { onConflict: 'uid' });
+  if (error) throw error;
+}
+
 // ============================================================
 // ROUNDS
 // ============================================================
@@ -422,6 +768,7 @@ function mapRoundFromDb(data: any) {
     startTime: data.start_time,
     duration: data.duration,
     groupSize: data.group_size,
+    maxParticipants: data.max_participants,
     meetingPoints: data.meeting_points,
     status: data.status,
     confirmationWindow: data.confirmation_window,
@@ -478,6 +825,7 @@ export async function createRound(round: any) {
       start_time: round.startTime || null,
       duration: round.duration || 10,
       group_size: round.groupSize || 2,
+      max_participants: round.maxParticipants || null,
       meeting_points: round.meetingPoints || [],
       status: round.status || 'scheduled',
       confirmation_window: round.confirmationWindow || 5,
@@ -493,6 +841,7 @@ export async function updateRound(roundId: string, updates: any) {
   if (updates.startTime !== undefined) dbUpdates.start_time = updates.startTime;
   if (updates.duration !== undefined) dbUpdates.duration = updates.duration;
   if (updates.groupSize !== undefined) dbUpdates.group_size = updates.groupSize;
+  if (updates.maxParticipants !== undefined) dbUpdates.max_participants = updates.maxParticipants || null;
   if (updates.meetingPoints !== undefined) dbUpdates.meeting_points = updates.meetingPoints;
   if (updates.status !== undefined) dbUpdates.status = updates.status;
   if (updates.confirmationWindow !== undefined) dbUpdates.confirmation_window = updates.confirmationWindow;
@@ -536,6 +885,13 @@ async function syncRounds(sessionId: string, rounds: any[], sessionGroupSize?: n
 // PARTICIPANTS
 // ============================================================
 
+/** A participant's own choice per channel; a missing key means "on" */
+export interface NotificationChannels {
+  sms?: boolean;
+  email?: boolean;
+  push?: boolean;
+}
+
 function mapParticipantFromDb(data: any) {
   return {
     participantId: data.id,
@@ -549,6 +905,7 @@ function mapParticipantFromDb(data: any) {
     instagramUrl: data.instagram_url || null,
     websiteUrl: data.website_url || null,
     otherSocial: data.other_social || null,
+    notificationChannels: (data.notification_channels || {}) as NotificationChannels,
     createdAt: data.created_at,
     updatedAt: data.updated_at,
   };
@@ -584,6 +941,19 @@ export async function getParticipantById(id: string) {
   return data ? mapParticipantFromDb(data) : null;
 }
 
+/**
+ * Participants whose phone (as composeE164 would send to it) is `e164`.
+ * Usually one, but nothing stops two accounts sharing a phone.
+ */
+export async function getParticipantsByPhone(e164: string) {
+  const { data, error } = await db()
+    .from('participants')
+    .select('*')
+    .eq('phone_e164', e164);
+  if (error) throw error;
+  return (data || []).map(mapParticipantFromDb);
+}
+
 export async function createParticipant(participant: {
   participantId: string;
   email: string;
@@ -618,6 +988,7 @@ export async function updateParticipant(id: string, updates: Partial<{
   instagramUrl: string | null;
   websiteUrl: string | null;
   otherSocial: string | null;
+  notificationChannels: NotificationChannels;
 }>) {
   const dbUpdates: Record<string, any> = { updated_at: new Date().toISOString() };
   if (updates.email !== undefined) dbUpdates.email = updates.email.toLowerCase().trim();
@@ -630,6 +1001,7 @@ export async function updateParticipant(id: string, updates: Partial<{
   if (updates.instagramUrl !== undefined) dbUpdates.instagram_url = updates.instagramUrl;
   if (updates.websiteUrl !== undefined) dbUpdates.website_url = updates.websiteUrl;
   if (updates.otherSocial !== undefined) dbUpdates.other_social = updates.otherSocial;
+  if (updates.notificationChannels !== undefined) dbUpdates.notification_channels = updates.notificationChannels;
 
   const { error } = await db()
     .from('participants')
@@ -651,7 +1023,9 @@ function mapRegistrationFromDb(data: any) {
     organizerId: data.organizer_id,
     status: data.status,
     team: data.team,
+    role: data.role,
     topics: data.topics,
+    answers: data.answers,
     meetingPoint: data.meeting_point,
     matchId: data.match_id,
     matchPartnerNames: data.match_partner_names,
@@ -743,6 +1117,7 @@ export async function getRegistrationsForRound(sessionId: string, roundId: strin
         phone: r.participants.phone,
         phoneCountry: r.participants.phone_country,
         token: r.participants.token,
+        notificationChannels: (r.participants.notification_channels || {}) as NotificationChannels,
       };
     }
     return reg;
@@ -752,7 +1127,7 @@ export async function getRegistrationsForRound(sessionId: string, roundId: strin
 export async function getRegistrationsForSession(sessionId: string) {
   return await fetchAllPages<any>(() => db()
     .from('registrations')
-    .select('participant_id, round_id, status')
+    .select('participant_id, round_id, status, team')
     .eq('session_id', sessionId));
 }
 
@@ -781,7 +1156,9 @@ export async function createRegistration(reg: any) {
       organizer_id: reg.organizerId,
       status: reg.status || 'registered',
       team: reg.team || null,
+      role: reg.role || null,
       topics: reg.topics || [],
+      answers: reg.answers || {},
       meeting_point: reg.meetingPoint || null,
       notifications_enabled: reg.notificationsEnabled !== false,
       registered_at: reg.registeredAt || new Date().toISOString(),
@@ -812,7 +1189,9 @@ export async function updateRegistrationStatus(
     if (extra.noMatchReason !== undefined) dbUpdates.no_match_reason = extra.noMatchReason;
     if (extra.unconfirmedReason !== undefined) dbUpdates.unconfirmed_reason = extra.unconfirmedReason;
     if (extra.team !== undefined) dbUpdates.team = extra.team;
+    if (extra.role !== undefined) dbUpdates.role = extra.role;
     if (extra.topics !== undefined) dbUpdates.topics = extra.topics;
+    if (extra.answers !== undefined) dbUpdates.answers = extra.answers;
     if (extra.notificationsEnabled !== undefined) dbUpdates.notifications_enabled = extra.notificationsEnabled;
     if (extra.identificationNumber !== undefined) dbUpdates.identification_number = extra.identificationNumber;
     if (extra.identificationOptions !== undefined) dbUpdates.identification_options = extra.identificationOptions;
@@ -889,6 +1268,214 @@ export const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
   'cancelled': [],
 };
 
+// ============================================================
+// WAITLIST (per-round queue of full limited sessions)
+// ============================================================
+
+function mapWaitlistEntryFromDb(data: any) {
+  const entry = {
+    id: data.id,
+    sessionId: data.session_id,
+    roundId: data.round_id,
+    participantId: data.participant_id,
+    organizerId: data.organizer_id,
+    status: data.status as 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled',
+    preferences: data.preferences || {},
+    createdAt: data.created_at,
+    offeredAt: data.offered_at,
+    offerExpiresAt: data.offer_expires_at,
+    claimedAt: data.claimed_at,
+  };
+  if (data.participants) {
+    return {
+      ...entry,
+      email: data.participants.email as string | null,
+      firstName: data.participants.first_name as string | null,
+      lastName: data.participants.last_name as string | null,
+      phone: data.participants.phone as string | null,
+      phoneCountry: data.participants.phone_country as string | null,
+      token: data.participants.token as string | null,
+      notificationChannels: (data.participants.notification_channels || {}) as NotificationChannels,
+    };
+  }
+  return entry;
+}
+
+/** Every entry of a round, in queue order, with participant contact data */
+export async function getWaitlistForRound(roundId: string) {
+  const { data, error } = await db()
+    .from('waitlist_entries')
+    .select('*, participants(*)')
+    .eq('round_id', roundId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapWaitlistEntryFromDb);
+}
+
+export async function getWaitlistByParticipant(participantId: string) {
+  const { data, error } = await db()
+    .from('waitlist_entries')
+    .select('*')
+    .eq('participant_id', participantId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapWaitlistEntryFromDb);
+}
+
+export async function getWaitlistEntry(participantId: string, roundId: string) {
+  const { data, error } = await db()
+    .from('waitlist_entries')
+    .select('*')
+    .eq('participant_id', participantId)
+    .eq('round_id', roundId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapWaitlistEntryFromDb(data) : null;
+}
+
+/** Join (or re-join at the back of) a round's waitlist */
+export async function upsertWaitlistEntry(entry: {
+  sessionId: string;
+  roundId: string;
+  participantId: string;
+  organizerId: string;
+  preferences: any;
+}) {
+  const { error } = await db()
+    .from('waitlist_entries')
+    .upsert({
+      session_id: entry.sessionId,
+      round_id: entry.roundId,
+      participant_id: entry.participantId,
+      organizer_id: entry.organizerId,
+      status: 'waiting',
+      preferences: entry.preferences,
+      created_at: new Date().toISOString(),
+      offered_at: null,
+      offer_expires_at: null,
+      claimed_at: null,
+    }, { onConflict: 'round_id,participant_id' });
+  if (error) throw error;
+}
+
+/**
+ * Move an entry on from `fromStatus`. Returns false when it was no longer in
+ * that status (someone else got there first), so callers can skip it.
+ */
+export async function transitionWaitlistEntry(
+  id: string,
+  fromStatus: string,
+  toStatus: string,
+  extra?: { offeredAt?: string; offerExpiresAt?: string; claimedAt?: string }
+): Promise<boolean> {
+  const dbUpdates: Record<string, any> = { status: toStatus };
+  if (extra?.offeredAt !== undefined) dbUpdates.offered_at = extra.offeredAt;
+  if (extra?.offerExpiresAt !== undefined) dbUpdates.offer_expires_at = extra.offerExpiresAt;
+  if (extra?.claimedAt !== undefined) dbUpdates.claimed_at = extra.claimedAt;
+
+  const { data, error } = await db()
+    .from('waitlist_entries')
+    .update(dbUpdates)
+    .eq('id', id)
+    .eq('status', fromStatus)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** Offers whose claim deadline has passed */
+export async function getExpiredWaitlistOffers(nowIso: string) {
+  const { data, error } = await db()
+    .from('waitlist_entries')
+    .select('*')
+    .eq('status', 'offered')
+    .lte('offer_expires_at', nowIso);
+  if (error) throw error;
+  return (data || []).map(mapWaitlistEntryFromDb);
+}
+
+// ============================================================
+// PUSH SUBSCRIPTIONS (web push per participant browser)
+// ============================================================
+
+function mapPushSubscriptionFromDb(data: any) {
+  return {
+    id: data.id,
+    participantId: data.participant_id,
+    endpoint: data.endpoint,
+    p256dh: data.p256dh,
+    auth: data.auth,
+    userAgent: data.user_agent,
+    createdAt: data.created_at,
+  };
+}
+
+/** Store a browser subscription; an endpoint seen before is moved to this participant */
+export async function savePushSubscription(
+  participantId: string,
+  subscription: { endpoint: string; p256dh: string; auth: string; userAgent?: string | null }
+) {
+  const { data, error } = await db()
+    .from('push_subscriptions')
+    .upsert({
+      participant_id: participantId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.p256dh,
+      auth: subscription.auth,
+      user_agent: subscription.userAgent || null,
+    }, { onConflict: 'endpoint' })
+    .select()
+    .single();
+  if (error) throw error;
+  return mapPushSubscriptionFromDb(data);
+}
+
+export async function deletePushSubscription(participantId: string, endpoint: string): Promise<boolean> {
+  const { data, error } = await db()
+    .from('push_subscriptions')
+    .delete()
+    .eq('participant_id', participantId)
+    .eq('endpoint', endpoint)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** Drop subscriptions the push service reported as gone (404/410) */
+export async function deletePushSubscriptionsByEndpoint(endpoints: string[]) {
+  if (endpoints.length === 0) return;
+  const { error } = await db()
+    .from('push_subscriptions')
+    .delete()
+    .in('endpoint', endpoints);
+  if (error) throw error;
+}
+
+export async function getPushSubscriptionsByParticipant(participantId: string) {
+  const { data, error } = await db()
+    .from('push_subscriptions')
+    .select('*')
+    .eq('participant_id', participantId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapPushSubscriptionFromDb);
+}
+
+/** Subscriptions of many participants at once (chunked like the other bulk reads) */
+export async function getPushSubscriptionsForParticipants(participantIds: string[]) {
+  const rows: any[] = [];
+  const CHUNK = 500;
+  for (let i = 0; i < participantIds.length; i += CHUNK) {
+    const { data, error } = await db()
+      .from('push_subscriptions')
+      .select('*')
+      .in('participant_id', participantIds.slice(i, i + CHUNK));
+    if (error) throw error;
+    rows.push(...(data || []));
+  }
+  return rows.map(mapPushSubscriptionFromDb);
+}
+
 // ============================================================
 // MATCHES
 // ============================================================
@@ -905,12 +1492,48 @@ export async function getMatchById(matchId: string) {
     sessionId: data.session_id,
     roundId: data.round_id,
     meetingPoint: data.meeting_point,
+    explanation: data.explanation || null,
     createdAt: data.created_at,
   } : null;
 }
 
-// (removed) getMatchesByRound + getMatchesForSession — were dead code with no
-// callers. If needed in future, re-add with fetchAllPages() for >1000 matches.
+// (removed) getMatchesForSession — was dead code with no callers. If needed
+// in future, re-add with fetchAllPages() like getMatchesByRound below.
+
+/**
+ * All matches of a round with their members (organizer round view).
+ * Two paginated queries: matches, then the registrations pointing at them.
+ */
+export async function getMatchesByRound(sessionId: string, roundId: string) {
+  const matches = await fetchAllPages<any>(() => db()
+    .from('matches')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('round_id', roundId));
+  if (matches.length === 0) return [];
+
+  const regs = await fetchAllPages<any>(() => db()
+    .from('registrations')
+    .select('match_id, participant_id, status')
+    .eq('session_id', sessionId)
+    .eq('round_id', roundId)
+    .not('match_id', 'is', null));
+  const membersByMatch = new Map<string, any[]>();
+  for (const r of regs) {
+    if (!membersByMatch.has(r.match_id)) membersByMatch.set(r.match_id, []);
+    membersByMatch.get(r.match_id)!.push({ participantId: r.participant_id, status: r.status });
+  }
+
+  return matches.map(m => ({
+    matchId: m.id,
+    sessionId: m.session_id,
+    roundId: m.round_id,
+    meetingPoint: m.meeting_point,
+    explanation: m.explanation || null,
+    createdAt: m.created_at,
+    members: membersByMatch.get(m.id) || [],
+  }));
+}
 
 export async function createMatch(match: {
   matchId: string;
@@ -951,6 +1574,7 @@ export async function getMatchParticipants(matchId: string) {
     topics: r.topics,
     identificationNumber: r.identification_number,
     identificationOptions: r.identification_options,
+    status: r.status,
   }));
 }
 
@@ -980,6 +1604,82 @@ export async function getMatchParticipantsBatch(sessionId: string): Promise<Map<
   return map;
 }
 
+/**
+ * Match groups from the organizer's OTHER sessions, matched on/after `since`,
+ * restricted to the given participants. Participants are unique per
+ * normalized email, so participant_id doubles as the cross-session identity.
+ * Only co-members who are both in `participantIds` matter to the matcher, so
+ * filtering on participant is enough to rebuild the pairs it cares about.
+ * Returns Map<matchId, participantId[]> like getMatchParticipantsBatch.
+ */
+export async function getOrganizerMatchParticipantsBatch(
+  organizerId: string,
+  excludeSessionId: string,
+  participantIds: string[],
+  since: string
+): Promise<Map<string, string[]>> {
+  const map = new Map<string, string[]>();
+  const CHUNK = 500;
+  for (let i = 0; i < participantIds.length; i += CHUNK) {
+    const slice = participantIds.slice(i, i + CHUNK);
+    const data = await fetchAllPages<any>(() => db()
+      .from('registrations')
+      .select('id, match_id, participant_id')
+      .eq('organizer_id', organizerId)
+      .neq('session_id', excludeSessionId)
+      .in('participant_id', slice)
+      .not('match_id', 'is', null)
+      .gte('matched_at', since));
+    for (const row of data) {
+      if (!map.has(row.match_id)) {
+        map.set(row.match_id, []);
+      }
+      map.get(row.match_id)!.push(row.participant_id);
+    }
+  }
+  return map;
+}
+
+/**
+ * How often each participant ended a round without meeting anyone
+ * ('no-match' or 'missed'): other rounds of this session, plus the
+ * organizer's other sessions since `organizerWide.since` when given.
+ * Returns participantId → count; participants with none are left out.
+ */
+export async function getNoMatchCounts(
+  sessionId: string,
+  excludeRoundId: string,
+  participantIds: string[],
+  organizerWide: { organizerId: string; since: string } | null = null,
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const CHUNK = 500;
+  for (let i = 0; i < participantIds.length; i += CHUNK) {
+    const slice = participantIds.slice(i, i + CHUNK);
+    const rows = await fetchAllPages<any>(() => db()
+      .from('registrations')
+      .select('id, participant_id')
+      .eq('session_id', sessionId)
+      .neq('round_id', excludeRoundId)
+      .in('status', ['no-match', 'missed'])
+      .in('participant_id', slice));
+    if (organizerWide) {
+      rows.push(...await fetchAllPages<any>(() => db()
+        .from('registrations')
+        .select('id, participant_id')
+        .eq('organizer_id', organizerWide.organizerId)
+        .neq('session_id', sessionId)
+        .in('status', ['no-match', 'missed'])
+        .in('participant_id', slice)
+        .gte('last_status_update', organizerWide.since)));
+    }
+    for (const row of rows) {
+      counts.set(row.participant_id, (counts.get(row.participant_id) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
 /**
  * Bulk update registration status for multiple participants in a single round.
  * Used by matching to avoid N individual UPDATE queries.
@@ -1048,6 +1748,7 @@ export async function createMatchesBatch(matches: Array<{
   sessionId: string;
   roundId: string;
   meetingPoint?: string;
+  explanation?: any;
 }>) {
   if (matches.length === 0) return;
   const rows = matches.map(m => ({
@@ -1055,6 +1756,7 @@ export async function createMatchesBatch(matches: Array<{
     session_id: m.sessionId,
     round_id: m.roundId,
     meeting_point: m.meetingPoint || null,
+    explanation: m.explanation || null,
   }));
   // Insert in chunks of 500 to stay under PostgREST request size limits.
   // If a chunk fails partway, the rows from previously-completed chunks would
@@ -1133,6 +1835,81 @@ export async function bulkAssignMatchesToRegistrations(
   }
 }
 
+/**
+ * Organizer match edit, applied atomically by the apply_match_edit function
+ * (see 20260502000000_match_editing.sql). Throws with code P0001 when a
+ * participant is no longer movable (checked in meanwhile) — nothing is written.
+ */
+export async function applyMatchEdit(
+  sessionId: string,
+  roundId: string,
+  newMatches: Array<{ matchId: string; meetingPoint: string }>,
+  assignments: Array<{
+    participantId: string;
+    matchId: string;
+    matchPartnerNames: string[];
+    meetingPointId: string;
+    identificationNumber: number;
+    identificationOptions: number[];
+  }>,
+  editedMatchIds: string[],
+) {
+  const { error } = await db().rpc('apply_match_edit', {
+    p_session_id: sessionId,
+    p_round_id: roundId,
+    p_new_matches: newMatches.map(m => ({ id: m.matchId, meeting_point: m.meetingPoint })),
+    p_assignments: assignments.map(a => ({
+      participant_id: a.participantId,
+      match_id: a.matchId,
+      match_partner_names: a.matchPartnerNames,
+      meeting_point_id: a.meetingPointId,
+      identification_number: a.identificationNumber,
+      identification_options: a.identificationOptions,
+    })),
+    p_edited_match_ids: editedMatchIds,
+  });
+  if (error) throw error;
+}
+
+// ============================================================
+// ROTATION PLANS (plan all rounds)
+// ============================================================
+
+export async function getRotationPlan(sessionId: string) {
+  const { data, error } = await db()
+    .from('rotation_plans')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? {
+    roundIds: data.round_ids as string[],
+    participantIds: data.participant_ids as string[],
+    groups: data.groups as Record<string, string[][]>,
+    repeatPairs: data.repeat_pairs,
+    createdAt: data.created_at,
+  } : null;
+}
+
+export async function saveRotationPlan(sessionId: string, plan: {
+  roundIds: string[];
+  participantIds: string[];
+  groups: Record<string, string[][]>;
+  repeatPairs: number;
+}) {
+  const { error } = await db()
+    .from('rotation_plans')
+    .upsert({
+      session_id: sessionId,
+      round_ids: plan.roundIds,
+      participant_ids: plan.participantIds,
+      groups: plan.groups,
+      repeat_pairs: plan.repeatPairs,
+      created_at: new Date().toISOString(),
+    });
+  if (error) throw error;
+}
+
 // ============================================================
 // MATCHING LOCKS
 // ============================================================
@@ -1280,6 +2057,148 @@ export async function markContactSharingEmailSent(matchId: string, participantId
   if (error) throw error;
 }
 
+// ============================================================
+// BLOCKED PAIRS
+// ============================================================
+// Stored ordered (participant_a < participant_b). Participant blocks apply
+// everywhere; organizer blocks only in that organizer's sessions.
+
+function orderPair(id1: string, id2: string): [string, string] {
+  return id1 < id2 ? [id1, id2] : [id2, id1];
+}
+
+export async function blockPairByParticipant(blockerId: string, blockedId: string, matchId: string | null) {
+  const [a, b] = orderPair(blockerId, blockedId);
+  const { error } = await db()
+    .from('blocked_pairs')
+    .insert({
+      participant_a: a,
+      participant_b: b,
+      blocked_by: 'participant',
+      blocker_participant_id: blockerId,
+      match_id: matchId,
+    });
+  // Already blocked = nothing to do
+  if (error && error.code !== '23505') throw error;
+}
+
+export async function unblockPairByParticipant(blockerId: string, blockedId: string) {
+  const [a, b] = orderPair(blockerId, blockedId);
+  const { error } = await db()
+    .from('blocked_pairs')
+    .delete()
+    .eq('participant_a', a)
+    .eq('participant_b', b)
+    .eq('blocked_by', 'participant')
+    .eq('blocker_participant_id', blockerId);
+  if (error) throw error;
+}
+
+/** IDs of everyone this participant has blocked */
+export async function getParticipantBlockedIds(blockerId: string): Promise<string[]> {
+  const { data, error } = await db()
+    .from('blocked_pairs')
+    .select('participant_a, participant_b')
+    .eq('blocked_by', 'participant')
+    .eq('blocker_participant_id', blockerId);
+  if (error) throw error;
+  return (data || []).map(row => row.participant_a === blockerId ? row.participant_b : row.participant_a);
+}
+
+export async function blockPairByOrganizer(organizerId: string, participantId1: string, participantId2: string) {
+  const [a, b] = orderPair(participantId1, participantId2);
+  const { error } = await db()
+    .from('blocked_pairs')
+    .insert({
+      participant_a: a,
+      participant_b: b,
+      blocked_by: 'organizer',
+      organizer_id: organizerId,
+    });
+  if (error && error.code !== '23505') throw error;
+}
+
+/** Organizer-created blocks with participant names (participant blocks stay private) */
+export async function getOrganizerBlockedPairs(organizerId: string) {
+  const { data, error } = await db()
+    .from('blocked_pairs')
+    .select(`
+      id, participant_a, participant_b, created_at,
+      a:participants!blocked_pairs_participant_a_fkey(first_name, last_name, email),
+      b:participants!blocked_pairs_participant_b_fkey(first_name, last_name, email)
+    `)
+    .eq('blocked_by', 'organizer')
+    .eq('organizer_id', organizerId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  const toPerson = (id: string, p: any) => ({
+    participantId: id,
+    name: [p?.first_name, p?.last_name].filter(Boolean).join(' '),
+    email: p?.email || '',
+  });
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    participants: [toPerson(row.participant_a, row.a), toPerson(row.participant_b, row.b)],
+    createdAt: row.created_at,
+  }));
+}
+
+export async function deleteOrganizerBlockedPair(organizerId: string, blockId: string) {
+  const { error } = await db()
+    .from('blocked_pairs')
+    .delete()
+    .eq('id', blockId)
+    .eq('blocked_by', 'organizer')
+    .eq('organizer_id', organizerId);
+  if (error) throw error;
+}
+
+/**
+ * Blocked pairs among `participantIds`, as a symmetric adjacency map.
+ * Includes every participant block plus `organizerId`'s organizer blocks.
+ */
+export async function getBlockedPairsAmong(
+  participantIds: string[],
+  organizerId: string | null
+): Promise<Record<string, Set<string>>> {
+  const blocked: Record<string, Set<string>> = {};
+  const idSet = new Set(participantIds);
+  const CHUNK = 500;
+  for (let i = 0; i < participantIds.length; i += CHUNK) {
+    const slice = participantIds.slice(i, i + CHUNK);
+    // Every pair has its smaller id in participant_a, so querying that side
+    // across all chunks finds each pair exactly once
+    const data = await fetchAllPages<any>(() => {
+      const query = db()
+        .from('blocked_pairs')
+        .select('id, participant_a, participant_b')
+        .in('participant_a', slice);
+      return organizerId
+        ? query.or(`blocked_by.eq.participant,organizer_id.eq.${organizerId}`)
+        : query.eq('blocked_by', 'participant');
+    });
+    for (const row of data) {
+      if (!idSet.has(row.participant_b)) continue;
+      if (!blocked[row.participant_a]) blocked[row.participant_a] = new Set();
+      if (!blocked[row.participant_b]) blocked[row.participant_b] = new Set();
+      blocked[row.participant_a].add(row.participant_b);
+      blocked[row.participant_b].add(row.participant_a);
+    }
+  }
+  return blocked;
+}
+
+/** Whether the participant has ever registered for one of the organizer's sessions */
+export async function isOrganizerParticipant(organizerId: string, participantId: string): Promise<boolean> {
+  const { count, error } = await db()
+    .from('registrations')
+    .select('id', { count: 'exact', head: true })
+    .eq('organizer_id', organizerId)
+    .eq('participant_id', participantId);
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
 // ============================================================
 // DASHBOARD (OPTIMIZED JOINED QUERIES)
 // ============================================================
@@ -1303,7 +2222,7 @@ export async function getParticipantWithRegistrations(participantId: string) {
     .from('registrations')
     .select(`
       *,
-      sessions!inner(id, name, date, status),
+      sessions!inner(id, name, date, time_zone, status),
       rounds!inner(id, name, date, start_time, duration, status),
       organizer_profiles!inner(id, organizer_name, url_slug)
     `)
@@ -1316,6 +2235,7 @@ export async function getParticipantWithRegistrations(participantId: string) {
     ...mapRegistrationFromDb(r),
     sessionName: r.sessions?.name,
     sessionDate: r.sessions?.date,
+    sessionTimeZone: r.sessions?.time_zone,
     sessionStatus: r.sessions?.status,
     roundName: r.rounds?.name,
     roundDate: r.rounds?.date,
@@ -1359,6 +2279,17 @@ export async function deleteParticipant(participantId: string) {
   if (error) throw error;
 }
 
+export async function addParticipantAuditLog(participantId: string, action: string, details: Record<string, any>) {
+  const { error } = await db()
+    .from('participant_audit_log')
+    .insert({
+      participant_id: participantId,
+      action,
+      details,
+    });
+  if (error) throw error;
+}
+
 export async function getParticipantAuditLog(participantId: string) {
   const { data, error } = await db()
     .from('participant_audit_log')
@@ -1425,7 +2356,7 @@ export async function getParticipantDashboardData(token: string) {
     .from('registrations')
     .select(`
       *,
-      sessions!inner(id, name, date, status, user_id, meeting_points, teams, topics, enable_teams, enable_topics),
+      sessions!inner(id, name, date, time_zone, status, user_id, meeting_points, teams, topics, enable_teams, enable_topics),
       rounds!inner(id, name, date, start_time, duration, group_size, meeting_points, status),
       organizer_profiles!inner(id, organizer_name, url_slug, profile_image_url)
     `)
@@ -1438,6 +2369,7 @@ export async function getParticipantDashboardData(token: string) {
     ...mapRegistrationFromDb(r),
     sessionName: r.sessions?.name,
     sessionDate: r.sessions?.date,
+    sessionTimeZone: r.sessions?.time_zone,
     sessionStatus: r.sessions?.status,
     roundName: r.rounds?.name,
     roundDate: r.rounds?.date,
@@ -1465,7 +2397,7 @@ export async function getParticipantDashboardData(token: string) {
 export async function getRoundsNeedingReminder() {
   const { data, error } = await db()
     .from('rounds')
-    .select('*, sessions!rounds_session_id_fkey(id, name, date, status, user_id, meeting_points)')
+    .select('*, sessions!rounds_session_id_fkey(id, name, date, time_zone, status, user_id, meeting_points)')
     .eq('status', 'scheduled')
     .eq('sessions.status', 'published')
     .not('date', 'is', null)
@@ -1475,6 +2407,7 @@ export async function getRoundsNeedingReminder() {
     ...mapRoundFromDb(r),
     sessionName: r.sessions?.name,
     sessionDate: r.sessions?.date,
+    sessionTimeZone: r.sessions?.time_zone,
     sessionStatus: r.sessions?.status,
     sessionUserId: r.sessions?.user_id,
     sessionMeetingPoints: r.sessions?.meeting_points,
@@ -1482,6 +2415,9 @@ export async function getRoundsNeedingReminder() {
 }
 
 /**
+ * @deprecated The reminder cron sends through the notification outbox
+ * (dispatchNotificationsForRound), which dedups per participant and channel.
+ *
  * Atomically claim a registration's starting-soon SMS. Returns true if the
  * caller successfully claimed it (no other process had sent it yet).
  *
@@ -1539,6 +2475,8 @@ export async function markRegistrationReminderSent(
 }
 
 /**
+ * @deprecated Superseded by the notification outbox, like claimRegistrationReminder().
+ *
  * Atomically claim a registration's round-ended SMS. Returns true on claim.
  * On Twilio failure, caller must releaseRegistrationEndReminder() to retry.
  */
@@ -4,8 +4,25 @@
  */
 
 import * as db from './db.ts';
-import { createMatchesForRound } from './matching.tsx';
-import { dispatchSmsForRound } from './sms-dispatch.tsx';
+import { createMatchesForRound, dryRunMatching } from './matching.tsx';
+import { applyMatchEdit } from './match-editing.ts';
+import { dispatchNotificationsForRound, dispatchMatchPush } from './sms-dispatch.tsx';
+import { createSeriesFromSession, materializeSeries, skipOccurrence, subscribeToSeries } from './session-series.ts';
+import { addDays } from './recurrence.ts';
+import { syncCalendarEvents, cancelCalendarEvents, buildParticipantFeed } from './calendar-feeds.ts';
+import { calendarEventUid } from './ical.ts';
+import { getRoundAvailability, mustJoinWaitlist, joinWaitlist, getSeatsLeft } from './waitlist.ts';
+import { resolveScheduleRules, validateSessionSchedule } from './session-rules.ts';
+import { base64UrlDecode, base64UrlEncode } from './web-push.ts';
+import { handleSmsStatusCallback, sendSms } from './sms.tsx';
+import { getFakeSmsMessages, buildFakeDeliveryCallback, buildFakeInboundSms } from './sms-fake.ts';
+import { handleInboundSms } from './sms-inbound.ts';
+import { parseSmsReply } from './sms-replies.ts';
+import { addSmsSuppression, isSmsSuppressed } from './sms-outbox.ts';
+import { getSmsUsage } from './sms-quota.ts';
+import { handleEmailWebhook, buildResendWebhook } from './email.tsx';
+import { insertEmailAttempting, markEmailSent, markEmailFailed, getDueEmailRetries } from './email-outbox.ts';
+import { parseRoundStartTime } from './time-helpers.tsx';
 
 // Types
 type StepFn = (name: string, fn: () => Promise<any>) => Promise<any>;
@@ -38,7 +55,7 @@ function makeId(prefix: string): string {
   return `${prefix}-e2e-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
 }
 
-async function createTestSession(supabase: any, organizerId: string, options: { groupSize?: number; futureRound?: boolean } = {}) {
+async function createTestSession(supabase: any, organizerId: string, options: { groupSize?: number; futureRound?: boolean; timeZone?: string } = {}) {
   const sessionId = makeId('session');
   const roundId = makeId('round');
   const today = new Date().toISOString().split('T')[0];
@@ -59,6 +76,7 @@ async function createTestSession(supabase: any, organizerId: string, options: {
     userId: organizerId,
     name: `E2E Test`,
     date: roundDate,
+    timeZone: options.timeZone,
     status: 'published',
     groupSize: options.groupSize || 2,
     maxParticipants: 100,
@@ -132,7 +150,7 @@ async function registerParticipantsBulk(
   sessionId: string,
   roundId: string,
   organizerId: string,
-  options: { confirmed?: boolean } = {}
+  options: { confirmed?: boolean; attributes?: (i: number) => { team?: string; topics?: string[] } } = {}
 ): Promise<{ ids: string[]; tokens: string[] }> {
   const BATCH = 100;
   const ids: string[] = [];
@@ -164,7 +182,8 @@ async function registerParticipantsBulk(
       round_id: roundId,
       organizer_id: organizerId,
       status: options.confirmed ? 'confirmed' : 'registered',
-      topics: [],
+      team: options.attributes?.(i).team ?? null,
+      topics: options.attributes?.(i).topics ?? [],
       // Default true so SMS dispatch tests pick up these registrations.
       // Matching tests don't care about this column.
       notifications_enabled: true,
@@ -659,6 +678,87 @@ defineScenario({
   }
 });
 
+/** Uneven teams and overlapping topics, so pairings differ in score and optimal has something to win */
+const STRESS_TOPICS = ['AI', 'Design', 'Sales', 'Finance', 'Hiring', 'Ops', 'Product', 'Legal'];
+function stressAttributes(i: number) {
+  return { team: `Team ${i % 7}`, topics: [STRESS_TOPICS[i % 5], STRESS_TOPICS[(i * 3) % 8]] };
+}
+
+/**
+ * Dry-run the same registrations with greedy and with optimal pairing: the
+ * optimal total score must be at least greedy's. Leaves the session on optimal.
+ */
+async function compareOptimalWithGreedy(sessionId: string, roundId: string) {
+  const run = async (matchingAlgorithm: string) => {
+    await db.updateSession(sessionId, { matchingAlgorithm });
+    const preview: any = await dryRunMatching(sessionId, roundId, { includeUnconfirmed: false });
+    assert(preview.success === true, `${matchingAlgorithm} dry run failed: ${preview.error}`);
+    return {
+      score: preview.matches.reduce((sum: number, m: any) => sum + m.explanation.score, 0),
+      teamRuleMisses: preview.summary.teamRuleMisses,
+      repeatMeetings: preview.summary.repeatMeetings,
+    };
+  };
+  const greedy = await run('greedy');
+  const optimal = await run('optimal');
+  assert(optimal.score >= greedy.score, `optimal total score ${optimal.score} is below greedy's ${greedy.score}`);
+  return { greedy, optimal };
+}
+
+defineScenario({
+  id: 'stress-500-optimal', name: '500 participants, optimal pairing (exact)', category: 'Stress',
+  description: 'matchingAlgorithm=optimal below the exact-solver limit: blossom max-weight matching must pair everyone well within budget, scoring at least as well as greedy on the same registrations',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createCustomSession(supabase, organizerId, { matchingAlgorithm: 'optimal' }));
+    const { ids } = await step('bulk_register_500', () => registerParticipantsBulk(supabase, 500, sessionId, roundId, organizerId, { confirmed: true, attributes: stressAttributes }));
+    await step('optimal_beats_greedy', () => compareOptimalWithGreedy(sessionId, roundId));
+    await step('matching', async () => {
+      const t0 = Date.now();
+      const r = await createMatchesForRound(sessionId, roundId);
+      const elapsedMs = Date.now() - t0;
+      assert(r.success === true, 'matching should succeed');
+      assert(r.matchCount === 250, `expected 250 matches, got ${r.matchCount}`);
+      assert(elapsedMs < 5000, `matching took ${elapsedMs}ms (>5000ms — exact solver regression)`);
+      return { matchCount: r.matchCount, matchingMs: elapsedMs };
+    });
+    await step('verify_all_matched', async () => {
+      const counts = await countStatuses(supabase, sessionId, roundId);
+      assert((counts['matched'] || 0) === 500, `expected 500 matched, got ${counts['matched']}`);
+      return { ...counts };
+    });
+    await step('cleanup', () => cleanupBulk(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'stress-5000-optimal', name: '5000 participants, optimal pairing', category: 'Stress',
+  description: 'matchingAlgorithm=optimal at mega event scale: greedy seed + local search + exact repair must stay inside the same 5s target as greedy and score at least as well',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createCustomSession(supabase, organizerId, { matchingAlgorithm: 'optimal' }));
+    const { ids } = await step('bulk_register_5000', () => registerParticipantsBulk(supabase, 5000, sessionId, roundId, organizerId, { confirmed: true, attributes: stressAttributes }));
+    await step('optimal_beats_greedy', () => compareOptimalWithGreedy(sessionId, roundId));
+    await step('matching', async () => {
+      const t0 = Date.now();
+      const r = await createMatchesForRound(sessionId, roundId);
+      const elapsedMs = Date.now() - t0;
+      assert(r.success === true, 'matching should succeed');
+      assert(r.matchCount === 2500, `expected 2500 matches, got ${r.matchCount}`);
+      assert(elapsedMs < 5000, `matching took ${elapsedMs}ms (>5000ms target — performance regression)`);
+      return { matchCount: r.matchCount, matchingMs: elapsedMs };
+    });
+    await step('verify_all_matched', async () => {
+      const counts = await countStatuses(supabase, sessionId, roundId);
+      assert((counts['matched'] || 0) === 5000, `expected 5000 matched, got ${counts['matched']}`);
+      return { ...counts };
+    });
+    await step('cleanup', () => cleanupBulk(supabase, sessionId, ids));
+  }
+});
+
 defineScenario({
   id: 'stress-1000-group3', name: '1000 participants in groups of 3', category: 'Stress',
   description: 'Verifies the optimized groupSize=3 path scales like the pairwise one',
@@ -686,6 +786,84 @@ defineScenario({
   }
 });
 
+defineScenario({
+  id: 'stress-2000-group4', name: '2000 participants in groups of 4', category: 'Stress',
+  description: 'Roundtable scale: draft + local-search group matching forms 500 groups (all of 4) well inside the edge-function budget',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { groupSize: 4 }));
+    const { ids } = await step('bulk_register_2000', () => registerParticipantsBulk(supabase, 2000, sessionId, roundId, organizerId, { confirmed: true }));
+    await step('matching', async () => {
+      const t0 = Date.now();
+      const r = await createMatchesForRound(sessionId, roundId);
+      const elapsedMs = Date.now() - t0;
+      assert(r.success === true, 'matching should succeed');
+      assert(r.matchCount === 500, `expected 500 matches, got ${r.matchCount}`);
+      assert(elapsedMs < 10000, `matching took ${elapsedMs}ms (>10s — algorithm regression at groupSize=4)`);
+      return { matchCount: r.matchCount, matchingMs: elapsedMs };
+    });
+    await step('verify_group_sizes', async () => {
+      const { data: regs } = await supabase.from('registrations').select('match_id').eq('session_id', sessionId).eq('round_id', roundId);
+      const sizes: Record<string, number> = {};
+      for (const r of regs || []) {
+        if (!r.match_id) continue;
+        sizes[r.match_id] = (sizes[r.match_id] || 0) + 1;
+      }
+      const wrongSize = Object.entries(sizes).filter(([_, n]) => n !== 4 && n !== 5);
+      assert(wrongSize.length === 0, `${wrongSize.length} groups have wrong size: ${JSON.stringify(wrongSize.slice(0, 3))}`);
+      const oversized = Object.values(sizes).filter(n => n === 5).length;
+      assert(oversized === 0, `expected 0 groups of 5, got ${oversized}`);
+      return { groups: Object.keys(sizes).length, oversized };
+    });
+    await step('verify_all_matched', async () => {
+      const counts = await countStatuses(supabase, sessionId, roundId);
+      assert((counts['matched'] || 0) === 2000, `expected 2000 matched, got ${counts['matched']}`);
+      return { ...counts };
+    });
+    await step('cleanup', () => cleanupBulk(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'stress-2000-group6', name: '2000 participants in groups of 6', category: 'Stress',
+  description: 'Roundtable scale: draft + local-search group matching forms 333 groups (331 of 6 + 2 of 7) well inside the edge-function budget',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { groupSize: 6 }));
+    const { ids } = await step('bulk_register_2000', () => registerParticipantsBulk(supabase, 2000, sessionId, roundId, organizerId, { confirmed: true }));
+    await step('matching', async () => {
+      const t0 = Date.now();
+      const r = await createMatchesForRound(sessionId, roundId);
+      const elapsedMs = Date.now() - t0;
+      assert(r.success === true, 'matching should succeed');
+      assert(r.matchCount === 333, `expected 333 matches, got ${r.matchCount}`);
+      assert(elapsedMs < 10000, `matching took ${elapsedMs}ms (>10s — algorithm regression at groupSize=6)`);
+      return { matchCount: r.matchCount, matchingMs: elapsedMs };
+    });
+    await step('verify_group_sizes', async () => {
+      const { data: regs } = await supabase.from('registrations').select('match_id').eq('session_id', sessionId).eq('round_id', roundId);
+      const sizes: Record<string, number> = {};
+      for (const r of regs || []) {
+        if (!r.match_id) continue;
+        sizes[r.match_id] = (sizes[r.match_id] || 0) + 1;
+      }
+      const wrongSize = Object.entries(sizes).filter(([_, n]) => n !== 6 && n !== 7);
+      assert(wrongSize.length === 0, `${wrongSize.length} groups have wrong size: ${JSON.stringify(wrongSize.slice(0, 3))}`);
+      const oversized = Object.values(sizes).filter(n => n === 7).length;
+      assert(oversized === 2, `expected 2 groups of 7, got ${oversized}`);
+      return { groups: Object.keys(sizes).length, oversized };
+    });
+    await step('verify_all_matched', async () => {
+      const counts = await countStatuses(supabase, sessionId, roundId);
+      assert((counts['matched'] || 0) === 2000, `expected 2000 matched, got ${counts['matched']}`);
+      return { ...counts };
+    });
+    await step('cleanup', () => cleanupBulk(supabase, sessionId, ids));
+  }
+});
+
 defineScenario({
   id: 'stress-200-mixed', name: '200 participants, half unconfirmed', category: 'Stress',
   description: '200 registered but only 100 confirmed → 50 matches + 100 unconfirmed',
@@ -1090,6 +1268,57 @@ defineScenario({
   }
 });
 
+defineScenario({
+  id: 'late-no-show-rematch', name: 'No-show reports re-match stranded partners', category: 'Late Arrival',
+  description: 'Two pairs, one partner in each no-shows: first reporter waits as no-match, second report pairs them together',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId));
+    const { ids, tokens } = await step('register', () => registerParticipants([{ firstName: 'A', lastName: '1' }, { firstName: 'B', lastName: '2' }, { firstName: 'C', lastName: '3' }, { firstName: 'D', lastName: '4' }], sessionId, roundId, organizerId));
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('matching', async () => {
+      const r = await createMatchesForRound(sessionId, roundId);
+      assert(r.matchCount === 2, `Expected 2 matches, got ${r.matchCount}`);
+      return { matchCount: 2 };
+    });
+    // One reporter per pair; the other member of each pair is the no-show
+    const { reporters, absent } = await step('pick_pairs', async () => {
+      const s = await getStatuses(ids, sessionId, roundId);
+      const byMatch = new Map<string, number[]>();
+      ids.forEach((id, i) => byMatch.set(s[id].matchId, [...(byMatch.get(s[id].matchId) || []), i]));
+      const pairs = [...byMatch.values()];
+      return { reporters: pairs.map((p) => p[0]), absent: pairs.map((p) => p[1]) };
+    });
+    await step('first_report', async () => {
+      const { status, data } = await apiFetch(ctx, `/rounds/${roundId}/no-show`, {
+        method: 'POST',
+        body: JSON.stringify({ token: tokens[reporters[0]], sessionId, noShowParticipantId: ids[absent[0]] }),
+      });
+      assert(status === 200, `Expected 200, got ${status}: ${JSON.stringify(data)}`);
+      assert(data.newMatch === null, 'Nobody stranded yet — no new match expected');
+      const s = await getStatuses(ids, sessionId, roundId);
+      assert(s[ids[absent[0]]]?.status === 'missed', `No-show should be missed, got ${s[ids[absent[0]]]?.status}`);
+      assert(s[ids[reporters[0]]]?.status === 'no-match', `First reporter should wait as no-match, got ${s[ids[reporters[0]]]?.status}`);
+      return { reporter: 'no-match', absent: 'missed' };
+    });
+    await step('second_report', async () => {
+      const { status, data } = await apiFetch(ctx, `/rounds/${roundId}/no-show`, {
+        method: 'POST',
+        body: JSON.stringify({ token: tokens[reporters[1]], sessionId }),
+      });
+      assert(status === 200, `Expected 200, got ${status}: ${JSON.stringify(data)}`);
+      assert(data.newMatch?.id, 'Second reporter should get a new match');
+      const s = await getStatuses(ids, sessionId, roundId);
+      assert(s[ids[reporters[0]]]?.status === 'matched' && s[ids[reporters[1]]]?.status === 'matched', 'Both reporters should be matched');
+      assert(s[ids[reporters[0]]]?.matchId === s[ids[reporters[1]]]?.matchId, 'Reporters should be matched together');
+      assert(s[ids[absent[1]]]?.status === 'missed', 'Second no-show should be missed');
+      return { newMatchId: data.newMatch.id };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
 // --- CATEGORY 6: TEAMS / TOPICS / MEETING POINTS ---
 
 /**
@@ -1124,7 +1353,7 @@ async function createCustomSession(
  * Register participants with team / topics attributes.
  */
 async function registerWithAttrs(
-  entries: Array<{ firstName: string; team?: string; topics?: string[] }>,
+  entries: Array<{ firstName: string; team?: string; topics?: string[]; role?: string; answers?: Record<string, any> }>,
   sessionId: string,
   roundId: string,
   organizerId: string
@@ -1144,6 +1373,8 @@ async function registerWithAttrs(
       status: 'registered',
       team: e.team,
       topics: e.topics,
+      role: e.role,
+      answers: e.answers,
     });
     ids.push(pid);
   }
@@ -1253,6 +1484,83 @@ defineScenario({
   }
 });
 
+defineScenario({
+  id: 'role-mentor-mentee', name: 'Roles: one mentor per group, extra mentees meet each other', category: 'Teams & Topics',
+  description: '2 mentors + 6 mentees with 1–2 mentees per mentor → two mentor groups of 3, the 2 leftover mentees meet as peers',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () =>
+      createCustomSession(supabase, organizerId, {
+        roleMatching: { leadRole: 'Mentor', memberRole: 'Mentee', minMembers: 1, maxMembers: 2, peerFallback: true },
+      })
+    );
+    const ids = await step('register', () => registerWithAttrs([
+      { firstName: 'M1', role: 'Mentor' },
+      { firstName: 'M2', role: 'Mentor' },
+      ...Array.from({ length: 6 }, (_, i) => ({ firstName: `E${i + 1}`, role: 'Mentee' })),
+    ], sessionId, roundId, organizerId));
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('run_matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      const { data: regs } = await supabase.from('registrations')
+        .select('participant_id, role').eq('session_id', sessionId).eq('round_id', roundId);
+      const roleOf = new Map((regs || []).map((r: any) => [r.participant_id, r.role]));
+      const shapes = matches.map(m => {
+        const mentors = m.participantIds.filter(id => roleOf.get(id) === 'Mentor').length;
+        return { mentors, mentees: m.participantIds.length - mentors };
+      });
+      assert(matches.length === 3, `Expected 3 matches, got ${matches.length}: ${JSON.stringify(shapes)}`);
+      const mentorGroups = shapes.filter(s => s.mentors === 1 && s.mentees === 2).length;
+      const peerGroups = shapes.filter(s => s.mentors === 0 && s.mentees === 2).length;
+      assert(mentorGroups === 2, `Expected 2 groups of 1 mentor + 2 mentees, got ${JSON.stringify(shapes)}`);
+      assert(peerGroups === 1, `Expected the 2 leftover mentees to meet each other, got ${JSON.stringify(shapes)}`);
+      return { shapes };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'questions-similar-different', name: 'Registration questions: similar and different answers', category: 'Teams & Topics',
+  description: 'Seniority is "match similar", industry "match different" → pairs share seniority and differ in industry',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () =>
+      createCustomSession(supabase, organizerId, {
+        registrationQuestions: [
+          { id: 'seniority', label: 'Seniority', type: 'single', options: ['Junior', 'Senior'], matchMode: 'similar', weight: 30, required: true },
+          { id: 'industry', label: 'Industry', type: 'single', options: ['Fintech', 'Health'], matchMode: 'different', weight: 20, required: true },
+          { id: 'shirt', label: 'T-shirt size', type: 'single', options: ['S', 'M', 'L'], matchMode: 'display', required: false },
+        ],
+      })
+    );
+    // Ideal: (J-Fin, J-Health) + (S-Fin, S-Health)
+    const ids = await step('register', () => registerWithAttrs([
+      { firstName: 'JF', answers: { seniority: 'Junior', industry: 'Fintech', shirt: 'S' } },
+      { firstName: 'SF', answers: { seniority: 'Senior', industry: 'Fintech', shirt: 'S' } },
+      { firstName: 'JH', answers: { seniority: 'Junior', industry: 'Health', shirt: 'M' } },
+      { firstName: 'SH', answers: { seniority: 'Senior', industry: 'Health', shirt: 'M' } },
+    ], sessionId, roundId, organizerId));
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('run_matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(matches.length === 2, `Expected 2 matches, got ${matches.length}`);
+      const { data: regs } = await supabase.from('registrations')
+        .select('participant_id, answers').eq('session_id', sessionId).eq('round_id', roundId);
+      const answersOf = new Map((regs || []).map((r: any) => [r.participant_id, r.answers || {}]));
+      const pairs = matches.map(m => m.participantIds.map(id => answersOf.get(id) as Record<string, string>));
+      const ideal = pairs.filter(([a, b]) => a.seniority === b.seniority && a.industry !== b.industry).length;
+      assert(ideal === 2, `Expected both pairs same seniority + different industry, got ${JSON.stringify(pairs)}`);
+      return { pairs };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
 defineScenario({
   id: 'topics-shared', name: 'Shared topics boost pair score', category: 'Teams & Topics',
   description: 'Participants with shared topics are preferred over participants with no topic overlap',
@@ -1299,98 +1607,565 @@ defineScenario({
 });
 
 defineScenario({
-  id: 'mp-distribution', name: 'Meeting points distributed round-robin', category: 'Teams & Topics',
-  description: 'With 3 meeting points and 6 matches, each meeting point is assigned exactly 2 matches',
+  id: 'scoring-hard-team-pairs', name: 'Scoring profile: hard team rule leaves a same-team pair unmatched (pairs)', category: 'Teams & Topics',
+  description: 'With "never same team" as a hard rule, two Reds and one Blue: the Reds are never paired, one Red meets the Blue and the other gets no-match',
   run: async (step, ctx) => {
     const { supabase } = ctx;
     const { organizerId } = await getOrganizerId(supabase);
     const { sessionId, roundId } = await step('setup', () =>
       createCustomSession(supabase, organizerId, {
-        meetingPoints: [
-          { id: 'mp1', name: 'Lobby' },
-          { id: 'mp2', name: 'Cafeteria' },
-          { id: 'mp3', name: 'Garden' },
-        ],
+        enableTeams: true,
+        matchingType: 'across-teams',
+        teams: ['Red', 'Blue'],
+        scoringProfile: { weights: { notMet: 30, team: 20, topics: 10 }, hard: { team: true } },
       })
     );
-    // 12 participants → 6 matches (groupSize 2)
-    const names = Array.from({ length: 12 }, (_, i) => ({ firstName: `P${i + 1}` }));
-    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    const ids = await step('register', () => registerWithAttrs([
+      { firstName: 'R1', team: 'Red' },
+      { firstName: 'R2', team: 'Red' },
+      { firstName: 'B1', team: 'Blue' },
+    ], sessionId, roundId, organizerId));
     await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
-    await step('run_matching', () => createMatchesForRound(sessionId, roundId));
-    await step('verify', async () => {
+    await step('matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify_rule_honored', async () => {
       const matches = await getMatchesForRound(supabase, sessionId, roundId);
-      assert(matches.length === 6, `Expected 6 matches, got ${matches.length}`);
-      // Count how many matches landed on each MP
-      const counts: Record<string, number> = {};
-      for (const m of matches) {
-        counts[m.meeting_point] = (counts[m.meeting_point] || 0) + 1;
-      }
-      const uniqueMPs = Object.keys(counts);
-      assert(uniqueMPs.length === 3, `Expected 3 distinct meeting points used, got ${uniqueMPs.length}: ${uniqueMPs.join(', ')}`);
-      for (const mp of uniqueMPs) {
-        assert(counts[mp] === 2, `Expected 2 matches at ${mp}, got ${counts[mp]}`);
-      }
-      return { matches: matches.length, counts };
+      assert(matches.length === 1 && matches[0].participantIds.length === 2, `expected one pair, got ${JSON.stringify(matches)}`);
+      assert(matches[0].participantIds.includes(ids[2]), 'the Blue should meet one of the Reds');
+      const s = await getStatuses(ids, sessionId, roundId);
+      const noMatch = ids.filter(pid => s[pid]?.status === 'no-match');
+      assert(noMatch.length === 1 && noMatch[0] !== ids[2], `expected one Red with no-match, got ${JSON.stringify(noMatch)}`);
+      return { pair: matches[0].participantIds, noMatch };
     });
     await step('cleanup', () => cleanup(supabase, sessionId, ids));
   }
 });
 
 defineScenario({
-  id: 'mp-single-all-matches', name: 'Single meeting point: all matches assigned to it', category: 'Teams & Topics',
-  description: 'With 1 meeting point and 3 matches, all 3 matches land on that meeting point',
+  id: 'scoring-hard-team-groups', name: 'Scoring profile: hard team rule leaves a same-team member unmatched (groups of 3)', category: 'Teams & Topics',
+  description: 'Groups of 3 with "never same team" as a hard rule, three Reds for two groups: no group holds two Reds, and the Red left over gets no-match',
   run: async (step, ctx) => {
     const { supabase } = ctx;
     const { organizerId } = await getOrganizerId(supabase);
     const { sessionId, roundId } = await step('setup', () =>
       createCustomSession(supabase, organizerId, {
-        meetingPoints: [{ id: 'mp1', name: 'Only Place' }],
+        groupSize: 3,
+        enableTeams: true,
+        matchingType: 'across-teams',
+        teams: ['Red', 'Blue', 'Green'],
+        scoringProfile: { weights: { notMet: 30, team: 20, topics: 10 }, hard: { team: true } },
       })
     );
-    const names = Array.from({ length: 6 }, (_, i) => ({ firstName: `P${i + 1}` }));
-    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    const entries = [
+      { firstName: 'R1', team: 'Red' }, { firstName: 'R2', team: 'Red' }, { firstName: 'R3', team: 'Red' },
+      { firstName: 'B1', team: 'Blue' }, { firstName: 'B2', team: 'Blue' }, { firstName: 'G1', team: 'Green' },
+    ];
+    const ids = await step('register', () => registerWithAttrs(entries, sessionId, roundId, organizerId));
+    const teamOf = new Map(ids.map((pid, i) => [pid, entries[i].team]));
     await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
-    await step('run_matching', () => createMatchesForRound(sessionId, roundId));
-    await step('verify', async () => {
+    await step('matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify_rule_honored', async () => {
       const matches = await getMatchesForRound(supabase, sessionId, roundId);
-      assert(matches.length === 3, `Expected 3 matches, got ${matches.length}`);
       for (const m of matches) {
-        assert(m.meeting_point === 'Only Place', `Expected 'Only Place', got '${m.meeting_point}'`);
+        const teams = m.participantIds.map(pid => teamOf.get(pid));
+        assert(new Set(teams).size === teams.length, `a group holds two people of one team: ${JSON.stringify(teams)}`);
       }
-      return { matches: matches.length, meeting_point: 'Only Place' };
+      const s = await getStatuses(ids, sessionId, roundId);
+      const noMatch = ids.filter(pid => s[pid]?.status === 'no-match');
+      assert(noMatch.length >= 1 && noMatch.every(pid => teamOf.get(pid) === 'Red'),
+        `expected only Reds left with no-match, got ${JSON.stringify(noMatch.map(pid => teamOf.get(pid)))}`);
+      return { groups: matches.map(m => m.participantIds.map(pid => teamOf.get(pid))), noMatch: noMatch.length };
     });
     await step('cleanup', () => cleanup(supabase, sessionId, ids));
   }
 });
 
-// --- CATEGORY 7: API CONTRACT (frontend-facing endpoints) ---
-
-async function apiFetch(ctx: TestContext, path: string, options?: any) {
-  const url = `${ctx.apiBaseUrl}${path}`;
-  const res = await fetch(url, {
-    ...options,
-    headers: { 'Authorization': `Bearer ${ctx.anonKey}`, 'Content-Type': 'application/json', ...options?.headers },
-  });
-  const data = await res.json();
-  return { status: res.status, data };
+/**
+ * Dry-run the round under `scoringProfile` and return each group as the
+ * sorted indices (into `ids`) of its members.
+ */
+async function previewGroupsWithProfile(sessionId: string, roundId: string, ids: string[], scoringProfile: any) {
+  await db.updateSession(sessionId, { scoringProfile });
+  const preview: any = await dryRunMatching(sessionId, roundId);
+  assert(preview.success === true, `dry run failed: ${preview.error}`);
+  return preview.matches
+    .map((m: any) => m.participants.map((p: any) => ids.indexOf(p.participantId)).sort((a: number, b: number) => a - b))
+    .sort((a: number[], b: number[]) => a[0] - b[0]);
 }
 
 defineScenario({
-  id: 'api-dashboard-statuses', name: 'Dashboard shows correct statuses', category: 'API Contract',
-  description: 'GET /p/:token/dashboard returns correct status at each stage',
+  id: 'scoring-weights-pairs', name: 'Scoring profile: weights decide between team and topic (pairs)', category: 'Teams & Topics',
+  description: 'Two Reds share one topic, two Blues another: a heavy team weight pairs across teams, a heavy topic weight pairs by topic',
   run: async (step, ctx) => {
     const { supabase } = ctx;
     const { organizerId } = await getOrganizerId(supabase);
-    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
-    const { ids, tokens } = await step('register', () => registerParticipants([{ firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' }], sessionId, roundId, organizerId));
-
-    await step('dashboard_registered', async () => {
-      const { data } = await apiFetch(ctx, `/p/${tokens[0]}/dashboard`);
-      const reg = data.registrations?.find((r: any) => r.roundId === roundId);
-      assert(reg?.status === 'registered', `expected registered, got ${reg?.status}`);
-      assert(data.firstName === 'Anna', `expected Anna, got ${data.firstName}`);
-      return { status: reg?.status, name: data.firstName };
+    const { sessionId, roundId } = await step('setup', () =>
+      createCustomSession(supabase, organizerId, {
+        enableTeams: true,
+        enableTopics: true,
+        matchingType: 'across-teams',
+        teams: ['Red', 'Blue'],
+        topics: ['AI', 'Design'],
+      })
+    );
+    // 0,1 = Red/AI; 2,3 = Blue/Design
+    const ids = await step('register', () => registerWithAttrs([
+      { firstName: 'A', team: 'Red', topics: ['AI'] },
+      { firstName: 'B', team: 'Red', topics: ['AI'] },
+      { firstName: 'C', team: 'Blue', topics: ['Design'] },
+      { firstName: 'D', team: 'Blue', topics: ['Design'] },
+    ], sessionId, roundId, organizerId));
+    await step('team_heavy', async () => {
+      const pairs = await previewGroupsWithProfile(sessionId, roundId, ids, { weights: { notMet: 30, team: 40, topics: 5 }, hard: {} });
+      assert(pairs.length === 2 && pairs.every((p: number[]) => p[0] < 2 && p[1] >= 2), `expected Red–Blue pairs, got ${JSON.stringify(pairs)}`);
+      return { pairs };
+    });
+    await step('topic_heavy', async () => {
+      const pairs = await previewGroupsWithProfile(sessionId, roundId, ids, { weights: { notMet: 30, team: 5, topics: 40 }, hard: {} });
+      assert(JSON.stringify(pairs) === JSON.stringify([[0, 1], [2, 3]]), `expected shared-topic pairs, got ${JSON.stringify(pairs)}`);
+      return { pairs };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'scoring-weights-groups', name: 'Scoring profile: weights decide between team and topic (groups of 3)', category: 'Teams & Topics',
+  description: 'Three Reds share one topic, three Blues another: a heavy team weight mixes teams in every group, a heavy topic weight groups by topic',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () =>
+      createCustomSession(supabase, organizerId, {
+        groupSize: 3,
+        enableTeams: true,
+        enableTopics: true,
+        matchingType: 'across-teams',
+        teams: ['Red', 'Blue'],
+        topics: ['AI', 'Design'],
+      })
+    );
+    // 0–2 = Red/AI; 3–5 = Blue/Design
+    const ids = await step('register', () => registerWithAttrs([
+      ...['A', 'B', 'C'].map(firstName => ({ firstName, team: 'Red', topics: ['AI'] })),
+      ...['D', 'E', 'F'].map(firstName => ({ firstName, team: 'Blue', topics: ['Design'] })),
+    ], sessionId, roundId, organizerId));
+    await step('team_heavy', async () => {
+      const groups = await previewGroupsWithProfile(sessionId, roundId, ids, { weights: { notMet: 30, team: 40, topics: 5 }, hard: {} });
+      assert(groups.length === 2 && groups.every((g: number[]) => g[0] < 3 && g[g.length - 1] >= 3),
+        `expected both teams in every group, got ${JSON.stringify(groups)}`);
+      return { groups };
+    });
+    await step('topic_heavy', async () => {
+      const groups = await previewGroupsWithProfile(sessionId, roundId, ids, { weights: { notMet: 30, team: 5, topics: 40 }, hard: {} });
+      assert(JSON.stringify(groups) === JSON.stringify([[0, 1, 2], [3, 4, 5]]), `expected one group per topic, got ${JSON.stringify(groups)}`);
+      return { groups };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'mp-distribution', name: 'Meeting points distributed round-robin', category: 'Teams & Topics',
+  description: 'With 3 meeting points and 6 matches, each meeting point is assigned exactly 2 matches',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () =>
+      createCustomSession(supabase, organizerId, {
+        meetingPoints: [
+          { id: 'mp1', name: 'Lobby' },
+          { id: 'mp2', name: 'Cafeteria' },
+          { id: 'mp3', name: 'Garden' },
+        ],
+      })
+    );
+    // 12 participants → 6 matches (groupSize 2)
+    const names = Array.from({ length: 12 }, (_, i) => ({ firstName: `P${i + 1}` }));
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('run_matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(matches.length === 6, `Expected 6 matches, got ${matches.length}`);
+      // Count how many matches landed on each MP
+      const counts: Record<string, number> = {};
+      for (const m of matches) {
+        counts[m.meeting_point] = (counts[m.meeting_point] || 0) + 1;
+      }
+      const uniqueMPs = Object.keys(counts);
+      assert(uniqueMPs.length === 3, `Expected 3 distinct meeting points used, got ${uniqueMPs.length}: ${uniqueMPs.join(', ')}`);
+      for (const mp of uniqueMPs) {
+        assert(counts[mp] === 2, `Expected 2 matches at ${mp}, got ${counts[mp]}`);
+      }
+      return { matches: matches.length, counts };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'mp-single-all-matches', name: 'Single meeting point: all matches assigned to it', category: 'Teams & Topics',
+  description: 'With 1 meeting point and 3 matches, all 3 matches land on that meeting point',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () =>
+      createCustomSession(supabase, organizerId, {
+        meetingPoints: [{ id: 'mp1', name: 'Only Place' }],
+      })
+    );
+    const names = Array.from({ length: 6 }, (_, i) => ({ firstName: `P${i + 1}` }));
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('run_matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(matches.length === 3, `Expected 3 matches, got ${matches.length}`);
+      for (const m of matches) {
+        assert(m.meeting_point === 'Only Place', `Expected 'Only Place', got '${m.meeting_point}'`);
+      }
+      return { matches: matches.length, meeting_point: 'Only Place' };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'mp-capacity', name: 'Meeting points filled by capacity, overflow flagged', category: 'Teams & Topics',
+  description: 'Capacities 3 and 1 with 4 matches put 3 at the hall and 1 at the corner; the dry run flags 5 matches as over capacity',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () =>
+      createCustomSession(supabase, organizerId, {
+        meetingPoints: [
+          { id: 'mp1', name: 'Coffee corner', capacity: 1 },
+          { id: 'mp2', name: 'Main hall', capacity: 3 },
+        ],
+      })
+    );
+    // 10 participants: dry run with all 10 (5 matches), real run with 8 (4 matches)
+    const names = Array.from({ length: 10 }, (_, i) => ({ firstName: `P${i + 1}` }));
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    await step('dry_run_overflow', async () => {
+      const result: any = await dryRunMatching(sessionId, roundId);
+      const capacity = result.summary.meetingPointCapacity;
+      assert(capacity.totalCapacity === 4, `Expected total capacity 4, got ${capacity.totalCapacity}`);
+      assert(capacity.overflow === 1, `Expected overflow 1, got ${capacity.overflow}`);
+      return capacity;
+    });
+    await step('confirm', () => confirmParticipants(ids.slice(0, 8), sessionId, roundId));
+    await step('run_matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(matches.length === 4, `Expected 4 matches, got ${matches.length}`);
+      const counts: Record<string, number> = {};
+      for (const m of matches) {
+        counts[m.meeting_point] = (counts[m.meeting_point] || 0) + 1;
+      }
+      assert(counts['Main hall'] === 3, `Expected 3 matches at Main hall, got ${counts['Main hall'] || 0}`);
+      assert(counts['Coffee corner'] === 1, `Expected 1 match at Coffee corner, got ${counts['Coffee corner'] || 0}`);
+      return { matches: matches.length, counts };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'memory-cross-session', name: 'Cross-session memory avoids last event\'s partner', category: 'Teams & Topics',
+  description: 'With rememberAcrossSessions, the same 4 people in a second event of the same organizer are never paired with their partner from the first event',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const first = await step('setup_first_event', () => createCustomSession(supabase, organizerId, {}));
+    const names = Array.from({ length: 4 }, (_, i) => ({ firstName: `M${i + 1}` }));
+    const ids = await step('register_first', () => registerWithAttrs(names, first.sessionId, first.roundId, organizerId));
+    await step('confirm_first', () => confirmParticipants(ids, first.sessionId, first.roundId));
+    await step('match_first', () => createMatchesForRound(first.sessionId, first.roundId));
+    const firstPairs = await step('read_first_pairs', async () => {
+      const matches = await getMatchesForRound(supabase, first.sessionId, first.roundId);
+      assert(matches.length === 2, `Expected 2 matches in first event, got ${matches.length}`);
+      return matches.map((m) => [...m.participantIds].sort().join('|'));
+    });
+
+    const second = await step('setup_second_event', () =>
+      createCustomSession(supabase, organizerId, { rememberAcrossSessions: true, meetingMemoryDays: 30 })
+    );
+    await step('register_second', async () => {
+      for (const pid of ids) {
+        await db.createRegistration({ participantId: pid, sessionId: second.sessionId, roundId: second.roundId, organizerId, status: 'registered' });
+      }
+    });
+    await step('confirm_second', () => confirmParticipants(ids, second.sessionId, second.roundId));
+    await step('match_second', () => createMatchesForRound(second.sessionId, second.roundId));
+    await step('verify_no_repeats', async () => {
+      const matches = await getMatchesForRound(supabase, second.sessionId, second.roundId);
+      assert(matches.length === 2, `Expected 2 matches in second event, got ${matches.length}`);
+      const secondPairs = matches.map((m) => [...m.participantIds].sort().join('|'));
+      const repeats = secondPairs.filter((p) => firstPairs.includes(p));
+      assert(repeats.length === 0, `Expected no repeat pairs, got ${JSON.stringify(repeats)}`);
+      return { firstPairs, secondPairs };
+    });
+    await step('cleanup', async () => {
+      await cleanup(supabase, second.sessionId, ids);
+      await cleanup(supabase, first.sessionId, []);
+    });
+  }
+});
+
+defineScenario({
+  id: 'blocked-pairs-pairs', name: 'Blocked pairs never matched (pairs)', category: 'Teams & Topics',
+  description: '4 people, one participant block + one organizer block: both blocked pairs must be split up',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createCustomSession(supabase, organizerId, {}));
+    const names = Array.from({ length: 4 }, (_, i) => ({ firstName: `B${i + 1}` }));
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    await step('block', async () => {
+      await db.blockPairByParticipant(ids[0], ids[1], null);
+      await db.blockPairByOrganizer(organizerId, ids[2], ids[3]);
+    });
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify_blocks_honored', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(matches.length === 2, `Expected 2 matches, got ${matches.length}`);
+      for (const [a, b] of [[ids[0], ids[1]], [ids[2], ids[3]]]) {
+        const together = matches.some((m) => m.participantIds.includes(a) && m.participantIds.includes(b));
+        assert(!together, 'Blocked pair was matched together');
+      }
+      return { matchCount: matches.length };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'blocked-pairs-groups', name: 'Blocked pairs never grouped (groups of 3)', category: 'Teams & Topics',
+  description: '6 people in groups of 3, the first person blocks two others: no group contains a blocked pair',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createCustomSession(supabase, organizerId, { groupSize: 3 }));
+    const names = Array.from({ length: 6 }, (_, i) => ({ firstName: `G${i + 1}` }));
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    await step('block', async () => {
+      await db.blockPairByParticipant(ids[0], ids[1], null);
+      await db.blockPairByParticipant(ids[0], ids[2], null);
+    });
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify_blocks_honored', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(matches.length === 2, `Expected 2 groups, got ${matches.length}`);
+      const groupOfFirst = matches.find((m) => m.participantIds.includes(ids[0]));
+      assert(!!groupOfFirst, 'First participant should be matched');
+      assert(!groupOfFirst!.participantIds.includes(ids[1]) && !groupOfFirst!.participantIds.includes(ids[2]),
+        'First participant grouped with someone they blocked');
+      return { groups: matches.map((m) => m.participantIds.length) };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'rotation-plan-6-rounds', name: 'Rotation plan: 8 people, 6 rounds, no repeats', category: 'Teams & Topics',
+  description: 'With planAllRounds, every participant meets 6 different people over 6 rounds',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const roundIds = Array.from({ length: 6 }, () => makeId('round'));
+    const { sessionId } = await step('setup', () => createCustomSession(supabase, organizerId, {
+      planAllRounds: true,
+      rounds: roundIds.map((id, i) => ({ id, startTime: `0${i}:00`, duration: 10, name: `Round ${i + 1}` })),
+    }));
+    const names = Array.from({ length: 8 }, (_, i) => ({ firstName: `R${i + 1}` }));
+    const ids = await step('register_all_rounds', async () => {
+      const pids = await registerWithAttrs(names, sessionId, roundIds[0], organizerId);
+      for (const roundId of roundIds.slice(1)) {
+        for (const pid of pids) {
+          await db.createRegistration({ participantId: pid, sessionId, roundId, organizerId, status: 'registered' });
+        }
+      }
+      return pids;
+    });
+    for (const [r, roundId] of roundIds.entries()) {
+      await step(`round_${r + 1}`, async () => {
+        await confirmParticipants(ids, sessionId, roundId);
+        const result = await createMatchesForRound(sessionId, roundId);
+        assert(result.matchCount === 4, `Round ${r + 1}: expected 4 pairs, got ${result.matchCount}`);
+        return { matchCount: result.matchCount };
+      });
+    }
+    await step('verify_distinct_partners', async () => {
+      const partners = new Map<string, Set<string>>(ids.map((id) => [id, new Set()]));
+      for (const roundId of roundIds) {
+        for (const m of await getMatchesForRound(supabase, sessionId, roundId)) {
+          for (const a of m.participantIds) for (const b of m.participantIds) if (a !== b) partners.get(a)!.add(b);
+        }
+      }
+      const counts = ids.map((id) => partners.get(id)!.size);
+      assert(counts.every((c) => c === 6), `Expected 6 distinct partners each, got ${JSON.stringify(counts)}`);
+      const { data: plan } = await supabase.from('rotation_plans').select('repeat_pairs').eq('session_id', sessionId).maybeSingle();
+      assert(plan?.repeat_pairs === 0, `Expected a plan with 0 repeat pairs, got ${plan?.repeat_pairs}`);
+      return { counts };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'matching-dry-run-explanations', name: 'Dry run writes nothing; real matches store explanations', category: 'Teams & Topics',
+  description: '4 people in 2 teams (across-teams): the dry run previews 2 cross-team pairs without saving, then real matching stores a score breakdown per match',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createCustomSession(supabase, organizerId, { enableTeams: true, matchingType: 'across-teams' }));
+    const names = [
+      { firstName: 'X1', team: 'Red' }, { firstName: 'X2', team: 'Red' },
+      { firstName: 'X3', team: 'Blue' }, { firstName: 'X4', team: 'Blue' },
+    ];
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    await step('dry_run', async () => {
+      const preview = await dryRunMatching(sessionId, roundId);
+      assert(preview.success === true, 'dry run should succeed');
+      assert(preview.matches!.length === 2, `Expected 2 previewed pairs, got ${preview.matches!.length}`);
+      assert(preview.summary!.teamRuleMisses === 0, `Expected 0 team rule misses, got ${preview.summary!.teamRuleMisses}`);
+      const written = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(written.length === 0, `Dry run wrote ${written.length} matches`);
+      const statuses = await getStatuses(ids, sessionId, roundId);
+      assert(ids.every((id) => statuses[id]?.status === 'registered'), 'Dry run changed registration statuses');
+      return preview.summary;
+    });
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('matching', () => createMatchesForRound(sessionId, roundId));
+    await step('verify_explanations', async () => {
+      const { data: rows } = await supabase.from('matches').select('explanation').eq('session_id', sessionId).eq('round_id', roundId);
+      assert((rows?.length || 0) === 2, `Expected 2 matches, got ${rows?.length}`);
+      for (const row of rows || []) {
+        const pair = row.explanation?.pairs?.[0];
+        assert(!!pair, 'Match is missing its explanation');
+        assert(pair.teamRuleMet === true && pair.metBefore === false, `Unexpected explanation ${JSON.stringify(pair)}`);
+      }
+      return { explanations: (rows || []).map((r: any) => r.explanation.score) };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'match-edit-swap', name: 'Organizer swap: new partners and ID numbers; blocked pairs and checked-in are locked', category: 'Teams & Topics',
+  description: '4 people in 2 pairs: swapping two of them updates both groups atomically; an edit that pairs people who blocked each other is refused; once someone checks in their group can no longer be edited',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createCustomSession(supabase, organizerId, {}));
+    const names = Array.from({ length: 4 }, (_, i) => ({ firstName: `E${i + 1}` }));
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, roundId, organizerId));
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('matching', () => createMatchesForRound(sessionId, roundId));
+    // Any time before the round's networking phase
+    const beforeNetworking = new Date(0);
+    const [[a, b], [c, d]] = await step('read_pairs', async () => {
+      const matches = await getMatchesForRound(supabase, sessionId, roundId);
+      assert(matches.length === 2, `Expected 2 pairs, got ${matches.length}`);
+      return matches.map((m) => m.participantIds);
+    });
+    await step('swap', async () => {
+      const result = await applyMatchEdit(sessionId, roundId, { type: 'swap', participantIds: [a, c] }, beforeNetworking);
+      assert(result.success === true, `Swap failed: ${result.error}`);
+      const statuses = await getStatuses(ids, sessionId, roundId);
+      assert(statuses[a].matchId === statuses[d].matchId, 'a should now be with d');
+      assert(statuses[c].matchId === statuses[b].matchId, 'c should now be with b');
+      assert(ids.every((id) => statuses[id].status === 'matched'), 'Everyone should still be matched');
+      const nameOfD = names[ids.indexOf(d)].firstName;
+      assert(JSON.stringify(statuses[a].matchPartnerNames).includes(nameOfD), `a's partner names not updated: ${JSON.stringify(statuses[a].matchPartnerNames)}`);
+      assert(statuses[a].identificationNumber !== statuses[d].identificationNumber, 'ID numbers should be unique within the new pair');
+      return { affected: result.affectedParticipantIds?.length };
+    });
+    await step('blocked_pair_rejected', async () => {
+      // Swapping a and c back would put a with b, who blocked each other meanwhile
+      await db.blockPairByParticipant(a, b, null);
+      const result = await applyMatchEdit(sessionId, roundId, { type: 'swap', participantIds: [a, c] }, beforeNetworking);
+      assert(result.success === false && result.status === 409, `Expected 409 for a blocked pair, got ${JSON.stringify(result)}`);
+      const statuses = await getStatuses(ids, sessionId, roundId);
+      assert(statuses[a].matchId === statuses[d].matchId, 'Rejected edit must not move anyone');
+      return { status: result.status, error: result.error };
+    });
+    await step('checked_in_locked', async () => {
+      await db.updateRegistrationStatus(d, sessionId, roundId, 'checked-in', { checkedInAt: new Date().toISOString() });
+      const result = await applyMatchEdit(sessionId, roundId, { type: 'swap', participantIds: [a, b] }, beforeNetworking);
+      assert(result.success === false && result.status === 409, `Expected 409 for a checked-in group, got ${JSON.stringify(result)}`);
+      const statuses = await getStatuses(ids, sessionId, roundId);
+      assert(statuses[a].matchId === statuses[d].matchId, 'Rejected edit must not move anyone');
+      return { status: result.status };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+defineScenario({
+  id: 'fairness-earlier-no-match', name: 'Earlier no-match gets priority next round', category: 'Teams & Topics',
+  description: '3 people where one pair is blocked, so one person must be left out: the one who already got no-match in round 1 is matched in round 2',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const round1 = makeId('round'), round2 = makeId('round');
+    const { sessionId } = await step('setup', () => createCustomSession(supabase, organizerId, {
+      rounds: [
+        { id: round1, startTime: '00:00', duration: 10, name: 'Round 1' },
+        { id: round2, startTime: '01:00', duration: 10, name: 'Round 2' },
+      ],
+    }));
+    const names = [{ firstName: 'F1' }, { firstName: 'F2' }, { firstName: 'Waited' }];
+    const ids = await step('register', () => registerWithAttrs(names, sessionId, round2, organizerId));
+    const [p1, p2, waited] = ids;
+    await step('history_and_block', async () => {
+      await db.createRegistration({ participantId: waited, sessionId, roundId: round1, organizerId, status: 'no-match' });
+      // p1 can't meet waited: whoever is left over can't be absorbed into the pair
+      await db.blockPairByOrganizer(organizerId, p1, waited);
+    });
+    await step('confirm', () => confirmParticipants(ids, sessionId, round2));
+    await step('matching', () => createMatchesForRound(sessionId, round2));
+    await step('verify_priority', async () => {
+      const statuses = await getStatuses(ids, sessionId, round2);
+      assert(statuses[waited]?.status === 'matched', `Participant with an earlier no-match should be matched, got ${statuses[waited]?.status}`);
+      assert(statuses[waited]?.matchId === statuses[p2]?.matchId, 'Should be paired with the only allowed partner');
+      assert(statuses[p1]?.status === 'no-match', `Expected the other participant to wait this time, got ${statuses[p1]?.status}`);
+      return { waited: statuses[waited]?.status, p1: statuses[p1]?.status };
+    });
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+// --- CATEGORY 7: API CONTRACT (frontend-facing endpoints) ---
+
+async function apiFetch(ctx: TestContext, path: string, options?: any) {
+  const url = `${ctx.apiBaseUrl}${path}`;
+  const res = await fetch(url, {
+    ...options,
+    headers: { 'Authorization': `Bearer ${ctx.anonKey}`, 'Content-Type': 'application/json', ...options?.headers },
+  });
+  const data = await res.json();
+  return { status: res.status, data };
+}
+
+defineScenario({
+  id: 'api-dashboard-statuses', name: 'Dashboard shows correct statuses', category: 'API Contract',
+  description: 'GET /p/:token/dashboard returns correct status at each stage',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const { ids, tokens } = await step('register', () => registerParticipants([{ firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' }], sessionId, roundId, organizerId));
+
+    await step('dashboard_registered', async () => {
+      const { data } = await apiFetch(ctx, `/p/${tokens[0]}/dashboard`);
+      const reg = data.registrations?.find((r: any) => r.roundId === roundId);
+      assert(reg?.status === 'registered', `expected registered, got ${reg?.status}`);
+      assert(data.firstName === 'Anna', `expected Anna, got ${data.firstName}`);
+      return { status: reg?.status, name: data.firstName };
     });
 
     await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
@@ -1472,6 +2247,37 @@ defineScenario({
   }
 });
 
+defineScenario({
+  id: 'api-match-time-zone', name: 'Round start follows the session time zone', category: 'API Contract',
+  description: 'GET /match returns roundStartTime at 23:55 New York time for a New York session',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true, timeZone: 'America/New_York' }));
+    const { ids, tokens } = await step('register', () => registerParticipants([{ firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' }], sessionId, roundId, organizerId));
+    await step('confirm', () => confirmParticipants(ids, sessionId, roundId));
+    await step('matching', async () => {
+      const r = await createMatchesForRound(sessionId, roundId);
+      assert(r.success, 'matching should succeed');
+      return { matchCount: r.matchCount };
+    });
+
+    await step('round_start_in_zone', async () => {
+      const { status, data } = await apiFetch(ctx, `/participant/${tokens[0]}/match`);
+      assert(status === 200, `expected 200, got ${status}`);
+      const roundStartTime = data.matchData?.roundStartTime;
+      assert(roundStartTime != null, 'roundStartTime should exist');
+      const newYorkTime = new Intl.DateTimeFormat('en-GB', {
+        timeZone: 'America/New_York', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+      }).format(new Date(roundStartTime));
+      assert(newYorkTime === '23:55', `expected 23:55 in New York, got ${newYorkTime} (${roundStartTime})`);
+      return { roundStartTime, newYorkTime };
+    });
+
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
 defineScenario({
   id: 'api-confirm-endpoint', name: 'Confirm attendance via API', category: 'API Contract',
   description: 'POST /p/:token/confirm/:roundId returns correct response and updates status',
@@ -1623,7 +2429,7 @@ defineScenario({
 // These scenarios verify the QStash → /sms/dispatch → Twilio fan-out can
 // service a full event in one round. We cannot actually send SMS during a
 // 2000-recipient test (Twilio cost + carrier rate limits), so the dispatch
-// path uses SMS_MOCK=1 to short-circuit Twilio. The outbox table still
+// path uses mockSms, which hands the SMS to the fake provider. The outbox table still
 // records every (kind × participant × round) row, so we assert on those.
 
 async function runSmsDispatchScenario(
@@ -1647,7 +2453,7 @@ async function runSmsDispatchScenario(
     for (let i = 0; i < ids.length; i += CHUNK) {
       const slice = ids.slice(i, i + CHUNK);
       // All test participants share a single fake phone number — fine because
-      // SMS_MOCK=1 short-circuits Twilio. We just need a non-empty phone.
+      // the fake provider sends nothing. We just need a non-empty phone.
       const { error } = await supabase
         .from('participants')
         .update({ phone: '903999999', phone_country: '+421' })
@@ -1700,11 +2506,12 @@ async function runSmsDispatchScenario(
 
   // Trigger dispatch directly via in-process function. We bypass the HTTP
   // /sms/dispatch endpoint (avoids QStash signature plumbing) and pass
-  // mockSms=true to short-circuit Twilio (no credits burned).
+  // mockSms=true to short-circuit Twilio (no credits burned). skipSmsLimits
+  // keeps the organizer's monthly quota and quiet hours out of a load test.
   let smsSent = 0, smsFailed = 0, dispatchMs = 0;
   await step(`dispatch_${count}`, async () => {
     const t0 = Date.now();
-    const result: any = await dispatchSmsForRound(kind, roundId, sessionId, { mockSms: true });
+    const result: any = await dispatchNotificationsForRound(kind, roundId, sessionId, { mockSms: true, skipSmsLimits: true });
     dispatchMs = Date.now() - t0;
     assert(result && !result.error, `dispatch failed: ${JSON.stringify(result).slice(0, 200)}`);
     smsSent = result.smsSent || 0;
@@ -1713,11 +2520,11 @@ async function runSmsDispatchScenario(
   });
 
   await step('verify_outbox', async () => {
-    // Count outbox rows for this round/kind. With SMS_MOCK=1, all should be 'sent'.
+    // Count SMS outbox rows for this round/kind. With mockSms, all should be 'sent'.
     const PAGE = 1000;
     let total = 0, sent = 0, failed = 0, attempting = 0, from = 0;
     while (true) {
-      const { data, error } = await supabase.from('sms_outbox').select('status').eq('round_id', roundId).eq('kind', kind).range(from, from + PAGE - 1);
+      const { data, error } = await supabase.from('sms_outbox').select('status').eq('round_id', roundId).eq('kind', kind).eq('channel', 'sms').range(from, from + PAGE - 1);
       if (error) throw error;
       if (!data || data.length === 0) break;
       total += data.length;
@@ -1947,6 +2754,771 @@ defineScenario({
   }
 });
 
+// --- CATEGORY 9: RECURRING SERIES ---
+
+async function cleanupSeries(supabase: any, seriesId: string, pids: string[]) {
+  const sessions = await db.getSessionsBySeries(seriesId);
+  for (const session of sessions) {
+    await cleanup(supabase, session.id, pids);
+  }
+  await supabase.from('session_series').delete().eq('id', seriesId);
+}
+
+defineScenario({
+  id: 'series-weekly-materialize', name: 'Weekly series: occurrences, subscribers, skipped date', category: 'Recurring Series',
+  description: 'A 3-date weekly series creates its occurrences, registers a subscriber for all of them, and never re-creates a deleted date',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId, roundDate } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const { ids } = await step('register', () => registerParticipants([{ firstName: 'Anna', lastName: 'A' }], sessionId, roundId, organizerId));
+    const noSms = async () => {};
+    const expectedDates = [roundDate, addDays(roundDate, 7), addDays(roundDate, 14)];
+
+    const seriesId = await step('create_series', async () => {
+      const session = await db.getSessionById(sessionId);
+      const id = await createSeriesFromSession(session, { frequency: 'weekly', interval: 1, count: 3 }, new Date(), noSms);
+      assert(id != null, 'series should be created');
+      return id;
+    });
+
+    await step('occurrence_dates', async () => {
+      const dates = (await db.getSessionsBySeries(seriesId)).map(s => s.occurrenceDate);
+      assert(JSON.stringify(dates) === JSON.stringify(expectedDates), `expected ${expectedDates.join(', ')}, got ${dates.join(', ')}`);
+      return { dates };
+    });
+
+    await step('subscriber_registered', async () => {
+      const created = await subscribeToSeries(seriesId, ids[0], { team: null, topics: [], meetingPoint: null }, new Date());
+      // Already registered for the first date
+      assert(created === 2, `expected 2 new registrations, got ${created}`);
+      const regs = await db.getRegistrationsByParticipant(ids[0]);
+      const sessionIds = new Set(regs.map((r: any) => r.sessionId));
+      assert(sessionIds.size === 3, `expected registrations in 3 sessions, got ${sessionIds.size}`);
+      return { created, sessions: sessionIds.size };
+    });
+
+    await step('skipped_date_stays_deleted', async () => {
+      const second = (await db.getSessionsBySeries(seriesId)).find(s => s.occurrenceDate === expectedDates[1]);
+      assert(second != null, 'second occurrence should exist');
+      await skipOccurrence(second);
+      await cleanup(supabase, second!.id, []);
+      const created = await materializeSeries(seriesId, new Date(), noSms);
+      assert(created.length === 0, `deleted date should not come back, got ${created.length} new occurrence(s)`);
+      const dates = (await db.getSessionsBySeries(seriesId)).map(s => s.occurrenceDate);
+      return { dates };
+    });
+
+    await step('cleanup', () => cleanupSeries(supabase, seriesId, ids));
+  }
+});
+
+// --- CATEGORY 10: CALENDAR FEEDS ---
+
+defineScenario({
+  id: 'calendar-sequence', name: 'Calendar entries: moved and cancelled rounds bump SEQUENCE', category: 'Calendar Feeds',
+  description: 'A round starts at SEQUENCE 0, moving it publishes SEQUENCE 1, deleting the session publishes a CANCELLED entry with SEQUENCE 2 that stays in the participant feed',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const { ids, tokens } = await step('register', () => registerParticipants([{ firstName: 'Anna', lastName: 'A' }], sessionId, roundId, organizerId));
+    const uid = calendarEventUid(roundId);
+    const sequenceOf = async () => {
+      const session = await db.getSessionById(sessionId);
+      const entries = await syncCalendarEvents([session]);
+      return entries.find(e => e.uid === uid);
+    };
+
+    await step('first_publish', async () => {
+      const entry = await sequenceOf();
+      assert(entry?.sequence === 0, `expected SEQUENCE 0, got ${entry?.sequence}`);
+      // Nothing changed → no bump
+      const again = await sequenceOf();
+      assert(again?.sequence === 0, `unchanged round should keep SEQUENCE 0, got ${again?.sequence}`);
+      return { sequence: entry!.sequence };
+    });
+
+    await step('moved_round', async () => {
+      const session = await db.getSessionById(sessionId);
+      await db.updateSession(sessionId, { rounds: session!.rounds.map((r: any) => ({ ...r, startTime: '23:30' })) });
+      const entry = await sequenceOf();
+      assert(entry?.sequence === 1, `expected SEQUENCE 1 after moving the round, got ${entry?.sequence}`);
+      return { sequence: entry!.sequence };
+    });
+
+    await step('deleted_session', async () => {
+      await cancelCalendarEvents(sessionId);
+      await supabase.from('registrations').delete().eq('session_id', sessionId);
+      await supabase.from('sessions').delete().eq('id', sessionId);
+      const participant = await db.getParticipantByToken(tokens[0]);
+      const feed = await buildParticipantFeed(participant!, new Date());
+      const event = feed.split('BEGIN:VEVENT').find(block => block.includes(`UID:${uid}`)) || '';
+      assert(event.includes('STATUS:CANCELLED'), 'feed should keep the round as CANCELLED');
+      assert(event.includes('SEQUENCE:2'), `expected SEQUENCE:2, got ${event.match(/SEQUENCE:\d+/)?.[0]}`);
+      return { cancelled: true };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('calendar_events').delete().eq('session_id', sessionId);
+      await cleanup(supabase, sessionId, ids);
+    });
+  }
+});
+
+// --- CATEGORY 11: WAITLIST ---
+
+defineScenario({
+  id: 'waitlist-promotion', name: 'Waitlist: freed spot is offered and claimed', category: 'Waitlist',
+  description: 'A full round puts the next person on the waitlist, an unregistration offers them the spot, claiming it creates their registration',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', async () => {
+      const created = await createTestSession(supabase, organizerId, { futureRound: true });
+      await db.updateSession(created.sessionId, { limitParticipants: true, maxParticipants: 2 });
+      return created;
+    });
+    const { ids, tokens } = await step('register', () => registerParticipants([
+      { firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' },
+    ], sessionId, roundId, organizerId));
+
+    const waitingId = makeId('p');
+    const waitingToken = makeId('tok');
+    ids.push(waitingId);
+
+    await step('join_waitlist', async () => {
+      const session = await db.getSessionById(sessionId);
+      const availability = await getRoundAvailability(session);
+      assert(mustJoinWaitlist(availability?.get(roundId)), 'round with 2/2 spots taken should be full');
+      await db.createParticipant({ participantId: waitingId, email: `${makeId('e')}@test.com`, token: waitingToken, firstName: 'Cora', lastName: 'C', phone: '', phoneCountry: '+421' });
+      const position = await joinWaitlist(session, roundId, waitingId, {});
+      assert(position === 1, `expected waitlist position 1, got ${position}`);
+      return { position };
+    });
+
+    await step('spot_freed', async () => {
+      const res = await apiFetch(ctx, `/p/${tokens[0]}/unregister/${roundId}?sessionId=${sessionId}`, { method: 'POST' });
+      assert(res.status === 200, `unregister returned ${res.status}: ${JSON.stringify(res.data)}`);
+      const entry = await db.getWaitlistEntry(waitingId, roundId);
+      assert(entry?.status === 'offered', `expected an offer, got ${entry?.status}`);
+      assert(!!entry?.offerExpiresAt, 'offer should carry a claim deadline');
+      return { status: entry!.status, offerExpiresAt: entry!.offerExpiresAt };
+    });
+
+    await step('claim', async () => {
+      const res = await apiFetch(ctx, `/p/${waitingToken}/waitlist/${roundId}/claim`, { method: 'POST' });
+      assert(res.status === 200, `claim returned ${res.status}: ${JSON.stringify(res.data)}`);
+      const statuses = await getStatuses([waitingId], sessionId, roundId);
+      assert(statuses[waitingId]?.status === 'registered', `expected registered, got ${statuses[waitingId]?.status}`);
+      const entry = await db.getWaitlistEntry(waitingId, roundId);
+      assert(entry?.status === 'claimed', `expected claimed entry, got ${entry?.status}`);
+      return { status: statuses[waitingId].status };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('waitlist_entries').delete().eq('session_id', sessionId);
+      await cleanup(supabase, sessionId, ids);
+    });
+  }
+});
+
+defineScenario({
+  id: 'round-capacity', name: 'Round capacity: a round\'s own limit fills up without a session limit', category: 'Waitlist',
+  description: 'A round limited to 2 seats in an unlimited session shows seats left, then sends the third person to the waitlist',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', async () => {
+      const created = await createTestSession(supabase, organizerId, { futureRound: true });
+      const session = await db.getSessionById(created.sessionId);
+      await db.updateSession(created.sessionId, { rounds: session!.rounds.map((r: any) => ({ ...r, maxParticipants: 2 })) });
+      return created;
+    });
+    const availabilityOf = async () => (await getRoundAvailability(await db.getSessionById(sessionId)))?.get(roundId);
+
+    const { ids } = await step('register_one', async () => {
+      const registered = await registerParticipants([{ firstName: 'Anna', lastName: 'A' }], sessionId, roundId, organizerId);
+      const availability = await availabilityOf();
+      assert(availability?.capacity === 2, `expected capacity 2, got ${availability?.capacity}`);
+      assert(getSeatsLeft(availability) === 1, `expected 1 seat left, got ${getSeatsLeft(availability)}`);
+      return registered;
+    });
+
+    await step('round_full', async () => {
+      const more = await registerParticipants([{ firstName: 'Boris', lastName: 'B' }], sessionId, roundId, organizerId);
+      ids.push(...more.ids);
+      const availability = await availabilityOf();
+      assert(mustJoinWaitlist(availability), 'round with 2/2 seats taken should send newcomers to the waitlist');
+      assert(getSeatsLeft(availability) === 0, `expected 0 seats left, got ${getSeatsLeft(availability)}`);
+      return { taken: availability!.taken };
+    });
+
+    await step('cleanup', () => cleanup(supabase, sessionId, ids));
+  }
+});
+
+// --- CATEGORY 12: SCHEDULE RULES ---
+
+defineScenario({
+  id: 'schedule-rules', name: 'Schedule rules: impossible schedules and closed registration are refused', category: 'Schedule Rules',
+  description: 'Rounds too close together or too short come back as field errors; /register-participant refuses a session whose registration has not opened yet',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId, slug } = await getOrganizerId(supabase);
+    const { sessionId, roundId, roundDate } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const pids: string[] = [];
+
+    await step('field_errors', async () => {
+      const rules = resolveScheduleRules({ minimalGapBetweenRounds: 10, minimalRoundDuration: 5 });
+      const session = await db.getSessionById(sessionId);
+      const errors = validateSessionSchedule({
+        ...session,
+        rounds: [
+          { id: roundId, date: roundDate, startTime: '22:00', duration: 3 },
+          { id: makeId('round'), date: roundDate, startTime: '22:05', duration: 10 },
+        ],
+      }, rules, new Date(), session);
+      const fields = errors.map(e => e.field).sort();
+      assert(JSON.stringify(fields) === JSON.stringify(['gapBetweenRounds', 'roundDuration']), `unexpected fields: ${fields.join(', ')}`);
+      const unchanged = validateSessionSchedule({ ...session, name: 'Renamed' }, rules, new Date(), session);
+      assert(unchanged.length === 0, `renaming should pass, got ${JSON.stringify(unchanged)}`);
+      return { fields };
+    });
+
+    const register = () => apiFetch(ctx, '/register-participant', {
+      method: 'POST',
+      body: JSON.stringify({
+        userSlug: slug,
+        participant: { email: `${makeId('e')}@test.com`, firstName: 'Anna', lastName: 'A', phone: '' },
+        sessions: [{ sessionId, rounds: [{ roundId }] }],
+      }),
+    });
+
+    await step('registration_not_open', async () => {
+      await db.updateSession(sessionId, { registrationStart: new Date(Date.now() + 3600000).toISOString() });
+      const res = await register();
+      assert(res.status === 400, `expected 400 before registration opens, got ${res.status}`);
+      return { error: res.data.error };
+    });
+
+    await step('registration_open', async () => {
+      await db.updateSession(sessionId, { registrationStart: new Date(Date.now() - 3600000).toISOString() });
+      const res = await register();
+      assert(res.status === 200, `expected 200 once registration is open, got ${res.status}: ${JSON.stringify(res.data)}`);
+      pids.push(res.data.participantId);
+      return { newRegistrationsCount: res.data.newRegistrationsCount };
+    });
+
+    await step('cleanup', () => cleanup(supabase, sessionId, pids));
+  }
+});
+
+// --- CATEGORY 13: WEB PUSH ---
+
+defineScenario({
+  id: 'web-push-subscriptions', name: 'Web push: subscribe, get the match push, unsubscribe', category: 'Web Push',
+  description: 'A participant without a phone stores a browser subscription under their token, the match push reaches them (mocked push service), DELETE removes it',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const { ids, tokens } = await step('register', () => registerParticipants([
+      { firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' },
+    ], sessionId, roundId, organizerId));
+    // Only known push services are accepted; the pushes below are mocked
+    const endpoint = `https://fcm.googleapis.com/fcm/send/${makeId('sub')}`;
+
+    await step('vapid_key', async () => {
+      const res = await apiFetch(ctx, '/push/vapid-public-key');
+      assert(res.status === 200, `vapid key returned ${res.status}: ${JSON.stringify(res.data)}`);
+      assert(base64UrlDecode(res.data.publicKey).length === 65, 'VAPID public key should be an uncompressed P-256 point');
+      return { publicKey: res.data.publicKey };
+    });
+
+    await step('subscribe', async () => {
+      const invalid = await apiFetch(ctx, `/p/${tokens[0]}/push-subscription`, { method: 'POST', body: JSON.stringify({ endpoint }) });
+      assert(invalid.status === 400, `subscription without keys should be 400, got ${invalid.status}`);
+
+      // A browser's p256dh is its ECDH public key; auth is 16 random bytes
+      const browserKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+      const p256dh = base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', browserKeys.publicKey)));
+      const auth = base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+      const res = await apiFetch(ctx, `/p/${tokens[0]}/push-subscription`, {
+        method: 'POST',
+        body: JSON.stringify({ endpoint, keys: { p256dh, auth } }),
+      });
+      assert(res.status === 200, `subscribe returned ${res.status}: ${JSON.stringify(res.data)}`);
+      for (const foreign of ['https://push.example.invalid/x', 'https://169.254.169.254/latest', 'https://fcm.googleapis.com:8443/x']) {
+        const rejected = await apiFetch(ctx, `/p/${tokens[0]}/push-subscription`, {
+          method: 'POST',
+          body: JSON.stringify({ endpoint: foreign, keys: { p256dh, auth } }),
+        });
+        assert(rejected.status === 400, `endpoint ${foreign} should be 400, got ${rejected.status}`);
+      }
+      const stored = await db.getPushSubscriptionsByParticipant(ids[0]);
+      assert(stored.length === 1 && stored[0].endpoint === endpoint, `expected the subscription stored, got ${stored.length}`);
+      return { stored: stored.length };
+    });
+
+    await step('match_push', async () => {
+      const session = await db.getSessionById(sessionId);
+      const round = session!.rounds.find((r: any) => r.id === roundId);
+      const registrations = await db.getRegistrationsForRound(sessionId, roundId);
+      const result = await dispatchMatchPush(session, round, [{ participantIds: ids, meetingPoint: 'Coffee corner' }], registrations, { mockPush: true });
+      // Only Anna has a browser subscribed
+      assert(result.pushSent === 1, `expected 1 push sent, got ${result.pushSent} (is pushNotificationsEnabled off on this env?)`);
+      return result;
+    });
+
+    await step('unsubscribe', async () => {
+      const res = await apiFetch(ctx, `/p/${tokens[0]}/push-subscription`, { method: 'DELETE', body: JSON.stringify({ endpoint }) });
+      assert(res.status === 200 && res.data.removed === true, `unsubscribe returned ${res.status}: ${JSON.stringify(res.data)}`);
+      const stored = await db.getPushSubscriptionsByParticipant(ids[0]);
+      assert(stored.length === 0, `expected no subscriptions left, got ${stored.length}`);
+      return { removed: true };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('sms_outbox').delete().eq('round_id', roundId);
+      await cleanup(supabase, sessionId, ids);
+    });
+  }
+});
+
+// --- CATEGORY 14: NOTIFICATION CHANNELS ---
+
+defineScenario({
+  id: 'notification-channel-preferences', name: 'Notification channels: per-participant choice, one outbox', category: 'Notification Channels',
+  description: 'A participant turns SMS off via /p/:token/notification-preference; the dispatch skips their SMS but sends the other one, and the match push is recorded in the outbox as a push row',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const { ids, tokens } = await step('register', () => registerParticipants([
+      { firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' },
+    ], sessionId, roundId, organizerId));
+    await step('set_phone_numbers', async () => {
+      const { error } = await supabase.from('participants').update({ phone: '903999999', phone_country: '+421' }).in('id', ids);
+      if (error) throw error;
+      return { phonesSet: ids.length };
+    });
+
+    await step('preference_validation', async () => {
+      const empty = await apiFetch(ctx, `/p/${tokens[0]}/notification-preference`, { method: 'POST', body: JSON.stringify({}) });
+      assert(empty.status === 400, `empty body should be 400, got ${empty.status}`);
+      const unknown = await apiFetch(ctx, `/p/${tokens[0]}/notification-preference`, { method: 'POST', body: JSON.stringify({ channels: { fax: true } }) });
+      assert(unknown.status === 400, `unknown channel should be 400, got ${unknown.status}`);
+      return { empty: empty.status, unknown: unknown.status };
+    });
+
+    await step('sms_off', async () => {
+      const res = await apiFetch(ctx, `/p/${tokens[0]}/notification-preference`, { method: 'POST', body: JSON.stringify({ channels: { sms: false } }) });
+      assert(res.status === 200, `preference returned ${res.status}: ${JSON.stringify(res.data)}`);
+      const read = await apiFetch(ctx, `/p/${tokens[0]}/notification-preference`);
+      assert(read.status === 200 && read.data.channels.sms === false && read.data.channels.email === true,
+        `expected sms off and email on, got ${JSON.stringify(read.data)}`);
+      assert(read.data.available.sms === true && read.data.available.push === false, `unexpected availability ${JSON.stringify(read.data.available)}`);
+      return read.data;
+    });
+
+    await step('dispatch', async () => {
+      const result: any = await dispatchNotificationsForRound('round-starting-soon', roundId, sessionId, { skipClaim: true, mockSms: true });
+      assert(result && !result.error && !result.skipped, `dispatch failed: ${JSON.stringify(result)} (is round-starting-soon SMS enabled with a template on this env?)`);
+      const { data, error } = await supabase.from('sms_outbox').select('participant_id, status, recipient')
+        .eq('round_id', roundId).eq('kind', 'round-starting-soon').eq('channel', 'sms');
+      if (error) throw error;
+      assert(data.length === 1 && data[0].participant_id === ids[1], `expected only Boris's SMS, got ${JSON.stringify(data)}`);
+      assert(data[0].recipient === '+421903999999', `expected the E.164 number as recipient, got ${data[0].recipient}`);
+      return { smsSent: result.smsSent, emailSent: result.emailSent, outboxRows: data.length };
+    });
+
+    await step('match_push_in_outbox', async () => {
+      const browserKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+      await db.savePushSubscription(ids[1], {
+        endpoint: `https://push.example.invalid/${makeId('sub')}`,
+        p256dh: base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', browserKeys.publicKey))),
+        auth: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16))),
+      });
+      const session = await db.getSessionById(sessionId);
+      const round = session!.rounds.find((r: any) => r.id === roundId);
+      const registrations = await db.getRegistrationsForRound(sessionId, roundId);
+      const matches = [{ participantIds: ids, meetingPoint: 'Coffee corner' }];
+      const first = await dispatchMatchPush(session, round, matches, registrations, { mockPush: true });
+      // A second run (e.g. an admin resend) must not push again
+      const second = await dispatchMatchPush(session, round, matches, registrations, { mockPush: true });
+      const { data, error } = await supabase.from('sms_outbox').select('participant_id, status, recipient')
+        .eq('round_id', roundId).eq('kind', 'round-matched').eq('channel', 'push');
+      if (error) throw error;
+      assert(first.pushSent === 1 && second.pushSent === 0, `expected one push across both runs, got ${first.pushSent} + ${second.pushSent}`);
+      assert(data.length === 1 && data[0].participant_id === ids[1] && data[0].status === 'sent',
+        `expected one sent push row for Boris, got ${JSON.stringify(data)}`);
+      return { first, second, recipient: data[0].recipient };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('sms_outbox').delete().eq('round_id', roundId);
+      await cleanup(supabase, sessionId, ids);
+    });
+  }
+});
+
+// --- CATEGORY 15: SMS PROVIDERS ---
+
+defineScenario({
+  id: 'sms-fake-provider-delivery', name: 'SMS provider: fake gateway records sends and reports delivery', category: 'SMS Providers',
+  description: 'Dispatch through the fake provider records each SMS and its id in the outbox; signed delivery reports update the rows, forged ones are rejected',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const { ids } = await step('register', () => registerParticipants([
+      { firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' },
+    ], sessionId, roundId, organizerId));
+    // Numbers unique to this run, so the fake's log can be searched by recipient
+    const numbers = ids.map(() => `9${String(Math.floor(Math.random() * 1e8)).padStart(8, '0')}`);
+    await step('set_phone_numbers', async () => {
+      for (let i = 0; i < ids.length; i++) {
+        const { error } = await supabase.from('participants').update({ phone: numbers[i], phone_country: '+421' }).eq('id', ids[i]);
+        if (error) throw error;
+      }
+      return { numbers };
+    });
+
+    const sids: string[] = [];
+    await step('dispatch_via_fake', async () => {
+      const result: any = await dispatchNotificationsForRound('round-starting-soon', roundId, sessionId, { skipClaim: true, mockSms: true });
+      assert(result && result.smsSent === 2, `expected 2 SMS sent, got ${JSON.stringify(result)} (is round-starting-soon SMS enabled with a template on this env?)`);
+      for (const [i, pid] of ids.entries()) {
+        const recorded = getFakeSmsMessages(`+421${numbers[i]}`);
+        assert(recorded.length === 1 && recorded[0].body.length > 0, `expected one recorded SMS to +421${numbers[i]}, got ${recorded.length}`);
+        const { data: row } = await supabase.from('sms_outbox').select('provider, twilio_sid, status')
+          .eq('round_id', roundId).eq('kind', 'round-starting-soon').eq('channel', 'sms').eq('participant_id', pid).single();
+        assert(row?.provider === 'fake' && row.twilio_sid === recorded[0].id, `outbox row should carry the fake message id, got ${JSON.stringify(row)}`);
+        sids.push(recorded[0].id);
+      }
+      return { sids };
+    });
+
+    await step('forged_report_rejected', async () => {
+      const request = await buildFakeDeliveryCallback(sids[0], 'delivered');
+      const forged = { ...request, rawBody: request.rawBody.replace('delivered', 'failed') };
+      const { result } = await handleSmsStatusCallback('fake', forged);
+      assert(result === 'unauthorized', `tampered report should be unauthorized, got ${result}`);
+      const unsigned = await apiFetch(ctx, '/sms/status/fake', { method: 'POST', body: JSON.stringify({ messageId: sids[0], status: 'failed' }) });
+      assert(unsigned.status === 401, `unsigned webhook should be 401, got ${unsigned.status}`);
+      const unknown = await apiFetch(ctx, '/sms/status/carrier-pigeon', { method: 'POST', body: '{}' });
+      assert(unknown.status === 404, `unknown provider should be 404, got ${unknown.status}`);
+      return { forged: result, unsigned: unsigned.status, unknown: unknown.status };
+    });
+
+    await step('delivery_reports', async () => {
+      const delivered = await handleSmsStatusCallback('fake', await buildFakeDeliveryCallback(sids[0], 'delivered'));
+      const undelivered = await handleSmsStatusCallback('fake', await buildFakeDeliveryCallback(sids[1], 'undelivered', '30003'));
+      assert(delivered.result === 'applied' && undelivered.result === 'applied', `reports not applied: ${delivered.result}, ${undelivered.result}`);
+      const { data } = await supabase.from('sms_outbox').select('twilio_sid, status, twilio_error_code').in('twilio_sid', sids);
+      const bySid = new Map((data || []).map((r: any) => [r.twilio_sid, r]));
+      assert(bySid.get(sids[0])?.status === 'delivered', `expected delivered, got ${JSON.stringify(bySid.get(sids[0]))}`);
+      assert(bySid.get(sids[1])?.status === 'undelivered' && bySid.get(sids[1])?.twilio_error_code === '30003',
+        `expected undelivered with error 30003, got ${JSON.stringify(bySid.get(sids[1]))}`);
+      return { rows: data };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('sms_outbox').delete().eq('round_id', roundId);
+      await cleanup(supabase, sessionId, ids);
+    });
+  }
+});
+
+// --- CATEGORY 16: TWO-WAY SMS ---
+
+defineScenario({
+  id: 'sms-reply-confirm-cancel-stop', name: 'Two-way SMS: YES confirms, NO cancels, STOP opts out', category: 'Two-way SMS',
+  description: 'Signed replies from participants\' phones confirm or cancel their next round through the same rules as the web buttons, STOP turns SMS off; retries and unsigned webhooks do nothing',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const { sessionId, roundId } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true }));
+    const { ids } = await step('register', () => registerParticipants([
+      { firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' }, { firstName: 'Cyril', lastName: 'C' },
+    ], sessionId, roundId, organizerId));
+    // Local-format numbers unique to this run; replies come from their E.164 form
+    const numbers = ids.map(() => `09${String(Math.floor(Math.random() * 1e8)).padStart(8, '0')}`);
+    const phones = numbers.map(n => `+421${n.slice(1)}`);
+    await step('set_phone_numbers', async () => {
+      for (let i = 0; i < ids.length; i++) {
+        const { error } = await supabase.from('participants').update({ phone: numbers[i], phone_country: '+421' }).eq('id', ids[i]);
+        if (error) throw error;
+      }
+      return { phones };
+    });
+
+    const statusOf = async (pid: string) => (await db.getRegistration(pid, sessionId, roundId))?.status;
+
+    await step('reply_parsing', async () => {
+      const cases: Array<[string, string]> = [
+        ['YES', 'yes'], ['Áno!', 'yes'], ['ok, see you', 'yes'], ['👍🏻', 'yes'], ['Tak', 'yes'],
+        ['NO', 'no'], ['Nie.', 'no'], ['No problem, see you', 'unknown'], ['No jo', 'unknown'],
+        ['STOP', 'stop'], ['Cancel', 'stop'], ['Koniec', 'stop'], ['start', 'start'],
+        ['yolo', 'unknown'], ['', 'unknown'],
+      ];
+      for (const [text, expected] of cases) {
+        assert(parseSmsReply(text) === expected, `"${text}" should read as ${expected}, got ${parseSmsReply(text)}`);
+      }
+      return { cases: cases.length };
+    });
+
+    const yesRequest = await buildFakeInboundSms(phones[0], 'Yes!');
+    await step('yes_confirms', async () => {
+      const result = await handleInboundSms('fake', yesRequest);
+      assert(result.result === 'handled' && result.outcome === 'confirmed', `expected confirmed, got ${JSON.stringify(result)}`);
+      assert(await statusOf(ids[0]) === 'confirmed', `registration should be confirmed, got ${await statusOf(ids[0])}`);
+      const answers = getFakeSmsMessages(phones[0]);
+      assert(answers.length === 1 && answers[0].body === result.reply, `expected one answer SMS to ${phones[0]}, got ${answers.length}`);
+      return { reply: result.reply };
+    });
+
+    await step('retry_is_noop', async () => {
+      const result = await handleInboundSms('fake', yesRequest);
+      assert(result.result === 'duplicate', `retried webhook should be a duplicate, got ${result.result}`);
+      assert(getFakeSmsMessages(phones[0]).length === 1, 'retried webhook must not send a second answer');
+      return { result: result.result };
+    });
+
+    await step('no_cancels', async () => {
+      const result = await handleInboundSms('fake', await buildFakeInboundSms(phones[1], 'nie'));
+      assert(result.outcome === 'cancelled', `expected cancelled, got ${JSON.stringify(result)}`);
+      assert(await statusOf(ids[1]) === 'cancelled', `registration should be cancelled, got ${await statusOf(ids[1])}`);
+      // Nothing left to cancel: the answer explains the keywords instead
+      const again = await handleInboundSms('fake', await buildFakeInboundSms(phones[1], 'no'));
+      assert(again.outcome === 'no-round', `second NO should find no round, got ${again.outcome}`);
+      return { first: result.outcome, second: again.outcome };
+    });
+
+    await step('stop_opts_out', async () => {
+      const result = await handleInboundSms('fake', await buildFakeInboundSms(phones[2], 'STOP'));
+      assert(result.outcome === 'stopped', `expected stopped, got ${JSON.stringify(result)}`);
+      const participant = await db.getParticipantById(ids[2]);
+      assert(participant?.notificationChannels.sms === false, `SMS should be off, got ${JSON.stringify(participant?.notificationChannels)}`);
+      assert(await statusOf(ids[2]) === 'registered', 'STOP must not touch the registration');
+      assert(await isSmsSuppressed(phones[2]), 'STOP should put the number on the opt-out list');
+      const blocked = await sendSms({ to: phones[2], body: 'Should not go out', mock: true });
+      assert(blocked.suppressed === true, `SMS to an opted-out number should be suppressed, got ${JSON.stringify(blocked)}`);
+      return { notificationChannels: participant?.notificationChannels };
+    });
+
+    await step('start_opts_back_in', async () => {
+      const result = await handleInboundSms('fake', await buildFakeInboundSms(phones[2], 'START'));
+      assert(result.outcome === 'resumed' && !!result.reply, `expected resumed with an answer, got ${JSON.stringify(result)}`);
+      const participant = await db.getParticipantById(ids[2]);
+      assert(participant?.notificationChannels.sms === true, `SMS should be back on, got ${JSON.stringify(participant?.notificationChannels)}`);
+      assert(!(await isSmsSuppressed(phones[2])), 'START should take the number off the opt-out list');
+      return { reply: result.reply };
+    });
+
+    const stranger = `+4219${String(Math.floor(Math.random() * 1e8)).padStart(8, '0')}`;
+    await step('unknown_number_and_forgery', async () => {
+      const unknown = await handleInboundSms('fake', await buildFakeInboundSms(stranger, 'yes'));
+      assert(unknown.outcome === 'unknown-number' && getFakeSmsMessages(stranger).length === 0,
+        `unknown numbers get no answer, got ${JSON.stringify(unknown)}`);
+      const request = await buildFakeInboundSms(phones[2], 'stop');
+      const forged = { ...request, rawBody: request.rawBody.replace('stop', 'yes') };
+      const tampered = await handleInboundSms('fake', forged);
+      assert(tampered.result === 'unauthorized', `tampered webhook should be unauthorized, got ${tampered.result}`);
+      const unsigned = await apiFetch(ctx, '/sms/inbound/fake', {
+        method: 'POST', body: JSON.stringify({ from: phones[2], text: 'yes', messageId: 'forged' }),
+      });
+      assert(unsigned.status === 401, `unsigned webhook should be 401, got ${unsigned.status}`);
+      return { unknown: unknown.outcome, tampered: tampered.result, unsigned: unsigned.status };
+    });
+
+    await step('inbound_log', async () => {
+      const { data } = await supabase.from('sms_inbound').select('intent, outcome, participant_id, round_id').in('from_number', phones);
+      const outcomes = (data || []).map((r: any) => r.outcome).sort();
+      assert(JSON.stringify(outcomes) === JSON.stringify(['cancelled', 'confirmed', 'no-round', 'resumed', 'stopped']),
+        `expected one logged row per handled reply, got ${JSON.stringify(outcomes)}`);
+      const confirmed = (data || []).find((r: any) => r.outcome === 'confirmed');
+      assert(confirmed?.participant_id === ids[0] && confirmed?.round_id === roundId, `confirmed row should point at the round, got ${JSON.stringify(confirmed)}`);
+      return { rows: data?.length };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('sms_inbound').delete().in('from_number', [...phones, stranger]);
+      await supabase.from('sms_suppressions').delete().in('phone_e164', [...phones, stranger]);
+      await cleanup(supabase, sessionId, ids);
+    });
+  }
+});
+
+// --- CATEGORY 17: SMS LIMITS ---
+
+defineScenario({
+  id: 'sms-limits-optout-quiet-hours-quota', name: 'SMS limits: opt-out list, quiet hours, monthly quota', category: 'SMS Limits',
+  description: 'An opted-out number gets no SMS from any dispatch, the round-ended SMS sent at night waits for the end of quiet hours, and every SMS sent counts toward the organizer\'s monthly quota',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    const { organizerId } = await getOrganizerId(supabase);
+    const timeZone = 'Europe/Bratislava';
+    const { sessionId, roundId, roundDate } = await step('setup', () => createTestSession(supabase, organizerId, { futureRound: true, timeZone }));
+    const { ids } = await step('register', () => registerParticipants([
+      { firstName: 'Anna', lastName: 'A' }, { firstName: 'Boris', lastName: 'B' },
+    ], sessionId, roundId, organizerId));
+    const numbers = ids.map(() => `9${String(Math.floor(Math.random() * 1e8)).padStart(8, '0')}`);
+    const phones = numbers.map(n => `+421${n}`);
+    await step('set_phone_numbers', async () => {
+      for (let i = 0; i < ids.length; i++) {
+        const { error } = await supabase.from('participants').update({ phone: numbers[i], phone_country: '+421' }).eq('id', ids[i]);
+        if (error) throw error;
+      }
+      return { phones };
+    });
+
+    const usageBefore = await step('usage_before', () => getSmsUsage(organizerId));
+
+    await step('opted_out_number_skipped', async () => {
+      await addSmsSuppression(phones[0], 'admin', 'e2e');
+      const result: any = await dispatchNotificationsForRound('round-starting-soon', roundId, sessionId, { skipClaim: true, mockSms: true });
+      assert(result && result.smsSuppressed === 1 && result.smsSent === 1,
+        `expected 1 suppressed and 1 sent, got ${JSON.stringify(result)} (is round-starting-soon SMS enabled with a template on this env?)`);
+      assert(getFakeSmsMessages(phones[0]).length === 0, 'the opted-out number must not get the SMS');
+      const { data } = await supabase.from('sms_outbox').select('participant_id')
+        .eq('round_id', roundId).eq('kind', 'round-starting-soon').eq('channel', 'sms');
+      assert(data?.length === 1 && data[0].participant_id === ids[1], `expected only Boris's SMS row, got ${JSON.stringify(data)}`);
+      return { smsSent: result.smsSent, smsSuppressed: result.smsSuppressed };
+    });
+
+    await step('admin_routes_need_admin', async () => {
+      const list = await apiFetch(ctx, '/admin/sms-suppressions');
+      const add = await apiFetch(ctx, '/admin/sms-suppressions', { method: 'POST', body: JSON.stringify({ phone: phones[1] }) });
+      const usage = await apiFetch(ctx, '/sms-usage');
+      assert(list.status === 401 && add.status === 401 && usage.status === 401,
+        `expected 401 without a user token, got ${list.status}, ${add.status}, ${usage.status}`);
+      return { list: list.status, add: add.status, usage: usage.status };
+    });
+
+    await step('promote_to_met', async () => {
+      const { error } = await supabase.from('registrations').update({ status: 'met' }).in('participant_id', ids).eq('round_id', roundId);
+      if (error) throw error;
+      return { promoted: ids.length };
+    });
+
+    // 23:30 on the round's day, session time; the quiet hours (21–8 by default) end at 08:00 the next day
+    const night = parseRoundStartTime(roundDate, '23:30', timeZone);
+    const morningDate = addDays(roundDate, 1);
+    const quietEnd = parseRoundStartTime(morningDate, '08:00', timeZone);
+    await step('night_send_deferred', async () => {
+      const result: any = await dispatchNotificationsForRound('round-ended', roundId, sessionId, { skipClaim: true, mockSms: true, now: night });
+      assert(result && !result.error && !result.skipped, `dispatch failed: ${JSON.stringify(result)} (is round-ended SMS enabled with a template on this env?)`);
+      assert(result.deferredUntil === quietEnd.toISOString() && result.smsSent === 0,
+        `expected no SMS and a deferral to ${quietEnd.toISOString()}, got ${JSON.stringify(result)} (are SMS quiet hours on with 21–8 on this env?)`);
+      const { data: schedule } = await supabase.from('sms_schedules').select('status, target_send_at')
+        .eq('round_id', roundId).eq('kind', 'round-ended').single();
+      assert(schedule?.status === 'pending' && new Date(schedule.target_send_at).getTime() === quietEnd.getTime(),
+        `schedule should wait for ${quietEnd.toISOString()}, got ${JSON.stringify(schedule)}`);
+      return { deferredUntil: result.deferredUntil };
+    });
+
+    await step('morning_send', async () => {
+      const morning = parseRoundStartTime(morningDate, '08:05', timeZone);
+      const result: any = await dispatchNotificationsForRound('round-ended', roundId, sessionId, { skipClaim: true, mockSms: true, now: morning });
+      assert(result.deferredUntil === null && result.smsSent === 1 && result.smsSuppressed === 1,
+        `expected Boris's SMS after quiet hours, got ${JSON.stringify(result)}`);
+      return { smsSent: result.smsSent };
+    });
+
+    await step('usage_counted', async () => {
+      const usage = await getSmsUsage(organizerId);
+      // Other runs may send meanwhile, so at least this run's 2 SMS
+      assert(usage.used >= usageBefore.used + 2, `expected usage to grow by 2 from ${usageBefore.used}, got ${usage.used}`);
+      assert(usage.remaining === Math.max(0, usage.quota - usage.used), `remaining doesn't add up: ${JSON.stringify(usage)}`);
+      assert(usage.level === (usage.used >= usage.quota ? 'exceeded' : usage.used >= usage.quota * 0.8 ? 'warning' : 'ok'),
+        `wrong level for ${usage.used}/${usage.quota}: ${usage.level}`);
+      return { tier: usage.tier, quota: usage.quota, before: usageBefore.used, after: usage.used, level: usage.level };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('sms_outbox').delete().eq('round_id', roundId);
+      await supabase.from('sms_schedules').delete().eq('round_id', roundId);
+      await supabase.from('sms_suppressions').delete().in('phone_e164', phones);
+      await cleanup(supabase, sessionId, ids);
+    });
+  }
+});
+
+// --- CATEGORY 18: EMAIL OUTBOX ---
+
+defineScenario({
+  id: 'email-outbox-webhooks-retry', name: 'Email outbox: delivery webhooks and retries', category: 'Email Outbox',
+  description: 'Signed Resend webhooks move outbox rows to delivered or bounced, a late delivered never hides a bounce, forged webhooks are rejected and transient failures wait for the retry cron',
+  run: async (step, ctx) => {
+    const { supabase } = ctx;
+    // Addresses and Resend ids unique to this run; nothing is sent through Resend
+    const run = crypto.randomUUID().slice(0, 8);
+    const recipients = ['anna', 'boris', 'cyril'].map(name => `e2e-${name}-${run}@example.com`);
+    const messageIds = recipients.map(() => `e2e-${crypto.randomUUID()}`);
+
+    const rowIds = await step('record_sent_emails', async () => {
+      const rowIds: string[] = [];
+      for (const [i, recipient] of recipients.entries()) {
+        const id = await insertEmailAttempting({ kind: 'other', recipient, subject: 'E2E outbox', html: '<p>e2e</p>' });
+        if (i < 2) await markEmailSent(id, messageIds[i]);
+        rowIds.push(id);
+      }
+      return rowIds;
+    });
+
+    await step('forged_webhook_rejected', async () => {
+      const request = await buildResendWebhook('email.delivered', messageIds[0]);
+      assert(!!request, 'RESEND_WEBHOOK_SECRET is not set on this env');
+      const forged = { ...request!, rawBody: request!.rawBody.replace('email.delivered', 'email.bounced') };
+      const { result } = await handleEmailWebhook(forged);
+      assert(result === 'unauthorized', `tampered webhook should be unauthorized, got ${result}`);
+      const unsigned = await apiFetch(ctx, '/email/webhook', { method: 'POST', body: JSON.stringify({ type: 'email.bounced', data: { email_id: messageIds[0] } }) });
+      assert(unsigned.status === 401, `unsigned webhook should be 401, got ${unsigned.status}`);
+      return { forged: result, unsigned: unsigned.status };
+    });
+
+    await step('delivery_webhooks', async () => {
+      const delivered = await handleEmailWebhook((await buildResendWebhook('email.delivered', messageIds[0]))!);
+      const bounced = await handleEmailWebhook((await buildResendWebhook('email.bounced', messageIds[1], { bounce: { message: 'Mailbox does not exist' } }))!);
+      const lateDelivered = await handleEmailWebhook((await buildResendWebhook('email.delivered', messageIds[1]))!);
+      const unknown = await handleEmailWebhook((await buildResendWebhook('email.delivered', `e2e-${crypto.randomUUID()}`))!);
+      assert(delivered.result === 'applied' && bounced.result === 'applied' && lateDelivered.result === 'applied',
+        `webhooks not applied: ${delivered.result}, ${bounced.result}, ${lateDelivered.result}`);
+      assert(unknown.result === 'ignored', `webhook for an unknown email should be ignored, got ${unknown.result}`);
+      const { data } = await supabase.from('email_outbox').select('id, status, provider_status, last_error, delivered_at').in('id', rowIds.slice(0, 2));
+      const byId = new Map((data || []).map((r: any) => [r.id, r]));
+      assert(byId.get(rowIds[0])?.status === 'delivered' && !!byId.get(rowIds[0])?.delivered_at,
+        `expected delivered, got ${JSON.stringify(byId.get(rowIds[0]))}`);
+      assert(byId.get(rowIds[1])?.status === 'bounced' && byId.get(rowIds[1])?.last_error === 'Mailbox does not exist',
+        `the bounce should survive a late delivered, got ${JSON.stringify(byId.get(rowIds[1]))}`);
+      return { rows: data };
+    });
+
+    await step('transient_failure_waits_for_retry', async () => {
+      const retryAt = new Date(Date.now() + 5 * 60_000);
+      await markEmailFailed(rowIds[2], 'Resend 503', retryAt);
+      const dueNow = await getDueEmailRetries(new Date().toISOString(), 1000);
+      const dueLater = await getDueEmailRetries(new Date(retryAt.getTime() + 1000).toISOString(), 1000);
+      assert(!dueNow.includes(rowIds[2]), 'the retry should not be due before next_attempt_at');
+      assert(dueLater.includes(rowIds[2]), 'the retry should be due after next_attempt_at');
+      return { retryAt: retryAt.toISOString() };
+    });
+
+    await step('admin_routes_need_admin', async () => {
+      const list = await apiFetch(ctx, `/admin/email-outbox?recipient=${encodeURIComponent(recipients[0])}`);
+      const resend = await apiFetch(ctx, `/admin/email-outbox/${rowIds[0]}/resend`, { method: 'POST' });
+      assert(list.status === 401 && resend.status === 401, `expected 401 without a user token, got ${list.status}, ${resend.status}`);
+      return { list: list.status, resend: resend.status };
+    });
+
+    await step('cleanup', async () => {
+      await supabase.from('email_outbox').delete().in('recipient', recipients);
+    });
+  }
+});
+
 // ============================================================
 // EXPORTS
 // ============================================================
@@ -0,0 +1,251 @@
+/**
+ * email_outbox DB helpers: the delivery record of every email we send.
+ *
+ * sendEmail() (email.tsx) inserts a row in 'attempting' before calling
+ * Resend and marks it 'sent' (with the Resend email id) or 'failed'. Resend's
+ * webhooks then move it on to delivered / bounced / complained. A transient
+ * failure keeps next_attempt_at and is retried by the email-retry cron; an
+ * admin can resend any row. The email itself (subject, HTML, attachments) is
+ * stored so both send exactly what went out the first time.
+ */
+
+import { getGlobalSupabaseClient } from './global-supabase.tsx';
+
+const sb = () => getGlobalSupabaseClient();
+
+/** What the email was, for the admin view's filter; 'other' when the caller didn't say */
+export type EmailKind =
+  | 'magic-link'
+  | 'registration'
+  | 'welcome'
+  | 'onboarding'
+  | 'lead-magnet'
+  | 'contact-shared'
+  | 'waitlist-offer'
+  | 'match-updated'
+  | 'round-notification'
+  | 'other';
+
+export type EmailStatus = 'attempting' | 'sent' | 'delivered' | 'bounced' | 'complained' | 'failed';
+
+export interface StoredAttachment {
+  filename: string;
+  /** Base64-encoded file content */
+  content: string;
+  contentType?: string;
+}
+
+export interface EmailOutboxRow {
+  id: string;
+  kind: EmailKind;
+  recipient: string;
+  subject: string;
+  status: EmailStatus;
+  /** Resend's email id */
+  providerMessageId: string | null;
+  /** Last webhook event type, e.g. 'email.delivery_delayed' */
+  providerStatus: string | null;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  deliveredAt: string | null;
+  failedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A row with the email itself, for sending it again */
+export interface StoredEmail extends EmailOutboxRow {
+  html: string;
+  attachments: StoredAttachment[];
+}
+
+function mapEmail(r: any): EmailOutboxRow {
+  return {
+    id: r.id,
+    kind: r.kind,
+    recipient: r.recipient,
+    subject: r.subject,
+    status: r.status,
+    providerMessageId: r.provider_message_id,
+    providerStatus: r.provider_status,
+    attempts: r.attempts,
+    lastError: r.last_error,
+    nextAttemptAt: r.next_attempt_at,
+    sentAt: r.sent_at,
+    deliveredAt: r.delivered_at,
+    failedAt: r.failed_at,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+function mapStoredEmail(r: any): StoredEmail {
+  return { ...mapEmail(r), html: r.html, attachments: r.attachments || [] };
+}
+
+/** List columns: everything but the email body, which can hold magic-link tokens */
+const LIST_COLUMNS = 'id, kind, recipient, subject, status, provider_message_id, provider_status, attempts, last_error, next_attempt_at, sent_at, delivered_at, failed_at, created_at, updated_at';
+
+/** Record an email about to be handed to Resend; returns the row id */
+export async function insertEmailAttempting(p: {
+  kind: EmailKind;
+  recipient: string;
+  subject: string;
+  html: string;
+  attachments?: StoredAttachment[];
+}): Promise<string> {
+  const { data, error } = await sb()
+    .from('email_outbox')
+    .insert({
+      kind: p.kind,
+      recipient: p.recipient.trim().toLowerCase(),
+      subject: p.subject,
+      html: p.html,
+      attachments: p.attachments?.length ? p.attachments : null,
+      status: 'attempting',
+      attempts: 1,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+export async function markEmailSent(id: string, providerMessageId: string) {
+  const { error } = await sb()
+    .from('email_outbox')
+    .update({
+      status: 'sent',
+      provider_message_id: providerMessageId,
+      provider_status: null,
+      last_error: null,
+      next_attempt_at: null,
+      sent_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+/** `retryAt` set: a transient failure the retry cron picks up then; null: final */
+export async function markEmailFailed(id: string, lastError: string, retryAt: Date | null) {
+  const { error } = await sb()
+    .from('email_outbox')
+    .update({
+      status: 'failed',
+      last_error: lastError,
+      next_attempt_at: retryAt ? retryAt.toISOString() : null,
+      failed_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Take a row for another send: back to 'attempting' with one more attempt.
+ * Only from `fromStatuses`, so a cron retry and an admin resend of the same
+ * row can't both send it. Returns the row with its email, or null if another
+ * caller got there first (or it doesn't exist).
+ */
+export async function claimEmailForSend(id: string, fromStatuses: EmailStatus[]): Promise<StoredEmail | null> {
+  const { data: row, error: readError } = await sb()
+    .from('email_outbox')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (readError) throw readError;
+  if (!row || !fromStatuses.includes(row.status)) return null;
+
+  const { data, error } = await sb()
+    .from('email_outbox')
+    .update({ status: 'attempting', attempts: row.attempts + 1, next_attempt_at: null })
+    .eq('id', id)
+    .eq('status', row.status)
+    .eq('attempts', row.attempts)
+    .select('*');
+  if (error) throw error;
+  return data && data.length > 0 ? mapStoredEmail(data[0]) : null;
+}
+
+/** Ids of transient failures whose retry time has come, oldest first */
+export async function getDueEmailRetries(beforeIso: string, limit = 50): Promise<string[]> {
+  const { data, error } = await sb()
+    .from('email_outbox')
+    .select('id')
+    .eq('status', 'failed')
+    .lte('next_attempt_at', beforeIso)
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map((r: any) => r.id);
+}
+
+/**
+ * Apply one delivery event to the row with Resend email id
+ * `providerMessageId`. `status` null records the event without changing
+ * the status (sent, delivery delayed). A late "delivered" never overwrites
+ * a bounce or complaint. Returns false when no row has that id.
+ */
+export async function applyEmailDeliveryEvent(
+  providerMessageId: string,
+  status: 'delivered' | 'bounced' | 'complained' | 'failed' | null,
+  providerStatus: string,
+  detail: string | null,
+): Promise<boolean> {
+  const { data: row, error: readError } = await sb()
+    .from('email_outbox')
+    .select('id, status')
+    .eq('provider_message_id', providerMessageId)
+    .maybeSingle();
+  if (readError) throw readError;
+  if (!row) return false;
+
+  const update: Record<string, unknown> = { provider_status: providerStatus };
+  const now = new Date().toISOString();
+  if (status === 'delivered' && !['bounced', 'complained'].includes(row.status)) {
+    update.status = 'delivered';
+    update.delivered_at = now;
+  } else if (status === 'bounced' || status === 'failed') {
+    update.status = status;
+    update.failed_at = now;
+    if (detail) update.last_error = detail;
+  } else if (status === 'complained') {
+    update.status = 'complained';
+    if (detail) update.last_error = detail;
+  }
+  const { error } = await sb().from('email_outbox').update(update).eq('id', row.id);
+  if (error) throw error;
+  return true;
+}
+
+/** Newest first; `recipient` is an exact (case-insensitive) address */
+export async function listEmailOutbox(filters: { recipient?: string; status?: EmailStatus; kind?: EmailKind; limit?: number } = {}): Promise<EmailOutboxRow[]> {
+  let query = sb()
+    .from('email_outbox')
+    .select(LIST_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(filters.limit ?? 200);
+  if (filters.recipient) query = query.eq('recipient', filters.recipient.trim().toLowerCase());
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.kind) query = query.eq('kind', filters.kind);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(mapEmail);
+}
+
+/** Counts by status since `sinceIso`, keyed by status */
+export async function summarizeEmailOutbox(sinceIso: string): Promise<Record<string, number>> {
+  const statuses: EmailStatus[] = ['attempting', 'sent', 'delivered', 'bounced', 'complained', 'failed'];
+  const summary: Record<string, number> = {};
+  for (const status of statuses) {
+    const { count, error } = await sb()
+      .from('email_outbox')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status)
+      .gte('created_at', sinceIso);
+    if (error) throw error;
+    summary[status] = count || 0;
+  }
+  return summary;
+}
@@ -1,8 +1,29 @@
 /**
  * Email sending module using Resend API
  * https://resend.com/docs/api-reference/emails/send-email
+ *
+ * Every email goes into email_outbox (email-outbox.ts) with what happened
+ * to it. Resend reports delivery, bounces and complaints to /email/webhook
+ * (handleEmailWebhook, signed with RESEND_WEBHOOK_SECRET); transient
+ * failures are sent again by retryDueEmails() from the email-retry cron.
  */
 
+import { resolveTimeZone, formatZonedStartTime } from './time-helpers.tsx';
+import { buildCalendar, type CalendarEvent } from './ical.ts';
+import { errorLog } from './debug.tsx';
+import { safeEqual, type WebhookRequest } from './sms-provider.ts';
+import {
+  insertEmailAttempting,
+  markEmailSent,
+  markEmailFailed,
+  claimEmailForSend,
+  getDueEmailRetries,
+  applyEmailDeliveryEvent,
+  type EmailKind,
+  type EmailStatus,
+  type StoredEmail,
+} from './email-outbox.ts';
+
 const RESEND_API_URL = 'https://api.resend.com/emails';
 
 /**
@@ -43,10 +64,25 @@ function getResendApiKey(): string | null {
   return Deno.env.get('RESEND_API_KEY') || null;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file content */
+  content: string;
+  contentType?: string;
+}
+
 interface SendEmailParams {
   to: string;
   subject: string;
   html: string;
+  attachments?: EmailAttachment[];
+  /** Shown in the admin email outbox; defaults to 'other' */
+  kind?: EmailKind;
+  /**
+   * Set false when a late copy is no use or another outbox already resends
+   * it; the email is then only tried right away.
+   */
+  retry?: boolean;
 }
 
 interface SendEmailResult {
@@ -54,13 +90,20 @@ interface SendEmailResult {
   id?: string;
   error?: string;
   devMode?: boolean;
+  /** email_outbox row (absent when the outbox couldn't be written) */
+  outboxId?: string;
+  /** Failed for now; the email-retry cron sends it again at this time */
+  retryAt?: string;
 }
 
+/** When a transiently failed email is tried again, after the 1st, 2nd and 3rd send */
+const RETRY_DELAYS_MINUTES = [5, 30, 120];
+
 /**
- * Send via Resend with retry on 429 (rate limit) and 5xx. Mirrors the
- * pattern already used by sendSms() — 3 attempts, 200/600ms backoff.
- * Permanent failures (4xx other than 429) are NOT retried since Resend
- * usually means bad recipient or auth.
+ * Send via Resend and record it in email_outbox. A transient failure
+ * (rate limit, Resend 5xx, network) comes back as failed with `retryAt`
+ * and is sent again later by the email-retry cron. Writing the outbox
+ * never stops the email itself.
  */
 export async function sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
   const apiKey = getResendApiKey();
@@ -72,6 +115,65 @@ export async function sendEmail(params: SendEmailParams): Promise<SendEmailResul
     return { success: false, error: 'RESEND_API_KEY not configured', devMode: true };
   }
 
+  let outboxId: string | undefined;
+  try {
+    outboxId = await insertEmailAttempting({
+      kind: params.kind || 'other',
+      recipient: params.to,
+      subject: params.subject,
+      html: params.html,
+      attachments: params.attachments,
+    });
+  } catch (error) {
+    errorLog('email_outbox insert failed, sending anyway:', error);
+  }
+
+  const result = await postToResend(apiKey, params);
+  const retryAt = !result.success && result.transient && params.retry !== false
+    ? retryTimeAfter(1, new Date())
+    : null;
+  if (outboxId) await recordSendResult(outboxId, result, retryAt);
+  return {
+    success: result.success,
+    id: result.id,
+    error: result.error,
+    ...(outboxId ? { outboxId } : {}),
+    ...(retryAt ? { retryAt: retryAt.toISOString() } : {}),
+  };
+}
+
+function retryTimeAfter(attempts: number, now: Date): Date | null {
+  const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay * 60000);
+}
+
+async function recordSendResult(outboxId: string, result: ResendResult, retryAt: Date | null) {
+  try {
+    if (result.success) await markEmailSent(outboxId, result.id!);
+    else await markEmailFailed(outboxId, result.error || 'unknown', retryAt);
+  } catch (error) {
+    errorLog(`email_outbox update of ${outboxId} failed:`, error);
+  }
+}
+
+interface ResendResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+  /** Worth trying again later: 429, 5xx or no response */
+  transient?: boolean;
+}
+
+/**
+ * One email to Resend with retry on 429 (rate limit) and 5xx. Mirrors the
+ * pattern already used by sendSms() — 3 attempts, 200/600ms backoff.
+ * Permanent failures (4xx other than 429) are NOT retried since Resend
+ * usually means bad recipient or auth.
+ */
+async function postToResend(
+  apiKey: string,
+  params: { to: string; subject: string; html: string; attachments?: EmailAttachment[] },
+): Promise<ResendResult> {
   const MAX_ATTEMPTS = 3;
   let lastError = 'unknown';
 
@@ -88,6 +190,13 @@ export async function sendEmail(params: SendEmailParams): Promise<SendEmailResul
           to: [params.to],
           subject: params.subject,
           html: params.html,
+          ...(params.attachments?.length ? {
+            attachments: params.attachments.map(a => ({
+              filename: a.filename,
+              content: a.content,
+              content_type: a.contentType,
+            })),
+          } : {}),
         }),
       });
 
@@ -104,7 +213,7 @@ export async function sendEmail(params: SendEmailParams): Promise<SendEmailResul
       if (!isRetriable || attempt === MAX_ATTEMPTS) {
         if (response.status === 429) console.error(`⚠️ Resend 429 rate limit (gave up after ${attempt}):`, lastError);
         else console.error('❌ Resend API error:', data);
-        return { success: false, error: lastError };
+        return { success: false, error: lastError, transient: isRetriable };
       }
 
       const backoff = 200 * Math.pow(3, attempt - 1);
@@ -114,18 +223,174 @@ export async function sendEmail(params: SendEmailParams): Promise<SendEmailResul
       lastError = error instanceof Error ? error.message : String(error);
       if (attempt === MAX_ATTEMPTS) {
         console.error('💥 Email sending exception (gave up):', error);
-        return { success: false, error: lastError };
+        return { success: false, error: lastError, transient: true };
       }
       const backoff = 200 * Math.pow(3, attempt - 1);
       await new Promise(r => setTimeout(r, backoff));
     }
   }
 
-  return { success: false, error: lastError };
+  return { success: false, error: lastError, transient: true };
+}
+
+/** Send an outbox row's stored email again and record the outcome */
+async function sendStoredEmail(email: StoredEmail, apiKey: string, retry: boolean): Promise<SendEmailResult> {
+  const result = await postToResend(apiKey, {
+    to: email.recipient,
+    subject: email.subject,
+    html: email.html,
+    attachments: email.attachments,
+  });
+  const retryAt = !result.success && result.transient && retry ? retryTimeAfter(email.attempts, new Date()) : null;
+  await recordSendResult(email.id, result, retryAt);
+  return {
+    success: result.success,
+    id: result.id,
+    error: result.error,
+    outboxId: email.id,
+    ...(retryAt ? { retryAt: retryAt.toISOString() } : {}),
+  };
+}
+
+/**
+ * Email-retry cron: send again every transient failure whose time has come.
+ * Each row is claimed first, so overlapping runs don't send it twice.
+ */
+export async function retryDueEmails(now: Date = new Date()): Promise<Array<{ id: string; success: boolean; error?: string; retryAt?: string }>> {
+  const apiKey = getResendApiKey();
+  if (!apiKey) return [];
+  const results = [];
+  for (const id of await getDueEmailRetries(now.toISOString())) {
+    const email = await claimEmailForSend(id, ['failed']);
+    if (!email) continue;
+    const { success, error, retryAt } = await sendStoredEmail(email, apiKey, true);
+    results.push({ id, success, error, retryAt });
+  }
+  return results;
+}
+
+/**
+ * Admin resend of one outbox row, whatever became of it (except while it's
+ * being sent). Same row, one more attempt; a failure is not retried later.
+ */
+export async function resendOutboxEmail(id: string): Promise<SendEmailResult & { notFound?: boolean }> {
+  const apiKey = getResendApiKey();
+  if (!apiKey) return { success: false, error: 'RESEND_API_KEY not configured', devMode: true };
+  const resendable: EmailStatus[] = ['sent', 'delivered', 'bounced', 'complained', 'failed'];
+  const email = await claimEmailForSend(id, resendable);
+  if (!email) return { success: false, notFound: true, error: 'Email not found or being sent right now' };
+  return sendStoredEmail(email, apiKey, false);
+}
+
+// ============================================================
+// Delivery webhooks
+// ============================================================
+
+/** Resend event type → our status; null records the event only */
+const RESEND_EVENTS: Record<string, 'delivered' | 'bounced' | 'complained' | 'failed' | null> = {
+  'email.sent': null,
+  'email.delivery_delayed': null,
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.failed': 'failed',
+};
+
+/** Svix rejects webhooks more than 5 minutes off; so do we (replays) */
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+async function svixSignature(secret: string, id: string, timestamp: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw', base64ToBytes(secret.replace(/^whsec_/, '')), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${body}`)));
+  return btoa(String.fromCharCode(...mac));
+}
+
+/**
+ * Resend signs webhooks the Svix way: base64 HMAC-SHA256 of
+ * "{svix-id}.{svix-timestamp}.{body}" with the endpoint's signing secret
+ * (RESEND_WEBHOOK_SECRET, "whsec_..."); svix-signature lists "v1,<sig>"
+ * entries separated by spaces (several while a secret is being rotated).
+ */
+async function verifyResendWebhook(request: WebhookRequest, now: Date): Promise<boolean> {
+  const secret = Deno.env.get('RESEND_WEBHOOK_SECRET');
+  const id = request.headers['svix-id'];
+  const timestamp = request.headers['svix-timestamp'];
+  const signatures = request.headers['svix-signature'];
+  if (!secret || !id || !timestamp || !signatures) return false;
+  if (!(Math.abs(now.getTime() / 1000 - Number(timestamp)) <= WEBHOOK_TOLERANCE_SECONDS)) return false;
+  const expected = await svixSignature(secret, id, timestamp, request.rawBody);
+  return signatures.split(' ').some(entry => {
+    const [version, signature] = entry.split(',');
+    return version === 'v1' && !!signature && safeEqual(signature, expected);
+  });
+}
+
+/**
+ * Verify and apply one Resend webhook to the email_outbox row of its email.
+ * 'ignored' covers events we don't track (opens, clicks) and emails that
+ * aren't in the outbox.
+ */
+export async function handleEmailWebhook(
+  request: WebhookRequest,
+  now: Date = new Date(),
+): Promise<{ result: 'applied' | 'ignored' | 'unauthorized'; type?: string }> {
+  if (!(await verifyResendWebhook(request, now))) return { result: 'unauthorized' };
+  let event: any;
+  try {
+    event = JSON.parse(request.rawBody);
+  } catch {
+    return { result: 'ignored' };
+  }
+  const type = String(event?.type || '');
+  const messageId = event?.data?.email_id;
+  if (!(type in RESEND_EVENTS) || !messageId) return { result: 'ignored', type };
+  const detail = event.data.bounce?.message || event.data.failed?.reason || (type === 'email.complained' ? 'Marked as spam' : null);
+  const applied = await applyEmailDeliveryEvent(messageId, RESEND_EVENTS[type], type, detail);
+  return { result: applied ? 'applied' : 'ignored', type };
+}
+
+/**
+ * A webhook as Resend would send it for `messageId`, signed with
+ * RESEND_WEBHOOK_SECRET. For e2e scenarios; null when the secret isn't set.
+ */
+export async function buildResendWebhook(type: string, messageId: string, data: Record<string, unknown> = {}): Promise<WebhookRequest | null> {
+  const secret = Deno.env.get('RESEND_WEBHOOK_SECRET');
+  if (!secret) return null;
+  const id = `msg_${crypto.randomUUID()}`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const rawBody = JSON.stringify({ type, created_at: new Date().toISOString(), data: { email_id: messageId, ...data } });
+  const base = Deno.env.get('SUPABASE_URL') || '';
+  return {
+    url: `${base}/functions/v1/make-server-ce05600a/email/webhook`,
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'svix-id': id,
+      'svix-timestamp': timestamp,
+      'svix-signature': `v1,${await svixSignature(secret, id, timestamp, rawBody)}`,
+    },
+    rawBody,
+    query: {},
+  };
+}
+
+/** UTF-8 safe base64 (btoa alone only takes Latin-1) */
+function toBase64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
 }
 
 /**
- * Generate registration confirmation email HTML
+ * Generate registration confirmation email HTML, with one .ics attachment per
+ * registered round (`calendarEvents`) and a link to the participant's feed
  */
 export function buildRegistrationEmail(params: {
   firstName: string;
@@ -134,17 +399,37 @@ export function buildRegistrationEmail(params: {
   myRoundsUrl: string;
   eventUrl: string;
   sessions?: any[];
-}): { subject: string; html: string } {
-  const { firstName, lastName, eventName, myRoundsUrl, eventUrl, sessions } = params;
+  calendarEvents?: CalendarEvent[];
+  calendarFeedUrl?: string;
+}): { subject: string; html: string; attachments: EmailAttachment[] } {
+  const { firstName, lastName, eventName, myRoundsUrl, eventUrl, sessions, calendarEvents, calendarFeedUrl } = params;
 
   // HTML-escape every organizer-controlled field. Subject is plain text → safe.
+  // Round times are the session's wall-clock time, labelled with its zone;
+  // rounds that were full are marked as waitlisted.
   const sessionsList = sessions && sessions.length > 0
     ? sessions.map(s => {
-        const rounds = s.rounds?.map((r: any) => escapeHtml(r.roundName || r.startTime)).join(', ') || '';
+        const timeZone = resolveTimeZone(s.timeZone);
+        const rounds = s.rounds?.map((r: any) => {
+          const time = r.roundName && r.startTime ? ` (${formatZonedStartTime(r.date || s.date, r.startTime, timeZone)})` : '';
+          const waitlist = r.waitlisted ? ' – on the waitlist' : '';
+          return escapeHtml((r.roundName || r.startTime || 'Round') + time + waitlist);
+        }).join(', ') || '';
         return `<li><strong>${escapeHtml(s.sessionName || 'Round')}</strong>${rounds ? ` – ${rounds}` : ''}</li>`;
       }).join('')
     : '<li>Your selected rounds</li>';
 
+  const attachments = (calendarEvents || []).map((event, i) => ({
+    filename: calendarEvents!.length === 1 ? 'round.ics' : `round-${i + 1}.ics`,
+    content: toBase64(buildCalendar({ name: eventName || 'Wonderelo', events: [event] })),
+    contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+  }));
+
+  // webcal:// opens the calendar app's "subscribe" dialog
+  const calendarLink = calendarFeedUrl
+    ? `<p style="margin: 16px 0 0 0; color: #666; font-size: 14px;">Keep your calendar up to date: <a href="${calendarFeedUrl.replace(/^https?:\/\//, 'webcal://')}" style="color: #666;">subscribe to your rounds</a>.</p>`
+    : '';
+
   const subject = `You're registered for ${eventName || 'the networking event'}!`;
 
   const html = `
@@ -169,6 +454,7 @@ export function buildRegistrationEmail(params: {
     <p style="margin: 0 0 16px 0;">Access your personal dashboard anytime:</p>
 
     <a href="${myRoundsUrl}" style="display: inline-block; background: #1a1a1a; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 500;">My Rounds Dashboard</a>
+    ${calendarLink}
 
     <p style="margin: 24px 0 0 0; color: #888; font-size: 13px;">
       Bookmark this link – it's your personal access to the event.<br>
@@ -182,7 +468,7 @@ export function buildRegistrationEmail(params: {
 </body>
 </html>`;
 
-  return { subject, html };
+  return { subject, html, attachments };
 }
 
 /**
@@ -234,6 +520,93 @@ export function buildContactSharedEmail(params: {
   return { subject, html };
 }
 
+/**
+ * Email sent when a spot opens up for someone on a round's waitlist.
+ * The spot is held for them until `deadline`.
+ */
+export function buildWaitlistOfferEmail(params: {
+  firstName: string;
+  sessionName: string;
+  roundName: string;
+  roundTime: string;
+  deadline: string;
+  claimUrl: string;
+}): { subject: string; html: string } {
+  const { firstName, sessionName, roundName, roundTime, deadline, claimUrl } = params;
+
+  const subject = `A spot opened up in ${sessionName}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1a1a1a; background-color: #f9fafb;">
+  <div style="background: white; border-radius: 12px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+    <h1 style="font-size: 24px; margin: 0 0 8px 0;">You're off the waitlist! 🎟️</h1>
+    <p style="color: #666; margin: 0 0 24px 0;">Hi ${escapeHtml(firstName)},</p>
+
+    <p style="margin: 0 0 16px 0;">A spot opened up in <strong>${escapeHtml(sessionName)}</strong> – ${escapeHtml(roundName)} (${escapeHtml(roundTime)}).</p>
+
+    <p style="margin: 0 0 24px 0;">We're holding it for you until <strong>${escapeHtml(deadline)}</strong>. After that it goes to the next person in line.</p>
+
+    <a href="${claimUrl}" style="display: inline-block; background: #1a1a1a; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 500;">Claim my spot</a>
+
+    <p style="margin: 24px 0 0 0; color: #888; font-size: 13px;">
+      Can't make it? Just ignore this email.
+    </p>
+  </div>
+
+  <p style="text-align: center; color: #aaa; font-size: 12px; margin-top: 24px;">
+    Sent by Wonderelo · Networking made simple
+  </p>
+</body>
+</html>`;
+
+  return { subject, html };
+}
+
+/**
+ * Email sent when an organizer changes someone's group after matching
+ * (match-editing.ts) and we have no phone number to text them.
+ */
+export function buildMatchUpdatedEmail(params: {
+  firstName: string;
+  sessionName: string;
+  matchUrl: string;
+}): { subject: string; html: string } {
+  const { firstName, sessionName, matchUrl } = params;
+
+  const subject = `Your match for "${sessionName}" has changed`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1a1a1a; background-color: #f9fafb;">
+  <div style="background: white; border-radius: 12px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+    <h1 style="font-size: 24px; margin: 0 0 8px 0;">Your match has changed 🔁</h1>
+    <p style="color: #666; margin: 0 0 24px 0;">Hi ${escapeHtml(firstName)},</p>
+
+    <p style="margin: 0 0 24px 0;">The organizer of <strong>${escapeHtml(sessionName)}</strong> has updated the groups. You're meeting someone new – check who and where before you head over.</p>
+
+    <a href="${matchUrl}" style="display: inline-block; background: #1a1a1a; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 500;">See my match</a>
+  </div>
+
+  <p style="text-align: center; color: #aaa; font-size: 12px; margin-top: 24px;">
+    Sent by Wonderelo · Networking made simple
+  </p>
+</body>
+</html>`;
+
+  return { subject, html };
+}
+
 export function buildMagicLinkEmail(params: {
   firstName?: string;
   magicLink: string;
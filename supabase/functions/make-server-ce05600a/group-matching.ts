@@ -0,0 +1,183 @@
+/**
+ * GROUP MATCHING (groupSize ≥ 3)
+ * Roundtable formats: hundreds to thousands of attendees in groups of 3–8.
+ *
+ *   1. Seeded draft — the hardest-to-place participants (most hard-constraint
+ *      conflicts) seed one group each; the groups then take turns in snake
+ *      order picking the free participant that fits their current members
+ *      best. All groups grow at the same pace, so the last ones aren't stuck
+ *      with whoever is left over. O(n² · groupSize).
+ *   2. Local search — swap two members of different groups, or move one from
+ *      a larger group to a smaller one, whenever that raises the total score.
+ *      A fit table (participant × group → sum of pair scores with its
+ *      members) makes every candidate move O(1) to evaluate; applying one
+ *      updates the table in O(n). Passes are O(n²) and run until nothing
+ *      improves or the deadline passes.
+ *
+ * Hard constraints are never broken: a FORBIDDEN link makes a fit negative,
+ * and negative fits are never picked or moved into.
+ *
+ * Sizes: floor(n / groupSize) groups; the remainder joins groups one each
+ * (as the odd participant joins a pair), so sizes differ by at most one.
+ *
+ * Pure functions over the score matrix — building matches lives in matching.tsx.
+ */
+
+export interface GroupFormation {
+  /** Member indices (into the score matrix) per group */
+  groups: number[][];
+  /** Sum of pair scores over all groups */
+  totalScore: number;
+  /** Swaps and moves the local search applied */
+  improvements: number;
+}
+
+/**
+ * @param scoreMatrix - symmetric n×n pair scores, FORBIDDEN (< 0) for pairs that may not meet
+ * @param deadline - Date.now() value after which the local search stops
+ */
+export function formGroups(
+  scoreMatrix: Int8Array,
+  n: number,
+  groupSize: number,
+  maxScore: number,
+  deadline: number,
+): GroupFormation {
+  const groupCount = Math.floor(n / groupSize);
+  if (groupCount === 0) return { groups: [], totalScore: 0, improvements: 0 };
+
+  const maxGroupSize = groupSize + 1;
+  const extraSeats = Math.min(n - groupCount * groupSize, groupCount);
+  const capacity = new Int32Array(groupCount).fill(groupSize);
+  for (let k = 0; k < extraSeats; k++) capacity[k]++;
+
+  // One FORBIDDEN link outweighs any sum of allowed scores in a group
+  const penalty = -(maxScore * maxGroupSize + 1);
+  const weight = (i: number, j: number) => {
+    const s = scoreMatrix[i * n + j];
+    return s < 0 ? penalty : s;
+  };
+
+  const conflicts = new Int32Array(n);
+  for (let i = 0; i < n; i++) {
+    const row = i * n;
+    for (let j = i + 1; j < n; j++) {
+      if (scoreMatrix[row + j] < 0) { conflicts[i]++; conflicts[j]++; }
+    }
+  }
+
+  // fit[p * groupCount + k] = sum of weight(p, m) over members m of group k (m ≠ p)
+  const fit = new Int32Array(n * groupCount);
+  const groupOf = new Int32Array(n).fill(-1);
+  const members: number[][] = Array.from({ length: groupCount }, () => []);
+
+  const join = (p: number, k: number) => {
+    members[k].push(p);
+    groupOf[p] = k;
+    for (let q = 0; q < n; q++) if (q !== p) fit[q * groupCount + k] += weight(q, p);
+  };
+  const leave = (p: number) => {
+    const k = groupOf[p];
+    const list = members[k];
+    list.splice(list.indexOf(p), 1);
+    groupOf[p] = -1;
+    for (let q = 0; q < n; q++) if (q !== p) fit[q * groupCount + k] -= weight(q, p);
+  };
+
+  // --- 1. Seeded draft ---
+  const byDifficulty = Array.from({ length: n }, (_, i) => i)
+    .sort((a, b) => conflicts[b] - conflicts[a] || a - b);
+  for (let k = 0; k < groupCount; k++) join(byDifficulty[k], k);
+
+  for (let pick = 1; pick < maxGroupSize; pick++) {
+    for (let t = 0; t < groupCount; t++) {
+      const k = pick % 2 === 1 ? t : groupCount - 1 - t;
+      if (members[k].length >= capacity[k]) continue;
+
+      // Best fit; ties go to the harder-to-place participant
+      let best = -1;
+      let bestFit = -1;
+      for (let q = 0; q < n; q++) {
+        if (groupOf[q] !== -1) continue;
+        const f = fit[q * groupCount + k];
+        if (f > bestFit || (f === bestFit && f >= 0 && conflicts[q] > conflicts[best])) {
+          best = q;
+          bestFit = f;
+        }
+      }
+      if (best !== -1) join(best, k);
+    }
+  }
+
+  // A seed nobody could join (hard constraints) is no group
+  for (let k = 0; k < groupCount; k++) {
+    if (members[k].length === 1) leave(members[k][0]);
+  }
+
+  // --- 2. Local search ---
+  let improvements = 0;
+  let improved = true;
+  while (improved && Date.now() < deadline) {
+    improved = false;
+
+    for (let a = 0; a < n; a++) {
+      if ((a & 63) === 0 && Date.now() >= deadline) break;
+      const A = groupOf[a];
+      if (A === -1) continue;
+      const fitA = fit[a * groupCount + A];
+
+      // Move to a smaller group (sizes stay within one of each other)
+      let moved = false;
+      for (let B = 0; B < groupCount; B++) {
+        if (B === A || members[B].length === 0 || members[B].length >= members[A].length) continue;
+        const fitB = fit[a * groupCount + B];
+        if (fitB >= 0 && fitB > fitA) {
+          leave(a);
+          join(a, B);
+          improvements++;
+          improved = moved = true;
+          break;
+        }
+      }
+      if (moved) continue;
+
+      // Swap with a member of another group
+      for (let b = a + 1; b < n; b++) {
+        const B = groupOf[b];
+        if (B === -1 || B === A) continue;
+        const w = weight(a, b);
+        const bInA = fit[b * groupCount + A] - w;
+        const aInB = fit[a * groupCount + B] - w;
+        if (bInA < 0 || aInB < 0) continue;
+        if (bInA + aInB > fitA + fit[b * groupCount + B]) {
+          leave(a);
+          leave(b);
+          join(a, B);
+          join(b, A);
+          improvements++;
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  // Whoever is still free may take a spare seat they're allowed in
+  for (let p = 0; p < n; p++) {
+    if (groupOf[p] !== -1) continue;
+    let best = -1;
+    for (let k = 0; k < groupCount; k++) {
+      const size = members[k].length;
+      if (size < 2 || size >= maxGroupSize || fit[p * groupCount + k] < 0) continue;
+      if (best === -1 || fit[p * groupCount + k] > fit[p * groupCount + best]) best = k;
+    }
+    if (best !== -1) join(p, best);
+  }
+
+  const groups = members.filter(list => list.length >= 2);
+  let totalScore = 0;
+  for (const list of groups) {
+    for (const p of list) totalScore += fit[p * groupCount + groupOf[p]];
+  }
+  return { groups, totalScore: totalScore / 2, improvements };
+}
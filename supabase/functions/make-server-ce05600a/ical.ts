@@ -0,0 +1,116 @@
+/**
+ * ICALENDAR
+ * RFC 5545 output for round calendar entries: the .ics attachments of the
+ * registration email and the subscribable participant / organizer feeds.
+ *
+ * One VEVENT per round, with a UID that never changes (round-<id>@wonderelo.com).
+ * Calendar apps match updates by UID and keep the version with the higher
+ * SEQUENCE, so a moved or cancelled round must be re-published with a bumped
+ * SEQUENCE (calendar-feeds.ts keeps the counter) — a cancellation is the same
+ * event with STATUS:CANCELLED.
+ *
+ * Times are written in UTC (…Z), so no VTIMEZONE blocks are needed; the
+ * calendar app shows them in the viewer's zone. Pure functions only.
+ */
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  /** ISO instants */
+  start: string;
+  end: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status: 'CONFIRMED' | 'CANCELLED';
+  /** ISO instant of the last change */
+  lastModified?: string | null;
+}
+
+const PRODUCT_ID = '-//Wonderelo//Networking Rounds//EN';
+/** RFC 5545 §3.1: lines longer than 75 octets must be folded */
+const MAX_LINE_OCTETS = 75;
+
+export function calendarEventUid(roundId: string): string {
+  return `round-${roundId}@wonderelo.com`;
+}
+
+/** 2026-05-07T16:00:00.000Z → 20260507T160000Z */
+export function formatIcalDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11) */
+export function escapeIcalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold a content line at 75 octets without splitting a UTF-8 character */
+export function foldIcalLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcalDateTime(event.start)}`,
+    `DTEND:${formatIcalDateTime(event.end)}`,
+    `SUMMARY:${escapeIcalText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcalText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcalText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcalDateTime(event.lastModified)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * A VCALENDAR with the given events. `name` becomes the calendar's title in
+ * apps that subscribe to a feed; `now` is the DTSTAMP of every event.
+ */
+export function buildCalendar(params: { name: string; events: CalendarEvent[]; now?: Date }): string {
+  const stamp = formatIcalDateTime((params.now || new Date()).toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcalText(params.name)}`,
+    // Ask subscribed clients to refresh hourly (Apple / Outlook honour these)
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...params.events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcalLine).join('\r\n') + '\r\n';
+}
@@ -10,16 +10,28 @@ import { getGlobalSupabaseClient } from './global-supabase.tsx';
 import * as db from './db.ts';
 import { errorLog, debugLog } from './debug.tsx';
 import { getParticipantDashboard, updateSessionStatusBasedOnRounds } from './participant-dashboard.tsx';
-import { getCurrentTime, parseRoundStartTime } from './time-helpers.tsx';
+import { getCurrentTime, parseRoundStartTime, resolveTimeZone, isValidTimeZone } from './time-helpers.tsx';
 import { registerParticipant } from './route-registration.tsx';
 import { registerParticipantRoutes } from './route-participants.tsx';
-import { sendEmail, buildRegistrationEmail, buildMagicLinkEmail, buildLeadMagnetEmail, buildWelcomeEmail, buildOnboardingEmail1_CreateRound, buildOnboardingEmail2_CustomizeUrl, buildOnboardingEmail3_PublishRound, buildOnboardingEmail4_FirstParticipant } from './email.tsx';
-import { createMatchesForRound } from './matching.tsx';
-import { sendSms, renderSmsTemplate, verifyTwilioSignature } from './sms.tsx';
+import { sendEmail, handleEmailWebhook, retryDueEmails, resendOutboxEmail, buildRegistrationEmail, buildMagicLinkEmail, buildLeadMagnetEmail, buildWelcomeEmail, buildOnboardingEmail1_CreateRound, buildOnboardingEmail2_CustomizeUrl, buildOnboardingEmail3_PublishRound, buildOnboardingEmail4_FirstParticipant } from './email.tsx';
+import { createMatchesForRound, rematchAfterNoShow, dryRunMatching } from './matching.tsx';
+import { sendSms, sendBulkSms, renderSmsTemplate, handleSmsStatusCallback, getSmsProviderByName } from './sms.tsx';
+import { handleInboundSms } from './sms-inbound.ts';
 import { registerStripeRoutes, checkCapacity, consumeEventCredit, refundEventCredit } from './route-stripe.tsx';
 import { registerCrmRoutes } from './route-crm.ts';
 import { registerI18nRoutes } from './route-i18n.ts';
+import { registerCalendarRoutes } from './route-calendar.ts';
+import { registerWaitlistRoutes } from './route-waitlist.ts';
+import { registerPushRoutes } from './route-push.ts';
+import { applyMatchEdit, getMatchEditingDeadline, getMatchEditShapeError } from './match-editing.ts';
+import { getMeetingPointCapacity } from './meeting-points.ts';
+import { resolveRegistrationQuestions, formatAnswers } from './registration-questions.ts';
 import { getScenarioList, runScenario } from './e2e-scenarios.ts';
+import { createSeriesFromSession, updateFutureOccurrences, registerSeriesSubscribers, skipOccurrence, materializeSeries, type SkippedOccurrence } from './session-series.ts';
+import { cancelCalendarEvents } from './calendar-feeds.ts';
+import { getRoundAvailability, mustJoinWaitlist, getSeatsLeft, getSessionSeatLimit } from './waitlist.ts';
+import { confirmAttendance, cancelAttendance } from './attendance.ts';
+import { resolveScheduleRules, validateSessionSchedule } from './session-rules.ts';
 
 const app = new Hono();
 
@@ -37,6 +49,11 @@ function getSupabase() {
   return getGlobalSupabaseClient();
 }
 
+// Look-back for cross-session memory: unset (null) means the default 90 days
+function isValidMeetingMemoryDays(value: unknown): boolean {
+  return value == null || (Number.isInteger(value) && (value as number) > 0);
+}
+
 // ============================================
 // CRITICAL ROUTES
 // ============================================
@@ -142,7 +159,7 @@ app.post('/make-server-ce05600a/signup', async (c) => {
       dashboardUrl,
       eventPageUrl,
     });
-    sendEmail({ to: email, subject: welcomeEmail.subject, html: welcomeEmail.html })
+    sendEmail({ to: email, subject: welcomeEmail.subject, html: welcomeEmail.html, kind: 'welcome' })
       .then(result => {
         if (result.success) {
           console.log('✅ Welcome email sent to', email);
@@ -301,6 +318,15 @@ app.get('/make-server-ce05600a/sessions', async (c) => {
       }
     }
 
+    // Occurrences carry their series' rule so the form can show and edit it
+    const seriesIds = [...new Set(sessions.map((s: any) => s.seriesId).filter(Boolean))] as string[];
+    for (const seriesId of seriesIds) {
+      const series = await db.getSeriesById(seriesId);
+      for (const session of sessions) {
+        if (session.seriesId === seriesId) session.recurrence = series?.recurrence || null;
+      }
+    }
+
     return c.json({ success: true, sessions });
     
   } catch (error) {
@@ -329,19 +355,37 @@ app.post('/make-server-ce05600a/sessions', async (c) => {
     
     // Generate session ID if not provided
     const sessionId = sessionData.id || `${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+    if (sessionData.timeZone && !isValidTimeZone(sessionData.timeZone)) {
+      return c.json({ error: `Unknown time zone: ${sessionData.timeZone}` }, 400);
+    }
+    if (!isValidMeetingMemoryDays(sessionData.meetingMemoryDays)) {
+      return c.json({ error: 'meetingMemoryDays must be a positive whole number of days' }, 400);
+    }
+    // No time zone picked → the organizer's default (then CET, see resolveTimeZone)
+    const timeZone = sessionData.timeZone || (await db.getOrganizerById(user.id))?.defaultTimeZone || null;
     
     // Add metadata
     const newSession = {
       ...sessionData,
       id: sessionId,
       userId: user.id,
+      timeZone,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
+
+    // Same schedule limits as the session form — API clients and stale tabs included
+    const scheduleRules = resolveScheduleRules(await db.getAdminSetting('system_parameters'));
+    const scheduleErrors = validateSessionSchedule(newSession, scheduleRules, getCurrentTime(c));
+    if (scheduleErrors.length > 0) {
+      debugLog('❌ Invalid schedule for new session:', scheduleErrors);
+      return c.json({ error: 'invalid_schedule', message: scheduleErrors[0].message, fieldErrors: scheduleErrors }, 400);
+    }
     
     // ── Capacity check when publishing/scheduling ──
     if (newSession.status === 'published' || newSession.status === 'scheduled') {
-      const maxParticipants = newSession.maxParticipants || 10;
+      const maxParticipants = getSessionSeatLimit(newSession);
       try {
         const capacityResult = await checkCapacity(user.id, maxParticipants);
         if (!capacityResult.allowed) {
@@ -374,6 +418,25 @@ app.post('/make-server-ce05600a/sessions', async (c) => {
     // Schedule SMS reminders (published sessions only; fn is idempotent + handles drafts)
     scheduleSmsForSession(sessionId).catch((e) => errorLog('scheduleSmsForSession after create', e));
 
+    // Recurring: this session becomes the first occurrence of a series.
+    // Older clients only send `frequency` — that means every day/week/month.
+    const recurrence = sessionData.recurrence ?? (sessionData.frequency ? { frequency: sessionData.frequency } : null);
+    if (sessionData.isRecurring && recurrence) {
+      try {
+        const created = await db.getSessionById(sessionId);
+        const seriesId = await createSeriesFromSession(created, recurrence, getCurrentTime(c), scheduleSmsForSession);
+        if (seriesId) {
+          debugLog('🔁 Created series for session:', sessionId, seriesId);
+          return c.json({
+            success: true,
+            session: { ...(await db.getSessionById(sessionId)), recurrence: (await db.getSeriesById(seriesId))?.recurrence },
+          });
+        }
+      } catch (seriesErr) {
+        errorLog('Failed to create series for session:', seriesErr);
+      }
+    }
+
     return c.json({
       success: true,
       session: newSession
@@ -409,6 +472,20 @@ app.put('/make-server-ce05600a/sessions/:sessionId', async (c) => {
       return c.json({ error: 'Session not found' }, 404);
     }
 
+    if (body.timeZone && !isValidTimeZone(body.timeZone)) {
+      return c.json({ error: `Unknown time zone: ${body.timeZone}` }, 400);
+    }
+    if (!isValidMeetingMemoryDays(body.meetingMemoryDays)) {
+      return c.json({ error: 'meetingMemoryDays must be a positive whole number of days' }, 400);
+    }
+
+    const scheduleRules = resolveScheduleRules(await db.getAdminSetting('system_parameters'));
+    const scheduleErrors = validateSessionSchedule({ ...existingSession, ...body }, scheduleRules, getCurrentTime(c), existingSession);
+    if (scheduleErrors.length > 0) {
+      debugLog('❌ Invalid schedule for session update:', sessionId, scheduleErrors);
+      return c.json({ error: 'invalid_schedule', message: scheduleErrors[0].message, fieldErrors: scheduleErrors }, 400);
+    }
+
     const oldStatus = existingSession.status;
     const newStatus = body.status;
     const isBecomingLive = (newStatus === 'published' || newStatus === 'scheduled') && oldStatus !== 'published' && oldStatus !== 'scheduled';
@@ -416,7 +493,7 @@ app.put('/make-server-ce05600a/sessions/:sessionId', async (c) => {
 
     // ── Capacity check when transitioning to published/scheduled ──
     if (isBecomingLive) {
-      const maxParticipants = body.maxParticipants || existingSession.maxParticipants || 10;
+      const maxParticipants = getSessionSeatLimit({ ...existingSession, ...body });
       try {
         const capacityResult = await checkCapacity(user.id, maxParticipants);
         if (!capacityResult.allowed) {
@@ -455,17 +532,64 @@ app.put('/make-server-ce05600a/sessions/:sessionId', async (c) => {
       }
     }
 
-    await db.updateSession(sessionId, body);
-    const updatedSession = await db.getSessionById(sessionId);
+    // Series membership is managed here, never taken from the client
+    const { scope, recurrence: rawRecurrence, seriesId: _seriesId, occurrenceDate: _occurrenceDate, ...updates } = body;
+    const recurrence = rawRecurrence ?? (body.frequency ? { frequency: body.frequency } : undefined);
+
+    // Removed rounds vanish with their registrations — cancel their calendar entries first
+    if (Array.isArray(updates.rounds)) {
+      const keptRoundIds = new Set(updates.rounds.map((r: any) => r.id));
+      const removedRoundIds = (existingSession.rounds || []).map((r: any) => r.id).filter((id: string) => !keptRoundIds.has(id));
+      if (removedRoundIds.length > 0) {
+        await cancelCalendarEvents(sessionId, removedRoundIds)
+          .catch((e) => errorLog('cancelCalendarEvents for removed rounds', e));
+      }
+    }
+
+    await db.updateSession(sessionId, updates);
+    let updatedSession = await db.getSessionById(sessionId);
 
     debugLog('✅ Updated session:', sessionId);
 
     // Re-schedule SMS reminders: cancels old + creates new based on new state
     scheduleSmsForSession(sessionId).catch((e) => errorLog('scheduleSmsForSession after update', e));
 
+    // Recurring sessions: "this occurrence" (default) vs "all future occurrences"
+    let skippedOccurrences: SkippedOccurrence[] = [];
+    let seriesError: string | null = null;
+    try {
+      if (updatedSession?.seriesId) {
+        if (scope === 'future') {
+          skippedOccurrences = await updateFutureOccurrences(
+            updatedSession,
+            body.isRecurring === false ? null : recurrence,
+            getCurrentTime(c),
+            scheduleSmsForSession,
+          );
+        }
+        if (isBecomingLive) await registerSeriesSubscribers(updatedSession, getCurrentTime(c));
+      } else if (body.isRecurring && recurrence) {
+        await createSeriesFromSession(updatedSession, recurrence, getCurrentTime(c), scheduleSmsForSession);
+      }
+      updatedSession = await db.getSessionById(sessionId);
+      if (updatedSession?.seriesId) {
+        updatedSession.recurrence = (await db.getSeriesById(updatedSession.seriesId))?.recurrence || null;
+      }
+    } catch (seriesErr: any) {
+      errorLog('Failed to update series for session:', seriesErr);
+      // The session itself is saved; the organizer must still hear the series part wasn't
+      seriesError = seriesErr?.code === '23505'
+        ? 'Another occurrence of this series is already on that date'
+        : `Updating the series failed: ${seriesErr instanceof Error ? seriesErr.message : String(seriesErr?.message || seriesErr)}`;
+    }
+
     return c.json({
       success: true,
-      session: updatedSession
+      session: updatedSession,
+      // "All future" edits: later occurrences left as they were, with why
+      skippedOccurrences,
+      // Set when the series update (other occurrences, new series) failed
+      seriesError,
     });
 
   } catch (error) {
@@ -505,6 +629,17 @@ app.delete('/make-server-ce05600a/sessions/:sessionId', async (c) => {
       debugLog('⚠️ Credit refund on delete failed (non-blocking):', refundErr);
     }
 
+    // A deleted occurrence stays deleted: its date becomes a series exception
+    try {
+      const session = await db.getSessionById(sessionId);
+      if (session?.seriesId && session.userId === user.id) await skipOccurrence(session);
+    } catch (seriesErr) {
+      errorLog('Failed to record series exception on delete:', seriesErr);
+    }
+
+    await cancelCalendarEvents(sessionId)
+      .catch((e) => errorLog('cancelCalendarEvents on delete', e));
+
     await db.deleteSession(sessionId);
 
     debugLog('✅ Deleted session:', sessionId);
@@ -520,6 +655,314 @@ app.delete('/make-server-ce05600a/sessions/:sessionId', async (c) => {
   }
 });
 
+// Organizer round view: registrations of one round (GET)
+app.get('/make-server-ce05600a/rounds/:roundId/participants', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error } = await getSupabase().auth.getUser(token);
+
+    if (error || !user) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+
+    const roundId = c.req.param('roundId');
+    const sessionId = c.req.query('sessionId');
+    const session = sessionId ? await db.getSessionById(sessionId) : null;
+    if (!session || session.userId !== user.id) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+
+    const registrations = await db.getRegistrationsForRound(sessionId!, roundId);
+    const questions = resolveRegistrationQuestions(session.registrationQuestions);
+    const participants = registrations.map((r: any) => ({
+      id: r.participantId,
+      roundId: r.roundId,
+      sessionId: r.sessionId,
+      name: [r.firstName, r.lastName].filter(Boolean).join(' '),
+      email: r.email || '',
+      phone: r.phone || undefined,
+      registeredAt: r.registeredAt,
+      status: r.status,
+      teamId: r.team || undefined,
+      role: r.role || undefined,
+      topicIds: r.topics || undefined,
+      answers: formatAnswers(questions, r.answers),
+      confirmedAt: r.confirmedAt || undefined,
+      matchId: r.matchId || undefined,
+      matchPartnerNames: r.matchPartnerNames || undefined,
+      meetingPointId: r.meetingPointId || undefined,
+    }));
+
+    // Manual match edits are possible from matching until networking starts
+    const round = session.rounds?.find((r: any) => r.id === roundId);
+    const editingClosesAt = await getMatchEditingDeadline(session, round);
+    const matchEditing = {
+      open: participants.some((p: any) => p.matchId)
+        && (!editingClosesAt || getCurrentTime(c) < editingClosesAt),
+      closesAt: editingClosesAt ? editingClosesAt.toISOString() : null,
+    };
+
+    // Groups expected at once (actual groups once matched) vs. meeting point capacity
+    const groupSize = round?.groupSize || session.groupSize || 2;
+    const matchIds = new Set(participants.map((p: any) => p.matchId).filter(Boolean));
+    const expectedGroups = matchIds.size > 0
+      ? matchIds.size
+      : Math.floor(participants.filter((p: any) => p.status === 'confirmed').length / groupSize);
+    const meetingPoints = (round?.meetingPoints?.length > 0 ? round.meetingPoints : session.meetingPoints) || [];
+    const meetingPointCapacity = { expectedGroups, ...getMeetingPointCapacity(meetingPoints, expectedGroups) };
+
+    // Waitlist of limited sessions, in queue order (claimed / left entries are history)
+    const waitlist = (await db.getWaitlistForRound(roundId))
+      .filter(e => e.status === 'waiting' || e.status === 'offered')
+      .map((e: any, index: number) => ({
+        id: e.participantId,
+        position: index + 1,
+        name: [e.firstName, e.lastName].filter(Boolean).join(' '),
+        email: e.email || '',
+        phone: e.phone || undefined,
+        joinedAt: e.createdAt,
+        status: e.status,
+        offerExpiresAt: e.offerExpiresAt || undefined,
+      }));
+
+    return c.json({ participants, matchEditing, meetingPointCapacity, waitlist });
+
+  } catch (error) {
+    errorLog('Error fetching round participants:', error);
+    return c.json({ error: 'Failed to fetch round participants' }, 500);
+  }
+});
+
+// Organizer round view: matches with their score explanation (GET)
+app.get('/make-server-ce05600a/rounds/:roundId/matches', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error } = await getSupabase().auth.getUser(token);
+
+    if (error || !user) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+
+    const roundId = c.req.param('roundId');
+    const sessionId = c.req.query('sessionId');
+    const session = sessionId ? await db.getSessionById(sessionId) : null;
+    if (!session || session.userId !== user.id) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+
+    const rows = await db.getMatchesByRound(sessionId!, roundId);
+    const matches = rows.map((m: any) => {
+      const statuses = m.members.map((member: any) => member.status);
+      const status = statuses.length > 0 && statuses.every((st: string) => st === 'met') ? 'completed'
+        : statuses.includes('missed') ? 'no-show-reported'
+        : statuses.some((st: string) => st === 'checked-in' || st === 'met') ? 'active'
+        : 'pending';
+      return {
+        id: m.matchId,
+        roundId: m.roundId,
+        sessionId: m.sessionId,
+        participantIds: m.members.map((member: any) => member.participantId),
+        meetingPointId: m.meetingPoint || '',
+        identificationImageUrl: '',
+        status,
+        checkIns: m.members
+          .filter((member: any) => member.status === 'checked-in' || member.status === 'met')
+          .map((member: any) => ({ participantId: member.participantId })),
+        explanation: m.explanation,
+        createdAt: m.createdAt,
+      };
+    });
+
+    return c.json({ matches });
+
+  } catch (error) {
+    errorLog('Error fetching round matches:', error);
+    return c.json({ error: 'Failed to fetch round matches' }, 500);
+  }
+});
+
+// Matching dry run (POST) — runs the real algorithm on the round's current
+// registrations and returns the groups + explanations. Writes nothing.
+app.post('/make-server-ce05600a/sessions/:sessionId/rounds/:roundId/matching-dry-run', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error } = await getSupabase().auth.getUser(token);
+
+    if (error || !user) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+
+    const sessionId = c.req.param('sessionId');
+    const roundId = c.req.param('roundId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const session = await db.getSessionById(sessionId);
+    if (!session || session.userId !== user.id) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+
+    const result = await dryRunMatching(sessionId, roundId, {
+      includeUnconfirmed: body.includeUnconfirmed !== false,
+    });
+    if (!result.success) {
+      return c.json({ error: result.error }, 404);
+    }
+
+    return c.json(result);
+
+  } catch (error) {
+    errorLog('Error in matching dry run:', error);
+    return c.json({ error: 'Failed to run matching dry run' }, 500);
+  }
+});
+
+// Manual match edit (POST) — swap / move / split, applied atomically.
+// Only between matching and the start of networking; affected participants
+// get new identification numbers and a "your match changed" notification.
+app.post('/make-server-ce05600a/sessions/:sessionId/rounds/:roundId/match-edits', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error } = await getSupabase().auth.getUser(token);
+
+    if (error || !user) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+
+    const sessionId = c.req.param('sessionId');
+    const roundId = c.req.param('roundId');
+    const edit = await c.req.json();
+
+    const session = await db.getSessionById(sessionId);
+    if (!session || session.userId !== user.id) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+
+    const shapeError = getMatchEditShapeError(edit);
+    if (shapeError) {
+      return c.json({ error: shapeError }, 400);
+    }
+
+    const result = await applyMatchEdit(sessionId, roundId, edit, getCurrentTime(c));
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status as 400 | 404 | 409);
+    }
+
+    return c.json(result);
+
+  } catch (error) {
+    errorLog('Error editing matches:', error);
+    return c.json({ error: 'Failed to edit matches' }, 500);
+  }
+});
+
+// Organizer blocked pairs ("keep these two apart") — GET / POST / DELETE
+// Applied by matching in all of the organizer's sessions. Participant-created
+// blocks are enforced too but never listed here.
+app.get('/make-server-ce05600a/blocked-pairs', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error } = await getSupabase().auth.getUser(token);
+
+    if (error || !user) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+
+    const blockedPairs = await db.getOrganizerBlockedPairs(user.id);
+    return c.json({ blockedPairs });
+
+  } catch (error) {
+    errorLog('Error fetching blocked pairs:', error);
+    return c.json({ error: 'Failed to fetch blocked pairs' }, 500);
+  }
+});
+
+app.post('/make-server-ce05600a/blocked-pairs', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error } = await getSupabase().auth.getUser(token);
+
+    if (error || !user) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+
+    const body = await c.req.json();
+    const participantIds: string[] = Array.isArray(body.participantIds) ? body.participantIds : [];
+    if (participantIds.length !== 2 || !participantIds[0] || !participantIds[1] || participantIds[0] === participantIds[1]) {
+      return c.json({ error: 'participantIds must contain two different participants' }, 400);
+    }
+
+    // Organizers can only keep apart people who registered for their events
+    for (const participantId of participantIds) {
+      if (!(await db.isOrganizerParticipant(user.id, participantId))) {
+        return c.json({ error: 'Participant not found' }, 404);
+      }
+    }
+
+    await db.blockPairByOrganizer(user.id, participantIds[0], participantIds[1]);
+    debugLog('✅ Organizer blocked pair created');
+
+    return c.json({ success: true });
+
+  } catch (error) {
+    errorLog('Error creating blocked pair:', error);
+    return c.json({ error: 'Failed to create blocked pair' }, 500);
+  }
+});
+
+app.delete('/make-server-ce05600a/blocked-pairs/:blockId', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error } = await getSupabase().auth.getUser(token);
+
+    if (error || !user) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+
+    await db.deleteOrganizerBlockedPair(user.id, c.req.param('blockId'));
+
+    return c.json({ success: true });
+
+  } catch (error) {
+    errorLog('Error deleting blocked pair:', error);
+    return c.json({ error: 'Failed to delete blocked pair' }, 500);
+  }
+});
+
 // Public: Get organizer by slug (with sessions)
 app.get('/make-server-ce05600a/public/user/:slug', async (c) => {
   try {
@@ -552,12 +995,24 @@ app.get('/make-server-ce05600a/public/user/:slug', async (c) => {
       }
     }
 
+    // Full limited rounds take new registrations onto the waitlist
+    const availabilityBySession = new Map<string, Awaited<ReturnType<typeof getRoundAvailability>>>();
+    for (const s of publishedSessions) {
+      try {
+        availabilityBySession.set(s.id, await getRoundAvailability(s));
+      } catch (e) {
+        // Non-critical, rounds just aren't marked full or show seats left
+      }
+    }
+
     // Attach registeredCount to each round
     const sessionsWithCounts = publishedSessions.map((s: any) => ({
       ...s,
       rounds: (s.rounds || []).map((r: any) => ({
         ...r,
-        registeredCount: registrationCounts[r.id] || 0
+        registeredCount: registrationCounts[r.id] || 0,
+        isFull: mustJoinWaitlist(availabilityBySession.get(s.id)?.get(r.id)),
+        seatsLeft: getSeatsLeft(availabilityBySession.get(s.id)?.get(r.id)),
       }))
     }));
 
@@ -618,66 +1073,23 @@ app.post('/make-server-ce05600a/p/:token/confirm/:roundId', async (c) => {
       return c.json({ error: 'Invalid token' }, 404);
     }
 
-    // Get specific registration
-    const registration = await db.getRegistration(participant.participantId, sessionId, roundId);
-
-    if (!registration) {
-      console.log('❌ Registration not found');
-      return c.json({ error: 'Registration not found' }, 404);
-    }
-
-    console.log('📋 Current registration status:', registration.status);
-
-    // If already confirmed or later status, just return success (idempotent)
-    if (['confirmed', 'matched', 'checked-in', 'met'].includes(registration.status)) {
-      console.log(`✅ Round already in status "${registration.status}", returning success (idempotent)`);
-      return c.json({
-        success: true,
-        status: registration.status,
-        confirmedAt: registration.confirmedAt || registration.lastStatusUpdate,
-        message: 'Attendance already confirmed'
-      });
-    }
-
-    // Only 'registered' status can be confirmed (reject 'unconfirmed', 'no-match', 'missed', 'cancelled')
-    if (registration.status !== 'registered') {
-      console.log('❌ Cannot confirm - status not allowed:', registration.status);
+    const result = await confirmAttendance(participant.participantId, sessionId, roundId, getCurrentTime(c));
+    if (!result.ok) {
+      console.log(`❌ ${result.error}: ${result.message}`);
       return c.json({
-        error: 'Cannot confirm',
-        message: `Round status is "${registration.status}". Cannot confirm this round.`,
-        currentStatus: registration.status
-      }, 400);
-    }
-
-    // Validate confirmation window — reject if round already started
-    const session = await db.getSessionById(sessionId);
-    const round = session?.rounds?.find((r: any) => r.id === roundId);
-    if (round && session?.date && round.startTime) {
-      const roundStartTime = parseRoundStartTime(session.date, round.startTime);
-      const now = getCurrentTime(c);
-      if (now > roundStartTime) {
-        console.log('❌ Confirmation window closed - round already started');
-        return c.json({
-          error: 'Confirmation window closed',
-          message: 'The round has already started. You can no longer confirm attendance.',
-          currentStatus: registration.status
-        }, 400);
-      }
+        error: result.error,
+        message: result.message,
+        currentStatus: result.currentStatus
+      }, result.httpStatus);
     }
 
-    const now = new Date().toISOString();
-
-    await db.updateRegistrationStatus(participant.participantId, sessionId, roundId, 'confirmed', {
-      confirmedAt: now,
-    });
-
-    console.log(`✅ Confirmed attendance for round ${roundId}`);
-    debugLog(`✅ Confirmed attendance for round ${roundId}`);
+    console.log(`✅ Round ${roundId} status: ${result.status}`);
 
     return c.json({
       success: true,
-      status: 'confirmed',
-      confirmedAt: now
+      status: result.status,
+      confirmedAt: result.confirmedAt,
+      ...(result.message ? { message: result.message } : {})
     });
 
   } catch (error) {
@@ -750,7 +1162,7 @@ app.post('/make-server-ce05600a/rounds/:roundId/confirm/:participantId', async (
     const session = await db.getSessionById(sessionId);
     const round = session?.rounds?.find((r: any) => r.id === roundId);
     if (round && session?.date && round.startTime) {
-      const roundStartTime = parseRoundStartTime(session.date, round.startTime);
+      const roundStartTime = parseRoundStartTime(session.date, round.startTime, resolveTimeZone(session.timeZone));
       const now = getCurrentTime(c);
       if (now > roundStartTime) {
         debugLog('❌ Confirmation window closed - round already started');
@@ -814,32 +1226,20 @@ app.post('/make-server-ce05600a/p/:token/unregister/:roundId', async (c) => {
       return c.json({ error: 'Invalid token' }, 404);
     }
 
-    // Get specific registration
-    const registration = await db.getRegistration(participant.participantId, sessionId, roundId);
-
-    if (!registration) {
-      return c.json({ error: 'Registration not found' }, 404);
-    }
-
-    // Only allow cancellation from 'registered' or 'confirmed' (before matching)
-    const cancellableStatuses = ['registered', 'confirmed'];
-    if (!cancellableStatuses.includes(registration.status)) {
-      debugLog(`⚠️ Cannot cancel: current status is "${registration.status}"`);
+    const result = await cancelAttendance(participant.participantId, sessionId, roundId, getCurrentTime(c));
+    if (!result.ok) {
+      if (result.httpStatus === 404) return c.json({ error: result.error }, 404);
       return c.json({
-        error: 'Cannot unregister',
-        message: `Cannot unregister when status is "${registration.status}". You can only unregister before matching starts.`,
-        currentStatus: registration.status
+        error: result.error,
+        message: result.message,
+        currentStatus: result.currentStatus
       }, 400);
     }
 
-    await db.updateRegistrationStatus(participant.participantId, sessionId, roundId, 'cancelled');
-
-    debugLog(`✅ Participant cancelled registration for round ${roundId}`);
-
     return c.json({
       success: true,
-      status: 'cancelled',
-      message: 'Successfully unregistered from round'
+      status: result.status,
+      message: result.message
     });
 
   } catch (error) {
@@ -877,7 +1277,7 @@ app.post('/make-server-ce05600a/rounds/:roundId/auto-match', async (c) => {
         const sysParams = (await db.getAdminSetting('system_parameters')) || {};
         const confirmationWindowMin = Number(sysParams.confirmationWindowMinutes) || 5;
         const roundEndBufferMin = (Number(round.duration) || 0) + 60; // 60min after end is generous
-        const roundStart = parseRoundStartTime(round.date, round.startTime).getTime();
+        const roundStart = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session.timeZone)).getTime();
         const matchingOpensAt = roundStart - confirmationWindowMin * 60_000;
         const matchingClosesAt = roundStart + roundEndBufferMin * 60_000;
         const now = getCurrentTime(c).getTime();
@@ -922,6 +1322,79 @@ app.post('/make-server-ce05600a/rounds/:roundId/auto-match', async (c) => {
   }
 });
 
+// Report a no-show (POST) — participant-authenticated via magic-link token.
+// Marks the absent partner(s) as missed and, if the reporter is left alone,
+// tries to re-match them with other stranded / late participants right away.
+app.post('/make-server-ce05600a/rounds/:roundId/no-show', async (c) => {
+  try {
+    const roundId = c.req.param('roundId');
+    const body = await c.req.json();
+    const { token, sessionId, noShowParticipantId, notes } = body;
+
+    if (!token || !sessionId) {
+      return c.json({ error: 'token and sessionId are required' }, 400);
+    }
+
+    const reporter = await db.getParticipantByToken(token);
+    if (!reporter || (body.participantId && body.participantId !== reporter.participantId)) {
+      return c.json({ error: 'Invalid token' }, 404);
+    }
+
+    const registration = await db.getRegistration(reporter.participantId, sessionId, roundId);
+    if (!registration?.matchId || !['matched', 'checked-in'].includes(registration.status)) {
+      return c.json({ error: 'You are not in an active match for this round' }, 409);
+    }
+
+    // No-show = partner who has not checked in. Without a specific id,
+    // everyone in the group who hasn't arrived is reported.
+    const matchMembers = await db.getMatchParticipants(registration.matchId);
+    const partners = matchMembers.filter((p: any) => p.participantId !== reporter.participantId);
+    let noShows = partners.filter((p: any) => p.status === 'matched');
+    if (noShowParticipantId) {
+      const partner = partners.find((p: any) => p.participantId === noShowParticipantId);
+      if (!partner) {
+        return c.json({ error: 'Partner not found in your match' }, 404);
+      }
+      if (partner.status !== 'matched') {
+        return c.json({ error: 'Your partner has already checked in' }, 409);
+      }
+      noShows = [partner];
+    }
+    if (noShows.length === 0) {
+      return c.json({ error: 'Everyone in your group has already checked in' }, 409);
+    }
+
+    const noShowIds = noShows.map((p: any) => p.participantId);
+    for (const noShowId of noShowIds) {
+      await db.addParticipantAuditLog(noShowId, 'no-show-reported', {
+        sessionId,
+        roundId,
+        matchId: registration.matchId,
+        reportedBy: reporter.participantId,
+        notes: typeof notes === 'string' && notes.trim() ? notes.trim().slice(0, 1000) : undefined,
+      });
+    }
+
+    debugLog('🚷 NO-SHOW reported', { sessionId, roundId, matchId: registration.matchId, count: noShowIds.length });
+
+    const result = await rematchAfterNoShow(sessionId, roundId, reporter.participantId, registration.matchId, noShowIds);
+
+    return c.json({
+      success: true,
+      missedParticipantIds: noShowIds,
+      stillMatched: result.stillMatched,
+      newMatch: result.newMatch,
+    });
+
+  } catch (error) {
+    errorLog('Error reporting no-show:', error);
+    return c.json({
+      error: 'Failed to report no-show',
+      details: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
 // Send registration confirmation email
 app.post('/make-server-ce05600a/send-registration-email', async (c) => {
   try {
@@ -940,13 +1413,16 @@ app.post('/make-server-ce05600a/send-registration-email', async (c) => {
       sessions: sessions || [],
     });
 
-    const result = await sendEmail({ to: email, subject, html });
+    const result = await sendEmail({ to: email, subject, html, kind: 'registration' });
 
     if (result.success) {
       return c.json({ success: true, message: 'Email sent', emailId: result.id });
     } else if (result.devMode) {
       // No API key configured - return success so flow isn't blocked
       return c.json({ success: true, message: 'Email skipped (no RESEND_API_KEY)', devMode: true });
+    } else if (result.retryAt) {
+      // Resend is having a moment; the email-retry cron sends it
+      return c.json({ success: true, message: 'Email queued for retry', queued: true, retryAt: result.retryAt }, 202);
     } else {
       return c.json({ success: false, error: result.error }, 500);
     }
@@ -1002,10 +1478,12 @@ app.post('/make-server-ce05600a/participant/send-magic-link', async (c) => {
       eventName,
     });
 
-    const result = await sendEmail({ to: normalizedEmail, subject, html });
+    const result = await sendEmail({ to: normalizedEmail, subject, html, kind: 'magic-link' });
 
     if (result.success) {
       return c.json({ success: true, message: 'Magic link sent' });
+    } else if (result.retryAt) {
+      return c.json({ success: true, message: 'Magic link queued for retry', queued: true, retryAt: result.retryAt }, 202);
     } else if (result.devMode) {
       // No API key - return the link directly for dev purposes
       return c.json({ success: true, message: 'Dev mode - no email sent', magicLink });
@@ -1070,12 +1548,17 @@ app.get('/make-server-ce05600a/system-parameters', async (c) => {
         walkingTimeMinutes: 3,
         findingTimeMinutes: 1,
         contactSharingDelayMinutes: 5,
+        waitlistClaimMinutes: 60,
         timePickerIntervalMinutes: 5,
         notificationEarlyMinutes: 10,
         notificationEarlyEnabled: true,
         notificationLateMinutes: 5,
         notificationLateEnabled: true,
         smsRoundEndedEnabled: true,
+        smsQuietHoursEnabled: true,
+        smsQuietHoursStart: 21,
+        smsQuietHoursEnd: 8,
+        pushNotificationsEnabled: true,
         emailBeforeConfirmationEnabled: false,
         emailAtConfirmationEnabled: false,
         emailAfterNetworkingEnabled: false,
@@ -1106,11 +1589,16 @@ app.get('/make-server-ce05600a/system-parameters', async (c) => {
       walkingTimeMinutes: 3,
       findingTimeMinutes: 1,
       contactSharingDelayMinutes: 5,
+      waitlistClaimMinutes: 60,
       timePickerIntervalMinutes: 5,
       notificationEarlyMinutes: 10,
       notificationEarlyEnabled: true,
       notificationLateMinutes: 5,
       notificationLateEnabled: true,
+      smsQuietHoursEnabled: true,
+      smsQuietHoursStart: 21,
+      smsQuietHoursEnd: 8,
+      pushNotificationsEnabled: true,
       minimalGapBetweenRounds: 10,
       minimalRoundDuration: 5,
       maximalRoundDuration: 240,
@@ -1213,7 +1701,11 @@ app.put('/make-server-ce05600a/profile', async (c) => {
     }
     
     const body = await c.req.json();
-    const { organizerName, urlSlug, phone, website, description, profileImageUrl, onboardingCompletedAt } = body;
+    const { organizerName, urlSlug, phone, website, description, profileImageUrl, defaultTimeZone, onboardingCompletedAt } = body;
+
+    if (defaultTimeZone && !isValidTimeZone(defaultTimeZone)) {
+      return c.json({ error: `Unknown time zone: ${defaultTimeZone}` }, 400);
+    }
 
     const currentProfile = await db.getOrganizerById(user.id);
 
@@ -1246,6 +1738,7 @@ app.put('/make-server-ce05600a/profile', async (c) => {
       website: website !== undefined ? website : currentProfile.website,
       description: description !== undefined ? description : currentProfile.description,
       profileImageUrl: profileImageUrl !== undefined ? profileImageUrl : currentProfile.profileImageUrl,
+      defaultTimeZone: defaultTimeZone !== undefined ? (defaultTimeZone || null) : currentProfile.defaultTimeZone,
       onboardingCompletedAt: onboardingCompletedAt !== undefined ? onboardingCompletedAt : currentProfile.onboardingCompletedAt,
     });
 
@@ -1410,7 +1903,9 @@ app.post('/make-server-ce05600a/send-sms', async (c) => {
     if (result.success) {
       return c.json({ success: true, message: 'SMS sent', sid: result.sid });
     } else if (result.devMode) {
-      return c.json({ success: true, message: 'SMS skipped (no Twilio credentials)', devMode: true });
+      return c.json({ success: true, message: 'SMS skipped (no SMS provider credentials)', devMode: true });
+    } else if (result.suppressed) {
+      return c.json({ success: false, suppressed: true, error: result.error }, 409);
     } else {
       return c.json({ success: false, error: result.error }, 500);
     }
@@ -1456,26 +1951,24 @@ app.post('/make-server-ce05600a/send-bulk-sms', async (c) => {
 
     console.log(`📱 BULK SMS: Sending to ${recipients.length} recipients using template "${templateKey}"`);
 
-    const results: Array<{ phone: string; success: boolean; sid?: string; error?: string }> = [];
-
-    for (const recipient of recipients) {
-      if (!recipient.phone) {
-        results.push({ phone: '', success: false, error: 'No phone number' });
-        continue;
-      }
-
+    const withPhone = recipients.filter((recipient: any) => recipient.phone);
+    const sendResults = await sendBulkSms(withPhone.map((recipient: any) => ({
+      to: recipient.phone,
       // Merge global variables with per-recipient variables
-      const mergedVariables = { ...globalVariables, ...recipient.variables };
-      const smsBody = renderSmsTemplate(template, mergedVariables);
+      body: renderSmsTemplate(template, { ...globalVariables, ...recipient.variables }),
+    })));
 
-      const result = await sendSms({ to: recipient.phone, body: smsBody });
-      results.push({
+    const results: Array<{ phone: string; success: boolean; sid?: string; error?: string; suppressed?: boolean }> = [
+      ...withPhone.map((recipient: any, i: number) => ({
         phone: recipient.phone,
-        success: result.success,
-        sid: result.sid,
-        error: result.error,
-      });
-    }
+        success: sendResults[i].success,
+        sid: sendResults[i].sid,
+        error: sendResults[i].error,
+        ...(sendResults[i].suppressed ? { suppressed: true } : {}),
+      })),
+      ...recipients.filter((recipient: any) => !recipient.phone)
+        .map(() => ({ phone: '', success: false, error: 'No phone number' })),
+    ];
 
     const sent = results.filter(r => r.success).length;
     const failed = results.filter(r => !r.success).length;
@@ -2687,7 +3180,7 @@ app.post('/make-server-ce05600a/public/lead-magnet', async (c) => {
     // Send ebook email
     const ebookUrl = 'https://wonderelo.com/guide'; // Placeholder URL for the ebook
     const emailContent = buildLeadMagnetEmail({ name, ebookUrl });
-    await sendEmail({ to: email, ...emailContent });
+    await sendEmail({ to: email, ...emailContent, kind: 'lead-magnet' });
 
     debugLog('Lead magnet submission saved:', email);
     return c.json({ success: true, id: submission.id });
@@ -2723,69 +3216,6 @@ app.get('/make-server-ce05600a/public/theme', async (c) => {
 // CRON: Automatic round reminders (SMS)
 // ============================================
 
-/**
- * Send the "round just ended" SMS to all eligible participants in a round.
- * Shared between the cron fallback and the client-triggered endpoint.
- * Per-registration deduplication prevents duplicate sends.
- *
- * Returns counts + per-recipient results.
- */
-async function sendRoundEndedSmsForRound(round: any, endedTemplate: string, appUrl: string) {
-  const registrations = await db.getRegistrationsForRound(round.sessionId, round.id);
-  const eligibleRegs = registrations.filter((reg: any) =>
-    ['matched', 'checked-in', 'met'].includes(reg.status) &&
-    reg.notificationsEnabled !== false &&
-    reg.phone &&
-    !reg.endReminderSmsSentAt
-  );
-  let sent = 0;
-  let failed = 0;
-  for (const reg of eligibleRegs) {
-    // Claim-first: atomically set end_reminder_sms_sent_at if still NULL. If
-    // another concurrent cron tick already claimed it, skip (returns false).
-    let claimed = false;
-    try {
-      claimed = await db.claimRegistrationEndReminder(reg.participantId, round.sessionId, round.id);
-    } catch (e) {
-      console.error(`⚠️ claimRegistrationEndReminder failed for ${reg.participantId}: ${e}`);
-      continue;
-    }
-    if (!claimed) continue; // another tick got it first
-
-    const link = reg.token ? `${appUrl}/p/${reg.token}/contact-sharing?from=sms-ended` : appUrl;
-    const smsBody = renderSmsTemplate(endedTemplate, {
-      sessionName: round.sessionName || round.name || '',
-      firstName: reg.firstName || '',
-      name: `${reg.firstName || ''} ${reg.lastName || ''}`.trim(),
-      time: round.startTime || '',
-      date: round.date || '',
-      link,
-    });
-    const to = composeE164(reg.phone, reg.phoneCountry);
-    if (!to) {
-      failed++;
-      console.error(`❌ Cannot compose phone for ${reg.participantId}: phone=${reg.phone} country=${reg.phoneCountry}`);
-      // revert claim so next tick has chance (unlikely to help, but correct)
-      try { await db.releaseRegistrationEndReminder(reg.participantId, round.sessionId, round.id); } catch {}
-      continue;
-    }
-    const result = await sendSms({ to, body: smsBody });
-    if (result.success) {
-      sent++;
-    } else {
-      failed++;
-      console.error(`❌ SMS ended failed for ${to}: ${result.error}`);
-      // Revert so next tick retries
-      try {
-        await db.releaseRegistrationEndReminder(reg.participantId, round.sessionId, round.id);
-      } catch (e) {
-        console.error(`⚠️ releaseRegistrationEndReminder failed for ${reg.participantId}: ${e}`);
-      }
-    }
-  }
-  return { eligibleCount: eligibleRegs.length, sent, failed };
-}
-
 /**
  * Build an E.164 phone number from separate country-code + local number fields.
  * Matches the behaviour of the Confirm Attendance button: needs reg.phone
@@ -2808,8 +3238,9 @@ app.post('/make-server-ce05600a/cron/send-round-reminders', async (c) => {
     // Target-time-based scheduling: each SMS has a computed target send time
     // derived from round_start / round_end. The cron fires SMS only on the
     // tick where `target_send_time` fell within the last CRON_INTERVAL_MINUTES
-    // (the cron granularity). Per-registration deduplication means any missed
-    // tick is picked up on the next one, still only once per participant.
+    // (the cron granularity). It is the fallback for rounds whose QStash
+    // schedule is missing; outbox deduplication keeps it to one send per
+    // participant and channel.
     //
     //   Starting-soon target = round_start - confirmationWindowMinutes
     //     (exact moment the Confirm Attendance button appears)
@@ -2818,17 +3249,16 @@ app.post('/make-server-ce05600a/cron/send-round-reminders', async (c) => {
     //
     // Catch-up window: sized to match cron cadence. pg_cron runs every 5s
     // on staging for sub-minute precision; 20s window (= 5s cadence + 15s
-    // slack) is plenty to catch a tick even under moderate network jitter,
-    // while short enough that the row-level claim race is tiny.
+    // slack) is plenty to catch a tick even under moderate network jitter.
     //
     // A query-string override (?catchupMs=...) exists for tests / one-off
     // backfills so we can run a wide-window sweep without redeploying.
     const sysParams = (await db.getAdminSetting('system_parameters')) || {};
     const confirmationWindowMinutes = Number(sysParams.confirmationWindowMinutes) || 5;
-    const smsRoundEndedEnabled = sysParams.smsRoundEndedEnabled !== false; // default true
     const overrideMs = Number(c.req.query('catchupMs')) || 0;
-    // 1s cron cadence + 1s slack. Claim-first atomic UPDATE handles the
-    // tiny race where consecutive ticks might see the same unsent row.
+    // 1s cron cadence + 1s slack. The outbox dedups per participant and
+    // channel, so a round this tick shares with the QStash dispatch (or the
+    // previous tick) is only sent once.
     const catchupMs = overrideMs > 0 ? overrideMs : 2_000;
 
     // Get all candidate rounds (scheduled + published session)
@@ -2838,154 +3268,74 @@ app.post('/make-server-ce05600a/cron/send-round-reminders', async (c) => {
     // and just-ended (same).
     const startingSoon = candidateRounds.filter((r: any) => {
       if (!r.date || !r.startTime) return false;
-      const roundStartUtc = parseRoundStartTime(r.date, r.startTime);
+      const roundStartUtc = parseRoundStartTime(r.date, r.startTime, resolveTimeZone(r.sessionTimeZone));
       const targetSendUtc = new Date(roundStartUtc.getTime() - confirmationWindowMinutes * 60000);
       // Fire when: target_send_time <= now < target_send_time + catchup
       const elapsed = now.getTime() - targetSendUtc.getTime();
       return elapsed >= 0 && elapsed < catchupMs;
     });
-    const justEnded = smsRoundEndedEnabled
-      ? candidateRounds.filter((r: any) => {
-          if (!r.date || !r.startTime) return false;
-          const duration = Number(r.duration) || 0;
-          if (duration <= 0) return false;
-          const roundStartUtc = parseRoundStartTime(r.date, r.startTime);
-          const targetSendUtc = new Date(roundStartUtc.getTime() + duration * 60000);
-          const elapsed = now.getTime() - targetSendUtc.getTime();
-          return elapsed >= 0 && elapsed < catchupMs;
-        })
-      : [];
+    const justEnded = candidateRounds.filter((r: any) => {
+      if (!r.date || !r.startTime) return false;
+      const duration = Number(r.duration) || 0;
+      if (duration <= 0) return false;
+      const roundStartUtc = parseRoundStartTime(r.date, r.startTime, resolveTimeZone(r.sessionTimeZone));
+      const targetSendUtc = new Date(roundStartUtc.getTime() + duration * 60000);
+      const elapsed = now.getTime() - targetSendUtc.getTime();
+      return elapsed >= 0 && elapsed < catchupMs;
+    });
 
     if (startingSoon.length === 0 && justEnded.length === 0) {
       return c.json({
         success: true,
         message: 'No rounds need reminders',
         roundsChecked: candidateRounds.length,
-        window: { confirmationWindowMinutes, catchupMs, smsRoundEndedEnabled },
+        window: { confirmationWindowMinutes, catchupMs },
       });
     }
 
-    // Load SMS templates
-    const texts = (await db.getAdminSetting('notification_texts')) || {};
-    const startingTemplate = texts.smsRoundStartingSoon;
-    const endedTemplate = texts.smsRoundEnded;
-
-    let totalSmsSent = 0;
-    let totalSmsFailed = 0;
+    // Same fan-out as the QStash dispatch (SMS + email + push through the
+    // outbox); the admin toggles and templates are checked in there.
+    const totals = { smsSent: 0, smsFailed: 0, emailSent: 0, emailFailed: 0, pushSent: 0, pushFailed: 0 };
     const roundResults: any[] = [];
-    const appUrl = Deno.env.get('APP_URL') || 'https://wonderelo.com';
-
-    // ---- Starting-soon pass ----
-    if (startingSoon.length > 0 && startingTemplate) {
-      for (const round of startingSoon) {
-        const roundStartUtc = parseRoundStartTime(round.date, round.startTime);
-        const minutesUntilStart = Math.max(0, Math.round((roundStartUtc.getTime() - now.getTime()) / 60000));
-
-        const registrations = await db.getRegistrationsForRound(round.sessionId, round.id);
-        const eligibleRegs = registrations.filter((reg: any) =>
-          ['registered', 'confirmed'].includes(reg.status) &&
-          reg.notificationsEnabled !== false &&
-          reg.phone &&
-          !reg.reminderSmsSentAt
-        );
-        if (eligibleRegs.length === 0) continue;
-
-        const meetingPoints = round.meetingPoints?.length > 0 ? round.meetingPoints : round.sessionMeetingPoints || [];
-        const location = meetingPoints.length > 0 ? (meetingPoints[0]?.name || meetingPoints[0] || '') : '';
-
-        let sent = 0;
-        let failed = 0;
-        for (const reg of eligibleRegs) {
-          // Claim-first: atomically set reminder_sms_sent_at if still NULL.
-          // Prevents duplicate sends when multiple cron ticks race.
-          let claimed = false;
-          try {
-            claimed = await db.claimRegistrationReminder(reg.participantId, round.sessionId, round.id);
-          } catch (e) {
-            console.error(`⚠️ claimRegistrationReminder failed for ${reg.participantId}: ${e}`);
-            continue;
-          }
-          if (!claimed) continue; // another tick got it first
-
-          const link = reg.token ? `${appUrl}/p/${reg.token}?from=sms-reminder` : appUrl;
-          const smsBody = renderSmsTemplate(startingTemplate, {
-            sessionName: round.sessionName || round.name || '',
-            minutes: String(minutesUntilStart),
-            location,
-            firstName: reg.firstName || '',
-            name: `${reg.firstName || ''} ${reg.lastName || ''}`.trim(),
-            time: round.startTime || '',
-            date: round.date || '',
-            link,
-          });
-          const to = composeE164(reg.phone, reg.phoneCountry);
-          if (!to) {
-            failed++;
-            console.error(`❌ Cannot compose phone for ${reg.participantId}: phone=${reg.phone} country=${reg.phoneCountry}`);
-            try { await db.releaseRegistrationReminder(reg.participantId, round.sessionId, round.id); } catch {}
-            continue;
-          }
-          const result = await sendSms({ to, body: smsBody });
-          if (result.success) {
-            sent++;
-          } else {
-            failed++;
-            console.error(`❌ SMS starting failed for ${to}: ${result.error}`);
-            try {
-              await db.releaseRegistrationReminder(reg.participantId, round.sessionId, round.id);
-            } catch (e) {
-              console.error(`⚠️ releaseRegistrationReminder failed for ${reg.participantId}: ${e}`);
-            }
-          }
-        }
-        totalSmsSent += sent;
-        totalSmsFailed += failed;
-        roundResults.push({
-          kind: 'starting-soon',
-          roundId: round.id,
-          roundName: round.name,
-          sessionName: round.sessionName,
-          startsIn: `${minutesUntilStart}min`,
-          eligibleParticipants: eligibleRegs.length,
-          smsSent: sent,
-          smsFailed: failed,
-        });
-      }
-    } else if (startingSoon.length > 0 && !startingTemplate) {
-      console.log('⚠️ No smsRoundStartingSoon template configured — skipping starting-soon pass');
-    }
-
-    // ---- Round-ended pass (fallback for clients that didn't trigger /notify-ended) ----
-    if (justEnded.length > 0 && endedTemplate) {
-      for (const round of justEnded) {
-        const r = await sendRoundEndedSmsForRound(round, endedTemplate, appUrl);
-        if (r.eligibleCount === 0) continue;
-        totalSmsSent += r.sent;
-        totalSmsFailed += r.failed;
+    const passes: Array<{ kind: SmsKind; label: string; rounds: any[] }> = [
+      { kind: 'round-starting-soon', label: 'starting-soon', rounds: startingSoon },
+      { kind: 'round-ended', label: 'just-ended', rounds: justEnded },
+    ];
+    for (const pass of passes) {
+      for (const round of pass.rounds) {
+        const r: any = await dispatchNotificationsForRound(pass.kind, round.id, round.sessionId, { skipClaim: true });
+        if (!r.eligible) continue;
+        for (const key of Object.keys(totals) as Array<keyof typeof totals>) totals[key] += r[key] || 0;
         roundResults.push({
-          kind: 'just-ended',
+          kind: pass.label,
           roundId: round.id,
           roundName: round.name,
           sessionName: round.sessionName,
-          eligibleParticipants: r.eligibleCount,
-          smsSent: r.sent,
-          smsFailed: r.failed,
+          eligibleParticipants: r.eligible,
+          smsSent: r.smsSent,
+          smsFailed: r.smsFailed,
+          emailSent: r.emailSent,
+          emailFailed: r.emailFailed,
+          pushSent: r.pushSent,
+          pushFailed: r.pushFailed,
         });
       }
-    } else if (justEnded.length > 0 && !endedTemplate) {
-      console.log('⚠️ No smsRoundEnded template configured — skipping round-ended pass');
     }
 
-    console.log(`📱 CRON ROUND REMINDERS: ${startingSoon.length} starting-soon + ${justEnded.length} just-ended rounds, ${totalSmsSent} SMS sent, ${totalSmsFailed} failed`);
+    console.log(`📱 CRON ROUND REMINDERS: ${startingSoon.length} starting-soon + ${justEnded.length} just-ended rounds, ${totals.smsSent} SMS / ${totals.emailSent} email / ${totals.pushSent} push sent`);
 
     return c.json({
       success: true,
       startingSoonRounds: startingSoon.length,
       justEndedRounds: justEnded.length,
-      totalSmsSent,
-      totalSmsFailed,
+      totalSmsSent: totals.smsSent,
+      totalSmsFailed: totals.smsFailed,
+      totalEmailSent: totals.emailSent,
+      totalEmailFailed: totals.emailFailed,
+      totalPushSent: totals.pushSent,
+      totalPushFailed: totals.pushFailed,
       rounds: roundResults,
-      window: { startWindowMinutes, endedLookbackMinutes, smsRoundEndedEnabled },
+      window: { confirmationWindowMinutes, catchupMs },
     });
 
   } catch (error) {
@@ -3058,7 +3408,7 @@ app.post('/make-server-ce05600a/cron/onboarding-emails', async (c) => {
       // Email 1: Create your first round (1+ day after signup, no sessions created)
       if (!sent.includes('onboarding_1') && !hasSessions && (now - createdAt) > ONE_DAY) {
         const emailContent = buildOnboardingEmail1_CreateRound({ firstName, dashboardUrl });
-        const result = await sendEmail({ to: email, subject: emailContent.subject, html: emailContent.html });
+        const result = await sendEmail({ to: email, subject: emailContent.subject, html: emailContent.html, kind: 'onboarding' });
         sent.push('onboarding_1');
         results.push({ userId, email: 'onboarding_1', sent: result.success });
       }
@@ -3066,7 +3416,7 @@ app.post('/make-server-ce05600a/cron/onboarding-emails', async (c) => {
       // Email 2: Customize URL (2+ days after signup, URL still auto-generated)
       else if (!sent.includes('onboarding_2') && isAutoSlug && (now - createdAt) > 2 * ONE_DAY) {
         const emailContent = buildOnboardingEmail2_CustomizeUrl({ firstName, dashboardUrl, currentUrl: eventPageUrl || `${appUrl}/${urlSlug}` });
-        const result = await sendEmail({ to: email, subject: emailContent.subject, html: emailContent.html });
+        const result = await sendEmail({ to: email, subject: emailContent.subject, html: emailContent.html, kind: 'onboarding' });
         sent.push('onboarding_2');
         results.push({ userId, email: 'onboarding_2', sent: result.success });
       }
@@ -3074,7 +3424,7 @@ app.post('/make-server-ce05600a/cron/onboarding-emails', async (c) => {
       // Email 3: Publish your round (has draft session, no published, 1+ day after creation)
       else if (!sent.includes('onboarding_3') && draftSession && !hasPublishedSession && (now - createdAt) > ONE_DAY) {
         const emailContent = buildOnboardingEmail3_PublishRound({ firstName, dashboardUrl, sessionName: draftSession.name || 'your round' });
-        const result = await sendEmail({ to: email, subject: emailContent.subject, html: emailContent.html });
+        const result = await sendEmail({ to: email, subject: emailContent.subject, html: emailContent.html, kind: 'onboarding' });
         sent.push('onboarding_3');
         results.push({ userId, email: 'onboarding_3', sent: result.success });
       }
@@ -3473,11 +3823,16 @@ import {
   upsertSchedule, markScheduleScheduled, markScheduleFailed,
   claimScheduleForDispatch, cancelSchedulesForRound,
   upsertOutboxAttempting, markOutboxSent, markOutboxFailed,
-  updateOutboxDeliveryStatus, getOverdueSchedules,
+  getOverdueSchedules,
+  listSmsSuppressions, addSmsSuppression, removeSmsSuppression,
   type SmsKind,
 } from './sms-outbox.ts';
+import { listSmsUsageThisMonth } from './sms-quota.ts';
+import { normalizePhoneNumber } from './sms-provider.ts';
+import { requireAdmin } from './auth-helpers.tsx';
+import { listEmailOutbox, summarizeEmailOutbox, type EmailKind, type EmailStatus } from './email-outbox.ts';
 import { scheduleQStashDelivery, cancelQStashDelivery, verifyQStashSignature } from './qstash.ts';
-import { dispatchSmsForRound, composeE164 } from './sms-dispatch.tsx';
+import { dispatchNotificationsForRound, dispatchMatchPush, composeE164 } from './sms-dispatch.tsx';
 
 function getDispatchUrl(): string {
   const base = Deno.env.get('SUPABASE_URL') || '';
@@ -3515,7 +3870,7 @@ async function scheduleSmsForSession(sessionId: string) {
       if (session.status !== 'published') continue;
       if (!round.date || !round.startTime) continue;
 
-      const roundStartUtc = parseRoundStartTime(round.date, round.startTime);
+      const roundStartUtc = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session.timeZone));
       const duration = Number(round.duration) || 0;
 
       // 1. BEFORE confirmation time
@@ -3566,10 +3921,10 @@ async function scheduleOneRoundSms(
   }
 }
 
-// kindConfig + composeE164 + dispatchSmsForRound now live in sms-dispatch.tsx
+// kindConfig + composeE164 + dispatchNotificationsForRound now live in sms-dispatch.tsx
 // (extracted so e2e tests can call them without HTTP/QStash signature plumbing).
 
-// dispatchSmsForRound is imported from sms-dispatch.tsx above.
+// dispatchNotificationsForRound is imported from sms-dispatch.tsx above.
 
 app.post('/make-server-ce05600a/sms/dispatch', async (c) => {
   try {
@@ -3585,7 +3940,7 @@ app.post('/make-server-ce05600a/sms/dispatch', async (c) => {
     try { payload = JSON.parse(rawBody); } catch { return c.json({ error: 'bad json' }, 400); }
     const { kind, roundId, sessionId } = payload;
     if (!kind || !roundId || !sessionId) return c.json({ error: 'missing fields' }, 400);
-    const result = await dispatchSmsForRound(kind, roundId, sessionId);
+    const result = await dispatchNotificationsForRound(kind, roundId, sessionId);
     return c.json({ success: true, ...result });
   } catch (error) {
     errorLog('sms/dispatch error', error);
@@ -3593,37 +3948,81 @@ app.post('/make-server-ce05600a/sms/dispatch', async (c) => {
   }
 });
 
-app.post('/make-server-ce05600a/sms/twilio-status', async (c) => {
-  try {
-    const rawForm = await c.req.text();
-    // Parse form-urlencoded
-    const params = Object.fromEntries(new URLSearchParams(rawForm).entries());
+/** A gateway's webhook (SMS or email) as the provider signed it (public URL, raw body) */
+async function readWebhook(c: any, path: string) {
+  const base = Deno.env.get('SUPABASE_URL') || '';
+  const query = c.req.query();
+  const search = new URLSearchParams(query).toString();
+  return {
+    url: `${base}/functions/v1/make-server-ce05600a${path}${search ? `?${search}` : ''}`,
+    method: c.req.method,
+    headers: c.req.header(),
+    rawBody: c.req.method === 'GET' ? '' : await c.req.text(),
+    query,
+  };
+}
 
-    // Verify signature to prevent anyone from spamming our outbox with fake statuses
-    const sig = c.req.header('X-Twilio-Signature');
-    const base = Deno.env.get('SUPABASE_URL') || '';
-    const fullUrl = `${base}/functions/v1/make-server-ce05600a/sms/twilio-status`;
-    const valid = await verifyTwilioSignature(sig, fullUrl, params);
-    if (!valid) {
-      errorLog('Twilio signature invalid for status callback');
+/**
+ * Delivery reports from the SMS gateway. The URL the gateway signed is
+ * rebuilt from SUPABASE_URL (the edge runtime sees an internal URL).
+ * Twilio can report by GET too, Vonage by GET or POST, so both are routed.
+ */
+async function receiveSmsStatus(c: any, providerName: string, path: string) {
+  try {
+    const { result, report } = await handleSmsStatusCallback(providerName, await readWebhook(c, path));
+    if (result === 'unknown-provider') return c.json({ error: 'Unknown SMS provider' }, 404);
+    if (result === 'unauthorized') {
+      errorLog(`${providerName} signature invalid for status callback`);
       return c.json({ error: 'Unauthorized' }, 401);
     }
+    return c.json({ ok: true, status: report?.status ?? null });
+  } catch (error) {
+    errorLog('sms/status error', error);
+    return c.json({ error: 'failed' }, 500);
+  }
+}
+
+app.post('/make-server-ce05600a/sms/status/:provider', (c) => receiveSmsStatus(c, c.req.param('provider'), `/sms/status/${c.req.param('provider')}`));
+app.get('/make-server-ce05600a/sms/status/:provider', (c) => receiveSmsStatus(c, c.req.param('provider'), `/sms/status/${c.req.param('provider')}`));
+// Messages sent before the provider switch still carry this callback URL
+app.post('/make-server-ce05600a/sms/twilio-status', (c) => receiveSmsStatus(c, 'twilio', '/sms/twilio-status'));
 
-    const sid = params.MessageSid;
-    const status = params.MessageStatus;
-    const errorCode = params.ErrorCode || null;
-    if (!sid || !status) return c.json({ ok: true });
-    await updateOutboxDeliveryStatus(sid, status, errorCode);
-    return c.json({ ok: true });
+/**
+ * Inbound SMS webhook: a participant replied YES / NO / STOP to a reminder.
+ * Point the provider's "incoming message" webhook at /sms/inbound/<provider>.
+ * Answers with the provider's empty acknowledgement (the reply SMS is sent
+ * separately) so the gateway doesn't retry or auto-reply.
+ */
+async function receiveInboundSms(c: any) {
+  const providerName = c.req.param('provider');
+  try {
+    const { result, outcome } = await handleInboundSms(
+      providerName,
+      await readWebhook(c, `/sms/inbound/${providerName}`),
+      getCurrentTime(c),
+    );
+    if (result === 'unknown-provider') return c.json({ error: 'Unknown SMS provider' }, 404);
+    if (result === 'unauthorized') {
+      errorLog(`${providerName} signature invalid for inbound SMS`);
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    debugLog(`📩 Inbound SMS via ${providerName}: ${result}${outcome ? ` (${outcome})` : ''}`);
+    const { contentType, body } = getSmsProviderByName(providerName)!.inboundResponse;
+    return c.body(body, 200, { 'Content-Type': contentType });
   } catch (error) {
-    errorLog('sms/twilio-status error', error);
+    errorLog('sms/inbound error', error);
     return c.json({ error: 'failed' }, 500);
   }
-});
+}
+
+app.post('/make-server-ce05600a/sms/inbound/:provider', receiveInboundSms);
+app.get('/make-server-ce05600a/sms/inbound/:provider', receiveInboundSms);
 
 /**
- * Admin: SMS outbox audit list. Requires admin role.
- * Returns { schedules, outbox, summary } — last 200 of each, last 24h summary.
+ * Admin: notification outbox audit list (SMS, email, push). Requires admin role.
+ * Returns { schedules, outbox, summary, quotas } — last 200 schedules, last 500
+ * sends, last 24h summary keyed by kind, channel and total, and this month's
+ * SMS usage of every organizer who sent any.
  */
 app.get('/make-server-ce05600a/admin/sms-outbox', async (c) => {
   try {
@@ -3651,20 +4050,27 @@ app.get('/make-server-ce05600a/admin/sms-outbox', async (c) => {
     const dayAgo = new Date(Date.now() - 24 * 60 * 60000).toISOString();
     const { data: recent } = await sb
       .from('sms_outbox')
-      .select('status, kind')
+      .select('status, kind, channel')
       .gte('created_at', dayAgo);
     const summary: Record<string, number> = {};
     for (const r of (recent || [])) {
-      const key = `${r.kind}:${r.status}`;
-      summary[key] = (summary[key] || 0) + 1;
-      summary[`total:${r.status}`] = (summary[`total:${r.status}`] || 0) + 1;
+      for (const key of [`${r.kind}:${r.status}`, `${r.channel || 'sms'}:${r.status}`, `total:${r.status}`]) {
+        summary[key] = (summary[key] || 0) + 1;
+      }
     }
 
+    // This month's SMS allowance per organizer, with who they are
+    const quotas = await Promise.all((await listSmsUsageThisMonth()).map(async (usage) => {
+      const organizer = await db.getOrganizerById(usage.organizerId);
+      return { ...usage, organizerName: organizer?.organizerName || null, email: organizer?.email || null };
+    }));
+
     return c.json({
       success: true,
       schedules: schedules || [],
       outbox: outbox || [],
       summary,
+      quotas,
     });
   } catch (error) {
     errorLog('admin/sms-outbox error', error);
@@ -3673,7 +4079,46 @@ app.get('/make-server-ce05600a/admin/sms-outbox', async (c) => {
 });
 
 /**
- * Admin: resend a single SMS from outbox (manual retry).
+ * Admin: the SMS opt-out list. Numbers land on it by replying STOP or from
+ * here; every SMS send skips them. POST { phone, note? } adds (local numbers
+ * are read as Slovak), DELETE removes.
+ */
+app.get('/make-server-ce05600a/admin/sms-suppressions', requireAdmin, async (c) => {
+  try {
+    return c.json({ success: true, suppressions: await listSmsSuppressions() });
+  } catch (error) {
+    errorLog('admin/sms-suppressions error', error);
+    return c.json({ error: 'Failed to load SMS opt-outs' }, 500);
+  }
+});
+
+app.post('/make-server-ce05600a/admin/sms-suppressions', requireAdmin, async (c) => {
+  try {
+    const { phone, note } = await c.req.json();
+    if (!phone || typeof phone !== 'string') return c.json({ error: 'phone is required' }, 400);
+    const number = normalizePhoneNumber(phone);
+    if (!/^\+\d{6,15}$/.test(number)) return c.json({ error: `Not a phone number: ${phone}` }, 400);
+    await addSmsSuppression(number, 'admin', typeof note === 'string' && note.trim() ? note.trim() : null);
+    return c.json({ success: true, phone: number });
+  } catch (error) {
+    errorLog('admin/sms-suppressions add error', error);
+    return c.json({ error: 'Failed to add SMS opt-out' }, 500);
+  }
+});
+
+app.delete('/make-server-ce05600a/admin/sms-suppressions/:phone', requireAdmin, async (c) => {
+  try {
+    const removed = await removeSmsSuppression(normalizePhoneNumber(decodeURIComponent(c.req.param('phone'))));
+    if (!removed) return c.json({ error: 'Number is not on the opt-out list' }, 404);
+    return c.json({ success: true });
+  } catch (error) {
+    errorLog('admin/sms-suppressions remove error', error);
+    return c.json({ error: 'Failed to remove SMS opt-out' }, 500);
+  }
+});
+
+/**
+ * Admin: resend a single notification from outbox (manual retry).
  */
 app.post('/make-server-ce05600a/admin/sms-outbox/:id/resend', async (c) => {
   try {
@@ -3702,7 +4147,21 @@ app.post('/make-server-ce05600a/admin/sms-outbox/:id/resend', async (c) => {
       await sb.from('sms_schedules').update({ status: 'scheduled' }).eq('id', row.schedule_id);
     }
 
-    const r = await dispatchSmsForRound(row.kind, row.round_id, row.session_id);
+    // The match push has no schedule: re-run it from the round's saved matches
+    if (row.kind === 'round-matched') {
+      const session = await db.getSessionById(row.session_id);
+      const round = session?.rounds?.find((r: any) => r.id === row.round_id);
+      if (!session || !round) return c.json({ error: 'round not found' }, 404);
+      const matches = (await db.getMatchesByRound(row.session_id, row.round_id)).map((m: any) => ({
+        participantIds: m.members.map((member: any) => member.participantId),
+        meetingPoint: m.meetingPoint || undefined,
+      }));
+      const registrations = await db.getRegistrationsForRound(row.session_id, row.round_id);
+      const r = await dispatchMatchPush(session, round, matches, registrations);
+      return c.json({ success: true, ...r });
+    }
+
+    const r = await dispatchNotificationsForRound(row.kind, row.round_id, row.session_id);
     return c.json({ success: true, ...r });
   } catch (error) {
     return c.json({ error: error instanceof Error ? error.message : String(error) }, 500);
@@ -3737,6 +4196,59 @@ app.post('/make-server-ce05600a/admin/sms-outbox/trigger-schedule/:sessionId', a
   }
 });
 
+/**
+ * Delivery events from Resend (delivered, bounced, complained, failed) for
+ * the emails in email_outbox. Svix-signed with RESEND_WEBHOOK_SECRET.
+ */
+app.post('/make-server-ce05600a/email/webhook', async (c) => {
+  try {
+    const { result, type } = await handleEmailWebhook(await readWebhook(c, '/email/webhook'), getCurrentTime(c));
+    if (result === 'unauthorized') {
+      errorLog('Resend signature invalid for email webhook');
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    debugLog(`📧 Email webhook ${type || '?'}: ${result}`);
+    return c.json({ success: true, result });
+  } catch (error) {
+    errorLog('email/webhook error', error);
+    return c.json({ error: 'failed' }, 500);
+  }
+});
+
+/**
+ * Admin: email delivery log. ?recipient= looks up one address (exact,
+ * case-insensitive), ?status= and ?kind= filter. Returns { emails, summary }
+ * — last 200 matching rows without their body, and last 24h counts by status.
+ */
+app.get('/make-server-ce05600a/admin/email-outbox', requireAdmin, async (c) => {
+  try {
+    const { recipient, status, kind } = c.req.query();
+    const emails = await listEmailOutbox({
+      recipient: recipient || undefined,
+      status: (status || undefined) as EmailStatus | undefined,
+      kind: (kind || undefined) as EmailKind | undefined,
+    });
+    const summary = await summarizeEmailOutbox(new Date(Date.now() - 24 * 3600 * 1000).toISOString());
+    return c.json({ success: true, emails, summary });
+  } catch (error) {
+    errorLog('admin/email-outbox error', error);
+    return c.json({ error: 'Failed to load email outbox' }, 500);
+  }
+});
+
+/** Admin: send one logged email again, exactly as it went out */
+app.post('/make-server-ce05600a/admin/email-outbox/:id/resend', requireAdmin, async (c) => {
+  try {
+    const result = await resendOutboxEmail(c.req.param('id'));
+    if (result.notFound) return c.json({ error: result.error }, 404);
+    if (!result.success) return c.json({ success: false, error: result.error }, 502);
+    return c.json({ success: true, emailId: result.id });
+  } catch (error) {
+    errorLog('admin/email-outbox resend error', error);
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
+
 app.post('/make-server-ce05600a/cron/sms-reconcile', async (c) => {
   const expected = Deno.env.get('CRON_SECRET');
   const got = c.req.header('X-Cron-Secret');
@@ -3747,7 +4259,7 @@ app.post('/make-server-ce05600a/cron/sms-reconcile', async (c) => {
     const results: any[] = [];
     for (const sched of overdue) {
       try {
-        const r = await dispatchSmsForRound(sched.kind, sched.roundId, sched.sessionId);
+        const r = await dispatchNotificationsForRound(sched.kind, sched.roundId, sched.sessionId);
         results.push({ scheduleId: sched.id, ...r });
       } catch (e) {
         results.push({ scheduleId: sched.id, error: e instanceof Error ? e.message : String(e) });
@@ -3759,9 +4271,54 @@ app.post('/make-server-ce05600a/cron/sms-reconcile', async (c) => {
   }
 });
 
+// Send again emails that failed for a transient reason (every few minutes; rows are claimed, so runs can overlap)
+app.post('/make-server-ce05600a/cron/email-retry', async (c) => {
+  const expected = Deno.env.get('CRON_SECRET');
+  const got = c.req.header('X-Cron-Secret');
+  if (!expected || got !== expected) return c.json({ error: 'Unauthorized' }, 401);
+  try {
+    const results = await retryDueEmails(getCurrentTime(c));
+    return c.json({ success: true, retried: results.length, results });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
+// Create upcoming occurrences of recurring sessions (daily is enough; runs are idempotent)
+app.post('/make-server-ce05600a/cron/materialize-series', async (c) => {
+  const expected = Deno.env.get('CRON_SECRET');
+  const got = c.req.header('X-Cron-Secret');
+  if (!expected || got !== expected) return c.json({ error: 'Unauthorized' }, 401);
+  try {
+    const now = getCurrentTime(c);
+    const allSeries = await db.getAllSeries();
+    const results: any[] = [];
+    for (const series of allSeries) {
+      try {
+        const created = await materializeSeries(series.id, now, scheduleSmsForSession);
+        if (created.length > 0) results.push({ seriesId: series.id, created });
+      } catch (e) {
+        results.push({ seriesId: series.id, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    return c.json({ success: true, seriesChecked: allSeries.length, results });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
 // Register participant routes
 registerParticipantRoutes(app, getCurrentTime);
 
+// Register calendar feed routes
+registerCalendarRoutes(app, getCurrentTime);
+
+// Register waitlist routes
+registerWaitlistRoutes(app, getCurrentTime);
+
+// Register web push routes
+registerPushRoutes(app);
+
 // Register Stripe payment routes
 registerStripeRoutes(app);
 
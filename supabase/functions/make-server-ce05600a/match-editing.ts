@@ -0,0 +1,326 @@
+/**
+ * MATCH EDITING
+ * Organizer corrections between matching (T-0) and the start of networking:
+ *   - swap:  two matched participants trade groups
+ *   - move:  one participant (typically a 'no-match' solo) joins a group
+ *   - split: part of a group becomes a group of its own
+ * Everyone in a changed group gets fresh identification numbers (the old ones
+ * were chosen to be unique within the old group) and a "your match changed"
+ * notification. Participants who already checked in are never moved, and an
+ * edit never creates a pair matching couldn't (blocked pairs, hard rules).
+ */
+
+import * as db from './db.ts';
+import { errorLog, debugLog } from './debug.tsx';
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
+import { renderSmsTemplate } from './sms.tsx';
+import { sendEmail, buildMatchUpdatedEmail } from './email.tsx';
+import { composeE164 } from './sms-dispatch.tsx';
+import { sendCountedSms } from './sms-quota.ts';
+import { type NotificationChannel } from './sms-outbox.ts';
+import { assignMeetingPoints } from './meeting-points.ts';
+import { createSessionPairScorer } from './matching.tsx';
+import { FORBIDDEN } from './matching-scoring.ts';
+
+export type MatchEdit =
+  | { type: 'swap'; participantIds: [string, string] }
+  | { type: 'move'; participantId: string; targetMatchId: string }
+  | { type: 'split'; matchId: string; participantIds: string[] };
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string');
+
+/**
+ * Shape check for an edit from the request body, before applyMatchEdit
+ * touches it. Returns the message to answer 400 with, or null.
+ */
+export function getMatchEditShapeError(edit: any): string | null {
+  if (!edit || typeof edit !== 'object') return 'Missing edit';
+  if (edit.type === 'swap') {
+    return isIdList(edit.participantIds) && edit.participantIds.length === 2
+      ? null : 'participantIds must be a list of two participant IDs';
+  }
+  if (edit.type === 'move') {
+    return typeof edit.participantId === 'string' && typeof edit.targetMatchId === 'string'
+      ? null : 'participantId and targetMatchId must be strings';
+  }
+  if (edit.type === 'split') {
+    return typeof edit.matchId === 'string' && isIdList(edit.participantIds)
+      ? null : 'matchId must be a string and participantIds a list of participant IDs';
+  }
+  return 'Unknown edit type';
+}
+
+const DEFAULT_MATCH_UPDATED_SMS = 'Hi {name}! Your match for "{sessionName}" has changed. See who you are meeting: {link}';
+
+/**
+ * When editing closes: networking starts once the walking and finding
+ * phases after T-0 are over (same timing as the participant dashboard).
+ * Rounds without their own date take the session's. Null when the round
+ * has no start time yet.
+ */
+export async function getMatchEditingDeadline(session: any, round: any): Promise<Date | null> {
+  const date = round?.date || session?.date;
+  if (!date || !round?.startTime || round.startTime === 'TBD' || round.startTime === 'To be set') {
+    return null;
+  }
+  const sysParams = (await db.getAdminSetting('system_parameters')) || {};
+  const walkingTimeMs = (sysParams.walkingTimeMinutes ?? 3) * 60000;
+  const findingTimeMs = (sysParams.findingTimeMinutes ?? 1) * 60000;
+  return new Date(parseRoundStartTime(date, round.startTime, resolveTimeZone(session?.timeZone)).getTime() + walkingTimeMs + findingTimeMs);
+}
+
+/**
+ * Validate and apply one edit. Returns `{ success: false, status, error }`
+ * for anything the organizer can fix (HTTP status to respond with).
+ */
+export async function applyMatchEdit(sessionId: string, roundId: string, edit: MatchEdit, now: Date) {
+  const session = await db.getSessionById(sessionId);
+  const round = session?.rounds?.find((r: any) => r.id === roundId);
+  if (!session || !round) {
+    return { success: false, status: 404, error: 'Round not found' };
+  }
+
+  const deadline = await getMatchEditingDeadline(session, round);
+  if (deadline && now >= deadline) {
+    return { success: false, status: 409, error: 'Networking has already started for this round' };
+  }
+
+  const registrations = await db.getRegistrationsForRound(sessionId, roundId);
+  const regById = new Map<string, any>(registrations.map((r: any) => [r.participantId, r]));
+
+  // Current groups (everyone who holds a match ID, whatever their status)
+  const groups = new Map<string, string[]>();
+  for (const r of registrations) {
+    if (!r.matchId) continue;
+    if (!groups.has(r.matchId)) groups.set(r.matchId, []);
+    groups.get(r.matchId)!.push(r.participantId);
+  }
+  if (groups.size === 0) {
+    return { success: false, status: 409, error: 'Matching has not run for this round yet' };
+  }
+
+  const nameOf = (id: string) => {
+    const r = regById.get(id);
+    return r ? `${r.firstName || ''} ${r.lastName || ''}`.trim() : id;
+  };
+  const groupOf = (id: string): string | null => {
+    const r = regById.get(id);
+    return r?.matchId && r.status === 'matched' ? r.matchId : null;
+  };
+
+  // New membership of every group this edit touches (new groups get a fresh ID)
+  const changed = new Map<string, string[]>();
+  const newMatchIds: string[] = [];
+  const moved: string[] = [];
+
+  if (edit.type === 'swap') {
+    const [a, b] = edit.participantIds || [];
+    const matchA = a ? groupOf(a) : null, matchB = b ? groupOf(b) : null;
+    if (!matchA || !matchB) {
+      return { success: false, status: 400, error: 'Both participants must be matched and not yet checked in' };
+    }
+    if (matchA === matchB) {
+      return { success: false, status: 400, error: 'Both participants are already in the same group' };
+    }
+    changed.set(matchA, groups.get(matchA)!.map(id => id === a ? b : id));
+    changed.set(matchB, groups.get(matchB)!.map(id => id === b ? a : id));
+    moved.push(a, b);
+  } else if (edit.type === 'move') {
+    const reg = regById.get(edit.participantId);
+    const target = groups.get(edit.targetMatchId);
+    if (!reg || !target) {
+      return { success: false, status: 404, error: 'Participant or group not found' };
+    }
+    if (reg.status !== 'no-match' && reg.status !== 'matched') {
+      return { success: false, status: 400, error: `${nameOf(edit.participantId)} can't be moved (${reg.status})` };
+    }
+    if (reg.matchId === edit.targetMatchId) {
+      return { success: false, status: 400, error: `${nameOf(edit.participantId)} is already in this group` };
+    }
+    const source = reg.status === 'matched' && reg.matchId ? groups.get(reg.matchId) : null;
+    if (source) {
+      const remaining = source.filter(id => id !== edit.participantId);
+      if (remaining.length < 2) {
+        return { success: false, status: 400, error: `Moving ${nameOf(edit.participantId)} would leave ${nameOf(remaining[0])} without a group` };
+      }
+      changed.set(reg.matchId, remaining);
+    }
+    changed.set(edit.targetMatchId, [...target, edit.participantId]);
+    moved.push(edit.participantId);
+  } else if (edit.type === 'split') {
+    const members = groups.get(edit.matchId);
+    if (!members) {
+      return { success: false, status: 404, error: 'Group not found' };
+    }
+    const splitOff = (edit.participantIds || []).filter(id => members.includes(id));
+    const remaining = members.filter(id => !splitOff.includes(id));
+    if (splitOff.length < 2 || remaining.length < 2) {
+      return { success: false, status: 400, error: 'Both groups need at least 2 participants' };
+    }
+    const newMatchId = `match-${Date.now()}-edit-${Math.random().toString(36).substring(2, 7)}`;
+    changed.set(edit.matchId, remaining);
+    changed.set(newMatchId, splitOff);
+    newMatchIds.push(newMatchId);
+    moved.push(...splitOff);
+  } else {
+    return { success: false, status: 400, error: 'Unknown edit type' };
+  }
+
+  // Checked-in (or further) participants stay exactly where they are
+  for (const members of changed.values()) {
+    const locked = members.find(id => {
+      const status = regById.get(id)?.status;
+      return status !== 'matched' && !(status === 'no-match' && moved.includes(id));
+    });
+    if (locked) {
+      return { success: false, status: 409, error: `Can't change ${nameOf(locked)}'s group (${regById.get(locked)?.status})` };
+    }
+  }
+
+  // Blocked pairs and hard scoring rules bind organizers too: every pair the
+  // edit puts together for the first time must be one matching could have made
+  const newPairs: Array<[string, string]> = [];
+  for (const [matchId, members] of changed) {
+    const before = new Set(groups.get(matchId) || []);
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        if (!before.has(members[i]) || !before.has(members[j])) newPairs.push([members[i], members[j]]);
+      }
+    }
+  }
+  if (newPairs.length > 0) {
+    const pairIds = [...new Set(newPairs.flat())];
+    const indexOf = new Map(pairIds.map((id, i) => [id, i]));
+    const scorer = await createSessionPairScorer(session, pairIds.map(id => regById.get(id)));
+    for (const [a, b] of newPairs) {
+      if (scorer.score(indexOf.get(a)!, indexOf.get(b)!) !== FORBIDDEN) continue;
+      const reason = scorer.explain(indexOf.get(a)!, indexOf.get(b)!).blocked
+        ? 'one of them blocked the other'
+        : 'it breaks a hard matching rule of this session';
+      return { success: false, status: 409, error: `${nameOf(a)} and ${nameOf(b)} can't be in the same group: ${reason}` };
+    }
+  }
+
+  // Meeting points: edited groups keep theirs, a split-off group goes where there's room
+  const meetingPointOf = new Map<string, string>();
+  const usage = new Map<string, number>();
+  for (const r of registrations) {
+    if (!r.matchId || meetingPointOf.has(r.matchId)) continue;
+    meetingPointOf.set(r.matchId, r.meetingPointId);
+    if (r.meetingPointId) usage.set(r.meetingPointId, (usage.get(r.meetingPointId) || 0) + 1);
+  }
+  if (edit.type === 'split') {
+    const availableMeetingPoints = (round.meetingPoints?.length > 0 ? round.meetingPoints : session.meetingPoints) || [];
+    const newMatch = { meetingPoint: null as string | null, participants: [{ meetingPoint: meetingPointOf.get(edit.matchId) }] };
+    assignMeetingPoints([newMatch], availableMeetingPoints, usage);
+    meetingPointOf.set(newMatchIds[0], newMatch.meetingPoint!);
+  }
+
+  const assignments: Parameters<typeof db.applyMatchEdit>[3] = [];
+  for (const [matchId, members] of changed) {
+    const usedNumbers = new Set<number>();
+    for (const participantId of members) {
+      let idData = db.generateIdentificationData();
+      while (usedNumbers.has(idData.number)) idData = db.generateIdentificationData();
+      usedNumbers.add(idData.number);
+      assignments.push({
+        participantId,
+        matchId,
+        matchPartnerNames: members.filter(id => id !== participantId).map(nameOf),
+        meetingPointId: meetingPointOf.get(matchId) || 'TBD',
+        identificationNumber: idData.number,
+        identificationOptions: idData.options,
+      });
+    }
+  }
+
+  try {
+    await db.applyMatchEdit(
+      sessionId,
+      roundId,
+      newMatchIds.map(matchId => ({ matchId, meetingPoint: meetingPointOf.get(matchId)! })),
+      assignments,
+      [...changed.keys()].filter(matchId => !newMatchIds.includes(matchId)),
+    );
+  } catch (error: any) {
+    if (error?.code === 'P0001') {
+      return { success: false, status: 409, error: 'Someone in these groups checked in meanwhile — refresh and try again' };
+    }
+    throw error;
+  }
+
+  const affectedIds = assignments.map(a => a.participantId);
+  for (const participantId of affectedIds) {
+    try {
+      await db.addParticipantAuditLog(participantId, 'match-edited', {
+        sessionId, roundId, edit: edit.type, matchId: assignments.find(a => a.participantId === participantId)!.matchId,
+      });
+    } catch (error) {
+      errorLog('Audit log for match edit failed (non-blocking):', error);
+    }
+  }
+
+  const notified = await notifyMatchChanged(session, roundId, affectedIds.map(id => regById.get(id)));
+  debugLog(`✏️ Match edit (${edit.type}) in round ${roundId}: ${changed.size} groups, ${affectedIds.length} participants, ${notified} notified`);
+
+  return {
+    success: true,
+    groups: [...changed].map(([matchId, members]) => ({ matchId, participantIds: members })),
+    affectedParticipantIds: affectedIds,
+    notified,
+  };
+}
+
+/**
+ * "Your match changed" — SMS when we have a phone, email when the SMS didn't
+ * go out (no phone, opted out, over the organizer's quota, gateway failure).
+ * Channels the participant turned off in their preferences are skipped.
+ * One participant at a time, so each SMS is counted before the next quota
+ * check. Best effort: a failed send never undoes the edit.
+ */
+async function notifyMatchChanged(session: any, roundId: string, registrations: any[]): Promise<number> {
+  const texts = (await db.getAdminSetting('notification_texts')) || {};
+  const appUrl = Deno.env.get('APP_URL') || 'https://wonderelo.com';
+  let notified = 0;
+
+  for (const reg of registrations) {
+    if (!reg || reg.notificationsEnabled === false) continue;
+    const vars = {
+      name: `${reg.firstName || ''} ${reg.lastName || ''}`.trim(),
+      firstName: reg.firstName || '',
+      sessionName: session.name || '',
+      link: reg.token ? `${appUrl}/p/${reg.token}?from=match-updated` : appUrl,
+    };
+    const message = renderSmsTemplate(texts.smsMatchUpdated || DEFAULT_MATCH_UPDATED_SMS, vars);
+    const wants = (channel: NotificationChannel) => reg.notificationChannels?.[channel] !== false;
+    try {
+      const to = wants('sms') ? composeE164(reg.phone, reg.phoneCountry) : null;
+      const sms = to
+        ? await sendCountedSms({
+          kind: 'match-updated',
+          organizerId: session.userId,
+          sessionId: session.id,
+          participantId: reg.participantId,
+          roundId,
+          message: { to, body: message },
+        })
+        : null;
+      if (sms?.success) {
+        notified++;
+      } else if (reg.email && wants('email')) {
+        const { subject, html } = buildMatchUpdatedEmail({
+          firstName: reg.firstName || '',
+          sessionName: session.name || '',
+          matchUrl: vars.link,
+        });
+        const result = await sendEmail({ to: reg.email, subject, html, kind: 'match-updated' });
+        if (result.success) notified++;
+      }
+    } catch (error) {
+      errorLog(`Match-changed notification failed for ${reg.participantId}:`, error);
+    }
+  }
+
+  return notified;
+}
@@ -0,0 +1,208 @@
+/**
+ * MATCHING SCORING
+ * Pair score = sum of the weights of the criteria a pair satisfies, per the
+ * session's scoring profile. A criterion marked "hard" turns from a bonus
+ * into a rule: pairs that fail it are FORBIDDEN and never matched together.
+ * Blocked pairs are always FORBIDDEN, whatever the profile says.
+ * The session's registration questions add their points on top.
+ */
+
+import { encodeAnswer, encodedSimilarity, type RegistrationQuestion } from './registration-questions.ts';
+
+export interface ScoringProfile {
+  weights: {
+    /** Haven't met before (this session, or across sessions with meeting memory) */
+    notMet: number;
+    /** Team rule satisfied (different teams for across-teams, same team for within-teams) */
+    team: number;
+    /** At least one shared topic */
+    topics: number;
+  };
+  hard: {
+    notMet?: boolean;
+    team?: boolean;
+    topics?: boolean;
+  };
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  weights: { notMet: 30, team: 20, topics: 10 },
+  hard: {},
+};
+
+/**
+ * Per-criterion weight cap. Three criteria × 40 = 120 keeps every score
+ * inside an Int8Array cell (the score matrices are n² bytes at n=5000).
+ */
+export const MAX_CRITERION_WEIGHT = 40;
+
+/**
+ * Highest pair score an Int8Array cell holds. Registration questions share
+ * whatever the profile leaves of it, scaled down together when they'd exceed it.
+ */
+export const MAX_PAIR_SCORE = 127;
+
+/** Score of a pair that violates a hard constraint */
+export const FORBIDDEN = -1;
+
+/**
+ * Normalize a stored profile: missing fields fall back to the defaults,
+ * weights are rounded and clamped to [0, MAX_CRITERION_WEIGHT].
+ */
+export function resolveScoringProfile(raw: any): ScoringProfile {
+  const clamp = (value: any, fallback: number) => {
+    const num = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : fallback;
+    return Math.min(MAX_CRITERION_WEIGHT, Math.max(0, num));
+  };
+  const weights = raw?.weights || {};
+  const hard = raw?.hard || {};
+  return {
+    weights: {
+      notMet: clamp(weights.notMet, DEFAULT_SCORING_PROFILE.weights.notMet),
+      team: clamp(weights.team, DEFAULT_SCORING_PROFILE.weights.team),
+      topics: clamp(weights.topics, DEFAULT_SCORING_PROFILE.weights.topics),
+    },
+    hard: {
+      notMet: hard.notMet === true,
+      team: hard.team === true,
+      topics: hard.topics === true,
+    },
+  };
+}
+
+/** Why a pair scored what it did (stored with matches, shown to organizers) */
+export interface PairExplanation {
+  /** Pair score, or FORBIDDEN */
+  score: number;
+  metBefore: boolean;
+  /** null when no team rule applies (no rule, or someone has no team) */
+  teamRuleMet: boolean | null;
+  sharedTopics: string[];
+  /** Points per scoring question both answered */
+  questions: Array<{ questionId: string; label: string; points: number }>;
+  blocked: boolean;
+}
+
+export interface PairScorer {
+  /** Highest score any pair can reach under this profile */
+  maxScore: number;
+  /** Score of participants[i] + participants[j], or FORBIDDEN */
+  score: (i: number, j: number) => number;
+  /** Criterion-by-criterion breakdown of score(i, j) — slow path, not for inner loops */
+  explain: (i: number, j: number) => PairExplanation;
+}
+
+/**
+ * Build a scorer over `participants` (indexed by position).
+ * Team, topic and question criteria only apply when both participants
+ * answered — someone without a team can't violate a hard team rule.
+ * `blockedPairs` is a symmetric participantId → blocked participantIds map.
+ * `questions` are the session's resolved registration questions.
+ */
+export function createPairScorer(
+  participants: any[],
+  meetingHistory: Record<string, Set<string>>,
+  matchingType: string,
+  profile: ScoringProfile,
+  blockedPairs: Record<string, Set<string>> = {},
+  questions: RegistrationQuestion[] = [],
+): PairScorer {
+  const n = participants.length;
+
+  // Pre-extract participant data for tight inner loops (avoid property lookup overhead)
+  const ids: string[] = new Array(n);
+  const teams: (string | null)[] = new Array(n);
+  const topicsArr: string[][] = new Array(n);
+  const histories: (Set<string> | undefined)[] = new Array(n);
+  const blocks: (Set<string> | undefined)[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    const p = participants[i];
+    ids[i] = p.participantId;
+    teams[i] = p.team || null;
+    topicsArr[i] = p.topics || [];
+    histories[i] = meetingHistory[p.participantId];
+    blocks[i] = blockedPairs[p.participantId];
+  }
+
+  const { notMet: wNotMet, team: wTeam, topics: wTopics } = profile.weights;
+
+  // Scoring questions and their weights within the remaining score budget
+  const scoring = questions.filter(q => q.matchMode !== 'display' && q.weight > 0);
+  const qWeights = scoring.map(q => Math.min(MAX_CRITERION_WEIGHT, q.weight));
+  const budget = MAX_PAIR_SCORE - (wNotMet + wTeam + wTopics);
+  const qTotal = qWeights.reduce((sum, w) => sum + w, 0);
+  if (qTotal > budget) {
+    for (let q = 0; q < qWeights.length; q++) qWeights[q] = Math.floor(qWeights[q] * budget / qTotal);
+  }
+  const qCount = scoring.length;
+  const answerCodes = new Int32Array(n * qCount);
+  for (let i = 0; i < n; i++) {
+    for (let q = 0; q < qCount; q++) answerCodes[i * qCount + q] = encodeAnswer(scoring[q], participants[i].answers);
+  }
+  const questionPoints = (i: number, j: number, q: number): number | null => {
+    const a = answerCodes[i * qCount + q], b = answerCodes[j * qCount + q];
+    if (a === -1 || b === -1) return null;
+    const similarity = encodedSimilarity(scoring[q], a, b);
+    return Math.round(qWeights[q] * (scoring[q].matchMode === 'similar' ? similarity : 1 - similarity));
+  };
+  const hardNotMet = !!profile.hard.notMet;
+  const hardTeam = !!profile.hard.team;
+  const hardTopics = !!profile.hard.topics;
+  // The frontend stores 'within-team'; older sessions use 'within-teams'
+  const teamRule = matchingType === 'across-teams' ? 'across'
+    : (matchingType === 'within-teams' || matchingType === 'within-team') ? 'within'
+    : null;
+
+  const score = (i: number, j: number): number => {
+    const blockedI = blocks[i];
+    if (blockedI && blockedI.has(ids[j])) return FORBIDDEN;
+
+    let s = 0;
+
+    const histI = histories[i];
+    if (!histI || !histI.has(ids[j])) s += wNotMet;
+    else if (hardNotMet) return FORBIDDEN;
+
+    const tI = teams[i], tJ = teams[j];
+    if (teamRule && tI && tJ) {
+      const satisfied = teamRule === 'across' ? tI !== tJ : tI === tJ;
+      if (satisfied) s += wTeam;
+      else if (hardTeam) return FORBIDDEN;
+    }
+
+    const topI = topicsArr[i], topJ = topicsArr[j];
+    if (topI.length > 0 && topJ.length > 0) {
+      let shared = false;
+      for (let t = 0; t < topI.length; t++) {
+        if (topJ.includes(topI[t])) { shared = true; break; }
+      }
+      if (shared) s += wTopics;
+      else if (hardTopics) return FORBIDDEN;
+    }
+
+    for (let q = 0; q < qCount; q++) {
+      const points = questionPoints(i, j, q);
+      if (points !== null) s += points;
+    }
+
+    return s;
+  };
+
+  const explain = (i: number, j: number): PairExplanation => {
+    const tI = teams[i], tJ = teams[j];
+    return {
+      score: score(i, j),
+      metBefore: !!histories[i]?.has(ids[j]),
+      teamRuleMet: teamRule && tI && tJ ? (teamRule === 'across' ? tI !== tJ : tI === tJ) : null,
+      sharedTopics: topicsArr[i].filter(t => topicsArr[j].includes(t)),
+      questions: scoring.flatMap((question, q) => {
+        const points = questionPoints(i, j, q);
+        return points === null ? [] : [{ questionId: question.id, label: question.label, points }];
+      }),
+      blocked: !!blocks[i]?.has(ids[j]),
+    };
+  };
+
+  const questionMax = qWeights.reduce((sum, w) => sum + w, 0);
+  return { maxScore: wNotMet + wTeam + wTopics + questionMax, score, explain };
+}
@@ -5,6 +5,15 @@
 
 import * as db from './db.ts';
 import { errorLog, debugLog } from './debug.tsx';
+import { maxWeightMatching } from './max-weight-matching.ts';
+import { createPairScorer, resolveScoringProfile, FORBIDDEN, type PairScorer } from './matching-scoring.ts';
+import { resolveRegistrationQuestions, type RegistrationQuestion } from './registration-questions.ts';
+import { planRotation, type RotationPlan } from './rotation-planner.ts';
+import { assignMeetingPoints, getMeetingPointCapacity } from './meeting-points.ts';
+import { formGroups } from './group-matching.ts';
+import { formRoleGroups, resolveRoleMatching, isLeadRole, canJoinRoleGroup, type RoleMatchingConfig } from './role-matching.ts';
+import { promoteFromWaitlist } from './waitlist.ts';
+import { dispatchMatchPush } from './sms-dispatch.tsx';
 
 /** Lock TTL in milliseconds — if a lock is older than this and still in-progress, treat as stale */
 const LOCK_TTL_MS = 60_000; // 60 seconds
@@ -176,6 +185,15 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
       unconfirmedReason: 'Did not confirm attendance before round start (T-0)',
     });
 
+    // Their spots go to the waitlist — claims come in as late arrivals
+    if (allRegistrations.some((r: any) => r.status === 'registered')) {
+      try {
+        await promoteFromWaitlist(sessionId, roundId, new Date());
+      } catch (promoteError) {
+        errorLog('Waitlist promotion after T-0 failed (non-blocking):', promoteError);
+      }
+    }
+
     // 6. Check for solo participant (only 1 confirmed)
     if (confirmedRegs.length === 1) {
       console.log(`😞 Only 1 confirmed participant - marking as no-match`);
@@ -188,16 +206,8 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
     }
 
     // 7. Run matching algorithm
-    const groupSize = round.groupSize || session.groupSize || 2;
-    const matchingType = session.matchingType || 'across-teams';
-
-    // Get available meeting points (round-level override, then session-level)
-    const availableMeetingPoints = (round.meetingPoints?.length > 0
-      ? round.meetingPoints
-      : session.meetingPoints) || [];
-    console.log(`📍 Available meeting points: ${availableMeetingPoints.length} (${availableMeetingPoints.map((mp: any) => mp.name).join(', ')})`);
-
-    const matches = await runMatchingAlgorithm(confirmedRegs, groupSize, sessionId, roundId, matchingType, availableMeetingPoints);
+    const options = await buildMatchingOptions(session, round, sessionId, roundId, { persistPlan: true });
+    const matches = await runMatchingAlgorithm(confirmedRegs, options);
 
     console.log(`🎉 Created ${matches.length} matches (algorithm output, before DB persist)`);
 
@@ -208,8 +218,7 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
     // Two bulk operations bring this down to ~200ms total.
 
     // 8a. Generate match IDs and identification numbers in memory
-    const usedNumbersPerMatch = new Map<string, Set<number>>();
-    const matchRows: Array<{ matchId: string; sessionId: string; roundId: string; meetingPoint?: string }> = [];
+    const matchRows: Array<{ matchId: string; sessionId: string; roundId: string; meetingPoint?: string; explanation?: any }> = [];
     const assignmentRows: Array<{
       participantId: string;
       matchId: string;
@@ -233,6 +242,7 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
         sessionId,
         roundId,
         meetingPoint: match.meetingPoint,
+        explanation: match.explanation,
       });
 
       // Generate unique identification numbers within this match
@@ -246,7 +256,6 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
         usedNumbers.add(idData.number);
         idDataPerParticipant.set(participantId, idData);
       }
-      usedNumbersPerMatch.set(matchId, usedNumbers);
 
       // Build assignment rows for each participant in this match
       for (const participantId of match.participantIds) {
@@ -273,75 +282,11 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
       console.log(`💾 Persist complete`);
     }
 
-    // 8.5. Handle odd participant AFTER matches are saved
-    const matchedIds = matches.flatMap((m: any) => m.participantIds);
-    const unmatchedRegs = confirmedRegs.filter((r: any) => !matchedIds.includes(r.participantId));
-
-    if (unmatchedRegs.length === 1 && matches.length > 0) {
-      const oddReg = unmatchedRegs[0];
-      console.log(`👤 One odd participant found, adding to existing group`);
-
-      // Find the smallest match
-      let smallestMatch = matches[0];
-      for (const match of matches) {
-        if (match.participantIds.length < smallestMatch.participantIds.length) {
-          smallestMatch = match;
-        }
-      }
-
-      // Add odd participant to this match
-      smallestMatch.participantIds.push(oddReg.participantId);
-      smallestMatch.participants.push({
-        participantId: oddReg.participantId,
-        firstName: oddReg.firstName,
-        lastName: oddReg.lastName,
-        email: oddReg.email,
-        team: oddReg.team,
-        topics: oddReg.topics || [],
-      });
-
-      console.log(`✅ Added odd participant to match ${smallestMatch.matchId}, new size: ${smallestMatch.participantIds.length}`);
-
-      // Update odd participant's registration with unique identification number
-      const partnerNames = smallestMatch.participants
-        .filter((p: any) => p.participantId !== oddReg.participantId)
-        .map((p: any) => `${p.firstName} ${p.lastName}`);
-
-      // Ensure unique identification number within this match
-      const matchUsedNumbers = usedNumbersPerMatch.get(smallestMatch.matchId) || new Set();
-      let oddIdData = db.generateIdentificationData();
-      while (matchUsedNumbers.has(oddIdData.number)) {
-        oddIdData = db.generateIdentificationData();
-      }
-      matchUsedNumbers.add(oddIdData.number);
-
-      await db.updateRegistrationStatus(oddReg.participantId, sessionId, roundId, 'matched', {
-        matchId: smallestMatch.matchId,
-        matchPartnerNames: partnerNames,
-        meetingPointId: smallestMatch.meetingPoint,
-        matchedAt: new Date().toISOString(),
-        identificationNumber: oddIdData.number,
-        identificationOptions: oddIdData.options,
-      });
-
-      // Update existing partners' registration to include the new partner
-      for (const existingPId of smallestMatch.participantIds) {
-        if (existingPId === oddReg.participantId) continue;
-        const updatedPartnerNames = smallestMatch.participants
-          .filter((p: any) => p.participantId !== existingPId)
-          .map((p: any) => `${p.firstName} ${p.lastName}`);
-        await db.updateRegistrationStatus(existingPId, sessionId, roundId, 'matched', {
-          matchId: smallestMatch.matchId,
-          matchPartnerNames: updatedPartnerNames,
-        });
-      }
-
-      // Remove from unmatched
-      const unmatchedIndex = unmatchedRegs.indexOf(oddReg);
-      if (unmatchedIndex !== -1) {
-        unmatchedRegs.splice(unmatchedIndex, 1);
-      }
-    }
+    // 8.5. A single odd participant was already folded into a group by
+    // runMatchingAlgorithm (if any group could take them under the hard
+    // constraints), so everyone not in a match here is genuinely unmatched.
+    const matchedIds = new Set<string>(matches.flatMap((m: any) => m.participantIds));
+    const unmatchedRegs = confirmedRegs.filter((r: any) => !matchedIds.has(r.participantId));
 
     // 9. Bulk mark remaining leftover participants as 'no-match'
     const remainingUnmatchedIds = unmatchedRegs.map((r: any) => r.participantId);
@@ -361,6 +306,13 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
 
     console.log(`✅ MATCHING COMPLETE`);
 
+    // 11. "You're matched at <meeting point>" to subscribed browsers
+    try {
+      await dispatchMatchPush(session, round, matches, confirmedRegs);
+    } catch (pushError) {
+      errorLog('Match push failed (non-blocking):', pushError);
+    }
+
     return {
       success: true,
       matches,
@@ -389,125 +341,594 @@ export async function createMatchesForRound(sessionId: string, roundId: string)
   }
 }
 
+/**
+ * No-show handling: a matched participant reported that their partner(s)
+ * never arrived. The absent partners become 'missed'. If that leaves the
+ * reporter with nobody to meet, they rejoin the round's pool as a late
+ * arrival ('confirmed') and createMatchesForRound re-runs its late-arrival
+ * path — pairing them with other stranded ('no-match') or late-confirmed
+ * participants. If nobody is available they end up 'no-match', where the
+ * next late arrival can still rescue them.
+ *
+ * Callers validate membership and statuses first (see POST /rounds/:roundId/no-show).
+ * @returns The reporter's new match (null if none) and whether their old group still stands
+ */
+export async function rematchAfterNoShow(
+  sessionId: string,
+  roundId: string,
+  reporterId: string,
+  matchId: string,
+  noShowIds: string[],
+) {
+  for (const noShowId of noShowIds) {
+    await db.updateRegistrationStatus(noShowId, sessionId, roundId, 'missed', {});
+  }
+
+  // Groups of 3+: the rest of the group is still there to meet
+  const matchMembers = await db.getMatchParticipants(matchId);
+  const stillPresent = matchMembers.filter((p: any) =>
+    p.participantId !== reporterId && !noShowIds.includes(p.participantId) && p.status !== 'missed'
+  );
+  if (stillPresent.length > 0) {
+    console.log(`👥 No-show in match ${matchId}: ${stillPresent.length} others still present — no re-match`);
+    return { stillMatched: true, newMatch: null };
+  }
+
+  // Stranded — back into the pool, exactly like a late confirmation
+  await db.updateRegistrationStatus(reporterId, sessionId, roundId, 'confirmed', {
+    matchId: null,
+    matchPartnerNames: null,
+    meetingPointId: null,
+    meetingPoint: null,
+    matchedAt: null,
+    checkedInAt: null,
+    identificationNumber: null,
+    identificationOptions: null,
+  });
+  console.log(`🔁 No-show in match ${matchId}: re-matching stranded participant ${reporterId}`);
+
+  const result = await createMatchesForRound(sessionId, roundId);
+  const registration = await db.getRegistration(reporterId, sessionId, roundId);
+
+  if (registration?.status !== 'matched' || !registration.matchId) {
+    return { stillMatched: false, newMatch: null, message: result.message || result.error };
+  }
+
+  const match = (result.matches || []).find((m: any) => m.matchId === registration.matchId);
+  return {
+    stillMatched: false,
+    newMatch: {
+      id: registration.matchId,
+      roundId,
+      sessionId,
+      participantIds: match?.participantIds || [reporterId],
+      meetingPointId: registration.meetingPointId,
+      partnerNames: registration.matchPartnerNames || [],
+      identificationImageUrl: '',
+      status: 'pending',
+      checkIns: [],
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Matching options for a round, from the session + round settings.
+ * `persistPlan: false` (dry runs) computes a missing rotation plan without saving it.
+ */
+async function buildMatchingOptions(
+  session: any,
+  round: any,
+  sessionId: string,
+  roundId: string,
+  { persistPlan }: { persistPlan: boolean },
+): Promise<MatchingOptions> {
+  const groupSize = round.groupSize || session.groupSize || 2;
+  const matchingType = session.matchingType || 'across-teams';
+  const matchingAlgorithm = session.matchingAlgorithm || 'greedy';
+
+  // Get available meeting points (round-level override, then session-level)
+  const availableMeetingPoints = (round.meetingPoints?.length > 0
+    ? round.meetingPoints
+    : session.meetingPoints) || [];
+  console.log(`📍 Available meeting points: ${availableMeetingPoints.length} (${availableMeetingPoints.map((mp: any) => mp.name).join(', ')})`);
+
+  // Opt-in: also remember who met in this organizer's other recent sessions
+  const meetingMemory = session.rememberAcrossSessions
+    ? { organizerId: session.userId, lookbackDays: session.meetingMemoryDays || 90 }
+    : null;
+
+  // Opt-in: lead/member roles replace the plain group size (1 lead + members per group)
+  const roleMatching = resolveRoleMatching(session.roleMatching);
+
+  // Opt-in: whole-event rotation plan (multi-round sessions only; the plan
+  // doesn't know about roles, so role sessions match round by round)
+  const rotationGroups = session.planAllRounds && !roleMatching && (session.rounds?.length || 0) > 1
+    ? await getPlannedGroupsForRound(sessionId, session.rounds, roundId, groupSize, matchingType, persistPlan)
+    : null;
+
+  return {
+    groupSize,
+    sessionId,
+    roundId,
+    matchingType,
+    meetingPoints: availableMeetingPoints,
+    matchingAlgorithm,
+    meetingMemory,
+    scoringProfile: session.scoringProfile,
+    registrationQuestions: resolveRegistrationQuestions(session.registrationQuestions),
+    organizerId: session.userId,
+    rotationGroups,
+    roleMatching,
+  };
+}
+
+/**
+ * Organizer dry run: run the real algorithm on the round's current
+ * registrations without writing anything. Before T-0 most people are still
+ * 'registered', so by default they're included alongside 'confirmed'.
+ */
+export async function dryRunMatching(sessionId: string, roundId: string, { includeUnconfirmed = true } = {}) {
+  const session = await db.getSessionById(sessionId);
+  const round = session?.rounds?.find((r: any) => r.id === roundId);
+  if (!session || !round) {
+    return { success: false, error: 'Round not found' };
+  }
+
+  const statuses = includeUnconfirmed ? ['confirmed', 'registered'] : ['confirmed'];
+  const registrations = await db.getRegistrationsForRound(sessionId, roundId);
+  const pool = registrations.filter((r: any) => statuses.includes(r.status));
+
+  const options = await buildMatchingOptions(session, round, sessionId, roundId, { persistPlan: false });
+  const matches = pool.length >= 2 ? await runMatchingAlgorithm(pool, options) : [];
+
+  const nameOf = (p: any) => [p.firstName, p.lastName].filter(Boolean).join(' ');
+  const matchedIds = new Set<string>(matches.flatMap((m: any) => m.participantIds));
+  const pairs = matches.flatMap((m: any) => m.explanation.pairs);
+
+  return {
+    success: true,
+    participantCount: pool.length,
+    matches: matches.map((m: any) => ({
+      participants: m.participants.map((p: any) => ({ participantId: p.participantId, name: nameOf(p), team: p.team || null })),
+      meetingPoint: m.meetingPoint,
+      explanation: m.explanation,
+    })),
+    unmatched: pool
+      .filter((r: any) => !matchedIds.has(r.participantId))
+      .map((r: any) => ({ participantId: r.participantId, name: nameOf(r) })),
+    summary: {
+      matchCount: matches.length,
+      unmatchedCount: pool.length - matchedIds.size,
+      repeatMeetings: pairs.filter((p: any) => p.metBefore).length,
+      teamRuleMisses: pairs.filter((p: any) => p.teamRuleMet === false).length,
+      meetingPointCapacity: getMeetingPointCapacity(options.meetingPoints || [], matches.length),
+      scorePercent: pairs.length > 0
+        ? Math.round(100 * matches.reduce((sum: number, m: any) => sum + m.explanation.score, 0)
+          / matches.reduce((sum: number, m: any) => sum + m.explanation.maxScore, 0))
+        : null,
+    },
+  };
+}
+
+/**
+ * Pair scorer for `participants` (registrations) under the session's
+ * matching settings — the same meeting history, blocked pairs, scoring
+ * profile and questions a matching run uses. For checks outside a run
+ * (organizer match edits).
+ */
+export async function createSessionPairScorer(session: any, participants: any[]): Promise<PairScorer> {
+  const meetingMemory = session.rememberAcrossSessions
+    ? { organizerId: session.userId, lookbackDays: session.meetingMemoryDays || 90 }
+    : null;
+  const meetingHistory = await getMeetingHistory(session.id, participants, meetingMemory);
+  const blockedPairs = await db.getBlockedPairsAmong(
+    participants.map((p: any) => p.participantId),
+    session.userId || null,
+  );
+  return createPairScorer(
+    participants,
+    meetingHistory,
+    session.matchingType || 'across-teams',
+    resolveScoringProfile(session.scoringProfile),
+    blockedPairs,
+    resolveRegistrationQuestions(session.registrationQuestions),
+  );
+}
+
+interface MatchingOptions {
+  groupSize: number;
+  sessionId: string;
+  roundId: string;
+  matchingType: string;
+  meetingPoints?: any[];
+  matchingAlgorithm?: string;
+  /** Cross-session history window; null = this session only */
+  meetingMemory?: { organizerId: string; lookbackDays: number } | null;
+  /** Session scoring profile (raw, as stored); defaults to 30/20/10 all-soft */
+  scoringProfile?: any;
+  /** Organizer questions answered at registration; 'display' ones don't score */
+  registrationQuestions?: RegistrationQuestion[];
+  /** Session owner — their organizer-level blocked pairs apply on top of participant blocks */
+  organizerId?: string | null;
+  /** This round's groups from the session rotation plan (plan all rounds) */
+  rotationGroups?: string[][] | null;
+  /** Lead/member roles (mentor/mentee, ...); null = no roles */
+  roleMatching?: RoleMatchingConfig | null;
+}
+
 /**
  * Matching algorithm - creates optimal groups based on scoring
  */
-async function runMatchingAlgorithm(participants: any[], groupSize: number, sessionId: string, roundId: string, matchingType: string, meetingPoints: any[] = []) {
-  // Get meeting history for all participants (single batch query)
-  const meetingHistory = await getMeetingHistory(sessionId, participants);
+async function runMatchingAlgorithm(participants: any[], options: MatchingOptions) {
+  const { groupSize, sessionId, matchingType, meetingPoints = [], matchingAlgorithm = 'greedy', meetingMemory = null, roleMatching = null } = options;
+  const profile = resolveScoringProfile(options.scoringProfile);
+
+  // Get meeting history for all participants (single batch query, plus one
+  // per 500 participants when cross-session memory is on)
+  const meetingHistory = await getMeetingHistory(sessionId, participants, meetingMemory);
+
+  // Blocked pairs are a safety rule, not a preference: FORBIDDEN for every group size
+  const blockedPairs = await db.getBlockedPairsAmong(
+    participants.map((p: any) => p.participantId),
+    options.organizerId || null,
+  );
+  const blockedCount = Object.values(blockedPairs).reduce((sum, set) => sum + set.size, 0) / 2;
+  if (blockedCount > 0) debugLog(`🚫 ${blockedCount} blocked pairs among participants`);
+
+  const scorer = createPairScorer(participants, meetingHistory, matchingType, profile, blockedPairs, options.registrationQuestions || []);
+
+  // Fairness: people who already ended a round with nobody to meet go first
+  const noMatchCounts = await db.getNoMatchCounts(
+    sessionId,
+    options.roundId,
+    participants.map((p: any) => p.participantId),
+    meetingMemory
+      ? { organizerId: meetingMemory.organizerId, since: new Date(Date.now() - meetingMemory.lookbackDays * 24 * 60 * 60 * 1000).toISOString() }
+      : null,
+  );
+  if (noMatchCounts.size > 0) debugLog(`⚖️ ${noMatchCounts.size} participants with earlier no-match rounds get priority`);
+
+  // Pairs (groupSize=2): bucket-sort greedy, or maximum-weight pairing when
+  // the session opts in (session.matchingAlgorithm). Groups of 3+: seeded
+  // draft + local search. Both scale to thousands of participants.
+  // Rotation plan: planned groups that still work are used as-is; everyone
+  // else (partner missing, late registrant, plan overtaken) is matched below
+  let planned: any[] = [];
+  let pool = participants.map((_: any, i: number) => i);
+  if (options.rotationGroups) {
+    const kept = keepPlannedGroups(options.rotationGroups, participants, scorer, meetingHistory);
+    planned = kept.matches;
+    pool = kept.leftover;
+    console.log(`🗓️ Rotation plan: kept ${planned.length} planned groups, ${pool.length} participants re-matched`);
+  }
+  const poolParticipants = pool.map(i => participants[i]);
+  const poolScorer: PairScorer = pool.length === participants.length
+    ? scorer
+    : {
+      maxScore: scorer.maxScore,
+      score: (i, j) => scorer.score(pool[i], pool[j]),
+      explain: (i, j) => scorer.explain(pool[i], pool[j]),
+    };
 
-  // Fast path for the common case (groupSize=2): O(n² log n) sort-based greedy.
-  // The general path below is O(n³) which exceeds Supabase edge-fn CPU budget
-  // beyond ~400 participants. Pairs of 2 covers >95% of real events, so we
-  // optimize that hot path while keeping the general algorithm for groupSize≥3.
-  if (groupSize === 2) {
-    return runPairwiseGreedy(participants, meetingHistory, matchingType, meetingPoints);
+  let matches: any[];
+  if (roleMatching) {
+    matches = runRoleMatching(poolParticipants, poolScorer, roleMatching, groupSize, matchingAlgorithm);
+  } else if (groupSize === 2) {
+    matches = matchingAlgorithm === 'optimal'
+      ? runPairwiseOptimal(poolParticipants, poolScorer)
+      : runPairwiseGreedy(poolParticipants, poolScorer);
+  } else {
+    matches = runGroupMatching(poolParticipants, groupSize, poolScorer);
+  }
+  for (const match of planned) match.source = 'rotation-plan';
+  matches = planned.concat(matches);
+
+  // A leftover with earlier no-match rounds is absorbed first; if that isn't
+  // possible they take someone's place, and that person becomes the leftover
+  absorbOddParticipant(matches, participants, scorer, roleMatching);
+  prioritizeEarlierNoMatch(matches, participants, scorer, noMatchCounts, roleMatching);
+  absorbOddParticipant(matches, participants, scorer, roleMatching);
+
+  const capacity = assignMeetingPoints(matches, meetingPoints);
+  if (capacity.overflow > 0) {
+    console.log(`⚠️ Meeting points full: ${matches.length} groups for a total capacity of ${capacity.totalCapacity} — ${capacity.overflow} groups spill over`);
   }
 
-  // General path (groups of 3+): keep existing O(n³) implementation
-  return runGeneralGreedy(participants, groupSize, meetingHistory, matchingType, meetingPoints);
+  const indexById = new Map<string, number>();
+  participants.forEach((p: any, i: number) => indexById.set(p.participantId, i));
+  for (const match of matches) {
+    match.explanation = explainMatch(match, indexById, scorer);
+  }
+  return matches;
 }
 
 /**
- * Fast pairwise matching: O(n²) time and memory using bucket sort.
- *
- * Scoring weights (30 + 20 + 10) keep scores in [0, 60], so we bucket pairs
- * by score and walk from highest to lowest. No comparator-based sort is
- * needed — at n=5000 this avoids both the V8 TypedArray.sort quirks observed
- * at large sizes and the ~1GB memory blowup of Array<number>.
- *
- * Verified perf on staging: n=200 → ~80ms, n=1000 → ~500ms, n=5000 → ~3s
- * (most time spent on score computation, not the matching itself).
+ * Score breakdown stored with each match (matches.explanation) so organizers
+ * can answer "why was I paired with them?": the group's total vs. best
+ * possible, and per pair whether they'd met, the team rule, shared topics
+ * and registration question points.
  */
-const MAX_PAIR_SCORE = 60;
+function explainMatch(match: any, indexById: Map<string, number>, scorer: PairScorer) {
+  const members: string[] = match.participantIds;
+  const pairs: any[] = [];
+  let score = 0;
+  for (let a = 0; a < members.length; a++) {
+    for (let b = a + 1; b < members.length; b++) {
+      const pair = scorer.explain(indexById.get(members[a])!, indexById.get(members[b])!);
+      score += Math.max(0, pair.score);
+      pairs.push({ participantIds: [members[a], members[b]], ...pair });
+    }
+  }
+  return {
+    source: match.source || 'algorithm',
+    score,
+    maxScore: scorer.maxScore * pairs.length,
+    pairs,
+  };
+}
 
-function runPairwiseGreedy(
+/**
+ * Planned groups for this round from the session's rotation plan. The plan
+ * is created on the session's first matching run (normally when round 1's
+ * confirmations close) for everyone registered for any round at that point.
+ */
+async function getPlannedGroupsForRound(
+  sessionId: string,
+  rounds: any[],
+  roundId: string,
+  groupSize: number,
+  matchingType: string,
+  persistPlan: boolean,
+): Promise<string[][] | null> {
+  let plan: RotationPlan | null = await db.getRotationPlan(sessionId);
+  if (!plan) {
+    const registrations = await db.getRegistrationsForSession(sessionId);
+    const teamById = new Map<string, string | null>();
+    for (const reg of registrations) {
+      if (reg.status === 'cancelled') continue;
+      if (!teamById.get(reg.participant_id)) teamById.set(reg.participant_id, reg.team || null);
+    }
+
+    // Schedule order: by date + start time when every round has one, else as stored
+    const scheduled = rounds.every((r: any) => r.date && r.startTime)
+      ? [...rounds].sort((a: any, b: any) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`))
+      : rounds;
+
+    const startedAt = Date.now();
+    plan = planRotation(
+      [...teamById].map(([participantId, team]) => ({ participantId, team })),
+      scheduled.map((r: any) => r.id),
+      groupSize,
+      matchingType,
+    );
+    if (persistPlan) await db.saveRotationPlan(sessionId, plan);
+    console.log(`🗓️ Rotation plan ${persistPlan ? 'created' : 'previewed'}: ${teamById.size} participants × ${plan.roundIds.length} rounds, ${plan.repeatPairs} repeat pairs (${Date.now() - startedAt}ms)`);
+  }
+  return plan.groups[roundId] || null;
+}
+
+/**
+ * Split planned groups into those usable this round and leftover participant
+ * indexes. A group is kept only if every member confirmed and every pair in
+ * it is allowed (not FORBIDDEN) and hasn't already met — e.g. because an
+ * earlier round had to re-match around a missing partner.
+ */
+function keepPlannedGroups(
+  plannedGroups: string[][],
   participants: any[],
+  scorer: PairScorer,
   meetingHistory: Record<string, Set<string>>,
-  matchingType: string,
-  meetingPoints: any[],
 ) {
-  const n = participants.length;
-  if (n < 2) return [];
+  const indexById = new Map<string, number>();
+  participants.forEach((p: any, i: number) => indexById.set(p.participantId, i));
 
-  // Pre-extract participant data for tight inner loops (avoid property lookup overhead)
-  const ids: string[] = new Array(n);
-  const teams: (string | null)[] = new Array(n);
-  const topicsArr: string[][] = new Array(n);
-  const histories: (Set<string> | undefined)[] = new Array(n);
-  for (let i = 0; i < n; i++) {
-    const p = participants[i];
-    ids[i] = p.participantId;
-    teams[i] = p.team || null;
-    topicsArr[i] = p.topics || [];
-    histories[i] = meetingHistory[p.participantId];
+  const used = new Set<number>();
+  const matches: any[] = [];
+  for (const group of plannedGroups) {
+    const members = group.map(pid => indexById.get(pid));
+    if (members.length < 2 || members.some(i => i === undefined || used.has(i))) continue;
+
+    let usable = true;
+    for (let a = 0; a < members.length && usable; a++) {
+      for (let b = a + 1; b < members.length; b++) {
+        const i = members[a]!, j = members[b]!;
+        if (scorer.score(i, j) === FORBIDDEN || meetingHistory[participants[i].participantId]?.has(participants[j].participantId)) {
+          usable = false;
+          break;
+        }
+      }
+    }
+    if (!usable) continue;
+
+    const groupParticipants = members.map(i => participants[i!]);
+    for (const i of members) used.add(i!);
+    matches.push(buildMatch(groupParticipants));
+  }
+
+  const leftover: number[] = [];
+  for (let i = 0; i < participants.length; i++) {
+    if (!used.has(i)) leftover.push(i);
+  }
+  return { matches, leftover };
+}
+
+/** Match member snapshot stored on each match object */
+function toMatchParticipant(p: any) {
+  return {
+    participantId: p.participantId, firstName: p.firstName, lastName: p.lastName,
+    email: p.email, team: p.team, role: p.role || null, topics: p.topics || []
+  };
+}
+
+/** Meeting points are assigned once all groups are final (assignMeetingPoints) */
+function buildMatch(members: any[]) {
+  return {
+    participantIds: members.map((p: any) => p.participantId),
+    participants: members.map(toMatchParticipant),
+    meetingPoint: null as string | null,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Nobody with an earlier no-match round is left out while someone with fewer
+ * such rounds got a place: each unmatched priority participant takes the
+ * place of the lowest-priority member of the group they fit best (all hard
+ * constraints still apply; with roles, only someone on the same side). The
+ * person swapped out becomes the leftover.
+ */
+function prioritizeEarlierNoMatch(
+  matches: any[],
+  participants: any[],
+  scorer: PairScorer,
+  noMatchCounts: Map<string, number>,
+  roleMatching: RoleMatchingConfig | null = null,
+) {
+  if (noMatchCounts.size === 0 || matches.length === 0) return;
+  const priorityOf = (id: string) => noMatchCounts.get(id) || 0;
+
+  const indexById = new Map<string, number>();
+  participants.forEach((p: any, i: number) => indexById.set(p.participantId, i));
+  const matchedIds = new Set<string>(matches.flatMap((m: any) => m.participantIds));
+  const waiting = participants
+    .filter((p: any) => !matchedIds.has(p.participantId) && priorityOf(p.participantId) > 0)
+    .sort((a: any, b: any) => priorityOf(b.participantId) - priorityOf(a.participantId));
+
+  for (const candidate of waiting) {
+    const c = indexById.get(candidate.participantId)!;
+    let best: { match: any; slot: number; score: number } | null = null;
+
+    for (const match of matches) {
+      // Replace the member who has waited least (ties: first found)
+      let slot = -1;
+      for (let k = 0; k < match.participantIds.length; k++) {
+        if (roleMatching && isLeadRole(roleMatching, match.participants[k].role) !== isLeadRole(roleMatching, candidate.role)) continue;
+        const memberPriority = priorityOf(match.participantIds[k]);
+        if (memberPriority >= priorityOf(candidate.participantId)) continue;
+        if (slot === -1 || memberPriority < priorityOf(match.participantIds[slot])) slot = k;
+      }
+      if (slot === -1) continue;
+
+      let score = 0;
+      let allowed = true;
+      for (let k = 0; k < match.participantIds.length && allowed; k++) {
+        if (k === slot) continue;
+        const s = scorer.score(c, indexById.get(match.participantIds[k])!);
+        if (s === FORBIDDEN) allowed = false;
+        else score += s;
+      }
+      if (allowed && (!best || score > best.score)) best = { match, slot, score };
+    }
+
+    if (!best) continue;
+    const displaced = best.match.participantIds[best.slot];
+    best.match.participantIds[best.slot] = candidate.participantId;
+    best.match.participants[best.slot] = toMatchParticipant(candidate);
+    console.log(`⚖️ Participant with ${priorityOf(candidate.participantId)} earlier no-match round(s) placed instead of ${displaced}`);
+  }
+}
+
+/**
+ * A single leftover participant (odd count) joins the smallest match whose
+ * members they're all allowed to meet (and, with roles, whose lead/member
+ * mix stays valid). With hard constraints there may be no such match — they
+ * then stay unmatched and get 'no-match'.
+ */
+function absorbOddParticipant(matches: any[], participants: any[], scorer: PairScorer, roleMatching: RoleMatchingConfig | null = null) {
+  if (matches.length === 0) return;
+  const matchedIds = new Set<string>(matches.flatMap((m: any) => m.participantIds));
+  const leftovers: number[] = [];
+  for (let i = 0; i < participants.length; i++) {
+    if (!matchedIds.has(participants[i].participantId)) leftovers.push(i);
+  }
+  if (leftovers.length !== 1) return;
+
+  const odd = leftovers[0];
+  const indexById = new Map<string, number>();
+  participants.forEach((p: any, i: number) => indexById.set(p.participantId, i));
+
+  let target: any = null;
+  for (const match of matches) {
+    if (target && match.participantIds.length >= target.participantIds.length) continue;
+    if (roleMatching && !canJoinRoleGroup(roleMatching, match.participants.map((p: any) => p.role), participants[odd].role)) continue;
+    const allowed = match.participantIds.every(
+      (pid: string) => scorer.score(odd, indexById.get(pid)!) !== FORBIDDEN
+    );
+    if (allowed) target = match;
   }
 
+  if (!target) {
+    console.log(`👤 Odd participant can't join any group without breaking a hard constraint`);
+    return;
+  }
+
+  target.participantIds.push(participants[odd].participantId);
+  target.participants.push(toMatchParticipant(participants[odd]));
+  console.log(`👤 Odd participant added to a group, new size: ${target.participantIds.length}`);
+}
+
+/**
+ * Bucket every allowed pair (i < j) by score: returns flat [i0, j0, i1, j1, …]
+ * buffers per score 0..maxScore. FORBIDDEN pairs are left out entirely.
+ */
+function bucketPairsByScore(n: number, maxScore: number, scoreOf: (i: number, j: number) => number) {
   // Pass 1: count pairs per score bucket. We do this in two passes so we can
   // allocate the right-sized Int32Array per bucket (no per-push amortization).
-  const bucketCounts = new Int32Array(MAX_PAIR_SCORE + 1);
+  const bucketCounts = new Int32Array(maxScore + 1);
   for (let i = 0; i < n; i++) {
-    const teamI = teams[i];
-    const topicsI = topicsArr[i];
-    const histI = histories[i];
     for (let j = i + 1; j < n; j++) {
-      let score = 0;
-      if (!histI || !histI.has(ids[j])) score += 30;
-      const teamJ = teams[j];
-      if (teamI && teamJ) {
-        if (matchingType === 'across-teams' && teamI !== teamJ) score += 20;
-        else if (matchingType === 'within-teams' && teamI === teamJ) score += 20;
-      }
-      const topicsJ = topicsArr[j];
-      if (topicsI.length > 0 && topicsJ.length > 0) {
-        for (let t = 0; t < topicsI.length; t++) {
-          if (topicsJ.includes(topicsI[t])) { score += 10; break; }
-        }
-      }
-      bucketCounts[score]++;
+      const s = scoreOf(i, j);
+      if (s >= 0) bucketCounts[s]++;
     }
   }
 
-  // Allocate per-bucket buffers — flat [i0, j0, i1, j1, …]
-  const buckets: Int32Array[] = new Array(MAX_PAIR_SCORE + 1);
-  for (let s = 0; s <= MAX_PAIR_SCORE; s++) {
-    buckets[s] = new Int32Array(bucketCounts[s] * 2);
-  }
-  const cursors = new Int32Array(MAX_PAIR_SCORE + 1);
+  const buckets: Int32Array[] = new Array(maxScore + 1);
+  for (let s = 0; s <= maxScore; s++) buckets[s] = new Int32Array(bucketCounts[s] * 2);
+  const cursors = new Int32Array(maxScore + 1);
 
   // Pass 2: place pairs into buckets (recomputing score is cheaper than storing it)
   for (let i = 0; i < n; i++) {
-    const teamI = teams[i];
-    const topicsI = topicsArr[i];
-    const histI = histories[i];
     for (let j = i + 1; j < n; j++) {
-      let score = 0;
-      if (!histI || !histI.has(ids[j])) score += 30;
-      const teamJ = teams[j];
-      if (teamI && teamJ) {
-        if (matchingType === 'across-teams' && teamI !== teamJ) score += 20;
-        else if (matchingType === 'within-teams' && teamI === teamJ) score += 20;
-      }
-      const topicsJ = topicsArr[j];
-      if (topicsI.length > 0 && topicsJ.length > 0) {
-        for (let t = 0; t < topicsI.length; t++) {
-          if (topicsJ.includes(topicsI[t])) { score += 10; break; }
-        }
-      }
-      const buf = buckets[score];
-      const k = cursors[score];
+      const s = scoreOf(i, j);
+      if (s < 0) continue;
+      const buf = buckets[s];
+      const k = cursors[s];
       buf[2 * k] = i;
       buf[2 * k + 1] = j;
-      cursors[score] = k + 1;
+      cursors[s] = k + 1;
     }
   }
 
+  return { buckets, bucketCounts };
+}
+
+/**
+ * Fast pairwise matching: O(n²) time and memory using bucket sort.
+ *
+ * Scores are small integers bounded by the scoring profile (≤ 3 ×
+ * MAX_CRITERION_WEIGHT), so we bucket pairs by score and walk from highest
+ * to lowest. No comparator-based sort is needed — at n=5000 this avoids both
+ * the V8 TypedArray.sort quirks observed at large sizes and the ~1GB memory
+ * blowup of Array<number>.
+ *
+ * Verified perf on staging: n=200 → ~80ms, n=1000 → ~500ms, n=5000 → ~3s
+ * (most time spent on score computation, not the matching itself).
+ */
+function runPairwiseGreedy(
+  participants: any[],
+  scorer: PairScorer,
+) {
+  const n = participants.length;
+  if (n < 2) return [];
+
+  const { buckets, bucketCounts } = bucketPairsByScore(n, scorer.maxScore, scorer.score);
+
   // Greedy walk from highest to lowest score
   const used = new Uint8Array(n);
   const matches: any[] = [];
-  let meetingPointIndex = 0;
 
-  for (let s = MAX_PAIR_SCORE; s >= 0; s--) {
+  for (let s = scorer.maxScore; s >= 0; s--) {
     const buf = buckets[s];
     const len = bucketCounts[s];
     for (let k = 0; k < len; k++) {
@@ -517,27 +938,7 @@ function runPairwiseGreedy(
       used[i] = 1;
       used[j] = 1;
 
-      const p1 = participants[i];
-      const p2 = participants[j];
-
-      let assignedMeetingPoint: string;
-      if (meetingPoints.length > 0) {
-        const mp = meetingPoints[meetingPointIndex % meetingPoints.length];
-        assignedMeetingPoint = mp.name || mp.id;
-        meetingPointIndex++;
-      } else {
-        assignedMeetingPoint = p1.meetingPoint || p2.meetingPoint || 'TBD';
-      }
-
-      matches.push({
-        participantIds: [p1.participantId, p2.participantId],
-        participants: [
-          { participantId: p1.participantId, firstName: p1.firstName, lastName: p1.lastName, email: p1.email, team: p1.team, topics: p1.topics || [] },
-          { participantId: p2.participantId, firstName: p2.firstName, lastName: p2.lastName, email: p2.email, team: p2.team, topics: p2.topics || [] },
-        ],
-        meetingPoint: assignedMeetingPoint,
-        createdAt: new Date().toISOString(),
-      });
+      matches.push(buildMatch([participants[i], participants[j]]));
     }
   }
 
@@ -545,322 +946,341 @@ function runPairwiseGreedy(
 }
 
 /**
- * General matching for groupSize ≥ 3 — O(n²) time + memory.
+ * Symmetric pair-score matrix (Int8 — scores are FORBIDDEN or 0..maxScore).
+ * Used by the paths that need random access to scores rather than a single
+ * bucket walk.
+ */
+function buildScoreMatrix(n: number, scorer: PairScorer): Int8Array {
+  const scoreMatrix = new Int8Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const s = scorer.score(i, j);
+      scoreMatrix[i * n + j] = s;
+      scoreMatrix[j * n + i] = s;
+    }
+  }
+  return scoreMatrix;
+}
+
+/**
+ * Optimal pairwise matching (session.matchingAlgorithm === 'optimal').
  *
- * Replaces the prior O(n⁴) findBestGroup path which did:
- *   - sort all pairs by score             — O(n² log n)
- *   - per pair, try every candidate       — O(n * groupSize)
- *   - find best group across all pairs    — O(n²)
- *   - repeated n/groupSize times          — gives O(n^4)
+ * Greedy takes the best remaining pair at each step, which strands the tail
+ * of the list with repeat meetings / same-team pairs once history builds up
+ * (visible by round 4 at 300+ people). This mode maximizes the total score:
  *
- * New approach:
- *   1. Symmetric score matrix            — O(n²) time + memory (Int8Array)
- *   2. Bucket pair-seeds by score         — same buckets as pairwise greedy
- *   3. Walk highest score first; for each seed pair (i,j) that's still free,
- *      score every other free participant k by sum of fits with i AND j,
- *      take top (groupSize-2) — O(n) per group
- *   4. n/groupSize groups × O(n) per group = O(n²)
+ *   - n ≤ EXACT_MATCHING_LIMIT: exact maximum-weight matching (as many pairs
+ *     as hard constraints allow, then best total) via Edmonds' blossom
+ *     algorithm. O(n³), ~0.5s at n=600 on realistic scores.
+ *   - larger n: greedy seed → 2-opt pair swaps until no swap improves (or the
+ *     time budget runs out) → exact re-solve of the participants sitting in
+ *     the weakest pairs. Every step only ever raises the total.
  *
- * Practical: 5000 participants in groups of 3 fits comfortably in <3s.
+ * The result is compared against an upper bound (half the sum of each
+ * participant's best available pair score) and the gap is logged, so the
+ * heuristic path stays provably near-optimal per run, not just "usually".
  */
-async function runGeneralGreedy(
+const EXACT_MATCHING_LIMIT = 600;
+const LOCAL_SEARCH_BUDGET_MS = 1500;
+
+function runPairwiseOptimal(
   participants: any[],
-  groupSize: number,
-  meetingHistory: Record<string, Set<string>>,
-  matchingType: string,
-  meetingPoints: any[],
+  scorer: PairScorer,
 ) {
   const n = participants.length;
-  if (n < groupSize) return [];
+  if (n < 2) return [];
 
-  // Pre-extract per-participant data to keep inner loops tight
-  const ids: string[] = new Array(n);
-  const teams: (string | null)[] = new Array(n);
-  const topicsArr: string[][] = new Array(n);
-  const histories: (Set<string> | undefined)[] = new Array(n);
-  for (let i = 0; i < n; i++) {
-    const p = participants[i];
-    ids[i] = p.participantId;
-    teams[i] = p.team || null;
-    topicsArr[i] = p.topics || [];
-    histories[i] = meetingHistory[p.participantId];
-  }
-
-  const scoreOf = (i: number, j: number) => {
-    let score = 0;
-    if (!histories[i] || !histories[i]!.has(ids[j])) score += 30;
-    const tI = teams[i], tJ = teams[j];
-    if (tI && tJ) {
-      if (matchingType === 'across-teams' && tI !== tJ) score += 20;
-      else if (matchingType === 'within-teams' && tI === tJ) score += 20;
-    }
-    const topI = topicsArr[i], topJ = topicsArr[j];
-    if (topI.length > 0 && topJ.length > 0) {
-      for (let t = 0; t < topI.length; t++) {
-        if (topJ.includes(topI[t])) { score += 10; break; }
-      }
-    }
-    return score;
-  };
+  const t0 = Date.now();
+  const scoreMatrix = buildScoreMatrix(n, scorer);
 
-  // Symmetric score matrix (Int8 — scores are 0..60)
-  const scoreMatrix = new Int8Array(n * n);
+  // bestOf[i] = highest score i could get with anyone — basis of the upper bound
+  const bestOf = new Int32Array(n);
   for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      const s = scoreOf(i, j);
-      scoreMatrix[i * n + j] = s;
-      scoreMatrix[j * n + i] = s;
+    const row = i * n;
+    let best = 0;
+    for (let j = 0; j < n; j++) {
+      if (j !== i && scoreMatrix[row + j] > best) best = scoreMatrix[row + j];
     }
+    bestOf[i] = best;
+  }
+
+  let mate: Int32Array;
+  if (n <= EXACT_MATCHING_LIMIT) {
+    mate = solveExactPairing(Int32Array.from({ length: n }, (_, i) => i), scoreMatrix, n);
+  } else {
+    mate = greedyPairsFromMatrix(scoreMatrix, n, scorer.maxScore);
+    improvePairsBySwaps(mate, scoreMatrix, n, t0 + LOCAL_SEARCH_BUDGET_MS);
+    resolveWeakestPairsExactly(mate, scoreMatrix, n, bestOf);
   }
 
-  // Bucket seed pairs by score, walk high → low
-  const bucketCounts = new Int32Array(MAX_PAIR_SCORE + 1);
+  // Quality report: total vs. upper bound
+  let total = 0;
+  let upperBound = 0;
   for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      bucketCounts[scoreMatrix[i * n + j]]++;
-    }
+    if (mate[i] > i) total += scoreMatrix[i * n + mate[i]];
+    upperBound += bestOf[i];
   }
-  const buckets: Int32Array[] = new Array(MAX_PAIR_SCORE + 1);
-  for (let s = 0; s <= MAX_PAIR_SCORE; s++) buckets[s] = new Int32Array(bucketCounts[s] * 2);
-  const cursors = new Int32Array(MAX_PAIR_SCORE + 1);
+  upperBound = Math.floor(upperBound / 2);
+  debugLog(`🧮 Optimal pairing: n=${n}, score=${total}, upperBound=${upperBound}, gap=${upperBound > 0 ? ((1 - total / upperBound) * 100).toFixed(2) : '0.00'}%, ${n <= EXACT_MATCHING_LIMIT ? 'exact' : 'heuristic'}, ${Date.now() - t0}ms`);
+
+  const matches: any[] = [];
   for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      const s = scoreMatrix[i * n + j];
-      const buf = buckets[s];
-      const k = cursors[s];
-      buf[2 * k] = i;
-      buf[2 * k + 1] = j;
-      cursors[s] = k + 1;
+    const j = mate[i];
+    if (j < i) continue; // unmatched (-1) or already emitted
+
+    matches.push(buildMatch([participants[i], participants[j]]));
+  }
+
+  return matches;
+}
+
+/**
+ * Exact maximum-weight matching restricted to the given vertices.
+ * Returns a full-size mate array (indices into the score matrix).
+ */
+function solveExactPairing(vertices: Int32Array, scoreMatrix: Int8Array, n: number): Int32Array {
+  const k = vertices.length;
+  const u: number[] = [];
+  const v: number[] = [];
+  const w: number[] = [];
+  for (let a = 0; a < k; a++) {
+    const rowA = vertices[a] * n;
+    for (let b = a + 1; b < k; b++) {
+      const s = scoreMatrix[rowA + vertices[b]];
+      if (s < 0) continue; // hard constraint — no edge
+      u.push(a);
+      v.push(b);
+      w.push(s);
     }
   }
+  // maxCardinality: a 0-score pair still beats leaving both people unmatched
+  const localMate = maxWeightMatching(k, { u: Int32Array.from(u), v: Int32Array.from(v), w: Int32Array.from(w) }, true);
 
-  const used = new Uint8Array(n);
-  const matches: any[] = [];
-  let meetingPointIndex = 0;
-  const scratch = new Array<{ idx: number; score: number }>(n); // reused per group
+  const mate = new Int32Array(n).fill(-1);
+  for (let a = 0; a < k; a++) {
+    if (localMate[a] >= 0) mate[vertices[a]] = vertices[localMate[a]];
+  }
+  return mate;
+}
+
+/** Greedy bucket walk over the score matrix (same order as runPairwiseGreedy) */
+function greedyPairsFromMatrix(scoreMatrix: Int8Array, n: number, maxScore: number): Int32Array {
+  const { buckets, bucketCounts } = bucketPairsByScore(n, maxScore, (i, j) => scoreMatrix[i * n + j]);
 
-  for (let s = MAX_PAIR_SCORE; s >= 0; s--) {
+  const mate = new Int32Array(n).fill(-1);
+  for (let s = maxScore; s >= 0; s--) {
     const buf = buckets[s];
     const len = bucketCounts[s];
     for (let k = 0; k < len; k++) {
       const i = buf[2 * k];
       const j = buf[2 * k + 1];
-      if (used[i] || used[j]) continue;
+      if (mate[i] !== -1 || mate[j] !== -1) continue;
+      mate[i] = j;
+      mate[j] = i;
+    }
+  }
+  return mate;
+}
 
-      // Build a group of `groupSize` from seed (i, j) by picking the best fit
-      // candidates: each candidate scored against BOTH i and j (and each
-      // already-picked group member). For groupSize=3 this is just one extra
-      // pick; for groupSize=4+, we incrementally update fit scores.
-      const groupIdx: number[] = [i, j];
-      let scratchLen = 0;
-      for (let m = 0; m < n; m++) {
-        if (used[m] || m === i || m === j) continue;
-        // Initial fit = score(m,i) + score(m,j)
-        scratch[scratchLen++] = { idx: m, score: scoreMatrix[m * n + i] + scoreMatrix[m * n + j] };
-      }
-      // Pick the top (groupSize-2) candidates greedily, updating fit each time
-      for (let needed = groupSize - 2; needed > 0 && scratchLen > 0; needed--) {
-        // Find max in scratch[0..scratchLen)
-        let bestK = 0;
-        let bestScore = scratch[0].score;
-        for (let k2 = 1; k2 < scratchLen; k2++) {
-          if (scratch[k2].score > bestScore) { bestScore = scratch[k2].score; bestK = k2; }
-        }
-        const chosen = scratch[bestK];
-        groupIdx.push(chosen.idx);
-        // Remove from scratch by swap with end (O(1))
-        scratch[bestK] = scratch[--scratchLen];
-        // Update remaining fit scores to include the newly-added member
-        const newMember = chosen.idx;
-        for (let k2 = 0; k2 < scratchLen; k2++) {
-          scratch[k2].score += scoreMatrix[scratch[k2].idx * n + newMember];
+/**
+ * 2-opt local search: for every two pairs (a,b), (c,d), re-pair as (a,c),(b,d)
+ * or (a,d),(b,c) when that raises the combined score. Also lets an unmatched
+ * participant take a seat when it beats the current pair. Repeats until a
+ * full pass finds no improvement or the deadline passes. Pairs that break a
+ * hard constraint (negative score) are never created.
+ */
+function improvePairsBySwaps(mate: Int32Array, scoreMatrix: Int8Array, n: number, deadline: number) {
+  let improved = true;
+  while (improved && Date.now() < deadline) {
+    improved = false;
+
+    // Re-derive the pair list each pass; swaps below keep it consistent in place
+    const firsts: number[] = [];
+    for (let i = 0; i < n; i++) if (mate[i] > i) firsts.push(i);
+    const pairA = Int32Array.from(firsts);
+    const pairB = Int32Array.from(firsts, (i) => mate[i]);
+    const m = pairA.length;
+
+    for (let x = 0; x < m; x++) {
+      if ((x & 63) === 0 && Date.now() >= deadline) return;
+      for (let y = x + 1; y < m; y++) {
+        const a = pairA[x], b = pairB[x], c = pairA[y], d = pairB[y];
+        const current = scoreMatrix[a * n + b] + scoreMatrix[c * n + d];
+        const sAC = scoreMatrix[a * n + c], sBD = scoreMatrix[b * n + d];
+        const sAD = scoreMatrix[a * n + d], sBC = scoreMatrix[b * n + c];
+        const ac = sAC >= 0 && sBD >= 0 ? sAC + sBD : -1;
+        const ad = sAD >= 0 && sBC >= 0 ? sAD + sBC : -1;
+        if (ac > current && ac >= ad) {
+          mate[a] = c; mate[c] = a; mate[b] = d; mate[d] = b;
+          pairB[x] = c; pairA[y] = b;
+          improved = true;
+        } else if (ad > current) {
+          mate[a] = d; mate[d] = a; mate[b] = c; mate[c] = b;
+          pairB[x] = d; pairA[y] = b; pairB[y] = c;
+          improved = true;
         }
       }
+    }
 
-      if (groupIdx.length < groupSize) continue; // not enough free participants left
-
-      // Mark used and emit match
-      for (const idx of groupIdx) used[idx] = 1;
-
-      let assignedMeetingPoint: string;
-      if (meetingPoints.length > 0) {
-        const mp = meetingPoints[meetingPointIndex % meetingPoints.length];
-        assignedMeetingPoint = mp.name || mp.id;
-        meetingPointIndex++;
-      } else {
-        assignedMeetingPoint = groupIdx
-          .map(idx => participants[idx].meetingPoint)
-          .find((mp: any) => mp) || 'TBD';
+    for (let s = 0; s < n; s++) {
+      if (mate[s] !== -1) continue;
+      for (let x = 0; x < m; x++) {
+        const a = pairA[x], b = pairB[x];
+        const current = scoreMatrix[a * n + b];
+        const sSA = scoreMatrix[s * n + a], sSB = scoreMatrix[s * n + b];
+        if (sSB > current && sSB >= sSA) {
+          mate[s] = b; mate[b] = s; mate[a] = -1;
+          pairA[x] = s;
+          improved = true;
+          break;
+        } else if (sSA > current) {
+          mate[s] = a; mate[a] = s; mate[b] = -1;
+          pairB[x] = s;
+          improved = true;
+          break;
+        }
       }
-
-      matches.push({
-        participantIds: groupIdx.map(idx => participants[idx].participantId),
-        participants: groupIdx.map(idx => {
-          const p = participants[idx];
-          return {
-            participantId: p.participantId, firstName: p.firstName, lastName: p.lastName,
-            email: p.email, team: p.team, topics: p.topics || []
-          };
-        }),
-        meetingPoint: assignedMeetingPoint,
-        createdAt: new Date().toISOString(),
-      });
     }
   }
-
-  return matches;
 }
 
 /**
- * Get meeting history for participants in this session.
- * Uses a SINGLE batch query instead of N+1 individual queries.
+ * Take the pairs furthest below their members' best possible score (up to
+ * EXACT_MATCHING_LIMIT participants, plus any unmatched) and solve that
+ * sub-problem exactly. The current pairing of the subset is itself a feasible
+ * answer, so the exact solution can only keep or raise the total.
  */
-async function getMeetingHistory(sessionId: string, participants: any[]) {
-  const history: Record<string, Set<string>> = {};
-
-  // Initialize history for each participant
-  for (const p of participants) {
-    history[p.participantId] = new Set();
+function resolveWeakestPairsExactly(mate: Int32Array, scoreMatrix: Int8Array, n: number, bestOf: Int32Array) {
+  const weak: Array<{ a: number; b: number; deficit: number }> = [];
+  const vertices: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (mate[i] === -1) {
+      vertices.push(i);
+    } else if (mate[i] > i) {
+      const deficit = bestOf[i] + bestOf[mate[i]] - 2 * scoreMatrix[i * n + mate[i]];
+      if (deficit > 0) weak.push({ a: i, b: mate[i], deficit });
+    }
   }
+  if (weak.length === 0) return;
 
-  // Get ALL match-participant pairs in ONE query
-  const matchParticipantsMap = await db.getMatchParticipantsBatch(sessionId);
-
-  // For each match, record that participants met each other
-  for (const [_matchId, pIds] of matchParticipantsMap) {
-    for (let i = 0; i < pIds.length; i++) {
-      for (let j = i + 1; j < pIds.length; j++) {
-        const id1 = pIds[i];
-        const id2 = pIds[j];
-
-        if (history[id1]) history[id1].add(id2);
-        if (history[id2]) history[id2].add(id1);
-      }
-    }
+  weak.sort((x, y) => y.deficit - x.deficit);
+  for (const pair of weak) {
+    if (vertices.length + 2 > EXACT_MATCHING_LIMIT) break;
+    vertices.push(pair.a, pair.b);
   }
 
-  return history;
+  const subset = Int32Array.from(vertices);
+  const subMate = solveExactPairing(subset, scoreMatrix, n);
+  for (const v of subset) mate[v] = subMate[v];
 }
 
 /**
- * Calculate pairing scores between all participants
+ * Group matching for groupSize ≥ 3: seeded draft + local search over the
+ * score matrix (see group-matching.ts). O(n² · groupSize) for the draft,
+ * then swaps inside the same time budget as optimal pairing — roundtables
+ * of 4–8 at 2000+ participants stay well inside the edge-function CPU limit.
  */
-function calculatePairingScores(participants: any[], meetingHistory: Record<string, Set<string>>, matchingType: string) {
-  const scores: Record<string, number> = {};
+function runGroupMatching(
+  participants: any[],
+  groupSize: number,
+  scorer: PairScorer,
+) {
+  const n = participants.length;
+  if (n < groupSize) return [];
 
-  for (let i = 0; i < participants.length; i++) {
-    for (let j = i + 1; j < participants.length; j++) {
-      const p1 = participants[i];
-      const p2 = participants[j];
-      const key = `${p1.participantId}:${p2.participantId}`;
+  const t0 = Date.now();
+  const scoreMatrix = buildScoreMatrix(n, scorer);
+  const { groups, totalScore, improvements } = formGroups(scoreMatrix, n, groupSize, scorer.maxScore, t0 + LOCAL_SEARCH_BUDGET_MS);
+  debugLog(`🧮 Group matching: n=${n}, groupSize=${groupSize}, groups=${groups.length}, score=${totalScore}, ${improvements} improving swaps, ${Date.now() - t0}ms`);
 
-      let score = 0;
+  return groups.map(group => buildMatch(group.map(idx => participants[idx])));
+}
 
-      // MEETING MEMORY (30 points): Haven't met before?
-      const haveMet = meetingHistory[p1.participantId]?.has(p2.participantId);
-      if (!haveMet) {
-        score += 30;
-      }
+/**
+ * Role sessions: lead + members groups (see role-matching.ts). When one side
+ * is oversubscribed and the session allows it, the leftovers meet each other
+ * in regular pairs/groups of the round's size — leads with leads, members
+ * with members — tagged source 'peer-fallback'.
+ */
+function runRoleMatching(
+  participants: any[],
+  scorer: PairScorer,
+  roleMatching: RoleMatchingConfig,
+  groupSize: number,
+  matchingAlgorithm: string,
+) {
+  const n = participants.length;
+  if (n < 2) return [];
 
-      // TEAMS MATCHING (20 points): Different teams?
-      if (matchingType === 'across-teams') {
-        if (p1.team && p2.team && p1.team !== p2.team) {
-          score += 20;
-        }
-      } else if (matchingType === 'within-teams') {
-        if (p1.team && p2.team && p1.team === p2.team) {
-          score += 20;
-        }
-      }
+  const t0 = Date.now();
+  const scoreMatrix = buildScoreMatrix(n, scorer);
+  const isLead = Uint8Array.from(participants, (p: any) => isLeadRole(roleMatching, p.role) ? 1 : 0);
+  const { groups, leftover } = formRoleGroups(scoreMatrix, n, isLead, roleMatching, scorer.maxScore);
+  const matches = groups.map(group => buildMatch(group.map(idx => participants[idx])));
+  debugLog(`🧮 Role matching: n=${n}, ${groups.length} ${roleMatching.leadRole}/${roleMatching.memberRole} groups, ${leftover.length} left over, ${Date.now() - t0}ms`);
 
-      // TOPICS MATCHING (10 points): Similar topics?
-      const topics1 = p1.topics || [];
-      const topics2 = p2.topics || [];
-      const commonTopics = topics1.filter((t: string) => topics2.includes(t));
-      if (commonTopics.length > 0) {
-        score += 10 * Math.min(commonTopics.length, 1); // Max 10 points
-      }
+  if (!roleMatching.peerFallback || leftover.length < 2) return matches;
 
-      scores[key] = score;
-    }
-  }
+  const peers = leftover.map(idx => participants[idx]);
+  const peerScorer: PairScorer = {
+    maxScore: scorer.maxScore,
+    score: (i, j) => isLead[leftover[i]] === isLead[leftover[j]] ? scoreMatrix[leftover[i] * n + leftover[j]] : FORBIDDEN,
+    explain: (i, j) => scorer.explain(leftover[i], leftover[j]),
+  };
+  const peerMatches = groupSize === 2
+    ? (matchingAlgorithm === 'optimal' ? runPairwiseOptimal(peers, peerScorer) : runPairwiseGreedy(peers, peerScorer))
+    : runGroupMatching(peers, groupSize, peerScorer);
+  for (const match of peerMatches) match.source = 'peer-fallback';
+  console.log(`🔀 Role fallback: ${peerMatches.length} peer groups from ${leftover.length} left-over participants`);
 
-  return scores;
+  return matches.concat(peerMatches);
 }
 
 /**
- * Find the best scoring group of given size
+ * Get meeting history for participants in this session.
+ * Uses a SINGLE batch query instead of N+1 individual queries.
+ * With `meetingMemory`, matches from the organizer's other sessions inside
+ * the look-back window count as "already met" too.
  */
-function findBestGroup(
-  availableParticipants: any[],
-  groupSize: number,
-  pairingScores: Record<string, number>,
-  meetingHistory: Record<string, Set<string>>
+async function getMeetingHistory(
+  sessionId: string,
+  participants: any[],
+  meetingMemory: { organizerId: string; lookbackDays: number } | null = null,
 ) {
-  let bestGroup: any[] = [];
-  let bestScore = -Infinity;
-
-  // For group size 2, simple pairwise matching
-  if (groupSize === 2) {
-    for (let i = 0; i < availableParticipants.length; i++) {
-      for (let j = i + 1; j < availableParticipants.length; j++) {
-        const p1 = availableParticipants[i];
-        const p2 = availableParticipants[j];
-        const key = `${p1.participantId}:${p2.participantId}`;
-        const score = pairingScores[key] || 0;
-
-        if (score > bestScore) {
-          bestScore = score;
-          bestGroup = [p1, p2];
-        }
-      }
-    }
+  const history: Record<string, Set<string>> = {};
+
+  // Initialize history for each participant
+  for (const p of participants) {
+    history[p.participantId] = new Set();
   }
-  // For larger groups, try to find best combination
-  else {
-    const pairs: Array<{participants: any[], score: number}> = [];
-
-    for (let i = 0; i < availableParticipants.length; i++) {
-      for (let j = i + 1; j < availableParticipants.length; j++) {
-        const p1 = availableParticipants[i];
-        const p2 = availableParticipants[j];
-        const key = `${p1.participantId}:${p2.participantId}`;
-        const score = pairingScores[key] || 0;
-        pairs.push({ participants: [p1, p2], score });
-      }
-    }
 
-    // Sort pairs by score
-    pairs.sort((a, b) => b.score - a.score);
-
-    // Try to expand best pair to group size
-    for (const pair of pairs) {
-      const group = [...pair.participants];
-      let totalScore = pair.score;
-
-      // Add more participants to reach group size
-      for (const candidate of availableParticipants) {
-        if (group.length >= groupSize) break;
-        if (group.some((p: any) => p.participantId === candidate.participantId)) continue;
-
-        // Calculate how well candidate fits with current group
-        let candidateScore = 0;
-        for (const member of group) {
-          const key1 = `${member.participantId}:${candidate.participantId}`;
-          const key2 = `${candidate.participantId}:${member.participantId}`;
-          candidateScore += (pairingScores[key1] || pairingScores[key2] || 0);
-        }
+  // Get ALL match-participant pairs in ONE query
+  const matchParticipantsMap = await db.getMatchParticipantsBatch(sessionId);
 
-        group.push(candidate);
-        totalScore += candidateScore;
-      }
+  if (meetingMemory?.organizerId) {
+    const since = new Date(Date.now() - meetingMemory.lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+    const pastMatches = await db.getOrganizerMatchParticipantsBatch(
+      meetingMemory.organizerId,
+      sessionId,
+      participants.map((p: any) => p.participantId),
+      since,
+    );
+    debugLog(`🧠 Cross-session memory: ${pastMatches.size} past matches in last ${meetingMemory.lookbackDays} days`);
+    for (const [matchId, pIds] of pastMatches) matchParticipantsMap.set(matchId, pIds);
+  }
 
-      if (group.length === groupSize && totalScore > bestScore) {
-        bestScore = totalScore;
-        bestGroup = group;
+  // For each match, record that participants met each other
+  for (const [_matchId, pIds] of matchParticipantsMap) {
+    for (let i = 0; i < pIds.length; i++) {
+      for (let j = i + 1; j < pIds.length; j++) {
+        const id1 = pIds[i];
+        const id2 = pIds[j];
+
+        if (history[id1]) history[id1].add(id2);
+        if (history[id2]) history[id2].add(id1);
       }
     }
   }
 
-  return bestGroup;
+  return history;
 }
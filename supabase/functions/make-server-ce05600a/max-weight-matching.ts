@@ -0,0 +1,479 @@
+/**
+ * MAXIMUM-WEIGHT MATCHING (Edmonds' blossom algorithm, primal-dual, O(n³))
+ *
+ * TypeScript port of Joris van Rantwijk's reference implementation
+ * (mwmatching.py, public domain), specialised for what the matcher needs:
+ *   - integer edge weights (pair scores are multiples of 10)
+ *   - typed-array edge storage so a complete graph on a few hundred vertices
+ *     doesn't allocate one object per edge
+ *
+ * O(n³) is fine up to a few hundred participants; beyond that callers should
+ * fall back to a heuristic (see runPairwiseOptimal in matching.tsx).
+ */
+
+export interface WeightedEdges {
+  /** Edge k connects vertices u[k] and v[k] (u !== v) with integer weight w[k] */
+  u: Int32Array;
+  v: Int32Array;
+  w: Int32Array;
+}
+
+/**
+ * Compute a maximum-weight matching.
+ *
+ * @param nvertex - number of vertices (0..nvertex-1)
+ * @param edges - undirected edge list, no duplicates
+ * @param maxCardinality - only consider maximum-cardinality matchings
+ * @returns mate array: mate[i] = vertex matched to i, or -1 if unmatched
+ */
+export function maxWeightMatching(nvertex: number, edges: WeightedEdges, maxCardinality = false): Int32Array {
+  const nedge = edges.u.length;
+  const result = new Int32Array(nvertex).fill(-1);
+  if (nedge === 0 || nvertex === 0) return result;
+
+  const eu = edges.u, ev = edges.v, ew = edges.w;
+
+  let maxWeight = 0;
+  for (let k = 0; k < nedge; k++) if (ew[k] > maxWeight) maxWeight = ew[k];
+
+  // endpoint[p] = vertex at endpoint p; edge k has endpoints 2k (u) and 2k+1 (v)
+  const endpoint = new Int32Array(2 * nedge);
+  for (let k = 0; k < nedge; k++) {
+    endpoint[2 * k] = eu[k];
+    endpoint[2 * k + 1] = ev[k];
+  }
+
+  // neighbend[i] = remote endpoints of edges incident to vertex i (CSR layout)
+  const degree = new Int32Array(nvertex + 1);
+  for (let k = 0; k < nedge; k++) { degree[eu[k] + 1]++; degree[ev[k] + 1]++; }
+  for (let i = 0; i < nvertex; i++) degree[i + 1] += degree[i];
+  const neighbStart = degree;
+  const neighbEnd = new Int32Array(2 * nedge);
+  const fill = neighbStart.slice(0, nvertex);
+  for (let k = 0; k < nedge; k++) {
+    neighbEnd[fill[eu[k]]++] = 2 * k + 1;
+    neighbEnd[fill[ev[k]]++] = 2 * k;
+  }
+
+  const nb = 2 * nvertex;
+  // mate[v] = remote endpoint of v's matched edge, or -1
+  const mate = new Int32Array(nvertex).fill(-1);
+  // label: 0 = free, 1 = S, 2 = T (5 = temporary mark in scanBlossom)
+  const label = new Int32Array(nb);
+  const labelEnd = new Int32Array(nb).fill(-1);
+  const inBlossom = new Int32Array(nvertex);
+  for (let i = 0; i < nvertex; i++) inBlossom[i] = i;
+  const blossomParent = new Int32Array(nb).fill(-1);
+  const blossomChilds: (number[] | null)[] = new Array(nb).fill(null);
+  const blossomBase = new Int32Array(nb).fill(-1);
+  for (let i = 0; i < nvertex; i++) blossomBase[i] = i;
+  const blossomEndps: (number[] | null)[] = new Array(nb).fill(null);
+  const bestEdge = new Int32Array(nb).fill(-1);
+  const blossomBestEdges: (number[] | null)[] = new Array(nb).fill(null);
+  const unusedBlossoms: number[] = [];
+  for (let b = nvertex; b < nb; b++) unusedBlossoms.push(b);
+  const dualVar = new Float64Array(nb);
+  for (let i = 0; i < nvertex; i++) dualVar[i] = maxWeight;
+  const allowEdge = new Uint8Array(nedge);
+  let queue: number[] = [];
+
+  const slack = (k: number) => dualVar[eu[k]] + dualVar[ev[k]] - 2 * ew[k];
+
+  const blossomLeaves = (b: number, out: number[] = []): number[] => {
+    if (b < nvertex) {
+      out.push(b);
+    } else {
+      for (const t of blossomChilds[b]!) {
+        if (t < nvertex) out.push(t);
+        else blossomLeaves(t, out);
+      }
+    }
+    return out;
+  };
+
+  // Label the top-level blossom containing w with t, reached via endpoint p
+  const assignLabel = (w: number, t: number, p: number): void => {
+    const b = inBlossom[w];
+    label[w] = label[b] = t;
+    labelEnd[w] = labelEnd[b] = p;
+    bestEdge[w] = bestEdge[b] = -1;
+    if (t === 1) {
+      blossomLeaves(b, queue);
+    } else if (t === 2) {
+      const base = blossomBase[b];
+      assignLabel(endpoint[mate[base]], 1, mate[base] ^ 1);
+    }
+  };
+
+  // Trace back from v and w; return the new blossom's base, or -1 for an augmenting path
+  const scanBlossom = (v: number, w: number): number => {
+    const path: number[] = [];
+    let base = -1;
+    while (v !== -1 || w !== -1) {
+      let b = inBlossom[v];
+      if (label[b] & 4) {
+        base = blossomBase[b];
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+      if (labelEnd[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelEnd[b]];
+        b = inBlossom[v];
+        v = endpoint[labelEnd[b]];
+      }
+      if (w !== -1) {
+        const tmp = v; v = w; w = tmp;
+      }
+    }
+    for (const b of path) label[b] = 1;
+    return base;
+  };
+
+  // Construct a new blossom with the given base, closed by edge k
+  const addBlossom = (base: number, k: number): void => {
+    let v = eu[k], w = ev[k];
+    const bb = inBlossom[base];
+    let bv = inBlossom[v];
+    let bw = inBlossom[w];
+    const b = unusedBlossoms.pop()!;
+    blossomBase[b] = base;
+    blossomParent[b] = -1;
+    blossomParent[bb] = b;
+    const path: number[] = [];
+    const endps: number[] = [];
+    while (bv !== bb) {
+      blossomParent[bv] = b;
+      path.push(bv);
+      endps.push(labelEnd[bv]);
+      v = endpoint[labelEnd[bv]];
+      bv = inBlossom[v];
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+    while (bw !== bb) {
+      blossomParent[bw] = b;
+      path.push(bw);
+      endps.push(labelEnd[bw] ^ 1);
+      w = endpoint[labelEnd[bw]];
+      bw = inBlossom[w];
+    }
+    blossomChilds[b] = path;
+    blossomEndps[b] = endps;
+    label[b] = 1;
+    labelEnd[b] = labelEnd[bb];
+    dualVar[b] = 0;
+    for (const leaf of blossomLeaves(b)) {
+      if (label[inBlossom[leaf]] === 2) queue.push(leaf);
+      inBlossom[leaf] = b;
+    }
+
+    // Compute the least-slack edges from the new blossom to neighbouring S-blossoms
+    const bestEdgeTo = new Int32Array(nb).fill(-1);
+    for (const child of path) {
+      let nbLists: number[][];
+      if (blossomBestEdges[child] === null) {
+        nbLists = blossomLeaves(child).map((leaf) => {
+          const list: number[] = [];
+          for (let q = neighbStart[leaf]; q < neighbStart[leaf + 1]; q++) list.push(neighbEnd[q] >> 1);
+          return list;
+        });
+      } else {
+        nbLists = [blossomBestEdges[child]!];
+      }
+      for (const nbList of nbLists) {
+        for (const e of nbList) {
+          let j = ev[e];
+          if (inBlossom[j] === b) j = eu[e];
+          const bj = inBlossom[j];
+          if (bj !== b && label[bj] === 1 && (bestEdgeTo[bj] === -1 || slack(e) < slack(bestEdgeTo[bj]))) {
+            bestEdgeTo[bj] = e;
+          }
+        }
+      }
+      blossomBestEdges[child] = null;
+      bestEdge[child] = -1;
+    }
+    const best: number[] = [];
+    for (let i = 0; i < nb; i++) if (bestEdgeTo[i] !== -1) best.push(bestEdgeTo[i]);
+    blossomBestEdges[b] = best;
+    bestEdge[b] = -1;
+    for (const e of best) {
+      if (bestEdge[b] === -1 || slack(e) < slack(bestEdge[b])) bestEdge[b] = e;
+    }
+  };
+
+  // Expand the given top-level blossom
+  const expandBlossom = (b: number, endStage: boolean): void => {
+    const childs = blossomChilds[b]!;
+    for (const s of childs) {
+      blossomParent[s] = -1;
+      if (s < nvertex) {
+        inBlossom[s] = s;
+      } else if (endStage && dualVar[s] === 0) {
+        expandBlossom(s, endStage);
+      } else {
+        for (const leaf of blossomLeaves(s)) inBlossom[leaf] = s;
+      }
+    }
+
+    // If this is a T-blossom being expanded mid-stage, relabel its sub-blossoms
+    if (!endStage && label[b] === 2) {
+      const endps = blossomEndps[b]!;
+      const entryChild = inBlossom[endpoint[labelEnd[b] ^ 1]];
+      let j = childs.indexOf(entryChild);
+      let jStep: number;
+      let endpTrick: number;
+      if (j & 1) {
+        j -= childs.length;
+        jStep = 1;
+        endpTrick = 0;
+      } else {
+        jStep = -1;
+        endpTrick = 1;
+      }
+      const at = <T>(arr: T[], idx: number): T => arr[idx < 0 ? idx + arr.length : idx];
+      let p = labelEnd[b];
+      while (j !== 0) {
+        label[endpoint[p ^ 1]] = 0;
+        label[endpoint[at(endps, j - endpTrick) ^ endpTrick ^ 1]] = 0;
+        assignLabel(endpoint[p ^ 1], 2, p);
+        allowEdge[at(endps, j - endpTrick) >> 1] = 1;
+        j += jStep;
+        p = at(endps, j - endpTrick) ^ endpTrick;
+        allowEdge[p >> 1] = 1;
+        j += jStep;
+      }
+      let bv = at(childs, j);
+      label[endpoint[p ^ 1]] = label[bv] = 2;
+      labelEnd[endpoint[p ^ 1]] = labelEnd[bv] = p;
+      bestEdge[bv] = -1;
+      j += jStep;
+      while (at(childs, j) !== entryChild) {
+        bv = at(childs, j);
+        if (label[bv] === 1) {
+          j += jStep;
+          continue;
+        }
+        let labelled = -1;
+        for (const leaf of blossomLeaves(bv)) {
+          if (label[leaf] !== 0) { labelled = leaf; break; }
+        }
+        if (labelled !== -1) {
+          label[labelled] = 0;
+          label[endpoint[mate[blossomBase[bv]]]] = 0;
+          assignLabel(labelled, 2, labelEnd[labelled]);
+        }
+        j += jStep;
+      }
+    }
+
+    label[b] = labelEnd[b] = -1;
+    blossomChilds[b] = blossomEndps[b] = null;
+    blossomBase[b] = -1;
+    blossomBestEdges[b] = null;
+    bestEdge[b] = -1;
+    unusedBlossoms.push(b);
+  };
+
+  // Swap matched/unmatched edges along the alternating path through blossom b to vertex v
+  const augmentBlossom = (b: number, v: number): void => {
+    let t = v;
+    while (blossomParent[t] !== b) t = blossomParent[t];
+    if (t >= nvertex) augmentBlossom(t, v);
+    const childs = blossomChilds[b]!;
+    const endps = blossomEndps[b]!;
+    const i = childs.indexOf(t);
+    let j = i;
+    let jStep: number;
+    let endpTrick: number;
+    if (i & 1) {
+      j -= childs.length;
+      jStep = 1;
+      endpTrick = 0;
+    } else {
+      jStep = -1;
+      endpTrick = 1;
+    }
+    const at = <T>(arr: T[], idx: number): T => arr[idx < 0 ? idx + arr.length : idx];
+    while (j !== 0) {
+      j += jStep;
+      t = at(childs, j);
+      const p = at(endps, j - endpTrick) ^ endpTrick;
+      if (t >= nvertex) augmentBlossom(t, endpoint[p]);
+      j += jStep;
+      t = at(childs, j);
+      if (t >= nvertex) augmentBlossom(t, endpoint[p ^ 1]);
+      mate[endpoint[p]] = p ^ 1;
+      mate[endpoint[p ^ 1]] = p;
+    }
+    blossomChilds[b] = childs.slice(i).concat(childs.slice(0, i));
+    blossomEndps[b] = endps.slice(i).concat(endps.slice(0, i));
+    blossomBase[b] = blossomBase[blossomChilds[b]![0]];
+  };
+
+  // Augment the matching along the path through S-vertices joined by edge k
+  const augmentMatching = (k: number): void => {
+    const starts: Array<[number, number]> = [[eu[k], 2 * k + 1], [ev[k], 2 * k]];
+    for (let [s, p] of starts) {
+      while (true) {
+        const bs = inBlossom[s];
+        if (bs >= nvertex) augmentBlossom(bs, s);
+        mate[s] = p;
+        if (labelEnd[bs] === -1) break;
+        const t = endpoint[labelEnd[bs]];
+        const bt = inBlossom[t];
+        s = endpoint[labelEnd[bt]];
+        const j = endpoint[labelEnd[bt] ^ 1];
+        if (bt >= nvertex) augmentBlossom(bt, j);
+        mate[j] = labelEnd[bt];
+        p = labelEnd[bt] ^ 1;
+      }
+    }
+  };
+
+  // Main loop: one stage per augmentation
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestEdge.fill(-1);
+    for (let b = nvertex; b < nb; b++) blossomBestEdges[b] = null;
+    allowEdge.fill(0);
+    queue = [];
+
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inBlossom[v]] === 0) assignLabel(v, 1, -1);
+    }
+
+    let augmented = false;
+    while (true) {
+      while (queue.length > 0 && !augmented) {
+        const v = queue.pop()!;
+        for (let q = neighbStart[v]; q < neighbStart[v + 1]; q++) {
+          const p = neighbEnd[q];
+          const k = p >> 1;
+          const w = endpoint[p];
+          if (inBlossom[v] === inBlossom[w]) continue;
+          let kSlack = 0;
+          if (!allowEdge[k]) {
+            kSlack = slack(k);
+            if (kSlack <= 0) allowEdge[k] = 1;
+          }
+          if (allowEdge[k]) {
+            if (label[inBlossom[w]] === 0) {
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inBlossom[w]] === 1) {
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              label[w] = 2;
+              labelEnd[w] = p ^ 1;
+            }
+          } else if (label[inBlossom[w]] === 1) {
+            const b = inBlossom[v];
+            if (bestEdge[b] === -1 || kSlack < slack(bestEdge[b])) bestEdge[b] = k;
+          } else if (label[w] === 0) {
+            if (bestEdge[w] === -1 || kSlack < slack(bestEdge[w])) bestEdge[w] = k;
+          }
+        }
+      }
+      if (augmented) break;
+
+      // No augmenting path under current duals — compute the dual adjustment
+      let deltaType = -1;
+      let delta = 0;
+      let deltaEdge = -1;
+      let deltaBlossom = -1;
+
+      if (!maxCardinality) {
+        deltaType = 1;
+        delta = Infinity;
+        for (let v = 0; v < nvertex; v++) if (dualVar[v] < delta) delta = dualVar[v];
+      }
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inBlossom[v]] === 0 && bestEdge[v] !== -1) {
+          const d = slack(bestEdge[v]);
+          if (deltaType === -1 || d < delta) {
+            delta = d;
+            deltaType = 2;
+            deltaEdge = bestEdge[v];
+          }
+        }
+      }
+      for (let b = 0; b < nb; b++) {
+        if (blossomParent[b] === -1 && label[b] === 1 && bestEdge[b] !== -1) {
+          const d = slack(bestEdge[b]) / 2;
+          if (deltaType === -1 || d < delta) {
+            delta = d;
+            deltaType = 3;
+            deltaEdge = bestEdge[b];
+          }
+        }
+      }
+      for (let b = nvertex; b < nb; b++) {
+        if (blossomBase[b] >= 0 && blossomParent[b] === -1 && label[b] === 2 &&
+            (deltaType === -1 || dualVar[b] < delta)) {
+          delta = dualVar[b];
+          deltaType = 4;
+          deltaBlossom = b;
+        }
+      }
+      if (deltaType === -1) {
+        // Max-cardinality mode with no further progress possible: final dual update
+        deltaType = 1;
+        delta = Infinity;
+        for (let v = 0; v < nvertex; v++) if (dualVar[v] < delta) delta = dualVar[v];
+        delta = Math.max(0, delta);
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        const l = label[inBlossom[v]];
+        if (l === 1) dualVar[v] -= delta;
+        else if (l === 2) dualVar[v] += delta;
+      }
+      for (let b = nvertex; b < nb; b++) {
+        if (blossomBase[b] >= 0 && blossomParent[b] === -1) {
+          if (label[b] === 1) dualVar[b] += delta;
+          else if (label[b] === 2) dualVar[b] -= delta;
+        }
+      }
+
+      if (deltaType === 1) {
+        break;
+      } else if (deltaType === 2) {
+        allowEdge[deltaEdge] = 1;
+        let i = eu[deltaEdge];
+        if (label[inBlossom[i]] === 0) i = ev[deltaEdge];
+        queue.push(i);
+      } else if (deltaType === 3) {
+        allowEdge[deltaEdge] = 1;
+        queue.push(eu[deltaEdge]);
+      } else if (deltaType === 4) {
+        expandBlossom(deltaBlossom, false);
+      }
+    }
+
+    if (!augmented) break;
+
+    // End of stage: expand S-blossoms whose dual dropped to zero
+    for (let b = nvertex; b < nb; b++) {
+      if (blossomParent[b] === -1 && blossomBase[b] >= 0 && label[b] === 1 && dualVar[b] === 0) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  for (let v = 0; v < nvertex; v++) {
+    if (mate[v] >= 0) result[v] = endpoint[mate[v]];
+  }
+  return result;
+}
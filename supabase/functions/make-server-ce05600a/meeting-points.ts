@@ -0,0 +1,93 @@
+/**
+ * MEETING POINTS
+ * Capacity-aware assignment of matches to meeting points.
+ *
+ * A meeting point's optional `capacity` is how many groups fit there at once.
+ * Each match goes to the point with the lowest fill ratio (assigned/capacity),
+ * so groups spread in proportion to capacity. Points without a capacity count
+ * as "unlimited" and are used only once every capped point is full — or, when
+ * no point has a capacity, matches are spread evenly (plain round-robin).
+ * With every point full the spill-over still follows the fill ratio, so the
+ * roomiest point absorbs the most extra groups.
+ */
+
+export interface MeetingPointCapacity {
+  /** Sum of capacities, or null when no point has one (= unlimited) */
+  totalCapacity: number | null;
+  /** Groups that did/would land on a point that's already full */
+  overflow: number;
+}
+
+/** Display name stored on matches/registrations (legacy points are plain strings) */
+export function meetingPointName(mp: any): string {
+  return typeof mp === 'string' ? mp : (mp.name || mp.id);
+}
+
+function capacityOf(mp: any): number | null {
+  const capacity = typeof mp === 'string' ? null : Number(mp.capacity);
+  return capacity && capacity > 0 ? Math.floor(capacity) : null;
+}
+
+export function getMeetingPointCapacity(meetingPoints: any[], groupCount: number): MeetingPointCapacity {
+  const capacities = meetingPoints.map(capacityOf);
+  if (capacities.length === 0 || capacities.some(c => c === null)) {
+    return { totalCapacity: null, overflow: 0 };
+  }
+  const totalCapacity = capacities.reduce((sum: number, c) => sum + c!, 0);
+  return { totalCapacity, overflow: Math.max(0, groupCount - totalCapacity) };
+}
+
+/**
+ * Set `match.meetingPoint` on every match. `initialUsage` (name → groups
+ * already there) lets later additions, e.g. a manual split, fill the gaps.
+ * Without configured meeting points, falls back to the first member's own
+ * meetingPoint (legacy) or 'TBD'.
+ */
+export function assignMeetingPoints(
+  matches: any[],
+  meetingPoints: any[],
+  initialUsage: Map<string, number> = new Map(),
+): MeetingPointCapacity {
+  if (meetingPoints.length === 0) {
+    for (const match of matches) {
+      match.meetingPoint = (match.participants || []).map((p: any) => p.meetingPoint).find((mp: any) => mp) || 'TBD';
+    }
+    return { totalCapacity: null, overflow: 0 };
+  }
+
+  const points = meetingPoints.map(mp => ({
+    name: meetingPointName(mp),
+    capacity: capacityOf(mp),
+    used: 0,
+  }));
+  for (const point of points) point.used = initialUsage.get(point.name) || 0;
+
+  const capped = points.filter(p => p.capacity !== null);
+  const uncapped = points.filter(p => p.capacity === null);
+  const fill = (p: typeof points[number]) => p.used / (p.capacity ?? 1);
+
+  let overflow = 0;
+  for (const match of matches) {
+    const open = capped.filter(p => p.used < p.capacity!);
+    let candidates: typeof points;
+    if (open.length > 0) candidates = open;
+    else if (uncapped.length > 0) candidates = uncapped;
+    else {
+      candidates = capped;
+      overflow++;
+    }
+
+    // Lowest fill ratio wins; ties keep configuration order (round-robin)
+    let best = candidates[0];
+    for (const point of candidates) {
+      if (fill(point) < fill(best)) best = point;
+    }
+    best.used++;
+    match.meetingPoint = best.name;
+  }
+
+  return {
+    totalCapacity: uncapped.length > 0 ? null : capped.reduce((sum, p) => sum + p.capacity!, 0),
+    overflow,
+  };
+}
@@ -1,6 +1,7 @@
 import * as db from './db.ts';
 import { errorLog, debugLog } from './debug.tsx';
-import { parseRoundStartTime } from './time-helpers.tsx';
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
+import { getParticipantWaitlist } from './waitlist.ts';
 
 // ==========================================
 // VERSION: 8.0.0 - PostgreSQL migration
@@ -156,9 +157,7 @@ export function updateSessionStatusBasedOnRounds(session: any, now: Date = new D
       return false;
     }
 
-    const [year, month, day] = round.date.split('-').map(Number);
-    const [hours, minutes] = round.startTime.split(':').map(Number);
-    const roundStart = new Date(Date.UTC(year, month - 1, day, hours - 1, minutes, 0, 0));
+    const roundStart = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session.timeZone));
     const maxRoundEnd = new Date(roundStart.getTime() + (round.duration + 5) * 60000);
     return now >= maxRoundEnd;
   });
@@ -229,7 +228,7 @@ export async function getParticipantDashboard(token: string, getCurrentTime: (c:
 
       if (reg.roundDate && reg.startTime) {
         const now = getCurrentTime(c);
-        const roundStartTime = parseRoundStartTime(reg.roundDate, reg.startTime);
+        const roundStartTime = parseRoundStartTime(reg.roundDate, reg.startTime, resolveTimeZone(reg.sessionTimeZone));
         const walkingTimeMs = (systemParams.walkingTimeMinutes || 3) * 60000;
         const findingTimeMs = (systemParams.findingTimeMinutes || 1) * 60000;
         const roundEndTime = new Date(roundStartTime.getTime() + walkingTimeMs + findingTimeMs + (reg.duration || 10) * 60000);
@@ -346,6 +345,8 @@ export async function getParticipantDashboard(token: string, getCurrentTime: (c:
       otherSocial: participant.otherSocial || '',
       registrations: enrichedRegistrations,
       sessions,
+      seriesSubscriptions: await db.getSeriesSubscriptionIdsByParticipant(participant.participantId),
+      waitlist: await getParticipantWaitlist(participant.participantId),
       organizerName,
       organizerSlug
     };
@@ -0,0 +1,198 @@
+/**
+ * RECURRENCE RULES
+ * When a recurring session (series) happens, RRULE-style but only the parts
+ * organizers actually ask for:
+ *
+ *   - daily:   every `interval` days
+ *   - weekly:  every `interval` weeks on `byWeekday` (default: the anchor's weekday),
+ *              weeks start on Monday — "every 2nd Tuesday" = weekly, interval 2
+ *   - monthly: every `interval` months, either on the anchor's day of month
+ *              (months without that day are skipped, like RRULE) or on the
+ *              anchor's nth weekday ("2nd Tuesday"; a 5th weekday means "last")
+ *
+ * The series ends at `until` (inclusive) or after `count` occurrences, whichever
+ * comes first. `exceptions` are skipped dates (cancelled occurrences) — like
+ * RRULE EXDATE they still count towards `count`.
+ *
+ * Dates are plain "YYYY-MM-DD" strings in the session's own time zone; all
+ * arithmetic is date-only (UTC midnight), so DST never shifts an occurrence.
+ * Pure functions only — materializing sessions lives in session-series.ts.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type MonthlyMode = 'day-of-month' | 'nth-weekday';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Every n days / weeks / months */
+  interval: number;
+  /** Weekly only: 0 = Sunday … 6 = Saturday */
+  byWeekday: number[];
+  /** Monthly only */
+  monthlyMode: MonthlyMode;
+  /** Last possible occurrence date, inclusive */
+  until: string | null;
+  /** Total number of occurrences, the anchor included */
+  count: number | null;
+  /** Skipped occurrence dates */
+  exceptions: string[];
+}
+
+/** How far ahead occurrences exist as real sessions */
+export const SERIES_HORIZON_DAYS = 28;
+
+export const MAX_RECURRENCE_INTERVAL = 52;
+export const MAX_RECURRENCE_COUNT = 365;
+/** Safety net for the candidate loop (a daily rule over ~10 years) */
+const MAX_CANDIDATES = 4000;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidDateString(value: any): value is string {
+  if (typeof value !== 'string' || !DATE_RE.test(value)) return false;
+  return formatDate(parseDate(value)) === value;
+}
+
+function parseDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+/** Whole days from `from` to `to` (negative when `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/**
+ * Normalize a stored or submitted rule. Returns null when there is no usable
+ * rule (unknown frequency), so callers can treat the session as one-time.
+ */
+export function resolveRecurrenceRule(raw: any): RecurrenceRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  if (!['daily', 'weekly', 'monthly'].includes(raw.frequency)) return null;
+
+  const interval = Number.isInteger(raw.interval)
+    ? Math.min(MAX_RECURRENCE_INTERVAL, Math.max(1, raw.interval))
+    : 1;
+  const byWeekday = Array.from(new Set<number>(
+    (Array.isArray(raw.byWeekday) ? raw.byWeekday : [])
+      .filter((d: any) => Number.isInteger(d) && d >= 0 && d <= 6),
+  )).sort((a, b) => a - b);
+  const count = Number.isInteger(raw.count) && raw.count > 0
+    ? Math.min(MAX_RECURRENCE_COUNT, raw.count)
+    : null;
+  const exceptions = Array.from(new Set<string>(
+    (Array.isArray(raw.exceptions) ? raw.exceptions : []).filter(isValidDateString),
+  )).sort();
+
+  return {
+    frequency: raw.frequency,
+    interval,
+    byWeekday: raw.frequency === 'weekly' ? byWeekday : [],
+    monthlyMode: raw.monthlyMode === 'nth-weekday' ? 'nth-weekday' : 'day-of-month',
+    until: isValidDateString(raw.until) ? raw.until : null,
+    count,
+    exceptions,
+  };
+}
+
+/** The rule with one more skipped date */
+export function addRecurrenceException(rule: RecurrenceRule, date: string): RecurrenceRule {
+  if (rule.exceptions.includes(date)) return rule;
+  return { ...rule, exceptions: [...rule.exceptions, date].sort() };
+}
+
+/** Every date the rule produces from the anchor on, in order, exceptions included */
+function* candidateDates(rule: RecurrenceRule, anchorDate: string): Generator<string> {
+  const anchor = parseDate(anchorDate);
+
+  if (rule.frequency === 'daily') {
+    for (let i = 0; ; i++) yield addDays(anchorDate, i * rule.interval);
+  }
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [anchor.getUTCDay()];
+    // Monday of the anchor's week
+    const weekStart = addDays(anchorDate, -((anchor.getUTCDay() + 6) % 7));
+    // Days after Monday, so Sunday comes last in its week
+    const days = weekdays.map(d => (d + 6) % 7).sort((a, b) => a - b);
+    for (let week = 0; ; week += rule.interval) {
+      const monday = addDays(weekStart, week * 7);
+      for (const offset of days) {
+        const date = addDays(monday, offset);
+        if (date >= anchorDate) yield date;
+      }
+    }
+  }
+
+  // monthly
+  const anchorDay = anchor.getUTCDate();
+  const weekday = anchor.getUTCDay();
+  const nth = Math.ceil(anchorDay / 7);
+  for (let i = 0; ; i++) {
+    const monthIndex = anchor.getUTCMonth() + i * rule.interval;
+    const year = anchor.getUTCFullYear() + Math.floor(monthIndex / 12);
+    const month = monthIndex % 12;
+    const lastDay = daysInMonth(year, month);
+
+    if (rule.monthlyMode === 'nth-weekday') {
+      const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+      let day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+      if (nth === 5) {
+        while (day > lastDay) day -= 7;
+      }
+      if (day <= lastDay) yield formatDate(new Date(Date.UTC(year, month, day)));
+    } else if (anchorDay <= lastDay) {
+      yield formatDate(new Date(Date.UTC(year, month, anchorDay)));
+    }
+  }
+}
+
+/**
+ * Occurrence dates within [fromDate, toDate] (inclusive), exceptions removed.
+ * Counting always starts at the anchor (the series' first session), so `count`
+ * means the same thing however far ahead we look.
+ */
+export function listOccurrenceDates(
+  rule: RecurrenceRule,
+  anchorDate: string,
+  fromDate: string,
+  toDate: string,
+): string[] {
+  const dates: string[] = [];
+  const exceptions = new Set(rule.exceptions);
+  let produced = 0;
+  let examined = 0;
+
+  for (const date of candidateDates(rule, anchorDate)) {
+    if (++examined > MAX_CANDIDATES) break;
+    if (date > toDate) break;
+    if (rule.until && date > rule.until) break;
+    if (rule.count !== null && produced >= rule.count) break;
+    produced++;
+
+    if (date >= fromDate && !exceptions.has(date)) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Occurrence dates that should exist as sessions on `today` (the series' own
+ * date): today through SERIES_HORIZON_DAYS ahead.
+ */
+export function listDueOccurrenceDates(rule: RecurrenceRule, anchorDate: string, today: string): string[] {
+  return listOccurrenceDates(rule, anchorDate, today, addDays(today, SERIES_HORIZON_DAYS));
+}
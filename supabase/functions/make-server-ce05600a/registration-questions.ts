@@ -0,0 +1,154 @@
+/**
+ * REGISTRATION QUESTIONS
+ * Organizer-defined questions on a session ("seniority", "industry",
+ * "looking for"), answered once per session at registration and stored on
+ * each of the participant's registrations.
+ *
+ * Each question says how it feeds the pair score:
+ *   - similar:   pairs with matching answers score higher
+ *   - different: pairs with differing answers score higher
+ *   - display:   shown to organizers only, no effect on matching
+ *
+ * Similarity per question type, 0..1 (only when both answered):
+ *   - single: same option → 1
+ *   - multi:  at least one option in common → 1 (same rule as topics)
+ *   - scale:  1 − distance / scale range, so neighbours on a 1–5 scale get 0.75
+ *
+ * Pure functions only — the scorer lives in matching-scoring.ts.
+ */
+
+export type QuestionType = 'single' | 'multi' | 'scale';
+export type QuestionMatchMode = 'similar' | 'different' | 'display';
+
+export interface RegistrationQuestion {
+  id: string;
+  label: string;
+  type: QuestionType;
+  /** Answer choices (single / multi) */
+  options: string[];
+  /** Scale end points (scale only) */
+  scaleMin: number;
+  scaleMax: number;
+  matchMode: QuestionMatchMode;
+  /** Points for a fully similar (or fully different) pair */
+  weight: number;
+  required: boolean;
+}
+
+/** questionId → option (single), options (multi) or number (scale) */
+export type RegistrationAnswers = Record<string, string | string[] | number>;
+
+export const MAX_REGISTRATION_QUESTIONS = 10;
+/** Multi-choice answers are bitmasks in the scorer */
+export const MAX_QUESTION_OPTIONS = 30;
+export const DEFAULT_QUESTION_WEIGHT = 10;
+
+/**
+ * Normalize the stored session setting: drops questions without a label or
+ * (for choice questions) without options, dedupes options, clamps the rest.
+ * Weights are clamped by the scorer, which knows the score budget.
+ */
+export function resolveRegistrationQuestions(raw: any): RegistrationQuestion[] {
+  if (!Array.isArray(raw)) return [];
+
+  const questions: RegistrationQuestion[] = [];
+  const seenIds = new Set<string>();
+  for (const q of raw) {
+    const id = typeof q?.id === 'string' ? q.id.trim() : '';
+    const label = typeof q?.label === 'string' ? q.label.trim() : '';
+    if (!id || !label || seenIds.has(id)) continue;
+
+    const type: QuestionType = q.type === 'multi' || q.type === 'scale' ? q.type : 'single';
+    const options = type === 'scale' ? [] : Array.from(new Set<string>(
+      (Array.isArray(q.options) ? q.options : [])
+        .filter((o: any) => typeof o === 'string')
+        .map((o: string) => o.trim())
+        .filter(Boolean),
+    )).slice(0, MAX_QUESTION_OPTIONS);
+    if (type !== 'scale' && options.length < 2) continue;
+
+    const scaleMin = Number.isInteger(q.scaleMin) ? q.scaleMin : 1;
+    const scaleMax = Number.isInteger(q.scaleMax) && q.scaleMax > scaleMin ? q.scaleMax : scaleMin + 4;
+
+    seenIds.add(id);
+    questions.push({
+      id,
+      label,
+      type,
+      options,
+      scaleMin,
+      scaleMax,
+      matchMode: q.matchMode === 'different' || q.matchMode === 'display' ? q.matchMode : 'similar',
+      weight: typeof q.weight === 'number' && Number.isFinite(q.weight)
+        ? Math.max(0, Math.round(q.weight))
+        : DEFAULT_QUESTION_WEIGHT,
+      required: q.required === true,
+    });
+    if (questions.length >= MAX_REGISTRATION_QUESTIONS) break;
+  }
+  return questions;
+}
+
+/** Keep only valid answers to the session's questions (unknown options and out-of-range values are dropped) */
+export function sanitizeAnswers(questions: RegistrationQuestion[], raw: any): RegistrationAnswers {
+  const answers: RegistrationAnswers = {};
+  if (!raw || typeof raw !== 'object') return answers;
+
+  for (const q of questions) {
+    const value = raw[q.id];
+    if (q.type === 'single') {
+      if (typeof value === 'string' && q.options.includes(value)) answers[q.id] = value;
+    } else if (q.type === 'multi') {
+      const picked = Array.isArray(value) ? q.options.filter(o => value.includes(o)) : [];
+      if (picked.length > 0) answers[q.id] = picked;
+    } else if (typeof value === 'number' && Number.isInteger(value) && value >= q.scaleMin && value <= q.scaleMax) {
+      answers[q.id] = value;
+    }
+  }
+  return answers;
+}
+
+/** Required questions without a valid answer (labels, for error messages) */
+export function missingRequiredAnswers(questions: RegistrationQuestion[], answers: RegistrationAnswers): string[] {
+  return questions.filter(q => q.required && answers[q.id] === undefined).map(q => q.label);
+}
+
+/**
+ * Compact numeric form of one participant's answer, for the scorer's inner loop:
+ * option index (single), option bitmask (multi), offset from scaleMin (scale); -1 = no answer.
+ */
+export function encodeAnswer(question: RegistrationQuestion, answers: RegistrationAnswers | null | undefined): number {
+  const value = answers?.[question.id];
+  if (value === undefined || value === null) return -1;
+  if (question.type === 'single') {
+    return typeof value === 'string' ? question.options.indexOf(value) : -1;
+  }
+  if (question.type === 'multi') {
+    if (!Array.isArray(value)) return -1;
+    let mask = 0;
+    for (const option of value) {
+      const idx = question.options.indexOf(option);
+      if (idx !== -1) mask |= 1 << idx;
+    }
+    return mask === 0 ? -1 : mask;
+  }
+  return typeof value === 'number' && value >= question.scaleMin && value <= question.scaleMax
+    ? value - question.scaleMin
+    : -1;
+}
+
+/** Similarity of two encoded answers, 0..1 */
+export function encodedSimilarity(question: RegistrationQuestion, a: number, b: number): number {
+  if (question.type === 'single') return a === b ? 1 : 0;
+  if (question.type === 'multi') return (a & b) !== 0 ? 1 : 0;
+  return 1 - Math.abs(a - b) / (question.scaleMax - question.scaleMin);
+}
+
+/** Answers as label/value text for organizer views, in question order */
+export function formatAnswers(questions: RegistrationQuestion[], answers: RegistrationAnswers | null | undefined): Array<{ label: string; value: string }> {
+  return questions.flatMap(q => {
+    const value = answers?.[q.id];
+    if (value === undefined || value === null) return [];
+    return [{ label: q.label, value: Array.isArray(value) ? value.join(', ') : String(value) }];
+  });
+}
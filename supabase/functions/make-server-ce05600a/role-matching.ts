@@ -0,0 +1,176 @@
+/**
+ * ROLE MATCHING
+ * Asymmetric sessions: mentor/mentee, investor/founder, buyer/seller.
+ *
+ * Every role group is one lead + minMembers..maxMembers members; two leads
+ * never share a group. Formation walks lead–member pairs from the highest
+ * score down (same bucket idea as pairwise greedy):
+ *   1. open up to min(#leads, #members / minMembers) groups and give each
+ *      its first minMembers members — groups that can't reach that under
+ *      hard constraints are dissolved again;
+ *   2. hand out the remaining members one per group per pass, so a group
+ *      gets its 3rd member only once every group has its 2nd.
+ * Member–member links inside a group must be allowed too.
+ *
+ * Whoever is left over (the oversubscribed side) is returned as `leftover`;
+ * matching.tsx lets them meet each other when the session's peerFallback
+ * is on. Pure functions only.
+ */
+
+export interface RoleMatchingConfig {
+  /** One per group (mentor, investor, buyer) */
+  leadRole: string;
+  /** The other side (mentee, founder, seller) */
+  memberRole: string;
+  minMembers: number;
+  maxMembers: number;
+  /** Leftovers of the oversubscribed side meet each other instead of getting no-match */
+  peerFallback: boolean;
+}
+
+export const MAX_MEMBERS_PER_LEAD = 8;
+
+/** Normalize the stored session setting; null when roles aren't set up */
+export function resolveRoleMatching(raw: any): RoleMatchingConfig | null {
+  const leadRole = typeof raw?.leadRole === 'string' ? raw.leadRole.trim() : '';
+  const memberRole = typeof raw?.memberRole === 'string' ? raw.memberRole.trim() : '';
+  if (!leadRole || !memberRole || leadRole === memberRole) return null;
+
+  const clamp = (value: any, fallback: number) => {
+    const num = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : fallback;
+    return Math.min(MAX_MEMBERS_PER_LEAD, Math.max(1, num));
+  };
+  const minMembers = clamp(raw.minMembers, 1);
+  return {
+    leadRole,
+    memberRole,
+    minMembers,
+    maxMembers: Math.max(minMembers, clamp(raw.maxMembers, minMembers)),
+    peerFallback: raw.peerFallback !== false,
+  };
+}
+
+/** Registrations without (or with an unknown) role count as members */
+export function isLeadRole(config: RoleMatchingConfig, role: string | null | undefined): boolean {
+  return role === config.leadRole;
+}
+
+/**
+ * Would the group still be valid with one more person of `role`?
+ * Valid = a single-side group (peer fallback) or 1 lead + min..max members.
+ */
+export function canJoinRoleGroup(config: RoleMatchingConfig, groupRoles: Array<string | null | undefined>, role: string | null | undefined): boolean {
+  let leads = isLeadRole(config, role) ? 1 : 0;
+  for (const r of groupRoles) if (isLeadRole(config, r)) leads++;
+  const members = groupRoles.length + 1 - leads;
+  if (leads === 0 || members === 0) return true;
+  return leads === 1 && members >= config.minMembers && members <= config.maxMembers;
+}
+
+export interface RoleFormation {
+  /** Member indices per group, lead first */
+  groups: number[][];
+  /** Everyone not placed in a role group */
+  leftover: number[];
+}
+
+/**
+ * @param scoreMatrix - symmetric n×n pair scores, negative for pairs that may not meet
+ * @param isLead - 1 for leads, 0 for members
+ */
+export function formRoleGroups(
+  scoreMatrix: Int8Array,
+  n: number,
+  isLead: Uint8Array,
+  config: RoleMatchingConfig,
+  maxScore: number,
+): RoleFormation {
+  const leads: number[] = [];
+  const members: number[] = [];
+  for (let i = 0; i < n; i++) (isLead[i] ? leads : members).push(i);
+
+  const groupCount = Math.min(leads.length, Math.floor(members.length / config.minMembers));
+  if (groupCount === 0) {
+    return { groups: [], leftover: Array.from({ length: n }, (_, i) => i) };
+  }
+
+  // Lead–member pairs bucketed by score (two passes: count, then fill)
+  const bucketCounts = new Int32Array(maxScore + 1);
+  for (const l of leads) {
+    for (const m of members) {
+      const s = scoreMatrix[l * n + m];
+      if (s >= 0) bucketCounts[s]++;
+    }
+  }
+  const buckets: Int32Array[] = new Array(maxScore + 1);
+  for (let s = 0; s <= maxScore; s++) buckets[s] = new Int32Array(bucketCounts[s] * 2);
+  const cursors = new Int32Array(maxScore + 1);
+  for (const l of leads) {
+    for (const m of members) {
+      const s = scoreMatrix[l * n + m];
+      if (s < 0) continue;
+      buckets[s][2 * cursors[s]] = l;
+      buckets[s][2 * cursors[s] + 1] = m;
+      cursors[s]++;
+    }
+  }
+
+  const groupOfLead = new Int32Array(n).fill(-1);
+  const placed = new Uint8Array(n);
+  let groups: number[][] = [];
+
+  const fitsGroup = (group: number[], m: number) => {
+    for (let k = 1; k < group.length; k++) {
+      if (scoreMatrix[group[k] * n + m] < 0) return false;
+    }
+    return true;
+  };
+
+  // target = members per group this pass; only the first pass opens groups
+  for (let target = config.minMembers; target <= config.maxMembers; target++) {
+    for (let s = maxScore; s >= 0; s--) {
+      const buf = buckets[s];
+      for (let k = 0; k < bucketCounts[s]; k++) {
+        const l = buf[2 * k];
+        const m = buf[2 * k + 1];
+        if (placed[m]) continue;
+
+        const g = groupOfLead[l];
+        if (g === -1 && (target > config.minMembers || groups.length >= groupCount || placed[l])) continue;
+        const group = g === -1 ? [l] : groups[g];
+        if (group.length - 1 >= target || !fitsGroup(group, m)) continue;
+
+        if (g === -1) {
+          groupOfLead[l] = groups.length;
+          groups.push(group);
+          placed[l] = 1;
+        }
+        group.push(m);
+        placed[m] = 1;
+      }
+    }
+
+    if (target === config.minMembers) {
+      // Groups that couldn't reach minMembers (hard constraints) release everyone
+      const complete: number[][] = [];
+      for (const group of groups) {
+        if (group.length - 1 >= config.minMembers) {
+          groupOfLead[group[0]] = complete.length;
+          complete.push(group);
+        } else {
+          groupOfLead[group[0]] = -1;
+          for (const idx of group) placed[idx] = 0;
+          placed[group[0]] = 1; // already tried as a lead — don't reopen
+        }
+      }
+      groups = complete;
+    }
+  }
+
+  const inGroup = new Uint8Array(n);
+  for (const group of groups) for (const idx of group) inGroup[idx] = 1;
+  const leftover: number[] = [];
+  for (let i = 0; i < n; i++) if (!inGroup[i]) leftover.push(i);
+
+  return { groups, leftover };
+}
@@ -0,0 +1,235 @@
+/**
+ * ROTATION PLANNER
+ * Whole-event schedule for multi-round sessions ("plan all rounds").
+ *
+ * Per-round matching only looks at who already met; it can't look ahead, so
+ * by round 5 of 6 it may have nobody new left to pair. The planner fixes the
+ * groups for every round up front:
+ *   - pairs: round-robin (circle method) — nobody meets the same person twice
+ *     for up to n-1 rounds, guaranteed
+ *   - groups of 3+: social-golfer style greedy that minimizes repeat meetings
+ * Team rules are a tie-breaker on top (which rotations / which members).
+ *
+ * Pure functions only — storage and per-round adaptation live in matching.tsx.
+ */
+
+export interface RotationPlan {
+  /** Rounds in schedule order */
+  roundIds: string[];
+  /** The registered set the plan was computed for */
+  participantIds: string[];
+  /** roundId → planned groups (participant IDs) */
+  groups: Record<string, string[][]>;
+  /** Pairs that meet more than once across the plan (0 = every meeting is new) */
+  repeatPairs: number;
+}
+
+export interface PlannerParticipant {
+  participantId: string;
+  team?: string | null;
+}
+
+/** Cost of putting two people together again vs. a team-rule miss */
+const REPEAT_COST = 100;
+const TEAM_COST = 1;
+
+/** Candidates looked at per group slot (keeps groups of 3+ near-linear in n) */
+const CANDIDATE_SCAN = 300;
+
+/** Circle-method rotations considered when picking the best team fit */
+const PAIR_ROTATION_CANDIDATES_PER_ROUND = 4;
+
+/** Wall-clock budget for greedy restarts (always at least the first attempt) */
+const PLANNING_BUDGET_MS = 500;
+const MAX_GREEDY_ATTEMPTS = 50;
+
+export function planRotation(
+  participants: PlannerParticipant[],
+  roundIds: string[],
+  groupSize: number,
+  matchingType: string,
+): RotationPlan {
+  const ids = participants.map(p => p.participantId);
+  const teamOf = new Map<string, string | null>();
+  for (const p of participants) teamOf.set(p.participantId, p.team || null);
+
+  // Same team rule as matching-scoring.ts ('within-team' from the frontend, 'within-teams' legacy)
+  const teamRule = matchingType === 'across-teams' ? 'across'
+    : (matchingType === 'within-teams' || matchingType === 'within-team') ? 'within'
+    : null;
+  const teamMiss = (a: string, b: string): number => {
+    const tA = teamOf.get(a), tB = teamOf.get(b);
+    if (!teamRule || !tA || !tB) return 0;
+    return (teamRule === 'across' ? tA === tB : tA !== tB) ? 1 : 0;
+  };
+
+  // Keep the schedule with the fewest repeats, then the fewest team misses.
+  // Pairs: the circle method guarantees no repeats but ignores teams, so the
+  // team-aware greedy replaces it whenever it also manages zero repeats.
+  // Groups of 3+: greedy restarts until no repeats or the time budget is spent.
+  const evaluate = (rounds: string[][][]) => ({ rounds, repeats: countRepeatPairs(rounds), misses: countTeamMisses(rounds, teamMiss) });
+  const better = (a: ReturnType<typeof evaluate>, b: ReturnType<typeof evaluate>) =>
+    a.repeats < b.repeats || (a.repeats === b.repeats && a.misses < b.misses);
+
+  const deadline = Date.now() + PLANNING_BUDGET_MS;
+  let best = groupSize === 2
+    ? evaluate(planPairRounds(ids, roundIds.length, teamMiss))
+    : evaluate(planGroupRounds(ids, roundIds.length, groupSize, teamMiss));
+  let attempts = 0;
+  while (attempts < MAX_GREEDY_ATTEMPTS && Date.now() < deadline && (best.repeats > 0 || best.misses > 0)) {
+    const candidate = evaluate(planGroupRounds(ids, roundIds.length, groupSize, teamMiss));
+    if (better(candidate, best)) best = candidate;
+    attempts++;
+  }
+
+  const groups: Record<string, string[][]> = {};
+  roundIds.forEach((roundId, r) => { groups[roundId] = best.rounds[r]; });
+
+  return { roundIds, participantIds: ids, groups, repeatPairs: best.repeats };
+}
+
+/**
+ * Circle method: fix one seat, rotate the rest. Every rotation is a perfect
+ * matching and no two rotations share a pair. With an odd count one seat is
+ * a bye (that person is left to per-round matching). When there are more
+ * rotations than rounds, pick the ones with the fewest team-rule misses.
+ */
+function planPairRounds(
+  ids: string[],
+  roundCount: number,
+  teamMiss: (a: string, b: string) => number,
+): string[][][] {
+  const seats: (string | null)[] = shuffle([...ids]);
+  if (seats.length % 2 === 1) seats.push(null);
+  const m = seats.length;
+  if (m < 2) return Array.from({ length: roundCount }, () => []);
+
+  const rotationCount = m - 1;
+  const candidateCount = Math.min(rotationCount, Math.max(roundCount, roundCount * PAIR_ROTATION_CANDIDATES_PER_ROUND));
+
+  const candidates: Array<{ pairs: string[][]; misses: number }> = [];
+  for (let r = 0; r < candidateCount; r++) {
+    // Seat 0 fixed; seat k (k ≥ 1) holds rotating position ((k - 1 + r) mod (m - 1)) + 1
+    const at = (k: number) => k === 0 ? seats[0] : seats[((k - 1 + r) % (m - 1)) + 1];
+    const pairs: string[][] = [];
+    let misses = 0;
+    for (let k = 0; k < m / 2; k++) {
+      const a = at(k), b = at(m - 1 - k);
+      if (a === null || b === null) continue;
+      pairs.push([a, b]);
+      misses += teamMiss(a, b);
+    }
+    candidates.push({ pairs, misses });
+  }
+
+  // Fewest team misses first (stable on rotation order)
+  const chosen = candidates
+    .map((c, index) => ({ ...c, index }))
+    .sort((x, y) => x.misses - y.misses || x.index - y.index)
+    .slice(0, roundCount)
+    .map(c => c.pairs);
+
+  // More rounds than distinct rotations: repeats are unavoidable, cycle them
+  for (let r = chosen.length; r < roundCount; r++) chosen.push(chosen[r % candidates.length]);
+  return chosen;
+}
+
+/**
+ * Build each round greedily (any group size). A group starts from the next
+ * unassigned person; each slot takes the candidate with the lowest cost
+ * (REPEAT_COST per earlier meeting with a member, TEAM_COST per team-rule
+ * miss). Leftovers smaller than a group are spread over existing groups.
+ */
+function planGroupRounds(
+  ids: string[],
+  roundCount: number,
+  groupSize: number,
+  teamMiss: (a: string, b: string) => number,
+): string[][][] {
+  const met = new Map<string, Set<string>>();
+  for (const id of ids) met.set(id, new Set());
+  const cost = (a: string, b: string) => (met.get(a)!.has(b) ? REPEAT_COST : 0) + teamMiss(a, b) * TEAM_COST;
+
+  const rounds: string[][][] = [];
+  for (let r = 0; r < roundCount; r++) {
+    const unassigned = shuffle([...ids]);
+    const groups: string[][] = [];
+
+    while (unassigned.length >= groupSize) {
+      const group = [unassigned.shift()!];
+      while (group.length < groupSize) {
+        let bestPos = 0, bestCost = Infinity;
+        const scan = Math.min(unassigned.length, CANDIDATE_SCAN);
+        for (let pos = 0; pos < scan; pos++) {
+          let c = 0;
+          for (const member of group) c += cost(unassigned[pos], member);
+          if (c < bestCost) { bestCost = c; bestPos = pos; }
+          if (c === 0) break;
+        }
+        group.push(unassigned.splice(bestPos, 1)[0]);
+      }
+      groups.push(group);
+    }
+
+    // Remainder: each joins the cheapest group (groups grow to groupSize + 1 at most once each)
+    for (const extra of unassigned) {
+      if (groups.length === 0) break;
+      let best: string[] | null = null, bestCost = Infinity;
+      for (const group of groups) {
+        if (group.length > groupSize) continue;
+        let c = 0;
+        for (const member of group) c += cost(extra, member);
+        if (c < bestCost) { bestCost = c; best = group; }
+      }
+      (best || groups[0]).push(extra);
+    }
+
+    for (const group of groups) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          met.get(group[i])!.add(group[j]);
+          met.get(group[j])!.add(group[i]);
+        }
+      }
+    }
+    rounds.push(groups);
+  }
+  return rounds;
+}
+
+function countTeamMisses(rounds: string[][][], teamMiss: (a: string, b: string) => number): number {
+  let misses = 0;
+  for (const groups of rounds) {
+    for (const group of groups) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) misses += teamMiss(group[i], group[j]);
+      }
+    }
+  }
+  return misses;
+}
+
+function countRepeatPairs(rounds: string[][][]): number {
+  const seen = new Set<string>();
+  let repeats = 0;
+  for (const groups of rounds) {
+    for (const group of groups) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const key = group[i] < group[j] ? `${group[i]}|${group[j]}` : `${group[j]}|${group[i]}`;
+          if (seen.has(key)) repeats++;
+          else seen.add(key);
+        }
+      }
+    }
+  }
+  return repeats;
+}
+
+function shuffle<T>(arr: T[]): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
@@ -0,0 +1,95 @@
+/**
+ * Calendar Routes
+ * iCalendar feeds (see calendar-feeds.ts)
+ *
+ * - Participant feed (/p/:token/calendar.ics) — keyed by the participant token
+ * - Organizer feed (/calendar/:calendarToken/feed.ics) — keyed by a secret token
+ * - Organizer feed URL (/calendar-feed, /calendar-feed/reset)
+ */
+
+import { Hono } from 'npm:hono';
+import * as db from './db.ts';
+import { errorLog } from './debug.tsx';
+import { requireOrganizer } from './auth-helpers.tsx';
+import { buildOrganizerFeed, buildParticipantFeed, getOrganizerFeedUrl } from './calendar-feeds.ts';
+
+const PREFIX = '/make-server-ce05600a';
+
+function calendarResponse(c: any, calendar: string) {
+  return c.body(calendar, 200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Content-Disposition': 'inline; filename="wonderelo.ics"',
+    'Cache-Control': 'no-cache',
+  });
+}
+
+function newCalendarToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+export function registerCalendarRoutes(app: Hono, getCurrentTime: (c: any) => Date) {
+
+  // ========================================
+  // PUBLIC: Participant feed
+  // ========================================
+  app.get(`${PREFIX}/p/:token/calendar.ics`, async (c) => {
+    try {
+      const participant = await db.getParticipantByToken(c.req.param('token'));
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+      return calendarResponse(c, await buildParticipantFeed(participant, getCurrentTime(c)));
+    } catch (error) {
+      errorLog('Error building participant calendar feed:', error);
+      return c.json({ error: 'Failed to build calendar feed' }, 500);
+    }
+  });
+
+  // ========================================
+  // PUBLIC: Organizer feed
+  // ========================================
+  app.get(`${PREFIX}/calendar/:calendarToken/feed.ics`, async (c) => {
+    try {
+      const organizerId = await db.getOrganizerIdByCalendarToken(c.req.param('calendarToken'));
+      if (!organizerId) {
+        return c.json({ error: 'Calendar feed not found' }, 404);
+      }
+      return calendarResponse(c, await buildOrganizerFeed(organizerId, getCurrentTime(c)));
+    } catch (error) {
+      errorLog('Error building organizer calendar feed:', error);
+      return c.json({ error: 'Failed to build calendar feed' }, 500);
+    }
+  });
+
+  // ========================================
+  // ORGANIZER: Feed URL (created on first use)
+  // ========================================
+  app.get(`${PREFIX}/calendar-feed`, requireOrganizer, async (c: any) => {
+    try {
+      const organizerId = c.get('organizerId');
+      let token = await db.getOrganizerCalendarToken(organizerId);
+      if (!token) {
+        token = newCalendarToken();
+        await db.setOrganizerCalendarToken(organizerId, token);
+      }
+      return c.json({ success: true, feedUrl: getOrganizerFeedUrl(token) });
+    } catch (error) {
+      errorLog('Error getting calendar feed URL:', error);
+      return c.json({ error: 'Failed to get calendar feed' }, 500);
+    }
+  });
+
+  // ========================================
+  // ORGANIZER: New feed URL — the old one stops working
+  // ========================================
+  app.post(`${PREFIX}/calendar-feed/reset`, requireOrganizer, async (c: any) => {
+    try {
+      const token = newCalendarToken();
+      await db.setOrganizerCalendarToken(c.get('organizerId'), token);
+      return c.json({ success: true, feedUrl: getOrganizerFeedUrl(token) });
+    } catch (error) {
+      errorLog('Error resetting calendar feed URL:', error);
+      return c.json({ error: 'Failed to reset calendar feed' }, 500);
+    }
+  });
+}
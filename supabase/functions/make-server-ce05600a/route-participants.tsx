@@ -7,6 +7,7 @@
  * - Profile updates (/p/:token/update-profile)
  * - Attendance confirmation (/p/:token/confirm/:roundId)
  * - Notification preferences (/p/:token/notification-preference)
+ * - Recurring series subscriptions (/p/:token/series/:seriesId/subscribe)
  */
 
 import { Hono } from 'npm:hono';
@@ -14,8 +15,14 @@ import * as db from './db.ts';
 import { errorLog, debugLog } from './debug.tsx';
 import { getParticipantDashboard } from './participant-dashboard.tsx';
 import { createMatchesForRound } from './matching.tsx';
-import { parseRoundStartTime } from './time-helpers.tsx';
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
 import { sendEmail, buildContactSharedEmail } from './email.tsx';
+import { subscribeToSeries, getSeriesPreferencesError } from './session-series.ts';
+import { composeE164 } from './sms-dispatch.tsx';
+import { isSmsSuppressed, removeSmsSuppression } from './sms-outbox.ts';
+
+// Keys of participants.notification_channels
+const NOTIFICATION_CHANNELS = ['sms', 'email', 'push'];
 
 export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) => Date) {
 
@@ -111,7 +118,7 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
             const session = await db.getSessionById(matchableReg.sessionId);
             const round = session?.rounds?.find((r: any) => r.id === matchableReg.roundId);
             if (round?.date && round?.startTime) {
-              const roundStart = parseRoundStartTime(round.date, round.startTime);
+              const roundStart = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session.timeZone));
               if (getCurrentTime(c) >= roundStart) {
                 debugLog('[GET /match] Participant not matched yet — triggering matching (retry)');
                 await createMatchesForRound(matchableReg.sessionId, matchableReg.roundId);
@@ -149,7 +156,7 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
                       let networkingEndTime: string | null = null;
 
                       if (matchRound?.date && matchRound?.startTime) {
-                        const roundStartTime = parseRoundStart(matchRound.date, matchRound.startTime);
+                        const roundStartTime = parseRoundStart(matchRound.date, matchRound.startTime, resolveTimeZone(matchSession?.timeZone));
                         roundStartTimeISO = roundStartTime.toISOString();
                         walkingDeadline = new Date(roundStartTime.getTime() + walkingTimeMinutes * 60000).toISOString();
                         networkingEndTime = new Date(
@@ -288,7 +295,7 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
       let networkingEndTime: string | null = null;
 
       if (round?.date && round?.startTime) {
-        const roundStartTime = parseRoundStart(round.date, round.startTime);
+        const roundStartTime = parseRoundStart(round.date, round.startTime, resolveTimeZone(session?.timeZone));
         roundStartTimeISO = roundStartTime.toISOString();
         // Networking end = roundStart + walkingTime + findingTime + round.duration
         networkingEndTime = new Date(
@@ -412,18 +419,72 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
 
   // NOTE: /p/:token/confirm/:roundId is handled by the inline route in index.tsx
 
+  // ========================================
+  // PUBLIC: Get notification preferences
+  // ========================================
+  // The participant's channel choices, which channels can reach them at all,
+  // and whether their number is on the SMS suppression list (e.g. after STOP)
+  app.get('/make-server-ce05600a/p/:token/notification-preference', async (c) => {
+    try {
+      const token = c.req.param('token');
+      const participant = await db.getParticipantByToken(token);
+
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      const pushSubscriptions = await db.getPushSubscriptionsByParticipant(participant.participantId);
+      const phone = composeE164(participant.phone, participant.phoneCountry);
+
+      return c.json({
+        success: true,
+        channels: {
+          sms: participant.notificationChannels.sms !== false,
+          email: participant.notificationChannels.email !== false,
+          push: participant.notificationChannels.push !== false,
+        },
+        available: {
+          sms: !!participant.phone,
+          email: !!participant.email,
+          push: pushSubscriptions.length > 0,
+        },
+        suppressed: {
+          sms: phone ? await isSmsSuppressed(phone) : false,
+        },
+      });
+
+    } catch (error) {
+      errorLog('Error fetching notification preference:', error);
+      return c.json({
+        error: 'Failed to fetch notification preference',
+        details: error instanceof Error ? error.message : String(error)
+      }, 500);
+    }
+  });
+
   // ========================================
   // PUBLIC: Set notification preference
   // ========================================
+  // `enabled` switches one round's notifications on or off (roundId and
+  // sessionId required); `channels` sets which channels the participant
+  // wants for all rounds, e.g. { sms: false, push: true }. Either or both.
   app.post('/make-server-ce05600a/p/:token/notification-preference', async (c) => {
     try {
       const token = c.req.param('token');
       const body = await c.req.json();
-      const { roundId, sessionId, enabled } = body;
+      const { roundId, sessionId, enabled, channels } = body;
 
-      if (!token || !roundId || !sessionId || typeof enabled !== 'boolean') {
+      const hasRoundSwitch = enabled !== undefined;
+      if (!token || (!hasRoundSwitch && channels === undefined)) {
+        return c.json({ error: 'Token and enabled or channels required' }, 400);
+      }
+      if (hasRoundSwitch && (!roundId || !sessionId || typeof enabled !== 'boolean')) {
         return c.json({ error: 'Token, roundId, sessionId, and enabled required' }, 400);
       }
+      if (channels !== undefined && (typeof channels !== 'object' || channels === null ||
+          Object.entries(channels).some(([key, value]) => !NOTIFICATION_CHANNELS.includes(key) || typeof value !== 'boolean'))) {
+        return c.json({ error: 'channels must map sms, email or push to true or false' }, 400);
+      }
 
       const participant = await db.getParticipantByToken(token);
 
@@ -431,16 +492,30 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
         return c.json({ error: 'Invalid token' }, 404);
       }
 
-      // Update notification preference directly on the registration row
-      await db.updateRegistrationStatus(participant.participantId, sessionId, roundId,
-        // Keep current status (we only want to update notifications_enabled)
-        (await db.getRegistration(participant.participantId, sessionId, roundId))?.status || 'registered',
-        { notificationsEnabled: enabled }
-      );
+      if (hasRoundSwitch) {
+        // Update notification preference directly on the registration row
+        await db.updateRegistrationStatus(participant.participantId, sessionId, roundId,
+          // Keep current status (we only want to update notifications_enabled)
+          (await db.getRegistration(participant.participantId, sessionId, roundId))?.status || 'registered',
+          { notificationsEnabled: enabled }
+        );
+      }
+
+      const notificationChannels = { ...participant.notificationChannels, ...(channels || {}) };
+      if (channels !== undefined) {
+        await db.updateParticipant(participant.participantId, { notificationChannels });
+      }
+      // Turning SMS back on is the participant opting in again, same as a
+      // START reply, so a STOP-era suppression must not keep blocking sends
+      if (channels?.sms === true) {
+        const phone = composeE164(participant.phone, participant.phoneCountry);
+        if (phone) await removeSmsSuppression(phone);
+      }
 
       return c.json({
         success: true,
-        notificationsEnabled: enabled
+        ...(hasRoundSwitch ? { notificationsEnabled: enabled } : {}),
+        channels: notificationChannels,
       });
 
     } catch (error) {
@@ -452,6 +527,85 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
     }
   });
 
+  // ========================================
+  // PUBLIC: Subscribe to a recurring series
+  // ========================================
+  // Registers the participant for every upcoming occurrence, now and as new
+  // ones are created. Preferences default to their latest registration in the series.
+  app.post('/make-server-ce05600a/p/:token/series/:seriesId/subscribe', async (c) => {
+    try {
+      const token = c.req.param('token');
+      const seriesId = c.req.param('seriesId');
+      const body = await c.req.json().catch(() => ({}));
+
+      const participant = await db.getParticipantByToken(token);
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      const series = await db.getSeriesById(seriesId);
+      if (!series) {
+        return c.json({ error: 'Series not found' }, 404);
+      }
+
+      let preferences = body.preferences;
+      if (preferences !== undefined && preferences !== null) {
+        // Checked against the series template, as registration checks its answers and role
+        const template = series.template || {};
+        const preferencesError = getSeriesPreferencesError({ ...template.settings, rounds: template.rounds }, preferences);
+        if (preferencesError) {
+          return c.json({ error: preferencesError }, 400);
+        }
+      } else {
+        const seriesSessionIds = new Set((await db.getSessionsBySeries(seriesId)).map(s => s.id));
+        const latest = (await db.getRegistrationsByParticipant(participant.participantId))
+          .find(r => seriesSessionIds.has(r.sessionId));
+        preferences = latest
+          ? { team: latest.team, role: latest.role, topics: latest.topics || [], answers: latest.answers || {}, meetingPoint: latest.meetingPoint }
+          : {};
+      }
+
+      const newRegistrationsCount = await subscribeToSeries(seriesId, participant.participantId, preferences, getCurrentTime(c));
+      debugLog(`🔁 ${participant.participantId} subscribed to series ${seriesId} (+${newRegistrationsCount} registrations)`);
+
+      return c.json({ success: true, subscribed: true, newRegistrationsCount });
+
+    } catch (error) {
+      errorLog('Error subscribing to series:', error);
+      return c.json({
+        error: 'Failed to subscribe to series',
+        details: error instanceof Error ? error.message : String(error)
+      }, 500);
+    }
+  });
+
+  // ========================================
+  // PUBLIC: Unsubscribe from a recurring series
+  // ========================================
+  // Stops future auto-registrations; existing registrations stay (cancel them per round).
+  app.delete('/make-server-ce05600a/p/:token/series/:seriesId/subscribe', async (c) => {
+    try {
+      const token = c.req.param('token');
+      const seriesId = c.req.param('seriesId');
+
+      const participant = await db.getParticipantByToken(token);
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      await db.cancelSeriesSubscription(seriesId, participant.participantId);
+
+      return c.json({ success: true, subscribed: false });
+
+    } catch (error) {
+      errorLog('Error unsubscribing from series:', error);
+      return c.json({
+        error: 'Failed to unsubscribe from series',
+        details: error instanceof Error ? error.message : String(error)
+      }, 500);
+    }
+  });
+
   // ========================================
   // PUBLIC: Check in at meeting point
   // ========================================
@@ -626,7 +780,7 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
       }
 
       if (round?.date && round?.startTime) {
-        const roundStartTime = parseRoundStartTime(round.date, round.startTime);
+        const roundStartTime = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session?.timeZone));
 
         // Walking deadline = roundStart + walkingTime
         const walkingDeadlineMs = roundStartTime.getTime() + walkingTimeMinutes * 60000;
@@ -873,6 +1027,9 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
       // Get my contact sharing preferences
       const myContactSharing = await db.getContactSharing(matchId, participant.participantId);
 
+      // Which of these partners I've already asked never to be matched with again
+      const myBlockedIds = new Set(await db.getParticipantBlockedIds(participant.participantId));
+
       // Calculate networking end time
       // Networking duration = round.duration (the time participants actually have to network)
       // Start from metAt (when both partners confirmed meeting each other)
@@ -883,7 +1040,7 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
         networkingEndTime = new Date(new Date(activeRegistration.metAt).getTime() + roundDuration * 60000).toISOString();
       } else if (round?.date && round?.startTime) {
         // Fallback: estimate from round schedule
-        const roundStartTime = parseRoundStartTime(round.date, round.startTime);
+        const roundStartTime = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session?.timeZone));
         let walkingTimeMinutes = 3;
         let findingTimeMinutes = 1;
         try {
@@ -911,7 +1068,8 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
         networkingEndTime,
         partners,
         iceBreakers: session?.iceBreakers || [],
-        myContactSharing: myContactSharing || {}
+        myContactSharing: myContactSharing || {},
+        blockedPartnerIds: partners.filter(p => myBlockedIds.has(p.id)).map(p => p.id),
       };
 
       debugLog('[GET /networking] Networking data found');
@@ -967,6 +1125,54 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
     }
   });
 
+  // ========================================
+  // PUBLIC: Block / unblock a partner ("don't match me with them again")
+  // ========================================
+  app.post('/make-server-ce05600a/participant/:token/block', async (c) => {
+    try {
+      const token = c.req.param('token');
+      const body = await c.req.json();
+      const { matchId, partnerId, blocked } = body;
+
+      if (!token) {
+        return c.json({ error: 'Token required' }, 400);
+      }
+      if (!matchId || !partnerId) {
+        return c.json({ error: 'matchId and partnerId are required' }, 400);
+      }
+
+      const participant = await db.getParticipantByToken(token);
+
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      // Only people you were actually matched with can be blocked
+      const matchParticipants = await db.getMatchParticipants(matchId);
+      const memberIds = new Set(matchParticipants.map((p: any) => p.participantId));
+      if (!memberIds.has(participant.participantId) || !memberIds.has(partnerId) || partnerId === participant.participantId) {
+        return c.json({ error: 'Partner not found in this match' }, 404);
+      }
+
+      if (blocked === false) {
+        await db.unblockPairByParticipant(participant.participantId, partnerId);
+      } else {
+        await db.blockPairByParticipant(participant.participantId, partnerId, matchId);
+      }
+
+      debugLog('[POST /block] Block preference saved:', { matchId, blocked: blocked !== false });
+
+      return c.json({ success: true, blocked: blocked !== false });
+
+    } catch (error) {
+      errorLog('Error saving block preference:', error);
+      return c.json({
+        error: 'Failed to save block preference',
+        details: error instanceof Error ? error.message : String(error)
+      }, 500);
+    }
+  });
+
   // ========================================
   // PUBLIC: Get shared contacts (bilateral verification)
   // ========================================
@@ -1052,17 +1258,7 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
         let revealAt: Date | null = null;
         try {
           if (round?.date && round?.startTime && round?.duration != null) {
-            const [y, mo, d] = (round.date as string).split('-').map(Number);
-            const [h, mi] = (round.startTime as string).split(':').map(Number);
-            // Use DST-aware CET offset (matches parseRoundStartTime in time-helpers)
-            const year = new Date(Date.UTC(y, mo - 1, d)).getUTCFullYear();
-            const mar31 = new Date(Date.UTC(year, 2, 31));
-            const dstStart = new Date(Date.UTC(year, 2, 31 - mar31.getUTCDay(), 1, 0, 0));
-            const oct31 = new Date(Date.UTC(year, 9, 31));
-            const dstEnd = new Date(Date.UTC(year, 9, 31 - oct31.getUTCDay(), 1, 0, 0));
-            const roughUtc = new Date(Date.UTC(y, mo - 1, d, h, mi, 0, 0));
-            const offset = (roughUtc >= dstStart && roughUtc < dstEnd) ? 2 : 1;
-            const roundStart = new Date(Date.UTC(y, mo - 1, d, h - offset, mi, 0, 0));
+            const roundStart = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session?.timeZone));
             // End of round = roundStart + duration (networking already uses walking+finding buffer for timing,
             // but for contact sharing we consider the round end as when networking ended).
             const roundEnd = new Date(roundStart.getTime() + (round.duration || 10) * 60_000);
@@ -1125,6 +1321,7 @@ export function registerParticipantRoutes(app: Hono, getCurrentTime: (c: any) =>
                 to: participant.email,
                 subject: emailContent.subject,
                 html: emailContent.html,
+                kind: 'contact-shared',
               }).catch(err => console.error('Failed to send contact shared email:', err));
               // Mark as sent immediately (don't await the email) so we don't duplicate
               await db.markContactSharingEmailSent(reg.matchId, participant.participantId);
@@ -0,0 +1,88 @@
+/**
+ * Push Routes
+ * Web push subscriptions of participant browsers (see web-push.ts)
+ *
+ * - VAPID public key for PushManager.subscribe (/push/vapid-public-key)
+ * - Store a browser subscription (/p/:token/push-subscription)
+ * - Remove it again (DELETE /p/:token/push-subscription)
+ */
+
+import { Hono } from 'npm:hono';
+import * as db from './db.ts';
+import { errorLog } from './debug.tsx';
+import { getVapidPublicKey, isAllowedPushEndpoint } from './web-push.ts';
+
+const PREFIX = '/make-server-ce05600a';
+
+export function registerPushRoutes(app: Hono) {
+
+  // ========================================
+  // PUBLIC: VAPID public key (applicationServerKey)
+  // ========================================
+  app.get(`${PREFIX}/push/vapid-public-key`, async (c) => {
+    try {
+      return c.json({ publicKey: await getVapidPublicKey() });
+    } catch (error) {
+      errorLog('Error loading VAPID key:', error);
+      return c.json({ error: 'Push notifications are not available' }, 500);
+    }
+  });
+
+  // ========================================
+  // PUBLIC: Save this browser's subscription
+  // Body: PushSubscription.toJSON() — { endpoint, keys: { p256dh, auth } }
+  // ========================================
+  app.post(`${PREFIX}/p/:token/push-subscription`, async (c) => {
+    try {
+      const participant = await db.getParticipantByToken(c.req.param('token'));
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      const body = await c.req.json().catch(() => ({}));
+      const endpoint = typeof body?.endpoint === 'string' ? body.endpoint : '';
+      const p256dh = body?.keys?.p256dh;
+      const auth = body?.keys?.auth;
+      if (!endpoint || typeof p256dh !== 'string' || typeof auth !== 'string') {
+        return c.json({ error: 'A push subscription with endpoint and keys is required' }, 400);
+      }
+      if (!isAllowedPushEndpoint(endpoint)) {
+        return c.json({ error: 'The endpoint is not a known push service' }, 400);
+      }
+
+      await db.savePushSubscription(participant.participantId, {
+        endpoint,
+        p256dh,
+        auth,
+        userAgent: c.req.header('User-Agent') || null,
+      });
+      return c.json({ success: true });
+    } catch (error) {
+      errorLog('Error saving push subscription:', error);
+      return c.json({ error: 'Failed to save push subscription' }, 500);
+    }
+  });
+
+  // ========================================
+  // PUBLIC: Remove this browser's subscription
+  // ========================================
+  app.delete(`${PREFIX}/p/:token/push-subscription`, async (c) => {
+    try {
+      const participant = await db.getParticipantByToken(c.req.param('token'));
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      const body = await c.req.json().catch(() => ({}));
+      if (typeof body?.endpoint !== 'string' || !body.endpoint) {
+        return c.json({ error: 'endpoint is required' }, 400);
+      }
+
+      const removed = await db.deletePushSubscription(participant.participantId, body.endpoint);
+      return c.json({ success: true, removed });
+    } catch (error) {
+      errorLog('Error removing push subscription:', error);
+      return c.json({ error: 'Failed to remove push subscription' }, 500);
+    }
+  });
+}
@@ -8,6 +8,14 @@ import * as db from './db.ts';
 import { debugLog, errorLog } from './debug.tsx';
 import { sendEmail, buildRegistrationEmail, buildOnboardingEmail4_FirstParticipant } from './email.tsx';
 import { checkCapacity, consumeEventCredit } from './route-stripe.tsx';
+import { resolveRoleMatching } from './role-matching.ts';
+import { resolveRegistrationQuestions, sanitizeAnswers, missingRequiredAnswers } from './registration-questions.ts';
+import { subscribeToSeries } from './session-series.ts';
+import { getRegistrationCalendarEvents, getParticipantFeedUrl } from './calendar-feeds.ts';
+import { getRoundAvailability, mustJoinWaitlist, joinWaitlist, promoteFromWaitlist, getSessionSeatLimit } from './waitlist.ts';
+import { resolveScheduleRules, getRegistrationClosedReason } from './session-rules.ts';
+import { type CalendarEvent } from './ical.ts';
+import { getCurrentTime } from './time-helpers.tsx';
 
 export async function registerParticipant(c: Context) {
   try {
@@ -52,10 +60,29 @@ export async function registerParticipant(c: Context) {
 
     // ── Capacity check (Phase 5F) ──────────────────────────
     // Get max participant count from the sessions being registered for
+    const scheduleRules = resolveScheduleRules(await db.getAdminSetting('system_parameters'));
     for (const sessionData of sessions) {
       const session = await db.getSessionById(sessionData.sessionId);
       if (session) {
-        const maxParticipants = session.maxParticipants || session.rounds?.[0]?.maxParticipants || 10;
+        // Registration window and round deadlines, as on the event page (a stale tab may still show them)
+        for (const roundData of (sessionData.rounds || [])) {
+          const round = session.rounds?.find((r: any) => r.id === roundData.roundId);
+          const closedReason = getRegistrationClosedReason(session, round, scheduleRules, getCurrentTime(c));
+          if (closedReason) {
+            console.log(`❌ Registration closed for session ${sessionData.sessionId}, round ${roundData.roundId}: ${closedReason}`);
+            return c.json({ error: closedReason }, 400);
+          }
+        }
+
+        // Required registration questions must be answered before anything is saved
+        const questions = resolveRegistrationQuestions(session.registrationQuestions);
+        const missing = missingRequiredAnswers(questions, sanitizeAnswers(questions, sessionData.answers));
+        if (missing.length > 0) {
+          console.log(`❌ Missing answers for session ${sessionData.sessionId}: ${missing.join(', ')}`);
+          return c.json({ error: `Please answer: ${missing.join(', ')}` }, 400);
+        }
+
+        const maxParticipants = getSessionSeatLimit(session);
         try {
           const capacityResult = await checkCapacity(userId, maxParticipants);
           if (!capacityResult.allowed) {
@@ -117,10 +144,11 @@ export async function registerParticipant(c: Context) {
 
     // Process each selected session
     const newRegistrations = [];
+    const waitlisted: Array<{ sessionId: string; roundId: string; position: number }> = [];
     let alreadyRegisteredCount = 0;
 
     for (const sessionData of sessions) {
-      const { sessionId, rounds } = sessionData;
+      const { sessionId, rounds, selectedRole, answers: rawAnswers, subscribeToSeries: wantsSeries } = sessionData;
 
       // Get session data from DB
       const session = await db.getSessionById(sessionId);
@@ -129,6 +157,18 @@ export async function registerParticipant(c: Context) {
         continue;
       }
 
+      // Role sessions: one role per participant per session, one of the two configured names
+      const roleMatching = resolveRoleMatching(session.roleMatching);
+      const role = roleMatching && [roleMatching.leadRole, roleMatching.memberRole].includes(selectedRole)
+        ? selectedRole
+        : null;
+
+      // Registration questions are answered once per session, stored on every round
+      const answers = sanitizeAnswers(resolveRegistrationQuestions(session.registrationQuestions), rawAnswers);
+
+      // Limited rounds: full ones (or ones with a queue) put newcomers on the waitlist
+      const availability = await getRoundAvailability(session);
+
       // Process each round
       for (const roundData of (rounds || [])) {
         const { roundId, selectedTeam, selectedTopic, selectedTopics, selectedMeetingPoint } = roundData;
@@ -142,8 +182,29 @@ export async function registerParticipant(c: Context) {
           continue;
         }
 
-        // Get round details from session
-        const round = session.rounds?.find((r: any) => r.id === roundId);
+        const roundAvailability = availability?.get(roundId);
+        if (mustJoinWaitlist(roundAvailability)) {
+          const position = await joinWaitlist(session, roundId, participantId, {
+            team: selectedTeam || null,
+            role,
+            topics: selectedTopics || [],
+            answers,
+            meetingPoint: selectedMeetingPoint || null,
+          });
+          waitlisted.push({ sessionId, roundId, position });
+          debugLog(`🎟️ Round ${roundId} is full — ${participantId} is #${position} on the waitlist`);
+
+          // Spots left but people waiting (e.g. the limit was raised): offer them in order
+          roundAvailability!.waiting++;
+          if (roundAvailability!.taken < roundAvailability!.capacity) {
+            try {
+              await promoteFromWaitlist(sessionId, roundId, getCurrentTime(c));
+            } catch (promoteErr) {
+              errorLog('Waitlist promotion failed (non-blocking):', promoteErr);
+            }
+          }
+          continue;
+        }
 
         // Create registration in registrations table
         await db.createRegistration({
@@ -153,12 +214,32 @@ export async function registerParticipant(c: Context) {
           organizerId: userId,
           status: 'registered',
           team: selectedTeam,
+          role,
           topics: selectedTopics || [],
+          answers,
           meetingPoint: selectedMeetingPoint,
         });
 
+        if (roundAvailability) roundAvailability.taken++;
         newRegistrations.push({ sessionId, roundId });
       }
+
+      // "Also register me for future dates": same choices on every upcoming occurrence
+      if (wantsSeries && session.seriesId) {
+        const firstRound = rounds?.[0] || {};
+        try {
+          const seriesRegistrations = await subscribeToSeries(session.seriesId, participantId, {
+            team: firstRound.selectedTeam || null,
+            role,
+            topics: firstRound.selectedTopics || [],
+            answers,
+            meetingPoint: firstRound.selectedMeetingPoint || null,
+          }, getCurrentTime(c));
+          debugLog(`🔁 Subscribed ${participantId} to series ${session.seriesId} (+${seriesRegistrations} registrations)`);
+        } catch (seriesErr) {
+          errorLog('Series subscription failed (non-blocking):', seriesErr);
+        }
+      }
     }
 
     if (newRegistrations.length > 0) {
@@ -173,7 +254,7 @@ export async function registerParticipant(c: Context) {
         try {
           // Count existing registrations for this session (excluding current)
           const session = await db.getSessionById(sessionId);
-          const maxP = session?.maxParticipants || session?.rounds?.[0]?.maxParticipants || 10;
+          const maxP = getSessionSeatLimit(session);
           if (maxP > 10) {
             // Check if this is the first participant for this session
             const allRegs = await db.getRegistrationsForSession(sessionId);
@@ -196,7 +277,7 @@ export async function registerParticipant(c: Context) {
                       participantName: `${firstName} ${lastName}`,
                       sessionName: session?.name || 'your round',
                     });
-                    sendEmail({ to: organizerProfile.email, subject: emailContent.subject, html: emailContent.html })
+                    sendEmail({ to: organizerProfile.email, subject: emailContent.subject, html: emailContent.html, kind: 'onboarding' })
                       .then(r => r.success && debugLog('📧 First-participant email sent to organizer'))
                       .catch(err => errorLog('First-participant onboarding email failed:', err));
                     organizerSent.push('onboarding_4');
@@ -224,7 +305,7 @@ export async function registerParticipant(c: Context) {
     const requiresVerification = isNewParticipant;
 
     // Send registration email for NEW participants (so they get a magic link to their dashboard)
-    if (isNewParticipant && newRegistrations.length > 0) {
+    if (isNewParticipant && (newRegistrations.length > 0 || waitlisted.length > 0)) {
       try {
         const origin = c.req.header('Origin') || c.req.header('Referer')?.replace(/\/[^/]*$/, '') || 'https://wonderelo.com';
         const myRoundsUrl = `${origin}/p/${token}`;
@@ -232,30 +313,46 @@ export async function registerParticipant(c: Context) {
 
         // Build sessions list for email
         const emailSessions = [];
+        const registeredSessions = [];
+        const registeredRoundIds: string[] = [];
         for (const sessionData of sessions) {
           const session = await db.getSessionById(sessionData.sessionId);
           if (session) {
-            const roundNames = (sessionData.rounds || []).map((r: any) => {
+            const isWaitlisted = (roundId: string) => waitlisted.some(w => w.sessionId === session.id && w.roundId === roundId);
+            registeredSessions.push(session);
+            registeredRoundIds.push(...(sessionData.rounds || []).map((r: any) => r.roundId).filter((id: string) => !isWaitlisted(id)));
+            const rounds = (sessionData.rounds || []).map((r: any) => {
               const round = session.rounds?.find((sr: any) => sr.id === r.roundId);
-              return round?.name || round?.startTime || 'Round';
+              return { roundName: round?.name || 'Round', startTime: round?.startTime, date: round?.date || session.date, waitlisted: isWaitlisted(r.roundId) };
             });
             emailSessions.push({
               sessionName: session.name,
-              rounds: roundNames.map((name: string) => ({ roundName: name })),
+              timeZone: session.timeZone,
+              rounds,
             });
           }
         }
 
-        const { subject, html } = buildRegistrationEmail({
+        // Calendar entries are a nice-to-have — the email goes out without them
+        let calendarEvents: CalendarEvent[] = [];
+        try {
+          calendarEvents = await getRegistrationCalendarEvents(registeredSessions, registeredRoundIds, token);
+        } catch (calendarError) {
+          errorLog('Failed to build calendar attachments:', calendarError);
+        }
+
+        const { subject, html, attachments } = buildRegistrationEmail({
           firstName,
           lastName,
           eventName: organizerName,
           myRoundsUrl,
           eventUrl,
           sessions: emailSessions,
+          calendarEvents,
+          calendarFeedUrl: getParticipantFeedUrl(token),
         });
 
-        await sendEmail({ to: normalizedEmail, subject, html });
+        await sendEmail({ to: normalizedEmail, subject, html, attachments, kind: 'registration' });
         debugLog(`📧 Registration email sent to ${normalizedEmail}`);
       } catch (emailError) {
         // Don't fail registration if email fails
@@ -270,6 +367,7 @@ export async function registerParticipant(c: Context) {
       isNewParticipant,
       requiresVerification,
       newRegistrationsCount: newRegistrations.length,
+      waitlistedCount: waitlisted.length,
       alreadyRegisteredCount
     });
 
@@ -282,6 +380,7 @@ export async function registerParticipant(c: Context) {
       requiresVerification: requiresVerification,
       newRegistrationsCount: newRegistrations.length,
       alreadyRegisteredCount,
+      waitlisted,
       participantData: {
         email: normalizedEmail,
         firstName,
@@ -1,6 +1,6 @@
 /**
  * Stripe Integration Routes
- * Handles: checkout sessions, subscriptions, single event payments, webhooks, credit system
+ * Handles: checkout sessions, subscriptions, single event payments, webhooks, credit system, SMS usage
  *
  * Required Supabase Secrets:
  *   STRIPE_SECRET_KEY     - Stripe secret key (sk_test_... or sk_live_...)
@@ -13,6 +13,7 @@ import Stripe from 'npm:stripe';
 import { getGlobalSupabaseClient } from './global-supabase.tsx';
 import { errorLog, debugLog } from './debug.tsx';
 import * as db from './db.ts';
+import { getSmsUsage } from './sms-quota.ts';
 
 // Lazy-init Stripe client
 let stripeClient: Stripe | null = null;
@@ -457,6 +458,20 @@ export function registerStripeRoutes(app: Hono) {
     }
   });
 
+  // ── GET /sms-usage ────────────────────────────────────────
+  // This month's SMS allowance and how much of it the user's sessions used
+  app.get(`${prefix}/sms-usage`, async (c) => {
+    try {
+      const auth = await authenticateUser(c);
+      if (!auth) return c.json({ error: 'Unauthorized' }, 401);
+
+      return c.json({ success: true, usage: await getSmsUsage(auth.user.id) });
+    } catch (error) {
+      errorLog('Error getting SMS usage:', error);
+      return c.json({ error: 'Failed to get SMS usage' }, 500);
+    }
+  });
+
   // ── GET /capacity-check ───────────────────────────────────
   // Checks if user can create/publish a session with given participant count
   app.get(`${prefix}/capacity-check`, async (c) => {
@@ -0,0 +1,88 @@
+/**
+ * Waitlist Routes
+ * Participant side of the per-round waitlist (see waitlist.ts)
+ *
+ * - Claim an offered spot (/p/:token/waitlist/:roundId/claim)
+ * - Leave the waitlist (/p/:token/waitlist/:roundId/leave)
+ * - Release expired offers (/cron/waitlist-offers)
+ */
+
+import { Hono } from 'npm:hono';
+import * as db from './db.ts';
+import { errorLog } from './debug.tsx';
+import { createMatchesForRound } from './matching.tsx';
+import { claimWaitlistOffer, leaveWaitlist, expireWaitlistOffers } from './waitlist.ts';
+
+const PREFIX = '/make-server-ce05600a';
+
+export function registerWaitlistRoutes(app: Hono, getCurrentTime: (c: any) => Date) {
+
+  // ========================================
+  // PUBLIC: Claim an offered spot
+  // ========================================
+  app.post(`${PREFIX}/p/:token/waitlist/:roundId/claim`, async (c) => {
+    try {
+      const participant = await db.getParticipantByToken(c.req.param('token'));
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      const roundId = c.req.param('roundId');
+      const result = await claimWaitlistOffer(participant.participantId, roundId, getCurrentTime(c));
+      if (!result.success) {
+        return c.json({ error: result.error }, result.status);
+      }
+
+      // Past T-0 the round is already matched — fit them in like a late confirmation
+      if (result.lateArrival) {
+        try {
+          await createMatchesForRound(result.sessionId, roundId);
+        } catch (matchError) {
+          errorLog('Late-arrival matching after waitlist claim failed:', matchError);
+        }
+      }
+
+      return c.json({ success: true, sessionId: result.sessionId, status: result.status });
+    } catch (error) {
+      errorLog('Error claiming waitlist spot:', error);
+      return c.json({ error: 'Failed to claim spot' }, 500);
+    }
+  });
+
+  // ========================================
+  // PUBLIC: Leave the waitlist
+  // ========================================
+  app.post(`${PREFIX}/p/:token/waitlist/:roundId/leave`, async (c) => {
+    try {
+      const participant = await db.getParticipantByToken(c.req.param('token'));
+      if (!participant) {
+        return c.json({ error: 'Invalid token' }, 404);
+      }
+
+      const left = await leaveWaitlist(participant.participantId, c.req.param('roundId'), getCurrentTime(c));
+      if (!left) {
+        return c.json({ error: 'You are not on the waitlist for this round' }, 404);
+      }
+      return c.json({ success: true });
+    } catch (error) {
+      errorLog('Error leaving waitlist:', error);
+      return c.json({ error: 'Failed to leave waitlist' }, 500);
+    }
+  });
+
+  // ========================================
+  // CRON: Release unclaimed offers (every few minutes)
+  // ========================================
+  app.post(`${PREFIX}/cron/waitlist-offers`, async (c) => {
+    const expected = Deno.env.get('CRON_SECRET');
+    const got = c.req.header('X-Cron-Secret');
+    if (!expected || got !== expected) return c.json({ error: 'Unauthorized' }, 401);
+    try {
+      const result = await expireWaitlistOffers(getCurrentTime(c));
+      return c.json({ success: true, ...result });
+    } catch (error) {
+      errorLog('Error expiring waitlist offers:', error);
+      return c.json({ error: String(error) }, 500);
+    }
+  });
+}
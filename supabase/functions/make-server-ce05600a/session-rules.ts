@@ -0,0 +1,200 @@
+/**
+ * SESSION SCHEDULE RULES
+ * The schedule limits from the system parameters, enforced on every write.
+ * The session form and registration page check the same things in the
+ * browser; these are what API clients and stale tabs can't get around:
+ *
+ *   - rounds last between minimalRoundDuration and maximalRoundDuration
+ *   - a round starts at least minimalGapBetweenRounds after the previous one ends
+ *   - live sessions: new and moved rounds start at least minimalTimeToFirstRound
+ *     from now (all rounds when the session goes live)
+ *   - registrationStart is at least minimalTimeToFirstRound before the first
+ *     round; registrationEnd is after registrationStart and before the last round
+ *   - registering: the session is published, its registration window is open
+ *     and the round is more than safetyWindowMinutes away
+ *
+ * Session checks only look at what changed (new or moved rounds, a new
+ * registration window), so renaming a session whose rounds predate a
+ * stricter limit still works. They
+ * return errors keyed by the session form field they belong to; the API
+ * sends them as { error: 'invalid_schedule', message, fieldErrors }.
+ * Pure functions only.
+ */
+
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
+
+export type ScheduleField = 'startTime' | 'roundDuration' | 'gapBetweenRounds' | 'registrationStart' | 'registrationEnd';
+
+export interface ScheduleFieldError {
+  field: ScheduleField;
+  message: string;
+}
+
+export interface ScheduleRules {
+  minimalGapBetweenRounds: number;
+  minimalRoundDuration: number;
+  maximalRoundDuration: number;
+  minimalTimeToFirstRound: number;
+  safetyWindowMinutes: number;
+}
+
+/** Rules from the stored system parameters, with the same defaults as GET /system-parameters */
+export function resolveScheduleRules(sysParams: any): ScheduleRules {
+  return {
+    minimalGapBetweenRounds: sysParams?.minimalGapBetweenRounds ?? 10,
+    minimalRoundDuration: sysParams?.minimalRoundDuration ?? 5,
+    maximalRoundDuration: sysParams?.maximalRoundDuration ?? 240,
+    minimalTimeToFirstRound: sysParams?.minimalTimeToFirstRound ?? 10,
+    safetyWindowMinutes: sysParams?.safetyWindowMinutes ?? 6,
+  };
+}
+
+// The form checks "at least N minutes from now" when the organizer clicks;
+// the request lands a moment later, so the server allows one minute of slack
+// (the form's own time check is one minute lenient too).
+const CLICK_SLACK_MS = 60000;
+
+const LIVE_STATUSES = ['published', 'scheduled'];
+
+interface TimedRound {
+  id: string;
+  start: Date | null;
+  duration: number;
+}
+
+/** Wall-clock start of a round in the session's zone; null while the time is not set */
+function getRoundStart(session: any, round: any): Date | null {
+  const date = round.date || session.date;
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{1,2}:\d{2}$/.test(round.startTime || '')) return null;
+  return parseRoundStartTime(date, round.startTime, resolveTimeZone(session.timeZone));
+}
+
+function getTimedRounds(session: any): TimedRound[] {
+  return (session?.rounds || []).map((round: any) => ({
+    id: round.id,
+    start: getRoundStart(session, round),
+    duration: Number(round.duration ?? session.roundDuration),
+  }));
+}
+
+function parseInstant(value: string): Date | null {
+  const at = new Date(value);
+  return isNaN(at.getTime()) ? null : at;
+}
+
+/**
+ * Check `session` as it is about to be saved — for updates, the stored
+ * session with the changes applied, and the stored one as `previous` so
+ * unchanged rounds are left alone. Returns at most one error per field,
+ * empty when the schedule is fine.
+ */
+export function validateSessionSchedule(
+  session: any,
+  rules: ScheduleRules,
+  now: Date,
+  previous?: any | null,
+): ScheduleFieldError[] {
+  const errors: ScheduleFieldError[] = [];
+  const add = (field: ScheduleField, message: string) => {
+    if (!errors.some(e => e.field === field)) errors.push({ field, message });
+  };
+
+  const rounds = getTimedRounds(session);
+  const before = new Map(getTimedRounds(previous).map(r => [r.id, r]));
+  const isChanged = (round: TimedRound) => {
+    const old = before.get(round.id);
+    return !old || old.duration !== round.duration || old.start?.getTime() !== round.start?.getTime();
+  };
+
+  for (const round of rounds) {
+    if (!isChanged(round) || !Number.isFinite(round.duration)) continue;
+    if (round.duration < rules.minimalRoundDuration) {
+      add('roundDuration', `Round duration must be at least ${rules.minimalRoundDuration} minutes`);
+    } else if (round.duration > rules.maximalRoundDuration) {
+      add('roundDuration', `Round duration cannot exceed ${rules.maximalRoundDuration} minutes`);
+    }
+  }
+
+  const timed = rounds
+    .filter(r => r.start)
+    .sort((a, b) => a.start!.getTime() - b.start!.getTime());
+
+  for (let i = 1; i < timed.length; i++) {
+    const prev = timed[i - 1];
+    const next = timed[i];
+    if (!isChanged(prev) && !isChanged(next)) continue;
+    const gapMinutes = (next.start!.getTime() - prev.start!.getTime()) / 60000 - (prev.duration || 0);
+    if (gapMinutes < rules.minimalGapBetweenRounds) {
+      add('gapBetweenRounds', `Gap must be at least ${rules.minimalGapBetweenRounds} minutes`);
+    }
+  }
+
+  // Live sessions can't get rounds that start too soon to register for
+  const isLive = LIVE_STATUSES.includes(session.status);
+  const wasLive = !!previous && LIVE_STATUSES.includes(previous.status);
+  if (isLive) {
+    const earliest = now.getTime() + rules.minimalTimeToFirstRound * 60000 - CLICK_SLACK_MS;
+    const tooSoon = timed.some(r => (!wasLive || isChanged(r)) && r.start!.getTime() < earliest);
+    if (tooSoon) {
+      add('startTime', `Time must be at least ${rules.minimalTimeToFirstRound} minutes in the future`);
+    }
+  }
+
+  // The registration window is checked when it or the rounds change
+  const firstStart = timed[0]?.start || null;
+  const lastStart = timed[timed.length - 1]?.start || null;
+  const roundsChanged = rounds.length !== before.size || rounds.some(isChanged);
+  const isUnchanged = (field: 'registrationStart' | 'registrationEnd', at: Date) =>
+    !roundsChanged && !!previous?.[field] && parseInstant(previous[field])?.getTime() === at.getTime();
+
+  const opens = session.registrationStart ? parseInstant(session.registrationStart) : null;
+  if (session.registrationStart && !opens) {
+    add('registrationStart', 'Registration start is not a valid date');
+  } else if (opens && !isUnchanged('registrationStart', opens)) {
+    const wasScheduled = previous?.status === 'scheduled' && parseInstant(previous.registrationStart || '')?.getTime() === opens.getTime();
+    if (session.status === 'scheduled' && !wasScheduled && opens.getTime() < now.getTime() - CLICK_SLACK_MS) {
+      add('registrationStart', 'Time cannot be in the past');
+    } else if (firstStart && opens.getTime() > firstStart.getTime() - rules.minimalTimeToFirstRound * 60000 + CLICK_SLACK_MS) {
+      add('registrationStart', `Time cannot be later than ${rules.minimalTimeToFirstRound} minutes before time of first round`);
+    }
+  }
+
+  const closes = session.registrationEnd ? parseInstant(session.registrationEnd) : null;
+  if (session.registrationEnd && !closes) {
+    add('registrationEnd', 'Registration end is not a valid date');
+  } else if (closes && !isUnchanged('registrationEnd', closes)) {
+    if (opens && closes.getTime() <= opens.getTime()) {
+      add('registrationEnd', 'Registration must close after it opens');
+    } else if (lastStart && closes.getTime() > lastStart.getTime()) {
+      add('registrationEnd', 'Registration must close before the last round starts');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Why `round` of `session` can't take new registrations at `now`, or null
+ * when it can. Rounds without a time yet are open, like on the event page.
+ */
+export function getRegistrationClosedReason(session: any, round: any, rules: ScheduleRules, now: Date): string | null {
+  if (session.status !== 'published') {
+    return `Registration for ${session.name || 'this session'} is not open`;
+  }
+  const opens = session.registrationStart ? parseInstant(session.registrationStart) : null;
+  if (opens && now < opens) {
+    return `Registration for ${session.name || 'this session'} has not opened yet`;
+  }
+  const closes = session.registrationEnd ? parseInstant(session.registrationEnd) : null;
+  if (closes && now >= closes) {
+    return `Registration for ${session.name || 'this session'} has closed`;
+  }
+  if (!round) {
+    return 'This round no longer exists';
+  }
+  const start = getRoundStart(session, round);
+  if (start && start.getTime() - now.getTime() <= rules.safetyWindowMinutes * 60000) {
+    return `Registration for ${round.name || 'this round'} has closed`;
+  }
+  return null;
+}
@@ -0,0 +1,451 @@
+/**
+ * SESSION SERIES
+ * Recurring sessions as real occurrences. A series is a recurrence rule
+ * (recurrence.ts) plus a template snapshotted from one of its sessions:
+ *
+ *   template = { status, settings: { name, groupSize, topics, ... },
+ *                rounds: [{ name, startTime, duration, ..., dayOffset }] }
+ *
+ * materializeSeries() creates every occurrence due within SERIES_HORIZON_DAYS
+ * (recurrence.ts) as an ordinary session (own rounds, registrations,
+ * matching, SMS schedules), tagged with series_id + occurrence_date, then
+ * auto-registers the series' subscribers. Runs on series creation, after
+ * "all future" edits and from POST /cron/materialize-series.
+ *
+ * Edit scopes (PUT /sessions/:id with `scope`):
+ *   - occurrence: only that session changes; the template doesn't
+ *   - future:     the edited session becomes the template and later, already
+ *                 materialized occurrences are updated in place (or deleted
+ *                 when the new rule drops their date and nobody registered).
+ *                 An occurrence the template would take registered rounds
+ *                 from, or give an invalid schedule, is left as it is and
+ *                 reported back to the organizer.
+ *
+ * Deleting an occurrence adds its date to the rule's exceptions.
+ */
+
+import * as db from './db.ts';
+import { debugLog, errorLog } from './debug.tsx';
+import { checkCapacity, consumeEventCredit } from './route-stripe.tsx';
+import { resolveTimeZone, getZonedDate } from './time-helpers.tsx';
+import { resolveRoleMatching } from './role-matching.ts';
+import { resolveRegistrationQuestions, sanitizeAnswers, missingRequiredAnswers } from './registration-questions.ts';
+import { getRoundAvailability, mustJoinWaitlist, getSessionSeatLimit } from './waitlist.ts';
+import { resolveScheduleRules, validateSessionSchedule, getRegistrationClosedReason } from './session-rules.ts';
+import { meetingPointName } from './meeting-points.ts';
+import { cancelCalendarEvents } from './calendar-feeds.ts';
+import {
+  resolveRecurrenceRule, listOccurrenceDates, listDueOccurrenceDates, addRecurrenceException,
+  addDays, daysBetween, type RecurrenceRule,
+} from './recurrence.ts';
+
+/** Session settings every occurrence copies from the template */
+const TEMPLATE_SETTINGS = [
+  'name', 'description', 'timeZone', 'limitParticipants', 'maxParticipants', 'groupSize',
+  'enableTeams', 'matchingType', 'matchingAlgorithm', 'rememberAcrossSessions',
+  'meetingMemoryDays', 'scoringProfile', 'planAllRounds', 'roleMatching',
+  'registrationQuestions', 'teams', 'enableTopics', 'allowMultipleTopics', 'topics',
+  'meetingPoints', 'iceBreakers',
+];
+
+const TEMPLATE_ROUND_FIELDS = ['name', 'startTime', 'duration', 'groupSize', 'maxParticipants', 'meetingPoints', 'confirmationWindow'];
+
+/** Schedules a session's round notifications (index.ts owns the QStash plumbing) */
+type ScheduleSms = (sessionId: string) => Promise<void>;
+
+/** Stored preferences of a series subscriber, applied to every new occurrence */
+export interface SeriesPreferences {
+  team?: string | null;
+  role?: string | null;
+  topics?: string[];
+  answers?: Record<string, any>;
+  meetingPoint?: string | null;
+}
+
+/** A later occurrence an "all future" edit couldn't apply to */
+export interface SkippedOccurrence {
+  sessionId: string;
+  occurrenceDate: string;
+  reason: string;
+}
+
+function pick(source: any, fields: string[]): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const field of fields) {
+    if (source?.[field] !== undefined) out[field] = source[field];
+  }
+  return out;
+}
+
+function newRoundId(index: number): string {
+  return `round-${Date.now()}-${Math.random().toString(36).substring(2, 8)}-${index}`;
+}
+
+/** Snapshot a session as the series template (rounds keep their day offset from the session date) */
+export function toSeriesTemplate(session: any) {
+  return {
+    status: session.status === 'draft' || session.status === 'scheduled' ? session.status : 'published',
+    settings: pick(session, TEMPLATE_SETTINGS),
+    rounds: (session.rounds || []).map((round: any) => ({
+      ...pick(round, TEMPLATE_ROUND_FIELDS),
+      dayOffset: round.date ? daysBetween(session.date, round.date) : 0,
+    })),
+  };
+}
+
+/** Template rounds placed on a session date, reusing existing round IDs by position */
+function templateRoundsFor(template: any, date: string, existingRounds: any[] = []) {
+  return (template.rounds || []).map((round: any, i: number) => {
+    const { dayOffset, ...fields } = round;
+    return {
+      ...fields,
+      id: existingRounds[i]?.id || newRoundId(i),
+      date: addDays(date, dayOffset || 0),
+    };
+  });
+}
+
+/**
+ * Live occurrences consume credits like any published session; without
+ * capacity they stay drafts. `chargeCredit`: the organizer pays per event —
+ * the caller consumes the credit once the occurrence actually exists.
+ */
+async function resolveOccurrenceStatus(userId: string, sessionId: string, template: any): Promise<{ status: string; chargeCredit: boolean }> {
+  if (template.status === 'draft') return { status: 'draft', chargeCredit: false };
+
+  const maxParticipants = getSessionSeatLimit({ ...template.settings, rounds: template.rounds });
+  try {
+    const capacityResult = await checkCapacity(userId, maxParticipants);
+    if (!capacityResult.allowed) {
+      debugLog(`❌ Series occurrence ${sessionId} kept as draft: ${capacityResult.reason}`);
+      return { status: 'draft', chargeCredit: false };
+    }
+    if (capacityResult.currentTier !== 'free') {
+      const subscription = await db.getSubscription(userId);
+      if (!subscription || !['active', 'trialing'].includes(subscription.status)) {
+        return { status: template.status, chargeCredit: true };
+      }
+    }
+  } catch (capErr) {
+    debugLog('⚠️ Capacity check failed, allowing publish:', capErr);
+  }
+  return { status: template.status, chargeCredit: false };
+}
+
+/**
+ * Why a participant can't subscribe to a series with `preferences` (a team,
+ * topic, role or meeting point `session` doesn't offer, a required question
+ * left unanswered), or null when they can. `session`: the series template
+ * settings with its rounds.
+ */
+export function getSeriesPreferencesError(session: any, preferences: any): string | null {
+  if (typeof preferences !== 'object' || preferences === null || Array.isArray(preferences)) {
+    return 'preferences must be an object';
+  }
+  const { team, role, topics, answers, meetingPoint } = preferences;
+  if (team != null && (typeof team !== 'string' || !(session.teams || []).includes(team))) {
+    return `Unknown team: ${team}`;
+  }
+  if (topics !== undefined) {
+    if (!Array.isArray(topics) || topics.some((t: unknown) => typeof t !== 'string' || !(session.topics || []).includes(t))) {
+      return 'topics must be topics of this session';
+    }
+    if (topics.length > 1 && !session.allowMultipleTopics) {
+      return 'This session allows only one topic';
+    }
+  }
+  const roleMatching = resolveRoleMatching(session.roleMatching);
+  if (role != null && !(roleMatching && [roleMatching.leadRole, roleMatching.memberRole].includes(role))) {
+    return `Unknown role: ${role}`;
+  }
+  if (meetingPoint != null) {
+    const points = [...(session.meetingPoints || []), ...(session.rounds || []).flatMap((r: any) => r.meetingPoints || [])];
+    if (typeof meetingPoint !== 'string' || !points.some((mp: any) => meetingPointName(mp) === meetingPoint)) {
+      return `Unknown meeting point: ${meetingPoint}`;
+    }
+  }
+  if (answers != null && (typeof answers !== 'object' || Array.isArray(answers))) {
+    return 'answers must be an object';
+  }
+  const questions = resolveRegistrationQuestions(session.registrationQuestions);
+  const missing = missingRequiredAnswers(questions, sanitizeAnswers(questions, answers));
+  if (missing.length > 0) {
+    return `Please answer: ${missing.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Register a subscriber for every round of an occurrence they aren't in yet,
+ * with the checks registration runs: skips drafts, occurrences whose required
+ * questions they haven't answered, rounds outside the registration window or
+ * past their deadline, and full rounds. Returns the number of new registrations.
+ */
+export async function registerSubscriber(
+  subscription: { participantId: string; preferences: SeriesPreferences },
+  session: any,
+  now: Date,
+): Promise<number> {
+  if (session.status !== 'published' && session.status !== 'scheduled') return 0;
+
+  // Settings may have changed since they subscribed — keep only what still applies
+  const prefs = subscription.preferences || {};
+  const roleMatching = resolveRoleMatching(session.roleMatching);
+  const role = roleMatching && [roleMatching.leadRole, roleMatching.memberRole].includes(prefs.role || '')
+    ? prefs.role
+    : null;
+  const questions = resolveRegistrationQuestions(session.registrationQuestions);
+  const answers = sanitizeAnswers(questions, prefs.answers);
+  const missing = missingRequiredAnswers(questions, answers);
+  if (missing.length > 0) {
+    debugLog(`⚠️ Series subscriber ${subscription.participantId} skipped for ${session.id}, unanswered: ${missing.join(', ')}`);
+    return 0;
+  }
+
+  const availability = await getRoundAvailability(session);
+  const scheduleRules = resolveScheduleRules(await db.getAdminSetting('system_parameters'));
+  // A scheduled occurrence isn't public yet, but its subscribers are taken in already
+  const openSession = session.status === 'scheduled' ? { ...session, status: 'published' } : session;
+
+  let created = 0;
+  for (const round of session.rounds || []) {
+    const existing = await db.getRegistration(subscription.participantId, session.id, round.id);
+    if (existing) continue;
+    const closedReason = getRegistrationClosedReason(openSession, round, scheduleRules, now);
+    if (closedReason) {
+      debugLog(`⚠️ Series subscriber ${subscription.participantId} skipped, round ${round.id}: ${closedReason}`);
+      continue;
+    }
+    if (mustJoinWaitlist(availability?.get(round.id))) {
+      debugLog(`⚠️ Series subscriber ${subscription.participantId} skipped, round ${round.id} is full`);
+      continue;
+    }
+    await db.createRegistration({
+      participantId: subscription.participantId,
+      sessionId: session.id,
+      roundId: round.id,
+      organizerId: session.userId,
+      status: 'registered',
+      team: prefs.team || null,
+      role,
+      topics: prefs.topics || [],
+      answers,
+      meetingPoint: prefs.meetingPoint || null,
+    });
+    created++;
+  }
+  return created;
+}
+
+/** Register every active subscriber of the session's series (e.g. when a draft occurrence goes live) */
+export async function registerSeriesSubscribers(session: any, now: Date): Promise<number> {
+  if (!session?.seriesId) return 0;
+  const subscriptions = await db.getActiveSeriesSubscriptions(session.seriesId);
+  let created = 0;
+  for (const subscription of subscriptions) {
+    created += await registerSubscriber(subscription, session, now);
+  }
+  return created;
+}
+
+/** Create the occurrences due within the horizon. Returns the new session IDs. */
+export async function materializeSeries(seriesId: string, now: Date, scheduleSms: ScheduleSms): Promise<string[]> {
+  const series = await db.getSeriesById(seriesId);
+  const rule = resolveRecurrenceRule(series?.recurrence);
+  if (!series || !rule || !series.template) return [];
+
+  const template = series.template;
+  const today = getZonedDate(now, resolveTimeZone(template.settings?.timeZone));
+  const dates = listDueOccurrenceDates(rule, series.anchorDate, today);
+  if (dates.length === 0) return [];
+
+  const existingDates = new Set((await db.getSessionsBySeries(seriesId)).map(s => s.occurrenceDate));
+  const subscriptions = await db.getActiveSeriesSubscriptions(seriesId);
+  const created: string[] = [];
+
+  for (const date of dates) {
+    if (existingDates.has(date)) continue;
+
+    const sessionId = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    const { status, chargeCredit } = await resolveOccurrenceStatus(series.userId, sessionId, template);
+    try {
+      await db.createSession({
+        ...template.settings,
+        id: sessionId,
+        userId: series.userId,
+        date,
+        status,
+        isRecurring: true,
+        frequency: rule.frequency,
+        seriesId,
+        occurrenceDate: date,
+        rounds: templateRoundsFor(template, date),
+      });
+    } catch (error: any) {
+      // Another run created this date first (unique series_id + occurrence_date) — and paid for it
+      if (error?.code === '23505') continue;
+      throw error;
+    }
+    if (chargeCredit) {
+      try {
+        await consumeEventCredit(series.userId, sessionId);
+        debugLog('💳 Event credit consumed for series occurrence:', sessionId);
+      } catch (creditErr) {
+        debugLog('⚠️ Event credit for series occurrence failed, keeping it live:', creditErr);
+      }
+    }
+
+    const session = await db.getSessionById(sessionId);
+    for (const subscription of subscriptions) {
+      await registerSubscriber(subscription, session, now);
+    }
+    await scheduleSms(sessionId);
+    created.push(sessionId);
+  }
+
+  if (created.length > 0) debugLog(`🔁 Series ${seriesId}: materialized ${created.length} occurrence(s)`);
+  return created;
+}
+
+/** Turn a saved session into the first occurrence of a new series */
+export async function createSeriesFromSession(session: any, recurrence: any, now: Date, scheduleSms: ScheduleSms): Promise<string | null> {
+  const rule = resolveRecurrenceRule(recurrence);
+  if (!rule || !session?.date) return null;
+
+  const seriesId = `series-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  await db.createSeries({
+    id: seriesId,
+    userId: session.userId,
+    recurrence: rule,
+    anchorDate: session.date,
+    template: toSeriesTemplate(session),
+  });
+  await db.updateSession(session.id, {
+    seriesId,
+    occurrenceDate: session.date,
+    isRecurring: true,
+    frequency: rule.frequency,
+  });
+
+  await materializeSeries(seriesId, now, scheduleSms);
+  return seriesId;
+}
+
+/**
+ * "All future occurrences" edit. `edited` is the saved session; `recurrence`
+ * is the submitted rule (undefined = unchanged, null = stop repeating after
+ * this occurrence). A new rule or a moved date continues the series from the
+ * edited occurrence (it becomes the anchor, so `count` restarts there).
+ * Returns the occurrences left unchanged: the template has fewer rounds and
+ * would remove ones people registered for, or their schedule would be invalid.
+ */
+export async function updateFutureOccurrences(
+  edited: any,
+  recurrence: any,
+  now: Date,
+  scheduleSms: ScheduleSms,
+): Promise<SkippedOccurrence[]> {
+  const series = await db.getSeriesById(edited.seriesId);
+  const currentRule = resolveRecurrenceRule(series?.recurrence);
+  if (!series || !currentRule) return [];
+
+  const slot = edited.occurrenceDate || edited.date;
+  let rule: RecurrenceRule = currentRule;
+  let anchorDate: string = series.anchorDate;
+
+  if (recurrence === null) {
+    rule = { ...currentRule, until: slot };
+  } else if (recurrence !== undefined || edited.date !== slot) {
+    rule = resolveRecurrenceRule(recurrence ?? currentRule) || currentRule;
+    anchorDate = edited.date;
+    if (edited.date !== slot) {
+      await db.updateSession(edited.id, { occurrenceDate: edited.date });
+    }
+  }
+
+  const template = toSeriesTemplate(edited);
+  await db.updateSeries(series.id, { recurrence: rule, anchorDate, template });
+
+  const later = (await db.getSessionsBySeries(series.id))
+    .filter(s => s.id !== edited.id && s.occurrenceDate && s.occurrenceDate > slot && s.status !== 'completed');
+  const lastDate = later.reduce((max, s) => (s.occurrenceDate > max ? s.occurrenceDate : max), slot);
+  const keptDates = new Set(listOccurrenceDates(rule, anchorDate, addDays(slot, 1), lastDate));
+  const scheduleRules = resolveScheduleRules(await db.getAdminSetting('system_parameters'));
+  const skipped: SkippedOccurrence[] = [];
+
+  for (const occurrence of later) {
+    try {
+      const regs = await db.getRegistrationsForSession(occurrence.id);
+      if (!keptDates.has(occurrence.occurrenceDate)) {
+        if (regs.length === 0) {
+          await db.deleteSession(occurrence.id);
+          continue;
+        }
+        // People already registered — keep it, just bring it in line with the template
+      }
+
+      // Same checks as PUT /sessions: rounds beyond the template's length go,
+      // and they must not take anyone's registration with them
+      const rounds = templateRoundsFor(template, occurrence.date, occurrence.rounds);
+      const keptRoundIds = new Set(rounds.map((r: any) => r.id));
+      const removedRoundIds = (occurrence.rounds || []).map((r: any) => r.id).filter((id: string) => !keptRoundIds.has(id));
+      const registeredRoundIds = new Set(regs.filter((r: any) => r.status !== 'cancelled').map((r: any) => r.round_id));
+      if (removedRoundIds.some((id: string) => registeredRoundIds.has(id))) {
+        skipped.push({ sessionId: occurrence.id, occurrenceDate: occurrence.occurrenceDate, reason: 'It has participants registered for rounds the new template removes' });
+        continue;
+      }
+      const updates = { ...template.settings, frequency: rule.frequency, rounds };
+      const scheduleErrors = validateSessionSchedule({ ...occurrence, ...updates }, scheduleRules, now, occurrence);
+      if (scheduleErrors.length > 0) {
+        skipped.push({ sessionId: occurrence.id, occurrenceDate: occurrence.occurrenceDate, reason: scheduleErrors[0].message });
+        continue;
+      }
+
+      if (removedRoundIds.length > 0) {
+        await cancelCalendarEvents(occurrence.id, removedRoundIds)
+          .catch((e) => errorLog('cancelCalendarEvents for removed occurrence rounds', e));
+      }
+      await db.updateSession(occurrence.id, updates);
+      await scheduleSms(occurrence.id);
+    } catch (error) {
+      errorLog(`Failed to update series occurrence ${occurrence.id}:`, error);
+    }
+  }
+  if (skipped.length > 0) debugLog(`🔁 Series ${series.id}: ${skipped.length} occurrence(s) left unchanged`, skipped);
+
+  await materializeSeries(series.id, now, scheduleSms);
+  return skipped;
+}
+
+/** A deleted occurrence must not be re-created by the next materialization */
+export async function skipOccurrence(session: any): Promise<void> {
+  if (!session?.seriesId || !session.occurrenceDate) return;
+  const series = await db.getSeriesById(session.seriesId);
+  const rule = resolveRecurrenceRule(series?.recurrence);
+  if (!series || !rule) return;
+  await db.updateSeries(series.id, { recurrence: addRecurrenceException(rule, session.occurrenceDate) });
+}
+
+/**
+ * Subscribe a participant to a series and register them for the upcoming
+ * occurrences that already exist. Returns the number of new registrations.
+ */
+export async function subscribeToSeries(
+  seriesId: string,
+  participantId: string,
+  preferences: SeriesPreferences,
+  now: Date,
+): Promise<number> {
+  const series = await db.getSeriesById(seriesId);
+  if (!series) return 0;
+
+  await db.upsertSeriesSubscription({ seriesId, participantId, organizerId: series.userId, preferences });
+
+  const today = getZonedDate(now, resolveTimeZone(series.template?.settings?.timeZone));
+  let created = 0;
+  for (const session of await db.getSessionsBySeries(seriesId)) {
+    if (!session.date || session.date < today) continue;
+    created += await registerSubscriber({ participantId, preferences }, session, now);
+  }
+  return created;
+}
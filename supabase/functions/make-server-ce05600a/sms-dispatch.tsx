@@ -1,22 +1,50 @@
 /**
- * SMS dispatch logic: extracted from index.ts so it can be exercised by e2e
- * tests without going through the QStash-signed HTTP endpoint.
+ * Notification dispatch logic: extracted from index.ts so it can be exercised
+ * by e2e tests without going through the QStash-signed HTTP endpoint.
  *
  * The route handler in index.ts validates the QStash signature and then calls
- * dispatchSmsForRound() from here. Tests import dispatchSmsForRound() directly.
+ * dispatchNotificationsForRound() from here. Tests import it directly.
+ *
+ * One dispatch fans out over SMS, email and web push. Every send gets an
+ * sms_outbox row for its channel, so all three share the dedup (a participant
+ * gets each kind once per channel), the retry (failed rows are re-armed on
+ * re-dispatch / admin resend) and the admin audit view.
+ *
+ * Who gets what: the admin toggles per kind, then the participant's own
+ * channel choices (participants.notification_channels), then whether they
+ * have a phone / email / subscribed browser. Push carries the SMS text to
+ * participants who don't get the SMS. Matching calls dispatchMatchPush() for
+ * the "you're matched" push, which has no SMS counterpart.
+ *
+ * SMS limits: opted-out numbers (sms_suppressions) and SMS beyond the
+ * organizer's monthly quota (sms-quota.ts) get the push instead. Non-urgent
+ * kinds hold their SMS and push during quiet hours (sms-quiet-hours.ts) and
+ * re-run from a deferred schedule in the morning; email goes out right away.
  */
 
 import * as db from './db.ts';
 import { errorLog } from './debug.tsx';
-import { parseRoundStartTime } from './time-helpers.tsx';
-import { sendSms, renderSmsTemplate } from './sms.tsx';
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
+import { sendSms, renderSmsTemplate, smsStatusCallbackUrl } from './sms.tsx';
 import { sendEmail } from './email.tsx';
+import {
+  getPushTargetsByParticipant,
+  sendPushToBrowsers,
+  forgetGoneSubscriptions,
+  type PushMessage,
+} from './web-push.ts';
+import { getSmsUsage } from './sms-quota.ts';
+import { quietHoursEndAfter, resolveQuietHours } from './sms-quiet-hours.ts';
 import {
   claimScheduleForDispatch,
+  deferSchedule,
+  getSuppressedNumbers,
   bulkUpsertOutboxAttempting,
   bulkMarkOutboxSent,
   bulkMarkOutboxFailed,
   type SmsKind,
+  type OutboxKind,
+  type NotificationChannel,
 } from './sms-outbox.ts';
 
 /**
@@ -49,6 +77,7 @@ export function kindConfig(kind: SmsKind, sysParams: any, texts: any) {
         emailSubject: texts.emailBeforeConfirmationSubject,
         emailBody: texts.emailBeforeConfirmationBody,
         eligibleStatuses: ['registered', 'confirmed'],
+        urgent: true,
         linkPath: (token: string) => `/p/${token}?from=notification-before`,
       };
     case 'round-starting-soon':
@@ -59,6 +88,7 @@ export function kindConfig(kind: SmsKind, sysParams: any, texts: any) {
         emailSubject: texts.emailAtConfirmationSubject,
         emailBody: texts.emailAtConfirmationBody,
         eligibleStatuses: ['registered', 'confirmed'],
+        urgent: true,
         linkPath: (token: string) => `/p/${token}?from=sms-reminder`,
       };
     case 'round-ended':
@@ -69,6 +99,8 @@ export function kindConfig(kind: SmsKind, sysParams: any, texts: any) {
         emailSubject: texts.emailAfterNetworkingSubject,
         emailBody: texts.emailAfterNetworkingBody,
         eligibleStatuses: ['matched', 'checked-in', 'met'],
+        // Contact sharing can wait for the morning
+        urgent: false,
         linkPath: (token: string) => `/p/${token}/contact-sharing?from=sms-ended`,
       };
   }
@@ -82,18 +114,107 @@ export interface DispatchOptions {
    */
   skipClaim?: boolean;
   /**
-   * If true, sendSms() short-circuits to a fake success (no Twilio call). Used
-   * by load tests so we don't burn real credits. We can't use Deno.env.set on
+   * If true, sendSms() goes to the fake provider (sms-fake.ts), which records
+   * the message instead of calling a gateway. Used by load tests and e2e
+   * scenarios so we don't burn real credits. We can't use Deno.env.set on
    * the Supabase edge runtime (read-only env), so the flag is plumbed through.
    */
   mockSms?: boolean;
+  /** Same as mockSms for web push: count the push as sent without calling the push service. */
+  mockPush?: boolean;
+  /** Clock for quiet hours and the quota month; e2e scenarios pass one */
+  now?: Date;
+  /** Load tests: no monthly SMS quota and no quiet hours (opt-outs still apply). */
+  skipSmsLimits?: boolean;
+}
+
+type SendOutcome = { ok: true; recipient: string; twilioSid?: string; provider?: string } | { ok: false; error: string };
+
+/**
+ * Send one channel of one (kind × round) batch through the outbox: create or
+ * re-arm the rows, send in parallel chunks, persist the outcomes in bulk.
+ */
+async function sendThroughOutbox(
+  channel: NotificationChannel,
+  kind: OutboxKind,
+  scope: { scheduleId: string | null; sessionId: string; roundId: string; targetSendAt: Date; concurrency: number },
+  candidates: any[],
+  send: (reg: any) => Promise<SendOutcome>,
+): Promise<{ sent: number; failed: number }> {
+  if (candidates.length === 0) return { sent: 0, failed: 0 };
+
+  const { rowsByParticipant, alreadySent } = await bulkUpsertOutboxAttempting(
+    scope.scheduleId,
+    kind,
+    scope.sessionId,
+    scope.roundId,
+    candidates.map((r: any) => r.participantId),
+    scope.targetSendAt,
+    channel,
+  );
+
+  const sentUpdates: Array<{ id: string; recipient: string; twilioSid?: string; provider?: string }> = [];
+  const failedUpdates: Array<{ id: string; error: string }> = [];
+
+  const sendOne = async (reg: any) => {
+    if (alreadySent.has(reg.participantId)) return; // already counted as 'sent' previously, no-op
+
+    const row = rowsByParticipant.get(reg.participantId);
+    if (!row) return; // unexpected — bulk insert should have produced a row
+
+    const result = await send(reg);
+    if (result.ok) {
+      sentUpdates.push({ id: row.id, recipient: result.recipient, twilioSid: result.twilioSid, provider: result.provider });
+    } else {
+      failedUpdates.push({ id: row.id, error: result.error });
+    }
+  };
+
+  for (let i = 0; i < candidates.length; i += scope.concurrency) {
+    const chunk = candidates.slice(i, i + scope.concurrency);
+    await Promise.all(chunk.map((reg: any) => sendOne(reg).catch(err => {
+      errorLog(`${channel} send unexpected error for ${reg.participantId}:`, err);
+    })));
+  }
+
+  // Bulk persist outcomes — one round-trip per N=500 instead of N individual UPDATEs
+  await bulkMarkOutboxSent(sentUpdates);
+  await bulkMarkOutboxFailed(failedUpdates);
+  return { sent: sentUpdates.length, failed: failedUpdates.length };
+}
+
+/** Send `message(reg)` to the subscribed browsers of each candidate via the outbox */
+async function sendPushThroughOutbox(
+  kind: OutboxKind,
+  scope: { scheduleId: string | null; sessionId: string; roundId: string; targetSendAt: Date; concurrency: number },
+  candidates: any[],
+  message: (reg: any) => PushMessage,
+  mock?: boolean,
+) {
+  const targets = await getPushTargetsByParticipant(candidates.map((r: any) => r.participantId));
+  const gone: string[] = [];
+  const result = await sendThroughOutbox(
+    'push',
+    kind,
+    scope,
+    candidates.filter((r: any) => targets.has(r.participantId)),
+    async (reg) => {
+      const outcome = await sendPushToBrowsers(targets.get(reg.participantId)!, message(reg), { mock });
+      gone.push(...outcome.gone);
+      return outcome.reached > 0
+        ? { ok: true, recipient: `${outcome.reached} browser${outcome.reached === 1 ? '' : 's'}` }
+        : { ok: false, error: outcome.error || 'push failed' };
+    },
+  );
+  await forgetGoneSubscriptions(gone);
+  return result;
 }
 
 /**
- * Fan-out SMS + email for one (kind × round) batch.
+ * Fan-out SMS + email + push for one (kind × round) batch.
  *
  * Concurrency notes:
- * - We process the eligible list in parallel chunks of size SMS_DISPATCH_CONCURRENCY
+ * - We process each channel's list in parallel chunks of size SMS_DISPATCH_CONCURRENCY
  *   (default 30). Twilio paid accounts allow ~200 msg/sec; concurrency 30 stays
  *   well under that with retry headroom.
  * - One slow Twilio call doesn't block other in-flight calls within a chunk;
@@ -102,7 +223,7 @@ export interface DispatchOptions {
  *   staging (vs. 25 minutes when sequential). Stays inside the edge function's
  *   150s wall-time limit.
  */
-export async function dispatchSmsForRound(
+export async function dispatchNotificationsForRound(
   kind: SmsKind,
   roundId: string,
   sessionId: string,
@@ -121,8 +242,12 @@ export async function dispatchSmsForRound(
   const texts = (await db.getAdminSetting('notification_texts')) || {};
   const cfg = kindConfig(kind, sysParams, texts);
 
-  if (!cfg.smsEnabled && !cfg.emailEnabled) {
-    return { skipped: 'both SMS and email disabled for this kind' };
+  const smsOn = cfg.smsEnabled && !!cfg.smsTemplate;
+  const emailOn = cfg.emailEnabled && !!cfg.emailSubject && !!cfg.emailBody;
+  // Push carries the SMS text, so it follows the SMS toggle of the kind
+  const pushOn = smsOn && sysParams.pushNotificationsEnabled !== false;
+  if (!smsOn && !emailOn) {
+    return { skipped: 'SMS, email and push disabled for this kind' };
   }
 
   const session = await db.getSessionById(sessionId);
@@ -130,19 +255,56 @@ export async function dispatchSmsForRound(
   if (!session || !round) return { error: 'round not found' };
 
   const registrations = await db.getRegistrationsForRound(sessionId, roundId);
+  const wants = (reg: any, channel: NotificationChannel) => reg.notificationChannels?.[channel] !== false;
   const eligible = registrations.filter((r: any) =>
     cfg.eligibleStatuses.includes(r.status) &&
-    r.notificationsEnabled !== false &&
-    (cfg.smsEnabled ? r.phone : r.email)
+    r.notificationsEnabled !== false
   );
+  const now = options.now || new Date();
+
+  // Opted-out numbers and SMS beyond the organizer's monthly quota fall back to push
+  let smsCandidates = smsOn ? eligible.filter((r: any) => r.phone && wants(r, 'sms')) : [];
+  const suppressed = await getSuppressedNumbers(smsCandidates.map((r: any) => composeE164(r.phone, r.phoneCountry) || ''));
+  const smsSuppressed = smsCandidates.filter((r: any) => suppressed.has(composeE164(r.phone, r.phoneCountry) || '')).length;
+  smsCandidates = smsCandidates.filter((r: any) => !suppressed.has(composeE164(r.phone, r.phoneCountry) || ''));
+  let smsOverQuota = 0;
+  if (smsCandidates.length > 0 && session.userId && !options.skipSmsLimits) {
+    const usage = await getSmsUsage(session.userId, now);
+    if (smsCandidates.length > usage.remaining) {
+      smsOverQuota = smsCandidates.length - usage.remaining;
+      smsCandidates = smsCandidates.slice(0, usage.remaining);
+      errorLog(`SMS quota (${usage.quota}/month, tier ${usage.tier}) reached for organizer ${session.userId}: ${smsOverQuota} SMS of ${kind}/${roundId} go to push instead`);
+    }
+  }
+  const gettingSms = new Set(smsCandidates.map((r: any) => r.participantId));
+  const emailCandidates = emailOn ? eligible.filter((r: any) => r.email && wants(r, 'email')) : [];
+  let pushCandidates = pushOn ? eligible.filter((r: any) => !gettingSms.has(r.participantId) && wants(r, 'push')) : [];
+
+  // Quiet hours: hold SMS and push of non-urgent kinds, the schedule re-runs this at the end
+  const quietUntil = cfg.urgent || options.skipSmsLimits
+    ? null
+    : quietHoursEndAfter(now, resolveTimeZone(session.timeZone), resolveQuietHours(sysParams));
+  let deferredUntil: Date | null = null;
+  if (quietUntil && (smsCandidates.length > 0 || pushCandidates.length > 0)) {
+    await deferSchedule(kind, roundId, sessionId, quietUntil, 'quiet hours');
+    deferredUntil = quietUntil;
+    smsCandidates = [];
+    pushCandidates = [];
+  }
 
   const appUrl = Deno.env.get('APP_URL') || 'https://wonderelo.com';
   const meetingPoints = round?.meetingPoints?.length > 0 ? round.meetingPoints : (session.meetingPoints || []);
   const location = meetingPoints.length > 0 ? (meetingPoints[0]?.name || meetingPoints[0] || '') : '';
-  const roundStartUtc = parseRoundStartTime(round.date, round.startTime);
+  const roundStartUtc = parseRoundStartTime(round.date, round.startTime, resolveTimeZone(session.timeZone));
 
   const SMS_CONCURRENCY = parseInt(Deno.env.get('SMS_DISPATCH_CONCURRENCY') || '30', 10);
-  let smsSent = 0, smsFailed = 0, emailSent = 0, emailFailed = 0;
+  const scope = {
+    scheduleId: (schedule.id || null) as string | null,
+    sessionId,
+    roundId,
+    targetSendAt: new Date(schedule.targetSendAt),
+    concurrency: SMS_CONCURRENCY,
+  };
 
   const minutesUntilStart = Math.max(0, Math.round((roundStartUtc.getTime() - Date.now()) / 60000));
   const buildVars = (reg: any) => ({
@@ -157,88 +319,113 @@ export async function dispatchSmsForRound(
     eventName: session.name || '',
   });
 
-  // ============= SMS PATH (bulk outbox + parallel send + bulk status) =============
-  if (cfg.smsEnabled && cfg.smsTemplate) {
-    const smsCandidates = eligible.filter((r: any) => r.phone);
-    const { rowsByParticipant, alreadySent } = await bulkUpsertOutboxAttempting(
-      schedule.id || null,
-      kind,
-      sessionId,
-      roundId,
-      smsCandidates.map((r: any) => r.participantId),
-      new Date(schedule.targetSendAt),
-    );
-
-    const sentUpdates: Array<{ id: string; twilioSid: string; phoneSentTo: string }> = [];
-    const failedUpdates: Array<{ id: string; error: string }> = [];
-    const base = Deno.env.get('SUPABASE_URL') || '';
-    const statusCallback = base ? `${base}/functions/v1/make-server-ce05600a/sms/twilio-status` : undefined;
-
-    const sendOne = async (reg: any) => {
-      if (alreadySent.has(reg.participantId)) return; // already counted as 'sent' previously, no-op
-
-      const row = rowsByParticipant.get(reg.participantId);
-      if (!row) return; // unexpected — bulk insert should have produced a row
-
-      const to = composeE164(reg.phone, reg.phoneCountry);
-      if (!to) {
-        failedUpdates.push({ id: row.id, error: `bad phone: ${reg.phone} / ${reg.phoneCountry}` });
-        smsFailed++;
-        return;
-      }
-      const smsBody = renderSmsTemplate(cfg.smsTemplate, buildVars(reg));
-      const result = await sendSms({ to, body: smsBody, statusCallback, mock: options.mockSms });
-      if (result.success) {
-        sentUpdates.push({ id: row.id, twilioSid: result.sid || '', phoneSentTo: to });
-        smsSent++;
-      } else {
-        failedUpdates.push({ id: row.id, error: result.error || 'twilio failed' });
-        smsFailed++;
-      }
-    };
-
-    for (let i = 0; i < smsCandidates.length; i += SMS_CONCURRENCY) {
-      const chunk = smsCandidates.slice(i, i + SMS_CONCURRENCY);
-      await Promise.all(chunk.map((reg: any) => sendOne(reg).catch(err => {
-        errorLog(`sendOne unexpected error for ${reg.participantId}:`, err);
-      })));
-    }
+  // ============= SMS PATH =============
+  const statusCallback = smsStatusCallbackUrl();
+  const sms = await sendThroughOutbox('sms', kind, scope, smsCandidates, async (reg) => {
+    const to = composeE164(reg.phone, reg.phoneCountry);
+    if (!to) return { ok: false, error: `bad phone: ${reg.phone} / ${reg.phoneCountry}` };
+    const smsBody = renderSmsTemplate(cfg.smsTemplate, buildVars(reg));
+    const result = await sendSms({ to, body: smsBody, statusCallback, mock: options.mockSms });
+    return result.success
+      ? { ok: true, recipient: to, twilioSid: result.sid || '', provider: result.provider }
+      : { ok: false, error: result.error || 'sms failed' };
+  });
 
-    // Bulk persist outcomes — one round-trip per N=500 instead of N individual UPDATEs
-    await bulkMarkOutboxSent(sentUpdates);
-    await bulkMarkOutboxFailed(failedUpdates);
-  }
+  // ============= EMAIL PATH =============
+  const email = await sendThroughOutbox('email', kind, scope, emailCandidates, async (reg) => {
+    const vars = buildVars(reg);
+    const subject = renderSmsTemplate(cfg.emailSubject, vars);
+    const body = renderSmsTemplate(cfg.emailBody, vars);
+    const html = body.replace(/\n/g, '<br>');
+    // No later retry: the notification outbox has its own resend, and a late reminder is no use
+    const result = await sendEmail({ to: reg.email, subject, html, kind: 'round-notification', retry: false });
+    return result.success
+      ? { ok: true, recipient: reg.email }
+      : { ok: false, error: result.error || 'email failed' };
+  });
 
-  // ============= EMAIL PATH (parallel, no outbox table) =============
-  if (cfg.emailEnabled && cfg.emailSubject && cfg.emailBody) {
-    const emailCandidates = eligible.filter((r: any) => r.email);
-    const sendEmailOne = async (reg: any) => {
-      try {
-        const vars = buildVars(reg);
-        const subject = renderSmsTemplate(cfg.emailSubject, vars);
-        const body = renderSmsTemplate(cfg.emailBody, vars);
-        const html = body.replace(/\n/g, '<br>');
-        const result = await sendEmail({ to: reg.email, subject, html });
-        if (result.success) emailSent++;
-        else {
-          emailFailed++;
-          errorLog(`Email ${kind} failed for ${reg.email}: ${result.error}`);
-        }
-      } catch (e) {
-        emailFailed++;
-        errorLog(`Email ${kind} exception for ${reg.email}:`, e);
-      }
+  // ============= PUSH PATH (the SMS text, for those not getting the SMS) =============
+  const push = await sendPushThroughOutbox(kind, scope, pushCandidates, (reg) => {
+    const vars = buildVars(reg);
+    return {
+      title: session.name || 'Wonderelo',
+      body: renderSmsTemplate(cfg.smsTemplate, vars),
+      url: vars.link,
+      tag: `${kind}-${roundId}`,
+      requireInteraction: kind !== 'round-ended',
     };
-    for (let i = 0; i < emailCandidates.length; i += SMS_CONCURRENCY) {
-      const chunk = emailCandidates.slice(i, i + SMS_CONCURRENCY);
-      await Promise.all(chunk.map((reg: any) => sendEmailOne(reg)));
-    }
-  }
+  }, options.mockPush);
 
   return {
     kind, roundId,
     eligible: eligible.length,
-    smsSent, smsFailed, emailSent, emailFailed,
+    smsSent: sms.sent, smsFailed: sms.failed,
+    emailSent: email.sent, emailFailed: email.failed,
+    pushSent: push.sent, pushFailed: push.failed,
+    smsSuppressed, smsOverQuota,
+    deferredUntil: deferredUntil ? deferredUntil.toISOString() : null,
     concurrency: SMS_CONCURRENCY,
   };
 }
+
+const DEFAULT_MATCHED_PUSH = "You're matched at {location}! Find {partners} there.";
+
+/**
+ * "You're matched at Coffee corner" push for everyone in the new matches of
+ * a round. Called by createMatchesForRound() once the matches are saved;
+ * `registrations` are the round's registrations it matched from. Goes
+ * through the outbox as kind 'round-matched' (no schedule row).
+ */
+export async function dispatchMatchPush(
+  session: any,
+  round: any,
+  matches: Array<{ participantIds: string[]; meetingPoint?: string }>,
+  registrations: any[],
+  options: DispatchOptions = {},
+) {
+  const sysParams = (await db.getAdminSetting('system_parameters')) || {};
+  if (sysParams.pushNotificationsEnabled === false || matches.length === 0) {
+    return { pushSent: 0, pushFailed: 0 };
+  }
+  const texts = (await db.getAdminSetting('notification_texts')) || {};
+  const template = texts.pushMatched || DEFAULT_MATCHED_PUSH;
+  const appUrl = Deno.env.get('APP_URL') || 'https://wonderelo.com';
+  const regById = new Map(registrations.map((r: any) => [r.participantId, r]));
+  const matchByParticipant = new Map<string, { participantIds: string[]; meetingPoint?: string }>();
+  for (const match of matches) {
+    for (const id of match.participantIds) matchByParticipant.set(id, match);
+  }
+
+  const candidates = [...matchByParticipant.keys()]
+    .map(id => regById.get(id))
+    .filter((reg: any) => reg && reg.notificationsEnabled !== false && reg.notificationChannels?.push !== false);
+
+  const result = await sendPushThroughOutbox('round-matched', {
+    scheduleId: null,
+    sessionId: session.id,
+    roundId: round.id,
+    targetSendAt: new Date(),
+    concurrency: parseInt(Deno.env.get('SMS_DISPATCH_CONCURRENCY') || '30', 10),
+  }, candidates, (reg) => {
+    const match = matchByParticipant.get(reg.participantId)!;
+    const partners = match.participantIds
+      .filter(id => id !== reg.participantId)
+      .map(id => regById.get(id)?.firstName || '')
+      .filter(Boolean);
+    return {
+      title: session.name || 'Wonderelo',
+      body: renderSmsTemplate(template, {
+        location: match.meetingPoint || 'the meeting point',
+        partners: partners.length > 0 ? partners.join(', ') : 'your match',
+        firstName: reg.firstName || '',
+        sessionName: session.name || '',
+        roundName: round.name || '',
+      }),
+      url: reg.token ? `${appUrl}/p/${reg.token}?from=push-matched` : appUrl,
+      tag: `round-matched-${round.id}`,
+      requireInteraction: true,
+    };
+  }, options.mockPush);
+
+  return { pushSent: result.sent, pushFailed: result.failed };
+}
@@ -0,0 +1,149 @@
+/**
+ * FAKE SMS PROVIDER
+ * Sends nothing: records each message in memory and answers like a gateway
+ * would. Used when SMS_PROVIDER=fake (local runs) and whenever a caller
+ * passes `mock: true` (e2e scenarios, load tests).
+ *
+ * Delivery reports are simulated with buildFakeDeliveryCallback(), which
+ * signs a report the way a real gateway would so it goes through the same
+ * handleSmsStatusCallback() path as a Twilio or Vonage webhook; replies from
+ * participants likewise with buildFakeInboundSms(). The signing
+ * key is SMS_FAKE_SECRET, or a random one per isolate — then only
+ * in-process callers can produce valid reports.
+ *
+ * The log lives in the isolate's memory and keeps the last 10 000 messages.
+ */
+
+import {
+  sendInChunks,
+  normalizePhoneNumber,
+  readCallbackParams,
+  hmac,
+  safeEqual,
+  type SmsProvider,
+  type OutgoingSms,
+  type SendSmsResult,
+  type WebhookRequest,
+  type DeliveryReport,
+  type DeliveryStatus,
+  type InboundSms,
+} from './sms-provider.ts';
+
+export interface FakeSmsMessage {
+  id: string;
+  to: string;
+  body: string;
+  statusCallback: string | null;
+  sentAt: string;
+}
+
+const MAX_RECORDED = 10000;
+const SIGNATURE_HEADER = 'x-fake-sms-signature';
+const DELIVERY_STATUSES: DeliveryStatus[] = ['queued', 'sent', 'delivered', 'undelivered', 'failed'];
+
+const recorded: FakeSmsMessage[] = [];
+const signingSecret = Deno.env.get('SMS_FAKE_SECRET') || crypto.randomUUID();
+
+async function sendFakeSms(params: OutgoingSms): Promise<SendSmsResult> {
+  const message: FakeSmsMessage = {
+    id: `fake-${crypto.randomUUID()}`,
+    to: normalizePhoneNumber(params.to),
+    body: params.body,
+    statusCallback: params.statusCallback || null,
+    sentAt: new Date().toISOString(),
+  };
+  recorded.push(message);
+  if (recorded.length > MAX_RECORDED) recorded.splice(0, recorded.length - MAX_RECORDED);
+  return { success: true, sid: message.id, provider: 'fake' };
+}
+
+async function sign(url: string, rawBody: string): Promise<string> {
+  const signature = await hmac('SHA-256', signingSecret, url + rawBody);
+  return Array.from(signature, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Messages the fake has "sent", oldest first; optionally only those to one number */
+export function getFakeSmsMessages(to?: string): FakeSmsMessage[] {
+  if (!to) return [...recorded];
+  const number = normalizePhoneNumber(to);
+  return recorded.filter(m => m.to === number);
+}
+
+export function clearFakeSmsMessages() {
+  recorded.length = 0;
+}
+
+/**
+ * A signed delivery report for a message the fake sent, as the gateway would
+ * POST it to the message's statusCallback. Pass it to handleSmsStatusCallback().
+ */
+export async function buildFakeDeliveryCallback(
+  messageId: string,
+  status: DeliveryStatus,
+  errorCode: string | null = null,
+): Promise<WebhookRequest> {
+  const message = recorded.find(m => m.id === messageId);
+  const url = message?.statusCallback || 'https://fake-sms.invalid/status';
+  const rawBody = JSON.stringify({ messageId, status, errorCode });
+  return {
+    url,
+    method: 'POST',
+    headers: { 'content-type': 'application/json', [SIGNATURE_HEADER]: await sign(url, rawBody) },
+    rawBody,
+    query: {},
+  };
+}
+
+/**
+ * A signed incoming text from `from`, as the gateway would POST it to our
+ * inbound webhook. Pass it to handleInboundSms(); `messageId` defaults to a
+ * fresh one, pass the same id to simulate a retried webhook.
+ */
+export async function buildFakeInboundSms(
+  from: string,
+  text: string,
+  messageId = `fake-in-${crypto.randomUUID()}`,
+): Promise<WebhookRequest> {
+  const url = 'https://fake-sms.invalid/inbound';
+  const rawBody = JSON.stringify({ from: normalizePhoneNumber(from), text, messageId });
+  return {
+    url,
+    method: 'POST',
+    headers: { 'content-type': 'application/json', [SIGNATURE_HEADER]: await sign(url, rawBody) },
+    rawBody,
+    query: {},
+  };
+}
+
+export const fakeSmsProvider: SmsProvider = {
+  name: 'fake',
+  isConfigured: () => true,
+  send: sendFakeSms,
+  sendBulk: (messages, options = {}) => sendInChunks(sendFakeSms, messages, options.concurrency),
+
+  async verifyWebhook(request: WebhookRequest): Promise<boolean> {
+    const signature = request.headers[SIGNATURE_HEADER];
+    if (!signature) return false;
+    return safeEqual(await sign(request.url, request.rawBody), signature);
+  },
+
+  parseStatusCallback(request: WebhookRequest): DeliveryReport | null {
+    const params = readCallbackParams(request);
+    const status = params.status as DeliveryStatus;
+    if (!params.messageId || !DELIVERY_STATUSES.includes(status)) return null;
+    return {
+      messageId: params.messageId,
+      status,
+      providerStatus: status,
+      errorCode: params.errorCode || null,
+    };
+  },
+
+  parseInboundMessage(request: WebhookRequest): InboundSms | null {
+    const params = readCallbackParams(request);
+    if (!params.messageId || !params.from) return null;
+    return { from: normalizePhoneNumber(params.from), body: params.text || '', messageId: params.messageId };
+  },
+
+  inboundResponse: { contentType: 'application/json', body: '{}' },
+};
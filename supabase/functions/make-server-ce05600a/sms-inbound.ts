@@ -0,0 +1,220 @@
+/**
+ * INBOUND SMS (two-way reminders)
+ * A participant answers a reminder from their phone: YES confirms their next
+ * round, NO cancels it, STOP puts the number on the opt-out list and turns
+ * SMS off for its accounts, START undoes that (see sms-replies.ts for the
+ * synonyms). Confirming and cancelling go through attendance.ts, the same
+ * rules as the Confirm / Unregister buttons.
+ *
+ * The sender is matched on participants.phone_e164. "Next round" is the
+ * earliest not-yet-started round among all their registrations that the
+ * reply can act on. Every reply is logged in sms_inbound; a retried webhook
+ * (same provider message id) is not acted on twice. Known numbers get an
+ * answer from the same provider, unknown and opted-out numbers get nothing
+ * (except the confirmation of the STOP itself).
+ *
+ * Reply texts are admin-editable (notification_texts.smsReply*).
+ */
+
+import * as db from './db.ts';
+import { debugLog, errorLog } from './debug.tsx';
+import { confirmAttendance, cancelAttendance, type AttendanceResult } from './attendance.ts';
+import { parseSmsReply, type SmsReplyIntent } from './sms-replies.ts';
+import { getSmsProviderByName, renderSmsTemplate } from './sms.tsx';
+import {
+  insertInboundSms,
+  completeInboundSms,
+  addSmsSuppression,
+  removeSmsSuppression,
+  isSmsSuppressed,
+  type InboundOutcome,
+} from './sms-outbox.ts';
+import { type WebhookRequest, type InboundSms } from './sms-provider.ts';
+import { parseRoundStartTime, resolveTimeZone } from './time-helpers.tsx';
+import { sendCountedSms } from './sms-quota.ts';
+
+const DEFAULT_REPLY_CONFIRMED = "Thanks {firstName}, you're confirmed for {roundName} at {time}. See you at {sessionName}!";
+const DEFAULT_REPLY_CANCELLED = "Done {firstName}, you're no longer registered for {roundName} at {time}. Changed your mind? {link}";
+const DEFAULT_REPLY_STOPPED = "You won't get any more SMS from Wonderelo. Reply START to undo. Manage your notifications: {link}";
+const DEFAULT_REPLY_RESUMED = "You'll get SMS from Wonderelo again. Reply STOP to opt out.";
+const DEFAULT_REPLY_NOT_POSSIBLE = "Sorry, that didn't work: {reason} Your rounds: {link}";
+const DEFAULT_REPLY_HELP = 'Reply YES to confirm your next round, NO to cancel it, or STOP for no more SMS. Your rounds: {link}';
+
+/** Registration statuses each intent can act on, in order of preference */
+const ACTIONABLE_STATUSES: Record<'yes' | 'no', string[][]> = {
+  // A second YES finds the round already confirmed and answers "confirmed" again
+  yes: [['registered'], ['confirmed']],
+  no: [['registered', 'confirmed']],
+};
+
+export interface InboundSmsResult {
+  result: 'handled' | 'duplicate' | 'ignored' | 'unauthorized' | 'unknown-provider';
+  intent?: SmsReplyIntent;
+  outcome?: InboundOutcome;
+  reply?: string | null;
+}
+
+interface Target {
+  participant: any;
+  registration: any;
+  session: any;
+  round: any;
+  startsAt: Date;
+}
+
+/**
+ * The earliest upcoming registration of any of `participants` whose status
+ * is in the first non-empty group of `statusGroups`.
+ */
+async function findNextRound(participants: any[], statusGroups: string[][], now: Date): Promise<Target | null> {
+  const sessions = new Map<string, any>();
+  const candidates: Target[] = [];
+  for (const participant of participants) {
+    const registrations = await db.getRegistrationsByParticipant(participant.participantId);
+    for (const registration of registrations) {
+      if (!statusGroups.some(group => group.includes(registration.status))) continue;
+      if (!sessions.has(registration.sessionId)) {
+        sessions.set(registration.sessionId, await db.getSessionById(registration.sessionId));
+      }
+      const session = sessions.get(registration.sessionId);
+      const round = session?.rounds?.find((r: any) => r.id === registration.roundId);
+      const date = round?.date || session?.date;
+      if (!date || !round?.startTime) continue;
+      const startsAt = parseRoundStartTime(date, round.startTime, resolveTimeZone(session.timeZone));
+      if (startsAt <= now) continue;
+      candidates.push({ participant, registration, session, round, startsAt });
+    }
+  }
+  for (const group of statusGroups) {
+    const next = candidates
+      .filter(t => group.includes(t.registration.status))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())[0];
+    if (next) return next;
+  }
+  return null;
+}
+
+/** What to do about one reply from a known number; returns the outcome and the answer to send */
+async function actOnReply(
+  intent: SmsReplyIntent,
+  from: string,
+  participants: any[],
+  texts: Record<string, string>,
+  now: Date,
+): Promise<{ outcome: InboundOutcome; reply: string; target?: Target }> {
+  const appUrl = Deno.env.get('APP_URL') || 'https://wonderelo.com';
+  const vars = (participant: any, target?: Target) => ({
+    firstName: participant.firstName || '',
+    sessionName: target?.session?.name || '',
+    roundName: target?.round?.name || '',
+    time: target?.round?.startTime || '',
+    link: participant.token ? `${appUrl}/p/${participant.token}` : appUrl,
+  });
+
+  if (intent === 'stop' || intent === 'start') {
+    const sms = intent === 'start';
+    if (sms) await removeSmsSuppression(from);
+    else await addSmsSuppression(from, 'stop-reply');
+    for (const participant of participants) {
+      await db.updateParticipant(participant.participantId, {
+        notificationChannels: { ...participant.notificationChannels, sms },
+      });
+    }
+    debugLog(`📵 SMS turned ${sms ? 'back on' : 'off'} by reply for ${participants.length} participant(s)`);
+    return sms
+      ? { outcome: 'resumed', reply: renderSmsTemplate(texts.smsReplyResumed || DEFAULT_REPLY_RESUMED, vars(participants[0])) }
+      : { outcome: 'stopped', reply: renderSmsTemplate(texts.smsReplyStopped || DEFAULT_REPLY_STOPPED, vars(participants[0])) };
+  }
+
+  const help = () => renderSmsTemplate(texts.smsReplyHelp || DEFAULT_REPLY_HELP, vars(participants[0]));
+  if (intent === 'unknown') return { outcome: 'help', reply: help() };
+
+  const target = await findNextRound(participants, ACTIONABLE_STATUSES[intent], now);
+  if (!target) return { outcome: 'no-round', reply: help() };
+
+  const { participant, registration } = target;
+  const result: AttendanceResult = intent === 'yes'
+    ? await confirmAttendance(participant.participantId, registration.sessionId, registration.roundId, now)
+    : await cancelAttendance(participant.participantId, registration.sessionId, registration.roundId, now);
+
+  if (!result.ok) {
+    return {
+      outcome: 'not-possible',
+      reply: renderSmsTemplate(texts.smsReplyNotPossible || DEFAULT_REPLY_NOT_POSSIBLE, { ...vars(participant, target), reason: result.message }),
+      target,
+    };
+  }
+  const template = intent === 'yes'
+    ? texts.smsReplyConfirmed || DEFAULT_REPLY_CONFIRMED
+    : texts.smsReplyCancelled || DEFAULT_REPLY_CANCELLED;
+  return { outcome: intent === 'yes' ? 'confirmed' : 'cancelled', reply: renderSmsTemplate(template, vars(participant, target)), target };
+}
+
+/**
+ * Verify, log and act on one inbound-message webhook from `providerName`.
+ * The answer SMS goes out through that same provider.
+ */
+export async function handleInboundSms(
+  providerName: string,
+  request: WebhookRequest,
+  now: Date = new Date(),
+): Promise<InboundSmsResult> {
+  const provider = getSmsProviderByName(providerName);
+  if (!provider) return { result: 'unknown-provider' };
+  // Unsigned replies could confirm or cancel anyone's round by guessing a number
+  if (!(await provider.verifyWebhook(request))) return { result: 'unauthorized' };
+
+  const message: InboundSms | null = provider.parseInboundMessage(request);
+  if (!message) return { result: 'ignored' };
+
+  const intent = parseSmsReply(message.body);
+  const logId = await insertInboundSms({
+    provider: provider.name,
+    providerMessageId: message.messageId,
+    fromNumber: message.from,
+    body: message.body,
+    intent,
+  });
+  if (!logId) {
+    debugLog(`📩 Inbound SMS ${message.messageId} already handled, skipping`);
+    return { result: 'duplicate', intent };
+  }
+
+  const participants = await db.getParticipantsByPhone(message.from);
+  if (participants.length === 0) {
+    // A STOP is honored from any number; the list is per number, not per account
+    if (intent === 'stop') await addSmsSuppression(message.from, 'stop-reply');
+    await completeInboundSms(logId, { outcome: 'unknown-number' });
+    return { result: 'handled', intent, outcome: 'unknown-number', reply: null };
+  }
+
+  const texts = (await db.getAdminSetting('notification_texts')) || {};
+  const { outcome, reply, target } = await actOnReply(intent, message.from, participants, texts, now);
+
+  // provider.send, not sendSms: the STOP confirmation must reach a number that is now suppressed.
+  // The answer counts against the quota of the organizer whose round it is about.
+  let answer = outcome === 'stopped' || !(await isSmsSuppressed(message.from)) ? reply : null;
+  if (answer) {
+    const sent = await sendCountedSms({
+      kind: 'inbound-reply',
+      organizerId: target?.session.userId,
+      sessionId: target?.registration.sessionId,
+      participantId: target?.participant.participantId,
+      roundId: target?.registration.roundId,
+      message: { to: message.from, body: answer },
+      send: (sms) => provider.send(sms),
+    }, now);
+    if (!sent.success) errorLog(`Inbound SMS answer to ${message.from} failed:`, sent.error);
+    if (sent.overQuota) answer = null;
+  }
+
+  await completeInboundSms(logId, {
+    outcome,
+    participantId: target?.participant.participantId ?? participants[0].participantId,
+    sessionId: target?.registration.sessionId,
+    roundId: target?.registration.roundId,
+    reply: answer,
+  });
+  debugLog(`📩 Inbound SMS "${intent}" from ${message.from}: ${outcome}`);
+  return { result: 'handled', intent, outcome, reply: answer };
+}
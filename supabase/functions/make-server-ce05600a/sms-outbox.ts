@@ -1,17 +1,35 @@
 /**
- * sms_schedules + sms_outbox DB helpers.
+ * sms_schedules + sms_outbox + sms_direct_sends + sms_inbound +
+ * sms_suppressions DB helpers.
  *
  * sms_schedules = our promise to fire one QStash event at target_send_at per
  *                 (round × kind). Created when round is published.
  *
- * sms_outbox    = one row per actual send. Created at dispatch time when
- *                 QStash fires our endpoint and we fan-out Twilio calls.
+ * sms_outbox    = one row per actual send and channel (SMS, email, web push).
+ *                 Created at dispatch time when QStash fires our endpoint and
+ *                 we fan out over the channels. The table predates email and
+ *                 push, hence the name.
+ *
+ * sms_direct_sends = SMS sent one at a time outside the round dispatch
+ *                 (waitlist offers, match changes, reply answers), kept
+ *                 for the monthly quota. See sendCountedSms() in sms-quota.ts.
+ *
+ * sms_inbound   = one row per text a participant sent us (replies to the
+ *                 reminders) and what we did about it. See sms-inbound.ts.
+ *
+ * sms_suppressions = phone numbers that must not get SMS (STOP replies,
+ *                 admin). sms.tsx checks it before every send.
  */
 
 import * as db from './db.ts';
 
 export type SmsKind = 'round-before-confirmation' | 'round-starting-soon' | 'round-ended';
 
+/** Outbox kinds: the scheduled ones, plus the match push sent right after matching */
+export type OutboxKind = SmsKind | 'round-matched';
+
+export type NotificationChannel = 'sms' | 'email' | 'push';
+
 // Use the same Supabase client as db.ts via its internal factory.
 // Rather than re-creating the client here, we use db's raw query mechanism
 // indirectly by calling the existing supabase singleton getter.
@@ -186,6 +204,20 @@ export async function getOverdueSchedules(beforeIso: string): Promise<SmsSchedul
   return (data || []).map(mapSchedule);
 }
 
+/**
+ * Push a (kind × round) schedule back to `until` (quiet hours). It goes back
+ * to 'pending', so the reconcile cron picks it up once `until` has passed;
+ * rounds dispatched without a schedule row get one here.
+ */
+export async function deferSchedule(kind: SmsKind, roundId: string, sessionId: string, until: Date, reason: string) {
+  const { id } = await upsertSchedule({ kind, roundId, sessionId, targetSendAt: until });
+  const { error } = await sb()
+    .from('sms_schedules')
+    .update({ status: 'pending', target_send_at: until.toISOString(), last_error: reason })
+    .eq('id', id);
+  if (error) throw error;
+}
+
 // ============================================================
 // sms_outbox (per-send record)
 // ============================================================
@@ -193,12 +225,18 @@ export async function getOverdueSchedules(beforeIso: string): Promise<SmsSchedul
 export interface SmsOutboxRow {
   id: string;
   scheduleId: string | null;
-  kind: SmsKind;
+  kind: OutboxKind;
+  channel: NotificationChannel;
   participantId: string;
   sessionId: string;
   roundId: string;
   targetSendAt: string;
   status: 'attempting' | 'sent' | 'delivered' | 'undelivered' | 'failed' | 'canceled';
+  /** Phone number, email address or "N browsers" for push */
+  recipient: string | null;
+  /** SMS gateway that took the message: 'twilio', 'vonage' or 'fake' */
+  provider: string | null;
+  /** The gateway's message id, whichever gateway it was */
   twilioSid: string | null;
   twilioDeliveryStatus: string | null;
   twilioErrorCode: string | null;
@@ -218,11 +256,14 @@ function mapOutbox(r: any): SmsOutboxRow {
     id: r.id,
     scheduleId: r.schedule_id,
     kind: r.kind,
+    channel: r.channel || 'sms',
     participantId: r.participant_id,
     sessionId: r.session_id,
     roundId: r.round_id,
     targetSendAt: r.target_send_at,
     status: r.status,
+    recipient: r.recipient ?? r.phone_sent_to ?? null,
+    provider: r.provider ?? null,
     twilioSid: r.twilio_sid,
     twilioDeliveryStatus: r.twilio_delivery_status,
     twilioErrorCode: r.twilio_error_code,
@@ -240,7 +281,7 @@ function mapOutbox(r: any): SmsOutboxRow {
 
 /**
  * UPSERT an outbox row in 'attempting' state. Returns { created, row }.
- * If a row exists for (kind, participant, round) already:
+ * If a row exists for (kind, channel, participant, round) already:
  *   - status=sent/delivered → {created:false, row:existing}. Caller skips.
  *   - otherwise (failed/attempting/canceled) → re-arm to 'attempting' for retry.
  *
@@ -248,16 +289,19 @@ function mapOutbox(r: any): SmsOutboxRow {
  */
 export async function upsertOutboxAttempting(p: {
   scheduleId: string | null;
-  kind: SmsKind;
+  kind: OutboxKind;
+  channel?: NotificationChannel;
   participantId: string;
   sessionId: string;
   roundId: string;
   targetSendAt: Date;
 }): Promise<{ created: boolean; row: SmsOutboxRow; existing?: SmsOutboxRow }> {
+  const channel = p.channel || 'sms';
   const { data: existing } = await sb()
     .from('sms_outbox')
     .select('*')
     .eq('kind', p.kind)
+    .eq('channel', channel)
     .eq('participant_id', p.participantId)
     .eq('round_id', p.roundId)
     .maybeSingle();
@@ -287,6 +331,7 @@ export async function upsertOutboxAttempting(p: {
     .insert({
       schedule_id: p.scheduleId,
       kind: p.kind,
+      channel,
       participant_id: p.participantId,
       session_id: p.sessionId,
       round_id: p.roundId,
@@ -304,6 +349,7 @@ export async function upsertOutboxAttempting(p: {
         .from('sms_outbox')
         .select('*')
         .eq('kind', p.kind)
+        .eq('channel', channel)
         .eq('participant_id', p.participantId)
         .eq('round_id', p.roundId)
         .maybeSingle();
@@ -315,27 +361,29 @@ export async function upsertOutboxAttempting(p: {
 }
 
 /**
- * Bulk version of upsertOutboxAttempting for fan-out at scale.
+ * Bulk version of upsertOutboxAttempting for fan-out at scale, for one channel.
  * Returns { rows, alreadySent } where:
  *   - rows: outbox rows ready to send (id-keyed by participant_id)
- *   - alreadySent: participant_ids that should be skipped (sent/delivered already)
+ *   - alreadySent: participant_ids that should be skipped (sent/delivered
+ *     already, or being sent by a concurrent dispatch)
  *
  * One round-trip to read existing rows + one round-trip to upsert new ones,
  * regardless of recipient count. Replaces 3N queries with 2 chunked operations.
  */
 export async function bulkUpsertOutboxAttempting(
   scheduleId: string | null,
-  kind: SmsKind,
+  kind: OutboxKind,
   sessionId: string,
   roundId: string,
   participantIds: string[],
   targetSendAt: Date,
+  channel: NotificationChannel = 'sms',
 ): Promise<{ rowsByParticipant: Map<string, SmsOutboxRow>; alreadySent: Set<string> }> {
   const out = new Map<string, SmsOutboxRow>();
   const alreadySent = new Set<string>();
   if (participantIds.length === 0) return { rowsByParticipant: out, alreadySent };
 
-  // 1) Read existing rows for this (kind, round). One query, paginated for safety.
+  // 1) Read existing rows for this (kind, channel, round). One query, paginated for safety.
   const existingByPid = new Map<string, any>();
   const PAGE = 1000;
   let from = 0;
@@ -344,6 +392,7 @@ export async function bulkUpsertOutboxAttempting(
       .from('sms_outbox')
       .select('*')
       .eq('kind', kind)
+      .eq('channel', channel)
       .eq('round_id', roundId)
       .range(from, from + PAGE - 1);
     if (error) throw error;
@@ -370,7 +419,7 @@ export async function bulkUpsertOutboxAttempting(
     } else {
       toInsert.push({
         schedule_id: scheduleId,
-        kind, participant_id: pid, session_id: sessionId, round_id: roundId,
+        kind, channel, participant_id: pid, session_id: sessionId, round_id: roundId,
         target_send_at: targetIso, status: 'attempting', attempts: 1, last_attempt_at: now,
       });
     }
@@ -379,10 +428,11 @@ export async function bulkUpsertOutboxAttempting(
   // 3a) Bulk INSERT new rows. Postgres returns the inserted rows including UUIDs.
   // Race tolerance: if a concurrent caller inserted a row for one of our
   // participants between our SELECT and INSERT, the unique constraint
-  // (kind, participant_id, round_id) fires and the entire chunk fails with
-  // 23505. Recovery: re-fetch existing rows for the affected participants
-  // and continue. Real-world frequency is low (we only see this when a late
-  // registration arrives during dispatch fan-out).
+  // (kind, channel, participant_id, round_id) fires and the entire chunk
+  // fails with 23505. Recovery: insert the slice row by row; a row that
+  // already exists belongs to the other caller, which sends it — we skip it.
+  // Real-world frequency is low (a QStash redelivery or the reminder cron
+  // racing the scheduled dispatch).
   if (toInsert.length > 0) {
     const CHUNK = 500;
     for (let i = 0; i < toInsert.length; i += CHUNK) {
@@ -397,17 +447,20 @@ export async function bulkUpsertOutboxAttempting(
       }
       const code = (error as any).code;
       if (code !== '23505') throw error;
-      // Race: someone (probably another dispatch invocation) inserted rows
-      // for participants we wanted. Re-fetch them per-row and merge.
-      const slicePids = slice.map((r: any) => r.participant_id);
-      const { data: refetched, error: refetchErr } = await sb()
-        .from('sms_outbox')
-        .select('*')
-        .eq('kind', kind)
-        .eq('round_id', roundId)
-        .in('participant_id', slicePids);
-      if (refetchErr) throw refetchErr;
-      for (const r of refetched || []) out.set(r.participant_id, mapOutbox(r));
+      for (const row of slice) {
+        const { data: one, error: oneErr } = await sb()
+          .from('sms_outbox')
+          .insert(row)
+          .select('*')
+          .single();
+        if (!oneErr) {
+          out.set(one.participant_id, mapOutbox(one));
+        } else if ((oneErr as any).code === '23505') {
+          alreadySent.add(row.participant_id);
+        } else {
+          throw oneErr;
+        }
+      }
     }
   }
 
@@ -436,25 +489,29 @@ export async function bulkUpsertOutboxAttempting(
  * possible — but realistically every row has its own twilio_sid, so we run
  * UPDATEs in parallel chunks. ~30 concurrent updates × ~10ms each = ~16ms
  * per row at scale, so 5000 finishes in under 2s.
+ *
+ * twilioSid (the gateway's message id) and provider are only set for SMS;
+ * email and push have no delivery callback, so 'sent' is their final state.
  */
 const UPDATE_CONCURRENCY = 30;
 
-export async function bulkMarkOutboxSent(updates: Array<{ id: string; twilioSid: string; phoneSentTo: string }>) {
+export async function bulkMarkOutboxSent(updates: Array<{ id: string; recipient: string; twilioSid?: string; provider?: string }>) {
   if (updates.length === 0) return;
   const now = new Date().toISOString();
   for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
     const chunk = updates.slice(i, i + UPDATE_CONCURRENCY);
     await Promise.all(chunk.map(async (u) => {
-      // Only transition from 'attempting' → 'sent'. The Twilio status callback
-      // (sms/twilio-status) may have already promoted us to 'delivered' or
+      // Only transition from 'attempting' → 'sent'. The gateway's status callback
+      // (sms/status/:provider) may have already promoted us to 'delivered' or
       // 'undelivered' by the time we run; without this filter we'd overwrite a
       // terminal state with the intermediate 'sent', losing delivery info.
       const { error } = await sb()
         .from('sms_outbox')
         .update({
           status: 'sent',
-          twilio_sid: u.twilioSid,
-          phone_sent_to: u.phoneSentTo,
+          twilio_sid: u.twilioSid || null,
+          provider: u.provider || null,
+          recipient: u.recipient,
           sent_at: now,
           last_error: null,
         })
@@ -486,13 +543,14 @@ export async function bulkMarkOutboxFailed(updates: Array<{ id: string; error: s
   }
 }
 
-export async function markOutboxSent(id: string, twilioSid: string, phoneSentTo: string) {
+export async function markOutboxSent(id: string, recipient: string, twilioSid?: string, provider?: string) {
   const { error } = await sb()
     .from('sms_outbox')
     .update({
       status: 'sent',
-      twilio_sid: twilioSid,
-      phone_sent_to: phoneSentTo,
+      twilio_sid: twilioSid || null,
+      provider: provider || null,
+      recipient,
       sent_at: new Date().toISOString(),
       last_error: null,
     })
@@ -512,14 +570,20 @@ export async function markOutboxFailed(id: string, error: string) {
   if (dbErr) throw dbErr;
 }
 
+/**
+ * Apply a delivery report. `deliveryStatus` is already in our vocabulary
+ * (see DeliveryStatus in sms-provider.ts); `providerStatus` is the gateway's
+ * own word for it and is what the admin view shows.
+ */
 export async function updateOutboxDeliveryStatus(
   twilioSid: string,
   deliveryStatus: string,
   errorCode: string | null,
+  providerStatus: string = deliveryStatus,
 ) {
   const terminal = ['delivered', 'undelivered', 'failed'].includes(deliveryStatus);
   const update: Record<string, unknown> = {
-    twilio_delivery_status: deliveryStatus,
+    twilio_delivery_status: providerStatus,
     twilio_error_code: errorCode,
   };
   if (deliveryStatus === 'delivered') {
@@ -534,12 +598,14 @@ export async function updateOutboxDeliveryStatus(
   return terminal;
 }
 
-export async function listOutboxByRoundKind(roundId: string, kind: SmsKind): Promise<SmsOutboxRow[]> {
-  const { data, error } = await sb()
+export async function listOutboxByRoundKind(roundId: string, kind: OutboxKind, channel?: NotificationChannel): Promise<SmsOutboxRow[]> {
+  let query = sb()
     .from('sms_outbox')
     .select('*')
     .eq('round_id', roundId)
     .eq('kind', kind);
+  if (channel) query = query.eq('channel', channel);
+  const { data, error } = await query;
   if (error) throw error;
   return (data || []).map(mapOutbox);
 }
@@ -553,6 +619,64 @@ export async function cancelOutboxForRound(roundId: string) {
   if (error) throw error;
 }
 
+/**
+ * SMS that left for the given sessions since `sinceIso` (sent, delivered or
+ * reported undelivered — the gateway charged for all three), round reminders
+ * and direct sends alike. Quota usage.
+ */
+export async function countSmsSentForSessions(sessionIds: string[], sinceIso: string): Promise<number> {
+  let total = 0;
+  for (let i = 0; i < sessionIds.length; i += 500) {
+    const chunk = sessionIds.slice(i, i + 500);
+    const { count, error } = await sb()
+      .from('sms_outbox')
+      .select('id', { count: 'exact', head: true })
+      .in('session_id', chunk)
+      .eq('channel', 'sms')
+      .in('status', ['sent', 'delivered', 'undelivered'])
+      .gte('created_at', sinceIso);
+    if (error) throw error;
+    const { count: direct, error: directError } = await sb()
+      .from('sms_direct_sends')
+      .select('id', { count: 'exact', head: true })
+      .in('session_id', chunk)
+      .gte('created_at', sinceIso);
+    if (directError) throw directError;
+    total += (count || 0) + (direct || 0);
+  }
+  return total;
+}
+
+/** Session ids with at least one SMS since `sinceIso` (admin quota overview) */
+export async function listSessionIdsWithSmsSince(sinceIso: string): Promise<string[]> {
+  const ids = new Set<string>();
+  const PAGE = 1000;
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await sb()
+      .from('sms_outbox')
+      .select('session_id')
+      .eq('channel', 'sms')
+      .gte('created_at', sinceIso)
+      .order('id')
+      .range(from, from + PAGE - 1);
+    if (error) throw error;
+    for (const r of data || []) ids.add(r.session_id);
+    if (!data || data.length < PAGE) break;
+  }
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await sb()
+      .from('sms_direct_sends')
+      .select('session_id')
+      .gte('created_at', sinceIso)
+      .order('id')
+      .range(from, from + PAGE - 1);
+    if (error) throw error;
+    for (const r of data || []) ids.add(r.session_id);
+    if (!data || data.length < PAGE) break;
+  }
+  return [...ids];
+}
+
 // Admin / audit
 export async function listOutboxRecent(limit = 200) {
   const { data, error } = await sb()
@@ -563,3 +687,163 @@ export async function listOutboxRecent(limit = 200) {
   if (error) throw error;
   return (data || []).map(mapOutbox);
 }
+
+// ============================================================
+// sms_direct_sends (one-off SMS, for the quota)
+// ============================================================
+
+export type DirectSmsKind = 'waitlist-offer' | 'match-updated' | 'inbound-reply';
+
+/** Record one SMS the gateway accepted outside the round dispatch */
+export async function recordDirectSms(p: {
+  kind: DirectSmsKind;
+  sessionId: string;
+  participantId?: string | null;
+  roundId?: string | null;
+  recipient: string;
+  provider?: string | null;
+  providerMessageId?: string | null;
+}) {
+  const { error } = await sb()
+    .from('sms_direct_sends')
+    .insert({
+      kind: p.kind,
+      session_id: p.sessionId,
+      participant_id: p.participantId ?? null,
+      round_id: p.roundId ?? null,
+      recipient: p.recipient,
+      provider: p.provider ?? null,
+      provider_message_id: p.providerMessageId ?? null,
+    });
+  if (error) throw error;
+}
+
+// ============================================================
+// sms_inbound
+// ============================================================
+
+export type InboundOutcome =
+  | 'confirmed' | 'cancelled' | 'stopped' | 'resumed' | 'not-possible' | 'no-round' | 'help' | 'unknown-number';
+
+/**
+ * Log an incoming text. Returns the row id, or null when this provider
+ * message id was already logged (a webhook retry) — the caller must then
+ * not act on it again.
+ */
+export async function insertInboundSms(p: {
+  provider: string;
+  providerMessageId: string;
+  fromNumber: string;
+  body: string;
+  intent: string;
+}): Promise<string | null> {
+  const { data, error } = await sb()
+    .from('sms_inbound')
+    .upsert({
+      provider: p.provider,
+      provider_message_id: p.providerMessageId,
+      from_number: p.fromNumber,
+      body: p.body.slice(0, 1600),
+      intent: p.intent,
+    }, { onConflict: 'provider,provider_message_id', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw error;
+  return data?.[0]?.id ?? null;
+}
+
+export async function completeInboundSms(id: string, p: {
+  outcome: InboundOutcome;
+  participantId?: string | null;
+  sessionId?: string | null;
+  roundId?: string | null;
+  reply?: string | null;
+}) {
+  const { error } = await sb()
+    .from('sms_inbound')
+    .update({
+      outcome: p.outcome,
+      participant_id: p.participantId ?? null,
+      session_id: p.sessionId ?? null,
+      round_id: p.roundId ?? null,
+      reply: p.reply ?? null,
+    })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function listInboundSmsByNumber(fromNumber: string, limit = 50) {
+  const { data, error } = await sb()
+    .from('sms_inbound')
+    .select('*')
+    .eq('from_number', fromNumber)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data || [];
+}
+
+// ============================================================
+// sms_suppressions
+// ============================================================
+
+export type SuppressionReason = 'stop-reply' | 'admin';
+
+export interface SmsSuppression {
+  phone: string;
+  reason: SuppressionReason;
+  note: string | null;
+  createdAt: string;
+}
+
+/** The subset of `numbers` (E.164) that must not get SMS */
+export async function getSuppressedNumbers(numbers: string[]): Promise<Set<string>> {
+  const suppressed = new Set<string>();
+  const unique = [...new Set(numbers.filter(Boolean))];
+  for (let i = 0; i < unique.length; i += 500) {
+    const { data, error } = await sb()
+      .from('sms_suppressions')
+      .select('phone_e164')
+      .in('phone_e164', unique.slice(i, i + 500));
+    if (error) throw error;
+    for (const row of data || []) suppressed.add(row.phone_e164);
+  }
+  return suppressed;
+}
+
+export async function isSmsSuppressed(phone: string): Promise<boolean> {
+  return (await getSuppressedNumbers([phone])).has(phone);
+}
+
+/** Idempotent: an existing entry keeps its original reason and date */
+export async function addSmsSuppression(phone: string, reason: SuppressionReason, note: string | null = null) {
+  const { error } = await sb()
+    .from('sms_suppressions')
+    .upsert({ phone_e164: phone, reason, note }, { onConflict: 'phone_e164', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+/** Returns whether the number was on the list */
+export async function removeSmsSuppression(phone: string): Promise<boolean> {
+  const { data, error } = await sb()
+    .from('sms_suppressions')
+    .delete()
+    .eq('phone_e164', phone)
+    .select('phone_e164');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+export async function listSmsSuppressions(limit = 500): Promise<SmsSuppression[]> {
+  const { data, error } = await sb()
+    .from('sms_suppressions')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map((r: any) => ({
+    phone: r.phone_e164,
+    reason: r.reason,
+    note: r.note,
+    createdAt: r.created_at,
+  }));
+}
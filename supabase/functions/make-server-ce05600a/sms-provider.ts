@@ -0,0 +1,168 @@
+/**
+ * SMS PROVIDER INTERFACE
+ * What sms.tsx needs from an SMS gateway: send one message, send many, and
+ * make sense of the gateway's webhooks (verify they really come from the
+ * gateway, parse delivery reports into our delivery statuses and replies
+ * into InboundSms).
+ *
+ * Implementations: sms-twilio.ts, sms-vonage.ts and sms-fake.ts (in-process,
+ * for local runs and the e2e scenarios). sms.tsx picks one per SMS_PROVIDER.
+ */
+
+export type SmsProviderName = 'twilio' | 'vonage' | 'fake';
+
+export interface OutgoingSms {
+  /** Recipient, E.164 preferred; local Slovak numbers are normalized */
+  to: string;
+  body: string;
+  /** Where the provider should send delivery reports for this message */
+  statusCallback?: string;
+}
+
+export interface SendSmsResult {
+  success: boolean;
+  /** The provider's message id (stored in sms_outbox.twilio_sid for every provider) */
+  sid?: string;
+  provider?: SmsProviderName;
+  error?: string;
+  /** True when nothing was sent because the provider has no credentials */
+  devMode?: boolean;
+  /** True when nothing was sent because the number is on the opt-out list */
+  suppressed?: boolean;
+  /** True when nothing was sent because the organizer's monthly SMS quota is used up */
+  overQuota?: boolean;
+}
+
+/** A delivery-report or inbound-message webhook as it reached us */
+export interface WebhookRequest {
+  /** The public URL the provider called, as it signed it */
+  url: string;
+  method: string;
+  /** Header names lowercased */
+  headers: Record<string, string>;
+  rawBody: string;
+  query: Record<string, string>;
+}
+
+/**
+ * Our delivery vocabulary (Twilio's, which the outbox was built on):
+ * queued/sent are intermediate, delivered/undelivered/failed are final.
+ */
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export interface DeliveryReport {
+  messageId: string;
+  status: DeliveryStatus;
+  /** The provider's own word for it, kept in sms_outbox.twilio_delivery_status */
+  providerStatus: string;
+  errorCode: string | null;
+}
+
+/** A text a participant sent to our number */
+export interface InboundSms {
+  /** Sender in E.164 */
+  from: string;
+  body: string;
+  /** The provider's id for the message; retried webhooks repeat it */
+  messageId: string;
+}
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  /** Credentials present; unconfigured providers report devMode instead of sending */
+  isConfigured(): boolean;
+  send(message: OutgoingSms): Promise<SendSmsResult>;
+  /** Results in the order of `messages` */
+  sendBulk(messages: OutgoingSms[], options?: { concurrency?: number }): Promise<SendSmsResult[]>;
+  verifyWebhook(request: WebhookRequest): Promise<boolean>;
+  /** Null for reports we don't track (e.g. Vonage "unknown") */
+  parseStatusCallback(request: WebhookRequest): DeliveryReport | null;
+  /** Null when the webhook isn't an incoming text */
+  parseInboundMessage(request: WebhookRequest): InboundSms | null;
+  /** What the inbound webhook answers; replies are sent separately via `send` */
+  inboundResponse: { contentType: string; body: string };
+}
+
+/**
+ * sendBulk for gateways without a batch endpoint: `send` in parallel chunks.
+ * None of our providers has one that keeps per-message status callbacks.
+ */
+export async function sendInChunks(
+  send: (message: OutgoingSms) => Promise<SendSmsResult>,
+  messages: OutgoingSms[],
+  concurrency = 30,
+): Promise<SendSmsResult[]> {
+  const results: SendSmsResult[] = new Array(messages.length);
+  for (let i = 0; i < messages.length; i += concurrency) {
+    await Promise.all(messages.slice(i, i + concurrency).map(async (message, j) => {
+      results[i + j] = await send(message).catch(error => ({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }));
+  }
+  return results;
+}
+
+/**
+ * Normalize phone number to E.164 format.
+ * Handles common Slovak formats:
+ *  - "0903 123 456" → "+421903123456"
+ *  - "+421 903 123 456" → "+421903123456"
+ *  - "421903123456" → "+421903123456"
+ */
+export function normalizePhoneNumber(phone: string, countryPrefix = '+421'): string {
+  // Strip spaces, dashes, parentheses
+  let cleaned = phone.replace(/[\s\-\(\)]/g, '');
+
+  // If starts with 00, replace with +
+  if (cleaned.startsWith('00')) {
+    cleaned = '+' + cleaned.slice(2);
+  }
+
+  // If starts with 0 (local format), prepend country prefix
+  if (cleaned.startsWith('0') && !cleaned.startsWith('00')) {
+    cleaned = countryPrefix + cleaned.slice(1);
+  }
+
+  // If doesn't start with +, prepend +
+  if (!cleaned.startsWith('+')) {
+    cleaned = '+' + cleaned;
+  }
+
+  return cleaned;
+}
+
+/** Form-encoded or JSON webhook body, merged over the query string */
+export function readCallbackParams(request: WebhookRequest): Record<string, string> {
+  const params: Record<string, string> = { ...request.query };
+  const body = request.rawBody.trim();
+  if (!body) return params;
+  if (body.startsWith('{')) {
+    try {
+      for (const [key, value] of Object.entries(JSON.parse(body))) {
+        if (value !== null && value !== undefined) params[key] = String(value);
+      }
+    } catch {
+      // not JSON after all; nothing to read
+    }
+    return params;
+  }
+  for (const [key, value] of new URLSearchParams(body).entries()) params[key] = value;
+  return params;
+}
+
+/** HMAC of `data` with `secret`, as raw bytes */
+export async function hmac(hash: 'SHA-1' | 'SHA-256', secret: string, data: string): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+}
+
+/** Constant-time string compare */
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
@@ -0,0 +1,59 @@
+/**
+ * SMS QUIET HOURS
+ * Non-urgent SMS (and the push that stands in for it) wait until morning
+ * instead of buzzing phones at night. Urgent ones — confirmation reminders,
+ * "starting soon", match changes, waitlist offers — go out regardless,
+ * since they are only useful right away.
+ *
+ * Hours are whole hours on the session's wall clock (participants are at
+ * the event, so its time zone is theirs). Admin → Parameters:
+ * smsQuietHoursEnabled, smsQuietHoursStart, smsQuietHoursEnd; a start after
+ * the end wraps midnight (21 → 8 is 21:00–08:00). Pure — no DB.
+ */
+
+import { getTimeZoneOffsetMinutes, getZonedDate, parseRoundStartTime } from './time-helpers.tsx';
+
+export interface QuietHours {
+  enabled: boolean;
+  /** Hour of day (0-23) quiet hours begin */
+  startHour: number;
+  /** Hour of day (0-23) quiet hours end */
+  endHour: number;
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { enabled: true, startHour: 21, endHour: 8 };
+
+export function resolveQuietHours(sysParams: any): QuietHours {
+  const hour = (value: unknown, fallback: number) =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23 ? value as number : fallback;
+  return {
+    enabled: sysParams?.smsQuietHoursEnabled !== false,
+    startHour: hour(sysParams?.smsQuietHoursStart, DEFAULT_QUIET_HOURS.startHour),
+    endHour: hour(sysParams?.smsQuietHoursEnd, DEFAULT_QUIET_HOURS.endHour),
+  };
+}
+
+/**
+ * When quiet hours end, if `now` is inside them in `timeZone`; null when
+ * sending is fine now.
+ */
+export function quietHoursEndAfter(now: Date, timeZone: string, rules: QuietHours): Date | null {
+  if (!rules.enabled || rules.startHour === rules.endHour) return null;
+
+  const offset = getTimeZoneOffsetMinutes(now, timeZone);
+  const localMinutes = (((now.getUTCHours() * 60 + now.getUTCMinutes() + offset) % 1440) + 1440) % 1440;
+  const start = rules.startHour * 60;
+  const end = rules.endHour * 60;
+  const quiet = start < end
+    ? localMinutes >= start && localMinutes < end
+    : localMinutes >= start || localMinutes < end;
+  if (!quiet) return null;
+
+  // The end hour today, or tomorrow when we're in the evening part of the window
+  const endTime = `${String(rules.endHour).padStart(2, '0')}:00`;
+  const today = getZonedDate(now, timeZone);
+  const endToday = parseRoundStartTime(today, endTime, timeZone);
+  if (endToday > now) return endToday;
+  const tomorrow = getZonedDate(new Date(now.getTime() + 24 * 60 * 60000), timeZone);
+  return parseRoundStartTime(tomorrow, endTime, timeZone);
+}
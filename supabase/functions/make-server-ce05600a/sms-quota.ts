@@ -0,0 +1,138 @@
+/**
+ * SMS QUOTA
+ * Each organizer gets a monthly SMS allowance from their billing tier. The
+ * round reminders (sms-dispatch.tsx) stop sending SMS once it is used up;
+ * those participants get the push instead, email is unaffected. Every other
+ * SMS about a session (waitlist offers, match changes, reply answers) goes
+ * through sendCountedSms(), which holds it back the same way and records it.
+ * Organizers see a warning at 80 % in Billing, admins in the notification
+ * outbox.
+ *
+ * Tier: an active subscription's, otherwise the biggest single-event credit
+ * held or used this month, otherwise free. Usage: SMS rows in the outbox and
+ * in sms_direct_sends for the organizer's sessions since the 1st of the month
+ * (UTC), including undelivered ones — the gateway charged for them.
+ */
+
+import * as db from './db.ts';
+import { errorLog } from './debug.tsx';
+import { sendSms } from './sms.tsx';
+import { type OutgoingSms, type SendSmsResult } from './sms-provider.ts';
+import { countSmsSentForSessions, listSessionIdsWithSmsSince, recordDirectSms, type DirectSmsKind } from './sms-outbox.ts';
+
+/** SMS per calendar month by capacity tier (must match smsMonthlyQuota in the frontend pricing.ts) */
+export const SMS_MONTHLY_QUOTA: Record<string, number> = {
+  free: 50,
+  '50': 500,
+  '200': 2000,
+  '500': 5000,
+  '1000': 10000,
+  '5000': 50000,
+};
+
+const WARNING_RATIO = 0.8;
+
+export interface SmsUsage {
+  organizerId: string;
+  tier: string;
+  quota: number;
+  used: number;
+  remaining: number;
+  periodStart: string;
+  periodEnd: string;
+  /** 'warning' from 80 % of the quota, 'exceeded' once it's used up */
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
+function monthPeriod(now: Date): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+async function resolveSmsTier(organizerId: string, periodStart: Date): Promise<string> {
+  const subscription = await db.getSubscription(organizerId);
+  if (subscription && ['active', 'trialing', 'past_due'].includes(subscription.status)
+    && SMS_MONTHLY_QUOTA[subscription.capacityTier] !== undefined) {
+    return subscription.capacityTier;
+  }
+
+  // Single-event customers: an event paid this month keeps its allowance after the credit is spent
+  const credits = await db.getCredits(organizerId);
+  const usedThisMonth = (await db.getCreditTransactions(organizerId))
+    .filter((t: any) => t.type === 'consumed' && t.createdAt >= periodStart.toISOString());
+  const tiers = [...credits, ...usedThisMonth]
+    .map((c: any) => c.capacityTier)
+    .filter((tier: string) => SMS_MONTHLY_QUOTA[tier] !== undefined);
+  return tiers.reduce((best: string, tier: string) =>
+    SMS_MONTHLY_QUOTA[tier] > SMS_MONTHLY_QUOTA[best] ? tier : best, 'free');
+}
+
+export async function getSmsUsage(organizerId: string, now: Date = new Date()): Promise<SmsUsage> {
+  const { start, end } = monthPeriod(now);
+  const tier = await resolveSmsTier(organizerId, start);
+  const quota = SMS_MONTHLY_QUOTA[tier];
+  const sessionIds = await db.getSessionIdsByUser(organizerId);
+  const used = sessionIds.length > 0 ? await countSmsSentForSessions(sessionIds, start.toISOString()) : 0;
+  return {
+    organizerId,
+    tier,
+    quota,
+    used,
+    remaining: Math.max(0, quota - used),
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    level: used >= quota ? 'exceeded' : used >= quota * WARNING_RATIO ? 'warning' : 'ok',
+  };
+}
+
+/** Usage of every organizer who sent SMS this month, most used share first */
+export async function listSmsUsageThisMonth(now: Date = new Date()): Promise<SmsUsage[]> {
+  const sessionIds = await listSessionIdsWithSmsSince(monthPeriod(now).start.toISOString());
+  const organizerIds = [...new Set((await db.getSessionOwners(sessionIds)).values())];
+  const usage = await Promise.all(organizerIds.map(id => getSmsUsage(id, now)));
+  return usage.sort((a, b) => b.used / b.quota - a.used / a.quota);
+}
+
+const OVER_QUOTA: SendSmsResult = { success: false, overQuota: true, error: 'Monthly SMS quota reached' };
+
+/**
+ * Send one SMS outside the round dispatch, against the quota of the
+ * organizer who owns `sessionId`: nothing goes out once it is used up, and
+ * each SMS the gateway takes is recorded for the next check. Without a
+ * session there is no one to charge, so it is sent uncounted. `send` is
+ * sendSms() unless the caller must use a specific provider.
+ */
+export async function sendCountedSms(p: {
+  kind: DirectSmsKind;
+  organizerId: string | null | undefined;
+  sessionId: string | null | undefined;
+  participantId?: string | null;
+  roundId?: string | null;
+  message: OutgoingSms;
+  send?: (message: OutgoingSms) => Promise<SendSmsResult>;
+}, now: Date = new Date()): Promise<SendSmsResult> {
+  const send = p.send || sendSms;
+  if (!p.organizerId || !p.sessionId) return send(p.message);
+
+  const usage = await getSmsUsage(p.organizerId, now);
+  if (usage.remaining <= 0) {
+    errorLog(`SMS quota (${usage.quota}/month, tier ${usage.tier}) reached for organizer ${p.organizerId}: ${p.kind} SMS to ${p.message.to} not sent`);
+    return OVER_QUOTA;
+  }
+
+  const result = await send(p.message);
+  if (result.success) {
+    await recordDirectSms({
+      kind: p.kind,
+      sessionId: p.sessionId,
+      participantId: p.participantId,
+      roundId: p.roundId,
+      recipient: p.message.to,
+      provider: result.provider,
+      providerMessageId: result.sid,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,73 @@
+/**
+ * SMS REPLY PARSING
+ * Reads what a participant texted back to a reminder as YES (confirm the
+ * round), NO (cancel it), STOP (no more SMS), START (SMS again after a STOP)
+ * or unknown.
+ *
+ * Only the first word counts, case, diacritics and punctuation ignored, so
+ * "Áno!", "yes please" and "OK, see you" are all YES. The synonyms cover the
+ * languages our events run in (Slovak, Czech, Polish, Hungarian, German, and
+ * the usual neighbours). Pure — no DB, no env.
+ *
+ * A NO cancels the registration for good, so "no" and "n" only count when
+ * they are the whole reply: "No problem, see you" is not a NO, and in Czech
+ * and Slovak "No jasně" / "No jo" means yes. CANCEL is a carrier opt-out
+ * keyword like STOP (Twilio blocks the number on it), so it reads as STOP.
+ */
+
+export type SmsReplyIntent = 'yes' | 'no' | 'stop' | 'start' | 'unknown';
+
+const SYNONYMS: Record<Exclude<SmsReplyIntent, 'unknown'>, string[]> = {
+  yes: [
+    'yes', 'y', 'yeah', 'yep', 'yup', 'ok', 'okay', 'confirm', 'confirmed',
+    'ano', 'jj', 'hej', 'potvrdzujem', 'potvrzuji', // sk / cz
+    'tak', // pl
+    'igen', // hu
+    'ja', 'jo', 'jawohl', // de / at
+    'oui', 'si', 'da', 'sim',
+    '👍', '✅',
+  ],
+  no: [
+    'nope',
+    'nie', 'ne', 'nechcem', 'zrusit', // sk / cz / pl
+    'nem', // hu
+    'nein', // de
+    'non', 'nao',
+    '👎', '❌',
+  ],
+  stop: [
+    'stop', 'stopp', 'unsubscribe', 'end', 'quit', 'cancel', 'optout',
+    'koniec', 'odhlasit', 'konec', // sk / cz
+  ],
+  start: ['start', 'unstop', 'resume', 'subscribe'],
+};
+
+/** NO words too ambiguous as the start of a longer reply */
+const WHOLE_REPLY_NO = ['no', 'n'];
+
+const LOOKUP = new Map<string, SmsReplyIntent>(
+  (Object.entries(SYNONYMS) as Array<[SmsReplyIntent, string[]]>)
+    .flatMap(([intent, words]) => words.map(word => [word, intent] as [string, SmsReplyIntent])),
+);
+
+/** The words of `text`, lowercased, without diacritics or punctuation */
+function splitWords(text: string): string[] {
+  const normalized = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+  return normalized.split(/[\s.,;:!?()"'-]+/).filter(w => w.length > 0);
+}
+
+/** The lookup key of one word: "👍👍" or "👍🏻", an emoji reply counts by its first symbol */
+function keyOf(word: string): string {
+  const symbol = Array.from(word)[0] || '';
+  return !LOOKUP.has(word) && !/\p{L}/u.test(symbol) ? symbol : word;
+}
+
+export function parseSmsReply(text: string): SmsReplyIntent {
+  const replyWords = splitWords(text);
+  if (replyWords.length === 1 && WHOLE_REPLY_NO.includes(replyWords[0])) return 'no';
+  return LOOKUP.get(keyOf(replyWords[0] || '')) || 'unknown';
+}
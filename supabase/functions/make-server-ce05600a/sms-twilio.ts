@@ -0,0 +1,187 @@
+/**
+ * TWILIO SMS PROVIDER
+ * https://www.twilio.com/docs/messaging/api/message-resource#create-a-message-resource
+ *
+ * Credentials: TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN. Messages go out under
+ * the alphanumeric sender id "Wonderelo", or from TWILIO_FROM_NUMBER when set
+ * — alphanumeric senders can't be replied to, so two-way SMS needs a number
+ * whose "A message comes in" webhook points at /sms/inbound/twilio.
+ * Delivery reports and incoming messages are form posts signed with the auth
+ * token (X-Twilio-Signature).
+ */
+
+import {
+  sendInChunks,
+  normalizePhoneNumber,
+  readCallbackParams,
+  hmac,
+  safeEqual,
+  type SmsProvider,
+  type OutgoingSms,
+  type SendSmsResult,
+  type WebhookRequest,
+  type DeliveryReport,
+  type DeliveryStatus,
+  type InboundSms,
+} from './sms-provider.ts';
+
+const SENDER_ID = 'Wonderelo';
+
+function getTwilioCredentials(): { accountSid: string; authToken: string } | null {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+
+  if (!accountSid || !authToken) {
+    return null;
+  }
+
+  return { accountSid, authToken };
+}
+
+/**
+ * Send a single SMS via Twilio with retry on 429 (rate limit) and 5xx errors.
+ *
+ * Retries up to 3 times with exponential backoff (200ms, 600ms, 1800ms) for
+ * 429 / 5xx. 4xx other than 429 are permanent failures and not retried.
+ */
+async function sendTwilioSms(params: OutgoingSms): Promise<SendSmsResult> {
+  const credentials = getTwilioCredentials();
+
+  if (!credentials) {
+    console.log('⚠️ Twilio credentials not set - SMS not sent');
+    console.log('  To:', params.to);
+    console.log('  Body:', params.body.substring(0, 50) + '...');
+    return { success: false, provider: 'twilio', error: 'Twilio credentials not configured', devMode: true };
+  }
+
+  const { accountSid, authToken } = credentials;
+  const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+  const toNumber = normalizePhoneNumber(params.to);
+
+  const MAX_ATTEMPTS = 3;
+  let lastError = 'unknown';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(twilioUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': 'Basic ' + btoa(`${accountSid}:${authToken}`),
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: (() => {
+          const p: Record<string, string> = { To: toNumber, From: Deno.env.get('TWILIO_FROM_NUMBER') || SENDER_ID, Body: params.body };
+          if (params.statusCallback) p.StatusCallback = params.statusCallback;
+          return new URLSearchParams(p).toString();
+        })(),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        if (attempt > 1) console.log(`✅ SMS sent via Twilio (after ${attempt} attempts):`, data.sid);
+        return { success: true, sid: data.sid, provider: 'twilio' };
+      }
+
+      const isRetriable = response.status === 429 || response.status >= 500;
+      lastError = data.message || `Twilio error ${data.code} (status ${response.status})`;
+
+      if (!isRetriable || attempt === MAX_ATTEMPTS) {
+        if (response.status === 429) console.error(`⚠️ Twilio 429 rate limit (gave up after ${attempt} attempts):`, lastError);
+        else console.error('❌ Twilio API error:', data);
+        return { success: false, provider: 'twilio', error: lastError };
+      }
+
+      // Exponential backoff: 200ms, 600ms (capped before 3rd attempt)
+      const backoff = 200 * Math.pow(3, attempt - 1);
+      console.log(`⏳ Twilio ${response.status} on attempt ${attempt}, retrying in ${backoff}ms`);
+      await new Promise(r => setTimeout(r, backoff));
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (attempt === MAX_ATTEMPTS) {
+        console.error('💥 SMS sending exception (gave up):', error);
+        return { success: false, provider: 'twilio', error: lastError };
+      }
+      const backoff = 200 * Math.pow(3, attempt - 1);
+      await new Promise(r => setTimeout(r, backoff));
+    }
+  }
+
+  return { success: false, provider: 'twilio', error: lastError };
+}
+
+/**
+ * Verify that a webhook request came from Twilio.
+ * Docs: https://www.twilio.com/docs/usage/webhooks/webhooks-security
+ *
+ * 1. Concatenate full URL (incl. https://…) + sorted POST params.
+ * 2. HMAC-SHA1 with TWILIO_AUTH_TOKEN.
+ * 3. Base64 encode; compare to X-Twilio-Signature header.
+ */
+export async function verifyTwilioSignature(
+  signatureHeader: string | null,
+  fullUrl: string,
+  params: Record<string, string>,
+): Promise<boolean> {
+  if (!signatureHeader) return false;
+  const creds = getTwilioCredentials();
+  if (!creds) return false;
+
+  const sortedKeys = Object.keys(params).sort();
+  let data = fullUrl;
+  for (const k of sortedKeys) data += k + params[k];
+
+  const signature = await hmac('SHA-1', creds.authToken, data);
+  return safeEqual(btoa(String.fromCharCode(...signature)), signatureHeader);
+}
+
+// https://www.twilio.com/docs/messaging/api/message-resource#message-status-values
+const TWILIO_STATUSES: Record<string, DeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'sent',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+export const twilioProvider: SmsProvider = {
+  name: 'twilio',
+  isConfigured: () => getTwilioCredentials() !== null,
+  send: sendTwilioSms,
+  sendBulk: (messages, options = {}) => sendInChunks(sendTwilioSms, messages, options.concurrency),
+
+  verifyWebhook: (request: WebhookRequest) => verifyTwilioSignature(
+    request.headers['x-twilio-signature'] || null,
+    request.url,
+    Object.fromEntries(new URLSearchParams(request.rawBody).entries()),
+  ),
+
+  parseStatusCallback(request: WebhookRequest): DeliveryReport | null {
+    const params = readCallbackParams(request);
+    const status = TWILIO_STATUSES[params.MessageStatus];
+    if (!params.MessageSid || !status) return null;
+    return {
+      messageId: params.MessageSid,
+      status,
+      providerStatus: params.MessageStatus,
+      errorCode: params.ErrorCode || null,
+    };
+  },
+
+  parseInboundMessage(request: WebhookRequest): InboundSms | null {
+    const params = readCallbackParams(request);
+    if (!params.MessageSid || !params.From) return null;
+    return { from: normalizePhoneNumber(params.From), body: params.Body || '', messageId: params.MessageSid };
+  },
+
+  // Empty TwiML: no automatic reply, we send our own
+  inboundResponse: {
+    contentType: 'text/xml',
+    body: '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+  },
+};
@@ -0,0 +1,169 @@
+/**
+ * VONAGE SMS PROVIDER
+ * https://developer.vonage.com/en/api/sms
+ *
+ * Credentials: VONAGE_API_KEY / VONAGE_API_SECRET; sender VONAGE_FROM
+ * (default "Wonderelo"). Usually cheaper than Twilio for EU numbers.
+ *
+ * Delivery receipts and inbound messages (the number's inbound webhook goes
+ * to /sms/inbound/vonage) arrive as GET or POST (form or JSON, per the
+ * dashboard setting) and must be signed: enable "signed webhooks" with
+ * HMAC-SHA256 and put the signature secret in VONAGE_SIGNATURE_SECRET.
+ * Unsigned webhooks are rejected. Replies need VONAGE_FROM to be that number.
+ */
+
+import {
+  sendInChunks,
+  normalizePhoneNumber,
+  readCallbackParams,
+  hmac,
+  safeEqual,
+  type SmsProvider,
+  type OutgoingSms,
+  type SendSmsResult,
+  type WebhookRequest,
+  type DeliveryReport,
+  type DeliveryStatus,
+  type InboundSms,
+} from './sms-provider.ts';
+
+const VONAGE_URL = 'https://rest.nexmo.com/sms/json';
+
+function getVonageCredentials(): { apiKey: string; apiSecret: string } | null {
+  const apiKey = Deno.env.get('VONAGE_API_KEY');
+  const apiSecret = Deno.env.get('VONAGE_API_SECRET');
+  if (!apiKey || !apiSecret) return null;
+  return { apiKey, apiSecret };
+}
+
+// Per-message status codes that are worth another try: 1 = throttled, 5 = internal error
+// https://developer.vonage.com/en/messaging/sms/guides/troubleshooting-sms#sms-api-error-codes
+const RETRIABLE_STATUSES = ['1', '5'];
+
+/**
+ * Send a single SMS via Vonage. Same retry policy as Twilio: up to 3 attempts
+ * with 200ms / 600ms backoff on throttling and server errors.
+ */
+async function sendVonageSms(params: OutgoingSms): Promise<SendSmsResult> {
+  const credentials = getVonageCredentials();
+  if (!credentials) {
+    console.log('⚠️ Vonage credentials not set - SMS not sent');
+    console.log('  To:', params.to);
+    return { success: false, provider: 'vonage', error: 'Vonage credentials not configured', devMode: true };
+  }
+
+  const payload: Record<string, unknown> = {
+    api_key: credentials.apiKey,
+    api_secret: credentials.apiSecret,
+    from: Deno.env.get('VONAGE_FROM') || 'Wonderelo',
+    // Vonage wants the number without the leading +
+    to: normalizePhoneNumber(params.to).slice(1),
+    text: params.body,
+    // Diacritics need UCS-2; plain text keeps the cheaper GSM encoding
+    ...(/[^\x00-\x7F]/.test(params.body) ? { type: 'unicode' } : {}),
+  };
+  if (params.statusCallback) {
+    payload.callback = params.statusCallback;
+    payload['status-report-req'] = true;
+  }
+
+  const MAX_ATTEMPTS = 3;
+  let lastError = 'unknown';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(VONAGE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      let retriable = response.status === 429 || response.status >= 500;
+      if (response.ok) {
+        const data = await response.json();
+        // Long texts are split into parts; the first part's id tracks the message
+        const first = data.messages?.[0];
+        if (first?.status === '0') {
+          return { success: true, sid: first['message-id'], provider: 'vonage' };
+        }
+        lastError = first?.['error-text'] || `Vonage status ${first?.status ?? 'missing'}`;
+        retriable = RETRIABLE_STATUSES.includes(first?.status);
+      } else {
+        lastError = `Vonage HTTP ${response.status}`;
+      }
+
+      if (!retriable || attempt === MAX_ATTEMPTS) {
+        console.error(`❌ Vonage API error (attempt ${attempt}):`, lastError);
+        return { success: false, provider: 'vonage', error: lastError };
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (attempt === MAX_ATTEMPTS) {
+        console.error('💥 Vonage SMS exception (gave up):', error);
+        return { success: false, provider: 'vonage', error: lastError };
+      }
+    }
+    await new Promise(r => setTimeout(r, 200 * Math.pow(3, attempt - 1)));
+  }
+
+  return { success: false, provider: 'vonage', error: lastError };
+}
+
+/**
+ * Signed webhook check: HMAC-SHA256 over "&key=value" for every parameter
+ * but `sig`, sorted by key, with & and = in values replaced by _.
+ * https://developer.vonage.com/en/getting-started/concepts/signing-messages
+ */
+export async function verifyVonageSignature(params: Record<string, string>): Promise<boolean> {
+  const secret = Deno.env.get('VONAGE_SIGNATURE_SECRET');
+  if (!secret || !params.sig) return false;
+
+  let data = '';
+  for (const key of Object.keys(params).filter(k => k !== 'sig').sort()) {
+    data += `&${key}=${params[key].replace(/[&=]/g, '_')}`;
+  }
+  const signature = await hmac('SHA-256', secret, data);
+  const hex = Array.from(signature, b => b.toString(16).padStart(2, '0')).join('');
+  return safeEqual(hex, params.sig.toLowerCase());
+}
+
+// https://developer.vonage.com/en/messaging/sms/guides/delivery-receipts
+const VONAGE_STATUSES: Record<string, DeliveryStatus> = {
+  accepted: 'sent',
+  buffered: 'sent',
+  delivered: 'delivered',
+  expired: 'undelivered',
+  failed: 'failed',
+  rejected: 'failed',
+};
+
+export const vonageProvider: SmsProvider = {
+  name: 'vonage',
+  isConfigured: () => getVonageCredentials() !== null,
+  send: sendVonageSms,
+  sendBulk: (messages, options = {}) => sendInChunks(sendVonageSms, messages, options.concurrency),
+
+  verifyWebhook: (request: WebhookRequest) => verifyVonageSignature(readCallbackParams(request)),
+
+  parseStatusCallback(request: WebhookRequest): DeliveryReport | null {
+    const params = readCallbackParams(request);
+    const status = VONAGE_STATUSES[params.status];
+    if (!params.messageId || !status) return null;
+    const errorCode = params['err-code'];
+    return {
+      messageId: params.messageId,
+      status,
+      providerStatus: params.status,
+      errorCode: errorCode && errorCode !== '0' ? errorCode : null,
+    };
+  },
+
+  // https://developer.vonage.com/en/messaging/sms/guides/inbound-sms
+  parseInboundMessage(request: WebhookRequest): InboundSms | null {
+    const params = readCallbackParams(request);
+    if (!params.messageId || !params.msisdn) return null;
+    return { from: normalizePhoneNumber(params.msisdn), body: params.text || '', messageId: params.messageId };
+  },
+
+  inboundResponse: { contentType: 'application/json', body: '{}' },
+};
@@ -4,29 +4,74 @@
  */
 
 /**
- * Get the UTC offset for Central European Time, accounting for DST.
- * CET = UTC+1 (winter), CEST = UTC+2 (summer/DST)
- * DST runs from last Sunday of March at 01:00 UTC to last Sunday of October at 01:00 UTC.
+ * Time zone every session used before sessions had their own (Central
+ * European Time, DST-aware). Sessions without a valid time_zone keep it.
  */
-export function getCETOffsetHours(date: Date): number {
-  const year = date.getUTCFullYear();
-  // Last Sunday of March: start from March 31, walk back to Sunday
-  const march31 = new Date(Date.UTC(year, 2, 31));
-  const dstStart = new Date(Date.UTC(year, 2, 31 - march31.getUTCDay(), 1, 0, 0));
-  // Last Sunday of October: start from October 31, walk back to Sunday
-  const oct31 = new Date(Date.UTC(year, 9, 31));
-  const dstEnd = new Date(Date.UTC(year, 9, 31 - oct31.getUTCDay(), 1, 0, 0));
-  return (date >= dstStart && date < dstEnd) ? 2 : 1;
+export const DEFAULT_TIME_ZONE = 'Europe/Bratislava';
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The session's IANA time zone, or the default for sessions without a valid one */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
 }
 
-// Parse round start time from date and time strings (DST-aware)
-export function parseRoundStartTime(date: string, startTime: string): Date {
+/** Offset of `timeZone` from UTC at the given instant, in minutes (CEST = 120) */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Parse round start time from date and time strings, as wall-clock time in
+ * the session's time zone (DST-aware). Times skipped by a DST jump resolve
+ * to the instant after the jump.
+ */
+export function parseRoundStartTime(date: string, startTime: string, timeZone: string = DEFAULT_TIME_ZONE): Date {
   const [year, month, day] = date.split('-').map(Number);
   const [hours, minutes] = startTime.split(':').map(Number);
-  // Build a rough UTC date to determine DST status, then apply correct offset
-  const roughUtc = new Date(Date.UTC(year, month - 1, day, hours, minutes, 0, 0));
-  const offset = getCETOffsetHours(roughUtc);
-  return new Date(Date.UTC(year, month - 1, day, hours - offset, minutes, 0, 0));
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, 0, 0);
+  // Offset at the rough instant, then re-check at the corrected one (DST edges)
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+}
+
+/** Wall-clock date ("YYYY-MM-DD") in `timeZone` at the given instant */
+export function getZonedDate(at: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, year: 'numeric', month: '2-digit', day: '2-digit',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+/** Short zone name for emails and SMS, e.g. "CEST", "EDT" or "GMT+9" */
+export function getTimeZoneLabel(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(at);
+  return parts.find(p => p.type === 'timeZoneName')?.value || timeZone;
+}
+
+/** "18:00 CEST" — a round's wall-clock start labelled with its zone (emails) */
+export function formatZonedStartTime(date: string | null | undefined, startTime: string, timeZone: string): string {
+  const at = date && /^\d{4}-\d{2}-\d{2}$/.test(date) && /^\d{1,2}:\d{2}$/.test(startTime)
+    ? parseRoundStartTime(date, startTime, timeZone)
+    : new Date();
+  return `${startTime} ${getTimeZoneLabel(timeZone, at)}`;
 }
 
 /**
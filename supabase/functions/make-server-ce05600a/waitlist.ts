@@ -0,0 +1,390 @@
+/**
+ * WAITLIST
+ * Per-round queue for rounds with a participant limit: the round's own
+ * maxParticipants, else the session's (limitParticipants + maxParticipants).
+ *
+ *   - register:  a full round (or one with people already waiting) puts the
+ *                participant in line with their registration choices
+ *   - promote:   when a spot frees up — unregistration, 'unconfirmed' at T-0,
+ *                an expired or declined offer — the first person waiting gets
+ *                an offer (email + SMS) that holds the spot until a deadline
+ *   - claim:     the offer becomes a registration; after T-0 it is created
+ *                'confirmed' so the round's late-arrival matching picks it up
+ *   - expire:    POST /cron/waitlist-offers releases unclaimed offers and
+ *                offers the spots to the next in line
+ *
+ * A spot is taken by every registration that isn't 'cancelled' or
+ * 'unconfirmed', plus every open offer. Offers never outlive the start of
+ * networking (T-0 + walking + finding time).
+ */
+
+import * as db from './db.ts';
+import { debugLog, errorLog } from './debug.tsx';
+import { parseRoundStartTime, resolveTimeZone, formatZonedStartTime, getTimeZoneLabel } from './time-helpers.tsx';
+import { renderSmsTemplate } from './sms.tsx';
+import { sendEmail, buildWaitlistOfferEmail } from './email.tsx';
+import { composeE164 } from './sms-dispatch.tsx';
+import { sendCountedSms } from './sms-quota.ts';
+import { type NotificationChannel } from './sms-outbox.ts';
+
+export const DEFAULT_WAITLIST_CLAIM_MINUTES = 60;
+
+const DEFAULT_WAITLIST_OFFER_SMS = 'Hi {name}! A spot opened up in "{sessionName}" ({roundName}). Claim it by {deadline}: {link}';
+
+/** Registration statuses that no longer hold a spot */
+const RELEASED_STATUSES = ['cancelled', 'unconfirmed'];
+
+export interface WaitlistPreferences {
+  team?: string | null;
+  role?: string | null;
+  topics?: string[];
+  answers?: Record<string, any>;
+  meetingPoint?: string | null;
+}
+
+export interface RoundAvailability {
+  capacity: number;
+  taken: number;
+  waiting: number;
+}
+
+type WaitlistEntry = Awaited<ReturnType<typeof db.getWaitlistForRound>>[number];
+
+/** Participants the round takes — its own limit wins over the session's — or null when unlimited */
+export function getRoundCapacity(session: any, round: any): number | null {
+  if (round?.maxParticipants) return round.maxParticipants;
+  return session?.limitParticipants ? (session.maxParticipants || 20) : null;
+}
+
+/**
+ * Seats the organizer's plan has to cover (checkCapacity, event credits):
+ * the biggest round, or the session's maxParticipants while some round
+ * has no limit of its own.
+ */
+export function getSessionSeatLimit(session: any): number {
+  const roundLimits = (session?.rounds || []).map((r: any) => r.maxParticipants || 0);
+  const sessionLimit = session?.maxParticipants || 10;
+  if (roundLimits.length > 0 && roundLimits.every((limit: number) => limit > 0)) {
+    return Math.max(...roundLimits);
+  }
+  return Math.max(sessionLimit, ...roundLimits);
+}
+
+/**
+ * Taken spots and queue length of every limited round of the session.
+ * Null when no round has a limit.
+ */
+export async function getRoundAvailability(session: any): Promise<Map<string, RoundAvailability> | null> {
+  const limitedRounds = (session?.rounds || []).filter((r: any) => getRoundCapacity(session, r) !== null);
+  if (limitedRounds.length === 0) return null;
+
+  const registrations = await db.getRegistrationsForSession(session.id);
+  const availability = new Map<string, RoundAvailability>();
+  for (const round of limitedRounds) {
+    const entries = await db.getWaitlistForRound(round.id);
+    availability.set(round.id, {
+      capacity: getRoundCapacity(session, round)!,
+      taken: registrations.filter((r: any) => r.round_id === round.id && !RELEASED_STATUSES.includes(r.status)).length
+        + entries.filter(e => e.status === 'offered').length,
+      waiting: entries.filter(e => e.status === 'waiting').length,
+    });
+  }
+  return availability;
+}
+
+/** Whether a new registration for the round has to queue */
+export function mustJoinWaitlist(availability: RoundAvailability | undefined): boolean {
+  return !!availability && (availability.waiting > 0 || availability.taken >= availability.capacity);
+}
+
+/** Seats a newcomer can still take without queueing, or null for unlimited rounds */
+export function getSeatsLeft(availability: RoundAvailability | undefined): number | null {
+  if (!availability) return null;
+  return mustJoinWaitlist(availability) ? 0 : availability.capacity - availability.taken;
+}
+
+/** Put a participant in line for a round; returns their position */
+export async function joinWaitlist(
+  session: any,
+  roundId: string,
+  participantId: string,
+  preferences: WaitlistPreferences,
+): Promise<number> {
+  const existing = await db.getWaitlistEntry(participantId, roundId);
+  if (!existing || !['waiting', 'offered'].includes(existing.status)) {
+    await db.upsertWaitlistEntry({
+      sessionId: session.id,
+      roundId,
+      participantId,
+      organizerId: session.userId,
+      preferences,
+    });
+  }
+  const entries = await db.getWaitlistForRound(roundId);
+  return entries.filter(e => e.status === 'waiting').findIndex(e => e.participantId === participantId) + 1;
+}
+
+async function getSystemParameters() {
+  return (await db.getAdminSetting('system_parameters')) || {};
+}
+
+/** Start of networking: the latest moment a claimed spot can still be matched */
+function getLastClaimTime(session: any, round: any, sysParams: any): Date | null {
+  const date = round.date || session.date;
+  if (!date || !round.startTime || round.startTime === 'TBD' || round.startTime === 'To be set') return null;
+  const roundStart = parseRoundStartTime(date, round.startTime, resolveTimeZone(session.timeZone));
+  const walkingTimeMs = (sysParams.walkingTimeMinutes ?? 3) * 60000;
+  const findingTimeMs = (sysParams.findingTimeMinutes ?? 1) * 60000;
+  return new Date(roundStart.getTime() + walkingTimeMs + findingTimeMs);
+}
+
+/** "Tue 20 Oct, 18:30 CEST" in the session's zone (emails and SMS) */
+function formatDeadline(at: Date, timeZone: string): string {
+  const text = new Intl.DateTimeFormat('en-GB', {
+    timeZone, weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false,
+  }).format(at);
+  return `${text} ${getTimeZoneLabel(timeZone, at)}`;
+}
+
+/**
+ * Offer the round's free spots to the people first in line. Releases
+ * offers that ran out first, so their spots go round again. Returns the
+ * participant IDs that got an offer.
+ */
+export async function promoteFromWaitlist(sessionId: string, roundId: string, now: Date): Promise<string[]> {
+  const session = await db.getSessionById(sessionId);
+  const round = session?.rounds?.find((r: any) => r.id === roundId);
+  if (!session || !round) return [];
+
+  const sysParams = await getSystemParameters();
+  const lastClaimTime = getLastClaimTime(session, round, sysParams);
+  if (lastClaimTime && now >= lastClaimTime) return [];
+
+  let entries = await db.getWaitlistForRound(roundId);
+  const stale = entries.filter(e => e.status === 'offered' && e.offerExpiresAt && new Date(e.offerExpiresAt) <= now);
+  for (const entry of stale) {
+    await db.transitionWaitlistEntry(entry.id, 'offered', 'expired');
+  }
+  if (stale.length > 0) entries = await db.getWaitlistForRound(roundId);
+
+  const registrations = (await db.getRegistrationsForSession(sessionId)).filter((r: any) => r.round_id === roundId);
+  const registered = new Set(registrations.map((r: any) => r.participant_id));
+
+  // Registered in the meantime (e.g. through a series subscription) — out of the queue
+  const queue: WaitlistEntry[] = [];
+  for (const entry of entries.filter(e => e.status === 'waiting')) {
+    if (registered.has(entry.participantId)) {
+      await db.transitionWaitlistEntry(entry.id, 'waiting', 'cancelled');
+    } else {
+      queue.push(entry);
+    }
+  }
+  if (queue.length === 0) return [];
+
+  const capacity = getRoundCapacity(session, round);
+  const taken = registrations.filter((r: any) => !RELEASED_STATUSES.includes(r.status)).length
+    + entries.filter(e => e.status === 'offered').length;
+  const free = capacity === null ? queue.length : Math.max(0, capacity - taken);
+  if (free === 0) return [];
+
+  const claimMs = (sysParams.waitlistClaimMinutes ?? DEFAULT_WAITLIST_CLAIM_MINUTES) * 60000;
+  const expiresAt = new Date(Math.min(
+    now.getTime() + claimMs,
+    lastClaimTime ? lastClaimTime.getTime() : Infinity,
+  ));
+
+  const offered: WaitlistEntry[] = [];
+  for (const entry of queue.slice(0, free)) {
+    const ok = await db.transitionWaitlistEntry(entry.id, 'waiting', 'offered', {
+      offeredAt: now.toISOString(),
+      offerExpiresAt: expiresAt.toISOString(),
+    });
+    if (ok) offered.push(entry);
+  }
+
+  if (offered.length > 0) {
+    await notifyWaitlistOffer(session, round, offered, expiresAt);
+    debugLog(`🎟️ Waitlist: offered ${offered.length} spot(s) in round ${roundId} until ${expiresAt.toISOString()}`);
+  }
+  return offered.map(e => e.participantId);
+}
+
+/**
+ * Turn an open offer into a registration. `lateArrival` means the round
+ * already started: the registration is 'confirmed' and the caller must
+ * re-run matching for the round.
+ */
+export async function claimWaitlistOffer(
+  participantId: string,
+  roundId: string,
+  now: Date,
+): Promise<{ success: true; sessionId: string; status: string; lateArrival: boolean } | { success: false; error: string; status: 400 | 404 | 410 }> {
+  const entry = await db.getWaitlistEntry(participantId, roundId);
+  if (!entry) return { success: false, error: 'You are not on the waitlist for this round', status: 404 };
+  if (entry.status !== 'offered') return { success: false, error: 'There is no open spot for you in this round yet', status: 400 };
+
+  const session = await db.getSessionById(entry.sessionId);
+  const round = session?.rounds?.find((r: any) => r.id === roundId);
+  if (!session || !round) return { success: false, error: 'Round not found', status: 404 };
+
+  if (entry.offerExpiresAt && new Date(entry.offerExpiresAt) <= now) {
+    await db.transitionWaitlistEntry(entry.id, 'offered', 'expired');
+    await promoteFromWaitlist(entry.sessionId, roundId, now);
+    return { success: false, error: 'This offer has expired', status: 410 };
+  }
+
+  if (await db.getRegistration(participantId, entry.sessionId, roundId)) {
+    await db.transitionWaitlistEntry(entry.id, 'offered', 'cancelled');
+    return { success: false, error: 'You already have a registration for this round', status: 400 };
+  }
+
+  if (!(await db.transitionWaitlistEntry(entry.id, 'offered', 'claimed', { claimedAt: now.toISOString() }))) {
+    return { success: false, error: 'There is no open spot for you in this round yet', status: 400 };
+  }
+
+  const date = round.date || session.date;
+  const roundStarted = !!date && !!round.startTime
+    && now >= parseRoundStartTime(date, round.startTime, resolveTimeZone(session.timeZone));
+  const prefs: WaitlistPreferences = entry.preferences || {};
+
+  await db.createRegistration({
+    participantId,
+    sessionId: entry.sessionId,
+    roundId,
+    organizerId: session.userId,
+    status: 'registered',
+    team: prefs.team || null,
+    role: prefs.role || null,
+    topics: prefs.topics || [],
+    answers: prefs.answers || {},
+    meetingPoint: prefs.meetingPoint || null,
+  });
+  // Past T-0 there is no confirmation window left — claiming is the confirmation
+  if (roundStarted) {
+    await db.updateRegistrationStatus(participantId, entry.sessionId, roundId, 'confirmed', {
+      confirmedAt: now.toISOString(),
+    });
+  }
+
+  try {
+    await db.addParticipantAuditLog(participantId, 'waitlist-claimed', { sessionId: entry.sessionId, roundId });
+  } catch (error) {
+    errorLog('Audit log for waitlist claim failed (non-blocking):', error);
+  }
+
+  debugLog(`🎟️ Waitlist: ${participantId} claimed a spot in round ${roundId}${roundStarted ? ' (late arrival)' : ''}`);
+  return { success: true, sessionId: entry.sessionId, status: roundStarted ? 'confirmed' : 'registered', lateArrival: roundStarted };
+}
+
+/** Leave a round's waitlist; an open offer goes to the next in line */
+export async function leaveWaitlist(participantId: string, roundId: string, now: Date): Promise<boolean> {
+  const entry = await db.getWaitlistEntry(participantId, roundId);
+  if (!entry || !['waiting', 'offered'].includes(entry.status)) return false;
+
+  const left = await db.transitionWaitlistEntry(entry.id, entry.status, 'cancelled');
+  if (left && entry.status === 'offered') {
+    await promoteFromWaitlist(entry.sessionId, roundId, now);
+  }
+  return left;
+}
+
+/** Release every offer past its deadline and offer the spots again (cron) */
+export async function expireWaitlistOffers(now: Date): Promise<{ expired: number; offered: number }> {
+  const offers = await db.getExpiredWaitlistOffers(now.toISOString());
+  const rounds = new Map<string, string>();
+  let expired = 0;
+  for (const entry of offers) {
+    if (await db.transitionWaitlistEntry(entry.id, 'offered', 'expired')) expired++;
+    rounds.set(entry.roundId, entry.sessionId);
+  }
+
+  let offered = 0;
+  for (const [roundId, sessionId] of rounds) {
+    try {
+      offered += (await promoteFromWaitlist(sessionId, roundId, now)).length;
+    } catch (error) {
+      errorLog(`Waitlist promotion failed for round ${roundId}:`, error);
+    }
+  }
+  return { expired, offered };
+}
+
+/** The participant's open waitlist entries (dashboard) with their place in line */
+export async function getParticipantWaitlist(participantId: string) {
+  const entries = (await db.getWaitlistByParticipant(participantId))
+    .filter(e => e.status === 'waiting' || e.status === 'offered');
+
+  const result = [];
+  for (const entry of entries) {
+    const session = await db.getSessionById(entry.sessionId);
+    const round = session?.rounds?.find((r: any) => r.id === entry.roundId);
+    if (!session || !round) continue;
+    const queue = (await db.getWaitlistForRound(entry.roundId)).filter(e => e.status === 'waiting');
+    result.push({
+      sessionId: entry.sessionId,
+      roundId: entry.roundId,
+      sessionName: session.name,
+      roundName: round.name,
+      date: round.date || session.date,
+      startTime: round.startTime,
+      timeZone: session.timeZone || null,
+      status: entry.status,
+      position: entry.status === 'waiting' ? queue.findIndex(e => e.id === entry.id) + 1 : null,
+      offerExpiresAt: entry.offerExpiresAt,
+    });
+  }
+  return result;
+}
+
+/**
+ * "A spot opened up" — email with a claim button, plus an SMS when we have a
+ * phone, each unless the participant turned that channel off. Best effort: a
+ * failed send never takes the offer back.
+ */
+async function notifyWaitlistOffer(session: any, round: any, entries: WaitlistEntry[], expiresAt: Date) {
+  const texts = (await db.getAdminSetting('notification_texts')) || {};
+  const appUrl = Deno.env.get('APP_URL') || 'https://wonderelo.com';
+  const timeZone = resolveTimeZone(session.timeZone);
+  const deadline = formatDeadline(expiresAt, timeZone);
+  const roundTime = round.startTime ? formatZonedStartTime(round.date || session.date, round.startTime, timeZone) : '';
+
+  // One entry at a time, so each SMS is counted before the next quota check
+  for (const entry of entries as any[]) {
+    const link = entry.token ? `${appUrl}/p/${entry.token}?from=waitlist-offer` : appUrl;
+    const vars = {
+      name: `${entry.firstName || ''} ${entry.lastName || ''}`.trim(),
+      firstName: entry.firstName || '',
+      sessionName: session.name || '',
+      roundName: round.name || '',
+      deadline,
+      link,
+    };
+    const wants = (channel: NotificationChannel) => entry.notificationChannels?.[channel] !== false;
+    try {
+      if (entry.email && wants('email')) {
+        const { subject, html } = buildWaitlistOfferEmail({
+          firstName: entry.firstName || 'there',
+          sessionName: session.name || 'the session',
+          roundName: round.name || 'Round',
+          roundTime,
+          deadline,
+          claimUrl: link,
+        });
+        await sendEmail({ to: entry.email, subject, html, kind: 'waitlist-offer' });
+      }
+      const to = wants('sms') ? composeE164(entry.phone || undefined, entry.phoneCountry || undefined) : null;
+      if (to) {
+        await sendCountedSms({
+          kind: 'waitlist-offer',
+          organizerId: session.userId,
+          sessionId: session.id,
+          participantId: entry.participantId,
+          roundId: round.id,
+          message: { to, body: renderSmsTemplate(texts.smsWaitlistOffer || DEFAULT_WAITLIST_OFFER_SMS, vars) },
+        });
+      }
+    } catch (error) {
+      errorLog(`Waitlist offer notification failed for ${entry.participantId}:`, error);
+    }
+  }
+}
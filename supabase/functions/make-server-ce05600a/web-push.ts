@@ -0,0 +1,336 @@
+/**
+ * WEB PUSH
+ * Sends Web Push messages to participant browsers without a third-party
+ * library — VAPID (RFC 8292) for authentication and aes128gcm payload
+ * encryption (RFC 8291), both on WebCrypto.
+ *
+ * VAPID keys: VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (base64url, as printed by
+ * `npx web-push generate-vapid-keys`) when set. Otherwise a key pair is
+ * generated once and kept in admin_settings ('vapid_keys'), so subscriptions
+ * survive redeploys. Changing keys invalidates every stored subscription.
+ *
+ * The payload is the JSON the service worker's push handler reads:
+ * { title, body, tag, data: { url } }.
+ */
+
+import * as db from './db.ts';
+import { errorLog } from './debug.tsx';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** Opened when the notification is clicked */
+  url: string;
+  /** Same tag replaces an older notification instead of stacking */
+  tag?: string;
+  requireInteraction?: boolean;
+}
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface SendPushResult {
+  success: boolean;
+  status?: number;
+  /** The push service no longer knows this subscription (404/410) — delete it */
+  gone?: boolean;
+  error?: string;
+}
+
+interface VapidKeys {
+  publicKey: string;
+  privateKeyJwk: JsonWebKey;
+}
+
+// How long the push service keeps an undelivered message. Round notifications
+// are stale after a few minutes, so there is no point holding them for days.
+const DEFAULT_TTL_SECONDS = 10 * 60;
+
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+// ============================================================
+// PUSH SERVICE ENDPOINTS
+// ============================================================
+
+// We POST, with our VAPID JWT, to whatever endpoint a subscription names, and
+// anyone with a participant link can store one. Only the browsers' push
+// services are accepted, so the function can't be pointed at other hosts.
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'android.googleapis.com', 'web.push.apple.com'];
+const PUSH_SERVICE_HOST_SUFFIXES = ['.push.services.mozilla.com', '.notify.windows.com', '.push.apple.com'];
+
+/**
+ * True for an https URL on a known push service (Chrome/Edge/Opera via FCM,
+ * Firefox, Windows, Safari). IP literals, ports and credentials never pass,
+ * which keeps private and internal addresses out.
+ */
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase();
+  if (host.startsWith('[') || /^[\d.]+$/.test(host)) return false;
+  return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix));
+}
+
+// ============================================================
+// BASE64URL
+// ============================================================
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function concatBytes(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// ============================================================
+// VAPID KEYS
+// ============================================================
+
+/** JWK of a P-256 private key from the raw public point and private scalar */
+function toPrivateJwk(publicKey: Uint8Array, privateKey: Uint8Array): JsonWebKey {
+  return {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(publicKey.slice(1, 33)),
+    y: base64UrlEncode(publicKey.slice(33, 65)),
+    d: base64UrlEncode(privateKey),
+    ext: true,
+  };
+}
+
+export async function generateVapidKeys(): Promise<VapidKeys> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const privateKeyJwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+  return { publicKey: base64UrlEncode(publicKey), privateKeyJwk };
+}
+
+let vapidKeysPromise: Promise<VapidKeys> | null = null;
+
+async function loadVapidKeys(): Promise<VapidKeys> {
+  const envPublic = Deno.env.get('VAPID_PUBLIC_KEY');
+  const envPrivate = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (envPublic && envPrivate) {
+    return {
+      publicKey: envPublic,
+      privateKeyJwk: toPrivateJwk(base64UrlDecode(envPublic), base64UrlDecode(envPrivate)),
+    };
+  }
+
+  const stored = await db.getAdminSetting('vapid_keys');
+  if (stored?.publicKey && stored?.privateKeyJwk) return stored;
+
+  // Cold instances may generate at the same time: only the first pair is
+  // stored, and everyone signs with what's stored
+  const generated = await generateVapidKeys();
+  const keys = await db.initAdminSetting('vapid_keys', generated);
+  if (!keys?.publicKey || !keys?.privateKeyJwk) throw new Error('VAPID keys could not be stored');
+  if (keys.publicKey === generated.publicKey) console.log('🔑 Generated VAPID keys for web push');
+  return keys;
+}
+
+/** The key pair pushes are signed with (loaded once per worker) */
+export function getVapidKeys(): Promise<VapidKeys> {
+  if (!vapidKeysPromise) {
+    vapidKeysPromise = loadVapidKeys().catch((error) => {
+      vapidKeysPromise = null;
+      throw error;
+    });
+  }
+  return vapidKeysPromise;
+}
+
+/** The applicationServerKey browsers subscribe with */
+export async function getVapidPublicKey(): Promise<string> {
+  return (await getVapidKeys()).publicKey;
+}
+
+/** `Authorization: vapid t=<JWT>, k=<public key>` for one push service origin */
+async function buildVapidAuthorization(endpoint: string, keys: VapidKeys, now: Date): Promise<string> {
+  const encoder = new TextEncoder();
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + JWT_LIFETIME_SECONDS,
+    sub: Deno.env.get('VAPID_SUBJECT') || Deno.env.get('APP_URL') || 'https://wonderelo.com',
+  })));
+  const unsigned = `${header}.${claims}`;
+
+  const key = await crypto.subtle.importKey('jwk', keys.privateKeyJwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+  // WebCrypto's ECDSA signature is already the raw r||s form JWS expects
+  const signature = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, encoder.encode(unsigned)));
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${keys.publicKey}`;
+}
+
+// ============================================================
+// PAYLOAD ENCRYPTION (aes128gcm, RFC 8291)
+// ============================================================
+
+const RECORD_SIZE = 4096;
+
+async function hkdf(salt: BufferSource, ikm: BufferSource, info: BufferSource, length: number) {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Encrypt `plaintext` for one subscription. Returns the full request body:
+ * salt | record size | sender public key | ciphertext, as a single record.
+ */
+export async function encryptPushPayload(
+  plaintext: Uint8Array,
+  target: Pick<PushTarget, 'p256dh' | 'auth'>,
+) {
+  const encoder = new TextEncoder();
+  const receiverPublic = base64UrlDecode(target.p256dh);
+  const authSecret = base64UrlDecode(target.auth);
+
+  const receiverKey = await crypto.subtle.importKey('raw', receiverPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const senderPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const senderPublic = new Uint8Array(await crypto.subtle.exportKey('raw', senderPair.publicKey));
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: receiverKey }, senderPair.privateKey, 256),
+  );
+
+  const keyInfo = concatBytes(encoder.encode('WebPush: info\0'), receiverPublic, senderPublic);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record; no extra padding
+  const record = concatBytes(plaintext, new Uint8Array([2]));
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, record));
+
+  const header = new Uint8Array(16 + 4 + 1);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = senderPublic.length;
+  return concatBytes(header, senderPublic, ciphertext);
+}
+
+// ============================================================
+// SENDING
+// ============================================================
+
+/**
+ * Deliver one message to one subscription. Never throws; a 404/410 comes
+ * back as `gone` so the caller can drop the subscription.
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  message: PushMessage,
+  options: { ttlSeconds?: number; mock?: boolean } = {},
+): Promise<SendPushResult> {
+  if (options.mock) return { success: true, status: 201 };
+  // Stored before endpoints were checked: drop it rather than call an unknown host
+  if (!isAllowedPushEndpoint(target.endpoint)) {
+    return { success: false, gone: true, error: 'Not a known push service endpoint' };
+  }
+
+  try {
+    const keys = await getVapidKeys();
+    const payload = new TextEncoder().encode(JSON.stringify({
+      title: message.title,
+      body: message.body,
+      tag: message.tag,
+      requireInteraction: message.requireInteraction === true,
+      data: { url: message.url },
+    }));
+    const body = await encryptPushPayload(payload, target);
+
+    const response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': await buildVapidAuthorization(target.endpoint, keys, new Date()),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+        'Urgency': 'high',
+      },
+      body,
+    });
+
+    if (response.ok) return { success: true, status: response.status };
+    const text = await response.text().catch(() => '');
+    return {
+      success: false,
+      status: response.status,
+      gone: response.status === 404 || response.status === 410,
+      error: `Push service error ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Stored browser subscriptions of these participants, by participant */
+export async function getPushTargetsByParticipant(participantIds: string[]): Promise<Map<string, PushTarget[]>> {
+  const byParticipant = new Map<string, PushTarget[]>();
+  if (participantIds.length === 0) return byParticipant;
+  for (const sub of await db.getPushSubscriptionsForParticipants(participantIds)) {
+    const list = byParticipant.get(sub.participantId) || [];
+    list.push(sub);
+    byParticipant.set(sub.participantId, list);
+  }
+  return byParticipant;
+}
+
+/**
+ * Deliver one message to every browser of one participant. `reached` counts
+ * the browsers that took it; `gone` lists endpoints the caller should delete.
+ */
+export async function sendPushToBrowsers(
+  targets: PushTarget[],
+  message: PushMessage,
+  options: { mock?: boolean } = {},
+): Promise<{ reached: number; gone: string[]; error?: string }> {
+  let reached = 0;
+  let lastError: string | undefined;
+  const gone: string[] = [];
+  for (const target of targets) {
+    const result = await sendWebPush(target, message, { mock: options.mock });
+    if (result.success) reached++;
+    else if (result.gone) gone.push(target.endpoint);
+    else lastError = result.error;
+  }
+  if (reached === 0 && !lastError) lastError = 'all subscriptions expired';
+  return { reached, gone, error: reached === 0 ? lastError : undefined };
+}
+
+/** Drop subscriptions the push service reported gone; never throws */
+export async function forgetGoneSubscriptions(endpoints: string[]) {
+  try {
+    await db.deletePushSubscriptionsByEndpoint(endpoints);
+  } catch (error) {
+    errorLog('Deleting expired push subscriptions failed:', error);
+  }
+}
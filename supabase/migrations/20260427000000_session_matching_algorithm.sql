@@ -0,0 +1,18 @@
+-- Per-session pairing algorithm for groupSize=2.
+--
+-- 'greedy'  — bucket-sort greedy walk (previous and default behaviour).
+-- 'optimal' — maximum-weight matching (exact blossom up to a few hundred
+--             participants, local search + exact repair of the weakest
+--             pairs above that). Avoids the repeat meetings / same-team
+--             leftovers greedy strands at the tail in later rounds.
+--
+-- Groups of 3+ ignore this setting.
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS matching_algorithm TEXT NOT NULL DEFAULT 'greedy';
+
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_matching_algorithm_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_matching_algorithm_check
+  CHECK (matching_algorithm IN ('greedy', 'optimal'));
@@ -0,0 +1,19 @@
+-- Opt-in meeting memory across an organizer's sessions.
+--
+-- Meeting history used to be per session only, so regulars at a monthly
+-- meetup got paired with last month's partner again. When
+-- remember_across_sessions is on, matching also treats anyone the
+-- participant was matched with in the same organizer's other sessions within
+-- the last meeting_memory_days as "already met" (loses the 30-point bonus).
+--
+-- Lookup filters registrations by organizer + participant + matched_at, so
+-- add an index covering that path.
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS remember_across_sessions BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS meeting_memory_days INTEGER NOT NULL DEFAULT 90;
+
+CREATE INDEX IF NOT EXISTS idx_registrations_organizer_participant_matched
+  ON public.registrations (organizer_id, participant_id, matched_at)
+  WHERE match_id IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Per-session scoring profile for matching.
+--
+-- Shape: { "weights": { "notMet": 30, "team": 20, "topics": 10 },
+--          "hard":    { "notMet": false, "team": false, "topics": false } }
+--
+-- Weights replace the hard-coded 30/20/10 (each clamped to 0..40 by the
+-- matcher). A criterion marked hard becomes a rule instead of a bonus —
+-- e.g. hard team + across-teams = "never pair people from the same team".
+-- NULL means the default profile (30/20/10, everything soft).
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS scoring_profile JSONB DEFAULT NULL;
@@ -0,0 +1,42 @@
+-- Blocked pairs: "never match these two people together".
+--
+-- Two sources, both enforced as a hard constraint by matching (every group
+-- size — blocked people never end up in the same group):
+--   * participant — a participant blocks a partner from the post-meeting
+--     feedback step. Applies in EVERY organizer's sessions (safety first);
+--     blocker_participant_id records who asked. Not shown to organizers.
+--   * organizer — an organizer keeps two participants apart from the round
+--     participants admin. Applies only to that organizer's sessions.
+--
+-- Pairs are stored with participant_a < participant_b so matching can look
+-- them up from one side without caring who blocked whom.
+
+CREATE TABLE IF NOT EXISTS public.blocked_pairs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  participant_a TEXT NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  participant_b TEXT NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  blocked_by TEXT NOT NULL CHECK (blocked_by IN ('participant', 'organizer')),
+  blocker_participant_id TEXT REFERENCES public.participants(id) ON DELETE CASCADE,
+  organizer_id UUID REFERENCES public.organizer_profiles(id) ON DELETE CASCADE,
+  match_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (participant_a < participant_b),
+  CHECK (
+    (blocked_by = 'participant' AND blocker_participant_id IS NOT NULL AND organizer_id IS NULL)
+    OR (blocked_by = 'organizer' AND organizer_id IS NOT NULL AND blocker_participant_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blocked_pairs_participant_unique
+  ON public.blocked_pairs (participant_a, participant_b, blocker_participant_id)
+  WHERE blocked_by = 'participant';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blocked_pairs_organizer_unique
+  ON public.blocked_pairs (participant_a, participant_b, organizer_id)
+  WHERE blocked_by = 'organizer';
+
+CREATE INDEX IF NOT EXISTS idx_blocked_pairs_participant_b
+  ON public.blocked_pairs (participant_b);
+
+ALTER TABLE public.blocked_pairs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,27 @@
+-- Whole-event rotation planning ("plan all rounds").
+--
+-- With plan_all_rounds on, the first matching run of a multi-round session
+-- computes groups for EVERY round up front (round-robin for pairs, greedy
+-- social-golfer for larger groups) so nobody meets the same person twice.
+-- Each later round reuses its planned groups where all members confirmed
+-- and re-matches everyone else normally.
+--
+-- rotation_plans holds one plan per session:
+--   round_ids       — rounds in schedule order
+--   participant_ids — registered set the plan was computed for
+--   groups          — { "<roundId>": [["p1","p2"], ...], ... }
+--   repeat_pairs    — pairs meeting more than once in the plan (0 = ideal)
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS plan_all_rounds BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.rotation_plans (
+  session_id TEXT PRIMARY KEY REFERENCES public.sessions(id) ON DELETE CASCADE,
+  round_ids JSONB NOT NULL,
+  participant_ids JSONB NOT NULL,
+  groups JSONB NOT NULL,
+  repeat_pairs INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.rotation_plans ENABLE ROW LEVEL SECURITY;
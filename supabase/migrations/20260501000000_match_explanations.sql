@@ -0,0 +1,13 @@
+-- Per-match score explanation ("why were we paired?").
+--
+-- Written by the matcher alongside each match and shown to the organizer in
+-- the round view:
+--   { "source": "algorithm" | "rotation-plan",
+--     "score": 50, "maxScore": 60,
+--     "pairs": [{ "participantIds": ["p1","p2"], "score": 50,
+--                 "metBefore": false, "teamRuleMet": true,
+--                 "sharedTopics": [], "blocked": false }] }
+-- NULL for matches created before this column existed.
+
+ALTER TABLE public.matches
+  ADD COLUMN IF NOT EXISTS explanation JSONB;
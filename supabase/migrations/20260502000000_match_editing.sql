@@ -0,0 +1,60 @@
+-- Manual match editing (organizer swaps / moves / splits after matching).
+--
+-- One edit touches several registrations and may create a match, so it runs
+-- as a single function call = a single transaction. Any participant who is no
+-- longer 'matched' / 'no-match' (e.g. checked in meanwhile) aborts the whole
+-- edit with P0001 and nothing is written.
+--
+--   p_new_matches      [{ "id": "...", "meeting_point": "..." }]
+--   p_assignments      [{ "participant_id", "match_id", "match_partner_names",
+--                         "meeting_point_id", "identification_number",
+--                         "identification_options" }]
+--   p_edited_match_ids existing matches whose members changed — their stored
+--                      explanation described the old group and is cleared
+
+CREATE OR REPLACE FUNCTION public.apply_match_edit(
+  p_session_id TEXT,
+  p_round_id TEXT,
+  p_new_matches JSONB,
+  p_assignments JSONB,
+  p_edited_match_ids TEXT[]
+)
+RETURNS void AS $$
+DECLARE
+  a JSONB;
+  updated INTEGER;
+BEGIN
+  INSERT INTO public.matches (id, session_id, round_id, meeting_point)
+  SELECT m->>'id', p_session_id, p_round_id, m->>'meeting_point'
+  FROM jsonb_array_elements(p_new_matches) AS m;
+
+  FOR a IN SELECT * FROM jsonb_array_elements(p_assignments) LOOP
+    UPDATE public.registrations
+    SET status = 'matched',
+        match_id = a->>'match_id',
+        match_partner_names = a->'match_partner_names',
+        meeting_point_id = a->>'meeting_point_id',
+        matched_at = COALESCE(matched_at, now()),
+        identification_number = (a->>'identification_number')::INTEGER,
+        identification_options = a->'identification_options',
+        no_match_reason = NULL,
+        last_status_update = now()
+    WHERE participant_id = a->>'participant_id'
+      AND session_id = p_session_id
+      AND round_id = p_round_id
+      AND status IN ('matched', 'no-match');
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    IF updated = 0 THEN
+      RAISE EXCEPTION 'Participant % can no longer be moved', a->>'participant_id'
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  UPDATE public.matches
+  SET explanation = NULL
+  WHERE id = ANY(p_edited_match_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Service role only (called from the edge function)
+REVOKE EXECUTE ON FUNCTION public.apply_match_edit(TEXT, TEXT, JSONB, JSONB, TEXT[]) FROM PUBLIC, anon, authenticated;
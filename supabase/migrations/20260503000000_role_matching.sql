@@ -0,0 +1,19 @@
+-- Role-based (asymmetric) matching: mentor/mentee, investor/founder, buyer/seller.
+--
+-- sessions.role_matching shape:
+--   { "leadRole": "Mentor", "memberRole": "Mentee",
+--     "minMembers": 1, "maxMembers": 2, "peerFallback": true }
+--
+-- Every group is one lead + minMembers..maxMembers members. Whoever is left
+-- on the oversubscribed side meets each other in regular groups when
+-- peerFallback is on, otherwise gets no-match. NULL = no roles (teams and
+-- topics only, as before).
+--
+-- registrations.role is the participant's pick at registration (one of the
+-- two role names). Registrations without a role count as members.
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS role_matching JSONB DEFAULT NULL;
+
+ALTER TABLE public.registrations
+  ADD COLUMN IF NOT EXISTS role TEXT DEFAULT NULL;
@@ -0,0 +1,21 @@
+-- Organizer-defined registration questions that feed matching.
+--
+-- sessions.registration_questions: array of
+--   { "id": "q_seniority", "label": "Seniority", "type": "single" | "multi" | "scale",
+--     "options": ["Junior", "Mid", "Senior"],      -- single / multi
+--     "scaleMin": 1, "scaleMax": 5,                 -- scale
+--     "matchMode": "similar" | "different" | "display",
+--     "weight": 10, "required": true }
+--
+-- 'similar' / 'different' questions add up to `weight` points to a pair's
+-- score; 'display' questions are only shown to the organizer.
+--
+-- registrations.answers: questionId -> answer, answered once per session and
+-- copied to each of the participant's round registrations:
+--   { "q_seniority": "Senior", "q_industry": ["Fintech", "AI"], "q_energy": 4 }
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS registration_questions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.registrations
+  ADD COLUMN IF NOT EXISTS answers JSONB NOT NULL DEFAULT '{}'::jsonb;
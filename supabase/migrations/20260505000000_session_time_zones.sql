@@ -0,0 +1,16 @@
+-- Per-session IANA time zones.
+--
+-- Round dates and start times are wall-clock times in the session's zone
+-- (e.g. "Europe/London", "America/New_York"). Until now every session was
+-- read as Central European Time, so NULL keeps exactly that behaviour
+-- (resolveTimeZone falls back to Europe/Bratislava).
+--
+-- organizer_profiles.default_time_zone pre-fills new sessions; it is copied
+-- onto the session when it's created, so changing it later doesn't move
+-- existing sessions.
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS time_zone TEXT DEFAULT NULL;
+
+ALTER TABLE public.organizer_profiles
+  ADD COLUMN IF NOT EXISTS default_time_zone TEXT DEFAULT NULL;
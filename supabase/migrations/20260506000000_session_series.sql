@@ -0,0 +1,57 @@
+-- Recurring sessions (series) that materialize real occurrences.
+--
+-- sessions.is_recurring / frequency were stored by the form but never acted
+-- on. A series now owns a recurrence rule (see recurrence.ts):
+--   { frequency, interval, byWeekday, monthlyMode, until, count, exceptions }
+-- and a template (settings, status and rounds with day offsets, snapshotted
+-- from a session) that each new occurrence copies. Occurrences are ordinary
+-- sessions (own rounds, registrations, matching, SMS schedules) created a few
+-- weeks ahead by POST /cron/materialize-series, tagged with series_id and
+-- occurrence_date — the slot they fill, which stays put if that one
+-- occurrence is moved to another day.
+--
+-- Editing "all future" occurrences re-snapshots the template from the edited
+-- occurrence; deleting an occurrence adds its date to the rule's exceptions
+-- so it is never re-created.
+--
+-- series_subscriptions: participants registered for the whole series. Each
+-- new occurrence auto-registers them for every round with the preferences
+-- they picked on sign-up (team, role, topics, answers, meeting point).
+
+CREATE TABLE IF NOT EXISTS public.session_series (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.organizer_profiles(id) ON DELETE CASCADE,
+  recurrence JSONB NOT NULL,
+  anchor_date DATE NOT NULL,
+  template JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_series_user_id ON public.session_series (user_id);
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS series_id TEXT REFERENCES public.session_series(id) ON DELETE SET NULL;
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS occurrence_date DATE DEFAULT NULL;
+
+-- One session per series date: concurrent cron runs can't double-create
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_series_occurrence
+  ON public.sessions (series_id, occurrence_date)
+  WHERE series_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.series_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id TEXT NOT NULL REFERENCES public.session_series(id) ON DELETE CASCADE,
+  participant_id TEXT NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  organizer_id UUID NOT NULL REFERENCES public.organizer_profiles(id) ON DELETE CASCADE,
+  preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  cancelled_at TIMESTAMPTZ,
+
+  UNIQUE (series_id, participant_id)
+);
+
+ALTER TABLE public.session_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.series_subscriptions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,38 @@
+-- iCalendar feeds and .ics attachments.
+--
+-- calendar_events is the published state of every round's calendar entry.
+-- Calendar apps only apply an update or cancellation when its SEQUENCE is
+-- higher than the copy they have, so the sequence is bumped whenever the
+-- round's time, name or status changes (fingerprint = what was published
+-- last). Rows outlive deleted rounds and sessions — no foreign keys — so
+-- feeds can keep serving the cancellation; participant_ids records who was
+-- registered when a round was deleted (their registrations are gone by then).
+--
+-- organizer_profiles.calendar_token is the secret in the organizer's feed
+-- URL (calendar apps can't send an Authorization header). Resetting it
+-- revokes the old URL.
+
+CREATE TABLE IF NOT EXISTS public.calendar_events (
+  uid TEXT PRIMARY KEY,
+  organizer_id UUID NOT NULL REFERENCES public.organizer_profiles(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  round_id TEXT NOT NULL,
+  sequence INTEGER NOT NULL DEFAULT 0,
+  fingerprint TEXT NOT NULL,
+  event JSONB NOT NULL,
+  participant_ids TEXT[] NOT NULL DEFAULT '{}',
+  cancelled_at TIMESTAMPTZ DEFAULT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_organizer ON public.calendar_events(organizer_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_session ON public.calendar_events(session_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_participants ON public.calendar_events USING GIN (participant_ids);
+
+ALTER TABLE public.calendar_events ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.organizer_profiles
+  ADD COLUMN IF NOT EXISTS calendar_token TEXT DEFAULT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizer_profiles_calendar_token
+  ON public.organizer_profiles(calendar_token) WHERE calendar_token IS NOT NULL;
@@ -0,0 +1,36 @@
+-- Per-round waitlist for sessions with a participant limit.
+--
+-- When a round of a limited session is full, registration puts the
+-- participant in line instead of refusing them. Queue order is created_at.
+-- A spot that frees up (unregistration, 'unconfirmed' at T-0) is offered to
+-- the first person waiting: status 'offered' with a claim deadline. The offer
+-- holds the spot until it is claimed (a registration is created, 'claimed')
+-- or expires ('expired' — the spot goes to the next in line). 'cancelled'
+-- means the participant left the waitlist.
+--
+-- preferences keeps the registration choices (team, role, topics, answers,
+-- meeting point) so claiming needs no second form.
+
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id TEXT NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  round_id TEXT NOT NULL REFERENCES public.rounds(id) ON DELETE CASCADE,
+  participant_id TEXT NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  organizer_id UUID NOT NULL REFERENCES public.organizer_profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  offered_at TIMESTAMPTZ DEFAULT NULL,
+  offer_expires_at TIMESTAMPTZ DEFAULT NULL,
+  claimed_at TIMESTAMPTZ DEFAULT NULL,
+
+  UNIQUE (round_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_round ON public.waitlist_entries(round_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_participant ON public.waitlist_entries(participant_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_offers ON public.waitlist_entries(offer_expires_at)
+  WHERE status = 'offered';
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,11 @@
+-- Per-round participant limits.
+--
+-- Venues differ per round (the lunch round fits 200, the breakfast round 40).
+-- A round's own max_participants wins over the session limit
+-- (sessions.limit_participants + max_participants); NULL keeps the session
+-- limit, or no limit at all. Full rounds send newcomers to the waitlist, and
+-- the biggest round is what the organizer's plan has to cover.
+
+ALTER TABLE public.rounds
+  ADD COLUMN IF NOT EXISTS max_participants INTEGER DEFAULT NULL
+    CHECK (max_participants IS NULL OR max_participants > 0);
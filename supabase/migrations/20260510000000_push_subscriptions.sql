@@ -0,0 +1,25 @@
+-- Web push subscriptions per participant.
+--
+-- A participant who enables notifications on their dashboard hands the
+-- browser's PushSubscription to the server: the push service endpoint plus
+-- the p256dh / auth keys the payload is encrypted with. One participant can
+-- subscribe several browsers; an endpoint belongs to one participant (a
+-- browser re-subscribing under another token moves it). Rows are deleted on
+-- unsubscribe and when the push service answers 404/410 (subscription gone).
+--
+-- Pushes go out with the round notifications (confirm now, match, round
+-- ended) to participants without a phone number.
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  participant_id TEXT NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT DEFAULT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_participant ON public.push_subscriptions(participant_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
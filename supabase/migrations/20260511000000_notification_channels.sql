@@ -0,0 +1,46 @@
+-- Notification outbox for every channel, not just SMS.
+--
+-- sms_schedules stays one row per (round × kind): the QStash event fires one
+-- dispatch that now fans out over SMS, email and web push. sms_outbox gets a
+-- channel column and becomes one row per (kind × channel × participant ×
+-- round), so email and push get the same dedup, retry (re-arm on re-dispatch,
+-- admin resend) and audit trail SMS already had. The tables keep their names
+-- so the existing indexes, triggers and cascade FKs stay as they are.
+--
+-- recipient is what the message went to: the phone number, the email address
+-- or the number of browsers a push reached. phone_sent_to is kept for the
+-- rows written before this migration.
+--
+-- 'round-matched' is the push sent right after matching ("You're matched at
+-- Coffee corner"); it has no schedule row.
+--
+-- participants.notification_channels holds the participant's own choice per
+-- channel, e.g. {"sms": false, "push": true}. A missing key means "on"; the
+-- per-round notifications_enabled switch on registrations still silences a
+-- round entirely.
+
+ALTER TABLE public.sms_outbox
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'sms'
+    CHECK (channel IN ('sms', 'email', 'push'));
+
+ALTER TABLE public.sms_outbox
+  ADD COLUMN IF NOT EXISTS recipient TEXT DEFAULT NULL;
+
+UPDATE public.sms_outbox SET recipient = phone_sent_to WHERE recipient IS NULL AND phone_sent_to IS NOT NULL;
+
+ALTER TABLE public.sms_outbox DROP CONSTRAINT IF EXISTS sms_outbox_kind_check;
+ALTER TABLE public.sms_outbox ADD CONSTRAINT sms_outbox_kind_check
+  CHECK (kind IN ('round-before-confirmation', 'round-starting-soon', 'round-ended', 'round-matched'));
+
+ALTER TABLE public.sms_outbox DROP CONSTRAINT IF EXISTS sms_outbox_kind_participant_id_round_id_key;
+ALTER TABLE public.sms_outbox DROP CONSTRAINT IF EXISTS sms_outbox_kind_channel_participant_id_round_id_key;
+ALTER TABLE public.sms_outbox
+  ADD CONSTRAINT sms_outbox_kind_channel_participant_id_round_id_key
+  UNIQUE (kind, channel, participant_id, round_id);
+
+DROP INDEX IF EXISTS public.idx_outbox_round_kind_status;
+CREATE INDEX IF NOT EXISTS idx_outbox_round_kind_channel_status
+  ON public.sms_outbox (round_id, kind, channel, status);
+
+ALTER TABLE public.participants
+  ADD COLUMN IF NOT EXISTS notification_channels JSONB NOT NULL DEFAULT '{}'::jsonb;
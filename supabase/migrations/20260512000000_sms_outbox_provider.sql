@@ -0,0 +1,10 @@
+-- Which SMS gateway sent each outbox row.
+--
+-- SMS now goes through a provider chosen by SMS_PROVIDER (twilio, vonage,
+-- or fake for local runs and e2e). twilio_sid keeps the gateway's message id
+-- whatever the gateway, so delivery reports still find their row; provider
+-- says whose id it is. NULL for email and push rows and for SMS sent before
+-- this migration (all Twilio).
+
+ALTER TABLE public.sms_outbox
+  ADD COLUMN IF NOT EXISTS provider TEXT DEFAULT NULL;
@@ -0,0 +1,49 @@
+-- Two-way SMS: participants reply YES / NO / STOP to the round reminders.
+--
+-- participants.phone_e164 is the number the reminders go to, computed the
+-- same way as composeE164() in sms-dispatch.tsx (strip spaces, dashes and
+-- brackets; keep +..., turn 00... into +..., otherwise prefix phone_country
+-- and drop the local leading 0). Replies are matched on it, so it is indexed.
+--
+-- sms_inbound logs every reply and what it did. The unique
+-- (provider, provider_message_id) makes a gateway's webhook retry a no-op
+-- instead of a second confirmation or cancellation.
+
+ALTER TABLE public.participants
+  ADD COLUMN IF NOT EXISTS phone_e164 TEXT GENERATED ALWAYS AS (
+    CASE
+      WHEN coalesce(regexp_replace(phone, '[[:space:]()-]', '', 'g'), '') = '' THEN NULL
+      WHEN regexp_replace(phone, '[[:space:]()-]', '', 'g') LIKE '+%'
+        THEN regexp_replace(phone, '[[:space:]()-]', '', 'g')
+      WHEN regexp_replace(phone, '[[:space:]()-]', '', 'g') LIKE '00%'
+        THEN '+' || substr(regexp_replace(phone, '[[:space:]()-]', '', 'g'), 3)
+      WHEN coalesce(btrim(phone_country), '') = '' THEN NULL
+      ELSE
+        (CASE WHEN btrim(phone_country) LIKE '+%' THEN btrim(phone_country) ELSE '+' || btrim(phone_country) END)
+        || regexp_replace(regexp_replace(phone, '[[:space:]()-]', '', 'g'), '^0', '')
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_participants_phone_e164 ON public.participants (phone_e164);
+
+CREATE TABLE IF NOT EXISTS public.sms_inbound (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  provider_message_id TEXT NOT NULL,
+  from_number TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- What the reply was read as: yes / no / stop / unknown
+  intent TEXT NOT NULL,
+  participant_id TEXT,
+  session_id TEXT,
+  round_id TEXT,
+  -- confirmed / cancelled / stopped / not-possible / no-round / help / unknown-number
+  outcome TEXT,
+  reply TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_inbound_from ON public.sms_inbound (from_number, created_at DESC);
+
+ALTER TABLE public.sms_inbound ENABLE ROW LEVEL SECURITY;
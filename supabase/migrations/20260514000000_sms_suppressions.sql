@@ -0,0 +1,23 @@
+-- SMS opt-out list, honored by every SMS we send.
+--
+-- One row per phone number (E.164) that must not get SMS: the participant
+-- replied STOP, or an admin added it. Unlike participants.notification_channels
+-- it is per number, not per account, so it also covers other accounts and
+-- future registrations with the same phone. A START reply or an admin
+-- removes the row.
+--
+-- The monthly SMS quota counts sms_outbox rows per organizer since the start
+-- of the month; the index keeps that count off a full scan.
+
+CREATE TABLE IF NOT EXISTS public.sms_suppressions (
+  phone_e164 TEXT PRIMARY KEY,
+  -- stop-reply / admin
+  reason TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sms_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_session_channel_created
+  ON public.sms_outbox (session_id, channel, created_at);
@@ -0,0 +1,59 @@
+-- Email delivery log: one row per email sent through Resend.
+--
+-- sendEmail() (email.tsx) records every email before handing it to Resend,
+-- then the result: the Resend email id when it was accepted, the error when
+-- not. Resend's delivery webhooks (POST /email/webhook, Svix-signed) move the
+-- row on to delivered, bounced or complained, keyed by provider_message_id.
+--
+-- Subject, HTML and attachments are kept so a transient failure (rate limit,
+-- Resend 5xx, network) can be retried later by POST /cron/email-retry
+-- (next_attempt_at says when), and so an admin can resend any email as it
+-- was — "I never got my magic link". Round notification emails are also in
+-- sms_outbox (channel 'email'); this table is the delivery record of every
+-- email, whatever sent it.
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- magic-link / registration / welcome / round-notification / ... (EmailKind in email-outbox.ts)
+  kind TEXT NOT NULL DEFAULT 'other',
+  -- Lowercased, so support can look an address up as the user types it
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  attachments JSONB,
+
+  status TEXT NOT NULL DEFAULT 'attempting'
+    CHECK (status IN ('attempting','sent','delivered','bounced','complained','failed')),
+  provider_message_id TEXT,
+  -- Last webhook event, e.g. email.delivery_delayed
+  provider_status TEXT,
+
+  attempts INT NOT NULL DEFAULT 1,
+  last_error TEXT,
+  -- Set while a transient failure waits for the retry cron
+  next_attempt_at TIMESTAMPTZ,
+
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_outbox_provider_message
+  ON public.email_outbox (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_recipient
+  ON public.email_outbox (recipient, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_retry_due
+  ON public.email_outbox (next_attempt_at)
+  WHERE status = 'failed' AND next_attempt_at IS NOT NULL;
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS email_outbox_touch_updated ON public.email_outbox;
+CREATE TRIGGER email_outbox_touch_updated
+  BEFORE UPDATE ON public.email_outbox
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
@@ -0,0 +1,26 @@
+-- SMS sent outside the scheduled round dispatch, for the monthly quota.
+--
+-- sms_outbox only holds the round reminders (one row per kind × channel ×
+-- participant × round). Waitlist offers, "your match changed" texts and the
+-- answers to participants' replies go out one at a time, possibly several
+-- per participant and round, so they get their own log. sendCountedSms()
+-- (sms-quota.ts) checks the organizer's quota before each of them and
+-- records the ones the gateway accepted; the quota counts both tables.
+
+CREATE TABLE IF NOT EXISTS public.sms_direct_sends (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- waitlist-offer / match-updated / inbound-reply (DirectSmsKind in sms-outbox.ts)
+  kind TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  participant_id TEXT,
+  round_id TEXT,
+  recipient TEXT NOT NULL,
+  provider TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_direct_sends_session_created
+  ON public.sms_direct_sends (session_id, created_at);
+
+ALTER TABLE public.sms_direct_sends ENABLE ROW LEVEL SECURITY;